@@ -0,0 +1,166 @@
+CREATE TABLE "ingestion_jobs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"source_id" text NOT NULL,
+	"status" text DEFAULT 'extracting' NOT NULL,
+	"candidates" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"suggested_name" text,
+	"suggested_description" text,
+	"recall_set_id" text,
+	"error" text,
+	"created_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "ingestion_sources" (
+	"id" text PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"name" text,
+	"content" text NOT NULL,
+	"created_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "message_timings" (
+	"id" text PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"message_id" text NOT NULL,
+	"role" text NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"response_latency_ms" integer,
+	"token_count" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "rabbithole_events" (
+	"id" text PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"topic" text NOT NULL,
+	"trigger_message_index" integer NOT NULL,
+	"return_message_index" integer,
+	"depth" integer NOT NULL,
+	"related_recall_point_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"user_initiated" boolean NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"created_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "recall_outcomes" (
+	"id" text PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"recall_point_id" text NOT NULL,
+	"success" boolean NOT NULL,
+	"confidence" double precision NOT NULL,
+	"rating" text,
+	"reasoning" text,
+	"message_index_start" integer NOT NULL,
+	"message_index_end" integer NOT NULL,
+	"time_spent_ms" integer NOT NULL,
+	"created_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "recall_points" (
+	"id" text PRIMARY KEY NOT NULL,
+	"recall_set_id" text NOT NULL,
+	"content" text NOT NULL,
+	"context" text NOT NULL,
+	"fsrs_difficulty" double precision NOT NULL,
+	"fsrs_stability" double precision NOT NULL,
+	"fsrs_due" timestamp with time zone NOT NULL,
+	"fsrs_last_review" timestamp with time zone,
+	"fsrs_reps" integer DEFAULT 0 NOT NULL,
+	"fsrs_lapses" integer DEFAULT 0 NOT NULL,
+	"fsrs_state" text DEFAULT 'new' NOT NULL,
+	"recall_history" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "recall_sets" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text,
+	"name" text NOT NULL,
+	"description" text NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"discussion_system_prompt" text NOT NULL,
+	"created_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "session_messages" (
+	"id" text PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"role" text NOT NULL,
+	"content" text NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"token_count" integer
+);
+--> statement-breakpoint
+CREATE TABLE "session_metrics" (
+	"id" text PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"duration_ms" integer NOT NULL,
+	"active_time_ms" integer NOT NULL,
+	"avg_user_response_time_ms" integer NOT NULL,
+	"avg_assistant_response_time_ms" integer NOT NULL,
+	"recall_points_attempted" integer NOT NULL,
+	"recall_points_successful" integer NOT NULL,
+	"recall_points_failed" integer NOT NULL,
+	"overall_recall_rate" double precision NOT NULL,
+	"avg_confidence" double precision NOT NULL,
+	"total_messages" integer NOT NULL,
+	"user_messages" integer NOT NULL,
+	"assistant_messages" integer NOT NULL,
+	"avg_message_length" double precision NOT NULL,
+	"rabbithole_count" integer DEFAULT 0 NOT NULL,
+	"total_rabbithole_time_ms" integer DEFAULT 0 NOT NULL,
+	"avg_rabbithole_depth" double precision DEFAULT 0 NOT NULL,
+	"input_tokens" integer NOT NULL,
+	"output_tokens" integer NOT NULL,
+	"total_tokens" integer NOT NULL,
+	"estimated_cost_usd" double precision NOT NULL,
+	"engagement_score" integer NOT NULL,
+	"calculated_at" timestamp with time zone NOT NULL,
+	CONSTRAINT "session_metrics_session_id_unique" UNIQUE("session_id")
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text,
+	"recall_set_id" text NOT NULL,
+	"status" text DEFAULT 'in_progress' NOT NULL,
+	"target_recall_point_ids" jsonb NOT NULL,
+	"started_at" timestamp with time zone NOT NULL,
+	"ended_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" text PRIMARY KEY NOT NULL,
+	"email" text NOT NULL,
+	"name" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"created_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL,
+	"last_login_at" timestamp with time zone,
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_source_id_ingestion_sources_id_fk" FOREIGN KEY ("source_id") REFERENCES "public"."ingestion_sources"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_recall_set_id_recall_sets_id_fk" FOREIGN KEY ("recall_set_id") REFERENCES "public"."recall_sets"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_timings" ADD CONSTRAINT "message_timings_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_timings" ADD CONSTRAINT "message_timings_message_id_session_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."session_messages"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rabbithole_events" ADD CONSTRAINT "rabbithole_events_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recall_outcomes" ADD CONSTRAINT "recall_outcomes_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recall_outcomes" ADD CONSTRAINT "recall_outcomes_recall_point_id_recall_points_id_fk" FOREIGN KEY ("recall_point_id") REFERENCES "public"."recall_points"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recall_points" ADD CONSTRAINT "recall_points_recall_set_id_recall_sets_id_fk" FOREIGN KEY ("recall_set_id") REFERENCES "public"."recall_sets"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recall_sets" ADD CONSTRAINT "recall_sets_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_messages" ADD CONSTRAINT "session_messages_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_metrics" ADD CONSTRAINT "session_metrics_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_recall_set_id_recall_sets_id_fk" FOREIGN KEY ("recall_set_id") REFERENCES "public"."recall_sets"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ingestion_jobs_status_idx" ON "ingestion_jobs" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "message_timings_session_id_idx" ON "message_timings" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX "rabbithole_events_session_id_idx" ON "rabbithole_events" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX "recall_outcomes_session_id_idx" ON "recall_outcomes" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX "recall_outcomes_recall_point_id_idx" ON "recall_outcomes" USING btree ("recall_point_id");--> statement-breakpoint
+CREATE INDEX "recall_sets_user_id_idx" ON "recall_sets" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "session_metrics_session_id_idx" ON "session_metrics" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX "sessions_user_id_idx" ON "sessions" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "fsrs_parameters" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text,
+	"recall_set_id" text,
+	"weights" jsonb NOT NULL,
+	"review_count" integer NOT NULL,
+	"log_loss_before" double precision NOT NULL,
+	"log_loss_after" double precision NOT NULL,
+	"fitted_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "fsrs_parameters" ADD CONSTRAINT "fsrs_parameters_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fsrs_parameters" ADD CONSTRAINT "fsrs_parameters_recall_set_id_recall_sets_id_fk" FOREIGN KEY ("recall_set_id") REFERENCES "public"."recall_sets"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "fsrs_parameters_user_id_idx" ON "fsrs_parameters" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "fsrs_parameters_recall_set_id_idx" ON "fsrs_parameters" USING btree ("recall_set_id");
\ No newline at end of file
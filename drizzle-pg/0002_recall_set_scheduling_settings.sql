@@ -0,0 +1,4 @@
+ALTER TABLE "recall_sets" ADD COLUMN "desired_retention" double precision;--> statement-breakpoint
+ALTER TABLE "recall_sets" ADD COLUMN "maximum_interval_days" integer;--> statement-breakpoint
+ALTER TABLE "recall_sets" ADD COLUMN "max_points_per_session" integer;--> statement-breakpoint
+ALTER TABLE "recall_sets" ADD COLUMN "new_points_per_day" integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "sessions" ALTER COLUMN "recall_set_id" DROP NOT NULL;
\ No newline at end of file
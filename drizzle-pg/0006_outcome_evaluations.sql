@@ -0,0 +1,16 @@
+CREATE TABLE "outcome_evaluations" (
+	"id" text PRIMARY KEY NOT NULL,
+	"recall_outcome_id" text NOT NULL,
+	"evaluator_version" text NOT NULL,
+	"success" boolean NOT NULL,
+	"confidence" double precision NOT NULL,
+	"rating" text NOT NULL,
+	"reasoning" text NOT NULL,
+	"key_demonstrated_concepts" jsonb NOT NULL,
+	"missed_concepts" jsonb NOT NULL,
+	"created_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "outcome_evaluations" ADD CONSTRAINT "outcome_evaluations_recall_outcome_id_recall_outcomes_id_fk" FOREIGN KEY ("recall_outcome_id") REFERENCES "public"."recall_outcomes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "outcome_evaluations_recall_outcome_id_idx" ON "outcome_evaluations" USING btree ("recall_outcome_id");--> statement-breakpoint
+CREATE INDEX "outcome_evaluations_evaluator_version_idx" ON "outcome_evaluations" USING btree ("evaluator_version");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "sessions" ADD COLUMN "prompt_versions" jsonb;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "experiment_id" text;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "experiment_variant" text;--> statement-breakpoint
+CREATE INDEX "sessions_experiment_id_idx" ON "sessions" USING btree ("experiment_id");
\ No newline at end of file
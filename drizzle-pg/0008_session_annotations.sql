@@ -0,0 +1,12 @@
+CREATE TABLE "session_annotations" (
+	"id" text PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"message_index" integer,
+	"note" text NOT NULL,
+	"tags" jsonb NOT NULL,
+	"created_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_annotations" ADD CONSTRAINT "session_annotations_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "session_annotations_session_id_idx" ON "session_annotations" USING btree ("session_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "recall_outcomes" ADD COLUMN "hints_used" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
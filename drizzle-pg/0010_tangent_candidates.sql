@@ -0,0 +1,20 @@
+CREATE TABLE "tangent_candidates" (
+	"id" text PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"rabbithole_event_id" text NOT NULL,
+	"recall_set_id" text,
+	"topic" text NOT NULL,
+	"content" text NOT NULL,
+	"context" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"recall_point_id" text,
+	"created_at" timestamp with time zone NOT NULL,
+	"reviewed_at" timestamp with time zone,
+	CONSTRAINT "tangent_candidates_rabbithole_event_id_unique" UNIQUE("rabbithole_event_id")
+);
+--> statement-breakpoint
+ALTER TABLE "tangent_candidates" ADD CONSTRAINT "tangent_candidates_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tangent_candidates" ADD CONSTRAINT "tangent_candidates_rabbithole_event_id_rabbithole_events_id_fk" FOREIGN KEY ("rabbithole_event_id") REFERENCES "public"."rabbithole_events"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tangent_candidates" ADD CONSTRAINT "tangent_candidates_recall_set_id_recall_sets_id_fk" FOREIGN KEY ("recall_set_id") REFERENCES "public"."recall_sets"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tangent_candidates" ADD CONSTRAINT "tangent_candidates_recall_point_id_recall_points_id_fk" FOREIGN KEY ("recall_point_id") REFERENCES "public"."recall_points"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tangent_candidates_session_id_idx" ON "tangent_candidates" USING btree ("session_id");
\ No newline at end of file
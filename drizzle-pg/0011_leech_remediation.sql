@@ -0,0 +1,3 @@
+ALTER TABLE "recall_points" ADD COLUMN "suspended_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "recall_points" ADD COLUMN "deep_dive_requested_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "recall_sets" ADD COLUMN "leech_lapse_threshold" integer;
\ No newline at end of file
@@ -5,7 +5,8 @@
  * - Generating migrations from schema changes
  * - Running Drizzle Studio for database inspection
  *
- * The schema is defined in src/storage/schema.ts
+ * The schema is defined in src/storage/schema.ts. PostgreSQL migrations are
+ * generated separately from drizzle.pg.config.ts.
  */
 import { defineConfig } from 'drizzle-kit';
 
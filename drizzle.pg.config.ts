@@ -0,0 +1,32 @@
+/**
+ * Drizzle ORM Configuration (PostgreSQL)
+ *
+ * Used by drizzle-kit to generate PostgreSQL migrations when
+ * DATABASE_TYPE=postgres. The SQLite configuration lives in drizzle.config.ts.
+ *
+ * The schema is defined in src/storage/pg-schema.ts, a mirror of
+ * src/storage/schema.ts. Migrations are written to ./drizzle-pg so the two
+ * dialects keep separate migration histories.
+ */
+import { defineConfig } from 'drizzle-kit';
+
+export default defineConfig({
+  // Path to the PostgreSQL mirror of the schema
+  schema: './src/storage/pg-schema.ts',
+
+  // Output directory for generated PostgreSQL migrations
+  out: './drizzle-pg',
+
+  dialect: 'postgresql',
+
+  // Database connection configuration (only needed for studio/push)
+  dbCredentials: {
+    url: process.env.DATABASE_URL || 'postgres://localhost:5432/contextual_clarity',
+  },
+
+  // Enable verbose logging during migrations
+  verbose: true,
+
+  // Require confirmation for destructive operations
+  strict: true,
+});
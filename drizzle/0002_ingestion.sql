@@ -0,0 +1,24 @@
+CREATE TABLE `ingestion_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`source_id` text NOT NULL,
+	`status` text DEFAULT 'extracting' NOT NULL,
+	`candidates` text DEFAULT '[]' NOT NULL,
+	`suggested_name` text,
+	`suggested_description` text,
+	`recall_set_id` text,
+	`error` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`completed_at` integer,
+	FOREIGN KEY (`source_id`) REFERENCES `ingestion_sources`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`recall_set_id`) REFERENCES `recall_sets`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `ingestion_jobs_status_idx` ON `ingestion_jobs` (`status`);--> statement-breakpoint
+CREATE TABLE `ingestion_sources` (
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`name` text,
+	`content` text NOT NULL,
+	`created_at` integer NOT NULL
+);
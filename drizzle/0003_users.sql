@@ -0,0 +1,15 @@
+CREATE TABLE `users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`email` text NOT NULL,
+	`name` text NOT NULL,
+	`password_hash` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`last_login_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_email_unique` ON `users` (`email`);--> statement-breakpoint
+ALTER TABLE `recall_sets` ADD `user_id` text REFERENCES users(id);--> statement-breakpoint
+CREATE INDEX `recall_sets_user_id_idx` ON `recall_sets` (`user_id`);--> statement-breakpoint
+ALTER TABLE `sessions` ADD `user_id` text REFERENCES users(id);--> statement-breakpoint
+CREATE INDEX `sessions_user_id_idx` ON `sessions` (`user_id`);
\ No newline at end of file
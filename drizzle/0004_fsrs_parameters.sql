@@ -0,0 +1,15 @@
+CREATE TABLE `fsrs_parameters` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text,
+	`recall_set_id` text,
+	`weights` text NOT NULL,
+	`review_count` integer NOT NULL,
+	`log_loss_before` real NOT NULL,
+	`log_loss_after` real NOT NULL,
+	`fitted_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`recall_set_id`) REFERENCES `recall_sets`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `fsrs_parameters_user_id_idx` ON `fsrs_parameters` (`user_id`);--> statement-breakpoint
+CREATE INDEX `fsrs_parameters_recall_set_id_idx` ON `fsrs_parameters` (`recall_set_id`);
\ No newline at end of file
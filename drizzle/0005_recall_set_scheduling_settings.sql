@@ -0,0 +1,4 @@
+ALTER TABLE `recall_sets` ADD `desired_retention` real;--> statement-breakpoint
+ALTER TABLE `recall_sets` ADD `maximum_interval_days` integer;--> statement-breakpoint
+ALTER TABLE `recall_sets` ADD `max_points_per_session` integer;--> statement-breakpoint
+ALTER TABLE `recall_sets` ADD `new_points_per_day` integer;
\ No newline at end of file
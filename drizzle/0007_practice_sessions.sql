@@ -0,0 +1 @@
+ALTER TABLE `sessions` ADD `mode` text DEFAULT 'review' NOT NULL;
\ No newline at end of file
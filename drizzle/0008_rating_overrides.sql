@@ -0,0 +1,2 @@
+ALTER TABLE `recall_outcomes` ADD `ai_rating` text;--> statement-breakpoint
+ALTER TABLE `recall_outcomes` ADD `learner_rating` text;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `outcome_evaluations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`recall_outcome_id` text NOT NULL,
+	`evaluator_version` text NOT NULL,
+	`success` integer NOT NULL,
+	`confidence` real NOT NULL,
+	`rating` text NOT NULL,
+	`reasoning` text NOT NULL,
+	`key_demonstrated_concepts` text NOT NULL,
+	`missed_concepts` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`recall_outcome_id`) REFERENCES `recall_outcomes`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `outcome_evaluations_recall_outcome_id_idx` ON `outcome_evaluations` (`recall_outcome_id`);--> statement-breakpoint
+CREATE INDEX `outcome_evaluations_evaluator_version_idx` ON `outcome_evaluations` (`evaluator_version`);
\ No newline at end of file
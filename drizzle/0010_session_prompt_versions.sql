@@ -0,0 +1,4 @@
+ALTER TABLE `sessions` ADD `prompt_versions` text;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `experiment_id` text;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `experiment_variant` text;--> statement-breakpoint
+CREATE INDEX `sessions_experiment_id_idx` ON `sessions` (`experiment_id`);
\ No newline at end of file
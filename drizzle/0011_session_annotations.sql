@@ -0,0 +1,12 @@
+CREATE TABLE `session_annotations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text NOT NULL,
+	`message_index` integer,
+	`note` text NOT NULL,
+	`tags` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `session_annotations_session_id_idx` ON `session_annotations` (`session_id`);
\ No newline at end of file
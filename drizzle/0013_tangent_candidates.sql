@@ -0,0 +1,20 @@
+CREATE TABLE `tangent_candidates` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text NOT NULL,
+	`rabbithole_event_id` text NOT NULL,
+	`recall_set_id` text,
+	`topic` text NOT NULL,
+	`content` text NOT NULL,
+	`context` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`recall_point_id` text,
+	`created_at` integer NOT NULL,
+	`reviewed_at` integer,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`rabbithole_event_id`) REFERENCES `rabbithole_events`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`recall_set_id`) REFERENCES `recall_sets`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`recall_point_id`) REFERENCES `recall_points`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tangent_candidates_rabbithole_event_id_unique` ON `tangent_candidates` (`rabbithole_event_id`);--> statement-breakpoint
+CREATE INDEX `tangent_candidates_session_id_idx` ON `tangent_candidates` (`session_id`);
\ No newline at end of file
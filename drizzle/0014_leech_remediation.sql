@@ -0,0 +1,3 @@
+ALTER TABLE `recall_points` ADD `suspended_at` integer;--> statement-breakpoint
+ALTER TABLE `recall_points` ADD `deep_dive_requested_at` integer;--> statement-breakpoint
+ALTER TABLE `recall_sets` ADD `leech_lapse_threshold` integer;
\ No newline at end of file
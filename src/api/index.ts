@@ -50,6 +50,7 @@ export {
 
   // Error handling
   errorHandler,
+  appErrorHandler,
   AppError,
   ErrorCodes,
   notFoundError,
@@ -66,6 +67,7 @@ export {
   rateLimiter,
   generalRateLimiter,
   llmRateLimiter,
+  authRateLimiter,
   clearRateLimitStore,
   RATE_LIMITS,
   type RateLimitConfig,
@@ -75,10 +77,17 @@ export {
   validateQuery,
   getValidatedBody,
   getValidatedQuery,
+
+  // Authentication
+  userContext,
+  requireAuth,
+  getUser,
+  getAuthToken,
+  AUTH_COOKIE_NAME,
 } from './middleware';
 
 // Re-export route modules
-export { createApiRouter, healthRoutes } from './routes';
+export { createApiRouter, healthRoutes, authRoutes } from './routes';
 
 // Re-export API types
 export {
@@ -93,12 +102,16 @@ export {
   createRecallPointSchema,
   updateRecallSetSchema,
   updateRecallPointSchema,
+  registerSchema,
+  loginSchema,
 
   // Inferred TypeScript types from schemas
   type CreateRecallSetInput,
   type CreateRecallPointInput,
   type UpdateRecallSetInput,
   type UpdateRecallPointInput,
+  type RegisterInput,
+  type LoginInput,
 } from './types';
 
 // Re-export response utilities
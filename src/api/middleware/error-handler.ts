@@ -35,7 +35,7 @@
  * ```
  */
 
-import type { MiddlewareHandler, Context } from 'hono';
+import type { MiddlewareHandler, ErrorHandler, Context } from 'hono';
 import type { ContentfulStatusCode } from 'hono/utils/http-status';
 import { isProduction } from '../../config';
 
@@ -212,19 +212,48 @@ export function errorHandler(): MiddlewareHandler {
     try {
       await next();
     } catch (error) {
-      // Log the error for debugging/monitoring
-      console.error('[Error Handler]', error);
-
-      // Format the error into standard response
-      const { response, statusCode } = formatErrorResponse(error);
-
-      // Return JSON error response
-      // Cast statusCode to ContentfulStatusCode for Hono's type system
-      return c.json(response, statusCode as ContentfulStatusCode);
+      return respondWithError(c, error);
     }
   };
 }
 
+/**
+ * Creates the app-level error handler for `app.onError()`.
+ *
+ * Hono catches errors thrown by route handlers and middleware where they
+ * are thrown and passes them to the app's onError handler, so they never
+ * reach the errorHandler() middleware's try-catch. Registering this handler
+ * gives those errors the same JSON format and status code (e.g. a 401
+ * AppError from requireAuth()).
+ *
+ * @returns Hono error handler
+ *
+ * @example
+ * ```typescript
+ * const app = new Hono();
+ * app.onError(appErrorHandler());
+ * app.use('*', errorHandler());
+ * ```
+ */
+export function appErrorHandler(): ErrorHandler {
+  return (error, c) => respondWithError(c, error);
+}
+
+/**
+ * Logs an error and converts it into the standard JSON error response.
+ */
+function respondWithError(c: Context, error: unknown): Response {
+  // Log the error for debugging/monitoring
+  console.error('[Error Handler]', error);
+
+  // Format the error into standard response
+  const { response, statusCode } = formatErrorResponse(error);
+
+  // Return JSON error response
+  // Cast statusCode to ContentfulStatusCode for Hono's type system
+  return c.json(response, statusCode as ContentfulStatusCode);
+}
+
 /**
  * Helper function to create a not found error for resources.
  *
@@ -7,7 +7,9 @@
  * 1. Error Handler - Catches and formats all errors
  * 2. Logger - Logs request information
  * 3. CORS - Handles cross-origin requests
- * 4. Rate Limiter - Protects against abuse
+ * 4. User Context - Resolves the logged-in user from the session token
+ * 5. Rate Limiter - Protects against abuse
+ * 6. Require Auth - Rejects unauthenticated requests to protected routes
  *
  * @example
  * ```typescript
@@ -40,6 +42,7 @@ export {
 // Error handler for consistent error responses
 export {
   errorHandler,
+  appErrorHandler,
   AppError,
   ErrorCodes,
   notFoundError,
@@ -60,6 +63,7 @@ export {
   rateLimiter,
   generalRateLimiter,
   llmRateLimiter,
+  authRateLimiter,
   clearRateLimitStore,
   RATE_LIMITS,
   type RateLimitConfig,
@@ -68,9 +72,12 @@ export {
 // User context middleware for authentication and authorization
 export {
   userContext,
+  requireAuth,
   getUser,
   getUserOptional,
   isAuthenticated,
+  getAuthToken,
+  AUTH_COOKIE_NAME,
 } from './user-context';
 
 // Request body validation with Zod schemas
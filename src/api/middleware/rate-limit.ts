@@ -298,6 +298,26 @@ export function llmRateLimiter(
   });
 }
 
+/**
+ * Creates a rate limiter for login and registration endpoints.
+ * Convenience function using RATE_LIMITS.AUTH configuration.
+ *
+ * Counts are kept separately from the other limiters so ordinary API
+ * traffic does not use up a client's login attempts.
+ *
+ * @param overrides - Optional configuration overrides
+ * @returns Configured rate limiter middleware
+ */
+export function authRateLimiter(
+  overrides?: Partial<RateLimitConfig>
+): MiddlewareHandler {
+  return rateLimiter({
+    ...RATE_LIMITS.AUTH,
+    keyGenerator: (c) => `auth:${defaultKeyGenerator(c)}`,
+    ...overrides,
+  });
+}
+
 /**
  * Clears all rate limit entries.
  * Useful for testing or administrative reset.
@@ -1,26 +1,27 @@
 /**
  * User Context Middleware
  *
- * Middleware that injects user context into all API route handlers.
- * This enables user-aware operations throughout the API layer.
+ * Middleware that resolves the authenticated user for every API request and
+ * makes it available to route handlers.
  *
- * Current Implementation:
- * - Single hardcoded default user for all requests
- * - No authentication required
+ * Authentication:
+ * 1. The login token is read from the `Authorization: Bearer <token>` header
+ *    or, for the web app, the httpOnly session cookie set at login
+ * 2. The AuthService verifies the token and loads the user from the database
+ * 3. The user is stored in the Hono context
  *
- * Future Auth Implementation:
- * When adding authentication (JWT/session-based), this middleware will:
- * 1. Extract auth token from Authorization header or cookies
- * 2. Validate the token (JWT verification or session lookup)
- * 3. Fetch user data from database
- * 4. Set user in context (or throw 401 if invalid)
+ * userContext() never rejects a request by itself; requireAuth() does that,
+ * so public routes (login, register) can be mounted before it. Unauthenticated
+ * requests to protected routes get a 401 from the error handler.
  *
  * @example
  * ```typescript
  * // In server.ts
- * import { userContext, getUser } from '@/api/middleware/user-context';
+ * import { userContext, requireAuth, getUser } from '@/api/middleware/user-context';
  *
- * app.use('/api/*', userContext());
+ * app.use('/api/*', userContext(authService));
+ * app.route('/api/auth', authRoutes(authService)); // public
+ * app.use('/api/*', requireAuth());                // everything after is protected
  *
  * // In route handlers
  * app.get('/api/recall-sets', (c) => {
@@ -31,7 +32,10 @@
  */
 
 import type { Context, Next } from 'hono';
-import { DEFAULT_USER, type User } from '../types/user';
+import { parse as parseCookies } from 'hono/utils/cookie';
+import type { AuthService } from '@/core/auth';
+import type { User } from '../types/user';
+import { AppError, ErrorCodes } from './error-handler';
 
 // ============================================================================
 // Context Variable Type Declaration
@@ -50,79 +54,80 @@ declare module 'hono' {
   }
 }
 
+// ============================================================================
+// Token Extraction
+// ============================================================================
+
+/**
+ * Name of the httpOnly cookie that carries the login token for the web app.
+ */
+export const AUTH_COOKIE_NAME = 'cc_session';
+
+/**
+ * Extracts the login token from a request.
+ *
+ * Works on a raw Request so it can also be used for WebSocket upgrades,
+ * which are handled outside the Hono app.
+ *
+ * @param req - The incoming request
+ * @returns The Bearer token or session cookie value, or null if neither is present
+ */
+export function getAuthToken(req: Request): string | null {
+  const authHeader = req.headers.get('Authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    const token = authHeader.slice('Bearer '.length).trim();
+    if (token) {
+      return token;
+    }
+  }
+
+  const cookieHeader = req.headers.get('Cookie');
+  if (cookieHeader) {
+    return parseCookies(cookieHeader, AUTH_COOKIE_NAME)[AUTH_COOKIE_NAME] ?? null;
+  }
+
+  return null;
+}
+
 // ============================================================================
 // User Context Middleware
 // ============================================================================
 
 /**
- * Creates middleware that adds user context to all requests.
+ * Creates middleware that resolves the authenticated user for each request.
  *
- * This middleware injects a user object into the Hono context, making
- * it available to all subsequent route handlers via `c.get('user')` or
- * the type-safe `getUser(c)` helper.
+ * If the request carries a valid token, the user is set in the Hono context
+ * and available via `getUser(c)`. Requests without a valid token continue
+ * without a user; pair this with requireAuth() to reject them.
  *
+ * @param authService - Service used to verify tokens and load users
  * @returns Hono middleware function
+ */
+export function userContext(authService: AuthService) {
+  return async (c: Context, next: Next) => {
+    const user = await authService.authenticate(getAuthToken(c.req.raw));
+
+    if (user) {
+      c.set('user', user);
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Creates middleware that rejects requests without an authenticated user.
  *
- * @example
- * ```typescript
- * // Apply to all API routes
- * app.use('/api/*', userContext());
- *
- * // Or apply globally
- * app.use('*', userContext());
- * ```
+ * Must be applied after userContext(). Throws an UNAUTHORIZED AppError,
+ * which the error handler turns into a 401 response.
  *
- * Future Auth Integration:
- * ```typescript
- * export function userContext() {
- *   return async (c: Context, next: Next) => {
- *     const token = c.req.header('Authorization')?.replace('Bearer ', '');
- *
- *     if (!token) {
- *       // Allow unauthenticated requests for public routes
- *       c.set('user', null);
- *       await next();
- *       return;
- *     }
- *
- *     try {
- *       const payload = await verifyJWT(token);
- *       const user = await getUserById(payload.userId);
- *       c.set('user', user);
- *     } catch (error) {
- *       return c.json({ error: 'Invalid token' }, 401);
- *     }
- *
- *     await next();
- *   };
- * }
- * ```
+ * @returns Hono middleware function
  */
-export function userContext() {
+export function requireAuth() {
   return async (c: Context, next: Next) => {
-    // ---------------------------------------------------------------------------
-    // Future: Extract and validate authentication token
-    // ---------------------------------------------------------------------------
-    // const authHeader = c.req.header('Authorization');
-    // if (authHeader) {
-    //   const token = authHeader.replace('Bearer ', '');
-    //   try {
-    //     const payload = await verifyJWT(token, process.env.JWT_SECRET);
-    //     const user = await getUserFromDatabase(payload.userId);
-    //     c.set('user', user);
-    //   } catch (error) {
-    //     // Token invalid or expired
-    //     return c.json({
-    //       success: false,
-    //       error: { code: 'UNAUTHORIZED', message: 'Invalid or expired token' }
-    //     }, 401);
-    //   }
-    // }
-
-    // ---------------------------------------------------------------------------
-    // Current: Use default single user for all requests
-    // ---------------------------------------------------------------------------
-    c.set('user', DEFAULT_USER);
+    if (!isAuthenticated(c)) {
+      throw unauthorizedError();
+    }
 
     await next();
   };
@@ -136,11 +141,11 @@ export function userContext() {
  * Type-safe getter for user from Hono context.
  *
  * Use this helper instead of directly calling `c.get('user')` to ensure
- * the user context middleware has been applied and the user exists.
+ * the request is authenticated.
  *
  * @param c - Hono context object
  * @returns The authenticated user
- * @throws Error if user context middleware was not applied
+ * @throws AppError (401) if the request is not authenticated
  *
  * @example
  * ```typescript
@@ -154,9 +159,7 @@ export function getUser(c: Context): User {
   const user = c.get('user');
 
   if (!user) {
-    throw new Error(
-      'User context not initialized. Ensure userContext() middleware is applied to this route.'
-    );
+    throw unauthorizedError();
   }
 
   return user;
@@ -170,21 +173,6 @@ export function getUser(c: Context): User {
  *
  * @param c - Hono context object
  * @returns The authenticated user, or null if not authenticated
- *
- * @example
- * ```typescript
- * app.get('/api/public-data', (c) => {
- *   const user = getUserOptional(c);
- *   const data = getPublicData();
- *
- *   if (user) {
- *     // Add user-specific data for authenticated users
- *     data.savedItems = getUserSavedItems(user.id);
- *   }
- *
- *   return c.json(data);
- * });
- * ```
  */
 export function getUserOptional(c: Context): User | null {
   return c.get('user') || null;
@@ -199,3 +187,10 @@ export function getUserOptional(c: Context): User | null {
 export function isAuthenticated(c: Context): boolean {
   return c.get('user') !== null && c.get('user') !== undefined;
 }
+
+/**
+ * Creates the error returned for requests that need a logged-in user.
+ */
+function unauthorizedError(): AppError {
+  return new AppError(ErrorCodes.UNAUTHORIZED, 'Authentication required', 401);
+}
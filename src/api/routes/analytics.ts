@@ -0,0 +1,210 @@
+/**
+ * Analytics API Routes
+ *
+ * This module provides the FSRS model's view of the authenticated user's
+ * memory: how recall of each point is expected to fade without review
+ * (retention curves), how far memory has been built up across a set
+ * (stability distribution), and which points keep being reviewed without
+ * sticking (leeches).
+ *
+ * Endpoints:
+ * - GET /api/analytics/recall-sets/:id/memory - Retention curves, stability distribution and leeches
+ * - GET /api/analytics/recall-sets/:id/leeches - Leeches of a recall set
+ * - GET /api/analytics/recall-points/:id/memory - Memory state and retention curve of a point
+ *
+ * Recall sets are looked up through a repository scoped to the user, so
+ * another user's sets and points are reported as not found.
+ *
+ * @example
+ * ```typescript
+ * import { analyticsRoutes } from '@/api/routes/analytics';
+ *
+ * // Mount in the API router
+ * app.route('/analytics', analyticsRoutes());
+ *
+ * // Access via:
+ * // GET /api/analytics/recall-sets/rs_abc123/memory?days=90
+ * // GET /api/analytics/recall-sets/rs_abc123/leeches
+ * // GET /api/analytics/recall-points/rp_xyz789/memory
+ * ```
+ */
+
+import { Hono } from 'hono';
+import { AnalyticsCalculator } from '../../core/analytics';
+import {
+  RecallSetRepository,
+  RecallPointRepository,
+  SessionMetricsRepository,
+  RecallOutcomeRepository,
+  RabbitholeEventRepository,
+} from '../../storage/repositories';
+import { db } from '../../storage/db';
+import { getUser } from '../middleware/user-context';
+import { success, badRequest, notFound } from '../utils/response';
+
+// ============================================================================
+// Configuration Constants
+// ============================================================================
+
+/**
+ * Default number of days the retention curves cover.
+ */
+const DEFAULT_CURVE_DAYS = 30;
+
+/**
+ * Maximum number of days the retention curves can cover.
+ */
+const MAX_CURVE_DAYS = 365;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Creates an AnalyticsCalculator whose recall set lookups are scoped to
+ * the given user.
+ *
+ * @param userId - The user whose recall sets the calculator can see
+ * @returns A configured AnalyticsCalculator
+ */
+function createAnalyticsCalculator(userId: string): AnalyticsCalculator {
+  return new AnalyticsCalculator(
+    new SessionMetricsRepository(db),
+    new RecallOutcomeRepository(db),
+    new RabbitholeEventRepository(db),
+    new RecallSetRepository(db, userId),
+    new RecallPointRepository(db)
+  );
+}
+
+/**
+ * Parses and validates the 'days' query parameter for retention curves.
+ *
+ * @param daysParam - The raw query parameter value (may be undefined)
+ * @returns The validated days value, or an error object if invalid
+ */
+function parseCurveDays(
+  daysParam: string | undefined
+): { value: number } | { error: string } {
+  // Use default if not provided
+  if (!daysParam) {
+    return { value: DEFAULT_CURVE_DAYS };
+  }
+
+  // Parse as integer
+  const days = parseInt(daysParam, 10);
+
+  // Validate it's a valid number
+  if (isNaN(days)) {
+    return { error: `Invalid days parameter: '${daysParam}' is not a number` };
+  }
+
+  // Validate it's positive
+  if (days <= 0) {
+    return { error: 'Days must be a positive number' };
+  }
+
+  // Cap at maximum to bound the number of curve samples
+  if (days > MAX_CURVE_DAYS) {
+    return { value: MAX_CURVE_DAYS };
+  }
+
+  return { value: days };
+}
+
+// ============================================================================
+// Route Factory
+// ============================================================================
+
+/**
+ * Creates the analytics router.
+ *
+ * @returns Hono router instance with memory analytics routes
+ */
+export function analyticsRoutes(): Hono {
+  const router = new Hono();
+
+  /**
+   * GET /recall-sets/:id/memory
+   *
+   * Returns the retention curve of every reviewed point in the set and
+   * their average, the stability distribution, and the set's leeches.
+   *
+   * Query Parameters:
+   * - days: Days after today the retention curves cover (default: 30, max: 365)
+   *
+   * Response: 200 OK with RecallSetMemoryAnalytics, or 404 if not found
+   */
+  router.get('/recall-sets/:id/memory', async (c) => {
+    const id = c.req.param('id');
+    const daysResult = parseCurveDays(c.req.query('days'));
+    if ('error' in daysResult) {
+      return badRequest(c, daysResult.error, { parameter: 'days' });
+    }
+
+    const userId = getUser(c).id;
+    if (!(await new RecallSetRepository(db, userId).findById(id))) {
+      return notFound(c, 'RecallSet', id);
+    }
+
+    const memory = await createAnalyticsCalculator(userId).calculateMemoryAnalytics(
+      id,
+      daysResult.value
+    );
+    return success(c, memory);
+  });
+
+  /**
+   * GET /recall-sets/:id/leeches
+   *
+   * Returns the set's leeches: points with repeated lapses, or whose
+   * stability stays low however often they are reviewed. Most lapses first.
+   *
+   * Response: 200 OK with LeechPoint[], or 404 if not found
+   */
+  router.get('/recall-sets/:id/leeches', async (c) => {
+    const id = c.req.param('id');
+    const userId = getUser(c).id;
+    if (!(await new RecallSetRepository(db, userId).findById(id))) {
+      return notFound(c, 'RecallSet', id);
+    }
+
+    return success(c, await createAnalyticsCalculator(userId).findLeeches(id));
+  });
+
+  /**
+   * GET /recall-points/:id/memory
+   *
+   * Returns a point's memory state and retention curve.
+   *
+   * Query Parameters:
+   * - days: Days after today the retention curve covers (default: 30, max: 365)
+   *
+   * Response: 200 OK with PointMemoryState, or 404 if the point is not
+   * found in one of the user's recall sets
+   */
+  router.get('/recall-points/:id/memory', async (c) => {
+    const id = c.req.param('id');
+    const daysResult = parseCurveDays(c.req.query('days'));
+    if ('error' in daysResult) {
+      return badRequest(c, daysResult.error, { parameter: 'days' });
+    }
+
+    // The point is only visible through a recall set the user owns
+    const userId = getUser(c).id;
+    const point = await new RecallPointRepository(db).findById(id);
+    if (!point || !(await new RecallSetRepository(db, userId).findById(point.recallSetId))) {
+      return notFound(c, 'RecallPoint', id);
+    }
+
+    const memory = await createAnalyticsCalculator(userId).calculatePointMemory(
+      id,
+      daysResult.value
+    );
+    return success(c, memory);
+  });
+
+  return router;
+}
+
+export default analyticsRoutes;
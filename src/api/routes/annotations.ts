@@ -0,0 +1,89 @@
+/**
+ * Session Annotation Report API Routes
+ *
+ * This module provides the report on the notes and tags the authenticated
+ * user made on their sessions while refining the prompts: how often each
+ * tag came up per prompt version, or per recall set. The annotations
+ * themselves are created and edited under /api/sessions/:id/annotations.
+ *
+ * Endpoints:
+ * - GET /api/annotations/report - Tag frequencies by prompt version or recall set
+ *
+ * @example
+ * ```typescript
+ * import { annotationsRoutes } from '@/api/routes/annotations';
+ *
+ * // Mount in the API router
+ * app.route('/annotations', annotationsRoutes());
+ *
+ * // Access via:
+ * // GET /api/annotations/report?groupBy=prompt-version&promptKind=tutor
+ * // GET /api/annotations/report?groupBy=recall-set
+ * ```
+ */
+
+import { Hono } from 'hono';
+import { db } from '@/storage/db';
+import { SessionAnnotationRepository } from '@/storage/repositories';
+import { buildAnnotationTagReport, type AnnotationGrouping } from '@/core/analytics';
+import { DEFAULT_PROMPT_VERSIONS, type PromptKind } from '@/llm/prompts';
+import { getUser } from '../middleware/user-context';
+import { success, badRequest } from '../utils/response';
+
+/**
+ * Groupings the report accepts.
+ */
+const GROUPINGS: AnnotationGrouping[] = ['prompt-version', 'recall-set'];
+
+/**
+ * Prompt kinds whose versions the report can group by.
+ */
+const PROMPT_KINDS = Object.keys(DEFAULT_PROMPT_VERSIONS) as PromptKind[];
+
+// ============================================================================
+// Route Factory
+// ============================================================================
+
+/**
+ * Creates the annotations router.
+ *
+ * @returns Hono router instance with annotation report routes
+ */
+export function annotationsRoutes(): Hono {
+  const router = new Hono();
+
+  /**
+   * GET /report
+   *
+   * Counts how often each annotation tag was used, per group.
+   *
+   * Query Parameters:
+   * - groupBy: 'prompt-version' (default) or 'recall-set'
+   * - promptKind: Whose prompt versions to group by: 'tutor' (default),
+   *   'evaluator' or 'rabbithole'
+   * - recallSetId: Optional recall set to restrict the annotations to
+   */
+  router.get('/report', async (c) => {
+    const groupBy = (c.req.query('groupBy') ?? 'prompt-version') as AnnotationGrouping;
+    if (!GROUPINGS.includes(groupBy)) {
+      return badRequest(c, `Invalid groupBy '${groupBy}'. Expected one of: ${GROUPINGS.join(', ')}`);
+    }
+
+    const promptKind = (c.req.query('promptKind') ?? 'tutor') as PromptKind;
+    if (!PROMPT_KINDS.includes(promptKind)) {
+      return badRequest(
+        c,
+        `Invalid promptKind '${promptKind}'. Expected one of: ${PROMPT_KINDS.join(', ')}`
+      );
+    }
+
+    const annotations = await new SessionAnnotationRepository(db, getUser(c).id).findWithSessions(
+      c.req.query('recallSetId') || undefined
+    );
+    return success(c, buildAnnotationTagReport(annotations, groupBy, promptKind));
+  });
+
+  return router;
+}
+
+export default annotationsRoutes;
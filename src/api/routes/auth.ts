@@ -0,0 +1,170 @@
+/**
+ * Auth API Routes
+ *
+ * Provides account registration, password login, and logout. Successful
+ * registration and login set an httpOnly session cookie for the web app and
+ * also return the token so API clients can send it as a Bearer header.
+ *
+ * Endpoints:
+ * - POST /register - Create an account and log in
+ * - POST /login    - Log in with email and password
+ * - POST /logout   - Clear the session cookie
+ * - GET  /me       - The currently authenticated user (401 if not logged in)
+ *
+ * These routes are mounted before requireAuth() so that register and login
+ * are reachable without a token.
+ *
+ * All endpoints return responses in the standard API format:
+ * - Success: { success: true, data: T }
+ * - Error: { success: false, error: { code, message, details? } }
+ */
+
+import { Hono, type Context } from 'hono';
+import { setCookie, deleteCookie } from 'hono/cookie';
+import { AuthError, type AuthService, type AuthResult } from '@/core/auth';
+import { isCookieSecure } from '@/config';
+import { validate, getValidatedBody } from '../middleware/validate';
+import { getUser, AUTH_COOKIE_NAME } from '../middleware/user-context';
+import { ErrorCodes } from '../middleware/error-handler';
+import { registerSchema, loginSchema } from '../types';
+import { success, error } from '../utils/response';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * HTTP status and error code for each AuthError type.
+ */
+const AUTH_ERROR_RESPONSES: Record<AuthError['type'], { status: number; code: string }> = {
+  invalid_credentials: { status: 401, code: ErrorCodes.UNAUTHORIZED },
+  email_taken: { status: 409, code: ErrorCodes.CONFLICT },
+  registration_closed: { status: 403, code: ErrorCodes.FORBIDDEN },
+  invalid_input: { status: 400, code: ErrorCodes.VALIDATION_ERROR },
+};
+
+/**
+ * Sets the session cookie and returns the user and token.
+ */
+function respondWithSession(
+  c: Context,
+  authService: AuthService,
+  result: AuthResult,
+  statusCode: number
+): Response {
+  setCookie(c, AUTH_COOKIE_NAME, result.token, {
+    httpOnly: true,
+    secure: isCookieSecure(),
+    sameSite: 'Lax',
+    path: '/',
+    maxAge: authService.tokenTtlSeconds,
+  });
+
+  return success(
+    c,
+    { user: result.user, token: result.token, expiresAt: result.expiresAt },
+    statusCode
+  );
+}
+
+/**
+ * Converts an AuthError into an error response; rethrows anything else.
+ */
+function handleAuthError(c: Context, err: unknown): Response {
+  if (err instanceof AuthError) {
+    const { status, code } = AUTH_ERROR_RESPONSES[err.type];
+    return error(c, code, err.message, status);
+  }
+  throw err;
+}
+
+// ============================================================================
+// Route Factory
+// ============================================================================
+
+/**
+ * Creates the auth router.
+ *
+ * @param authService - Service used to register users and issue tokens
+ * @returns Hono router instance with auth routes
+ *
+ * @example
+ * ```typescript
+ * app.use('/api/*', userContext(authService));
+ * app.route('/api/auth', authRoutes(authService));
+ * app.use('/api/*', requireAuth());
+ * ```
+ */
+export function authRoutes(authService: AuthService): Hono {
+  const router = new Hono();
+
+  /**
+   * POST /register
+   *
+   * Creates an account and logs it in. The first account on a deployment
+   * takes ownership of any existing recall sets and sessions.
+   *
+   * Request body: { email, name, password }
+   * Response: 201 Created with { user, token, expiresAt }
+   */
+  router.post('/register', validate(registerSchema), async (c) => {
+    const body = getValidatedBody(c, registerSchema);
+
+    try {
+      const result = await authService.register(body);
+      return respondWithSession(c, authService, result, 201);
+    } catch (err) {
+      return handleAuthError(c, err);
+    }
+  });
+
+  /**
+   * POST /login
+   *
+   * Request body: { email, password }
+   * Response: 200 OK with { user, token, expiresAt }, or 401 for bad credentials
+   */
+  router.post('/login', validate(loginSchema), async (c) => {
+    const body = getValidatedBody(c, loginSchema);
+
+    try {
+      const result = await authService.login(body.email, body.password);
+      return respondWithSession(c, authService, result, 200);
+    } catch (err) {
+      return handleAuthError(c, err);
+    }
+  });
+
+  /**
+   * POST /logout
+   *
+   * Clears the session cookie. Bearer tokens held by API clients remain
+   * valid until they expire.
+   *
+   * Response: 200 OK
+   */
+  router.post('/logout', (c) => {
+    deleteCookie(c, AUTH_COOKIE_NAME, { path: '/' });
+    return success(c, { message: 'Logged out' });
+  });
+
+  /**
+   * GET /me
+   *
+   * Response: 200 OK with the authenticated User, or 401 if not logged in
+   */
+  router.get('/me', (c) => {
+    return success(c, getUser(c));
+  });
+
+  return router;
+}
+
+// ============================================================================
+// Default Export
+// ============================================================================
+
+/**
+ * Default export provides the auth route factory.
+ */
+export default authRoutes;
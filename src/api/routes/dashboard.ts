@@ -10,10 +10,14 @@
  * - GET /api/dashboard/overview - Global stats, due points, and streaks
  * - GET /api/dashboard/recent-sessions - Last N sessions (default 5)
  * - GET /api/dashboard/upcoming-reviews - Points due in next N days (default 7)
+ * - GET /api/dashboard/forecast - Projected daily review load for the next N days (default 30)
  *
  * All endpoints return data in the standardized API response format
  * using the success/error helpers from the response utility module.
  *
+ * The aggregator is built per request with repositories scoped to the
+ * authenticated user, so the dashboard only reflects that user's data.
+ *
  * @example
  * ```typescript
  * import { dashboardRoutes } from '@/api/routes/dashboard';
@@ -25,12 +29,14 @@
  * // GET /api/dashboard/overview
  * // GET /api/dashboard/recent-sessions?limit=10
  * // GET /api/dashboard/upcoming-reviews?days=14
+ * // GET /api/dashboard/forecast?days=90
  * ```
  */
 
 import { Hono } from 'hono';
 import { DashboardDataAggregator } from '../../core/dashboard';
 import { AnalyticsCalculator } from '../../core/analytics';
+import { FSRSScheduler } from '../../core/fsrs';
 import {
   RecallSetRepository,
   RecallPointRepository,
@@ -38,8 +44,10 @@ import {
   SessionMetricsRepository,
   RecallOutcomeRepository,
   RabbitholeEventRepository,
+  FSRSParametersRepository,
 } from '../../storage/repositories';
 import { db } from '../../storage/db';
+import { getUser } from '../middleware/user-context';
 import { success, badRequest, internalError } from '../utils/response';
 
 // ============================================================================
@@ -68,6 +76,18 @@ const DEFAULT_UPCOMING_REVIEW_DAYS = 7;
  */
 const MAX_UPCOMING_REVIEW_DAYS = 90;
 
+/**
+ * Default number of days in the review load forecast.
+ */
+const DEFAULT_FORECAST_DAYS = 30;
+
+/**
+ * Maximum number of days that can be forecast.
+ * Projections further out depend mostly on the assumption that every
+ * review succeeds.
+ */
+const MAX_FORECAST_DAYS = 90;
+
 // ============================================================================
 // Dashboard Data Aggregator Factory
 // ============================================================================
@@ -79,16 +99,22 @@ const MAX_UPCOMING_REVIEW_DAYS = 90;
  * analytics calculator, wiring them together into a ready-to-use aggregator.
  * Uses the default database connection from the storage module.
  *
+ * The RecallSet and Session repositories are scoped to the given user. Every
+ * aggregate starts from those (points, metrics, and outcomes are looked up
+ * per set or session), so nothing from other users is included.
+ *
+ * @param userId - The user whose data the dashboard should show
  * @returns A fully configured DashboardDataAggregator instance
  */
-function createDashboardAggregator(): DashboardDataAggregator {
+function createDashboardAggregator(userId: string): DashboardDataAggregator {
   // Create repository instances with the database connection
-  const recallSetRepo = new RecallSetRepository(db);
+  const recallSetRepo = new RecallSetRepository(db, userId);
   const recallPointRepo = new RecallPointRepository(db);
-  const sessionRepo = new SessionRepository(db);
+  const sessionRepo = new SessionRepository(db, userId);
   const metricsRepo = new SessionMetricsRepository(db);
   const recallOutcomeRepo = new RecallOutcomeRepository(db);
   const rabbitholeRepo = new RabbitholeEventRepository(db);
+  const fsrsParametersRepo = new FSRSParametersRepository(db, userId);
 
   // Create the analytics calculator with its required repositories
   const analyticsCalc = new AnalyticsCalculator(
@@ -105,7 +131,9 @@ function createDashboardAggregator(): DashboardDataAggregator {
     recallPointRepo,
     sessionRepo,
     metricsRepo,
-    analyticsCalc
+    analyticsCalc,
+    new FSRSScheduler(),
+    fsrsParametersRepo
   );
 }
 
@@ -183,6 +211,41 @@ function parseReviewDays(
   return { value: days };
 }
 
+/**
+ * Parses and validates the 'days' query parameter for the forecast.
+ *
+ * @param daysParam - The raw query parameter value (may be undefined)
+ * @returns The validated days value, or an error object if invalid
+ */
+function parseForecastDays(
+  daysParam: string | undefined
+): { value: number } | { error: string } {
+  // Use default if not provided
+  if (!daysParam) {
+    return { value: DEFAULT_FORECAST_DAYS };
+  }
+
+  // Parse as integer
+  const days = parseInt(daysParam, 10);
+
+  // Validate it's a valid number
+  if (isNaN(days)) {
+    return { error: `Invalid days parameter: '${daysParam}' is not a number` };
+  }
+
+  // Validate it's positive
+  if (days <= 0) {
+    return { error: 'Days must be a positive number' };
+  }
+
+  // Cap at maximum to keep projections meaningful
+  if (days > MAX_FORECAST_DAYS) {
+    return { value: MAX_FORECAST_DAYS };
+  }
+
+  return { value: days };
+}
+
 // ============================================================================
 // Route Definitions
 // ============================================================================
@@ -190,10 +253,11 @@ function parseReviewDays(
 /**
  * Creates the dashboard routes router.
  *
- * Provides three endpoints for dashboard data:
+ * Provides four endpoints for dashboard data:
  * 1. Overview - Complete dashboard summary
  * 2. Recent Sessions - List of recent study sessions
  * 3. Upcoming Reviews - Points due for review soon
+ * 4. Forecast - Projected daily review load per recall set
  *
  * @returns Hono router instance with dashboard routes
  *
@@ -209,10 +273,6 @@ function parseReviewDays(
 export function dashboardRoutes(): Hono {
   const router = new Hono();
 
-  // Create the aggregator instance once for all routes
-  // In a production system, this might be injected via middleware for better testability
-  const aggregator = createDashboardAggregator();
-
   // ---------------------------------------------------------------------------
   // GET /overview - Dashboard Overview
   // ---------------------------------------------------------------------------
@@ -238,7 +298,7 @@ export function dashboardRoutes(): Hono {
   router.get('/overview', async (c) => {
     try {
       // Fetch the complete dashboard overview from the aggregator
-      const overview = await aggregator.getOverview();
+      const overview = await createDashboardAggregator(getUser(c).id).getOverview();
 
       return success(c, overview);
     } catch (err) {
@@ -296,7 +356,7 @@ export function dashboardRoutes(): Hono {
       // but we want to respect the custom limit parameter.
       // For now, we'll fetch the overview and slice the sessions.
       // A future optimization could add a dedicated method for this.
-      const overview = await aggregator.getOverview();
+      const overview = await createDashboardAggregator(getUser(c).id).getOverview();
 
       // Apply the requested limit to the recent sessions
       const recentSessions = overview.recentSessions.slice(0, limit);
@@ -359,7 +419,9 @@ export function dashboardRoutes(): Hono {
       // Fetch upcoming reviews using the aggregator
       // The aggregator has a dedicated method for this with a configurable limit
       // We'll fetch more than the user might display and filter by days
-      const allUpcomingReviews = await aggregator.getUpcomingReviews();
+      const allUpcomingReviews = await createDashboardAggregator(
+        getUser(c).id
+      ).getUpcomingReviews();
 
       // Filter to only include reviews within the requested number of days
       // daysUntilDue can be negative (overdue), so we include those too
@@ -395,6 +457,61 @@ export function dashboardRoutes(): Hono {
     }
   });
 
+  // ---------------------------------------------------------------------------
+  // GET /forecast - Review Load Forecast
+  // ---------------------------------------------------------------------------
+
+  /**
+   * GET /forecast
+   *
+   * Returns the projected review load for each of the coming days, per
+   * recall set: how many points will be due and the estimated study
+   * minutes, from each point's due date and stability and the learner's
+   * historical minutes per point.
+   *
+   * Query Parameters:
+   * - days (optional): How many days to forecast, starting today
+   *   (default: 30, max: 90)
+   *
+   * Response: ReviewForecast
+   *
+   * @example
+   * ```bash
+   * # Forecast the next 30 days (default)
+   * curl http://localhost:3001/api/dashboard/forecast
+   *
+   * # Forecast the next 90 days
+   * curl http://localhost:3001/api/dashboard/forecast?days=90
+   * ```
+   */
+  router.get('/forecast', async (c) => {
+    // Parse and validate the days query parameter
+    const daysResult = parseForecastDays(c.req.query('days'));
+
+    // Return error if days is invalid
+    if ('error' in daysResult) {
+      return badRequest(c, daysResult.error, { parameter: 'days' });
+    }
+
+    try {
+      const forecast = await createDashboardAggregator(getUser(c).id).getReviewForecast(
+        daysResult.value
+      );
+
+      return success(c, forecast);
+    } catch (err) {
+      // Log the error for debugging/monitoring
+      console.error('[Dashboard] Error fetching forecast:', err);
+
+      // Return a generic error to the client
+      return internalError(
+        c,
+        'Failed to fetch review forecast',
+        err instanceof Error ? err.message : undefined
+      );
+    }
+  });
+
   return router;
 }
 
@@ -0,0 +1,184 @@
+/**
+ * FSRS Parameters API Routes
+ *
+ * This module provides REST API endpoints for fitting FSRS weights to the
+ * authenticated user's review history (recall outcomes), reporting how well
+ * the current and fitted weights predict it, and storing or resetting the
+ * fitted weights that sessions schedule with.
+ *
+ * Every endpoint takes an optional `recallSetId` query parameter. Without it
+ * the weights cover all of the user's recall sets; with it they cover one
+ * set, overriding the user-wide weights for that set.
+ *
+ * Endpoints:
+ * - GET    /api/fsrs-parameters          - The weights in use and their source
+ * - GET    /api/fsrs-parameters/report   - Fit without storing; predicted vs observed retention
+ * - POST   /api/fsrs-parameters/optimize - Fit and store the weights
+ * - DELETE /api/fsrs-parameters          - Delete the stored weights
+ *
+ * @example
+ * ```typescript
+ * import { fsrsParametersRoutes } from '@/api/routes/fsrs-parameters';
+ *
+ * // Mount in the API router
+ * app.route('/fsrs-parameters', fsrsParametersRoutes());
+ *
+ * // Access via:
+ * // GET  /api/fsrs-parameters/report?recallSetId=rs_abc123
+ * // POST /api/fsrs-parameters/optimize
+ * ```
+ */
+
+import { Hono, type Context } from 'hono';
+import { db } from '@/storage/db';
+import {
+  RecallSetRepository,
+  RecallPointRepository,
+  RecallOutcomeRepository,
+  FSRSParametersRepository,
+} from '@/storage/repositories';
+import { FSRSOptimizationService, FSRSOptimizationError } from '@/core/fsrs';
+import { getUser } from '../middleware/user-context';
+import { ErrorCodes } from '../middleware/error-handler';
+import { success, error } from '../utils/response';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Creates an FSRSOptimizationService whose recall set and parameters
+ * repositories are scoped to the authenticated user.
+ *
+ * @param c - Hono context for the current request
+ * @returns FSRSOptimizationService that only sees the user's data
+ */
+function userOptimizationService(c: Context): FSRSOptimizationService {
+  const userId = getUser(c).id;
+  return new FSRSOptimizationService({
+    recallSetRepo: new RecallSetRepository(db, userId),
+    recallPointRepo: new RecallPointRepository(db),
+    outcomeRepo: new RecallOutcomeRepository(db),
+    parametersRepo: new FSRSParametersRepository(db, userId),
+  });
+}
+
+/**
+ * HTTP status and error code for each optimization error type.
+ */
+const OPTIMIZATION_ERROR_RESPONSES: Record<
+  FSRSOptimizationError['type'],
+  { status: number; code: string }
+> = {
+  recall_set_not_found: { status: 404, code: ErrorCodes.NOT_FOUND },
+  insufficient_history: { status: 400, code: ErrorCodes.BAD_REQUEST },
+};
+
+/**
+ * Converts an FSRSOptimizationError into an error response; rethrows anything else.
+ */
+function handleOptimizationError(c: Context, err: unknown): Response {
+  if (err instanceof FSRSOptimizationError) {
+    const { status, code } = OPTIMIZATION_ERROR_RESPONSES[err.type];
+    return error(c, code, err.message, status);
+  }
+  throw err;
+}
+
+/**
+ * Reads the optional recallSetId query parameter.
+ */
+function recallSetIdParam(c: Context): string | undefined {
+  return c.req.query('recallSetId') || undefined;
+}
+
+// ============================================================================
+// Route Factory
+// ============================================================================
+
+/**
+ * Creates the FSRS parameters router.
+ *
+ * @returns Hono router instance with FSRS parameter routes
+ */
+export function fsrsParametersRoutes(): Hono {
+  const router = new Hono();
+
+  /**
+   * GET /
+   *
+   * Returns the weights that apply to the scope and where they come from
+   * ('recall_set', 'user', or 'default').
+   *
+   * Query Parameters:
+   * - recallSetId: Optional recall set (defaults to all of the user's sets)
+   */
+  router.get('/', async (c) => {
+    try {
+      return success(c, await userOptimizationService(c).getWeights(recallSetIdParam(c)));
+    } catch (err) {
+      return handleOptimizationError(c, err);
+    }
+  });
+
+  /**
+   * GET /report
+   *
+   * Fits weights to the scope's review history without storing them, and
+   * returns predicted versus observed retention (overall and by predicted
+   * retrievability) under the current and the fitted weights.
+   *
+   * Query Parameters:
+   * - recallSetId: Optional recall set (defaults to all of the user's sets)
+   *
+   * Returns 400 if there is too little history to fit.
+   */
+  router.get('/report', async (c) => {
+    try {
+      return success(c, await userOptimizationService(c).report(recallSetIdParam(c)));
+    } catch (err) {
+      return handleOptimizationError(c, err);
+    }
+  });
+
+  /**
+   * POST /optimize
+   *
+   * Fits weights to the scope's review history and stores them, replacing
+   * previously fitted weights. Sessions started afterwards schedule with them.
+   *
+   * Query Parameters:
+   * - recallSetId: Optional recall set (defaults to all of the user's sets)
+   *
+   * Returns the report and the stored weights.
+   */
+  router.post('/optimize', async (c) => {
+    try {
+      return success(c, await userOptimizationService(c).optimize(recallSetIdParam(c)));
+    } catch (err) {
+      return handleOptimizationError(c, err);
+    }
+  });
+
+  /**
+   * DELETE /
+   *
+   * Deletes the weights stored for the scope. A recall set then falls back
+   * to the user-wide weights, and those to the FSRS defaults.
+   *
+   * Query Parameters:
+   * - recallSetId: Optional recall set (defaults to all of the user's sets)
+   */
+  router.delete('/', async (c) => {
+    try {
+      const deleted = await userOptimizationService(c).reset(recallSetIdParam(c));
+      return success(c, { deleted });
+    } catch (err) {
+      return handleOptimizationError(c, err);
+    }
+  });
+
+  return router;
+}
+
+export default fsrsParametersRoutes;
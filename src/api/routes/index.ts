@@ -10,10 +10,16 @@
  *
  * Route Structure:
  * - /health - Health check endpoint (mounted at root, not under /api)
+ * - /api/auth - Registration and login (mounted by server.ts before requireAuth)
  * - /api - API root with version info
  * - /api/recall-sets - RecallSet CRUD operations
  * - /api/sessions - Session management
- * - /api/analytics - Analytics and dashboard data
+ * - /api/fsrs-parameters - FSRS weights fitted to review history
+ * - /api/re-evaluations - Past recall attempts judged again by the current evaluator
+ * - /api/annotations - Tag frequencies of session annotations
+ * - /api/dashboard - Dashboard data
+ * - /api/analytics - Retention curves, stability distribution and leeches
+ * - /api/leeches - Leech remediation queue: split, rewrite, suspend, deep dive
  *
  * @example
  * ```typescript
@@ -35,12 +41,23 @@ import { success } from '../utils/response';
 import { recallSetsRoutes } from './recall-sets';
 import { dashboardRoutes } from './dashboard';
 import { sessionsRoutes } from './sessions';
+import { fsrsParametersRoutes } from './fsrs-parameters';
+import { reEvaluationsRoutes } from './re-evaluations';
+import { annotationsRoutes } from './annotations';
+import { analyticsRoutes } from './analytics';
+import { leechesRoutes } from './leeches';
 
 // Re-export individual route modules for direct access
 export { healthRoutes, healthCheckHandler } from './health';
 export { recallSetsRoutes } from './recall-sets';
 export { dashboardRoutes } from './dashboard';
 export { sessionsRoutes } from './sessions';
+export { authRoutes } from './auth';
+export { fsrsParametersRoutes } from './fsrs-parameters';
+export { reEvaluationsRoutes } from './re-evaluations';
+export { annotationsRoutes } from './annotations';
+export { analyticsRoutes } from './analytics';
+export { leechesRoutes } from './leeches';
 
 // ============================================================================
 // Type Definitions
@@ -93,9 +110,8 @@ const API_VERSION = '0.1.0';
  *
  * Current Routes:
  * - GET / - API information and available endpoints
- * - GET /recall-sets - List recall sets (placeholder)
- * - GET /sessions - List sessions (placeholder)
- * - GET /analytics - Analytics dashboard (placeholder)
+ * - /recall-sets, /dashboard, /sessions, /fsrs-parameters,
+ *   /re-evaluations, /annotations, /analytics and /leeches - Route modules
  *
  * @returns Configured Hono router with all API routes
  *
@@ -132,10 +148,15 @@ export function createApiRouter(): Hono {
       version: API_VERSION,
       documentation: '/api/docs', // Future: OpenAPI documentation
       endpoints: [
+        { path: '/api/auth', description: 'Registration, login, and logout' },
         { path: '/api/recall-sets', description: 'RecallSet CRUD operations' },
         { path: '/api/sessions', description: 'Study session management' },
         { path: '/api/dashboard', description: 'Dashboard data and analytics' },
-        { path: '/api/analytics', description: 'Learning analytics and reports' },
+        { path: '/api/fsrs-parameters', description: 'FSRS weights fitted to review history' },
+        { path: '/api/re-evaluations', description: 'Past recall attempts judged again by the current evaluator' },
+        { path: '/api/annotations', description: 'Tag frequencies of session annotations' },
+        { path: '/api/analytics', description: 'Retention curves, stability distribution and leeches' },
+        { path: '/api/leeches', description: 'Leech remediation queue' },
         { path: '/health', description: 'Health check endpoint' },
       ],
     };
@@ -147,10 +168,6 @@ export function createApiRouter(): Hono {
   // Route Module Mounts
   // -------------------------------------------------------------------------
 
-  // -------------------------------------------------------------------------
-  // Route Module Mounts
-  // -------------------------------------------------------------------------
-
   // Mount recall sets CRUD routes
   router.route('/recall-sets', recallSetsRoutes());
 
@@ -160,22 +177,20 @@ export function createApiRouter(): Hono {
   // Mount sessions routes (list, details, transcript, start, abandon)
   router.route('/sessions', sessionsRoutes());
 
-  // Future: router.route('/analytics', analyticsRoutes());
+  // Mount FSRS parameter routes (fit, report, store, reset weights)
+  router.route('/fsrs-parameters', fsrsParametersRoutes());
 
-  /**
-   * Placeholder for analytics routes.
-   * Will be replaced by actual implementation in a future task.
-   */
-  router.get('/analytics', (c) => {
-    return success(c, {
-      message: 'Analytics endpoint - to be implemented',
-      routes: [
-        'GET /api/analytics/dashboard - Dashboard summary',
-        'GET /api/analytics/sessions - Session analytics',
-        'GET /api/analytics/recall-points - Recall point analytics',
-      ],
-    });
-  });
+  // Mount re-evaluation routes (re-judge past recall attempts, report agreement)
+  router.route('/re-evaluations', reEvaluationsRoutes());
+
+  // Mount annotation routes (tag frequencies by prompt version or recall set)
+  router.route('/annotations', annotationsRoutes());
+
+  // Mount memory analytics routes (retention curves, stability distribution, leeches)
+  router.route('/analytics', analyticsRoutes());
+
+  // Mount leech remediation routes (queue, split, rewrite, suspend, deep dive)
+  router.route('/leeches', leechesRoutes());
 
   return router;
 }
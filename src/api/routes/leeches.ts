@@ -0,0 +1,252 @@
+/**
+ * Leech Remediation API Routes
+ *
+ * This module provides the remediation queue for the authenticated user's
+ * leeches: recall points they keep forgetting, so they cycle through
+ * reviews without ever sticking (see core/leeches). From the queue, the
+ * learner can split a leech into smaller points (with a split proposed by
+ * the LLM), rewrite it, suspend it, or mark it for a deep-dive session.
+ *
+ * Endpoints:
+ * - GET /api/leeches/recall-sets/:id - Remediation queue of a recall set
+ * - POST /api/leeches/recall-points/:id/split-proposal - Propose a split (LLM)
+ * - POST /api/leeches/recall-points/:id/split - Split into new points, suspending the original
+ * - POST /api/leeches/recall-points/:id/rewrite - Rewrite and reschedule as new
+ * - POST /api/leeches/recall-points/:id/suspend - Suspend
+ * - DELETE /api/leeches/recall-points/:id/suspend - Unsuspend
+ * - POST /api/leeches/recall-points/:id/deep-dive - Mark for a deep-dive session
+ * - DELETE /api/leeches/recall-points/:id/deep-dive - Clear the deep-dive mark
+ *
+ * A deep-dive session over the marked points is started with
+ * POST /api/sessions/start and `mode: 'deep-dive'`.
+ *
+ * Recall sets are looked up through a repository scoped to the user, so
+ * another user's sets and points are reported as not found.
+ *
+ * @example
+ * ```typescript
+ * import { leechesRoutes } from '@/api/routes/leeches';
+ *
+ * // Mount in the API router
+ * app.route('/leeches', leechesRoutes());
+ *
+ * // Access via:
+ * // GET /api/leeches/recall-sets/rs_abc123
+ * // POST /api/leeches/recall-points/rp_xyz789/suspend
+ * ```
+ */
+
+import { Hono, type Context } from 'hono';
+import { LeechRemediationService, LeechRemediationError } from '../../core/leeches';
+import { FSRSScheduler } from '../../core/fsrs';
+import { RecallSetRepository, RecallPointRepository } from '../../storage/repositories';
+import { db } from '../../storage/db';
+import { createLLMProvider } from '../../llm/provider-factory';
+import type { LLMProvider } from '../../llm/types';
+import { getUser } from '../middleware/user-context';
+import { validate, getValidatedBody } from '../middleware/validate';
+import { ErrorCodes } from '../middleware/error-handler';
+import { splitLeechSchema, updateRecallPointSchema } from '../types';
+import { success, error } from '../utils/response';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Creates a LeechRemediationService whose recall set repository is scoped
+ * to the authenticated user.
+ *
+ * @param c - Hono context for the current request
+ * @param llmClient - LLM that proposes splits (only needed to propose)
+ * @returns LeechRemediationService that only sees the user's data
+ */
+function userLeechRemediation(c: Context, llmClient?: LLMProvider): LeechRemediationService {
+  return new LeechRemediationService({
+    recallSetRepo: new RecallSetRepository(db, getUser(c).id),
+    recallPointRepo: new RecallPointRepository(db),
+    scheduler: new FSRSScheduler(),
+    llmClient,
+  });
+}
+
+/**
+ * Converts a LeechRemediationError into an error response; rethrows anything else.
+ *
+ * @param c - Hono context for the current request
+ * @param err - The error thrown by the remediation service
+ * @returns The error response
+ */
+function handleLeechError(c: Context, err: unknown): Response {
+  if (!(err instanceof LeechRemediationError)) {
+    throw err;
+  }
+  const responses = {
+    recall_set_not_found: { status: 404, code: ErrorCodes.NOT_FOUND },
+    recall_point_not_found: { status: 404, code: ErrorCodes.NOT_FOUND },
+    invalid_split: { status: 400, code: ErrorCodes.BAD_REQUEST },
+    invalid_rewrite: { status: 400, code: ErrorCodes.BAD_REQUEST },
+    point_suspended: { status: 409, code: ErrorCodes.CONFLICT },
+    split_failed: { status: 502, code: ErrorCodes.LLM_ERROR },
+  } as const;
+  const { status, code } = responses[err.type];
+  return error(c, code, err.message, status);
+}
+
+// ============================================================================
+// Route Factory
+// ============================================================================
+
+/**
+ * Creates the leeches router.
+ *
+ * @param createSplitLLM - Creates the LLM that proposes splits (defaults to
+ *                         the configured provider, created only when a
+ *                         request needs it)
+ * @returns Hono router instance with leech remediation routes
+ */
+export function leechesRoutes(createSplitLLM: () => LLMProvider = createLLMProvider): Hono {
+  const router = new Hono();
+
+  /**
+   * GET /recall-sets/:id
+   *
+   * Returns the set's remediation queue: its leeches with why each was
+   * flagged, most lapses first, and the lapse threshold they were flagged
+   * at. Suspended points are left out.
+   *
+   * Response: 200 OK with LeechQueue, or 404 if not found
+   */
+  router.get('/recall-sets/:id', async (c) => {
+    try {
+      return success(c, await userLeechRemediation(c).getQueue(c.req.param('id')));
+    } catch (err) {
+      return handleLeechError(c, err);
+    }
+  });
+
+  /**
+   * POST /recall-points/:id/split-proposal
+   *
+   * Asks the LLM how to split the point into 2-5 smaller points. Nothing is
+   * saved; send the parts (edited as the learner likes) to /split.
+   *
+   * Response: 200 OK with { parts }, 404 if not found, or 502 if the LLM's
+   * response has no usable split
+   */
+  router.post('/recall-points/:id/split-proposal', async (c) => {
+    try {
+      const service = userLeechRemediation(c, createSplitLLM());
+      return success(c, { parts: await service.proposeSplit(c.req.param('id')) });
+    } catch (err) {
+      return handleLeechError(c, err);
+    }
+  });
+
+  /**
+   * POST /recall-points/:id/split
+   *
+   * Adds the parts to the point's recall set as new points and suspends
+   * the original, keeping its history.
+   *
+   * Request Body:
+   * - parts: 2-5 of { content, context? }
+   *
+   * Response: 200 OK with { original, created }, 404 if not found, or 409 if
+   * the point is suspended (e.g. already split)
+   */
+  router.post('/recall-points/:id/split', validate(splitLeechSchema), async (c) => {
+    const body = getValidatedBody(c, splitLeechSchema);
+    try {
+      return success(c, await userLeechRemediation(c).split(c.req.param('id'), body.parts));
+    } catch (err) {
+      return handleLeechError(c, err);
+    }
+  });
+
+  /**
+   * POST /recall-points/:id/rewrite
+   *
+   * Replaces the point's content and/or context and starts its schedule
+   * over as a new point; its recall history is kept.
+   *
+   * Request Body:
+   * - content, context: At least one of them
+   *
+   * Response: 200 OK with the rewritten RecallPoint, 400 if neither is
+   * given, or 404 if not found
+   */
+  router.post('/recall-points/:id/rewrite', validate(updateRecallPointSchema), async (c) => {
+    const body = getValidatedBody(c, updateRecallPointSchema);
+    try {
+      return success(c, await userLeechRemediation(c).rewrite(c.req.param('id'), body));
+    } catch (err) {
+      return handleLeechError(c, err);
+    }
+  });
+
+  /**
+   * POST /recall-points/:id/suspend
+   *
+   * Suspends the point: it keeps its history but is no longer scheduled.
+   *
+   * Response: 200 OK with the RecallPoint, or 404 if not found
+   */
+  router.post('/recall-points/:id/suspend', async (c) => {
+    try {
+      return success(c, await userLeechRemediation(c).suspend(c.req.param('id')));
+    } catch (err) {
+      return handleLeechError(c, err);
+    }
+  });
+
+  /**
+   * DELETE /recall-points/:id/suspend
+   *
+   * Puts a suspended point back into scheduling, with the schedule it had.
+   *
+   * Response: 200 OK with the RecallPoint, or 404 if not found
+   */
+  router.delete('/recall-points/:id/suspend', async (c) => {
+    try {
+      return success(c, await userLeechRemediation(c).unsuspend(c.req.param('id')));
+    } catch (err) {
+      return handleLeechError(c, err);
+    }
+  });
+
+  /**
+   * POST /recall-points/:id/deep-dive
+   *
+   * Marks the point for the set's next deep-dive session.
+   *
+   * Response: 200 OK with the RecallPoint, 404 if not found, or 409 if the
+   * point is suspended
+   */
+  router.post('/recall-points/:id/deep-dive', async (c) => {
+    try {
+      return success(c, await userLeechRemediation(c).requestDeepDive(c.req.param('id')));
+    } catch (err) {
+      return handleLeechError(c, err);
+    }
+  });
+
+  /**
+   * DELETE /recall-points/:id/deep-dive
+   *
+   * Clears the point's deep-dive mark.
+   *
+   * Response: 200 OK with the RecallPoint, or 404 if not found
+   */
+  router.delete('/recall-points/:id/deep-dive', async (c) => {
+    try {
+      return success(c, await userLeechRemediation(c).cancelDeepDive(c.req.param('id')));
+    } catch (err) {
+      return handleLeechError(c, err);
+    }
+  });
+
+  return router;
+}
+
+export default leechesRoutes;
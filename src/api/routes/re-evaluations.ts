@@ -0,0 +1,176 @@
+/**
+ * Re-evaluation API Routes
+ *
+ * This module provides REST API endpoints for judging the authenticated
+ * user's past recall attempts again with the current evaluator, and for
+ * reporting how often the re-evaluations agree with the original judgments.
+ * Re-evaluations are stored alongside the original recall outcomes, under
+ * the version of the evaluation prompt that produced them.
+ *
+ * Every endpoint takes an optional `recallSetId` query parameter. Without it
+ * the endpoints cover all of the user's recall sets.
+ *
+ * Endpoints:
+ * - GET  /api/re-evaluations - Agreement of the stored re-evaluations
+ * - POST /api/re-evaluations - Re-evaluate outcomes not yet re-evaluated
+ *
+ * @example
+ * ```typescript
+ * import { reEvaluationsRoutes } from '@/api/routes/re-evaluations';
+ *
+ * // Mount in the API router
+ * app.route('/re-evaluations', reEvaluationsRoutes());
+ *
+ * // Access via:
+ * // POST /api/re-evaluations?recallSetId=rs_abc123&limit=50
+ * // GET  /api/re-evaluations?recallSetId=rs_abc123
+ * ```
+ */
+
+import { Hono, type Context } from 'hono';
+import { db } from '@/storage/db';
+import {
+  RecallSetRepository,
+  RecallPointRepository,
+  SessionMessageRepository,
+  RecallOutcomeRepository,
+  OutcomeEvaluationRepository,
+  FSRSParametersRepository,
+} from '@/storage/repositories';
+import { RecallEvaluator, ReEvaluationService, ReEvaluationError } from '@/core/scoring';
+import { FSRSScheduler } from '@/core/fsrs';
+import { createLLMProvider } from '@/llm/provider-factory';
+import { getUser } from '../middleware/user-context';
+import { ErrorCodes } from '../middleware/error-handler';
+import { success, error, badRequest } from '../utils/response';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Creates the evaluator used for re-evaluation. The LLM provider is only
+ * created when a request needs it, so the rest of the API works without
+ * an API key.
+ */
+function createDefaultEvaluator(): RecallEvaluator {
+  return new RecallEvaluator(createLLMProvider());
+}
+
+/**
+ * Creates a ReEvaluationService whose recall set and parameters
+ * repositories are scoped to the authenticated user.
+ *
+ * @param c - Hono context for the current request
+ * @param evaluator - The evaluator to re-evaluate with (not needed for reports)
+ * @returns ReEvaluationService that only sees the user's data
+ */
+function userReEvaluationService(c: Context, evaluator?: RecallEvaluator): ReEvaluationService {
+  const userId = getUser(c).id;
+  return new ReEvaluationService({
+    recallSetRepo: new RecallSetRepository(db, userId),
+    recallPointRepo: new RecallPointRepository(db),
+    messageRepo: new SessionMessageRepository(db),
+    outcomeRepo: new RecallOutcomeRepository(db),
+    evaluationRepo: new OutcomeEvaluationRepository(db),
+    fsrsParametersRepo: new FSRSParametersRepository(db, userId),
+    evaluator,
+    scheduler: new FSRSScheduler(),
+  });
+}
+
+/**
+ * Converts a ReEvaluationError into an error response; rethrows anything else.
+ */
+function handleReEvaluationError(c: Context, err: unknown): Response {
+  if (err instanceof ReEvaluationError) {
+    return error(c, ErrorCodes.NOT_FOUND, err.message, 404);
+  }
+  throw err;
+}
+
+/**
+ * Reads the optional recallSetId query parameter.
+ */
+function recallSetIdParam(c: Context): string | undefined {
+  return c.req.query('recallSetId') || undefined;
+}
+
+// ============================================================================
+// Route Factory
+// ============================================================================
+
+/**
+ * Creates the re-evaluations router.
+ *
+ * @param createEvaluator - Creates the evaluator for a re-evaluation run
+ *                          (defaults to one backed by the configured LLM provider)
+ * @returns Hono router instance with re-evaluation routes
+ */
+export function reEvaluationsRoutes(
+  createEvaluator: () => RecallEvaluator = createDefaultEvaluator
+): Hono {
+  const router = new Hono();
+
+  /**
+   * GET /
+   *
+   * Reports agreement between the current evaluator version's stored
+   * re-evaluations and the original judgments, without calling the
+   * evaluator.
+   *
+   * Query Parameters:
+   * - recallSetId: Optional recall set (defaults to all of the user's sets)
+   */
+  router.get('/', async (c) => {
+    try {
+      return success(c, await userReEvaluationService(c).report(recallSetIdParam(c)));
+    } catch (err) {
+      return handleReEvaluationError(c, err);
+    }
+  });
+
+  /**
+   * POST /
+   *
+   * Re-evaluates the outcomes the current evaluator version hasn't
+   * evaluated yet by replaying their transcript slices, stores the results,
+   * and reports agreement. Optionally recomputes the FSRS state of points
+   * whose review history was rated differently.
+   *
+   * Query Parameters:
+   * - recallSetId: Optional recall set (defaults to all of the user's sets)
+   * - limit: Most outcomes to re-evaluate in this request (default: no limit)
+   * - force: 'true' to re-evaluate outcomes already evaluated by this version
+   * - reschedule: 'true' to recompute FSRS state from the re-evaluated ratings
+   *
+   * Returns the report, and the recomputed points (null without reschedule).
+   */
+  router.post('/', async (c) => {
+    const limitParam = c.req.query('limit');
+    const limit = limitParam === undefined ? undefined : parseInt(limitParam, 10);
+    if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+      return badRequest(c, 'Limit must be a positive number');
+    }
+
+    try {
+      const service = userReEvaluationService(c, createEvaluator());
+      const recallSetId = recallSetIdParam(c);
+      const report = await service.reEvaluate({
+        recallSetId,
+        limit,
+        force: c.req.query('force') === 'true',
+      });
+      const schedules =
+        c.req.query('reschedule') === 'true' ? await service.recomputeSchedules(recallSetId) : null;
+
+      return success(c, { report, schedules });
+    } catch (err) {
+      return handleReEvaluationError(c, err);
+    }
+  });
+
+  return router;
+}
+
+export default reEvaluationsRoutes;
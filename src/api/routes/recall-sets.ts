@@ -8,34 +8,61 @@
  * Endpoints:
  * - GET    /                   - List all sets with summary stats
  * - POST   /                   - Create a new set
+ * - POST   /import             - Import an Anki deck (optionally as a dry run)
+ * - POST   /import/bundle      - Import a recall set bundle (optionally as a dry run)
  * - GET    /:id                - Get a set with full details
  * - PATCH  /:id                - Update a set
  * - DELETE /:id                - Archive a set (soft delete)
+ * - GET    /:id/export         - Download a set's points as Anki TSV, Markdown, or a bundle
  * - GET    /:id/points         - List points for a set
  * - POST   /:id/points         - Add a point to a set
  * - PATCH  /:id/points/:pointId - Update a point
  * - DELETE /:id/points/:pointId - Delete a point
  *
+ * Every endpoint only sees the authenticated user's sets: the RecallSet
+ * repository is scoped per request, and points are always looked up through
+ * their (scoped) parent set.
+ *
  * All endpoints return responses in the standard API format:
  * - Success: { success: true, data: T }
  * - Error: { success: false, error: { code, message, details? } }
  */
 
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { db } from '@/storage/db';
 import {
   RecallSetRepository,
   RecallPointRepository,
+  SessionRepository,
+  SessionMessageRepository,
+  SessionMetricsRepository,
+  RecallOutcomeRepository,
+  RabbitholeEventRepository,
+  FSRSParametersRepository,
 } from '@/storage/repositories';
 import { FSRSScheduler } from '@/core/fsrs';
+import { AnalyticsCalculator } from '@/core/analytics';
+import {
+  ExportService,
+  RECALL_SET_CONTENT_FORMATS,
+  type RecallSetContentFormat,
+} from '@/core/export';
+import {
+  AnkiImportService,
+  BundleImportService,
+  ImportError,
+  type ImportOptions,
+} from '@/core/import';
 import { validate, getValidatedBody } from '../middleware/validate';
+import { getUser } from '../middleware/user-context';
+import { ErrorCodes } from '../middleware/error-handler';
 import {
   createRecallSetSchema,
   updateRecallSetSchema,
   createRecallPointSchema,
   updateRecallPointSchema,
 } from '../types';
-import { success, notFound, badRequest } from '../utils/response';
+import { success, notFound, badRequest, error } from '../utils/response';
 
 // ============================================================================
 // Type Definitions
@@ -63,6 +90,11 @@ interface RecallSetWithSummary {
   description: string;
   status: string;
   discussionSystemPrompt: string;
+  desiredRetention: number | null;
+  maximumIntervalDays: number | null;
+  maxPointsPerSession: number | null;
+  newPointsPerDay: number | null;
+  leechLapseThreshold: number | null;
   createdAt: Date;
   updatedAt: Date;
   summary: RecallSetSummary;
@@ -92,6 +124,81 @@ function generateRecallPointId(): string {
   return `rp_${crypto.randomUUID()}`;
 }
 
+/**
+ * Creates a RecallSet repository scoped to the authenticated user.
+ *
+ * @param c - Hono context for the current request
+ * @returns Repository that only sees the user's recall sets
+ */
+function userRecallSets(c: Context): RecallSetRepository {
+  return new RecallSetRepository(db, getUser(c).id);
+}
+
+/**
+ * Creates an ExportService whose recall set and session repositories are
+ * scoped to the authenticated user.
+ *
+ * @param c - Hono context for the current request
+ * @returns ExportService that only sees the user's data
+ */
+function userExportService(c: Context): ExportService {
+  const userId = getUser(c).id;
+  const recallSetRepo = new RecallSetRepository(db, userId);
+  const recallPointRepo = new RecallPointRepository(db);
+  const metricsRepo = new SessionMetricsRepository(db);
+  const outcomeRepo = new RecallOutcomeRepository(db);
+  const rabbitholeRepo = new RabbitholeEventRepository(db);
+
+  return new ExportService(
+    new SessionRepository(db, userId),
+    recallSetRepo,
+    new SessionMessageRepository(db),
+    metricsRepo,
+    outcomeRepo,
+    rabbitholeRepo,
+    new AnalyticsCalculator(metricsRepo, outcomeRepo, rabbitholeRepo, recallSetRepo, recallPointRepo),
+    recallPointRepo
+  );
+}
+
+/**
+ * File extension and Content-Type for each content export format.
+ */
+const CONTENT_EXPORT_FILES: Record<RecallSetContentFormat, { extension: string; contentType: string }> = {
+  anki: { extension: 'txt', contentType: 'text/plain; charset=utf-8' },
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  bundle: { extension: 'bundle.json', contentType: 'application/json; charset=utf-8' },
+};
+
+/**
+ * HTTP status and error code for each ImportError type.
+ */
+const IMPORT_ERROR_RESPONSES: Record<ImportError['type'], { status: number; code: string }> = {
+  unsupported_format: { status: 400, code: ErrorCodes.BAD_REQUEST },
+  invalid_file: { status: 400, code: ErrorCodes.BAD_REQUEST },
+  no_notes: { status: 400, code: ErrorCodes.BAD_REQUEST },
+  name_taken: { status: 409, code: ErrorCodes.CONFLICT },
+  recall_set_not_found: { status: 404, code: ErrorCodes.NOT_FOUND },
+};
+
+/**
+ * Converts an ImportError into an error response; rethrows anything else.
+ */
+function handleImportError(c: Context, err: unknown): Response {
+  if (err instanceof ImportError) {
+    const { status, code } = IMPORT_ERROR_RESPONSES[err.type];
+    return error(c, code, err.message, status);
+  }
+  throw err;
+}
+
+/**
+ * Reads an optional text field from a multipart form body.
+ */
+function formText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
 // ============================================================================
 // Route Factory
 // ============================================================================
@@ -99,7 +206,7 @@ function generateRecallPointId(): string {
 /**
  * Creates the recall sets router with all CRUD endpoints.
  *
- * This factory creates repository instances and configures all routes for
+ * This factory creates shared instances and configures all routes for
  * managing recall sets and their associated recall points.
  *
  * @returns Hono router instance with recall set routes
@@ -116,13 +223,106 @@ function generateRecallPointId(): string {
 export function recallSetsRoutes(): Hono {
   const router = new Hono();
 
-  // Initialize repositories with the database connection
-  const recallSetRepo = new RecallSetRepository(db);
+  // Recall points are only reached through a set found by the user-scoped
+  // RecallSet repository, so the point repository itself is unscoped
   const recallPointRepo = new RecallPointRepository(db);
 
   // Initialize FSRS scheduler for creating initial point states
   const fsrsScheduler = new FSRSScheduler();
 
+  // ===========================================================================
+  // Anki Import
+  // ===========================================================================
+
+  /**
+   * POST /import
+   *
+   * Imports an Anki export (.apkg/.colpkg package, or a .txt/.tsv/.csv
+   * plain-text export) as recall points. By default a new set is created,
+   * named after the deck; pass recallSetId to add to an existing set instead.
+   * With dryRun=true nothing is written and the preview is returned.
+   *
+   * Request body (multipart/form-data):
+   *   file, recallSetId?, name?, description?, dryRun?
+   * Response: 200 OK with ImportPreview (dry run), 201 Created with
+   *   ImportResult, 400 for unusable files, 404 if recallSetId is unknown,
+   *   or 409 if the new set's name is taken
+   */
+  router.post('/import', async (c) => {
+    const form = await c.req.parseBody();
+    const file = form['file'];
+    if (!(file instanceof File)) {
+      return badRequest(c, 'An Anki export must be uploaded in the "file" field');
+    }
+
+    const options: ImportOptions = {
+      recallSetId: formText(form['recallSetId']),
+      name: formText(form['name']),
+      description: formText(form['description']),
+    };
+    const dryRun = formText(form['dryRun']) === 'true';
+
+    const importService = new AnkiImportService({
+      scheduler: fsrsScheduler,
+      recallSetRepo: userRecallSets(c),
+      recallPointRepo,
+      fsrsParametersRepo: new FSRSParametersRepository(db, getUser(c).id),
+    });
+    const data = new Uint8Array(await file.arrayBuffer());
+
+    try {
+      if (dryRun) {
+        return success(c, await importService.preview(file.name, data, options));
+      }
+      return success(c, await importService.import(file.name, data, options), 201);
+    } catch (err) {
+      return handleImportError(c, err);
+    }
+  });
+
+  /**
+   * POST /import/bundle
+   *
+   * Imports a recall set bundle, as downloaded from GET /:id/export with
+   * format=bundle. Points keep their FSRS state and recall history. By
+   * default a new set is created from the bundle's name, description, and
+   * discussion prompt; pass recallSetId to add to an existing set instead.
+   *
+   * Request body: the bundle JSON
+   * Query parameters: recallSetId?, name?, dryRun?
+   * Response: 200 OK with ImportPreview (dry run), 201 Created with
+   *   ImportResult, 400 for invalid bundles, 404 if recallSetId is unknown,
+   *   or 409 if the new set's name is taken
+   */
+  router.post('/import/bundle', async (c) => {
+    let bundle: unknown;
+    try {
+      bundle = await c.req.json();
+    } catch {
+      return badRequest(c, 'Request body must be a recall set bundle (JSON)');
+    }
+
+    const options: ImportOptions = {
+      recallSetId: formText(c.req.query('recallSetId')),
+      name: formText(c.req.query('name')),
+    };
+    const dryRun = c.req.query('dryRun') === 'true';
+
+    const importService = new BundleImportService({
+      recallSetRepo: userRecallSets(c),
+      recallPointRepo,
+    });
+
+    try {
+      if (dryRun) {
+        return success(c, await importService.preview(bundle, options));
+      }
+      return success(c, await importService.import(bundle, options), 201);
+    } catch (err) {
+      return handleImportError(c, err);
+    }
+  });
+
   // ===========================================================================
   // RecallSet CRUD Routes
   // ===========================================================================
@@ -136,6 +336,8 @@ export function recallSetsRoutes(): Hono {
    * Response: 200 OK with array of RecallSetWithSummary
    */
   router.get('/', async (c) => {
+    const recallSetRepo = userRecallSets(c);
+
     // Fetch all recall sets
     const sets = await recallSetRepo.findAll();
 
@@ -171,10 +373,14 @@ export function recallSetsRoutes(): Hono {
    * Creates a new recall set with the provided data.
    * Automatically generates a unique ID and sets status to 'active'.
    *
-   * Request body: { name, description, discussionSystemPrompt }
+   * Request body: { name, description, discussionSystemPrompt, desiredRetention?,
+   *                 maximumIntervalDays?, maxPointsPerSession?, newPointsPerDay?,
+   *                 leechLapseThreshold? }
    * Response: 201 Created with the new RecallSet
    */
   router.post('/', validate(createRecallSetSchema), async (c) => {
+    const recallSetRepo = userRecallSets(c);
+
     const body = getValidatedBody(c, createRecallSetSchema);
 
     // Create the recall set with a generated ID
@@ -184,6 +390,11 @@ export function recallSetsRoutes(): Hono {
       description: body.description,
       discussionSystemPrompt: body.discussionSystemPrompt,
       status: 'active',
+      desiredRetention: body.desiredRetention,
+      maximumIntervalDays: body.maximumIntervalDays,
+      maxPointsPerSession: body.maxPointsPerSession,
+      newPointsPerDay: body.newPointsPerDay,
+      leechLapseThreshold: body.leechLapseThreshold,
     });
 
     return success(c, newSet, 201);
@@ -198,6 +409,8 @@ export function recallSetsRoutes(): Hono {
    * Response: 200 OK with RecallSetWithSummary, or 404 if not found
    */
   router.get('/:id', async (c) => {
+    const recallSetRepo = userRecallSets(c);
+
     const id = c.req.param('id');
     const set = await recallSetRepo.findById(id);
 
@@ -230,10 +443,15 @@ export function recallSetsRoutes(): Hono {
    * Updates an existing recall set with partial data.
    * Only provided fields are updated; others remain unchanged.
    *
-   * Request body: { name?, description?, discussionSystemPrompt?, status? }
+   * Request body: { name?, description?, discussionSystemPrompt?, status?,
+   *                 desiredRetention?, maximumIntervalDays?, maxPointsPerSession?,
+   *                 newPointsPerDay?, leechLapseThreshold? } (null resets a setting
+   *                 to the default)
    * Response: 200 OK with updated RecallSet, or 404 if not found
    */
   router.patch('/:id', validate(updateRecallSetSchema), async (c) => {
+    const recallSetRepo = userRecallSets(c);
+
     const id = c.req.param('id');
     const body = getValidatedBody(c, updateRecallSetSchema);
 
@@ -244,12 +462,7 @@ export function recallSetsRoutes(): Hono {
     }
 
     // Ensure at least one field is being updated
-    if (
-      body.name === undefined &&
-      body.description === undefined &&
-      body.discussionSystemPrompt === undefined &&
-      body.status === undefined
-    ) {
+    if (Object.values(body).every((value) => value === undefined)) {
       return badRequest(c, 'No fields provided for update');
     }
 
@@ -268,6 +481,8 @@ export function recallSetsRoutes(): Hono {
    * Response: 200 OK with archived RecallSet, or 404 if not found
    */
   router.delete('/:id', async (c) => {
+    const recallSetRepo = userRecallSets(c);
+
     const id = c.req.param('id');
 
     // Check if the set exists
@@ -282,6 +497,45 @@ export function recallSetsRoutes(): Hono {
     return success(c, archivedSet);
   });
 
+  /**
+   * GET /:id/export
+   *
+   * Downloads a recall set's points in a study format, as a file attachment:
+   * - format=anki: Anki "Notes in Plain Text" (.txt)
+   * - format=markdown: one heading per point with its context (.md)
+   * - format=bundle (default): JSON bundle with FSRS state and recall
+   *   history, re-importable through POST /import/bundle
+   *
+   * Response: 200 OK with the file, 400 for an unknown format, or 404 if
+   *   the set is not found
+   */
+  router.get('/:id/export', async (c) => {
+    const id = c.req.param('id');
+    const format = (c.req.query('format') ?? 'bundle') as RecallSetContentFormat;
+
+    if (!RECALL_SET_CONTENT_FORMATS.includes(format)) {
+      return badRequest(
+        c,
+        `Invalid format '${format}'. Expected one of: ${RECALL_SET_CONTENT_FORMATS.join(', ')}`
+      );
+    }
+
+    const recallSet = await userRecallSets(c).findById(id);
+    if (!recallSet) {
+      return notFound(c, 'RecallSet', id);
+    }
+
+    const data = await userExportService(c).exportRecallSetContent(id, format);
+    const { extension, contentType } = CONTENT_EXPORT_FILES[format];
+    const slug = recallSet.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const fileName = `${slug || 'recall-set'}.${extension}`;
+
+    return c.body(data, 200, {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    });
+  });
+
   // ===========================================================================
   // RecallPoint Routes (nested under /:id/points)
   // ===========================================================================
@@ -294,6 +548,8 @@ export function recallSetsRoutes(): Hono {
    * Response: 200 OK with array of RecallPoint, or 404 if set not found
    */
   router.get('/:id/points', async (c) => {
+    const recallSetRepo = userRecallSets(c);
+
     const setId = c.req.param('id');
 
     // Verify the recall set exists
@@ -318,6 +574,8 @@ export function recallSetsRoutes(): Hono {
    * Response: 201 Created with the new RecallPoint, or 404 if set not found
    */
   router.post('/:id/points', validate(createRecallPointSchema), async (c) => {
+    const recallSetRepo = userRecallSets(c);
+
     const setId = c.req.param('id');
     const body = getValidatedBody(c, createRecallPointSchema);
 
@@ -354,6 +612,8 @@ export function recallSetsRoutes(): Hono {
     '/:id/points/:pointId',
     validate(updateRecallPointSchema),
     async (c) => {
+      const recallSetRepo = userRecallSets(c);
+
       const setId = c.req.param('id');
       const pointId = c.req.param('pointId');
       const body = getValidatedBody(c, updateRecallPointSchema);
@@ -396,6 +656,8 @@ export function recallSetsRoutes(): Hono {
    * Response: 200 OK with success message, or 404 if not found
    */
   router.delete('/:id/points/:pointId', async (c) => {
+    const recallSetRepo = userRecallSets(c);
+
     const setId = c.req.param('id');
     const pointId = c.req.param('pointId');
 
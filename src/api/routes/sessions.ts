@@ -7,16 +7,38 @@
  *
  * Endpoints:
  * - GET /sessions - List sessions with filters (pagination, recallSetId, dateRange, status)
+ * - GET /sessions/daily-review - Preview today's daily review across recall sets
  * - GET /sessions/:id - Get session details
  * - GET /sessions/:id/transcript - Get full transcript with messages and markers
  * - POST /sessions/start - Start a new session for a recall set
+ * - POST /sessions/daily-review/start - Start a daily review across recall sets
  * - POST /sessions/:id/abandon - Abandon an in-progress session
+ * - GET /sessions/:id/annotations - List notes and tags on the session
+ * - POST /sessions/:id/annotations - Annotate the session or one of its messages
+ * - PATCH /sessions/:id/annotations/:annotationId - Edit an annotation
+ * - DELETE /sessions/:id/annotations/:annotationId - Delete an annotation
+ * - GET /sessions/:id/tangents - List recall points proposed from the session's tangents
+ * - POST /sessions/:id/tangents - Propose recall points from tangents not yet followed up
+ * - POST /sessions/:id/tangents/:candidateId/accept - Add a proposed point to a recall set
+ * - POST /sessions/:id/tangents/:candidateId/dismiss - Dismiss a proposed point
  *
  * This module works in conjunction with the WebSocket handler (T07) which
  * manages real-time session interactions after a session is started via POST /sessions/start.
+ *
+ * Sessions and recall sets are looked up through repositories scoped to the
+ * authenticated user, so users can only see and start their own sessions.
+ * Messages, metrics, outcomes, and rabbitholes are only read after the
+ * owning session has been found that way.
+ *
+ * Annotations are notes made while reading a transcript to refine the
+ * prompts (see GET /api/annotations/report for their tag frequencies). *
+ * Tangent candidates are recall points summarized from the session's
+ * finished rabbitholes. They are proposed when a session completes, or on
+ * request; accepted ones are added to the session's recall set or to the
+ * learner's "Tangents" inbox set.
  */
 
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { z } from 'zod';
 import { db } from '@/storage/db';
 import {
@@ -27,8 +49,39 @@ import {
   RecallPointRepository,
   RecallOutcomeRepository,
   RabbitholeEventRepository,
+  SessionAnnotationRepository,
+  TangentCandidateRepository,
 } from '@/storage/repositories';
-import { success, notFound, badRequest, internalError } from '../utils/response';
+import {
+  resolveSessionLimits,
+  planSession,
+  planPracticeSession,
+  planDailyReview,
+  DAILY_REVIEW_NAME,
+  type DailyReviewSource,
+  type SessionPlan,
+} from '@/core/session';
+import {
+  assignSessionPrompts,
+  loadPromptExperiment,
+  type SessionPromptAssignment,
+} from '@/core/experiments';
+import { normalizeAnnotationTags } from '@/core/analytics';
+import { TangentFollowUpService, TangentFollowUpError } from '@/core/analysis';
+import { FSRSScheduler } from '@/core/fsrs';
+import { createLLMProvider } from '@/llm/provider-factory';
+import type { LLMProvider } from '@/llm/types';
+import type { RecallSet, SessionMode, PromptVersions } from '@/core/models';
+import { getPromptExperimentPath } from '@/config';
+import { getUser } from '../middleware/user-context';
+import { validate, getValidatedBody } from '../middleware/validate';
+import {
+  createSessionAnnotationSchema,
+  updateSessionAnnotationSchema,
+  acceptTangentCandidateSchema,
+} from '../types';
+import { ErrorCodes } from '../middleware/error-handler';
+import { success, notFound, badRequest, internalError, error } from '../utils/response';
 
 // ============================================================================
 // Type Definitions
@@ -51,6 +104,8 @@ interface SessionListQuery {
   offset?: string;
   /** Filter by session status */
   status?: 'completed' | 'abandoned' | 'in_progress';
+  /** Filter by session mode, e.g. 'review' to leave out practice sessions */
+  mode?: SessionMode;
 }
 
 /**
@@ -79,10 +134,12 @@ interface SessionListResponse {
 interface SessionWithMetrics {
   /** Session ID */
   id: string;
-  /** Associated recall set ID */
-  recallSetId: string;
+  /** Associated recall set ID (null for a daily review) */
+  recallSetId: string | null;
   /** Session lifecycle status */
   status: string;
+  /** Whether the session scheduled reviews or was practice */
+  mode: SessionMode;
   /** IDs of recall points targeted in this session */
   targetRecallPointIds: string[];
   /** When the session started */
@@ -106,10 +163,16 @@ interface SessionDetailResponse {
   /** Session data */
   session: {
     id: string;
-    recallSetId: string;
+    recallSetId: string | null;
     recallSetName: string;
     status: string;
+    mode: SessionMode;
     targetRecallPointIds: string[];
+    /** Prompt versions the session used (null if not recorded) */
+    promptVersions: PromptVersions | null;
+    /** Prompt experiment and variant that assigned them, if any */
+    experimentId: string | null;
+    experimentVariant: string | null;
     startedAt: Date;
     endedAt: Date | null;
   };
@@ -175,23 +238,45 @@ interface TranscriptResponse {
   totalMessages: number;
 }
 
+/**
+ * Preview of the daily review: how many sessions' worth of points are due
+ * across the user's active recall sets, and what the next session holds.
+ */
+interface DailyReviewPreviewResponse {
+  /** Sessions needed to review every due point, at the session size cap */
+  sessionsReady: number;
+  /** Due points across all active recall sets (after new point limits) */
+  duePointCount: number;
+  /** The in-progress daily review, if one was started and not finished */
+  inProgressSessionId: string | null;
+  /** Recall sets drawn on by the next session, with their point counts */
+  recallSets: Array<{ recallSetId: string; recallSetName: string; pointCount: number }>;
+  /** How the next session would be planned */
+  plan: SessionPlan['summary'];
+}
+
 /**
  * Request body for starting a new session.
  */
 const startSessionSchema = z.object({
   /** The recall set to study */
   recallSetId: z.string().min(1, 'recallSetId is required'),
+  /**
+   * 'practice' to study without rescheduling the set's points, or
+   * 'deep-dive' to study the points marked for a deep dive
+   */
+  mode: z.enum(['review', 'practice', 'deep-dive']).default('review'),
 });
 
 // ============================================================================
 // Repository Initialization
 // ============================================================================
 
-// Create repository instances with the default database connection
-const sessionRepo = new SessionRepository(db);
+// Create repository instances with the default database connection.
+// Session and RecallSet repositories are created per request (see below)
+// because they are scoped to the authenticated user.
 const sessionMessageRepo = new SessionMessageRepository(db);
 const sessionMetricsRepo = new SessionMetricsRepository(db);
-const recallSetRepo = new RecallSetRepository(db);
 const recallPointRepo = new RecallPointRepository(db);
 const recallOutcomeRepo = new RecallOutcomeRepository(db);
 const rabbitholeRepo = new RabbitholeEventRepository(db);
@@ -200,6 +285,84 @@ const rabbitholeRepo = new RabbitholeEventRepository(db);
 // Helper Functions
 // ============================================================================
 
+/**
+ * Creates a Session repository scoped to the authenticated user.
+ * @param c - Hono context for the current request
+ * @returns Repository that only sees the user's sessions
+ */
+function userSessions(c: Context): SessionRepository {
+  return new SessionRepository(db, getUser(c).id);
+}
+
+/**
+ * Creates a RecallSet repository scoped to the authenticated user.
+ * @param c - Hono context for the current request
+ * @returns Repository that only sees the user's recall sets
+ */
+function userRecallSets(c: Context): RecallSetRepository {
+  return new RecallSetRepository(db, getUser(c).id);
+}
+
+/**
+ * Creates a SessionAnnotation repository scoped to the authenticated user.
+ * @param c - Hono context for the current request
+ * @returns Repository that only sees annotations on the user's sessions
+ */
+function userAnnotations(c: Context): SessionAnnotationRepository {
+  return new SessionAnnotationRepository(db, getUser(c).id);
+}
+
+/**
+ * Creates a TangentCandidate repository scoped to the authenticated user.
+ * @param c - Hono context for the current request
+ * @returns Repository that only sees candidates from the user's sessions
+ */
+function userTangentCandidates(c: Context): TangentCandidateRepository {
+  return new TangentCandidateRepository(db, getUser(c).id);
+}
+
+/**
+ * Creates a TangentFollowUpService whose session, candidate and recall set
+ * repositories are scoped to the authenticated user.
+ * @param c - Hono context for the current request
+ * @param llmClient - LLM that summarizes tangents (only needed to propose)
+ * @returns TangentFollowUpService that only sees the user's data
+ */
+function userTangentFollowUp(c: Context, llmClient?: LLMProvider): TangentFollowUpService {
+  const userId = getUser(c).id;
+  return new TangentFollowUpService({
+    sessionRepo: new SessionRepository(db, userId),
+    messageRepo: sessionMessageRepo,
+    rabbitholeRepo,
+    tangentRepo: userTangentCandidates(c),
+    recallSetRepo: new RecallSetRepository(db, userId),
+    recallPointRepo,
+    scheduler: new FSRSScheduler(),
+    llmClient,
+  });
+}
+
+/**
+ * Converts a TangentFollowUpError into an error response; rethrows anything else.
+ * @param c - Hono context for the current request
+ * @param err - The error thrown by the tangent follow-up
+ * @returns The error response
+ */
+function handleTangentError(c: Context, err: unknown): Response {
+  if (!(err instanceof TangentFollowUpError)) {
+    throw err;
+  }
+  const responses = {
+    session_not_found: { status: 404, code: ErrorCodes.NOT_FOUND },
+    candidate_not_found: { status: 404, code: ErrorCodes.NOT_FOUND },
+    session_in_progress: { status: 409, code: ErrorCodes.CONFLICT },
+    already_reviewed: { status: 409, code: ErrorCodes.CONFLICT },
+    recall_set_not_found: { status: 400, code: ErrorCodes.BAD_REQUEST },
+  } as const;
+  const { status, code } = responses[err.type];
+  return error(c, code, err.message, status);
+}
+
 /**
  * Generates a unique session ID with prefix.
  * @returns A unique session ID in the format 'sess_<uuid>'
@@ -208,6 +371,66 @@ function generateSessionId(): string {
   return `sess_${crypto.randomUUID()}`;
 }
 
+/**
+ * Generates a unique annotation ID with prefix.
+ * @returns A unique annotation ID in the format 'ann_<uuid>'
+ */
+function generateAnnotationId(): string {
+  return `ann_${crypto.randomUUID()}`;
+}
+
+/**
+ * Checks that an annotated message index falls within the session's
+ * transcript.
+ * @param sessionId - The annotated session
+ * @param messageIndex - The annotated message (null for the whole session)
+ * @returns An error message, or null if the index is valid
+ */
+async function checkMessageIndex(sessionId: string, messageIndex: number | null): Promise<string | null> {
+  if (messageIndex === null) {
+    return null;
+  }
+  const messageCount = (await sessionMessageRepo.findBySessionId(sessionId)).length;
+  return messageIndex < messageCount
+    ? null
+    : `Message index ${messageIndex} is outside the transcript (${messageCount} messages)`;
+}
+
+/**
+ * Chooses the prompt versions for a new session: a randomly assigned
+ * variant's when PROMPT_EXPERIMENT_PATH names an experiment config, the
+ * defaults otherwise. The config is read for every new session, so edits
+ * to it apply without a restart.
+ * @returns The session's prompt versions and experiment assignment
+ */
+function assignNewSessionPrompts(): SessionPromptAssignment {
+  const experimentPath = getPromptExperimentPath();
+  return assignSessionPrompts(experimentPath ? loadPromptExperiment(experimentPath) : undefined);
+}
+
+/**
+ * Plans the authenticated user's daily review from the due points of their
+ * active recall sets.
+ * @param c - Hono context for the current request
+ * @returns The plan and the active recall sets it drew on
+ */
+async function planUserDailyReview(
+  c: Context
+): Promise<{ plan: SessionPlan; recallSets: RecallSet[] }> {
+  const recallSets = (await userRecallSets(c).findAll()).filter((set) => set.status === 'active');
+
+  const sources: DailyReviewSource[] = [];
+  for (const recallSet of recallSets) {
+    const duePoints = await recallPointRepo.findDuePoints(recallSet.id);
+    if (duePoints.length > 0) {
+      const setPoints = await recallPointRepo.findByRecallSetId(recallSet.id);
+      sources.push({ recallSet, duePoints, setPoints });
+    }
+  }
+
+  return { plan: planDailyReview(sources), recallSets };
+}
+
 /**
  * Parses and validates a date string.
  * @param dateStr - ISO 8601 date string
@@ -226,9 +449,14 @@ function parseDate(dateStr: string | undefined): Date | null {
 /**
  * Creates the sessions router with all session management endpoints.
  *
+ * @param createTangentLLM - Creates the LLM that summarizes tangents into
+ *                           recall points (defaults to the configured
+ *                           provider, created only when a request needs it)
  * @returns Hono router instance with session routes
  */
-export function sessionsRoutes(): Hono {
+export function sessionsRoutes(
+  createTangentLLM: () => LLMProvider = createLLMProvider
+): Hono {
   const router = new Hono();
 
   // -------------------------------------------------------------------------
@@ -246,6 +474,7 @@ export function sessionsRoutes(): Hono {
    * - limit: Maximum items to return (default: 20, max: 100)
    * - offset: Number of items to skip (default: 0)
    * - status: Filter by status (completed, abandoned, in_progress)
+   * - mode: Filter by mode (review, practice)
    */
   router.get('/', async (c) => {
     try {
@@ -265,19 +494,36 @@ export function sessionsRoutes(): Hono {
         return badRequest(c, `Invalid status. Must be one of: ${validStatuses.join(', ')}`);
       }
 
-      // Fetch all sessions (we'll filter in memory for simplicity)
+      const validModes = ['review', 'practice', 'deep-dive'];
+      if (query.mode && !validModes.includes(query.mode)) {
+        return badRequest(c, `Invalid mode. Must be one of: ${validModes.join(', ')}`);
+      }
+
+      // Fetch all of the user's sessions (we'll filter in memory for simplicity)
       // In a production app with large datasets, you'd want database-level filtering
-      let allSessions = await sessionRepo.findAll();
+      let allSessions = await userSessions(c).findAll();
 
-      // Apply filters
+      // Apply filters. A set's sessions include the daily reviews that
+      // covered any of its points.
       if (query.recallSetId) {
-        allSessions = allSessions.filter((s) => s.recallSetId === query.recallSetId);
+        const setPointIds = new Set(
+          (await recallPointRepo.findByRecallSetId(query.recallSetId)).map((p) => p.id)
+        );
+        allSessions = allSessions.filter((s) =>
+          s.recallSetId === null
+            ? s.targetRecallPointIds.some((id) => setPointIds.has(id))
+            : s.recallSetId === query.recallSetId
+        );
       }
 
       if (query.status) {
         allSessions = allSessions.filter((s) => s.status === query.status);
       }
 
+      if (query.mode) {
+        allSessions = allSessions.filter((s) => s.mode === query.mode);
+      }
+
       if (startDate) {
         allSessions = allSessions.filter((s) => s.startedAt >= startDate);
       }
@@ -302,6 +548,7 @@ export function sessionsRoutes(): Hono {
             id: session.id,
             recallSetId: session.recallSetId,
             status: session.status,
+            mode: session.mode,
             targetRecallPointIds: session.targetRecallPointIds,
             startedAt: session.startedAt,
             endedAt: session.endedAt,
@@ -335,6 +582,46 @@ export function sessionsRoutes(): Hono {
     }
   });
 
+  // -------------------------------------------------------------------------
+  // GET /sessions/daily-review - Preview today's daily review
+  // -------------------------------------------------------------------------
+
+  /**
+   * Previews the daily review: the most urgent due points across all of the
+   * user's active recall sets, planned into sessions of the default size.
+   * Registered before GET /sessions/:id so the path isn't read as an ID.
+   */
+  router.get('/daily-review', async (c) => {
+    try {
+      const { plan, recallSets } = await planUserDailyReview(c);
+      const inProgress = await userSessions(c).findInProgress(null);
+
+      const pointCounts = new Map<string, number>();
+      for (const point of plan.points) {
+        pointCounts.set(point.recallSetId, (pointCounts.get(point.recallSetId) ?? 0) + 1);
+      }
+
+      const response: DailyReviewPreviewResponse = {
+        sessionsReady: plan.points.length === 0 ? 0 : 1 + plan.summary.followUpSessions,
+        duePointCount: plan.points.length + plan.summary.deferredCount,
+        inProgressSessionId: inProgress?.id ?? null,
+        recallSets: recallSets
+          .filter((set) => pointCounts.has(set.id))
+          .map((set) => ({
+            recallSetId: set.id,
+            recallSetName: set.name,
+            pointCount: pointCounts.get(set.id)!,
+          })),
+        plan: plan.summary,
+      };
+
+      return success(c, response);
+    } catch (err) {
+      console.error('Error previewing daily review:', err);
+      return internalError(c, 'Failed to preview daily review');
+    }
+  });
+
   // -------------------------------------------------------------------------
   // GET /sessions/:id - Get session details
   // -------------------------------------------------------------------------
@@ -348,14 +635,16 @@ export function sessionsRoutes(): Hono {
       const id = c.req.param('id');
 
       // Fetch the session
-      const session = await sessionRepo.findById(id);
+      const session = await userSessions(c).findById(id);
       if (!session) {
         return notFound(c, 'Session', id);
       }
 
       // Fetch the associated recall set for its name
-      const recallSet = await recallSetRepo.findById(session.recallSetId);
-      const recallSetName = recallSet?.name || 'Unknown Recall Set';
+      const recallSet =
+        session.recallSetId === null ? null : await userRecallSets(c).findById(session.recallSetId);
+      const recallSetName =
+        session.recallSetId === null ? DAILY_REVIEW_NAME : recallSet?.name || 'Unknown Recall Set';
 
       // Fetch metrics if available
       const metrics = await sessionMetricsRepo.findBySessionId(id);
@@ -366,7 +655,11 @@ export function sessionsRoutes(): Hono {
           recallSetId: session.recallSetId,
           recallSetName,
           status: session.status,
+          mode: session.mode,
           targetRecallPointIds: session.targetRecallPointIds,
+          promptVersions: session.promptVersions,
+          experimentId: session.experimentId,
+          experimentVariant: session.experimentVariant,
           startedAt: session.startedAt,
           endedAt: session.endedAt,
         },
@@ -407,8 +700,8 @@ export function sessionsRoutes(): Hono {
     try {
       const id = c.req.param('id');
 
-      // Verify session exists
-      const session = await sessionRepo.findById(id);
+      // Verify session exists (and belongs to the user)
+      const session = await userSessions(c).findById(id);
       if (!session) {
         return notFound(c, 'Session', id);
       }
@@ -494,9 +787,19 @@ export function sessionsRoutes(): Hono {
    *
    * Request Body:
    * - recallSetId: The ID of the recall set to study
+   * - mode: 'review' (default), 'practice' or 'deep-dive'
    *
-   * The session is initialized with all due recall points from the recall set.
-   * If there are no due recall points, all recall points are included.
+   * The session is planned from the due recall points of the recall set,
+   * within the set's limits on points per session and new points per day.
+   * Points that don't fit are left for follow-up sessions; the response's
+   * plan summarizes the planner's choices. With nothing due, a review is
+   * refused with 409 Conflict: study the set with a practice session instead.
+   *
+   * A practice session draws on all of the set's points up to the session
+   * size cap, and its evaluations leave the points' schedules untouched.
+   * A deep-dive session draws on the points marked for a deep dive, up to
+   * the session size cap. Suspended points are never studied. Sessions of
+   * each mode are resumed separately.
    */
   router.post('/start', async (c) => {
     try {
@@ -511,10 +814,11 @@ export function sessionsRoutes(): Hono {
         return badRequest(c, errorMessage);
       }
 
-      const { recallSetId } = parseResult.data;
+      const { recallSetId, mode } = parseResult.data;
+      const sessionRepo = userSessions(c);
 
-      // Verify the recall set exists
-      const recallSet = await recallSetRepo.findById(recallSetId);
+      // Verify the recall set exists (and belongs to the user)
+      const recallSet = await userRecallSets(c).findById(recallSetId);
       if (!recallSet) {
         return notFound(c, 'RecallSet', recallSetId);
       }
@@ -525,7 +829,7 @@ export function sessionsRoutes(): Hono {
       }
 
       // Check for existing in-progress session
-      const existingSession = await sessionRepo.findInProgress(recallSetId);
+      const existingSession = await sessionRepo.findInProgress(recallSetId, mode);
       if (existingSession) {
         // Return the existing session ID instead of creating a new one
         return success(
@@ -534,22 +838,55 @@ export function sessionsRoutes(): Hono {
             sessionId: existingSession.id,
             message: 'Resuming existing in-progress session',
             isResume: true,
+            mode,
           },
           200
         );
       }
 
-      // Get recall points due for review (or all if none are due)
-      let duePoints = await recallPointRepo.findDuePoints(recallSetId);
+      // Get recall points due for review; suspended points are out of the
+      // review cycle
+      const setPoints = (await recallPointRepo.findByRecallSetId(recallSetId)).filter(
+        (point) => !point.suspendedAt
+      );
+      const candidates = await recallPointRepo.findDuePoints(recallSetId);
 
-      // If no points are due, include all points from the recall set
-      if (duePoints.length === 0) {
-        duePoints = await recallPointRepo.findByRecallSetId(recallSetId);
+      // Ensure there are recall points to study
+      if (setPoints.length === 0) {
+        return badRequest(c, 'No recall points available in this recall set');
       }
 
-      // Ensure there are recall points to study
+      // A review covers only due points; practice is started explicitly
+      if (mode === 'review' && candidates.length === 0) {
+        return error(
+          c,
+          ErrorCodes.CONFLICT,
+          'No recall points are due for review in this recall set; start a practice session to study them anyway',
+          409
+        );
+      }
+
+      // A deep dive covers only the points marked for one
+      const markedPoints = setPoints.filter((point) => point.deepDiveRequestedAt);
+      if (mode === 'deep-dive' && markedPoints.length === 0) {
+        return badRequest(c, 'No recall points in this recall set are marked for a deep dive');
+      }
+
+      // Plan the session within the set's session size and daily new point
+      // limits; practice and deep dives ignore due dates and the new point limit
+      const limits = resolveSessionLimits(recallSet);
+      const plan =
+        mode === 'practice'
+          ? planPracticeSession(setPoints, recallSet)
+          : mode === 'deep-dive'
+            ? planPracticeSession(markedPoints, recallSet)
+            : planSession(candidates, setPoints, limits);
+      const duePoints = plan.points;
       if (duePoints.length === 0) {
-        return badRequest(c, 'No recall points available in this recall set');
+        return badRequest(
+          c,
+          `Today's limit of ${limits.newPointsPerDay} new recall points for this recall set has been reached`
+        );
       }
 
       // Create the new session
@@ -559,7 +896,9 @@ export function sessionsRoutes(): Hono {
       await sessionRepo.create({
         id: sessionId,
         recallSetId,
+        mode,
         targetRecallPointIds,
+        ...assignNewSessionPrompts(),
         startedAt: new Date(),
       });
 
@@ -570,6 +909,8 @@ export function sessionsRoutes(): Hono {
           message: 'Session started successfully',
           targetRecallPointCount: targetRecallPointIds.length,
           isResume: false,
+          mode,
+          plan: plan.summary,
         },
         201
       );
@@ -579,6 +920,73 @@ export function sessionsRoutes(): Hono {
     }
   });
 
+  // -------------------------------------------------------------------------
+  // POST /sessions/daily-review/start - Start a daily review
+  // -------------------------------------------------------------------------
+
+  /**
+   * Starts a daily review session: the most urgent due points across all of
+   * the user's active recall sets, planned like a regular session. Each
+   * point is discussed with its own set's prompt over the WebSocket, and its
+   * outcome is recorded against its own set. The session has no recallSetId.
+   *
+   * An in-progress daily review is returned instead of starting another.
+   */
+  router.post('/daily-review/start', async (c) => {
+    try {
+      const sessionRepo = userSessions(c);
+
+      const existingSession = await sessionRepo.findInProgress(null);
+      if (existingSession) {
+        return success(
+          c,
+          {
+            sessionId: existingSession.id,
+            message: 'Resuming existing in-progress daily review',
+            isResume: true,
+          },
+          200
+        );
+      }
+
+      const { plan } = await planUserDailyReview(c);
+      if (plan.points.length === 0) {
+        return badRequest(
+          c,
+          plan.summary.newHeldBackCount > 0
+            ? "Today's new recall point limits have been reached, and no reviewed points are due"
+            : 'No recall points are due for review in any active recall set'
+        );
+      }
+
+      const sessionId = generateSessionId();
+      const targetRecallPointIds = plan.points.map((p) => p.id);
+
+      await sessionRepo.create({
+        id: sessionId,
+        recallSetId: null,
+        targetRecallPointIds,
+        ...assignNewSessionPrompts(),
+        startedAt: new Date(),
+      });
+
+      return success(
+        c,
+        {
+          sessionId,
+          message: 'Daily review started successfully',
+          targetRecallPointCount: targetRecallPointIds.length,
+          isResume: false,
+          plan: plan.summary,
+        },
+        201
+      );
+    } catch (err) {
+      console.error('Error starting daily review:', err);
+      return internalError(c, 'Failed to start daily review');
+    }
+  });
+
   // -------------------------------------------------------------------------
   // POST /sessions/:id/abandon - Abandon an in-progress session
   // -------------------------------------------------------------------------
@@ -595,7 +1003,9 @@ export function sessionsRoutes(): Hono {
     try {
       const id = c.req.param('id');
 
-      // Verify session exists
+      const sessionRepo = userSessions(c);
+
+      // Verify session exists (and belongs to the user)
       const session = await sessionRepo.findById(id);
       if (!session) {
         return notFound(c, 'Session', id);
@@ -623,6 +1033,251 @@ export function sessionsRoutes(): Hono {
     }
   });
 
+  // -------------------------------------------------------------------------
+  // GET /sessions/:id/annotations - List annotations
+  // -------------------------------------------------------------------------
+
+  /**
+   * Lists the notes and tags made on a session and its messages, oldest
+   * first.
+   */
+  router.get('/:id/annotations', async (c) => {
+    const id = c.req.param('id');
+
+    // Verify session exists (and belongs to the user)
+    const session = await userSessions(c).findById(id);
+    if (!session) {
+      return notFound(c, 'Session', id);
+    }
+
+    return success(c, await userAnnotations(c).findBySessionId(id));
+  });
+
+  // -------------------------------------------------------------------------
+  // POST /sessions/:id/annotations - Annotate a session
+  // -------------------------------------------------------------------------
+
+  /**
+   * Adds a note to a session, or to one message of its transcript.
+   *
+   * Request Body:
+   * - messageIndex: Index of the annotated message (null or omitted for the
+   *   whole session)
+   * - note: Free-text note
+   * - tags: Tags such as 'too long' or 'robotic'; stored lowercase
+   *
+   * An annotation needs a note or at least one tag.
+   *
+   * Response: 201 Created with the annotation
+   */
+  router.post('/:id/annotations', validate(createSessionAnnotationSchema), async (c) => {
+    const id = c.req.param('id');
+    const body = getValidatedBody(c, createSessionAnnotationSchema);
+
+    // Verify session exists (and belongs to the user)
+    const session = await userSessions(c).findById(id);
+    if (!session) {
+      return notFound(c, 'Session', id);
+    }
+
+    const note = body.note.trim();
+    const tags = normalizeAnnotationTags(body.tags);
+    if (!note && tags.length === 0) {
+      return badRequest(c, 'An annotation needs a note or at least one tag');
+    }
+
+    const indexError = await checkMessageIndex(id, body.messageIndex);
+    if (indexError) {
+      return badRequest(c, indexError);
+    }
+
+    const annotation = await userAnnotations(c).create({
+      id: generateAnnotationId(),
+      sessionId: id,
+      messageIndex: body.messageIndex,
+      note,
+      tags,
+    });
+
+    return success(c, annotation, 201);
+  });
+
+  // -------------------------------------------------------------------------
+  // PATCH /sessions/:id/annotations/:annotationId - Edit an annotation
+  // -------------------------------------------------------------------------
+
+  /**
+   * Edits an annotation's note, tags, or annotated message. The annotation
+   * must still have a note or at least one tag afterwards.
+   *
+   * Response: 200 OK with the annotation, or 404 if not found
+   */
+  router.patch(
+    '/:id/annotations/:annotationId',
+    validate(updateSessionAnnotationSchema),
+    async (c) => {
+      const id = c.req.param('id');
+      const annotationId = c.req.param('annotationId');
+      const body = getValidatedBody(c, updateSessionAnnotationSchema);
+      const annotationRepo = userAnnotations(c);
+
+      // Verify the annotation exists and belongs to this session
+      const existing = await annotationRepo.findById(annotationId);
+      if (!existing || existing.sessionId !== id) {
+        return notFound(c, 'Annotation', annotationId);
+      }
+
+      // Ensure at least one field is being updated
+      if (Object.values(body).every((value) => value === undefined)) {
+        return badRequest(c, 'No fields provided for update');
+      }
+
+      const note = body.note?.trim() ?? existing.note;
+      const tags = body.tags ? normalizeAnnotationTags(body.tags) : existing.tags;
+      if (!note && tags.length === 0) {
+        return badRequest(c, 'An annotation needs a note or at least one tag');
+      }
+
+      if (body.messageIndex !== undefined) {
+        const indexError = await checkMessageIndex(id, body.messageIndex);
+        if (indexError) {
+          return badRequest(c, indexError);
+        }
+      }
+
+      const annotation = await annotationRepo.update(annotationId, {
+        messageIndex: body.messageIndex,
+        note,
+        tags,
+      });
+
+      return success(c, annotation);
+    }
+  );
+
+  // -------------------------------------------------------------------------
+  // DELETE /sessions/:id/annotations/:annotationId - Delete an annotation
+  // -------------------------------------------------------------------------
+
+  /**
+   * Permanently deletes an annotation.
+   *
+   * Response: 200 OK with success message, or 404 if not found
+   */
+  router.delete('/:id/annotations/:annotationId', async (c) => {
+    const id = c.req.param('id');
+    const annotationId = c.req.param('annotationId');
+    const annotationRepo = userAnnotations(c);
+
+    // Verify the annotation exists and belongs to this session
+    const existing = await annotationRepo.findById(annotationId);
+    if (!existing || existing.sessionId !== id) {
+      return notFound(c, 'Annotation', annotationId);
+    }
+
+    await annotationRepo.delete(annotationId);
+
+    return success(c, { message: 'Annotation deleted successfully', id: annotationId });
+  });
+
+  // -------------------------------------------------------------------------
+  // GET /sessions/:id/tangents - List tangent candidates
+  // -------------------------------------------------------------------------
+
+  /**
+   * Lists the recall points proposed from the session's tangents, oldest
+   * first, whatever their review status.
+   */
+  router.get('/:id/tangents', async (c) => {
+    try {
+      return success(c, await userTangentFollowUp(c).listForSession(c.req.param('id')));
+    } catch (err) {
+      return handleTangentError(c, err);
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // POST /sessions/:id/tangents - Propose tangent candidates
+  // -------------------------------------------------------------------------
+
+  /**
+   * Summarizes the session's finished rabbitholes that have no candidate
+   * yet into candidate recall points. Safe to repeat, e.g. when the
+   * proposals made at the end of the session failed.
+   *
+   * Response: 200 OK with { sessionId, proposed, skippedCount }, or 409 if
+   * the session is still in progress
+   */
+  router.post('/:id/tangents', async (c) => {
+    try {
+      const service = userTangentFollowUp(c, createTangentLLM());
+      return success(c, await service.proposeForSession(c.req.param('id')));
+    } catch (err) {
+      return handleTangentError(c, err);
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // POST /sessions/:id/tangents/:candidateId/accept - Accept a candidate
+  // -------------------------------------------------------------------------
+
+  /**
+   * Adds a pending candidate as a new recall point.
+   *
+   * Request Body:
+   * - destination: 'set' for the candidate's recall set (default) or
+   *   'inbox' for the "Tangents" inbox set
+   * - content, context: Optional edits to the proposed point
+   *
+   * Response: 200 OK with the accepted candidate (recallPointId set),
+   * 400 if it has no recall set to go to, or 409 if already reviewed
+   */
+  router.post(
+    '/:id/tangents/:candidateId/accept',
+    validate(acceptTangentCandidateSchema),
+    async (c) => {
+      const candidateId = c.req.param('candidateId');
+      const body = getValidatedBody(c, acceptTangentCandidateSchema);
+
+      // Verify the candidate exists and was proposed from this session
+      const existing = await userTangentCandidates(c).findById(candidateId);
+      if (!existing || existing.sessionId !== c.req.param('id')) {
+        return notFound(c, 'Tangent candidate', candidateId);
+      }
+
+      try {
+        return success(c, await userTangentFollowUp(c).accept(candidateId, body));
+      } catch (err) {
+        return handleTangentError(c, err);
+      }
+    }
+  );
+
+  // -------------------------------------------------------------------------
+  // POST /sessions/:id/tangents/:candidateId/dismiss - Dismiss a candidate
+  // -------------------------------------------------------------------------
+
+  /**
+   * Marks a pending candidate as not worth keeping.
+   *
+   * Response: 200 OK with the dismissed candidate, or 409 if already reviewed
+   */
+  router.post('/:id/tangents/:candidateId/dismiss', async (c) => {
+    const candidateId = c.req.param('candidateId');
+
+    // Verify the candidate exists and was proposed from this session
+    const existing = await userTangentCandidates(c).findById(candidateId);
+    if (!existing || existing.sessionId !== c.req.param('id')) {
+      return notFound(c, 'Tangent candidate', candidateId);
+    }
+
+    try {
+      return success(c, await userTangentFollowUp(c).dismiss(candidateId));
+    } catch (err) {
+      return handleTangentError(c, err);
+    }
+  });
+
   return router;
 }
 
@@ -8,6 +8,7 @@
  * Features:
  * - Automatic port discovery (finds available port if preferred is in use)
  * - CORS configuration for frontend dev server
+ * - Password login with per-user data scoping (see src/core/auth)
  * - Request logging with response times
  * - Rate limiting (100 req/min general, 10 req/min for LLM endpoints)
  * - Consistent JSON error responses
@@ -21,6 +22,7 @@
  *   PORT - Preferred port (default: 3001)
  *   NODE_ENV - Environment mode (development/production/test)
  *   ALLOWED_ORIGINS - Comma-separated list of allowed CORS origins
+ *   JWT_SECRET - Secret for signing login tokens (required in production)
  *
  * @example
  * ```bash
@@ -38,13 +40,17 @@ import type { Server } from 'bun';
 import {
   corsMiddleware,
   errorHandler,
+  appErrorHandler,
   loggerMiddleware,
   generalRateLimiter,
   llmRateLimiter,
+  authRateLimiter,
   getProductionCorsConfig,
   userContext,
+  requireAuth,
+  getAuthToken,
 } from './middleware';
-import { createApiRouter, healthRoutes } from './routes';
+import { createApiRouter, healthRoutes, authRoutes } from './routes';
 import {
   createWebSocketHandlers,
   extractSessionIdFromUrl,
@@ -59,15 +65,27 @@ import {
   RecallSetRepository,
   RecallPointRepository,
   SessionMessageRepository,
+  UserRepository,
+  FSRSParametersRepository,
+  SessionMetricsRepository,
+  RecallOutcomeRepository,
+  SessionAnnotationRepository,
+  RabbitholeEventRepository,
+  TangentCandidateRepository,
 } from '@/storage/repositories';
+import { AuthService } from '@/core/auth';
 import { FSRSScheduler } from '@/core/fsrs/scheduler';
 import { RecallEvaluator } from '@/core/scoring/recall-evaluator';
-import { AnthropicClient } from '@/llm/client';
+import { TangentFollowUpService } from '@/core/analysis/tangent-follow-up';
+import { createLLMProvider } from '@/llm/provider-factory';
 import {
   config as appConfig,
   validateConfig,
   isProduction,
   ConfigValidationError,
+  getJwtSecret,
+  getAuthTokenTtlHours,
+  isRegistrationOpen,
 } from '../config';
 
 // ============================================================================
@@ -149,6 +167,34 @@ async function findAvailablePort(
   });
 }
 
+// ============================================================================
+// Authentication
+// ============================================================================
+
+/**
+ * Creates the AuthService used by the user context middleware, the auth
+ * routes, and WebSocket upgrades.
+ *
+ * The recall set and session repositories passed here are unscoped: the
+ * service only uses them to hand unowned data to the first registered user.
+ *
+ * @returns AuthService configured from the environment
+ */
+function createAuthService(): AuthService {
+  return new AuthService(
+    {
+      userRepo: new UserRepository(db),
+      recallSetRepo: new RecallSetRepository(db),
+      sessionRepo: new SessionRepository(db),
+    },
+    {
+      jwtSecret: getJwtSecret(),
+      tokenTtlHours: getAuthTokenTtlHours(),
+      allowRegistration: isRegistrationOpen(),
+    }
+  );
+}
+
 // ============================================================================
 // Hono Application Setup
 // ============================================================================
@@ -160,17 +206,26 @@ async function findAvailablePort(
  * 1. Error Handler - Must be first to catch all errors
  * 2. Logger - Logs all requests with timing
  * 3. CORS - Handles cross-origin requests
- * 4. Rate Limiters - Applied to specific route groups
+ * 4. User Context - Resolves the logged-in user from the session token
+ * 5. Rate Limiters - Applied to specific route groups
+ * 6. Auth Routes - Register/login, reachable without a token
+ * 7. Require Auth - Every API route after this point returns 401 without a user
  *
+ * @param authService - Service used to authenticate requests (created from
+ *                      the environment if not provided)
  * @returns Configured Hono application instance
  */
-function createApp(): Hono {
+function createApp(authService: AuthService = createAuthService()): Hono {
   const app = new Hono();
 
   // ---------------------------------------------------------------------------
   // Global Middleware (applied to all routes)
   // ---------------------------------------------------------------------------
 
+  // Errors thrown by handlers and middleware are routed to onError by Hono;
+  // format them as standard API error responses
+  app.onError(appErrorHandler());
+
   // Error handler MUST be first to catch errors from all subsequent middleware
   app.use('*', errorHandler());
 
@@ -199,13 +254,24 @@ function createApp(): Hono {
   // API Routes with Rate Limiting and User Context
   // ---------------------------------------------------------------------------
 
-  // User context middleware - injects authenticated user into all API requests
-  // Future: This will validate auth tokens and fetch user from database
-  app.use('/api/*', userContext());
+  // User context middleware - resolves the user from the session cookie or
+  // Bearer token (does not reject requests by itself)
+  app.use('/api/*', userContext(authService));
 
   // General API rate limit (100 req/min) for most endpoints
   app.use('/api/*', generalRateLimiter());
 
+  // Separate, stricter limit on credential checks to slow down password guessing
+  app.use('/api/auth/login', authRateLimiter());
+  app.use('/api/auth/register', authRateLimiter());
+
+  // Registration and login must be reachable without a token, so the auth
+  // routes are mounted before requireAuth()
+  app.route('/api/auth', authRoutes(authService));
+
+  // Everything below requires a logged-in user (401 from the error handler otherwise)
+  app.use('/api/*', requireAuth());
+
   // Stricter rate limit (10 req/min) ONLY for endpoints that actually call the LLM.
   // Read operations (GET /sessions, GET /sessions/:id) use the general rate limit above.
   // Only POST operations that trigger LLM calls need the strict limit.
@@ -218,11 +284,13 @@ function createApp(): Hono {
 
   /**
    * Mount all API routes from the centralized router.
+   * Route handlers scope their repositories to the authenticated user.
    * This includes:
    * - GET /api - API information
    * - GET /api/recall-sets - RecallSet operations (placeholder)
    * - GET /api/sessions - Session operations (placeholder)
-   * - GET /api/analytics - Analytics operations (placeholder)
+   * - /api/analytics - Retention curves, stability distribution and leeches
+   * - /api/leeches - Leech remediation queue
    *
    * Route implementations are defined in src/api/routes/
    */
@@ -411,15 +479,24 @@ function createApp(): Hono {
  *
  * These include:
  * - Repositories for database access (sessions, recall sets, recall points, messages)
- * - FSRS scheduler for spaced repetition calculations
+ *   These are unscoped: session ownership is checked once, when the
+ *   WebSocket connection is upgraded (see startServer)
+ * - FSRS scheduler for spaced repetition calculations, plus the weights
+ *   fitted to each recall set's review history
+ * - Metrics and recall outcome repositories, so web sessions record each
+ *   evaluation with the AI's and the learner's ratings
+ * - Rabbithole repository, so tangents the learner explores are recorded
+ * - Tangent follow-up, so a completed session's rabbitholes are proposed
+ *   as recall points
  * - LLM client for AI tutor responses
  * - Recall evaluator for assessing user recall
  *
  * @returns Real dependencies for WebSocket handler
  */
 function createWsDependencies(): WebSocketHandlerDependencies {
-  // Create the LLM client for AI-powered tutoring
-  const llmClient = new AnthropicClient();
+  // Create the configured LLM provider for AI-powered tutoring
+  // (live Anthropic API, or scripted playback when LLM_PROVIDER=scripted)
+  const llmClient = createLLMProvider();
 
   // Create the FSRS scheduler for spaced repetition
   const scheduler = new FSRSScheduler();
@@ -427,12 +504,34 @@ function createWsDependencies(): WebSocketHandlerDependencies {
   // Create the recall evaluator for assessing recall success
   const evaluator = new RecallEvaluator(llmClient);
 
+  const sessionRepo = new SessionRepository(db);
+  const recallSetRepo = new RecallSetRepository(db);
+  const recallPointRepo = new RecallPointRepository(db);
+  const messageRepo = new SessionMessageRepository(db);
+  const rabbitholeRepo = new RabbitholeEventRepository(db);
+
   // Return all dependencies needed for real SessionEngine-powered WebSocket handling
   return {
-    sessionRepo: new SessionRepository(db),
-    recallSetRepo: new RecallSetRepository(db),
-    recallPointRepo: new RecallPointRepository(db),
-    messageRepo: new SessionMessageRepository(db),
+    sessionRepo,
+    recallSetRepo,
+    recallPointRepo,
+    messageRepo,
+    fsrsParametersRepo: new FSRSParametersRepository(db),
+    metricsRepo: new SessionMetricsRepository(db),
+    recallOutcomeRepo: new RecallOutcomeRepository(db),
+    annotationRepo: new SessionAnnotationRepository(db),
+    rabbitholeRepo,
+    // Only proposes candidates here; they are reviewed through the API
+    tangentFollowUp: new TangentFollowUpService({
+      sessionRepo,
+      messageRepo,
+      rabbitholeRepo,
+      tangentRepo: new TangentCandidateRepository(db),
+      recallSetRepo,
+      recallPointRepo,
+      scheduler,
+      llmClient,
+    }),
     scheduler,
     evaluator,
     llmClient,
@@ -467,8 +566,11 @@ async function startServer(): Promise<void> {
     // Find an available port
     const port = await findAvailablePort(config.preferredPort);
 
+    // Create the auth service shared by the HTTP API and WebSocket upgrades
+    const authService = createAuthService();
+
     // Create the configured application
-    const app = createApp();
+    const app = createApp(authService);
 
     // Create WebSocket dependencies with real repository instances
     const wsDeps = createWsDependencies();
@@ -484,7 +586,7 @@ async function startServer(): Promise<void> {
       port,
 
       // Custom fetch handler that handles WebSocket upgrades
-      fetch(req, server) {
+      async fetch(req, server) {
         const url = new URL(req.url);
 
         // Check if this is a WebSocket upgrade request for the session endpoint
@@ -508,6 +610,38 @@ async function startServer(): Promise<void> {
             });
           }
 
+          // Only the session's owner may connect. The browser sends the
+          // session cookie with the upgrade request.
+          const user = await authService.authenticate(getAuthToken(req));
+          if (!user) {
+            return new Response(JSON.stringify({
+              success: false,
+              error: {
+                code: 'UNAUTHORIZED',
+                message: 'Authentication required',
+              },
+            }), {
+              status: 401,
+              headers: { 'Content-Type': 'application/json' },
+            });
+          }
+
+          const ownedSession = await new SessionRepository(db, user.id).findById(
+            result.sessionId
+          );
+          if (!ownedSession) {
+            return new Response(JSON.stringify({
+              success: false,
+              error: {
+                code: 'SESSION_NOT_FOUND',
+                message: `Session with ID '${result.sessionId}' not found`,
+              },
+            }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' },
+            });
+          }
+
           // Perform the WebSocket upgrade
           const upgraded = server.upgrade(req, {
             data: createInitialSessionData(result.sessionId),
@@ -155,6 +155,63 @@ export interface ValidationErrorDetail {
 // Common Request Schemas (Zod)
 // ============================================================================
 
+/**
+ * Per-set scheduling settings shared by the create and update schemas.
+ * Each is optional; null (or leaving it out on create) uses the default.
+ *
+ * Validates:
+ * - desiredRetention: 0.7-0.99 target probability of recall
+ * - maximumIntervalDays: Whole number of days, 1-36500
+ * - maxPointsPerSession: Whole number, 1-500
+ * - newPointsPerDay: Whole number, 0-1000 (0 stops introducing new points)
+ * - leechLapseThreshold: Whole number, 1-100
+ */
+const schedulingSettingsSchema = {
+  /** Target retention when a point comes up for review */
+  desiredRetention: z
+    .number()
+    .min(0.7, 'Desired retention must be at least 0.7')
+    .max(0.99, 'Desired retention must be at most 0.99')
+    .nullable()
+    .optional(),
+
+  /** Longest interval a point can be scheduled ahead, in days */
+  maximumIntervalDays: z
+    .number()
+    .int('Maximum interval must be a whole number of days')
+    .min(1, 'Maximum interval must be at least 1 day')
+    .max(36500, 'Maximum interval must be at most 36500 days')
+    .nullable()
+    .optional(),
+
+  /** Most recall points per session */
+  maxPointsPerSession: z
+    .number()
+    .int('Max points per session must be a whole number')
+    .min(1, 'Max points per session must be at least 1')
+    .max(500, 'Max points per session must be at most 500')
+    .nullable()
+    .optional(),
+
+  /** Most new points introduced per day */
+  newPointsPerDay: z
+    .number()
+    .int('New points per day must be a whole number')
+    .min(0, 'New points per day cannot be negative')
+    .max(1000, 'New points per day must be at most 1000')
+    .nullable()
+    .optional(),
+
+  /** Lapses at which a point is flagged as a leech */
+  leechLapseThreshold: z
+    .number()
+    .int('Leech lapse threshold must be a whole number')
+    .min(1, 'Leech lapse threshold must be at least 1')
+    .max(100, 'Leech lapse threshold must be at most 100')
+    .nullable()
+    .optional(),
+};
+
 /**
  * Schema for creating a new RecallSet.
  *
@@ -162,6 +219,7 @@ export interface ValidationErrorDetail {
  * - name: Required string, 1-100 characters
  * - description: Required string, max 1000 characters
  * - discussionSystemPrompt: Required string, min 10 characters (meaningful prompt)
+ * - Optional scheduling settings (see schedulingSettingsSchema)
  *
  * @example
  * ```typescript
@@ -193,6 +251,8 @@ export const createRecallSetSchema = z.object({
   discussionSystemPrompt: z
     .string()
     .min(10, 'System prompt must be at least 10 characters'),
+
+  ...schedulingSettingsSchema,
 });
 
 /** TypeScript type inferred from createRecallSetSchema */
@@ -262,6 +322,9 @@ export const updateRecallSetSchema = z.object({
 
   /** Updated status */
   status: z.enum(['active', 'paused', 'archived']).optional(),
+
+  /** Updated scheduling settings (null resets one to the default) */
+  ...schedulingSettingsSchema,
 });
 
 /** TypeScript type inferred from updateRecallSetSchema */
@@ -290,3 +353,167 @@ export const updateRecallPointSchema = z.object({
 
 /** TypeScript type inferred from updateRecallPointSchema */
 export type UpdateRecallPointInput = z.infer<typeof updateRecallPointSchema>;
+
+// ============================================================================
+// Session Annotation Request Schemas (Zod)
+// ============================================================================
+
+/**
+ * Annotation fields shared by create and update requests.
+ */
+const annotationFields = {
+  /** Index of the annotated transcript message (null for the whole session) */
+  messageIndex: z
+    .number()
+    .int('Message index must be a whole number')
+    .min(0, 'Message index cannot be negative')
+    .nullable(),
+
+  /** Free-text note (max 5000 characters) */
+  note: z.string().max(5000, 'Note must be 5000 characters or less'),
+
+  /** Tags such as 'too long' or 'robotic' (up to 20, each max 50 characters) */
+  tags: z
+    .array(z.string().max(50, 'Tags must be 50 characters or less'))
+    .max(20, 'At most 20 tags are allowed'),
+};
+
+/**
+ * Schema for annotating a session or one of its messages.
+ *
+ * An annotation needs a note or at least one tag; the route checks this
+ * after normalizing the tags.
+ */
+export const createSessionAnnotationSchema = z.object({
+  messageIndex: annotationFields.messageIndex.default(null),
+  note: annotationFields.note.default(''),
+  tags: annotationFields.tags.default([]),
+});
+
+/** TypeScript type inferred from createSessionAnnotationSchema */
+export type CreateSessionAnnotationRequest = z.infer<typeof createSessionAnnotationSchema>;
+
+/**
+ * Schema for editing an annotation.
+ *
+ * All fields are optional since partial updates are supported.
+ */
+export const updateSessionAnnotationSchema = z.object({
+  messageIndex: annotationFields.messageIndex.optional(),
+  note: annotationFields.note.optional(),
+  tags: annotationFields.tags.optional(),
+});
+
+/** TypeScript type inferred from updateSessionAnnotationSchema */
+export type UpdateSessionAnnotationRequest = z.infer<typeof updateSessionAnnotationSchema>;
+
+// ============================================================================
+// Tangent Candidate Request Schemas (Zod)
+// ============================================================================
+
+/**
+ * Schema for accepting a recall point proposed from a session tangent.
+ *
+ * Validates:
+ * - destination: 'set' for the candidate's recall set (default) or 'inbox'
+ *   for the "Tangents" inbox set
+ * - content: Optional edited content (10-2000 characters)
+ * - context: Optional edited context (max 2000 characters)
+ */
+export const acceptTangentCandidateSchema = z.object({
+  /** Where to add the recall point */
+  destination: z.enum(['set', 'inbox']).default('set'),
+
+  /** Edited content (defaults to the proposed content) */
+  content: z
+    .string()
+    .min(10, 'Content must be at least 10 characters')
+    .max(2000, 'Content must be 2000 characters or less')
+    .optional(),
+
+  /** Edited context (defaults to the proposed context) */
+  context: z
+    .string()
+    .max(2000, 'Context must be 2000 characters or less')
+    .optional(),
+});
+
+/** TypeScript type inferred from acceptTangentCandidateSchema */
+export type AcceptTangentCandidateRequest = z.infer<typeof acceptTangentCandidateSchema>;
+
+// ============================================================================
+// Leech Remediation Request Schemas (Zod)
+// ============================================================================
+
+/**
+ * Schema for splitting a leech into smaller recall points.
+ *
+ * Validates:
+ * - parts: 2-5 parts, each with content (10-2000 characters) and optional
+ *   context (max 2000 characters)
+ */
+export const splitLeechSchema = z.object({
+  /** The new points, usually the proposed split as edited by the learner */
+  parts: z
+    .array(
+      z.object({
+        content: z
+          .string()
+          .min(10, 'Content must be at least 10 characters')
+          .max(2000, 'Content must be 2000 characters or less'),
+        context: z.string().max(2000, 'Context must be 2000 characters or less').default(''),
+      })
+    )
+    .min(2, 'A split needs at least 2 parts')
+    .max(5, 'A split has at most 5 parts'),
+});
+
+/** TypeScript type inferred from splitLeechSchema */
+export type SplitLeechRequest = z.infer<typeof splitLeechSchema>;
+
+// ============================================================================
+// Authentication Request Schemas (Zod)
+// ============================================================================
+
+/**
+ * Schema for registering a new account.
+ *
+ * Validates:
+ * - email: Required, valid email address
+ * - name: Required string, 1-100 characters
+ * - password: Required string, 8-200 characters
+ */
+export const registerSchema = z.object({
+  /** Login email address */
+  email: z.string().email('A valid email address is required'),
+
+  /** Display name (1-100 characters) */
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be 100 characters or less'),
+
+  /** Password (8-200 characters) */
+  password: z
+    .string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(200, 'Password must be 200 characters or less'),
+});
+
+/** TypeScript type inferred from registerSchema */
+export type RegisterInput = z.infer<typeof registerSchema>;
+
+/**
+ * Schema for logging in with email and password.
+ */
+export const loginSchema = z.object({
+  /** Login email address */
+  email: z.string().min(1, 'Email is required'),
+
+  /** Password */
+  password: z.string().min(1, 'Password is required'),
+});
+
+/** TypeScript type inferred from loginSchema */
+export type LoginInput = z.infer<typeof loginSchema>;
@@ -5,12 +5,19 @@
  */
 
 import { describe, it, expect } from 'bun:test';
+import type { ServerWebSocket } from 'bun';
 import {
   createInitialSessionData,
   extractSessionIdFromUrl,
   isWebSocketUpgradeRequest,
   DEFAULT_WS_CONFIG,
+  WebSocketSessionHandler,
+  type WebSocketHandlerDependencies,
+  type WebSocketSessionData,
 } from './session-handler';
+import type { RecallRating } from '@/core/fsrs/types';
+import type { Session } from '@/core/models';
+import type { SessionEngine, HintResult, ProcessMessageResult } from '@/core/session';
 
 describe('WebSocket Session Handler', () => {
   // =========================================================================
@@ -29,6 +36,7 @@ describe('WebSocket Session Handler', () => {
       expect(data.isStreaming).toBe(false);
       expect(data.currentResponseChunks).toEqual([]);
       expect(data.currentChunkIndex).toBe(0);
+      expect(data.pendingRatingOverride).toBeNull();
     });
 
     it('should have a recent lastMessageTime timestamp', () => {
@@ -175,5 +183,241 @@ describe('WebSocket Session Handler', () => {
       // We need time between pong timeout and next ping
       expect(DEFAULT_WS_CONFIG.pongTimeoutMs).toBeLessThan(DEFAULT_WS_CONFIG.pingIntervalMs);
     });
+
+    it('should give the learner a few seconds to override a rating', () => {
+      expect(DEFAULT_WS_CONFIG.ratingOverrideWindowMs).toBe(8000);
+    });
+  });
+
+  // =========================================================================
+  // accept_rating / override_rating Tests
+  // =========================================================================
+  describe('accept_rating and override_rating', () => {
+    /** Creates a connection stub that records the messages sent to it. */
+    const createConnection = () => {
+      const sent: any[] = [];
+      const ws = {
+        data: createInitialSessionData('sess_test'),
+        send: (message: string) => sent.push(JSON.parse(message)),
+        close: () => {},
+      } as unknown as ServerWebSocket<WebSocketSessionData>;
+      return { ws, sent };
+    };
+    const handler = new WebSocketSessionHandler({} as WebSocketHandlerDependencies);
+
+    it('should settle the pending rating with the learner\'s rating', async () => {
+      const { ws, sent } = createConnection();
+      const settled: (RecallRating | null)[] = [];
+      ws.data.pendingRatingOverride = { pointId: 'rp_1', settle: (rating) => settled.push(rating) };
+
+      await handler.handleMessage(ws, JSON.stringify({ type: 'override_rating', pointId: 'rp_1', rating: 'hard' }));
+
+      expect(settled).toEqual(['hard']);
+      expect(sent).toEqual([]);
+    });
+
+    it('should settle the pending rating right away when the learner accepts it', async () => {
+      const { ws, sent } = createConnection();
+      const settled: (RecallRating | null)[] = [];
+      ws.data.pendingRatingOverride = { pointId: 'rp_1', settle: (rating) => settled.push(rating) };
+
+      await handler.handleMessage(ws, JSON.stringify({ type: 'accept_rating', pointId: 'rp_1' }));
+
+      expect(settled).toEqual([null]);
+      expect(sent).toEqual([]);
+    });
+
+    it('should reject an acceptance when no rating of that point is pending', async () => {
+      const { ws, sent } = createConnection();
+
+      await handler.handleMessage(ws, JSON.stringify({ type: 'accept_rating', pointId: 'rp_1' }));
+
+      expect(sent[0]).toMatchObject({ type: 'error', code: 'NO_PENDING_RATING', recoverable: true });
+    });
+
+    it('should reject an override when no rating of that point is pending', async () => {
+      const { ws, sent } = createConnection();
+      const settled: (RecallRating | null)[] = [];
+      ws.data.pendingRatingOverride = { pointId: 'rp_1', settle: (rating) => settled.push(rating) };
+
+      await handler.handleMessage(ws, JSON.stringify({ type: 'override_rating', pointId: 'rp_2', rating: 'easy' }));
+
+      expect(settled).toEqual([]);
+      expect(sent[0]).toMatchObject({ type: 'error', code: 'NO_PENDING_RATING', recoverable: true });
+    });
+
+    it('should keep the AI\'s rating when the connection closes', () => {
+      const { ws } = createConnection();
+      const settled: (RecallRating | null)[] = [];
+      ws.data.pendingRatingOverride = { pointId: 'rp_1', settle: (rating) => settled.push(rating) };
+
+      handler.handleClose(ws, 1000, 'closed');
+
+      expect(settled).toEqual([null]);
+    });
+  });
+
+  // =========================================================================
+  // request_hint Tests
+  // =========================================================================
+  describe('request_hint', () => {
+    /** Creates an initialized connection whose engine gives the given hint. */
+    const createConnection = (hint: HintResult | null) => {
+      const sent: any[] = [];
+      const data = createInitialSessionData('sess_test');
+      data.initialized = true;
+      data.session = { id: 'sess_test', targetRecallPointIds: ['rp_1'] } as unknown as Session;
+      data.engine = { requestHint: async () => hint } as unknown as SessionEngine;
+      const ws = {
+        data,
+        send: (message: string) => sent.push(JSON.parse(message)),
+        close: () => {},
+      } as unknown as ServerWebSocket<WebSocketSessionData>;
+      return { ws, sent };
+    };
+    const handler = new WebSocketSessionHandler({} as WebSocketHandlerDependencies);
+
+    it('should stream the hint and then report its level', async () => {
+      const { ws, sent } = createConnection({
+        pointId: 'rp_1',
+        hint: 'Think about the war it ended.',
+        level: 1,
+        hintsRemaining: 2,
+      });
+
+      await handler.handleMessage(ws, JSON.stringify({ type: 'request_hint' }));
+
+      expect(sent.map((message) => message.type)).toEqual([
+        'assistant_chunk',
+        'assistant_chunk',
+        'assistant_complete',
+        'hint_given',
+      ]);
+      expect(sent[2].fullContent).toBe('Think about the war it ended.');
+      expect(sent[3]).toEqual({ type: 'hint_given', pointId: 'rp_1', level: 1, hintsRemaining: 2 });
+      expect(ws.data.isStreaming).toBe(false);
+    });
+
+    it('should answer with NO_HINTS_LEFT once the hints are used up', async () => {
+      const { ws, sent } = createConnection(null);
+
+      await handler.handleMessage(ws, JSON.stringify({ type: 'request_hint' }));
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0]).toMatchObject({ type: 'error', code: 'NO_HINTS_LEFT', recoverable: true });
+    });
+  });
+
+  // =========================================================================
+  // Session Command Tests
+  // =========================================================================
+  describe('session commands', () => {
+    /** Creates an initialized connection on a two-point session with the given engine. */
+    const createConnection = (engine: Partial<SessionEngine>) => {
+      const sent: any[] = [];
+      const data = createInitialSessionData('sess_test');
+      data.initialized = true;
+      data.session = { id: 'sess_test', targetRecallPointIds: ['rp_1', 'rp_2'] } as unknown as Session;
+      data.engine = engine as SessionEngine;
+      const ws = {
+        data,
+        send: (message: string) => sent.push(JSON.parse(message)),
+        close: () => {},
+      } as unknown as ServerWebSocket<WebSocketSessionData>;
+      return { ws, sent };
+    };
+    const handler = new WebSocketSessionHandler({} as WebSocketHandlerDependencies);
+
+    /** The engine's result after moving on to the second point */
+    const movedOn: ProcessMessageResult = {
+      response: 'Next question.',
+      completed: false,
+      pointAdvanced: true,
+      currentPointIndex: 1,
+      totalPoints: 2,
+    };
+
+    it('should stream the response to a skip and send the point transition', async () => {
+      const { ws, sent } = createConnection({ skipPoint: async () => movedOn });
+
+      await handler.handleMessage(ws, JSON.stringify({ type: 'skip_point' }));
+
+      expect(sent[sent.length - 2]).toMatchObject({ type: 'assistant_complete', fullContent: 'Next question.' });
+      expect(sent[sent.length - 1]).toEqual({
+        type: 'point_transition',
+        fromPointId: 'rp_1',
+        toPointId: 'rp_2',
+        pointsRemaining: 1,
+        currentPointIndex: 1,
+      });
+    });
+
+    it('should defer by the requested days', async () => {
+      const deferredBy: number[] = [];
+      const { ws, sent } = createConnection({
+        deferPoint: async (days: number) => {
+          deferredBy.push(days);
+          return { ...movedOn, completed: true };
+        },
+      });
+
+      await handler.handleMessage(ws, JSON.stringify({ type: 'defer_point', days: 3 }));
+
+      expect(deferredBy).toEqual([3]);
+      expect(sent[sent.length - 1].type).toBe('session_complete');
+    });
+
+    it('should report an engine refusal as a recoverable error', async () => {
+      const { ws, sent } = createConnection({
+        deferPoint: async () => {
+          throw new Error('Practice sessions leave the review schedule unchanged: skip the point instead');
+        },
+      });
+
+      await handler.handleMessage(ws, JSON.stringify({ type: 'defer_point', days: 3 }));
+
+      expect(sent).toEqual([
+        {
+          type: 'error',
+          code: 'SESSION_ENGINE_ERROR',
+          message: 'Practice sessions leave the review schedule unchanged: skip the point instead',
+          recoverable: true,
+        },
+      ]);
+      expect(ws.data.isStreaming).toBe(false);
+    });
+
+    it('should confirm an undo with the retracted message', async () => {
+      const { ws, sent } = createConnection({
+        undoLastMessage: async () => ({ content: 'It was 1918', messagesRemoved: 2 }),
+      });
+
+      await handler.handleMessage(ws, JSON.stringify({ type: 'undo_message' }));
+
+      expect(sent).toEqual([{ type: 'message_retracted', content: 'It was 1918', messagesRemoved: 2 }]);
+    });
+
+    it('should answer with NOTHING_TO_UNDO when the learner has not answered yet', async () => {
+      const { ws, sent } = createConnection({ undoLastMessage: async () => null });
+
+      await handler.handleMessage(ws, JSON.stringify({ type: 'undo_message' }));
+
+      expect(sent[0]).toMatchObject({ type: 'error', code: 'NOTHING_TO_UNDO', recoverable: true });
+    });
+
+    it('should confirm a saved note', async () => {
+      const notes: string[] = [];
+      const { ws, sent } = createConnection({
+        addNote: async (note: string) => {
+          notes.push(note);
+          return { id: 'ann_1', messageIndex: 3 } as Awaited<ReturnType<SessionEngine['addNote']>>;
+        },
+      });
+
+      await handler.handleMessage(ws, JSON.stringify({ type: 'add_note', note: 'Check the armistice date' }));
+
+      expect(notes).toEqual(['Check the armistice date']);
+      expect(sent).toEqual([{ type: 'note_saved', annotationId: 'ann_1', messageIndex: 3 }]);
+    });
   });
 });
@@ -7,7 +7,10 @@
  * 1. **Connection Setup**: Validates session ID, loads session from database
  * 2. **Message Handling**: Processes client messages (user input, commands)
  * 3. **Response Streaming**: Streams LLM responses as they're generated
- * 4. **Session Events**: Sends evaluation results, point transitions, completion
+ * 4. **Session Events**: Sends evaluation results, point transitions, completion.
+ *    After each evaluation the client can accept or override the AI's
+ *    rating; the point is scheduled as soon as it answers, or with the AI's
+ *    rating once a short window passes without an answer.
  * 5. **Error Handling**: Graceful error recovery and reporting
  * 6. **Keepalive**: Ping/pong for connection health monitoring
  *
@@ -60,10 +63,19 @@ import type { SessionRepository } from '@/storage/repositories/session.repositor
 import type { RecallSetRepository } from '@/storage/repositories/recall-set.repository';
 import type { RecallPointRepository } from '@/storage/repositories/recall-point.repository';
 import type { SessionMessageRepository } from '@/storage/repositories/session-message.repository';
+import type { FSRSParametersRepository } from '@/storage/repositories/fsrs-parameters.repository';
+import type { SessionMetricsRepository } from '@/storage/repositories/session-metrics.repository';
+import type { RecallOutcomeRepository } from '@/storage/repositories/recall-outcome.repository';
+import type { SessionAnnotationRepository } from '@/storage/repositories/session-annotation.repository';
+import type { RabbitholeEventRepository } from '@/storage/repositories/rabbithole-event.repository';
 import type { FSRSScheduler } from '@/core/fsrs/scheduler';
+import type { RecallRating } from '@/core/fsrs/types';
 import type { RecallEvaluator } from '@/core/scoring/recall-evaluator';
-import type { AnthropicClient } from '@/llm/client';
+import type { TangentFollowUpService } from '@/core/analysis/tangent-follow-up';
+import type { LLMProvider } from '@/llm/types';
 import { SessionEngine } from '@/core/session/session-engine';
+import { SessionMetricsCollector } from '@/core/session/metrics-collector';
+import type { ProcessMessageResult, RatingProposal } from '@/core/session/types';
 import {
   type ClientMessage,
   type ServerMessage,
@@ -91,6 +103,12 @@ export interface WebSocketSessionConfig {
   maxConsecutiveErrors: number;
   /** Idle timeout in milliseconds (no messages received) */
   idleTimeoutMs: number;
+  /**
+   * How long to wait for an accept_rating or override_rating after each
+   * evaluation_result before scheduling with the AI's rating, in
+   * milliseconds. 0 schedules with the AI's rating without waiting.
+   */
+  ratingOverrideWindowMs: number;
 }
 
 /**
@@ -101,6 +119,7 @@ export const DEFAULT_WS_CONFIG: WebSocketSessionConfig = {
   pongTimeoutMs: 10000,         // 10 seconds to respond to ping
   maxConsecutiveErrors: 5,      // Close after 5 consecutive errors
   idleTimeoutMs: 5 * 60 * 1000, // 5 minutes idle timeout
+  ratingOverrideWindowMs: 8000, // 8 seconds to override a rating
 };
 
 // ============================================================================
@@ -117,7 +136,7 @@ export interface WebSocketSessionData {
   sessionId: string;
   /** The loaded Session entity */
   session: Session | null;
-  /** The RecallSet being studied */
+  /** The RecallSet being studied (null for a daily review) */
   recallSet: RecallSet | null;
   /** The SessionEngine instance for this connection (manages LLM interactions) */
   engine: SessionEngine | null;
@@ -133,6 +152,18 @@ export interface WebSocketSessionData {
   currentResponseChunks: string[];
   /** Current chunk index being sent */
   currentChunkIndex: number;
+  /** The rating waiting for an accept_rating or override_rating, if any */
+  pendingRatingOverride: PendingRatingOverride | null;
+}
+
+/**
+ * A rating the engine is waiting on while the client may override it.
+ */
+export interface PendingRatingOverride {
+  /** ID of the evaluated recall point */
+  pointId: string;
+  /** Ends the wait with the learner's rating, or null to keep the AI's */
+  settle: (rating: RecallRating | null) => void;
 }
 
 /**
@@ -155,6 +186,7 @@ export function createInitialSessionData(
     isStreaming: false,
     currentResponseChunks: [],
     currentChunkIndex: 0,
+    pendingRatingOverride: null,
   };
 }
 
@@ -180,8 +212,29 @@ export interface WebSocketHandlerDependencies {
   scheduler: FSRSScheduler;
   /** LLM-powered evaluator for assessing recall */
   evaluator: RecallEvaluator;
-  /** Anthropic client for generating tutor responses */
-  llmClient: AnthropicClient;
+  /** LLM provider for generating tutor responses (live or scripted) */
+  llmClient: LLMProvider;
+  /** Repository of FSRS weights fitted to review history (optional) */
+  fsrsParametersRepo?: FSRSParametersRepository;
+  /**
+   * Repositories for session metrics and recall outcomes (optional). When
+   * both are provided, each connection collects metrics and records every
+   * evaluation's outcome, including the AI's and the learner's ratings.
+   */
+  metricsRepo?: SessionMetricsRepository;
+  recallOutcomeRepo?: RecallOutcomeRepository;
+  /** Repository for the learner's notes (optional; add_note needs it) */
+  annotationRepo?: SessionAnnotationRepository;
+  /**
+   * Repository for rabbithole events (optional). Tangents the learner
+   * explores are recorded in it, so they can be proposed as recall points.
+   */
+  rabbitholeRepo?: RabbitholeEventRepository;
+  /**
+   * Follow-up that proposes recall points from a completed session's
+   * rabbitholes (optional; without it they can be proposed from the replay)
+   */
+  tangentFollowUp?: TangentFollowUpService;
 }
 
 // ============================================================================
@@ -221,7 +274,8 @@ export class WebSocketSessionHandler {
    * This method:
    * 1. Loads the session from the database
    * 2. Validates the session is in-progress
-   * 3. Loads the associated RecallSet
+   * 3. Loads the associated RecallSet (or, for a daily review, the sets of
+   *    the session's points)
    * 4. Creates a SessionEngine instance for real LLM interactions
    * 5. Sends the session_started message with LLM-generated opening message
    *
@@ -248,10 +302,12 @@ export class WebSocketSessionHandler {
         return;
       }
 
-      // Load the associated RecallSet
-      const recallSet = await this.deps.recallSetRepo.findById(session.recallSetId);
+      // Load the associated RecallSets: the studied set, or for a daily
+      // review the sets of the session's points
+      const recallSets = await this.loadRecallSets(session);
+      const recallSet = session.recallSetId === null ? null : recallSets[0] ?? null;
 
-      if (!recallSet) {
+      if (recallSets.length === 0 || (session.recallSetId !== null && !recallSet)) {
         this.sendError(ws, 'INTERNAL_ERROR', 'RecallSet not found for session');
         ws.close(WS_CLOSE_CODES.INVALID_SESSION, 'RecallSet not found');
         return;
@@ -271,10 +327,31 @@ export class WebSocketSessionHandler {
         recallPointRepo: this.deps.recallPointRepo,
         sessionRepo: this.deps.sessionRepo,
         messageRepo: this.deps.messageRepo,
+        fsrsParametersRepo: this.deps.fsrsParametersRepo,
+        annotationRepo: this.deps.annotationRepo,
+        rabbitholeRepo: this.deps.rabbitholeRepo,
+        tangentFollowUp: this.deps.tangentFollowUp,
+        ...(this.deps.metricsRepo && this.deps.recallOutcomeRepo
+          ? {
+              metricsCollector: new SessionMetricsCollector(),
+              metricsRepo: this.deps.metricsRepo,
+              recallOutcomeRepo: this.deps.recallOutcomeRepo,
+            }
+          : {}),
       });
 
-      // Start/resume the session in the engine
-      await engine.startSession(recallSet);
+      // Offer each rating to the client before the point is scheduled
+      if (this.config.ratingOverrideWindowMs > 0) {
+        engine.setRatingOverrideHandler((proposal) => this.awaitRatingOverride(ws, proposal));
+      }
+
+      // Start/resume the session in the engine. A daily review is resumed
+      // directly, since the shared repositories aren't scoped to its owner.
+      if (recallSet) {
+        await engine.startSession(recallSet, { mode: session.mode });
+      } else {
+        await engine.resumeSession(session, recallSets);
+      }
       data.engine = engine;
 
       // Get the real opening message from the LLM
@@ -290,6 +367,7 @@ export class WebSocketSessionHandler {
         openingMessage,
         currentPointIndex: sessionState?.currentPointIndex ?? 0,
         totalPoints: sessionState?.totalPoints ?? session.targetRecallPointIds.length,
+        mode: session.mode,
       });
 
       data.initialized = true;
@@ -349,6 +427,36 @@ export class WebSocketSessionHandler {
         case 'trigger_eval':
           await this.handleTriggerEval(ws);
           break;
+        case 'request_hint':
+          await this.handleRequestHint(ws);
+          break;
+        case 'skip_point':
+          await this.handleMoveOn(ws, 'skip', (engine) => engine.skipPoint());
+          break;
+        case 'defer_point':
+          await this.handleMoveOn(ws, `defer by ${parsed.days} days`, (engine) => engine.deferPoint(parsed.days));
+          break;
+        case 'reveal_point':
+          await this.handleMoveOn(ws, 'reveal', (engine) => engine.revealPoint());
+          break;
+        case 'undo_message':
+          await this.handleUndoMessage(ws);
+          break;
+        case 'add_note':
+          await this.handleAddNote(ws, parsed.note);
+          break;
+        case 'explore_tangent':
+          await this.handleExploreTangent(ws, parsed.topic);
+          break;
+        case 'return_from_tangent':
+          await this.handleReturnFromTangent(ws);
+          break;
+        case 'accept_rating':
+          this.handleRatingResponse(ws, parsed.pointId, null);
+          break;
+        case 'override_rating':
+          this.handleRatingResponse(ws, parsed.pointId, parsed.rating);
+          break;
         case 'end_session':
           await this.handleEndSession(ws);
           break;
@@ -399,6 +507,16 @@ export class WebSocketSessionHandler {
       // Stream the real response back to the client
       await this.streamResponse(ws, result.response);
 
+      // The learner said they didn't know, and got a hint
+      if (result.hint) {
+        this.send(ws, {
+          type: 'hint_given',
+          pointId: result.hint.pointId,
+          level: result.hint.level,
+          hintsRemaining: result.hint.hintsRemaining,
+        });
+      }
+
       // If point was advanced, send point transition message
       if (result.pointAdvanced && !result.completed) {
         this.send(ws, {
@@ -495,6 +613,325 @@ export class WebSocketSessionHandler {
     }
   }
 
+  /**
+   * Handles a request for the next hint on the current recall point.
+   * Streams the hint like any tutor response, then sends hint_given.
+   *
+   * @param ws - The WebSocket connection
+   */
+  private async handleRequestHint(
+    ws: ServerWebSocket<WebSocketSessionData>
+  ): Promise<void> {
+    const data = ws.data;
+    console.log(`[WS] Hint requested for session ${data.sessionId}`);
+
+    // Validate session is initialized and engine is available
+    if (!data.initialized || !data.session || !data.engine) {
+      this.sendError(ws, 'SESSION_NOT_ACTIVE', 'Session not initialized');
+      return;
+    }
+
+    data.isStreaming = true;
+    data.currentResponseChunks = [];
+    data.currentChunkIndex = 0;
+
+    try {
+      const hint = await data.engine.requestHint();
+      if (!hint) {
+        this.sendError(ws, 'NO_HINTS_LEFT');
+        return;
+      }
+
+      await this.streamResponse(ws, hint.hint);
+      this.send(ws, {
+        type: 'hint_given',
+        pointId: hint.pointId,
+        level: hint.level,
+        hintsRemaining: hint.hintsRemaining,
+      });
+    } catch (error) {
+      console.error(`[WS] Error generating hint:`, error);
+      this.sendError(ws, 'SESSION_ENGINE_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      data.isStreaming = false;
+    }
+  }
+
+  /**
+   * Handles a command that moves on from the current recall point without
+   * the learner answering it: skipping, deferring or revealing the point.
+   * Streams the tutor's response, then sends the transition or completion.
+   *
+   * @param ws - The WebSocket connection
+   * @param command - Name of the command, for logging
+   * @param run - Runs the command on the session's engine
+   */
+  private async handleMoveOn(
+    ws: ServerWebSocket<WebSocketSessionData>,
+    command: string,
+    run: (engine: SessionEngine) => Promise<ProcessMessageResult>
+  ): Promise<void> {
+    const data = ws.data;
+    console.log(`[WS] Point ${command} requested for session ${data.sessionId}`);
+
+    // Validate session is initialized and engine is available
+    if (!data.initialized || !data.session || !data.engine) {
+      this.sendError(ws, 'SESSION_NOT_ACTIVE', 'Session not initialized');
+      return;
+    }
+
+    data.isStreaming = true;
+    data.currentResponseChunks = [];
+    data.currentChunkIndex = 0;
+
+    try {
+      const result = await run(data.engine);
+
+      await this.streamResponse(ws, result.response);
+
+      if (result.pointAdvanced && !result.completed) {
+        this.send(ws, {
+          type: 'point_transition',
+          fromPointId: data.session.targetRecallPointIds[result.currentPointIndex - 1] || '',
+          toPointId: data.session.targetRecallPointIds[result.currentPointIndex] || '',
+          pointsRemaining: result.totalPoints - result.currentPointIndex,
+          currentPointIndex: result.currentPointIndex,
+        });
+      }
+
+      if (result.completed) {
+        const summary: SessionSummary = {
+          sessionId: data.sessionId,
+          totalPointsReviewed: result.totalPoints,
+          successfulRecalls: result.totalPoints,
+          recallRate: 1.0,
+          durationMs: Date.now() - data.lastMessageTime,
+          engagementScore: 80,
+          estimatedCostUsd: 0.05,
+        };
+
+        this.send(ws, {
+          type: 'session_complete',
+          summary,
+        });
+      }
+    } catch (error) {
+      console.error(`[WS] Error during point ${command}:`, error);
+      this.sendError(ws, 'SESSION_ENGINE_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      data.isStreaming = false;
+    }
+  }
+
+  /**
+   * Handles a request to retract the learner's last message on the current
+   * point, along with the tutor's replies to it.
+   *
+   * @param ws - The WebSocket connection
+   */
+  private async handleUndoMessage(
+    ws: ServerWebSocket<WebSocketSessionData>
+  ): Promise<void> {
+    const data = ws.data;
+    console.log(`[WS] Undo requested for session ${data.sessionId}`);
+
+    if (!data.initialized || !data.session || !data.engine) {
+      this.sendError(ws, 'SESSION_NOT_ACTIVE', 'Session not initialized');
+      return;
+    }
+
+    try {
+      const undone = await data.engine.undoLastMessage();
+      if (!undone) {
+        this.sendError(ws, 'NOTHING_TO_UNDO');
+        return;
+      }
+
+      this.send(ws, {
+        type: 'message_retracted',
+        content: undone.content,
+        messagesRemoved: undone.messagesRemoved,
+      });
+    } catch (error) {
+      console.error(`[WS] Error undoing message:`, error);
+      this.sendError(ws, 'SESSION_ENGINE_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Handles a request to save a note on the session.
+   *
+   * @param ws - The WebSocket connection
+   * @param note - The note's text
+   */
+  private async handleAddNote(
+    ws: ServerWebSocket<WebSocketSessionData>,
+    note: string
+  ): Promise<void> {
+    const data = ws.data;
+
+    if (!data.initialized || !data.session || !data.engine) {
+      this.sendError(ws, 'SESSION_NOT_ACTIVE', 'Session not initialized');
+      return;
+    }
+
+    try {
+      const annotation = await data.engine.addNote(note);
+      this.send(ws, {
+        type: 'note_saved',
+        annotationId: annotation.id,
+        messageIndex: annotation.messageIndex,
+      });
+    } catch (error) {
+      console.error(`[WS] Error saving note:`, error);
+      this.sendError(ws, 'SESSION_ENGINE_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Handles a request to explore a tangent. Streams the tutor's start of
+   * the exploration, then sends tangent_opened.
+   *
+   * @param ws - The WebSocket connection
+   * @param topic - What to explore, or undefined for the learner's last message
+   */
+  private async handleExploreTangent(
+    ws: ServerWebSocket<WebSocketSessionData>,
+    topic: string | undefined
+  ): Promise<void> {
+    const data = ws.data;
+    console.log(`[WS] Tangent exploration requested for session ${data.sessionId}`);
+
+    if (!data.initialized || !data.session || !data.engine) {
+      this.sendError(ws, 'SESSION_NOT_ACTIVE', 'Session not initialized');
+      return;
+    }
+
+    data.isStreaming = true;
+    data.currentResponseChunks = [];
+    data.currentChunkIndex = 0;
+
+    try {
+      const tangent = await data.engine.exploreTangent(topic);
+
+      await this.streamResponse(ws, tangent.response);
+      this.send(ws, {
+        type: 'tangent_opened',
+        rabbitholeId: tangent.rabbitholeId,
+        topic: tangent.topic,
+      });
+    } catch (error) {
+      console.error(`[WS] Error opening tangent:`, error);
+      this.sendError(ws, 'SESSION_ENGINE_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      data.isStreaming = false;
+    }
+  }
+
+  /**
+   * Handles a request to return from the tangent being explored. Streams
+   * the tutor's recap, then sends tangent_closed.
+   *
+   * @param ws - The WebSocket connection
+   */
+  private async handleReturnFromTangent(
+    ws: ServerWebSocket<WebSocketSessionData>
+  ): Promise<void> {
+    const data = ws.data;
+    console.log(`[WS] Return from tangent requested for session ${data.sessionId}`);
+
+    if (!data.initialized || !data.session || !data.engine) {
+      this.sendError(ws, 'SESSION_NOT_ACTIVE', 'Session not initialized');
+      return;
+    }
+
+    data.isStreaming = true;
+    data.currentResponseChunks = [];
+    data.currentChunkIndex = 0;
+
+    try {
+      const tangent = await data.engine.returnFromTangent();
+
+      await this.streamResponse(ws, tangent.response);
+      this.send(ws, {
+        type: 'tangent_closed',
+        rabbitholeId: tangent.rabbitholeId,
+        topic: tangent.topic,
+      });
+    } catch (error) {
+      console.error(`[WS] Error returning from tangent:`, error);
+      this.sendError(ws, 'SESSION_ENGINE_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      data.isStreaming = false;
+    }
+  }
+
+  /**
+   * Sends the evaluation of a recall point with the rating it will be
+   * scheduled with, then waits for the client to accept or override it.
+   * Resolves as soon as the client answers: to its rating, or to null when
+   * it accepts the AI's. The window's timer is only the fallback for a
+   * client that doesn't answer, and also resolves to null.
+   *
+   * @param ws - The WebSocket connection
+   * @param proposal - The evaluation and the rating derived from it
+   * @returns The client's rating, or null to keep the AI's
+   */
+  private awaitRatingOverride(
+    ws: ServerWebSocket<WebSocketSessionData>,
+    proposal: RatingProposal
+  ): Promise<RecallRating | null> {
+    const data = ws.data;
+    const windowMs = this.config.ratingOverrideWindowMs;
+
+    this.send(ws, {
+      type: 'evaluation_result',
+      pointId: proposal.pointId,
+      success: proposal.success,
+      feedback: proposal.reasoning,
+      confidence: proposal.confidence,
+      hintsUsed: proposal.hintsUsed,
+      rating: proposal.rating,
+      overrideWindowMs: windowMs,
+    });
+
+    return new Promise((resolve) => {
+      const settle = (rating: RecallRating | null) => {
+        clearTimeout(timer);
+        data.pendingRatingOverride = null;
+        resolve(rating);
+      };
+      const timer = setTimeout(() => settle(null), windowMs);
+      data.pendingRatingOverride = { pointId: proposal.pointId, settle };
+    });
+  }
+
+  /**
+   * Handles the client's answer to the rating awaiting one, scheduling the
+   * point right away.
+   *
+   * @param ws - The WebSocket connection
+   * @param pointId - ID of the recall point the client is rating
+   * @param rating - The client's rating, or null to accept the AI's
+   */
+  private handleRatingResponse(
+    ws: ServerWebSocket<WebSocketSessionData>,
+    pointId: string,
+    rating: RecallRating | null
+  ): void {
+    const pending = ws.data.pendingRatingOverride;
+
+    if (!pending || pending.pointId !== pointId) {
+      this.sendError(ws, 'NO_PENDING_RATING', `No rating of '${pointId}' is waiting for an answer`);
+      return;
+    }
+
+    if (rating) {
+      console.log(`[WS] Rating of ${pointId} overridden with '${rating}' for session ${ws.data.sessionId}`);
+    }
+    pending.settle(rating);
+  }
+
   /**
    * Handles a request to end the session early.
    * Abandons the session via the SessionEngine and sends completion summary.
@@ -588,6 +1025,9 @@ export class WebSocketSessionHandler {
     const data = ws.data;
     console.log(`[WS] Connection closed for session ${data.sessionId}: ${code} - ${reason}`);
 
+    // Nobody is left to override a pending rating; schedule with the AI's
+    data.pendingRatingOverride?.settle(null);
+
     // TODO: Clean up any session resources when T06 is complete
     // This might include abandoning the session if not completed
   }
@@ -615,6 +1055,30 @@ export class WebSocketSessionHandler {
   // Helper Methods
   // ============================================================================
 
+  /**
+   * Loads the RecallSets a session studies: its own set, or for a daily
+   * review the sets its target points belong to.
+   *
+   * @param session - The session being opened
+   * @returns The RecallSets found (empty if none exist)
+   */
+  private async loadRecallSets(session: Session): Promise<RecallSet[]> {
+    let recallSetIds: string[];
+    if (session.recallSetId !== null) {
+      recallSetIds = [session.recallSetId];
+    } else {
+      const points = await Promise.all(
+        session.targetRecallPointIds.map((id) => this.deps.recallPointRepo.findById(id))
+      );
+      recallSetIds = [...new Set(points.flatMap((point) => (point ? [point.recallSetId] : [])))];
+    }
+
+    const recallSets = await Promise.all(
+      recallSetIds.map((id) => this.deps.recallSetRepo.findById(id))
+    );
+    return recallSets.filter((set): set is RecallSet => set !== null);
+  }
+
   /**
    * Sends a message to the WebSocket client.
    *
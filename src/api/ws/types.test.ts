@@ -59,6 +59,69 @@ describe('WebSocket Types', () => {
       expect(result.type).toBe('trigger_eval');
     });
 
+    it('should parse valid request_hint', () => {
+      const result = parseClientMessage(JSON.stringify({ type: 'request_hint' }));
+      expect(result).toEqual({ type: 'request_hint' });
+    });
+
+    it('should parse the session commands without fields', () => {
+      for (const type of ['skip_point', 'reveal_point', 'undo_message']) {
+        expect(parseClientMessage(JSON.stringify({ type }))).toEqual({ type } as never);
+      }
+    });
+
+    it('should parse valid defer_point', () => {
+      const result = parseClientMessage(JSON.stringify({ type: 'defer_point', days: 3 }));
+      expect(result).toEqual({ type: 'defer_point', days: 3 });
+    });
+
+    it('should return error for defer_point without a whole number of days', () => {
+      for (const days of [undefined, 0, -2, 1.5, '3']) {
+        const result = parseClientMessage(JSON.stringify({ type: 'defer_point', days }));
+        expect(result.type).toBe('error');
+        if (result.type === 'error') {
+          expect(result.code).toBe('INVALID_DAYS');
+        }
+      }
+    });
+
+    it('should parse valid add_note', () => {
+      const result = parseClientMessage(JSON.stringify({ type: 'add_note', note: 'Mixed up the dates' }));
+      expect(result).toEqual({ type: 'add_note', note: 'Mixed up the dates' });
+    });
+
+    it('should return error for add_note with an empty note', () => {
+      const result = parseClientMessage(JSON.stringify({ type: 'add_note', note: '  ' }));
+      expect(result.type).toBe('error');
+      if (result.type === 'error') {
+        expect(result.code).toBe('MISSING_NOTE');
+      }
+    });
+
+    it('should parse explore_tangent with and without a topic', () => {
+      expect(
+        parseClientMessage(JSON.stringify({ type: 'explore_tangent', topic: 'Weimar hyperinflation' }))
+      ).toEqual({ type: 'explore_tangent', topic: 'Weimar hyperinflation' });
+      expect(parseClientMessage(JSON.stringify({ type: 'explore_tangent' }))).toEqual({ type: 'explore_tangent' });
+      // A blank topic falls back to the learner's last message
+      expect(parseClientMessage(JSON.stringify({ type: 'explore_tangent', topic: ' ' }))).toEqual({
+        type: 'explore_tangent',
+      });
+    });
+
+    it('should return error for explore_tangent with a topic that is not a string', () => {
+      const result = parseClientMessage(JSON.stringify({ type: 'explore_tangent', topic: 42 }));
+      expect(result.type).toBe('error');
+      if (result.type === 'error') {
+        expect(result.code).toBe('INVALID_TOPIC');
+      }
+    });
+
+    it('should parse valid return_from_tangent', () => {
+      const result = parseClientMessage(JSON.stringify({ type: 'return_from_tangent' }));
+      expect(result).toEqual({ type: 'return_from_tangent' });
+    });
+
     it('should parse valid end_session', () => {
       const result = parseClientMessage(JSON.stringify({ type: 'end_session' }));
       expect(result.type).toBe('end_session');
@@ -69,6 +132,49 @@ describe('WebSocket Types', () => {
       expect(result.type).toBe('ping');
     });
 
+    it('should parse valid accept_rating', () => {
+      const result = parseClientMessage(JSON.stringify({ type: 'accept_rating', pointId: 'rp_123' }));
+      expect(result).toEqual({ type: 'accept_rating', pointId: 'rp_123' });
+    });
+
+    it('should return error for accept_rating without pointId', () => {
+      const result = parseClientMessage(JSON.stringify({ type: 'accept_rating' }));
+      expect(result.type).toBe('error');
+      if (result.type === 'error') {
+        expect(result.code).toBe('MISSING_POINT_ID');
+      }
+    });
+
+    it('should parse valid override_rating', () => {
+      const result = parseClientMessage(JSON.stringify({
+        type: 'override_rating',
+        pointId: 'rp_123',
+        rating: 'hard',
+        extra: 'ignored',
+      }));
+      expect(result).toEqual({ type: 'override_rating', pointId: 'rp_123', rating: 'hard' });
+    });
+
+    it('should return error for override_rating with an unknown rating', () => {
+      const result = parseClientMessage(JSON.stringify({
+        type: 'override_rating',
+        pointId: 'rp_123',
+        rating: 'perfect',
+      }));
+      expect(result.type).toBe('error');
+      if (result.type === 'error') {
+        expect(result.code).toBe('INVALID_RATING');
+      }
+    });
+
+    it('should return error for override_rating without pointId', () => {
+      const result = parseClientMessage(JSON.stringify({ type: 'override_rating', rating: 'good' }));
+      expect(result.type).toBe('error');
+      if (result.type === 'error') {
+        expect(result.code).toBe('INVALID_RATING');
+      }
+    });
+
     it('should return error for invalid JSON', () => {
       const result = parseClientMessage('not valid json');
       expect(result.type).toBe('error');
@@ -132,6 +238,7 @@ describe('WebSocket Types', () => {
         openingMessage: 'Welcome!',
         currentPointIndex: 0,
         totalPoints: 5,
+        mode: 'review',
       };
       const serialized = serializeServerMessage(message);
       const parsed = JSON.parse(serialized);
@@ -217,9 +324,19 @@ describe('WebSocket Types', () => {
     it('should have all client message types', () => {
       expect(CLIENT_MESSAGE_TYPES).toContain('user_message');
       expect(CLIENT_MESSAGE_TYPES).toContain('trigger_eval');
+      expect(CLIENT_MESSAGE_TYPES).toContain('request_hint');
+      expect(CLIENT_MESSAGE_TYPES).toContain('skip_point');
+      expect(CLIENT_MESSAGE_TYPES).toContain('defer_point');
+      expect(CLIENT_MESSAGE_TYPES).toContain('reveal_point');
+      expect(CLIENT_MESSAGE_TYPES).toContain('undo_message');
+      expect(CLIENT_MESSAGE_TYPES).toContain('add_note');
+      expect(CLIENT_MESSAGE_TYPES).toContain('explore_tangent');
+      expect(CLIENT_MESSAGE_TYPES).toContain('return_from_tangent');
+      expect(CLIENT_MESSAGE_TYPES).toContain('accept_rating');
+      expect(CLIENT_MESSAGE_TYPES).toContain('override_rating');
       expect(CLIENT_MESSAGE_TYPES).toContain('end_session');
       expect(CLIENT_MESSAGE_TYPES).toContain('ping');
-      expect(CLIENT_MESSAGE_TYPES.length).toBe(4);
+      expect(CLIENT_MESSAGE_TYPES.length).toBe(14);
     });
 
     it('should have all WebSocket close codes', () => {
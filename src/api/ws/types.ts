@@ -26,7 +26,18 @@
  * Server sends 'assistant_complete' when done
  *        |
  *        v
- * (Repeat for conversation)
+ * (Repeat for conversation; 'request_hint' is answered like a user
+ *  message, followed by 'hint_given'. 'skip_point', 'defer_point' and
+ *  'reveal_point' move on to the next point, 'undo_message' retracts the
+ *  learner's last message and 'add_note' saves a note on the session.
+ *  'explore_tangent' opens a tangent, answered with 'tangent_opened' after
+ *  the tutor's reply; 'return_from_tangent' closes it with a recap and
+ *  'tangent_closed')
+ *        |
+ *        v
+ * Server sends 'evaluation_result' with the AI's rating; the point is
+ * scheduled once the client answers with 'accept_rating' or
+ * 'override_rating', or when the override window closes
  *        |
  *        v
  * Server sends 'session_complete' and closes
@@ -40,14 +51,34 @@
  *   content: 'The Treaty of Versailles was signed in 1919...'
  * }));
  *
+ * // Client asks for the next hint on the current point
+ * ws.send(JSON.stringify({ type: 'request_hint' }));
+ *
  * // Client triggers manual evaluation
  * ws.send(JSON.stringify({ type: 'trigger_eval' }));
  *
+ * // Client puts the current point off for three days
+ * ws.send(JSON.stringify({ type: 'defer_point', days: 3 }));
+ *
+ * // Client explores a tangent, then returns to the point
+ * ws.send(JSON.stringify({ type: 'explore_tangent', topic: 'Why did Germany print money?' }));
+ * ws.send(JSON.stringify({ type: 'return_from_tangent' }));
+ *
+ * // Client notes something about the conversation
+ * ws.send(JSON.stringify({ type: 'add_note', note: 'Mixed this up with the armistice' }));
+ *
+ * // Client keeps the AI's rating after an evaluation_result, or replaces it
+ * ws.send(JSON.stringify({ type: 'accept_rating', pointId: 'rp_123' }));
+ * ws.send(JSON.stringify({ type: 'override_rating', pointId: 'rp_123', rating: 'hard' }));
+ *
  * // Client ends session early
  * ws.send(JSON.stringify({ type: 'end_session' }));
  * ```
  */
 
+import type { SessionMode } from '@/core/models';
+import type { RecallRating } from '@/core/fsrs/types';
+
 // Note: SessionMetricsSummary is available in '@/core/models/session-metrics' for future use
 // when integrating with the full metrics system
 
@@ -75,6 +106,108 @@ export interface TriggerEvalPayload {
   type: 'trigger_eval';
 }
 
+/**
+ * Client request for the next hint on the current recall point.
+ * The server streams the hint like any assistant response and then sends
+ * 'hint_given'; once the point's hints are used up it answers with a
+ * NO_HINTS_LEFT error instead.
+ */
+export interface RequestHintPayload {
+  type: 'request_hint';
+}
+
+/**
+ * Client request to move on from the current recall point without rating
+ * or rescheduling it. The server answers like a point transition.
+ */
+export interface SkipPointPayload {
+  type: 'skip_point';
+}
+
+/**
+ * Client request to put the current recall point off: only its due date
+ * moves, and the session goes on to the next point. Refused in practice
+ * sessions, which leave the schedule alone.
+ */
+export interface DeferPointPayload {
+  type: 'defer_point';
+  /** Days from now the point is next due (a whole number, at least 1) */
+  days: number;
+}
+
+/**
+ * Client request to show the current recall point. The server streams the
+ * point and its context, schedules it as 'forgot' and moves on.
+ */
+export interface RevealPointPayload {
+  type: 'reveal_point';
+}
+
+/**
+ * Client request to retract the learner's last message on the current
+ * point, along with the tutor's replies to it. The server answers with
+ * 'message_retracted', or a NOTHING_TO_UNDO error.
+ */
+export interface UndoMessagePayload {
+  type: 'undo_message';
+}
+
+/**
+ * Client request to save a note on the session, attached to its latest
+ * message. The server answers with 'note_saved'.
+ */
+export interface AddNotePayload {
+  type: 'add_note';
+  /** The note's text */
+  note: string;
+}
+
+/**
+ * Client request to explore a tangent ("let's explore this"). Until
+ * 'return_from_tangent', the tutor follows the tangent, user messages are
+ * not evaluated and the current point's timer is paused. The server
+ * streams the tutor's start of the exploration, then sends
+ * 'tangent_opened'.
+ */
+export interface ExploreTangentPayload {
+  type: 'explore_tangent';
+  /** What to explore; defaults to the learner's last message on the point */
+  topic?: string;
+}
+
+/**
+ * Client request to return from the tangent being explored to the current
+ * point. The server streams the tutor's recap, then sends 'tangent_closed'.
+ */
+export interface ReturnFromTangentPayload {
+  type: 'return_from_tangent';
+}
+
+/**
+ * Client confirmation of the AI's rating of the point in the latest
+ * evaluation_result, so the point is scheduled without waiting for the
+ * override window to close. Only accepted while the server is waiting.
+ */
+export interface AcceptRatingPayload {
+  type: 'accept_rating';
+  /** ID of the evaluated recall point */
+  pointId: string;
+}
+
+/**
+ * Client request to replace the AI's rating of the point in the latest
+ * evaluation_result. Only accepted while the server is waiting for it
+ * (see EvaluationResultPayload.overrideWindowMs); the point is scheduled
+ * with it right away.
+ */
+export interface OverrideRatingPayload {
+  type: 'override_rating';
+  /** ID of the evaluated recall point */
+  pointId: string;
+  /** The learner's rating */
+  rating: RecallRating;
+}
+
 /**
  * Client request to end the session early.
  * The server will gracefully close the session, marking it as abandoned
@@ -100,6 +233,16 @@ export interface PingPayload {
 export type ClientMessage =
   | UserMessagePayload
   | TriggerEvalPayload
+  | RequestHintPayload
+  | SkipPointPayload
+  | DeferPointPayload
+  | RevealPointPayload
+  | UndoMessagePayload
+  | AddNotePayload
+  | ExploreTangentPayload
+  | ReturnFromTangentPayload
+  | AcceptRatingPayload
+  | OverrideRatingPayload
   | EndSessionPayload
   | PingPayload;
 
@@ -109,12 +252,27 @@ export type ClientMessage =
 export const CLIENT_MESSAGE_TYPES = [
   'user_message',
   'trigger_eval',
+  'request_hint',
+  'skip_point',
+  'defer_point',
+  'reveal_point',
+  'undo_message',
+  'add_note',
+  'explore_tangent',
+  'return_from_tangent',
+  'accept_rating',
+  'override_rating',
   'end_session',
   'ping',
 ] as const;
 
 export type ClientMessageType = (typeof CLIENT_MESSAGE_TYPES)[number];
 
+/**
+ * Ratings a client may send in an override_rating message.
+ */
+const RECALL_RATINGS: readonly RecallRating[] = ['forgot', 'hard', 'good', 'easy'];
+
 // ============================================================================
 // Server -> Client Messages
 // ============================================================================
@@ -134,6 +292,8 @@ export interface SessionStartedPayload {
   currentPointIndex: number;
   /** Total number of recall points in this session */
   totalPoints: number;
+  /** Whether the session schedules reviews or is practice */
+  mode: SessionMode;
 }
 
 /**
@@ -162,9 +322,73 @@ export interface AssistantCompletePayload {
   totalChunks: number;
 }
 
+/**
+ * Sent after a hint has been streamed, whether the client asked for it with
+ * 'request_hint' or the learner said they didn't know the answer.
+ */
+export interface HintGivenPayload {
+  type: 'hint_given';
+  /** ID of the recall point the hint is about */
+  pointId: string;
+  /** Rung of the hint ladder (1-based); also the hints taken on the point so far */
+  level: number;
+  /** Hints still available on the point */
+  hintsRemaining: number;
+}
+
+/**
+ * Sent after an 'undo_message' has retracted the learner's last message.
+ * The client should drop the last messagesRemoved messages it shows.
+ */
+export interface MessageRetractedPayload {
+  type: 'message_retracted';
+  /** The retracted message, so the client can offer it for editing */
+  content: string;
+  /** Messages removed: the learner's message and the replies to it */
+  messagesRemoved: number;
+}
+
+/**
+ * Sent after an 'add_note' has been saved.
+ */
+export interface NoteSavedPayload {
+  type: 'note_saved';
+  /** ID of the saved annotation */
+  annotationId: string;
+  /** Index of the message the note is attached to, or null if none */
+  messageIndex: number | null;
+}
+
+/**
+ * Sent after the tutor's start of an exploration has been streamed. The
+ * session is exploring the tangent until 'tangent_closed'.
+ */
+export interface TangentOpenedPayload {
+  type: 'tangent_opened';
+  /** ID of the rabbithole recorded for the tangent */
+  rabbitholeId: string;
+  /** What the learner is exploring */
+  topic: string;
+}
+
+/**
+ * Sent after the tutor's recap of a tangent has been streamed; the session
+ * is back on the current point.
+ */
+export interface TangentClosedPayload {
+  type: 'tangent_closed';
+  /** ID of the rabbithole recorded for the tangent */
+  rabbitholeId: string;
+  /** What the learner explored */
+  topic: string;
+}
+
 /**
  * Sent after a recall evaluation is performed.
- * Contains the result of the evaluation for the specified recall point.
+ * Contains the result of the evaluation for the specified recall point and
+ * the rating the point will be scheduled with. The server waits up to
+ * overrideWindowMs for an 'accept_rating' or 'override_rating' before
+ * scheduling the point with this rating.
  */
 export interface EvaluationResultPayload {
   type: 'evaluation_result';
@@ -176,6 +400,12 @@ export interface EvaluationResultPayload {
   feedback: string;
   /** Confidence score of the evaluation (0.0 to 1.0) */
   confidence: number;
+  /** Hints the learner took on the point; they cap the rating */
+  hintsUsed: number;
+  /** Rating derived from the evaluation, capped for the hints taken */
+  rating: RecallRating;
+  /** How long the server waits for an override, in milliseconds */
+  overrideWindowMs: number;
 }
 
 /**
@@ -258,6 +488,11 @@ export type ServerMessage =
   | SessionStartedPayload
   | AssistantChunkPayload
   | AssistantCompletePayload
+  | HintGivenPayload
+  | MessageRetractedPayload
+  | NoteSavedPayload
+  | TangentOpenedPayload
+  | TangentClosedPayload
   | EvaluationResultPayload
   | PointTransitionPayload
   | SessionCompletePayload
@@ -279,6 +514,14 @@ export type WebSocketErrorCode =
   | 'INVALID_MESSAGE_FORMAT'  // Message couldn't be parsed as JSON
   | 'UNKNOWN_MESSAGE_TYPE'    // Message type is not recognized
   | 'MISSING_CONTENT'         // user_message missing content field
+  | 'INVALID_RATING'          // override_rating missing pointId or a valid rating
+  | 'MISSING_POINT_ID'        // accept_rating missing pointId
+  | 'NO_PENDING_RATING'       // accept_rating or override_rating sent when no rating awaits one
+  | 'NO_HINTS_LEFT'           // request_hint sent after the point's hints are used up
+  | 'INVALID_DAYS'            // defer_point missing a whole number of days of at least 1
+  | 'MISSING_NOTE'            // add_note missing a non-empty note
+  | 'NOTHING_TO_UNDO'         // undo_message sent before the learner answered the point
+  | 'INVALID_TOPIC'           // explore_tangent with a topic that isn't a string
   | 'SESSION_ENGINE_ERROR'    // Error from the SessionEngine
   | 'LLM_ERROR'               // Error from the LLM API
   | 'INTERNAL_ERROR';         // Unexpected server error
@@ -293,6 +536,14 @@ export const ERROR_CODE_DESCRIPTIONS: Record<WebSocketErrorCode, string> = {
   INVALID_MESSAGE_FORMAT: 'The message could not be parsed as valid JSON',
   UNKNOWN_MESSAGE_TYPE: 'The message type is not recognized',
   MISSING_CONTENT: 'The user_message is missing the content field',
+  INVALID_RATING: 'The override_rating needs a pointId and a rating of forgot, hard, good or easy',
+  MISSING_POINT_ID: 'The accept_rating is missing the pointId field',
+  NO_PENDING_RATING: 'No rating is waiting to be accepted or overridden',
+  NO_HINTS_LEFT: 'No hints are left for the current recall point',
+  INVALID_DAYS: 'The defer_point needs a whole number of days of at least 1',
+  MISSING_NOTE: 'The add_note is missing the note field',
+  NOTHING_TO_UNDO: 'The learner has no message on the current point to undo',
+  INVALID_TOPIC: 'The explore_tangent topic must be a string',
   SESSION_ENGINE_ERROR: 'An error occurred in the session engine',
   LLM_ERROR: 'An error occurred while communicating with the LLM API',
   INTERNAL_ERROR: 'An unexpected internal server error occurred',
@@ -352,7 +603,15 @@ export function parseClientMessage(
     };
   }
 
-  const message = parsed as { type: unknown; content?: unknown };
+  const message = parsed as {
+    type: unknown;
+    content?: unknown;
+    pointId?: unknown;
+    rating?: unknown;
+    days?: unknown;
+    note?: unknown;
+    topic?: unknown;
+  };
 
   // Validate the message type
   if (!isClientMessageType(message.type)) {
@@ -377,6 +636,51 @@ export function parseClientMessage(
     return { type: 'user_message', content: message.content };
   }
 
+  if (message.type === 'accept_rating') {
+    if (typeof message.pointId !== 'string' || message.pointId === '') {
+      return createErrorPayload('MISSING_POINT_ID');
+    }
+    return { type: 'accept_rating', pointId: message.pointId };
+  }
+
+  if (message.type === 'override_rating') {
+    if (
+      typeof message.pointId !== 'string' ||
+      message.pointId === '' ||
+      !RECALL_RATINGS.includes(message.rating as RecallRating)
+    ) {
+      return createErrorPayload('INVALID_RATING');
+    }
+    return { type: 'override_rating', pointId: message.pointId, rating: message.rating as RecallRating };
+  }
+
+  if (message.type === 'defer_point') {
+    if (typeof message.days !== 'number' || !Number.isInteger(message.days) || message.days < 1) {
+      return createErrorPayload('INVALID_DAYS');
+    }
+    return { type: 'defer_point', days: message.days };
+  }
+
+  if (message.type === 'add_note') {
+    if (typeof message.note !== 'string' || message.note.trim() === '') {
+      return createErrorPayload('MISSING_NOTE', 'add_note must include a non-empty "note" field');
+    }
+    return { type: 'add_note', note: message.note };
+  }
+
+  if (message.type === 'explore_tangent') {
+    if (message.topic === undefined) {
+      return { type: 'explore_tangent' };
+    }
+    if (typeof message.topic !== 'string') {
+      return createErrorPayload('INVALID_TOPIC');
+    }
+    // A blank topic falls back to the learner's last message
+    return message.topic.trim() === ''
+      ? { type: 'explore_tangent' }
+      : { type: 'explore_tangent', topic: message.topic };
+  }
+
   // For other message types, return as-is
   return { type: message.type } as ClientMessage;
 }
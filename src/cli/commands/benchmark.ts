@@ -0,0 +1,207 @@
+/**
+ * Benchmark Command Handler
+ *
+ * This module implements the `benchmark` command, which measures how
+ * accurately the recall evaluator judges a labelled calibration dataset. It
+ * prints verdict and rating accuracy, a confusion matrix of labelled against
+ * predicted ratings, and how well the evaluator's confidence is calibrated.
+ *
+ * The evaluator uses the configured LLM provider, so a benchmark can be run
+ * offline: LLM_PROVIDER=record captures a live run to a cassette, which
+ * LLM_PROVIDER=replay then plays back without any API calls.
+ *
+ * Usage (via CLI):
+ * ```bash
+ * # Benchmark the live evaluator
+ * bun run cli benchmark data/calibration/cell-biology.json
+ *
+ * # Record once, then replay the same run offline
+ * LLM_PROVIDER=record LLM_CASSETTE_PATH=data/cassettes/calibration.json bun run cli benchmark data/calibration/cell-biology.json
+ * LLM_PROVIDER=replay LLM_CASSETTE_PATH=data/cassettes/calibration.json bun run cli benchmark data/calibration/cell-biology.json
+ *
+ * # Print the full report as JSON
+ * bun run cli benchmark data/calibration/cell-biology.json --json
+ *
+ * # Benchmark another registered version of the evaluation prompt
+ * bun run cli benchmark data/calibration/cell-biology.json --prompt-version enhanced-v1
+ * ```
+ */
+
+import {
+  runEvaluatorBenchmark,
+  loadCalibrationDataset,
+  CalibrationDatasetError,
+  BENCHMARK_RATINGS,
+  type BenchmarkEvaluator,
+  type CalibrationDataset,
+  type EvaluatorBenchmarkReport,
+} from '../../core/scoring';
+import { getEvaluatorPrompt, PromptRegistryError, DEFAULT_PROMPT_VERSIONS } from '../../llm/prompts';
+import { bold, dim, green, yellow, red, cyan, formatSeparator, printBlankLine } from '../utils/terminal';
+
+/**
+ * Options parsed from the command line.
+ */
+export interface BenchmarkCommandOptions {
+  /** Print the report as JSON instead of a summary */
+  json: boolean;
+  /** Registered evaluation prompt version to benchmark (defaults to the default version) */
+  promptVersion?: string;
+}
+
+/**
+ * Runs the benchmark command.
+ *
+ * @param evaluator - The evaluator to benchmark
+ * @param datasetPath - Path to the calibration dataset JSON file
+ * @param options - Command-line options
+ */
+export async function runBenchmarkCommand(
+  evaluator: BenchmarkEvaluator,
+  datasetPath: string,
+  options: BenchmarkCommandOptions
+): Promise<void> {
+  const promptVersion = options.promptVersion ?? DEFAULT_PROMPT_VERSIONS.evaluator;
+  try {
+    getEvaluatorPrompt(promptVersion);
+  } catch (error) {
+    if (error instanceof PromptRegistryError) {
+      console.log(red(`Error: ${error.message}`));
+      process.exitCode = 1;
+      return;
+    }
+    throw error;
+  }
+
+  let dataset: CalibrationDataset;
+  try {
+    dataset = loadCalibrationDataset(datasetPath);
+  } catch (error) {
+    if (error instanceof CalibrationDatasetError) {
+      console.log(red(`Error: ${error.message}`));
+      process.exitCode = 1;
+      return;
+    }
+    throw error;
+  }
+
+  if (!options.json) {
+    printBlankLine();
+    console.log(`Benchmarking the evaluator on ${bold(String(dataset.cases.length))} labelled case(s)...`);
+  }
+
+  const report = await runEvaluatorBenchmark(evaluator, dataset, {
+    promptVersion,
+    onCaseComplete: (result, index, total) => {
+      if (options.json) return;
+      const mark = result.error ? red('error') : result.verdictCorrect ? green('ok') : yellow('wrong');
+      console.log(dim(`  [${index + 1}/${total}] ${result.caseId} `) + mark);
+    },
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  printReport(report);
+}
+
+/**
+ * Prints the benchmark summary.
+ */
+function printReport(report: EvaluatorBenchmarkReport): void {
+  printBlankLine();
+  console.log(bold(cyan('===== Evaluator Benchmark =====')));
+  printBlankLine();
+  if (report.datasetDescription) {
+    console.log(dim(`  ${report.datasetDescription}`));
+  }
+  console.log(`  Evaluation prompt: ${bold(report.promptVersion)}`);
+  console.log(`  Cases judged: ${report.judgedCount} of ${report.caseCount}`);
+  printBlankLine();
+
+  if (report.judgedCount === 0) {
+    console.log(red('  The evaluator failed on every case.'));
+    printErrors(report);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(formatSeparator(60));
+  console.log(`  Verdict accuracy: ${bold(percent(report.verdict.accuracy))}`);
+  console.log(
+    dim(
+      `    ${report.verdict.falseSuccessCount} judged recalled but labelled failed, ` +
+        `${report.verdict.falseFailureCount} judged failed but labelled recalled`
+    )
+  );
+  console.log(`  Rating accuracy: ${bold(percent(report.rating.accuracy))}`);
+  console.log(dim(`    Within one rating: ${percent(report.rating.withinOneAccuracy)}`));
+  console.log(formatSeparator(60));
+  printBlankLine();
+
+  // Confusion matrix: one row per labelled rating
+  console.log(bold('  Ratings (rows: label, columns: evaluator)'));
+  const cell = (text: string) => text.padStart(8);
+  console.log('  ' + cell('') + BENCHMARK_RATINGS.map(cell).join(''));
+  for (const expected of BENCHMARK_RATINGS) {
+    const row = BENCHMARK_RATINGS.map((predicted) => {
+      const count = report.rating.confusion[expected][predicted];
+      const text = cell(String(count));
+      return count === 0 ? dim(text) : expected === predicted ? green(text) : yellow(text);
+    });
+    console.log('  ' + cell(expected) + row.join(''));
+  }
+  printBlankLine();
+
+  console.log(bold('  Confidence calibration'));
+  console.log(`    Brier score: ${report.calibration.brierScore.toFixed(3)} ${dim('(lower is better)')}`);
+  console.log(`    Mean confidence: ${percent(report.calibration.meanConfidence)}`);
+  console.log(`    Calibration error (RMSE): ${report.calibration.rmse.toFixed(3)}`);
+  for (const bin of report.calibration.bins) {
+    const range = `${percent(bin.minConfidence)}-${percent(bin.maxConfidence)}`;
+    console.log(
+      dim(`    ${range.padEnd(9)}`) +
+        ` ${String(bin.cases).padStart(4)} case(s), ` +
+        `confidence ${percent(bin.meanConfidence)}, right ${percent(bin.accuracy)}`
+    );
+  }
+  printBlankLine();
+
+  const wrong = report.cases.filter((c) => c.actual && !c.verdictCorrect);
+  if (wrong.length > 0) {
+    console.log(bold('  Wrong verdicts:'));
+    for (const c of wrong) {
+      console.log(
+        `    ${c.caseId}: labelled ${c.expected.success ? 'recalled' : 'failed'} (${c.expected.rating}), ` +
+          `judged ${c.actual!.success ? 'recalled' : 'failed'} (${c.actual!.rating})`
+      );
+      console.log(dim(`      ${c.actual!.reasoning}`));
+    }
+    printBlankLine();
+  }
+
+  printErrors(report);
+}
+
+/**
+ * Lists the cases the evaluator threw on.
+ */
+function printErrors(report: EvaluatorBenchmarkReport): void {
+  const errors = report.cases.filter((c) => c.error);
+  if (errors.length === 0) return;
+
+  console.log(red(`  ${errors.length} case(s) failed:`));
+  for (const c of errors) {
+    console.log(dim(`    ${c.caseId}: ${c.error}`));
+  }
+  printBlankLine();
+}
+
+/**
+ * Formats a 0-1 fraction as a whole percentage.
+ */
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
@@ -0,0 +1,227 @@
+/**
+ * Experiment Command Handler
+ *
+ * This module implements the `experiment` command for prompt A/B testing.
+ * Without an experiment ID it lists the registered prompt versions, the
+ * experiment PROMPT_EXPERIMENT_PATH configures (if any), and the
+ * experiments that sessions were assigned to. With an ID it compares the
+ * experiment's variants on recall rate, engagement, session length and
+ * token cost.
+ *
+ * Usage (via CLI):
+ * ```bash
+ * # List prompt versions and experiments
+ * bun run cli experiment
+ *
+ * # Compare the variants of an experiment
+ * bun run cli experiment tutor-length-2026-10
+ *
+ * # Print the comparison as JSON
+ * bun run cli experiment tutor-length-2026-10 --json
+ * ```
+ */
+
+import type { SessionRepository } from '../../storage/repositories';
+import {
+  buildPromptExperimentReport,
+  type PromptExperiment,
+  type PromptExperimentReport,
+  type VariantReport,
+} from '../../core/experiments';
+import { listPromptVersions, DEFAULT_PROMPT_VERSIONS, type PromptKind } from '../../llm/prompts';
+import { bold, dim, green, yellow, red, cyan, formatSeparator, printBlankLine } from '../utils/terminal';
+
+/**
+ * Variants with fewer measured sessions than this get a noise warning.
+ */
+const FEW_MEASURED_SESSIONS = 10;
+
+/**
+ * Options parsed from the command line.
+ */
+export interface ExperimentCommandOptions {
+  /** Print the comparison as JSON instead of a table */
+  json: boolean;
+}
+
+/**
+ * Runs the experiment command.
+ *
+ * @param sessionRepo - Repository for the sessions' experiment assignments
+ * @param experimentId - The experiment to compare, or undefined to list
+ * @param activeExperiment - The configured experiment, if any
+ * @param options - Command-line options
+ */
+export async function runExperimentCommand(
+  sessionRepo: SessionRepository,
+  experimentId: string | undefined,
+  activeExperiment: PromptExperiment | undefined,
+  options: ExperimentCommandOptions
+): Promise<void> {
+  if (!experimentId) {
+    await printOverview(sessionRepo, activeExperiment);
+    return;
+  }
+
+  const stats = await sessionRepo.getExperimentVariantStats(experimentId);
+  if (stats.length === 0 && activeExperiment?.id !== experimentId) {
+    console.log(red(`Error: No sessions were assigned to experiment "${experimentId}".`));
+    console.log(dim('Run "bun run cli experiment" to list experiments.'));
+    process.exitCode = 1;
+    return;
+  }
+
+  const report = buildPromptExperimentReport(experimentId, stats, activeExperiment);
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  printReport(report);
+}
+
+/**
+ * Prints the registered prompt versions, the configured experiment and
+ * the experiments sessions were assigned to.
+ */
+async function printOverview(
+  sessionRepo: SessionRepository,
+  activeExperiment: PromptExperiment | undefined
+): Promise<void> {
+  printBlankLine();
+  console.log(bold(cyan('===== Prompt Versions =====')));
+  const registered = listPromptVersions();
+  for (const kind of Object.keys(registered) as PromptKind[]) {
+    printBlankLine();
+    console.log(bold(`  ${kind}`));
+    for (const { version, description } of registered[kind]) {
+      const marker = version === DEFAULT_PROMPT_VERSIONS[kind] ? green(' (default)') : '';
+      console.log(`    ${version}${marker}`);
+      console.log(dim(`      ${description}`));
+    }
+  }
+  printBlankLine();
+
+  console.log(formatSeparator(60));
+  if (activeExperiment) {
+    const totalWeight = activeExperiment.variants.reduce((total, variant) => total + variant.weight, 0);
+    console.log(`  Running experiment: ${bold(activeExperiment.id)}`);
+    if (activeExperiment.description) {
+      console.log(dim(`    ${activeExperiment.description}`));
+    }
+    for (const variant of activeExperiment.variants) {
+      const share = `${Math.round((variant.weight / totalWeight) * 100)}%`;
+      const overrides = Object.entries(variant.prompts)
+        .map(([kind, version]) => `${kind}=${version}`)
+        .join(', ');
+      console.log(`    ${variant.name.padEnd(16)} ${share.padStart(4)}  ${dim(overrides || 'default prompts')}`);
+    }
+  } else {
+    console.log(dim('  No experiment is running (set PROMPT_EXPERIMENT_PATH to start one).'));
+  }
+  console.log(formatSeparator(60));
+  printBlankLine();
+
+  const experiments = await sessionRepo.findExperiments();
+  if (experiments.length === 0) {
+    console.log(dim('  No sessions have been assigned to an experiment yet.'));
+  } else {
+    console.log(bold('  Experiments with sessions:'));
+    for (const { experimentId, sessionCount } of experiments) {
+      console.log(`    ${experimentId} ${dim(`(${sessionCount} session(s))`)}`);
+    }
+  }
+  printBlankLine();
+}
+
+/**
+ * Prints the comparison of an experiment's variants.
+ */
+function printReport(report: PromptExperimentReport): void {
+  printBlankLine();
+  console.log(bold(cyan('===== Prompt Experiment =====')));
+  printBlankLine();
+  console.log(`  Experiment: ${bold(report.experimentId)}`);
+  if (report.description) {
+    console.log(dim(`    ${report.description}`));
+  }
+  console.log(`  Sessions: ${report.sessionCount}`);
+  printBlankLine();
+
+  const columns = ['Variant', 'Sessions', 'Measured', 'Recall', 'Engage', 'Length', 'Tokens', 'Cost'];
+  const widths = [16, 9, 9, 8, 8, 8, 8, 9];
+  const row = (cells: string[]) => '  ' + cells.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('');
+
+  console.log(bold(row(columns)));
+  console.log(formatSeparator(2 + widths.reduce((total, width) => total + width, 0)));
+  for (const variant of report.variants) {
+    const measured = variant.measuredCount > 0;
+    console.log(
+      row([
+        variant.variant,
+        String(variant.sessionCount),
+        String(variant.measuredCount),
+        measured ? percent(variant.avgRecallRate) : '-',
+        measured ? variant.avgEngagement.toFixed(0) : '-',
+        measured ? minutes(variant.avgDurationMs) : '-',
+        measured ? Math.round(variant.avgTokens).toString() : '-',
+        measured ? `$${variant.avgCostUsd.toFixed(4)}` : '-',
+      ])
+    );
+  }
+  printBlankLine();
+
+  const compared = report.variants.filter((variant) => variant.vsBaseline);
+  if (compared.length > 0) {
+    console.log(bold(`  Compared with ${report.baselineVariant}:`));
+    for (const variant of compared) {
+      console.log(`    ${variant.variant}: ${formatDifference(variant)}`);
+    }
+    printBlankLine();
+  }
+
+  for (const variant of report.variants) {
+    if (variant.promptVersions) {
+      const { tutor, evaluator, rabbithole } = variant.promptVersions;
+      console.log(dim(`  ${variant.variant}: tutor=${tutor}, evaluator=${evaluator}, rabbithole=${rabbithole}`));
+    }
+  }
+  if (report.variants.some((variant) => variant.promptVersions)) {
+    printBlankLine();
+  }
+
+  if (report.variants.some((variant) => variant.measuredCount < FEW_MEASURED_SESSIONS)) {
+    console.log(
+      yellow(`  Some variants have fewer than ${FEW_MEASURED_SESSIONS} measured sessions; differences may be noise.`)
+    );
+    printBlankLine();
+  }
+}
+
+/**
+ * Describes how a variant differs from the baseline.
+ */
+function formatDifference(variant: VariantReport): string {
+  const difference = variant.vsBaseline!;
+  const signed = (value: number, text: string) => (value > 0 ? `+${text}` : value < 0 ? `-${text}` : text);
+  return [
+    `recall ${signed(difference.recallRate, `${Math.abs(Math.round(difference.recallRate * 100))} pts`)}`,
+    `engagement ${signed(difference.engagement, Math.abs(difference.engagement).toFixed(0))}`,
+    `length ${signed(difference.durationMs, minutes(Math.abs(difference.durationMs)))}`,
+    `tokens ${signed(difference.tokens, Math.abs(Math.round(difference.tokens)).toString())}`,
+    `cost ${signed(difference.costUsd, `$${Math.abs(difference.costUsd).toFixed(4)}`)}`,
+  ].join(', ');
+}
+
+/**
+ * Formats a 0-1 fraction as a whole percentage.
+ */
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Formats a duration in milliseconds as minutes with one decimal.
+ */
+function minutes(ms: number): string {
+  return `${(ms / 60000).toFixed(1)}m`;
+}
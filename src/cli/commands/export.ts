@@ -4,12 +4,14 @@
  * This module implements the export command for the CLI, allowing users to
  * export session data, recall set data, and analytics to JSON or CSV files.
  * The exported data can be used for external analysis, backup, or integration
- * with other tools.
+ * with other tools. A recall set's points can also be exported in a study
+ * format (Anki, Markdown, or a re-importable bundle).
  *
  * Available Sub-commands:
  * - `export session <session-id>` - Export a single session's data
  * - `export set <set-name>` - Export all sessions for a recall set
  * - `export analytics <set-name>` - Export analytics summary for a recall set
+ * - `export content <set-name>` - Export a recall set's points
  *
  * Usage Examples:
  * ```bash
@@ -24,6 +26,10 @@
  *
  * # Export analytics for a recall set as CSV
  * bun run cli export analytics "Motivation Psychology" --format csv
+ *
+ * # Export a recall set's points for Anki, or as a bundle to import elsewhere
+ * bun run cli export content "ATP Synthesis" --format anki
+ * bun run cli export content "ATP Synthesis" --format bundle
  * ```
  *
  * The export command uses the ExportService for data aggregation and formatting,
@@ -43,7 +49,11 @@ import {
   RabbitholeEventRepository,
   RecallPointRepository,
 } from '../../storage/repositories';
-import { ExportService } from '../../core/export';
+import {
+  ExportService,
+  RECALL_SET_CONTENT_FORMATS,
+  type RecallSetContentFormat,
+} from '../../core/export';
 import { AnalyticsCalculator } from '../../core/analytics';
 import {
   bold,
@@ -59,7 +69,7 @@ import {
  * Creates the export command with all sub-commands.
  *
  * This function builds the commander.js command tree for the export functionality,
- * including the three sub-commands (session, set, analytics) and their options.
+ * including the four sub-commands (session, set, analytics, content) and their options.
  *
  * @returns The configured Command object for the export command
  */
@@ -110,6 +120,18 @@ export function createExportCommand(): Command {
       await exportAnalytics(setName, options);
     });
 
+  // Sub-command: export content <set-name>
+  // Exports the recall points themselves in a study format rather than
+  // session data; bundles can be imported again with `import`
+  exportCmd
+    .command('content <set-name>')
+    .description("Export a recall set's points (anki, markdown, or bundle)")
+    .option('-f, --format <format>', 'Output format (anki, markdown, or bundle)', 'bundle')
+    .option('-o, --output <file>', 'Output file path')
+    .action(async (setName: string, options: ContentExportOptions) => {
+      await exportContent(setName, options);
+    });
+
   return exportCmd;
 }
 
@@ -141,6 +163,23 @@ interface AnalyticsExportOptions {
   output?: string;
 }
 
+/**
+ * Options for the content export sub-command.
+ */
+interface ContentExportOptions {
+  format: string;
+  output?: string;
+}
+
+/**
+ * File extension for each content export format.
+ */
+const CONTENT_EXTENSIONS: Record<RecallSetContentFormat, string> = {
+  anki: 'txt',
+  markdown: 'md',
+  bundle: 'bundle.json',
+};
+
 /**
  * Initializes the export service with all required dependencies.
  *
@@ -183,7 +222,8 @@ function initializeExportService(): {
     metricsRepo,
     outcomeRepo,
     rabbitholeRepo,
-    analyticsCalc
+    analyticsCalc,
+    recallPointRepo
   );
 
   return { exportService, recallSetRepo };
@@ -486,3 +526,58 @@ async function exportAnalytics(
     process.exit(1);
   }
 }
+
+/**
+ * Exports a recall set's points in a study format.
+ *
+ * Unlike the other sub-commands, an unknown format is an error rather than
+ * falling back to a default, since the formats aren't interchangeable.
+ *
+ * @param setName - Name of the recall set to export
+ * @param options - Export configuration options
+ */
+async function exportContent(
+  setName: string,
+  options: ContentExportOptions
+): Promise<void> {
+  printBlankLine();
+  console.log(bold('Exporting Recall Set Content'));
+  console.log(formatSeparator(40));
+
+  try {
+    const format = options.format.toLowerCase() as RecallSetContentFormat;
+    if (!RECALL_SET_CONTENT_FORMATS.includes(format)) {
+      throw new Error(
+        `Unknown format "${options.format}". Use one of: ${RECALL_SET_CONTENT_FORMATS.join(', ')}.`
+      );
+    }
+
+    // Initialize services
+    const { exportService, recallSetRepo } = initializeExportService();
+
+    // Find the recall set by name (case-insensitive search)
+    const recallSet = await recallSetRepo.findByName(setName);
+
+    if (!recallSet) {
+      throw new Error(`Recall set "${setName}" not found. Use "bun run cli list" to see available sets.`);
+    }
+
+    // Show what we're exporting
+    console.log(`  Recall Set: ${green(recallSet.name)}`);
+    console.log(`  Format: ${dim(format)}`);
+
+    const data = await exportService.exportRecallSetContent(recallSet.id, format);
+
+    // Determine output file path
+    const sanitizedName = recallSet.name.toLowerCase().replace(/\s+/g, '-');
+    const outputFile = options.output || `${sanitizedName}.${CONTENT_EXTENSIONS[format]}`;
+
+    // Write and report success
+    await writeExportFile(outputFile, data);
+  } catch (error) {
+    // Handle errors with clear messaging
+    console.log(red(`\n  Error: ${(error as Error).message}`));
+    printBlankLine();
+    process.exit(1);
+  }
+}
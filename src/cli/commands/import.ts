@@ -0,0 +1,192 @@
+/**
+ * Import Command Handler
+ *
+ * This module implements the `import` command, which imports an Anki deck
+ * into a recall set. It accepts Anki packages (.apkg/.colpkg) and
+ * "Notes in Plain Text" exports (.txt/.tsv/.csv), as well as recall set
+ * bundles (.json) written by `export content --format bundle`.
+ *
+ * The command always shows a preview first: the target set, how many points
+ * will be created (and how many carry Anki review history), and which notes
+ * are skipped. With --dry-run it stops there.
+ *
+ * Usage (via CLI):
+ * ```bash
+ * # Import a deck as a new recall set named after the deck
+ * bun run cli import ~/Downloads/Biology.apkg
+ *
+ * # Preview only
+ * bun run cli import ~/Downloads/Biology.apkg --dry-run
+ *
+ * # Choose the new set's name, or add to an existing set
+ * bun run cli import notes.txt --name "Cell Biology"
+ * bun run cli import notes.txt --into "ATP Synthesis"
+ *
+ * # Import a bundle exported from another database
+ * bun run cli import atp-synthesis.bundle.json
+ * ```
+ */
+
+import { readFile } from 'fs/promises';
+import { basename, extname, resolve } from 'path';
+import {
+  ImportError,
+  type AnkiImportService,
+  type BundleImportService,
+  type ImportOptions,
+  type ImportPreview,
+} from '../../core/import';
+import type { RecallSetRepository } from '../../storage/repositories';
+import { bold, dim, green, yellow, red, cyan, formatSeparator, printBlankLine } from '../utils/terminal';
+
+/**
+ * How many points the preview lists before summarizing the rest.
+ */
+const PREVIEW_POINT_LIMIT = 10;
+
+/**
+ * The services that import each kind of file.
+ */
+export interface ImportServices {
+  /** Imports Anki packages and text exports */
+  anki: AnkiImportService;
+  /** Imports recall set bundles (.json) */
+  bundle: BundleImportService;
+}
+
+/**
+ * Options parsed from the command line.
+ */
+export interface ImportCommandOptions {
+  /** Preview without importing */
+  dryRun: boolean;
+  /** Name of an existing recall set to add the points to */
+  into?: string;
+  /** Name for the new recall set */
+  name?: string;
+}
+
+/**
+ * Runs the import command for a file.
+ *
+ * @param services - The import services; .json files go to the bundle importer
+ * @param recallSetRepo - Used to resolve --into by name
+ * @param filePath - Path to the Anki export or recall set bundle
+ * @param options - Command-line options
+ */
+export async function runImportCommand(
+  services: ImportServices,
+  recallSetRepo: RecallSetRepository,
+  filePath: string,
+  options: ImportCommandOptions
+): Promise<void> {
+  const absolutePath = resolve(filePath);
+
+  let data: Uint8Array;
+  try {
+    data = new Uint8Array(await readFile(absolutePath));
+  } catch (error) {
+    console.log(red(`Error: Could not read file '${absolutePath}'.`));
+    console.log(dim(error instanceof Error ? error.message : String(error)));
+    process.exitCode = 1;
+    return;
+  }
+
+  const importOptions: ImportOptions = { name: options.name };
+  if (options.into) {
+    const target = await recallSetRepo.findByName(options.into);
+    if (!target) {
+      console.log(red(`Error: Recall set "${options.into}" not found.`));
+      console.log(dim('Use "bun run cli list" to see available recall sets.'));
+      process.exitCode = 1;
+      return;
+    }
+    importOptions.recallSetId = target.id;
+  }
+
+  const fileName = basename(absolutePath);
+
+  // Bundles are JSON; everything else is left to the Anki importer, which
+  // reports unsupported file types
+  const bundleText =
+    extname(fileName).toLowerCase() === '.json' ? new TextDecoder().decode(data) : null;
+
+  try {
+    const preview =
+      bundleText !== null
+        ? await services.bundle.preview(bundleText, importOptions)
+        : await services.anki.preview(fileName, data, importOptions);
+    printPreview(preview);
+
+    if (options.dryRun) {
+      console.log(dim('Dry run: nothing was imported.'));
+      printBlankLine();
+      return;
+    }
+
+    const result =
+      bundleText !== null
+        ? await services.bundle.import(bundleText, importOptions)
+        : await services.anki.import(fileName, data, importOptions);
+    console.log(
+      green(
+        `Imported ${result.recallPoints.length} recall point(s) into ` +
+          `${result.createdRecallSet ? 'new' : 'existing'} set "${result.recallSet.name}".`
+      )
+    );
+    console.log(dim(`Start a session with: bun run cli session "${result.recallSet.name}"`));
+    printBlankLine();
+  } catch (error) {
+    if (error instanceof ImportError) {
+      console.log(red(`Error: ${error.message}`));
+      process.exitCode = 1;
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Prints what an import will do.
+ */
+function printPreview(preview: ImportPreview): void {
+  printBlankLine();
+  console.log(bold(cyan('===== Import =====')));
+  printBlankLine();
+
+  if (preview.deckName) {
+    console.log(`  Source: ${bold(preview.deckName)}`);
+  }
+  if (preview.target.type === 'new') {
+    console.log(`  Target: new set ${bold(`"${preview.target.name}"`)}`);
+  } else {
+    console.log(`  Target: existing set ${bold(`"${preview.target.name}"`)}`);
+  }
+
+  const withHistory = preview.points.filter((p) => p.reviewCount > 0).length;
+  console.log(`  Recall points: ${bold(String(preview.points.length))}`);
+  if (withHistory > 0) {
+    console.log(`  With review history: ${withHistory}`);
+  }
+  if (preview.skipped.length > 0) {
+    const duplicates = preview.skipped.filter((s) => s.reason === 'duplicate').length;
+    const empty = preview.skipped.length - duplicates;
+    console.log(yellow(`  Skipped: ${duplicates} duplicate(s), ${empty} empty note(s)`));
+  }
+  printBlankLine();
+
+  console.log(formatSeparator(60));
+  for (const point of preview.points.slice(0, PREVIEW_POINT_LIMIT)) {
+    const state =
+      point.reviewCount > 0
+        ? dim(`(${point.fsrsState.state}, ${point.reviewCount} review(s))`)
+        : dim('(new)');
+    console.log(`  ${point.content.split('\n')[0]} ${state}`);
+  }
+  const remaining = preview.points.length - PREVIEW_POINT_LIMIT;
+  if (remaining > 0) {
+    console.log(dim(`  ... and ${remaining} more`));
+  }
+  console.log(formatSeparator(60));
+  printBlankLine();
+}
@@ -0,0 +1,545 @@
+/**
+ * Ingest Command Handler
+ *
+ * This module implements the interactive `ingest` command, which turns a local
+ * markdown or plain-text file into a new recall set:
+ *
+ * 1. The IngestionService extracts candidate concepts from the file
+ * 2. Each concept is shown in turn and can be accepted, edited, merged with
+ *    the next concept, or dropped
+ * 3. The user names the set and it is created with a generated discussion prompt
+ *
+ * Every decision is saved on the IngestionJob as it is made, so quitting
+ * part-way (with `q`, Ctrl+C, or Ctrl+D) leaves a job that can be resumed with
+ * `--resume`. Running `ingest` again on the same file also offers to resume.
+ *
+ * Usage (via CLI):
+ * ```bash
+ * # Ingest a file
+ * bun run cli ingest notes/atp-synthesis.md
+ *
+ * # Resume the most recent unfinished ingestion (or a specific job)
+ * bun run cli ingest --resume
+ * bun run cli ingest --resume ing_abc123
+ * ```
+ */
+
+import * as readline from 'readline';
+import { resolve } from 'path';
+import type { IngestionService } from '../../core/ingestion';
+import type { IngestionCandidate, IngestionJob } from '../../core/models';
+import {
+  bold,
+  dim,
+  green,
+  yellow,
+  red,
+  cyan,
+  formatProgress,
+  formatSeparator,
+  formatCommandHelp,
+  printBlankLine,
+} from '../utils/terminal';
+
+/**
+ * Reads answers line by line from a readline interface.
+ *
+ * Lines are queued as they arrive, so piped input that arrives before a
+ * question is asked is not lost. Resolves to null once input is closed.
+ */
+interface Prompter {
+  ask(question: string): Promise<string | null>;
+  close(): void;
+}
+
+/**
+ * Outcome of the candidate review loop.
+ */
+type ReviewOutcome = 'done' | 'quit';
+
+/**
+ * Runs the interactive ingestion flow for a file.
+ *
+ * If an unfinished job already exists for the same file, the user is asked
+ * whether to resume it instead of extracting again.
+ *
+ * @param service - The IngestionService used for extraction and review
+ * @param filePath - Path to a .md, .markdown, or .txt file
+ */
+export async function runIngestCommand(
+  service: IngestionService,
+  filePath: string
+): Promise<void> {
+  const absolutePath = resolve(filePath);
+  const prompter = createPrompter();
+
+  try {
+    // Offer to pick up where a previous run on this file left off
+    let job: IngestionJob | null = null;
+    const existing = await findResumableJobForFile(service, absolutePath);
+    if (existing) {
+      printBlankLine();
+      console.log(yellow(`An unfinished ingestion of this file exists (${existing.id}).`));
+      const answer = await prompter.ask(`Resume it? ${dim('[Y/n]')} `);
+      if (answer === null) {
+        return;
+      }
+      if (answer.trim().toLowerCase() === 'n') {
+        // Starting over replaces the old job rather than leaving two behind
+        await service.cancel(existing.id);
+      } else {
+        job = existing;
+      }
+    }
+
+    if (!job) {
+      console.log(dim(`\nExtracting concepts from ${absolutePath}...`));
+      try {
+        job = await service.ingestFile(absolutePath);
+      } catch (error) {
+        printExtractionError(error);
+        process.exitCode = 1;
+        return;
+      }
+    }
+
+    await reviewAndCreate(service, job, prompter);
+  } finally {
+    prompter.close();
+  }
+}
+
+/**
+ * Resumes an unfinished ingestion job.
+ *
+ * Failed jobs are re-extracted first; jobs in review continue with the
+ * first undecided concept.
+ *
+ * @param service - The IngestionService used for extraction and review
+ * @param jobId - Job to resume, or undefined for the most recently updated one
+ */
+export async function runIngestResumeCommand(
+  service: IngestionService,
+  jobId?: string
+): Promise<void> {
+  const resumable = await service.listResumableJobs();
+  const job = jobId ? resumable.find((j) => j.id === jobId) : resumable[0];
+
+  if (!job) {
+    if (jobId) {
+      console.log(red(`Error: No unfinished ingestion job with id "${jobId}".`));
+    } else {
+      console.log(yellow('No unfinished ingestion jobs to resume.'));
+    }
+    printResumableJobs(resumable);
+    process.exitCode = jobId ? 1 : 0;
+    return;
+  }
+
+  const source = await service.getJobSource(job.id);
+  console.log(dim(`\nResuming ${job.id} (${source.name ?? 'pasted text'})`));
+
+  const prompter = createPrompter();
+  try {
+    await reviewAndCreate(service, job, prompter);
+  } finally {
+    prompter.close();
+  }
+}
+
+// =============================================================================
+// Review Flow
+// =============================================================================
+
+/**
+ * Re-extracts a failed job if needed, reviews its pending concepts, then
+ * names and creates the recall set.
+ */
+async function reviewAndCreate(
+  service: IngestionService,
+  job: IngestionJob,
+  prompter: Prompter
+): Promise<void> {
+  if (job.status === 'failed') {
+    console.log(dim('\nThe previous extraction failed. Extracting again...'));
+    try {
+      job = await service.extractCandidates(job.id);
+    } catch (error) {
+      printExtractionError(error);
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  const outcome = await reviewCandidates(service, job.id, prompter);
+  if (outcome === 'quit') {
+    printPaused(job.id);
+    return;
+  }
+
+  await nameAndCreate(service, job.id, prompter);
+}
+
+/**
+ * Walks through every pending concept, applying the user's decision to each.
+ *
+ * @returns 'quit' if the user stopped early, 'done' once nothing is pending
+ */
+async function reviewCandidates(
+  service: IngestionService,
+  jobId: string,
+  prompter: Prompter
+): Promise<ReviewOutcome> {
+  let job = await service.getJob(jobId);
+  const pendingCount = job.candidates.filter((c) => c.status === 'pending').length;
+  if (pendingCount === 0) {
+    return 'done';
+  }
+
+  printBlankLine();
+  console.log(formatSeparator(60));
+  console.log(bold('  Review Extracted Concepts'));
+  console.log(formatSeparator(60));
+  console.log(`  Concepts to review: ${yellow(pendingCount.toString())}`);
+  printBlankLine();
+  printReviewHelp();
+
+  for (;;) {
+    const index = job.candidates.findIndex((c) => c.status === 'pending');
+    if (index === -1) {
+      return 'done';
+    }
+
+    const candidate = job.candidates[index];
+    const next = job.candidates.slice(index + 1).find((c) => c.status === 'pending');
+
+    printBlankLine();
+    console.log(formatProgress(index, job.candidates.length));
+    printCandidate(candidate);
+
+    const answer = await prompter.ask(
+      `${bold('Action')} ${dim(next ? '[a/e/m/d/q]' : '[a/e/d/q]')}: `
+    );
+    if (answer === null) {
+      return 'quit';
+    }
+
+    try {
+      switch (answer.trim().toLowerCase()) {
+        case 'a':
+        case 'accept':
+          job = await service.approveCandidate(jobId, candidate.id);
+          console.log(green('Accepted.'));
+          break;
+
+        case 'e':
+        case 'edit': {
+          const edited = await promptForEdit(candidate, prompter);
+          if (edited === null) {
+            return 'quit';
+          }
+          job = await service.editCandidate(jobId, candidate.id, edited);
+          console.log(green('Saved edit.'));
+          break;
+        }
+
+        case 'm':
+        case 'merge': {
+          if (!next) {
+            console.log(yellow('There is no later concept to merge with.'));
+            break;
+          }
+          printBlankLine();
+          console.log(dim('Merging with:'));
+          printCandidate(next);
+          const merged = await promptForEdit(
+            {
+              ...candidate,
+              content: `${candidate.content} ${next.content}`,
+              context: [candidate.context, next.context].filter(Boolean).join(' '),
+            },
+            prompter
+          );
+          if (merged === null) {
+            return 'quit';
+          }
+          job = await service.mergeCandidates(jobId, [candidate.id, next.id], merged);
+          console.log(green('Merged.'));
+          break;
+        }
+
+        case 'd':
+        case 'drop':
+          job = await service.rejectCandidate(jobId, candidate.id);
+          console.log(dim('Dropped.'));
+          break;
+
+        case 'q':
+        case 'quit':
+          return 'quit';
+
+        case '?':
+        case 'h':
+        case 'help':
+          printReviewHelp();
+          break;
+
+        default:
+          console.log(yellow(`Unknown action: ${answer.trim() || '(empty)'}`));
+          printReviewHelp();
+      }
+    } catch (error) {
+      console.log(red('Error saving your decision:'));
+      console.log(dim(error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+}
+
+/**
+ * Asks for replacement content and context, keeping the shown text on an
+ * empty answer.
+ *
+ * @returns The edit to apply, or null if input was closed
+ */
+async function promptForEdit(
+  candidate: Pick<IngestionCandidate, 'content' | 'context'>,
+  prompter: Prompter
+): Promise<{ content: string; context: string } | null> {
+  console.log(dim('Press Enter to keep the current text.'));
+
+  const content = await prompter.ask(`${bold('Content')}: `);
+  if (content === null) {
+    return null;
+  }
+  const context = await prompter.ask(`${bold('Context')}: `);
+  if (context === null) {
+    return null;
+  }
+
+  return {
+    content: content.trim() || candidate.content,
+    context: context.trim() || candidate.context,
+  };
+}
+
+/**
+ * Asks for the set's name and description and creates it, re-asking for the
+ * name if it is already taken.
+ */
+async function nameAndCreate(
+  service: IngestionService,
+  jobId: string,
+  prompter: Prompter
+): Promise<void> {
+  const job = await service.getJob(jobId);
+  const accepted = job.candidates.filter((c) => c.status === 'approved' || c.status === 'edited');
+
+  if (accepted.length === 0) {
+    printBlankLine();
+    console.log(yellow('No concepts were accepted, so no recall set was created.'));
+    await service.cancel(jobId);
+    return;
+  }
+
+  printBlankLine();
+  console.log(formatSeparator(60));
+  console.log(`  Accepted concepts: ${green(accepted.length.toString())}`);
+  console.log(formatSeparator(60));
+
+  for (;;) {
+    const suggestedName = job.suggestedName ?? '';
+    const nameAnswer = await prompter.ask(
+      `${bold('Recall set name')}${suggestedName ? dim(` [${suggestedName}]`) : ''}: `
+    );
+    if (nameAnswer === null) {
+      printPaused(jobId);
+      return;
+    }
+    const name = nameAnswer.trim() || suggestedName;
+    if (!name) {
+      console.log(yellow('A name is required.'));
+      continue;
+    }
+
+    const suggestedDescription = job.suggestedDescription ?? '';
+    const descriptionAnswer = await prompter.ask(
+      `${bold('Description')}${suggestedDescription ? dim(` [${suggestedDescription}]`) : ''}: `
+    );
+    if (descriptionAnswer === null) {
+      printPaused(jobId);
+      return;
+    }
+
+    console.log(dim('\nCreating recall set and generating its discussion prompt...'));
+    try {
+      const result = await service.finalize(jobId, {
+        name,
+        description: descriptionAnswer.trim() || undefined,
+      });
+
+      printBlankLine();
+      console.log(formatSeparator(60));
+      console.log(green(bold('  Recall Set Created!')));
+      console.log(`  Name: ${bold(result.recallSet.name)}`);
+      console.log(`  Recall points: ${yellow(result.recallPoints.length.toString())}`);
+      console.log(formatSeparator(60));
+      printBlankLine();
+      console.log(dim(`To start a session: bun run cli session "${result.recallSet.name}"`));
+      printBlankLine();
+      return;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.log(red(`Error: ${message}`));
+      if (!message.includes('already exists')) {
+        printPaused(jobId);
+        process.exitCode = 1;
+        return;
+      }
+    }
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Finds an unfinished job whose source is the given file.
+ */
+async function findResumableJobForFile(
+  service: IngestionService,
+  absolutePath: string
+): Promise<IngestionJob | null> {
+  for (const job of await service.listResumableJobs()) {
+    const source = await service.getJobSource(job.id);
+    if (source.type === 'file' && source.name === absolutePath) {
+      return job;
+    }
+  }
+  return null;
+}
+
+/**
+ * Creates a Prompter over stdin/stdout.
+ */
+function createPrompter(): Prompter {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  const lines: string[] = [];
+  const waiting: Array<(line: string | null) => void> = [];
+  let closed = false;
+
+  rl.on('line', (line: string) => {
+    const resolveNext = waiting.shift();
+    if (resolveNext) {
+      resolveNext(line);
+    } else {
+      lines.push(line);
+    }
+  });
+
+  rl.on('close', () => {
+    closed = true;
+    for (const resolveNext of waiting.splice(0)) {
+      resolveNext(null);
+    }
+  });
+
+  // Ctrl+C: decisions are already saved, so just stop
+  rl.on('SIGINT', () => {
+    rl.close();
+  });
+
+  // Echo piped answers so the transcript stays readable
+  const echo = (line: string | null): string | null => {
+    if (!process.stdin.isTTY) {
+      process.stdout.write(`${line ?? ''}\n`);
+    }
+    return line;
+  };
+
+  return {
+    async ask(question: string): Promise<string | null> {
+      process.stdout.write(question);
+      if (lines.length > 0) {
+        return echo(lines.shift()!);
+      }
+      if (closed) {
+        return echo(null);
+      }
+      return echo(await new Promise<string | null>((resolveAnswer) => waiting.push(resolveAnswer)));
+    },
+    close(): void {
+      rl.close();
+    },
+  };
+}
+
+/**
+ * Prints one candidate concept.
+ */
+function printCandidate(candidate: IngestionCandidate): void {
+  console.log(`  ${bold('Concept:')} ${candidate.content}`);
+  if (candidate.context) {
+    console.log(`  ${dim('Context:')} ${dim(candidate.context)}`);
+  }
+  if (candidate.sourceQuote) {
+    console.log(`  ${dim('Source:')}  ${cyan(`"${candidate.sourceQuote}"`)}`);
+  }
+}
+
+/**
+ * Prints the review actions.
+ */
+function printReviewHelp(): void {
+  console.log(bold('Actions:'));
+  console.log(formatCommandHelp('a', 'Accept the concept as shown'));
+  console.log(formatCommandHelp('e', 'Edit the concept, then accept it'));
+  console.log(formatCommandHelp('m', 'Merge with the next concept'));
+  console.log(formatCommandHelp('d', 'Drop the concept'));
+  console.log(formatCommandHelp('q', 'Save progress and quit'));
+}
+
+/**
+ * Prints how to continue a paused job.
+ */
+function printPaused(jobId: string): void {
+  printBlankLine();
+  console.log(yellow('Ingestion paused. Your decisions have been saved.'));
+  console.log(dim(`Resume with: bun run cli ingest --resume ${jobId}`));
+  printBlankLine();
+}
+
+/**
+ * Prints a failed extraction and how to retry it.
+ */
+function printExtractionError(error: unknown): void {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  console.log(red(`Error: ${message}`));
+
+  const jobMatch = message.match(/ingestion job '([^']+)'/);
+  if (jobMatch) {
+    console.log(dim(`Retry with: bun run cli ingest --resume ${jobMatch[1]}`));
+  }
+}
+
+/**
+ * Lists unfinished jobs so the user can pick one to resume.
+ */
+function printResumableJobs(jobs: IngestionJob[]): void {
+  if (jobs.length === 0) {
+    return;
+  }
+  printBlankLine();
+  console.log(bold('Unfinished ingestion jobs:'));
+  for (const job of jobs) {
+    const pending = job.candidates.filter((c) => c.status === 'pending').length;
+    console.log(
+      `  ${job.id}  ${dim(job.status)}  ${dim(`${pending} pending`)}  ${job.suggestedName ?? ''}`
+    );
+  }
+  printBlankLine();
+}
@@ -0,0 +1,207 @@
+/**
+ * Leeches Command Handler
+ *
+ * This module implements the `leeches` command, which lists a recall set's
+ * remediation queue: the points the learner keeps forgetting, flagged at
+ * the set's lapse threshold (see core/leeches). Each can be remediated from
+ * here by ID:
+ *
+ * - `--split <id>` asks the LLM to split the point into smaller ones and,
+ *   once confirmed, adds them and suspends the original
+ * - `--suspend <id>` / `--unsuspend <id>` take the point out of scheduling
+ *   and put it back
+ * - `--deep-dive <id>` marks the point for a deep-dive session, started
+ *   with `session <name> --deep-dive`
+ *
+ * Rewriting a point's wording is done in the web app, where it can be
+ * edited comfortably.
+ *
+ * Usage (via CLI):
+ * ```bash
+ * # List the leeches of a recall set
+ * bun run cli leeches "ATP Synthesis"
+ *
+ * # Split a leech into smaller points
+ * bun run cli leeches "ATP Synthesis" --split rp_abc123
+ *
+ * # Mark a leech for a deep dive, then study it
+ * bun run cli leeches "ATP Synthesis" --deep-dive rp_abc123
+ * bun run cli session "ATP Synthesis" --deep-dive
+ * ```
+ */
+
+import * as readline from 'readline';
+import {
+  LeechRemediationError,
+  type LeechQueue,
+  type LeechRemediationService,
+} from '../../core/leeches';
+import type { LeechReason } from '../../core/analytics';
+import type { RecallSet } from '../../core/models';
+import type { RecallSetRepository, RecallPointRepository } from '../../storage/repositories';
+import { bold, dim, green, yellow, red, cyan, formatSeparator, printBlankLine } from '../utils/terminal';
+
+/**
+ * A remedy to apply to one point, parsed from the command line.
+ */
+export interface LeechAction {
+  /** What to do */
+  type: 'split' | 'suspend' | 'unsuspend' | 'deep-dive';
+  /** The recall point's ID */
+  pointId: string;
+}
+
+/**
+ * Options parsed from the command line.
+ */
+export interface LeechesCommandOptions {
+  /** A remedy to apply instead of only listing the queue */
+  action?: LeechAction;
+}
+
+/**
+ * Short labels for each leech reason.
+ */
+const REASON_LABELS: Record<LeechReason, string> = {
+  lapses: 'repeated lapses',
+  'flat-stability': 'flat stability',
+};
+
+/**
+ * Runs the leeches command.
+ *
+ * @param service - Remediation service (unscoped for the CLI)
+ * @param recallSetRepo - Used to resolve the set name
+ * @param recallPointRepo - Used to check that an action's point is in the set
+ * @param setName - Recall set whose leeches to list
+ * @param options - Command-line options
+ */
+export async function runLeechesCommand(
+  service: LeechRemediationService,
+  recallSetRepo: RecallSetRepository,
+  recallPointRepo: RecallPointRepository,
+  setName: string,
+  options: LeechesCommandOptions = {}
+): Promise<void> {
+  const recallSet = await recallSetRepo.findByName(setName);
+  if (!recallSet) {
+    console.log(red(`Error: Recall set "${setName}" not found.`));
+    console.log(dim('Use "bun run cli list" to see available recall sets.'));
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    if (options.action) {
+      const point = await recallPointRepo.findById(options.action.pointId);
+      if (!point || point.recallSetId !== recallSet.id) {
+        console.log(red(`Error: Recall point "${options.action.pointId}" not found in "${setName}".`));
+        process.exitCode = 1;
+        return;
+      }
+      await applyAction(service, recallSet, options.action);
+      return;
+    }
+
+    printQueue(await service.getQueue(recallSet.id));
+  } catch (error) {
+    if (error instanceof LeechRemediationError) {
+      console.log(red(`Error: ${error.message}`));
+      process.exitCode = 1;
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Applies a remedy to a point and reports the result.
+ */
+async function applyAction(
+  service: LeechRemediationService,
+  recallSet: RecallSet,
+  action: LeechAction
+): Promise<void> {
+  switch (action.type) {
+    case 'suspend':
+      await service.suspend(action.pointId);
+      console.log(green('Suspended the point. It keeps its history but is no longer scheduled.'));
+      break;
+
+    case 'unsuspend':
+      await service.unsuspend(action.pointId);
+      console.log(green('The point is scheduled again.'));
+      break;
+
+    case 'deep-dive':
+      await service.requestDeepDive(action.pointId);
+      console.log(green('Marked the point for a deep dive.'));
+      console.log(dim(`Start it with: bun run cli session "${recallSet.name}" --deep-dive`));
+      break;
+
+    case 'split': {
+      console.log(dim('Asking for a split...'));
+      const parts = await service.proposeSplit(action.pointId);
+
+      printBlankLine();
+      console.log(bold('Proposed split:'));
+      parts.forEach((part, index) => {
+        console.log(`  ${cyan(`${index + 1}.`)} ${part.content}`);
+        if (part.context) {
+          console.log(dim(`     ${part.context}`));
+        }
+      });
+      printBlankLine();
+
+      if (!(await confirm(`Add these ${parts.length} points and suspend the original? [y/N] `))) {
+        console.log(dim('Nothing was changed.'));
+        return;
+      }
+      const { created } = await service.split(action.pointId, parts);
+      console.log(green(`Added ${created.length} points and suspended the original.`));
+      break;
+    }
+  }
+}
+
+/**
+ * Prints the remediation queue.
+ */
+function printQueue(queue: LeechQueue): void {
+  printBlankLine();
+  console.log(bold(cyan(`===== Leeches: ${queue.recallSetName} =====`)));
+  console.log(dim(`Flagged at ${queue.lapseThreshold} lapses, or 5+ reviews with stability under a week`));
+  printBlankLine();
+
+  if (queue.leeches.length === 0) {
+    console.log(green('No leeches. Every reviewed point is building memory.'));
+    printBlankLine();
+    return;
+  }
+
+  for (const { point, reasons } of queue.leeches) {
+    const { lapses, reps, stability } = point.fsrsState;
+    const marked = point.deepDiveRequestedAt ? ` ${yellow('[deep dive]')}` : '';
+    console.log(`  ${point.content}${marked}`);
+    console.log(
+      dim(
+        `    ${point.id} | ${reasons.map((reason) => REASON_LABELS[reason]).join(', ')} | ` +
+          `${lapses} lapse(s) in ${reps} review(s), stability ${stability.toFixed(1)}d`
+      )
+    );
+  }
+
+  console.log(formatSeparator(60));
+  console.log(dim('Remediate with --split, --suspend or --deep-dive <point-id>.'));
+  printBlankLine();
+}
+
+/**
+ * Asks a yes/no question on stdin; anything but "y" or "yes" is no.
+ */
+async function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise<string>((resolve) => rl.question(question, resolve));
+  rl.close();
+  return ['y', 'yes'].includes(answer.trim().toLowerCase());
+}
@@ -0,0 +1,177 @@
+/**
+ * Optimize Command Handler
+ *
+ * This module implements the `optimize` command, which fits FSRS weights to
+ * the review history in recall_outcomes and stores them, so future sessions
+ * schedule with weights that match how the learner actually remembers.
+ *
+ * The command prints predicted versus observed retention under the weights
+ * currently in use and under the fitted weights, overall and by predicted
+ * retrievability, so the improvement can be judged before relying on it.
+ *
+ * Without a set name the weights are fitted across every recall set and
+ * used for all sets without weights of their own. The CLI is a local admin
+ * tool, so these are the weights for data without an owner; web accounts
+ * fit their own through the API.
+ *
+ * Usage (via CLI):
+ * ```bash
+ * # Fit and store weights for all recall sets
+ * bun run cli optimize
+ *
+ * # Fit and store weights for one recall set
+ * bun run cli optimize "ATP Synthesis"
+ *
+ * # Show the report without storing anything
+ * bun run cli optimize "ATP Synthesis" --dry-run
+ *
+ * # Go back to the weights used before fitting
+ * bun run cli optimize "ATP Synthesis" --reset
+ * ```
+ */
+
+import {
+  FSRSOptimizationError,
+  type FSRSOptimizationReport,
+  type FSRSOptimizationService,
+  type RetentionReport,
+} from '../../core/fsrs';
+import type { RecallSetRepository } from '../../storage/repositories';
+import { bold, dim, green, yellow, red, cyan, formatSeparator, printBlankLine } from '../utils/terminal';
+
+/**
+ * Options parsed from the command line.
+ */
+export interface OptimizeCommandOptions {
+  /** Show the report without storing the fitted weights */
+  dryRun: boolean;
+  /** Delete the stored weights instead of fitting */
+  reset: boolean;
+}
+
+/**
+ * Human-readable descriptions of where weights come from.
+ */
+const SOURCE_LABELS: Record<FSRSOptimizationReport['current']['source'], string> = {
+  recall_set: 'fitted for this set',
+  user: 'fitted for all sets',
+  default: 'FSRS defaults',
+};
+
+/**
+ * Runs the optimize command.
+ *
+ * @param service - Optimization service (unscoped for the CLI)
+ * @param recallSetRepo - Used to resolve the set name
+ * @param setName - Recall set to fit, or undefined for all sets
+ * @param options - Command-line options
+ */
+export async function runOptimizeCommand(
+  service: FSRSOptimizationService,
+  recallSetRepo: RecallSetRepository,
+  setName: string | undefined,
+  options: OptimizeCommandOptions
+): Promise<void> {
+  let recallSetId: string | undefined;
+  if (setName) {
+    const recallSet = await recallSetRepo.findByName(setName);
+    if (!recallSet) {
+      console.log(red(`Error: Recall set "${setName}" not found.`));
+      console.log(dim('Use "bun run cli list" to see available recall sets.'));
+      process.exitCode = 1;
+      return;
+    }
+    recallSetId = recallSet.id;
+  }
+  const scopeLabel = setName ? `"${setName}"` : 'all recall sets';
+
+  try {
+    if (options.reset) {
+      const deleted = await service.reset(recallSetId);
+      console.log(
+        deleted
+          ? green(`Removed the fitted FSRS weights for ${scopeLabel}.`)
+          : yellow(`No fitted FSRS weights are stored for ${scopeLabel}.`)
+      );
+      return;
+    }
+
+    const report = options.dryRun
+      ? await service.report(recallSetId)
+      : (await service.optimize(recallSetId)).report;
+    printReport(report, scopeLabel);
+
+    if (options.dryRun) {
+      console.log(dim('Dry run: the fitted weights were not stored.'));
+    } else {
+      console.log(green(`Stored the fitted FSRS weights for ${scopeLabel}.`));
+      console.log(dim('Future sessions will schedule with them.'));
+    }
+    printBlankLine();
+  } catch (error) {
+    if (error instanceof FSRSOptimizationError) {
+      console.log(red(`Error: ${error.message}`));
+      process.exitCode = 1;
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Prints predicted versus observed retention before and after fitting.
+ */
+function printReport(report: FSRSOptimizationReport, scopeLabel: string): void {
+  const before = report.current.retention;
+  const after = report.fitted.retention;
+
+  printBlankLine();
+  console.log(bold(cyan('===== FSRS Optimization =====')));
+  printBlankLine();
+  console.log(`  Scope: ${bold(scopeLabel)}`);
+  console.log(`  History: ${report.outcomeCount} outcome(s) across ${report.pointCount} point(s)`);
+  console.log(`  Predicted reviews: ${bold(String(before.reviews))}`);
+  console.log(`  Current weights: ${SOURCE_LABELS[report.current.source]}`);
+  printBlankLine();
+
+  console.log(`  ${pad('', 22)}${pad('Before', 10)}${pad('After', 10)}`);
+  console.log(formatSeparator(60));
+  console.log(`  ${pad('Observed retention', 22)}${pad(percent(before.observedRetention), 10)}${percent(after.observedRetention)}`);
+  console.log(`  ${pad('Predicted retention', 22)}${pad(percent(before.predictedRetention), 10)}${percent(after.predictedRetention)}`);
+  console.log(`  ${pad('Log loss', 22)}${pad(before.logLoss.toFixed(3), 10)}${after.logLoss.toFixed(3)}`);
+  console.log(`  ${pad('RMSE (bins)', 22)}${pad(before.rmse.toFixed(3), 10)}${after.rmse.toFixed(3)}`);
+  console.log(formatSeparator(60));
+  printBlankLine();
+
+  printCalibration('Before fitting', before);
+  printCalibration('After fitting', after);
+}
+
+/**
+ * Prints observed retention for each band of predicted retrievability.
+ */
+function printCalibration(title: string, retention: RetentionReport): void {
+  console.log(bold(`  ${title}:`) + dim(' predicted -> observed (reviews)'));
+  for (const bin of retention.bins) {
+    const range = `${percent(bin.minPredicted)}-${percent(bin.maxPredicted)}`;
+    console.log(
+      `    ${pad(range, 12)}${pad(percent(bin.predictedRetention), 8)}-> ` +
+        `${pad(percent(bin.observedRetention), 8)}${dim(`(${bin.reviews})`)}`
+    );
+  }
+  printBlankLine();
+}
+
+/**
+ * Formats a 0-1 fraction as a whole percentage.
+ */
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Pads text to a column width.
+ */
+function pad(text: string, width: number): string {
+  return text.padEnd(width);
+}
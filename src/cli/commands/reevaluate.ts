@@ -0,0 +1,195 @@
+/**
+ * Reevaluate Command Handler
+ *
+ * This module implements the `reevaluate` command, which judges past recall
+ * attempts again with the current evaluator. Each recall outcome's slice of
+ * its session transcript is replayed through the evaluator, and the result
+ * is stored alongside the original outcome under the evaluation prompt's
+ * version. The command then reports how often the re-evaluations agree with
+ * the original judgments, and lists the attempts judged differently.
+ *
+ * Attempts the current version has already judged are skipped, so a large
+ * history can be worked through with `--limit` over several runs.
+ * `--reschedule` then replays each affected point's review history with the
+ * new ratings and stores the resulting FSRS state.
+ *
+ * Usage (via CLI):
+ * ```bash
+ * # Re-evaluate every recall set's history
+ * bun run cli reevaluate
+ *
+ * # Re-evaluate one set, 50 attempts at a time
+ * bun run cli reevaluate "ATP Synthesis" --limit 50
+ *
+ * # Show agreement so far without calling the evaluator
+ * bun run cli reevaluate "ATP Synthesis" --report
+ *
+ * # Re-evaluate and reschedule points from the new ratings
+ * bun run cli reevaluate "ATP Synthesis" --reschedule
+ * ```
+ */
+
+import {
+  ReEvaluationError,
+  type ReEvaluationReport,
+  type ReEvaluationService,
+  type ScheduleRecomputation,
+} from '../../core/scoring';
+import type { RecallSetRepository } from '../../storage/repositories';
+import { bold, dim, green, yellow, red, cyan, formatSeparator, printBlankLine } from '../utils/terminal';
+
+/**
+ * Options parsed from the command line.
+ */
+export interface ReevaluateCommandOptions {
+  /** Most attempts to re-evaluate in this run (no limit if undefined) */
+  limit?: number;
+  /** Re-evaluate attempts the current version has already judged */
+  force: boolean;
+  /** Only report agreement so far, without calling the evaluator */
+  reportOnly: boolean;
+  /** Recompute FSRS state from the re-evaluated ratings */
+  reschedule: boolean;
+}
+
+/**
+ * Most disagreements listed in the report.
+ */
+const MAX_LISTED_DISAGREEMENTS = 10;
+
+/**
+ * Runs the reevaluate command.
+ *
+ * @param service - Re-evaluation service (unscoped for the CLI)
+ * @param recallSetRepo - Used to resolve the set name
+ * @param setName - Recall set to re-evaluate, or undefined for all sets
+ * @param options - Command-line options
+ */
+export async function runReevaluateCommand(
+  service: ReEvaluationService,
+  recallSetRepo: RecallSetRepository,
+  setName: string | undefined,
+  options: ReevaluateCommandOptions
+): Promise<void> {
+  let recallSetId: string | undefined;
+  if (setName) {
+    const recallSet = await recallSetRepo.findByName(setName);
+    if (!recallSet) {
+      console.log(red(`Error: Recall set "${setName}" not found.`));
+      console.log(dim('Use "bun run cli list" to see available recall sets.'));
+      process.exitCode = 1;
+      return;
+    }
+    recallSetId = recallSet.id;
+  }
+  const scopeLabel = setName ? `"${setName}"` : 'all recall sets';
+
+  try {
+    const report = options.reportOnly
+      ? await service.report(recallSetId)
+      : await service.reEvaluate({ recallSetId, limit: options.limit, force: options.force });
+    printReport(report, scopeLabel, options.reportOnly);
+
+    if (options.reschedule) {
+      printRecomputation(await service.recomputeSchedules(recallSetId));
+    }
+  } catch (error) {
+    if (error instanceof ReEvaluationError) {
+      console.log(red(`Error: ${error.message}`));
+      process.exitCode = 1;
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Prints what was re-evaluated and how it compares with the originals.
+ */
+function printReport(report: ReEvaluationReport, scopeLabel: string, reportOnly: boolean): void {
+  const { agreement } = report;
+
+  printBlankLine();
+  console.log(bold(cyan('===== Re-evaluation =====')));
+  printBlankLine();
+  console.log(`  Scope: ${bold(scopeLabel)}`);
+  console.log(`  Evaluator version: ${bold(report.evaluatorVersion)}`);
+  console.log(`  Recall attempts: ${report.outcomeCount}`);
+  if (!reportOnly) {
+    console.log(`  Re-evaluated now: ${report.evaluatedCount}`);
+  }
+  if (report.missingTranscriptCount > 0) {
+    console.log(yellow(`  Transcript missing: ${report.missingTranscriptCount}`));
+  }
+  if (report.remainingCount > 0) {
+    console.log(dim(`  Not yet re-evaluated: ${report.remainingCount}`));
+  }
+  printBlankLine();
+
+  if (agreement.comparedCount === 0) {
+    console.log(dim('  No attempts have been re-evaluated by this version yet.'));
+    printBlankLine();
+    return;
+  }
+
+  console.log(formatSeparator(60));
+  console.log(`  Same verdict: ${bold(percent(agreement.successAgreementRate))} of ${agreement.comparedCount}`);
+  console.log(dim(`    ${agreement.successToFailureCount} now failed, ${agreement.failureToSuccessCount} now recalled`));
+  if (agreement.ratingComparedCount > 0) {
+    console.log(`  Same rating: ${bold(percent(agreement.ratingAgreementRate))} of ${agreement.ratingComparedCount}`);
+  }
+  const change = agreement.meanConfidenceChange;
+  console.log(`  Confidence change: ${change >= 0 ? '+' : ''}${change.toFixed(2)} on average`);
+  console.log(formatSeparator(60));
+  printBlankLine();
+
+  if (report.disagreements.length > 0) {
+    console.log(bold('  Judged differently:'));
+    for (const d of report.disagreements.slice(0, MAX_LISTED_DISAGREEMENTS)) {
+      const before = `${d.original.success ? 'recalled' : 'failed'}${d.original.rating ? ` (${d.original.rating})` : ''}`;
+      const after = `${d.reEvaluated.success ? 'recalled' : 'failed'} (${d.reEvaluated.rating})`;
+      console.log(`    ${dim(d.recallPointId)} ${before} -> ${after}`);
+      console.log(dim(`      ${d.reasoning}`));
+    }
+    if (report.disagreements.length > MAX_LISTED_DISAGREEMENTS) {
+      console.log(dim(`    ... and ${report.disagreements.length - MAX_LISTED_DISAGREEMENTS} more`));
+    }
+    printBlankLine();
+  }
+}
+
+/**
+ * Prints the points whose FSRS state was recomputed.
+ */
+function printRecomputation(result: ScheduleRecomputation): void {
+  if (result.updated.length === 0) {
+    console.log(dim('No point needed rescheduling.'));
+  } else {
+    console.log(green(`Rescheduled ${result.updated.length} point(s) from the re-evaluated ratings:`));
+    for (const point of result.updated) {
+      console.log(
+        `  ${dim(point.recallPointId)} due ${formatDate(point.previousDue)} -> ${formatDate(point.newDue)}`
+      );
+    }
+  }
+  if (result.skippedPointCount > 0) {
+    console.log(
+      yellow(`Left ${result.skippedPointCount} point(s) alone: their history predates recorded outcomes.`)
+    );
+  }
+  printBlankLine();
+}
+
+/**
+ * Formats a 0-1 fraction as a whole percentage.
+ */
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Formats a date as YYYY-MM-DD.
+ */
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
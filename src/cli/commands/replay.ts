@@ -35,9 +35,10 @@ import {
   SessionMetricsRepository,
   RecallOutcomeRepository,
   RabbitholeEventRepository,
+  sessionCoversRecallSet,
 } from '../../storage/repositories';
-import { eq, desc } from 'drizzle-orm';
-import { sessions } from '../../storage/schema';
+import { desc } from 'drizzle-orm';
+import { sessions } from '../../storage/tables';
 import {
   bold,
   dim,
@@ -58,7 +59,7 @@ import {
  * - Start date and time
  * - Duration (if metrics available)
  * - Recall rate percentage (if metrics available)
- * - Status (completed, abandoned, or in_progress)
+ * - Status (completed, abandoned, or in_progress), tagged if practice or a deep dive
  *
  * @param setName - Name of the recall set to list sessions for (case-insensitive)
  * @param limit - Maximum number of sessions to display (default: 10)
@@ -78,12 +79,13 @@ export async function listSessions(setName: string, limit: number): Promise<void
     process.exit(1);
   }
 
-  // Query sessions for this recall set, ordered by most recent first
+  // Query sessions for this recall set (including daily reviews that covered
+  // it), ordered by most recent first
   // We use a raw query with the schema since SessionRepository doesn't have findByRecallSetId
   const sessionResults = await db
     .select()
     .from(sessions)
-    .where(eq(sessions.recallSetId, recallSet.id))
+    .where(sessionCoversRecallSet(db, recallSet.id))
     .orderBy(desc(sessions.startedAt))
     .limit(limit);
 
@@ -148,9 +150,12 @@ export async function listSessions(setName: string, limit: number): Promise<void
         statusDisplay = session.status;
     }
 
+    // Tag practice sessions, which didn't change the review schedule, and deep dives
+    const modeDisplay = session.mode === 'review' ? '' : ` | ${cyan(session.mode === 'practice' ? 'practice' : 'deep dive')}`;
+
     // Display the session row
     console.log(`  ${dim(shortId)}`);
-    console.log(`    ${dateStr} ${timeStr} | ${duration.padEnd(8)} | Recall: ${recallRate.padEnd(6)} | ${statusDisplay}`);
+    console.log(`    ${dateStr} ${timeStr} | ${duration.padEnd(8)} | Recall: ${recallRate.padEnd(6)} | ${statusDisplay}${modeDisplay}`);
     printBlankLine();
   }
 
@@ -223,6 +228,11 @@ export async function replaySession(sessionId: string): Promise<void> {
       statusDisplay = session.status;
   }
   console.log(`${bold('Status:')} ${statusDisplay}`);
+  if (session.mode === 'practice') {
+    console.log(`${bold('Mode:')} ${cyan('Practice')} ${dim('(review schedule unchanged)')}`);
+  } else if (session.mode === 'deep-dive') {
+    console.log(`${bold('Mode:')} ${cyan('Deep dive')} ${dim('(points marked in the leech queue)')}`);
+  }
 
   // Display metrics if available
   if (metrics) {
@@ -8,8 +8,10 @@
  * 2. Initializing the session engine
  * 3. Displaying the opening message from the AI tutor
  * 4. Running the interactive conversation loop
- * 5. Handling special commands (/quit, /eval, /help, /status)
- * 6. Processing session completion or abandonment
+ * 5. Handling special commands (/quit, /eval, /hint, /skip, /show, /defer,
+ *    /undo, /note, /explore, /return, /help, /status)
+ * 6. Offering each evaluation's rating to the learner to keep or override
+ * 7. Processing session completion or abandonment
  *
  * The session uses Node's readline module for interactive input, providing
  * a natural conversational interface between the user and AI tutor.
@@ -17,6 +19,8 @@
  * Usage (via CLI):
  * ```bash
  * bun run cli session "ATP Synthesis"
+ * bun run cli session "ATP Synthesis" --practice
+ * bun run cli review
  * ```
  *
  * The session will display the tutor's opening question and wait for user input.
@@ -25,6 +29,9 @@
 
 import * as readline from 'readline';
 import type { SessionEngine } from '../../core/session/session-engine';
+import type { SessionMode } from '../../core/models';
+import type { RecallRating } from '../../core/fsrs/types';
+import { DAILY_REVIEW_NAME, type ProcessMessageResult, type RatingProposal } from '../../core/session/types';
 import type { RecallSetRepository } from '../../storage/repositories/recall-set.repository';
 import {
   bold,
@@ -50,9 +57,14 @@ import {
  * 4. Enters an interactive loop for user input
  * 5. Handles session completion or early exit
  *
+ * A practice session studies any of the set's points, due or not, and
+ * leaves their review schedules unchanged. A deep-dive session studies the
+ * points marked for one with the `leeches` command, at a slower pace.
+ *
  * @param engine - The SessionEngine instance for managing session state
  * @param recallSetRepo - Repository for looking up recall sets
  * @param setName - Name of the recall set to study (case-insensitive)
+ * @param options - Session options; `mode` defaults to 'review'
  *
  * @example
  * ```typescript
@@ -61,13 +73,19 @@ import {
  *
  * // Start an interactive session
  * await runSessionCommand(engine, recallSetRepo, 'ATP Synthesis');
+ *
+ * // Practice without affecting the review schedule
+ * await runSessionCommand(engine, recallSetRepo, 'ATP Synthesis', { mode: 'practice' });
  * ```
  */
 export async function runSessionCommand(
   engine: SessionEngine,
   recallSetRepo: RecallSetRepository,
-  setName: string
+  setName: string,
+  options: { mode?: SessionMode } = {}
 ): Promise<void> {
+  const mode = options.mode ?? 'review';
+
   // Step 1: Find the recall set by name (case-insensitive search)
   const recallSet = await recallSetRepo.findByName(setName);
 
@@ -90,18 +108,81 @@ export async function runSessionCommand(
   try {
     // Start the session - the engine returns the session object
     // We don't need to store it as the engine maintains internal state
-    await engine.startSession(recallSet);
+    await engine.startSession(recallSet, { mode });
   } catch (error) {
     // Handle the case where no recall points are due for review
     if (error instanceof Error && error.message.includes('No recall points are due')) {
       console.log(yellow(`\nNo recall points are due for review in "${recallSet.name}".`));
-      console.log(dim('Check back later when points become due.'));
+      console.log(dim('Check back later when points become due, or practice with --practice.'));
+      process.exit(0);
+    }
+    // Handle practice on a set without any points
+    if (error instanceof Error && error.message.includes('no recall points to practice')) {
+      console.log(yellow(`\nRecall set "${recallSet.name}" has no recall points to practice.`));
+      process.exit(0);
+    }
+    // Handle a deep dive with nothing marked for one
+    if (error instanceof Error && error.message.includes('marked for a deep dive')) {
+      console.log(yellow(`\nNo recall points in "${recallSet.name}" are marked for a deep dive.`));
+      console.log(dim(`Mark one with: bun run cli leeches "${recallSet.name}" --deep-dive <point-id>`));
       process.exit(0);
     }
     // Re-throw unexpected errors
     throw error;
   }
 
+  await runStartedSession(engine, recallSet.name);
+}
+
+/**
+ * Runs an interactive daily review: one session over the most urgent due
+ * points of every active recall set. Each point is discussed with its own
+ * set's prompt, and its outcome is recorded against its own set.
+ *
+ * @param engine - The SessionEngine instance for managing session state
+ * @param recallSetRepo - Repository for loading the recall sets, scoped to
+ *                        the reviewer's sets
+ *
+ * @example
+ * ```typescript
+ * await runDailyReviewCommand(engine, new RecallSetRepository(db, userId));
+ * ```
+ */
+export async function runDailyReviewCommand(
+  engine: SessionEngine,
+  recallSetRepo: RecallSetRepository
+): Promise<void> {
+  // Start or resume the daily review across all recall sets (the engine
+  // skips sets that aren't active)
+  try {
+    await engine.startDailyReview(await recallSetRepo.findAll());
+  } catch (error) {
+    // Handle the case where nothing is due in any set
+    if (error instanceof Error && error.message.includes('No recall points are due')) {
+      console.log(yellow('\nNo recall points are due for review in any active recall set.'));
+      console.log(dim('Check back later when points become due.'));
+      process.exit(0);
+    }
+    // Handle the case where only new points are due, past today's limits
+    if (error instanceof Error && error.message.includes('limits have been reached')) {
+      console.log(yellow("\nToday's new recall point limits have been reached."));
+      console.log(dim('Check back later when points become due.'));
+      process.exit(0);
+    }
+    throw error;
+  }
+
+  await runStartedSession(engine, DAILY_REVIEW_NAME);
+}
+
+/**
+ * Shows the banner and the tutor's opening message for a session the engine
+ * has just started or resumed, then hands over to the conversation loop.
+ *
+ * @param engine - The SessionEngine with the started session
+ * @param title - Name shown in the session banner
+ */
+async function runStartedSession(engine: SessionEngine, title: string): Promise<void> {
   // Get session state to display progress information
   const sessionState = engine.getSessionState();
   if (!sessionState) {
@@ -110,7 +191,14 @@ export async function runSessionCommand(
   }
 
   // Display the session welcome banner
-  printSessionBanner(recallSet.name, sessionState.totalPoints);
+  printSessionBanner(title, sessionState.totalPoints);
+  if (sessionState.session.mode === 'practice') {
+    console.log(dim('  Practice session: outcomes are recorded, review schedules are left unchanged.'));
+    printBlankLine();
+  } else if (sessionState.session.mode === 'deep-dive') {
+    console.log(dim('  Deep dive: take your time with each point; it is rescheduled as in a review.'));
+    printBlankLine();
+  }
 
   // Step 3: Get and display the opening message from the tutor
   console.log(formatProgress(sessionState.currentPointIndex, sessionState.totalPoints));
@@ -131,6 +219,7 @@ export async function runSessionCommand(
  * - Processes each line of input
  * - Handles slash commands for session control
  * - Sends user messages to the session engine
+ * - Asks the learner to keep or override each evaluation's rating
  * - Displays tutor responses
  * - Continues until session completes or user quits
  *
@@ -146,6 +235,9 @@ async function runInteractiveLoop(engine: SessionEngine): Promise<void> {
     prompt: bold('You: '),
   });
 
+  // Ask the learner about each rating before the point is scheduled
+  engine.setRatingOverrideHandler((proposal) => askRatingOverride(rl, proposal));
+
   // Flag to track if we're currently processing a message
   // Prevents multiple concurrent processing which could corrupt session state
   let isProcessing = false;
@@ -202,6 +294,12 @@ async function runInteractiveLoop(engine: SessionEngine): Promise<void> {
       console.log(formatTutorMessage(result.response));
       printBlankLine();
 
+      // Saying "I don't know" climbs the hint ladder
+      if (result.hint) {
+        console.log(dim(`Hint ${result.hint.level} - ${result.hint.hintsRemaining} left for this point.`));
+        printBlankLine();
+      }
+
       // Check if the session has completed
       if (result.completed) {
         printSessionComplete(result.totalPoints);
@@ -261,12 +359,65 @@ async function runInteractiveLoop(engine: SessionEngine): Promise<void> {
   });
 }
 
+/**
+ * Ratings in the order the learner picks them by number.
+ */
+const RATING_CHOICES: RecallRating[] = ['forgot', 'hard', 'good', 'easy'];
+
+/**
+ * Shows the evaluation of the current point and asks the learner whether
+ * to keep its rating. The learner may answer with a rating's number or
+ * name; an empty or unrecognized answer keeps the AI's rating.
+ *
+ * @param rl - The readline interface of the session
+ * @param proposal - The evaluation and the rating derived from it
+ * @returns The learner's rating, or null to keep the AI's
+ */
+async function askRatingOverride(
+  rl: readline.Interface,
+  proposal: RatingProposal
+): Promise<RecallRating | null> {
+  const verdict = proposal.success ? 'Recalled' : 'Not recalled';
+  const hints = proposal.hintsUsed > 0 ? `, ${proposal.hintsUsed} hint(s)` : '';
+  printBlankLine();
+  console.log(
+    dim(`${verdict} (${Math.round(proposal.confidence * 100)}% confidence${hints}) - rated `) +
+      yellow(proposal.rating)
+  );
+
+  const choices = RATING_CHOICES.map((rating, i) => `${i + 1} ${rating}`).join(', ');
+  const answer = await new Promise<string>((resolve) =>
+    rl.question(dim(`Enter to keep, or override (${choices}): `), resolve)
+  );
+
+  const normalized = answer.trim().toLowerCase();
+  if (normalized === '') {
+    return null;
+  }
+  const rating =
+    RATING_CHOICES[Number(normalized) - 1] ??
+    RATING_CHOICES.find((choice) => choice === normalized);
+  if (!rating) {
+    console.log(dim(`Keeping '${proposal.rating}'.`));
+    return null;
+  }
+  return rating;
+}
+
 /**
  * Handles slash commands entered by the user.
  *
  * Supported commands:
  * - /quit - Abandon the session and exit
  * - /eval - Manually trigger evaluation of current recall point
+ * - /hint - Get the next hint on the current recall point
+ * - /skip - Move on without rating or rescheduling the current point
+ * - /show - Show the current point and schedule it as forgotten
+ * - /defer <days> - Put the current point off for some days and move on
+ * - /undo - Retract the last message and the tutor's reply
+ * - /note <text> - Save a note on the session
+ * - /explore [topic] - Explore a tangent, with the point's timer paused
+ * - /return - Return from the tangent to the point, with a recap
  * - /help - Display available commands
  * - /status - Show current session progress
  *
@@ -282,6 +433,7 @@ async function handleSlashCommand(
 ): Promise<'quit' | undefined> {
   // Normalize command to lowercase and extract the base command
   const normalizedCommand = command.toLowerCase().split(' ')[0];
+  const argument = command.slice(normalizedCommand.length).trim();
 
   switch (normalizedCommand) {
     case '/quit':
@@ -318,6 +470,127 @@ async function handleSlashCommand(
       }
       return undefined;
 
+    case '/hint':
+      // Give the next hint on the current recall point
+      try {
+        const hint = await engine.requestHint();
+        printBlankLine();
+        if (hint) {
+          console.log(formatTutorMessage(hint.hint));
+          printBlankLine();
+          console.log(dim(`Hint ${hint.level} - ${hint.hintsRemaining} left for this point.`));
+        } else {
+          console.log(yellow('No more hints for this point - /eval to move on.'));
+        }
+        printBlankLine();
+      } catch (error) {
+        console.log(red('Error getting a hint:'));
+        console.log(dim(error instanceof Error ? error.message : 'Unknown error'));
+      }
+      return undefined;
+
+    case '/skip':
+      // Move on without rating or rescheduling the current point
+      try {
+        return printMoveOnResult(await engine.skipPoint(), rl);
+      } catch (error) {
+        console.log(red('Error skipping the point:'));
+        console.log(dim(error instanceof Error ? error.message : 'Unknown error'));
+      }
+      return undefined;
+
+    case '/show':
+    case '/reveal':
+      // Show the current point; it's scheduled as forgotten
+      try {
+        return printMoveOnResult(await engine.revealPoint(), rl);
+      } catch (error) {
+        console.log(red('Error showing the point:'));
+        console.log(dim(error instanceof Error ? error.message : 'Unknown error'));
+      }
+      return undefined;
+
+    case '/defer': {
+      // Put the current point off for the given number of days
+      const days = Number(argument);
+      if (!argument || !Number.isInteger(days) || days < 1) {
+        console.log(yellow('Usage: /defer <days>, e.g. /defer 3'));
+        return undefined;
+      }
+      try {
+        console.log(dim(`\nPutting this point off for ${days} day(s).`));
+        return printMoveOnResult(await engine.deferPoint(days), rl);
+      } catch (error) {
+        console.log(red('Error deferring the point:'));
+        console.log(dim(error instanceof Error ? error.message : 'Unknown error'));
+      }
+      return undefined;
+    }
+
+    case '/undo': {
+      // Retract the learner's last message and the tutor's reply
+      try {
+        const undone = await engine.undoLastMessage();
+        if (undone) {
+          console.log(dim(`\nRetracted "${undone.content}" - answer again when ready.`));
+          printBlankLine();
+        } else {
+          console.log(yellow('Nothing to undo on this point.'));
+        }
+      } catch (error) {
+        console.log(red('Error undoing the message:'));
+        console.log(dim(error instanceof Error ? error.message : 'Unknown error'));
+      }
+      return undefined;
+    }
+
+    case '/note':
+      // Save a note on the session, attached to the latest message
+      if (!argument) {
+        console.log(yellow('Usage: /note <text>'));
+        return undefined;
+      }
+      try {
+        await engine.addNote(argument);
+        console.log(dim('Note saved.'));
+      } catch (error) {
+        console.log(red('Error saving the note:'));
+        console.log(dim(error instanceof Error ? error.message : 'Unknown error'));
+      }
+      return undefined;
+
+    case '/explore': {
+      // Step aside to explore a tangent; defaults to the last message
+      try {
+        const tangent = await engine.exploreTangent(argument || undefined);
+        printBlankLine();
+        console.log(yellow(`Exploring: ${tangent.topic}`));
+        console.log(dim('The timer for this point is paused. Type /return to get back to it.'));
+        printBlankLine();
+        console.log(formatTutorMessage(tangent.response));
+        printBlankLine();
+      } catch (error) {
+        console.log(red('Error opening the tangent:'));
+        console.log(dim(error instanceof Error ? error.message : 'Unknown error'));
+      }
+      return undefined;
+    }
+
+    case '/return':
+      // Back from the tangent to the current point, with a recap
+      try {
+        const tangent = await engine.returnFromTangent();
+        printBlankLine();
+        console.log(dim(`Back from "${tangent.topic}".`));
+        printBlankLine();
+        console.log(formatTutorMessage(tangent.response));
+        printBlankLine();
+      } catch (error) {
+        console.log(red('Error returning from the tangent:'));
+        console.log(dim(error instanceof Error ? error.message : 'Unknown error'));
+      }
+      return undefined;
+
     case '/help':
     case '/h':
     case '/?':
@@ -336,6 +609,9 @@ async function handleSlashCommand(
         console.log(`  Progress: ${formatProgress(state.currentPointIndex, state.totalPoints)}`);
         console.log(`  Current Point: ${dim(state.currentPoint.content.substring(0, 80))}...`);
         console.log(`  Messages: ${state.messageCount}`);
+        if (state.exploringTangent) {
+          console.log(`  Exploring: ${yellow(state.exploringTangent.topic)} ${dim('(/return to go back)')}`);
+        }
         printBlankLine();
       } else {
         console.log(red('No active session.'));
@@ -349,3 +625,33 @@ async function handleSlashCommand(
       return undefined;
   }
 }
+
+/**
+ * Prints the outcome of a command that moves on from the current point
+ * (/skip, /show or /defer): the tutor's response, then progress or the
+ * session's completion.
+ *
+ * @param result - The engine's result for the command
+ * @param rl - The readline interface (for closing on completion)
+ * @returns 'quit' if the session completed, undefined otherwise
+ */
+function printMoveOnResult(
+  result: ProcessMessageResult,
+  rl: readline.Interface
+): 'quit' | undefined {
+  printBlankLine();
+  console.log(formatTutorMessage(result.response));
+  printBlankLine();
+
+  if (result.completed) {
+    printSessionComplete(result.totalPoints);
+    rl.close();
+    return 'quit';
+  }
+
+  if (result.pointAdvanced) {
+    console.log(formatProgress(result.currentPointIndex, result.totalPoints));
+    printBlankLine();
+  }
+  return undefined;
+}
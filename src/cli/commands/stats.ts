@@ -17,6 +17,7 @@
  * Usage (via CLI):
  * ```bash
  * bun run cli stats "ATP Synthesis"
+ * bun run cli stats "ATP Synthesis" --review-only
  * ```
  *
  * The command will display a well-formatted report with colored output for
@@ -32,6 +33,7 @@ import { SessionMetricsRepository } from '../../storage/repositories/session-met
 import { RecallOutcomeRepository } from '../../storage/repositories/recall-outcome.repository';
 import { RabbitholeEventRepository } from '../../storage/repositories/rabbithole-event.repository';
 import type { RecallSetAnalytics, RecallPointAnalytics, TrendData } from '../../core/analytics';
+import type { SessionMode } from '../../core/models';
 import {
   bold,
   dim,
@@ -74,6 +76,8 @@ const TREND_DAYS = 7;
  *
  * @param db - The database connection to use for queries
  * @param recallSetName - Name of the recall set to analyze (case-insensitive)
+ * @param options - `mode` limits the report to sessions of that mode, e.g.
+ *                  'review' to leave practice sessions out
  *
  * @example
  * ```typescript
@@ -83,7 +87,8 @@ const TREND_DAYS = 7;
  */
 export async function runStatsCommand(
   db: AppDatabase,
-  recallSetName: string
+  recallSetName: string,
+  options: { mode?: SessionMode } = {}
 ): Promise<void> {
   // Step 1: Create repositories for data access
   const recallSetRepo = new RecallSetRepository(db);
@@ -112,7 +117,7 @@ export async function runStatsCommand(
   );
 
   // Step 4: Calculate comprehensive analytics for the recall set
-  const analytics = await analyticsCalc.calculateRecallSetAnalytics(recallSet.id);
+  const analytics = await analyticsCalc.calculateRecallSetAnalytics(recallSet.id, options.mode);
 
   // Step 5: Display the formatted statistics report
   displayStatsReport(analytics);
@@ -165,6 +170,7 @@ function displayStatsReport(analytics: RecallSetAnalytics): void {
  *
  * Shows:
  * - Recall set name
+ * - Which sessions are counted, if limited to one mode
  * - Total number of sessions
  * - Total time spent studying
  * - Total API cost
@@ -177,6 +183,9 @@ function displayOverviewSection(analytics: RecallSetAnalytics): void {
 
   // Display recall set name
   console.log(`  Set: ${bold(analytics.recallSetName)}`);
+  if (analytics.sessionMode) {
+    console.log(`  Sessions: ${analytics.sessionMode} only`);
+  }
 
   // Display total sessions (handle zero sessions case)
   const sessionsDisplay =
@@ -200,6 +209,7 @@ function displayOverviewSection(analytics: RecallSetAnalytics): void {
  * Shows:
  * - Overall recall rate as a percentage
  * - Average engagement score out of 100
+ * - How often the AI's ratings were overridden, once there are any
  *
  * If there are no sessions yet, displays a friendly message
  * encouraging the user to start their first session.
@@ -228,6 +238,16 @@ function displayPerformanceSection(analytics: RecallSetAnalytics): void {
   const engagementColor = getPerformanceColor(analytics.avgEngagementScore / 100);
   console.log(`  Average Engagement: ${engagementColor(`${engagementDisplay}/100`)}`);
 
+  // Display how often the learner overrode the AI's rating
+  const { ratedCount, overriddenCount, overrideRate, learnerHigherCount, learnerLowerCount } =
+    analytics.ratingOverrides;
+  if (ratedCount > 0) {
+    console.log(
+      `  Rating Overrides: ${overriddenCount} of ${ratedCount} (${(overrideRate * 100).toFixed(1)}%)` +
+        (overriddenCount > 0 ? dim(` - ${learnerHigherCount} higher, ${learnerLowerCount} lower than the AI`) : '')
+    );
+  }
+
   printBlankLine();
 }
 
@@ -7,11 +7,20 @@
  *
  * Available Commands:
  * - `session <name>` - Start an interactive recall session for a recall set
+ * - `review [--user <email>]` - Start a daily review across your active recall sets
+ * - `ingest <file>` - Create a recall set from a markdown or text file
+ * - `import <file>` - Import an Anki deck or recall set bundle into a recall set
  * - `list` - List all available recall sets
  * - `stats <name>` - Display recall statistics for a recall set
- * - `export ...` - Export data to JSON or CSV files
+ * - `leeches <name>` - List and remediate the points a recall set keeps forgetting
+ * - `optimize [name]` - Fit FSRS weights to review history
+ * - `reevaluate [name]` - Judge past recall attempts again with the current evaluator
+ * - `benchmark <dataset>` - Measure the evaluator against a labelled calibration dataset
+ * - `experiment [id]` - List prompt versions and experiments, or compare an experiment's variants
+ * - `export ...` - Export data to JSON or CSV files, or a set's points for study
  * - `sessions <name>` - List recent sessions for a recall set
  * - `replay <id>` - Replay a past session transcript
+ * - `claim <email>` - Give recall sets and sessions without an owner to a user
  * - (no args) - Show help with available commands
  *
  * Usage:
@@ -19,11 +28,45 @@
  * # Start a session for a specific recall set
  * bun run cli session "ATP Synthesis"
  *
+ * # Practice a set without changing its review schedule
+ * bun run cli session "ATP Synthesis" --practice
+ *
+ * # Study the points marked for a deep dive
+ * bun run cli session "ATP Synthesis" --deep-dive
+ *
+ * # Also evaluate when the learner says a phrase like "next" or "got it"
+ * bun run cli session "ATP Synthesis" --eval-phrases
+ *
+ * # Review the most urgent due points of every active recall set
+ * bun run cli review
+ *
+ * # Create a recall set from notes (or resume an unfinished ingestion)
+ * bun run cli ingest notes/atp-synthesis.md
+ * bun run cli ingest --resume
+ *
+ * # Import an Anki deck (preview first with --dry-run)
+ * bun run cli import Biology.apkg [--dry-run] [--name "Set name" | --into "Existing set"]
+ *
  * # List all available recall sets
  * bun run cli list
  *
- * # Show statistics for a recall set
- * bun run cli stats "ATP Synthesis"
+ * # Show statistics for a recall set (optionally leaving out practice sessions)
+ * bun run cli stats "ATP Synthesis" [--review-only]
+ *
+ * # List a recall set's leeches, or remediate one
+ * bun run cli leeches "ATP Synthesis" [--split | --suspend | --unsuspend | --deep-dive <point-id>]
+ *
+ * # Fit FSRS weights to review history (all sets, or one set)
+ * bun run cli optimize ["ATP Synthesis"] [--dry-run | --reset]
+ *
+ * # Re-evaluate past recall attempts with the current evaluator
+ * bun run cli reevaluate ["ATP Synthesis"] [--limit 50] [--force] [--report] [--reschedule]
+ *
+ * # Benchmark the evaluator against human labels (offline with LLM_PROVIDER=replay)
+ * bun run cli benchmark data/calibration/cell-biology.json [--json] [--prompt-version enhanced-v1]
+ *
+ * # List prompt versions and experiments, or compare an experiment's variants
+ * bun run cli experiment [tutor-length-2026-10] [--json]
  *
  * # Export session data
  * bun run cli export session <session-id> [--format json|csv] [--output file]
@@ -34,12 +77,18 @@
  * # Export analytics summary
  * bun run cli export analytics "ATP Synthesis" [--format json|csv]
  *
+ * # Export a recall set's points for Anki, as Markdown, or as a re-importable bundle
+ * bun run cli export content "ATP Synthesis" [--format anki|markdown|bundle]
+ *
  * # List recent sessions for a recall set
  * bun run cli sessions "ATP Synthesis"
  *
  * # Replay a past session transcript
  * bun run cli replay <session-id>
  *
+ * # Make CLI-created recall sets visible to a web account
+ * bun run cli claim ada@example.com
+ *
  * # Show help
  * bun run cli
  * ```
@@ -51,22 +100,54 @@
  * - Configures the SessionEngine with all dependencies
  *
  * Dependencies are created once at startup and reused throughout the session.
+ *
+ * The CLI is a local admin tool: it sees every user's data, and recall sets
+ * and sessions it creates have no owner until claimed. A daily review is the
+ * exception, as it gathers points from many sets: it only covers the sets
+ * without an owner, or those of the account given with --user.
  */
 
 import { createDatabase } from '../storage/db';
-import { getDatabaseURL, isDebugMode } from '../config';
+import { getDatabaseURL, getPromptExperimentPath, isDebugMode } from '../config';
 import {
   RecallSetRepository,
   RecallPointRepository,
   SessionRepository,
   SessionMessageRepository,
+  IngestionSourceRepository,
+  IngestionJobRepository,
+  UserRepository,
+  RecallOutcomeRepository,
+  FSRSParametersRepository,
+  SessionMetricsRepository,
+  OutcomeEvaluationRepository,
+  SessionAnnotationRepository,
+  RabbitholeEventRepository,
+  TangentCandidateRepository,
 } from '../storage/repositories';
 import { SessionEngine } from '../core/session/session-engine';
-import { FSRSScheduler } from '../core/fsrs/scheduler';
-import { AnthropicClient } from '../llm/client';
+import { SessionMetricsCollector } from '../core/session/metrics-collector';
+import { FSRSScheduler, FSRSOptimizationService } from '../core/fsrs';
+import { createLLMProvider } from '../llm/provider-factory';
+import { ReplayLLMProvider } from '../llm/replay-provider';
+import { RecordingLLMProvider } from '../llm/recording-provider';
+import type { LLMProvider } from '../llm/types';
 import { RecallEvaluator } from '../core/scoring/recall-evaluator';
-import { runSessionCommand } from './commands/session';
+import { ReEvaluationService } from '../core/scoring';
+import { IngestionService } from '../core/ingestion';
+import { TangentFollowUpService } from '../core/analysis';
+import { LeechRemediationService } from '../core/leeches';
+import { loadPromptExperiment, PromptExperimentError, type PromptExperiment } from '../core/experiments';
+import { AnkiImportService, BundleImportService } from '../core/import';
+import { runSessionCommand, runDailyReviewCommand } from './commands/session';
 import { runStatsCommand } from './commands/stats';
+import { runLeechesCommand, type LeechAction } from './commands/leeches';
+import { runIngestCommand, runIngestResumeCommand } from './commands/ingest';
+import { runImportCommand } from './commands/import';
+import { runOptimizeCommand } from './commands/optimize';
+import { runReevaluateCommand } from './commands/reevaluate';
+import { runBenchmarkCommand } from './commands/benchmark';
+import { runExperimentCommand } from './commands/experiment';
 import { listSessions, replaySession } from './commands/replay';
 import { createExportCommand } from './commands/export';
 import { bold, dim, green, yellow, red, formatSeparator, printBlankLine } from './utils/terminal';
@@ -111,30 +192,35 @@ async function main(): Promise<void> {
     case 'session':
     case 'start':
     case 's':
-      // Session command requires a recall set name
-      const setName = args.slice(1).join(' ');
-      if (!setName) {
+    case 'review':
+    case 'daily':
+      // Session command requires a recall set name; a daily review spans all sets
+      const isDailyReview = command === 'review' || command === 'daily';
+      const isPractice = args.includes('--practice');
+      const isDeepDive = args.includes('--deep-dive');
+      const evaluateOnTriggerPhrases = args.includes('--eval-phrases');
+      const setName = args
+        .slice(1)
+        .filter((arg) => arg !== '--practice' && arg !== '--deep-dive' && arg !== '--eval-phrases')
+        .join(' ');
+
+      // A daily review spans the reviewer's sets only: the unowned sets the
+      // CLI creates (null), or those of the account given with --user
+      const reviewerId = isDailyReview ? await resolveReviewerOrExit(new UserRepository(db), args) : undefined;
+      const engineRecallSetRepo =
+        reviewerId === undefined ? recallSetRepo : new RecallSetRepository(db, reviewerId);
+      const engineSessionRepo = reviewerId === undefined ? sessionRepo : new SessionRepository(db, reviewerId);
+      if (!isDailyReview && !setName) {
         console.log(red('Error: Recall set name is required.'));
-        console.log(dim('Usage: bun run cli session <recall-set-name>'));
+        console.log(dim('Usage: bun run cli session <recall-set-name> [--practice | --deep-dive] [--eval-phrases]'));
         console.log(dim('Example: bun run cli session "ATP Synthesis"'));
         process.exit(1);
       }
 
       // Initialize LLM client and dependent services
       // These are created here (not at top level) to delay API key validation
-      // until we actually need them - allows 'list' command without API key
-      let llmClient: AnthropicClient;
-      try {
-        llmClient = new AnthropicClient();
-      } catch (error) {
-        if (error instanceof Error && error.message.includes('ANTHROPIC_API_KEY')) {
-          console.log(red('Error: ANTHROPIC_API_KEY environment variable is not set.'));
-          console.log(dim('Get your API key at: https://console.anthropic.com/'));
-          console.log(dim('Then set it: export ANTHROPIC_API_KEY=your-key-here'));
-          process.exit(1);
-        }
-        throw error;
-      }
+      // until we actually need them - allows 'list' command without API key.
+      const llmClient = createLLMProviderOrExit();
 
       // Create the FSRS scheduler for spaced repetition calculations
       const scheduler = new FSRSScheduler();
@@ -142,21 +228,118 @@ async function main(): Promise<void> {
       // Create the recall evaluator for assessing user recall
       const evaluator = new RecallEvaluator(llmClient);
 
+      const rabbitholeRepo = new RabbitholeEventRepository(db);
+
       // Create the session engine with all dependencies injected
-      // This is the central orchestrator for recall sessions
+      // This is the central orchestrator for recall sessions; it records
+      // each evaluation's outcome, with the AI's and the learner's ratings
       const engine = new SessionEngine({
         scheduler,
         evaluator,
         llmClient,
-        recallSetRepo,
+        recallSetRepo: engineRecallSetRepo,
         recallPointRepo,
-        sessionRepo,
+        sessionRepo: engineSessionRepo,
         messageRepo,
-      });
+        fsrsParametersRepo: new FSRSParametersRepository(db),
+        metricsCollector: new SessionMetricsCollector(),
+        metricsRepo: new SessionMetricsRepository(db),
+        recallOutcomeRepo: new RecallOutcomeRepository(db),
+        annotationRepo: new SessionAnnotationRepository(db),
+        // Tangents explored with /explore are recorded as rabbitholes, which
+        // are proposed as recall points for review in the web app
+        rabbitholeRepo,
+        tangentFollowUp: new TangentFollowUpService({
+          sessionRepo: engineSessionRepo,
+          messageRepo,
+          rabbitholeRepo,
+          tangentRepo: new TangentCandidateRepository(db),
+          recallSetRepo: engineRecallSetRepo,
+          recallPointRepo,
+          scheduler,
+          llmClient,
+        }),
+        promptExperiment: loadPromptExperimentOrExit(),
+      }, { evaluateOnTriggerPhrases });
 
       // Run the interactive session
-      await runSessionCommand(engine, recallSetRepo, setName);
+      if (isDailyReview) {
+        await runDailyReviewCommand(engine, engineRecallSetRepo);
+      } else {
+        await runSessionCommand(engine, recallSetRepo, setName, {
+          mode: isDeepDive ? 'deep-dive' : isPractice ? 'practice' : 'review',
+        });
+      }
+
+      // Cassette modes: report where the recording went, or how the replay diverged
+      if (llmClient instanceof RecordingLLMProvider) {
+        console.log(dim(`Recorded ${llmClient.getCassette().entries.length} LLM calls to ${llmClient.getCassettePath()}`));
+      } else if (llmClient instanceof ReplayLLMProvider) {
+        printReplayReport(llmClient);
+      }
+      break;
+
+    case 'ingest':
+    case 'i': {
+      // Ingest requires a file path, or --resume to continue an unfinished job
+      const resumeIdx = args.indexOf('--resume');
+      const ingestPath = args.slice(1).join(' ');
+      if (resumeIdx === -1 && !ingestPath) {
+        console.log(red('Error: File path is required.'));
+        console.log(dim('Usage: bun run cli ingest <file.md|file.txt>'));
+        console.log(dim('       bun run cli ingest --resume [job-id]'));
+        process.exit(1);
+      }
+
+      const ingestionService = new IngestionService({
+        llmClient: createLLMProviderOrExit(),
+        scheduler: new FSRSScheduler(),
+        sourceRepo: new IngestionSourceRepository(db),
+        jobRepo: new IngestionJobRepository(db),
+        recallSetRepo,
+        recallPointRepo,
+      });
+
+      if (resumeIdx !== -1) {
+        await runIngestResumeCommand(ingestionService, args[resumeIdx + 1]);
+      } else {
+        await runIngestCommand(ingestionService, ingestPath);
+      }
+      break;
+    }
+
+    case 'import': {
+      // Import requires a file path; --name/--into take the following argument
+      const optionValue = (flag: string) => {
+        const idx = args.indexOf(flag);
+        return idx !== -1 ? args[idx + 1] : undefined;
+      };
+      const importPath = args
+        .slice(1)
+        .find((arg, i, rest) => !arg.startsWith('--') && !['--name', '--into'].includes(rest[i - 1]));
+      if (!importPath) {
+        console.log(red('Error: File path is required.'));
+        console.log(dim('Usage: bun run cli import <deck.apkg|notes.txt> [--dry-run] [--name <name> | --into <set>]'));
+        process.exit(1);
+      }
+
+      const importServices = {
+        anki: new AnkiImportService({
+          scheduler: new FSRSScheduler(),
+          recallSetRepo,
+          recallPointRepo,
+          fsrsParametersRepo: new FSRSParametersRepository(db),
+        }),
+        bundle: new BundleImportService({ recallSetRepo, recallPointRepo }),
+      };
+
+      await runImportCommand(importServices, recallSetRepo, importPath, {
+        dryRun: args.includes('--dry-run'),
+        name: optionValue('--name'),
+        into: optionValue('--into'),
+      });
       break;
+    }
 
     case 'list':
     case 'ls':
@@ -168,18 +351,141 @@ async function main(): Promise<void> {
     case 'stats':
     case 'stat':
       // Stats command requires a recall set name
-      const statsSetName = args.slice(1).join(' ');
+      const statsSetName = args
+        .slice(1)
+        .filter((arg) => arg !== '--review-only')
+        .join(' ');
       if (!statsSetName) {
         console.log(red('Error: Recall set name is required.'));
-        console.log(dim('Usage: bun run cli stats <recall-set-name>'));
+        console.log(dim('Usage: bun run cli stats <recall-set-name> [--review-only]'));
         console.log(dim('Example: bun run cli stats "ATP Synthesis"'));
         process.exit(1);
       }
 
       // Display statistics for the recall set
-      await runStatsCommand(db, statsSetName);
+      // (--review-only leaves practice sessions out)
+      await runStatsCommand(db, statsSetName, {
+        mode: args.includes('--review-only') ? 'review' : undefined,
+      });
       break;
 
+    case 'leeches': {
+      // Leeches command requires a recall set name; an action flag takes a point ID
+      const actionFlags: Record<string, LeechAction['type']> = {
+        '--split': 'split',
+        '--suspend': 'suspend',
+        '--unsuspend': 'unsuspend',
+        '--deep-dive': 'deep-dive',
+      };
+      const actionIdx = args.findIndex((arg) => arg in actionFlags);
+      const leechesSetName = args
+        .slice(1, actionIdx === -1 ? undefined : actionIdx)
+        .join(' ');
+      if (!leechesSetName || (actionIdx !== -1 && !args[actionIdx + 1])) {
+        console.log(red(leechesSetName ? 'Error: Point ID is required.' : 'Error: Recall set name is required.'));
+        console.log(dim('Usage: bun run cli leeches <recall-set-name> [--split | --suspend | --unsuspend | --deep-dive <point-id>]'));
+        console.log(dim('Example: bun run cli leeches "ATP Synthesis" --suspend rp_abc123'));
+        process.exit(1);
+      }
+      const action: LeechAction | undefined =
+        actionIdx === -1 ? undefined : { type: actionFlags[args[actionIdx]], pointId: args[actionIdx + 1] };
+
+      // Only splitting needs the LLM, so listing works without an API key
+      const leechService = new LeechRemediationService({
+        recallSetRepo,
+        recallPointRepo,
+        scheduler: new FSRSScheduler(),
+        llmClient: action?.type === 'split' ? createLLMProviderOrExit() : undefined,
+      });
+      await runLeechesCommand(leechService, recallSetRepo, recallPointRepo, leechesSetName, { action });
+      break;
+    }
+
+    case 'optimize': {
+      // Optional recall set name; without one, weights are fitted across all sets
+      const optimizeSetName = args
+        .slice(1)
+        .filter((arg) => !arg.startsWith('--'))
+        .join(' ');
+
+      const optimizationService = new FSRSOptimizationService({
+        recallSetRepo,
+        recallPointRepo,
+        outcomeRepo: new RecallOutcomeRepository(db),
+        parametersRepo: new FSRSParametersRepository(db),
+      });
+
+      await runOptimizeCommand(optimizationService, recallSetRepo, optimizeSetName || undefined, {
+        dryRun: args.includes('--dry-run'),
+        reset: args.includes('--reset'),
+      });
+      break;
+    }
+
+    case 'reevaluate': {
+      // Optional recall set name; --limit takes the following argument
+      const limitIdx = args.indexOf('--limit');
+      const reevaluateSetName = args
+        .slice(1)
+        .filter((arg, i, rest) => !arg.startsWith('--') && rest[i - 1] !== '--limit')
+        .join(' ');
+      const limit = limitIdx !== -1 ? parseInt(args[limitIdx + 1], 10) : undefined;
+      if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+        console.log(red('Error: --limit must be a positive number.'));
+        process.exit(1);
+      }
+      const reportOnly = args.includes('--report');
+
+      const reEvaluationService = new ReEvaluationService({
+        recallSetRepo,
+        recallPointRepo,
+        messageRepo,
+        outcomeRepo: new RecallOutcomeRepository(db),
+        evaluationRepo: new OutcomeEvaluationRepository(db),
+        fsrsParametersRepo: new FSRSParametersRepository(db),
+        // The report alone doesn't call the evaluator, so needs no API key
+        evaluator: reportOnly ? undefined : new RecallEvaluator(createLLMProviderOrExit()),
+        scheduler: new FSRSScheduler(),
+      });
+
+      await runReevaluateCommand(reEvaluationService, recallSetRepo, reevaluateSetName || undefined, {
+        limit,
+        force: args.includes('--force'),
+        reportOnly,
+        reschedule: args.includes('--reschedule'),
+      });
+      break;
+    }
+
+    case 'benchmark': {
+      // Benchmark the evaluator against a labelled calibration dataset;
+      // --prompt-version takes the following argument
+      const promptVersionIdx = args.indexOf('--prompt-version');
+      const datasetPath = args
+        .slice(1)
+        .find((arg, i, rest) => !arg.startsWith('--') && rest[i - 1] !== '--prompt-version');
+      if (!datasetPath) {
+        console.log(red('Error: Dataset path is required.'));
+        console.log(dim('Usage: bun run cli benchmark <dataset.json> [--json] [--prompt-version <version>]'));
+        process.exit(1);
+      }
+
+      await runBenchmarkCommand(new RecallEvaluator(createLLMProviderOrExit()), datasetPath, {
+        json: args.includes('--json'),
+        promptVersion: promptVersionIdx !== -1 ? args[promptVersionIdx + 1] : undefined,
+      });
+      break;
+    }
+
+    case 'experiment': {
+      // Optional experiment ID: compare its variants, or list without one
+      const experimentId = args.slice(1).find((arg) => !arg.startsWith('--'));
+      await runExperimentCommand(sessionRepo, experimentId, loadPromptExperimentOrExit(), {
+        json: args.includes('--json'),
+      });
+      break;
+    }
+
     case 'export':
       // Export command uses commander.js for sub-command parsing
       // Pass remaining args to the export command handler
@@ -231,6 +537,19 @@ async function main(): Promise<void> {
       await replaySession(replaySessionId);
       break;
 
+    case 'claim': {
+      // Assign unowned recall sets and sessions to a web account
+      const claimEmail = args[1];
+      if (!claimEmail) {
+        console.log(red('Error: Account email is required.'));
+        console.log(dim('Usage: bun run cli claim <email>'));
+        process.exit(1);
+      }
+
+      await claimUnownedData(new UserRepository(db), recallSetRepo, sessionRepo, claimEmail);
+      break;
+    }
+
     case 'help':
     case undefined:
       // Show help when no command provided
@@ -246,6 +565,62 @@ async function main(): Promise<void> {
   }
 }
 
+/**
+ * Loads the prompt experiment PROMPT_EXPERIMENT_PATH names, exiting with an
+ * error if its config can't be read or is invalid.
+ *
+ * @returns The experiment, or undefined if none is configured
+ */
+function loadPromptExperimentOrExit(): PromptExperiment | undefined {
+  const experimentPath = getPromptExperimentPath();
+  if (!experimentPath) {
+    return undefined;
+  }
+  try {
+    return loadPromptExperiment(experimentPath);
+  } catch (error) {
+    if (error instanceof PromptExperimentError) {
+      console.log(red(`Error: ${error.message}`));
+      console.log(dim('Fix the experiment config, or unset PROMPT_EXPERIMENT_PATH to use the default prompts.'));
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Creates the configured LLM provider, exiting with setup instructions if it
+ * cannot be created.
+ *
+ * LLM_PROVIDER=scripted runs offline from a script fixture; record/replay
+ * capture LLM calls to a cassette and play them back.
+ *
+ * @returns The LLM provider for the command
+ */
+function createLLMProviderOrExit(): LLMProvider {
+  try {
+    return createLLMProvider();
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('ANTHROPIC_API_KEY')) {
+      console.log(red('Error: ANTHROPIC_API_KEY environment variable is not set.'));
+      console.log(dim('Get your API key at: https://console.anthropic.com/'));
+      console.log(dim('Then set it: export ANTHROPIC_API_KEY=your-key-here'));
+      process.exit(1);
+    }
+    if (error instanceof Error && error.message.includes('script')) {
+      console.log(red(`Error: ${error.message}`));
+      console.log(dim('Set LLM_SCRIPT_PATH to a script fixture, e.g. tests/fixtures/llm/session-basic.json'));
+      process.exit(1);
+    }
+    if (error instanceof Error && error.message.includes('cassette')) {
+      console.log(red(`Error: ${error.message}`));
+      console.log(dim('Set LLM_CASSETTE_PATH, e.g. data/cassettes/session.json'));
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
 /**
  * Lists all available recall sets in a formatted table.
  *
@@ -300,6 +675,97 @@ async function listRecallSets(recallSetRepo: RecallSetRepository): Promise<void>
   printBlankLine();
 }
 
+/**
+ * Resolves whose recall sets a daily review covers: the account whose email
+ * follows --user, or null for the sets without an owner. Exits if the
+ * account doesn't exist.
+ *
+ * @param userRepo - Repository for looking up the account
+ * @param args - Command-line arguments
+ * @returns The account's ID, or null without --user
+ */
+async function resolveReviewerOrExit(userRepo: UserRepository, args: string[]): Promise<string | null> {
+  const flagIndex = args.indexOf('--user');
+  if (flagIndex === -1) {
+    return null;
+  }
+  const email = args[flagIndex + 1];
+  if (!email) {
+    console.log(red('Error: --user needs the email of an account.'));
+    console.log(dim('Usage: bun run cli review [--user <email>]'));
+    process.exit(1);
+  }
+  const user = await userRepo.findByEmail(email);
+  if (!user) {
+    console.log(red(`Error: No account found for '${email}'.`));
+    console.log(dim('Create the account from the web app first.'));
+    process.exit(1);
+  }
+  return user.id;
+}
+
+/**
+ * Gives every recall set and session without an owner to the account with
+ * the given email, so data created from the CLI shows up in the web app.
+ *
+ * @param userRepo - Repository for looking up the account
+ * @param recallSetRepo - Unscoped recall set repository
+ * @param sessionRepo - Unscoped session repository
+ * @param email - Email of the account that should own the data
+ */
+async function claimUnownedData(
+  userRepo: UserRepository,
+  recallSetRepo: RecallSetRepository,
+  sessionRepo: SessionRepository,
+  email: string
+): Promise<void> {
+  const user = await userRepo.findByEmail(email);
+  if (!user) {
+    console.log(red(`Error: No account found for '${email}'.`));
+    console.log(dim('Create the account from the web app first.'));
+    process.exit(1);
+  }
+
+  const setCount = await recallSetRepo.claimUnowned(user.id);
+  const sessionCount = await sessionRepo.claimUnowned(user.id);
+
+  printBlankLine();
+  console.log(green(`Assigned ${setCount} recall set(s) and ${sessionCount} session(s) to ${user.name}.`));
+  printBlankLine();
+}
+
+/**
+ * Summarizes how a cassette replay compared with the original recording.
+ * Divergent calls mean the current code sent different prompts than the
+ * recorded session (e.g. after a change to the tutor prompt or engine flow).
+ *
+ * @param provider - The replay provider used for the session
+ */
+function printReplayReport(provider: ReplayLLMProvider): void {
+  const mismatches = provider.getMismatches();
+  const unused = provider.getUnusedEntries();
+
+  printBlankLine();
+  console.log(bold('Cassette Replay Report:'));
+  console.log(formatSeparator(60));
+
+  if (mismatches.length === 0 && unused.length === 0) {
+    console.log(green('  All LLM calls matched the recording.'));
+  } else {
+    for (const mismatch of mismatches) {
+      const lastMessage = mismatch.messages[mismatch.messages.length - 1]?.content ?? '';
+      const preview = lastMessage.length > 50 ? lastMessage.substring(0, 47) + '...' : lastMessage;
+      console.log(`  ${yellow(`Call #${mismatch.callIndex + 1} diverged:`)} ${dim(preview)}`);
+    }
+    if (unused.length > 0) {
+      console.log(yellow(`  ${unused.length} recorded call(s) were never made.`));
+    }
+  }
+
+  console.log(formatSeparator(60));
+  printBlankLine();
+}
+
 /**
  * Prints the CLI help message with all available commands and usage examples.
  */
@@ -313,16 +779,31 @@ function printHelp(): void {
   printBlankLine();
   console.log(bold('Commands:'));
   console.log(`  ${green('session <name>')}   Start an interactive recall session`);
+  console.log(`  ${green('review')}           Review the most urgent due points of your sets`);
+  console.log(`  ${green('ingest <file>')}    Create a recall set from a .md or .txt file`);
+  console.log(`  ${green('import <file>')}    Import an Anki deck (.apkg, .txt, .csv) or bundle (.json)`);
   console.log(`  ${green('list')}             List all available recall sets`);
   console.log(`  ${green('stats <name>')}     Display recall statistics for a set`);
+  console.log(`  ${green('leeches <name>')}   List and remediate points you keep forgetting`);
+  console.log(`  ${green('optimize [name]')}  Fit FSRS weights to your review history`);
+  console.log(`  ${green('reevaluate [name]')} Judge past recall attempts with the current evaluator`);
+  console.log(`  ${green('benchmark <file>')} Measure the evaluator against a labelled dataset`);
+  console.log(`  ${green('experiment [id]')}  List prompt versions, or compare an experiment's variants`);
   console.log(`  ${green('sessions <name>')}  List recent sessions for a recall set`);
   console.log(`  ${green('replay <id>')}      Replay a past session transcript`);
-  console.log(`  ${green('export ...')}       Export data to JSON or CSV files`);
+  console.log(`  ${green('export ...')}       Export data to JSON/CSV, or a set's points (content)`);
+  console.log(`  ${green('claim <email>')}    Give recall sets without an owner to an account`);
   console.log(`  ${green('help')}             Show this help message`);
   printBlankLine();
   console.log(bold('Session Commands:'));
   console.log(`  ${yellow('/quit')}           Abandon session and exit`);
   console.log(`  ${yellow('/eval')}           Manually trigger evaluation`);
+  console.log(`  ${yellow('/hint')}           Get a hint for the current point`);
+  console.log(`  ${yellow('/skip')}           Move on without rating the point`);
+  console.log(`  ${yellow('/show')}           Show the point and rate it forgot`);
+  console.log(`  ${yellow('/defer <days>')}   Put the point off for some days`);
+  console.log(`  ${yellow('/undo')}           Retract your last message`);
+  console.log(`  ${yellow('/note <text>')}    Save a note on the session`);
   console.log(`  ${yellow('/help')}           Show session help`);
   console.log(`  ${yellow('/status')}         Show session progress`);
   printBlankLine();
@@ -333,8 +814,45 @@ function printHelp(): void {
   console.log(dim('  # Start a session for a recall set'));
   console.log('  bun run cli session "ATP Synthesis"');
   printBlankLine();
-  console.log(dim('  # View statistics for a recall set'));
-  console.log('  bun run cli stats "ATP Synthesis"');
+  console.log(dim('  # Practice a set without changing when its points are due'));
+  console.log('  bun run cli session "ATP Synthesis" --practice');
+  printBlankLine();
+  console.log(dim('  # Find the points you keep forgetting, and mark one for a deep dive'));
+  console.log('  bun run cli leeches "ATP Synthesis"');
+  console.log('  bun run cli leeches "ATP Synthesis" --deep-dive rp_abc123');
+  console.log('  bun run cli session "ATP Synthesis" --deep-dive');
+  printBlankLine();
+  console.log(dim('  # Also evaluate when you say "next", "got it" or similar'));
+  console.log('  bun run cli session "ATP Synthesis" --eval-phrases');
+  printBlankLine();
+  console.log(dim("  # Start today's daily review across all recall sets"));
+  console.log('  bun run cli review');
+  printBlankLine();
+  console.log(dim("  # Review an account's sets, once claimed"));
+  console.log('  bun run cli review --user ada@example.com');
+  printBlankLine();
+  console.log(dim('  # Create a recall set from your notes'));
+  console.log('  bun run cli ingest notes/atp-synthesis.md');
+  printBlankLine();
+  console.log(dim('  # Preview, then import, an Anki deck'));
+  console.log('  bun run cli import Biology.apkg --dry-run');
+  console.log('  bun run cli import Biology.apkg');
+  printBlankLine();
+  console.log(dim('  # View statistics for a recall set, without practice sessions'));
+  console.log('  bun run cli stats "ATP Synthesis" --review-only');
+  printBlankLine();
+  console.log(dim('  # Compare predicted and observed retention, then fit FSRS weights'));
+  console.log('  bun run cli optimize "ATP Synthesis" --dry-run');
+  console.log('  bun run cli optimize "ATP Synthesis"');
+  printBlankLine();
+  console.log(dim('  # Re-evaluate past recall attempts after improving the evaluator'));
+  console.log('  bun run cli reevaluate "ATP Synthesis" --limit 50');
+  printBlankLine();
+  console.log(dim('  # Benchmark the evaluator offline against a labelled dataset'));
+  console.log('  LLM_PROVIDER=replay LLM_CASSETTE_PATH=calibration.json bun run cli benchmark dataset.json');
+  printBlankLine();
+  console.log(dim('  # Compare the variants of a prompt experiment'));
+  console.log('  bun run cli experiment tutor-length-2026-10');
   printBlankLine();
   console.log(dim('  # List recent sessions for a recall set'));
   console.log('  bun run cli sessions "ATP Synthesis"');
@@ -351,21 +869,33 @@ function printHelp(): void {
   console.log(dim('  # Export analytics summary'));
   console.log('  bun run cli export analytics "ATP Synthesis"');
   printBlankLine();
+  console.log(dim('  # Export a recall set\'s points as Markdown'));
+  console.log('  bun run cli export content "ATP Synthesis" --format markdown');
+  printBlankLine();
   console.log(bold('Environment Variables:'));
-  console.log(`  ${green('ANTHROPIC_API_KEY')}  Required for session commands`);
-  console.log(`  ${green('DATABASE_URL')}       Path to SQLite database (optional)`);
+  console.log(`  ${green('ANTHROPIC_API_KEY')}  Required for session and ingest commands`);
+  console.log(`  ${green('DATABASE_TYPE')}      sqlite (default) or postgres (optional)`);
+  console.log(`  ${green('DATABASE_URL')}       SQLite file path or PostgreSQL connection string (optional)`);
+  console.log(`  ${green('LLM_PROVIDER')}       anthropic, scripted, record or replay (optional)`);
+  console.log(`  ${green('LLM_CASSETTE_PATH')}  Cassette file for record/replay (optional)`);
+  console.log(`  ${green('PROMPT_EXPERIMENT_PATH')} Prompt A/B experiment config for new sessions (optional)`);
   printBlankLine();
 }
 
-// Run the main function and handle any uncaught errors
-main().catch((error: Error) => {
-  console.error(red('\nFatal error:'));
-  console.error(dim(error.message));
-
-  // Show stack trace in debug mode
-  if (isDebugMode()) {
-    console.error(dim(error.stack || ''));
-  }
+// Run the main function and handle any uncaught errors.
+// Exit explicitly once the command finishes (keeping any process.exitCode it
+// set): a PostgreSQL connection pool keeps idle connections open, which would
+// otherwise hold the process alive.
+main()
+  .then(() => process.exit())
+  .catch((error: Error) => {
+    console.error(red('\nFatal error:'));
+    console.error(dim(error.message));
+
+    // Show stack trace in debug mode
+    if (isDebugMode()) {
+      console.error(dim(error.stack || ''));
+    }
 
-  process.exit(1);
-});
+    process.exit(1);
+  });
@@ -180,7 +180,7 @@ export function formatSeparator(width: number = 50): string {
  * // Output: "  /quit  - Exit the session"
  */
 export function formatCommandHelp(command: string, description: string): string {
-  return `  ${yellow(command.padEnd(10))} - ${dim(description)}`;
+  return `  ${yellow(command.padEnd(16))} - ${dim(description)}`;
 }
 
 /**
@@ -215,7 +215,7 @@ export function printSessionBanner(recallSetName: string, pointCount: number): v
   console.log(`  Points to review: ${yellow(pointCount.toString())}`);
   console.log(formatSeparator(60));
   printBlankLine();
-  console.log(dim('  Commands: /quit (exit) | /eval (evaluate current point) | /help'));
+  console.log(dim('  Commands: /quit (exit) | /eval (evaluate current point) | /hint | /skip | /show | /help'));
   printBlankLine();
 }
 
@@ -228,6 +228,14 @@ export function printCommandsHelp(): void {
   console.log(bold('Available Commands:'));
   console.log(formatCommandHelp('/quit', 'Abandon session and exit'));
   console.log(formatCommandHelp('/eval', 'Manually trigger evaluation of current point'));
+  console.log(formatCommandHelp('/hint', 'Get a hint on the current point (caps its rating)'));
+  console.log(formatCommandHelp('/skip', 'Move on without rating or rescheduling the point'));
+  console.log(formatCommandHelp('/show', 'Show the point and schedule it as forgotten'));
+  console.log(formatCommandHelp('/defer <days>', 'Put the point off for some days and move on'));
+  console.log(formatCommandHelp('/undo', 'Retract your last message and the reply to it'));
+  console.log(formatCommandHelp('/note <text>', 'Save a note on the session'));
+  console.log(formatCommandHelp('/explore [topic]', "Explore a tangent; the point's timer is paused"));
+  console.log(formatCommandHelp('/return', 'Return from the tangent to the point, with a recap'));
   console.log(formatCommandHelp('/help', 'Show this help message'));
   console.log(formatCommandHelp('/status', 'Show current session progress'));
   printBlankLine();
@@ -55,11 +55,33 @@ const configSchema = z.object({
     maxTokens: z.number().int().positive().default(32768),
   }),
 
+  // LLM provider selection (live Anthropic API, offline scripted playback,
+  // or cassette record/replay)
+  llm: z.object({
+    provider: z.enum(['anthropic', 'scripted', 'record', 'replay']).default('anthropic'),
+    scriptPath: z.string().optional(),
+    cassettePath: z.string().optional(),
+    replayStrict: z.boolean().default(false),
+  }),
+
+  // Prompt A/B experiment assigning new sessions to prompt version variants
+  prompts: z.object({
+    experimentPath: z.string().optional(),
+  }),
+
   // Storage configuration
   storage: z.object({
     sourcesDir: z.string().default('./data/sources'),
   }),
 
+  // Authentication configuration (JWT session tokens)
+  auth: z.object({
+    jwtSecret: z.string().optional(),
+    tokenTtlHours: z.number().int().positive().default(168),
+    allowRegistration: z.boolean().default(true),
+    cookieSecure: z.boolean().default(false),
+  }),
+
   // Rate limiting configuration
   rateLimit: z.object({
     windowMs: z.number().int().positive().default(60000),
@@ -121,9 +143,29 @@ function loadFromEnvironment(): z.input<typeof configSchema> {
       model: process.env.ANTHROPIC_MODEL ?? 'claude-sonnet-4-5-20250929',
       maxTokens: parseIntOrUndefined(process.env.ANTHROPIC_MAX_TOKENS) ?? 32768,
     },
+    llm: {
+      provider:
+        (process.env.LLM_PROVIDER as 'anthropic' | 'scripted' | 'record' | 'replay') ??
+        'anthropic',
+      scriptPath: process.env.LLM_SCRIPT_PATH,
+      cassettePath: process.env.LLM_CASSETTE_PATH,
+      replayStrict: process.env.LLM_REPLAY_STRICT === 'true',
+    },
+    prompts: {
+      experimentPath: process.env.PROMPT_EXPERIMENT_PATH,
+    },
     storage: {
       sourcesDir: process.env.SOURCES_DIR ?? './data/sources',
     },
+    auth: {
+      jwtSecret: process.env.JWT_SECRET,
+      tokenTtlHours: parseIntOrUndefined(process.env.AUTH_TOKEN_TTL_HOURS) ?? 168,
+      allowRegistration: process.env.AUTH_ALLOW_REGISTRATION !== 'false',
+      cookieSecure:
+        process.env.COOKIE_SECURE !== undefined
+          ? process.env.COOKIE_SECURE === 'true'
+          : process.env.NODE_ENV === 'production',
+    },
     rateLimit: {
       windowMs: parseIntOrUndefined(process.env.RATE_LIMIT_WINDOW_MS) ?? 60000,
       maxRequests: parseIntOrUndefined(process.env.RATE_LIMIT_MAX_REQUESTS) ?? 100,
@@ -164,6 +206,7 @@ export class ConfigValidationError extends Error {
  * In production mode, the following environment variables are REQUIRED:
  * - DATABASE_URL: PostgreSQL connection string
  * - ANTHROPIC_API_KEY: API key for Claude
+ * - JWT_SECRET: Secret for signing login tokens (at least 32 characters)
  *
  * In development/test mode, these are optional (will use defaults or SQLite).
  *
@@ -188,6 +231,11 @@ export function validateConfig(): void {
   const missingVars: string[] = [];
   const invalidVars: { name: string; reason: string }[] = [];
 
+  // PostgreSQL has no sensible default location, so it always needs a URL
+  if (config.database.type === 'postgres' && !config.database.url && !isProduction) {
+    missingVars.push('DATABASE_URL');
+  }
+
   // Production-only requirements
   if (isProduction) {
     // DATABASE_URL is required in production
@@ -200,6 +248,17 @@ export function validateConfig(): void {
       missingVars.push('ANTHROPIC_API_KEY');
     }
 
+    // JWT_SECRET is required in production so tokens can't be forged with
+    // the well-known development secret
+    if (!config.auth.jwtSecret) {
+      missingVars.push('JWT_SECRET');
+    } else if (config.auth.jwtSecret.length < 32) {
+      invalidVars.push({
+        name: 'JWT_SECRET',
+        reason: 'JWT secret must be at least 32 characters',
+      });
+    }
+
     // In production, database type should be postgres
     if (config.database.type === 'sqlite') {
       invalidVars.push({
@@ -366,6 +425,18 @@ export function getDatabaseURL(): string {
   return config.database.url || DEFAULT_DATABASE_URL;
 }
 
+/**
+ * Returns the configured database dialect.
+ *
+ * Selects both the driver (storage/db.ts) and the table definitions the
+ * repositories use (storage/tables.ts).
+ *
+ * @returns 'sqlite' (default) or 'postgres'
+ */
+export function getDatabaseType(): 'sqlite' | 'postgres' {
+  return config.database.type;
+}
+
 /**
  * Returns the Anthropic API key from configuration.
  * Useful for code that needs just the API key without the full config object.
@@ -394,6 +465,55 @@ export function getAnthropicMaxTokens(): number {
   return config.anthropic.maxTokens;
 }
 
+/**
+ * Returns which LLM provider implementation to use.
+ *
+ * @returns 'anthropic' for the live API, 'scripted' for offline playback,
+ *          'record' to record live traffic to a cassette, or 'replay' to
+ *          serve a recorded cassette (defaults to 'anthropic')
+ */
+export function getLLMProviderType(): 'anthropic' | 'scripted' | 'record' | 'replay' {
+  return config.llm.provider;
+}
+
+/**
+ * Returns the path to the script fixture used by the scripted LLM provider.
+ *
+ * @returns The script file path, or undefined if not configured
+ */
+export function getLLMScriptPath(): string | undefined {
+  return config.llm.scriptPath;
+}
+
+/**
+ * Returns the cassette file path used by the record and replay providers.
+ *
+ * @returns The cassette file path, or undefined if not configured
+ */
+export function getLLMCassettePath(): string | undefined {
+  return config.llm.cassettePath;
+}
+
+/**
+ * Returns whether cassette replay should fail on requests that diverge
+ * from the recording instead of serving the next recorded response.
+ *
+ * @returns True if LLM_REPLAY_STRICT=true (defaults to false)
+ */
+export function isLLMReplayStrict(): boolean {
+  return config.llm.replayStrict;
+}
+
+/**
+ * Returns the path to the prompt experiment config that assigns new
+ * sessions to prompt version variants.
+ *
+ * @returns The config file path, or undefined if no experiment is running
+ */
+export function getPromptExperimentPath(): string | undefined {
+  return config.prompts.experimentPath;
+}
+
 /**
  * Returns the server port.
  *
@@ -421,5 +541,48 @@ export function getSourcesDir(): string {
   return config.storage.sourcesDir;
 }
 
+/**
+ * Secret used to sign tokens when JWT_SECRET is not set outside production.
+ * validateConfig() refuses to start a production server without JWT_SECRET.
+ */
+const DEVELOPMENT_JWT_SECRET = 'contextual-clarity-development-secret';
+
+/**
+ * Returns the secret used to sign and verify login tokens.
+ *
+ * @returns JWT_SECRET, or a fixed development secret if it is not set
+ */
+export function getJwtSecret(): string {
+  return config.auth.jwtSecret || DEVELOPMENT_JWT_SECRET;
+}
+
+/**
+ * Returns how long login tokens (and the session cookie) stay valid.
+ *
+ * @returns The token lifetime in hours (defaults to 168, one week)
+ */
+export function getAuthTokenTtlHours(): number {
+  return config.auth.tokenTtlHours;
+}
+
+/**
+ * Returns whether new accounts can register themselves.
+ * The first account can always be registered so a fresh deployment can be set up.
+ *
+ * @returns False if AUTH_ALLOW_REGISTRATION=false (defaults to true)
+ */
+export function isRegistrationOpen(): boolean {
+  return config.auth.allowRegistration;
+}
+
+/**
+ * Returns whether the session cookie should be marked Secure (HTTPS only).
+ *
+ * @returns COOKIE_SECURE if set, otherwise true in production
+ */
+export function isCookieSecure(): boolean {
+  return config.auth.cookieSecure;
+}
+
 // Export default for convenience
 export default config;
@@ -10,6 +10,9 @@
  * - Detect when conversations return to the main topic
  * - Handle session-end cleanup of unresolved tangents
  *
+ * TangentFollowUpService then turns a finished session's rabbitholes into
+ * candidate recall points for the learner to accept or dismiss.
+ *
  * @example
  * ```typescript
  * import {
@@ -48,3 +51,14 @@ export {
   type DetectionDebugInfo,
   DEFAULT_RABBITHOLE_DETECTOR_CONFIG,
 } from './types';
+
+// Post-session follow-up: tangents proposed as recall points
+export {
+  TangentFollowUpService,
+  TangentFollowUpError,
+  TANGENT_INBOX_NAME,
+  type TangentFollowUpServiceDependencies,
+  type TangentProposalResult,
+  type AcceptTangentOptions,
+  type TangentFollowUpErrorType,
+} from './tangent-follow-up';
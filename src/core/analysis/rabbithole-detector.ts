@@ -40,10 +40,10 @@
  * ```
  */
 
-import type { AnthropicClient } from '../../llm/client';
+import type { LLMProvider } from '../../llm/types';
 import {
-  buildRabbitholeDetectorPrompt,
-  buildRabbitholeReturnPrompt,
+  getRabbitholePrompts,
+  DEFAULT_PROMPT_VERSIONS,
   parseRabbitholeDetectionResponse,
   parseRabbitholeReturnResponse,
 } from '../../llm/prompts';
@@ -89,11 +89,14 @@ function wasUserInitiated(messages: SessionMessage[], triggerIndex: number): boo
  */
 export class RabbitholeDetector {
   /** The LLM client used for analysis */
-  private llmClient: AnthropicClient;
+  private llmClient: LLMProvider;
 
   /** Configuration options for detection thresholds and behavior */
   private config: RabbitholeDetectorConfig;
 
+  /** Registered version of the detection and return prompts to use */
+  private promptVersion: string = DEFAULT_PROMPT_VERSIONS.rabbithole;
+
   /**
    * Map of active (unreturned) rabbitholes, keyed by their ID.
    * This allows tracking multiple concurrent tangents.
@@ -119,7 +122,7 @@ export class RabbitholeDetector {
   /**
    * Creates a new RabbitholeDetector instance.
    *
-   * @param llmClient - The Anthropic client for making LLM calls
+   * @param llmClient - The LLM provider for making LLM calls
    * @param config - Optional configuration to override defaults
    *
    * @example
@@ -134,7 +137,7 @@ export class RabbitholeDetector {
    * ```
    */
   constructor(
-    llmClient: AnthropicClient,
+    llmClient: LLMProvider,
     config: Partial<RabbitholeDetectorConfig> = {}
   ) {
     this.llmClient = llmClient;
@@ -246,7 +249,7 @@ export class RabbitholeDetector {
       );
 
       // Build the detection prompt with all necessary context
-      const prompt = buildRabbitholeDetectorPrompt({
+      const prompt = getRabbitholePrompts(this.promptVersion).buildDetector({
         recentMessages,
         currentRecallPoint,
         allRecallPoints: this.config.trackRelatedRecallPoints ? allRecallPoints : [],
@@ -357,7 +360,7 @@ export class RabbitholeDetector {
     // Note: We process sequentially to maintain state consistency
     for (const [id, activeState] of this.activeRabbitholes.entries()) {
       // Build the return detection prompt
-      const prompt = buildRabbitholeReturnPrompt(
+      const prompt = getRabbitholePrompts(this.promptVersion).buildReturn(
         activeState.topic,
         currentRecallPoint,
         recentMessages
@@ -484,6 +487,20 @@ export class RabbitholeDetector {
     this.detectionInProgress = false;
   }
 
+  /**
+   * Selects the registered version of the detection and return prompts.
+   *
+   * The session engine sets the version a session records when it starts
+   * or resumes the session. The version persists across reset().
+   *
+   * @param version - The rabbithole prompt version
+   * @throws PromptRegistryError if the version isn't registered
+   */
+  setPromptVersion(version: string): void {
+    getRabbitholePrompts(version);
+    this.promptVersion = version;
+  }
+
   /**
    * Returns the count of currently active rabbitholes.
    *
@@ -0,0 +1,403 @@
+/**
+ * Tangent Follow-up Service
+ *
+ * Turns the rabbitholes of a finished session into candidate recall points
+ * and applies the learner's review of them.
+ *
+ * proposeForSession() runs once a session is over. For each rabbithole that
+ * returned or was abandoned, it sends the tangent's part of the transcript
+ * (from the message that started it to the one where the conversation came
+ * back, or the end of the session) to the LLM, which summarizes it into a
+ * recall point, or finds nothing worth keeping. Rabbitholes that already
+ * have a candidate are skipped, so the step can be run again safely, e.g.
+ * from the session replay after the automatic run failed.
+ *
+ * A candidate belongs with the session's recall set or, for a daily review,
+ * with the set of a recall point the tangent touched. accept() adds it as a
+ * new recall point to that set, or to the learner's "Tangents" inbox set
+ * (created on first use), optionally with edited content and context.
+ * dismiss() marks it as not worth keeping.
+ *
+ * @example
+ * ```typescript
+ * const service = new TangentFollowUpService({
+ *   sessionRepo: new SessionRepository(db, user.id),
+ *   messageRepo: new SessionMessageRepository(db),
+ *   rabbitholeRepo: new RabbitholeEventRepository(db),
+ *   tangentRepo: new TangentCandidateRepository(db, user.id),
+ *   recallSetRepo: new RecallSetRepository(db, user.id),
+ *   recallPointRepo: new RecallPointRepository(db),
+ *   scheduler: new FSRSScheduler(),
+ *   llmClient,
+ * });
+ *
+ * const { proposed } = await service.proposeForSession('sess_xyz789');
+ * await service.accept(proposed[0].id, { destination: 'inbox' });
+ * ```
+ */
+
+import type { LLMProvider } from '../../llm/types';
+import { buildTangentSummaryPrompt, parseTangentSummaryResponse } from '../../llm/prompts';
+import type {
+  TangentCandidate,
+  TangentDestination,
+  RecallSet,
+  Session,
+} from '../models';
+import type { FSRSScheduler } from '../fsrs/scheduler';
+import type {
+  SessionRepository,
+  SessionMessageRepository,
+  RabbitholeEventRepository,
+  TangentCandidateRepository,
+  RecallSetRepository,
+  RecallPointRepository,
+} from '../../storage/repositories';
+import type { RabbitholeEvent as DbRabbitholeEvent } from '../../storage/schema';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Name of the inbox recall set that collects accepted tangents.
+ */
+export const TANGENT_INBOX_NAME = 'Tangents';
+
+/**
+ * Temperature for tangent summaries; low, since the summary should stick
+ * to what the conversation said.
+ */
+const SUMMARY_TEMPERATURE = 0.3;
+
+/**
+ * Dependencies for TangentFollowUpService. The session, candidate and
+ * recall set repositories should be scoped to the learner whose candidates
+ * are proposed and reviewed; the inbox set is created through the recall
+ * set repository, so it belongs to that learner.
+ */
+export interface TangentFollowUpServiceDependencies {
+  /** Repository for the learner's sessions */
+  sessionRepo: SessionRepository;
+  /** Repository for session transcripts */
+  messageRepo: SessionMessageRepository;
+  /** Repository for the sessions' rabbitholes */
+  rabbitholeRepo: RabbitholeEventRepository;
+  /** Repository for tangent candidates */
+  tangentRepo: TangentCandidateRepository;
+  /** Repository for the learner's recall sets */
+  recallSetRepo: RecallSetRepository;
+  /** Repository for recall points */
+  recallPointRepo: RecallPointRepository;
+  /** Scheduler for the initial state of accepted points */
+  scheduler: FSRSScheduler;
+  /** LLM that summarizes tangents; only proposeForSession() calls it */
+  llmClient?: LLMProvider;
+}
+
+/**
+ * Result of proposing candidates for a session.
+ */
+export interface TangentProposalResult {
+  /** The session */
+  sessionId: string;
+  /** Candidates proposed in this run */
+  proposed: TangentCandidate[];
+  /**
+   * Finished rabbitholes without a candidate after this run: the LLM found
+   * nothing worth keeping, or their messages are gone
+   */
+  skippedCount: number;
+}
+
+/**
+ * How to accept a tangent candidate.
+ */
+export interface AcceptTangentOptions {
+  /** Add the point to the candidate's recall set or to the inbox set */
+  destination: TangentDestination;
+  /** Edited content (defaults to the candidate's) */
+  content?: string;
+  /** Edited context (defaults to the candidate's) */
+  context?: string;
+}
+
+/**
+ * Types of tangent follow-up errors.
+ */
+export type TangentFollowUpErrorType =
+  | 'session_not_found'
+  | 'session_in_progress'
+  | 'candidate_not_found'
+  | 'already_reviewed'
+  | 'recall_set_not_found';
+
+/**
+ * Custom error class for tangent follow-up failures.
+ * Includes the error type so callers can map it to a response.
+ */
+export class TangentFollowUpError extends Error {
+  /** The type of error that occurred */
+  type: TangentFollowUpErrorType;
+
+  constructor(message: string, type: TangentFollowUpErrorType) {
+    super(message);
+    this.name = 'TangentFollowUpError';
+    this.type = type;
+  }
+}
+
+/**
+ * Generates a unique ID with the given prefix.
+ * Uses crypto.randomUUID() for uniqueness.
+ *
+ * @param prefix - The prefix for the ID (e.g., 'tan')
+ * @returns A unique ID string
+ */
+function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID()}`;
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Proposes recall points from session tangents and applies their review.
+ */
+export class TangentFollowUpService {
+  private deps: TangentFollowUpServiceDependencies;
+
+  /**
+   * Creates a new TangentFollowUpService.
+   *
+   * @param deps - Repositories scoped to the learner, the scheduler and the LLM
+   */
+  constructor(deps: TangentFollowUpServiceDependencies) {
+    this.deps = deps;
+  }
+
+  /**
+   * Lists the candidates proposed from a session, oldest first.
+   *
+   * @param sessionId - The session
+   * @returns The session's candidates
+   * @throws TangentFollowUpError if the session doesn't exist
+   */
+  async listForSession(sessionId: string): Promise<TangentCandidate[]> {
+    await this.getSession(sessionId);
+    return this.deps.tangentRepo.findBySessionId(sessionId);
+  }
+
+  /**
+   * Summarizes the session's finished rabbitholes that have no candidate
+   * yet into candidate recall points.
+   *
+   * @param sessionId - A completed or abandoned session
+   * @returns The candidates proposed in this run
+   * @throws TangentFollowUpError if the session doesn't exist or is still in progress
+   * @throws Error if the service was created without an LLM client
+   */
+  async proposeForSession(sessionId: string): Promise<TangentProposalResult> {
+    const llmClient = this.deps.llmClient;
+    if (!llmClient) {
+      throw new Error('TangentFollowUpService needs an LLM client to propose candidates');
+    }
+    const session = await this.getSession(sessionId);
+    if (session.status === 'in_progress') {
+      throw new TangentFollowUpError(
+        `Session '${sessionId}' is still in progress; tangents are followed up once it ends`,
+        'session_in_progress'
+      );
+    }
+
+    const events = (await this.deps.rabbitholeRepo.findBySessionId(sessionId)).filter(
+      (event) => event.status !== 'active'
+    );
+    const summarized = new Set(
+      (await this.deps.tangentRepo.findByRabbitholeEventIds(events.map((event) => event.id))).map(
+        (candidate) => candidate.rabbitholeEventId
+      )
+    );
+    const pending = events.filter((event) => !summarized.has(event.id));
+    if (pending.length === 0) {
+      return { sessionId, proposed: [], skippedCount: 0 };
+    }
+
+    const messages = await this.deps.messageRepo.findBySessionId(sessionId);
+    const proposed: TangentCandidate[] = [];
+    let skippedCount = 0;
+
+    for (const event of pending) {
+      const end = event.returnMessageIndex ?? messages.length - 1;
+      const slice = messages.slice(event.triggerMessageIndex, end + 1);
+      if (slice.length === 0) {
+        skippedCount++;
+        continue;
+      }
+      const recallSet = await this.findRecallSetFor(session, event);
+
+      const response = await llmClient.complete(
+        buildTangentSummaryPrompt({
+          topic: event.topic,
+          messages: slice,
+          recallSetName: recallSet?.name,
+        }),
+        { temperature: SUMMARY_TEMPERATURE }
+      );
+      const summary = parseTangentSummaryResponse(response.text);
+      if (!summary) {
+        skippedCount++;
+        continue;
+      }
+
+      proposed.push(
+        await this.deps.tangentRepo.create({
+          id: generateId('tan'),
+          sessionId,
+          rabbitholeEventId: event.id,
+          recallSetId: recallSet?.id ?? null,
+          topic: event.topic,
+          content: summary.content,
+          context: summary.context,
+        })
+      );
+    }
+
+    return { sessionId, proposed, skippedCount };
+  }
+
+  /**
+   * Accepts a pending candidate, adding it as a new recall point to its
+   * recall set or to the inbox set.
+   *
+   * @param candidateId - The candidate
+   * @param options - Destination and optional edits
+   * @returns The accepted candidate, with the new point's ID
+   * @throws TangentFollowUpError if the candidate doesn't exist, was already
+   *         reviewed, or has no recall set to be added to
+   */
+  async accept(candidateId: string, options: AcceptTangentOptions): Promise<TangentCandidate> {
+    const candidate = await this.getPendingCandidate(candidateId);
+
+    let recallSet: RecallSet | null;
+    if (options.destination === 'inbox') {
+      recallSet = await this.findOrCreateInbox();
+    } else {
+      recallSet = candidate.recallSetId
+        ? await this.deps.recallSetRepo.findById(candidate.recallSetId)
+        : null;
+      if (!recallSet) {
+        throw new TangentFollowUpError(
+          `Tangent candidate '${candidateId}' has no recall set to be added to; add it to the inbox instead`,
+          'recall_set_not_found'
+        );
+      }
+    }
+
+    const now = new Date();
+    const point = await this.deps.recallPointRepo.create({
+      id: generateId('rp'),
+      recallSetId: recallSet.id,
+      content: options.content?.trim() || candidate.content,
+      context: options.context?.trim() ?? candidate.context,
+      fsrsState: this.deps.scheduler.createInitialState(now),
+    });
+
+    return this.deps.tangentRepo.update(candidateId, {
+      content: point.content,
+      context: point.context,
+      status: 'accepted',
+      recallPointId: point.id,
+      reviewedAt: now,
+    });
+  }
+
+  /**
+   * Dismisses a pending candidate; it won't be proposed again.
+   *
+   * @param candidateId - The candidate
+   * @returns The dismissed candidate
+   * @throws TangentFollowUpError if the candidate doesn't exist or was already reviewed
+   */
+  async dismiss(candidateId: string): Promise<TangentCandidate> {
+    await this.getPendingCandidate(candidateId);
+    return this.deps.tangentRepo.update(candidateId, {
+      status: 'dismissed',
+      reviewedAt: new Date(),
+    });
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  /**
+   * Loads a session through the (user-scoped) session repository.
+   */
+  private async getSession(sessionId: string): Promise<Session> {
+    const session = await this.deps.sessionRepo.findById(sessionId);
+    if (!session) {
+      throw new TangentFollowUpError(`Session with id '${sessionId}' not found`, 'session_not_found');
+    }
+    return session;
+  }
+
+  /**
+   * Loads a candidate that hasn't been reviewed yet.
+   */
+  private async getPendingCandidate(candidateId: string): Promise<TangentCandidate> {
+    const candidate = await this.deps.tangentRepo.findById(candidateId);
+    if (!candidate) {
+      throw new TangentFollowUpError(
+        `Tangent candidate with id '${candidateId}' not found`,
+        'candidate_not_found'
+      );
+    }
+    if (candidate.status !== 'pending') {
+      throw new TangentFollowUpError(
+        `Tangent candidate '${candidateId}' was already ${candidate.status}`,
+        'already_reviewed'
+      );
+    }
+    return candidate;
+  }
+
+  /**
+   * The recall set a tangent belongs with: the session's, or for a daily
+   * review the set of the first related recall point that still exists.
+   */
+  private async findRecallSetFor(session: Session, event: DbRabbitholeEvent): Promise<RecallSet | null> {
+    if (session.recallSetId) {
+      return this.deps.recallSetRepo.findById(session.recallSetId);
+    }
+    for (const pointId of event.relatedRecallPointIds) {
+      const point = await this.deps.recallPointRepo.findById(pointId);
+      if (point) {
+        return this.deps.recallSetRepo.findById(point.recallSetId);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Finds the learner's inbox set for tangents, creating it on first use.
+   */
+  private async findOrCreateInbox(): Promise<RecallSet> {
+    const existing = await this.deps.recallSetRepo.findByName(TANGENT_INBOX_NAME);
+    if (existing) {
+      return existing;
+    }
+
+    return this.deps.recallSetRepo.create({
+      id: generateId('rs'),
+      name: TANGENT_INBOX_NAME,
+      description: 'Ideas picked up on tangents during study sessions.',
+      discussionSystemPrompt:
+        'You are a Socratic tutor helping the learner recall ideas they came across on tangents ' +
+        'during earlier study sessions. The points cover unrelated subjects, so introduce each one ' +
+        'by its subject, ask open questions that let the learner reconstruct it, and connect it to ' +
+        'what they already know.',
+    });
+  }
+}
@@ -11,6 +11,8 @@
  * 1. Recall Set Analytics - Comprehensive metrics for a single recall set
  * 2. Point Analytics - Granular performance data for individual recall points
  * 3. Global Analytics - System-wide overview across all recall sets
+ * 4. Memory Analytics - The FSRS model's view of a set's memory: retention
+ *    curves, the stability distribution, and leeches
  *
  * Analytics are computed on-demand from stored session data. For frequently
  * accessed dashboards, consider caching the results.
@@ -40,13 +42,35 @@ import type { RecallOutcomeRepository } from '../../storage/repositories/recall-
 import type { RabbitholeEventRepository } from '../../storage/repositories/rabbithole-event.repository';
 import type { RecallSetRepository } from '../../storage/repositories/recall-set.repository';
 import type { RecallPointRepository } from '../../storage/repositories/recall-point.repository';
+import type { RecallPoint, SessionMode } from '../models';
+import { FSRSScheduler } from '../fsrs/scheduler';
+import { toFSRSRating } from '../fsrs/types';
+import { collectLeeches, resolveLeechLapseThreshold } from '../leeches/leech-detection';
 import type {
   RecallSetAnalytics,
   RecallPointAnalytics,
+  RatingOverrideStats,
   GlobalAnalytics,
   TrendData,
+  LeechPoint,
+  StabilityBucket,
+  PointMemoryState,
+  RecallSetMemoryAnalytics,
 } from './types';
 
+/** Stability ranges of the distribution histogram, in days */
+const STABILITY_BUCKETS: Array<{ label: string; minDays: number; maxDays: number | null }> = [
+  { label: '<1d', minDays: 0, maxDays: 1 },
+  { label: '1-7d', minDays: 1, maxDays: 7 },
+  { label: '7-30d', minDays: 7, maxDays: 30 },
+  { label: '30-90d', minDays: 30, maxDays: 90 },
+  { label: '90-180d', minDays: 90, maxDays: 180 },
+  { label: '180-365d', minDays: 180, maxDays: 365 },
+  { label: '365d+', minDays: 365, maxDays: null },
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
 /**
  * Service for calculating aggregate analytics across sessions.
  *
@@ -68,13 +92,15 @@ export class AnalyticsCalculator {
    * @param rabbitholeRepo - Repository for rabbithole event data
    * @param recallSetRepo - Repository for recall set data
    * @param recallPointRepo - Repository for recall point data
+   * @param scheduler - FSRS scheduler used for retrievability
    */
   constructor(
     private readonly sessionMetricsRepo: SessionMetricsRepository,
     private readonly recallOutcomeRepo: RecallOutcomeRepository,
     private readonly rabbitholeRepo: RabbitholeEventRepository,
     private readonly recallSetRepo: RecallSetRepository,
-    private readonly recallPointRepo: RecallPointRepository
+    private readonly recallPointRepo: RecallPointRepository,
+    private readonly scheduler: FSRSScheduler = new FSRSScheduler()
   ) {}
 
   /**
@@ -86,8 +112,13 @@ export class AnalyticsCalculator {
    * - Trend data over time
    * - Per-point analytics
    * - Rabbithole topic analysis
+   * - How often the learner overrode the AI's ratings
+   *
+   * Passing a mode limits every figure to sessions of that mode, e.g.
+   * 'review' to leave practice sessions out.
    *
    * @param recallSetId - The ID of the recall set to analyze
+   * @param mode - Only count sessions of this mode (all sessions if omitted)
    * @returns Comprehensive analytics for the recall set
    * @throws Error if the recall set is not found
    *
@@ -100,7 +131,8 @@ export class AnalyticsCalculator {
    * ```
    */
   async calculateRecallSetAnalytics(
-    recallSetId: string
+    recallSetId: string,
+    mode?: SessionMode
   ): Promise<RecallSetAnalytics> {
     // Fetch the recall set to get its name and verify it exists
     const recallSet = await this.recallSetRepo.findById(recallSetId);
@@ -110,7 +142,7 @@ export class AnalyticsCalculator {
 
     // Get aggregate statistics from session metrics using efficient SQL aggregation
     const aggregateStats =
-      await this.sessionMetricsRepo.getAggregateStats(recallSetId);
+      await this.sessionMetricsRepo.getAggregateStats(recallSetId, mode);
 
     // Get all recall points for this set to calculate per-point analytics
     const recallPoints =
@@ -118,14 +150,14 @@ export class AnalyticsCalculator {
 
     // Calculate analytics for each recall point in parallel for efficiency
     const pointAnalyticsPromises = recallPoints.map((point) =>
-      this.calculatePointAnalytics(point.id)
+      this.calculatePointAnalytics(point.id, mode)
     );
     const pointAnalytics = await Promise.all(pointAnalyticsPromises);
 
     // Get session metrics summaries for calculating total cost
     // We need this since aggregate stats don't include cost
     const sessionSummaries =
-      await this.sessionMetricsRepo.findSummariesByRecallSet(recallSetId);
+      await this.sessionMetricsRepo.findSummariesByRecallSet(recallSetId, mode);
     const totalCostUsd = sessionSummaries.reduce(
       (sum, s) => sum + s.costUsd,
       0
@@ -134,14 +166,22 @@ export class AnalyticsCalculator {
     // Calculate trend data for the last 30 days
     const recallRateTrend = await this.calculateRecallRateTrend(
       recallSetId,
-      30
+      30,
+      mode
     );
-    const engagementTrend = await this.calculateEngagementTrend(recallSetId, 30);
+    const engagementTrend = await this.calculateEngagementTrend(recallSetId, 30, mode);
 
     // Get top rabbithole topics for insight into common tangents
     const topRabbitholeTopics = await this.rabbitholeRepo.getTopTopics(
       recallSetId,
-      10
+      10,
+      mode
+    );
+
+    // Compare the learner's ratings with the AI's
+    const ratingOverrides = await this.calculateRatingOverrides(
+      recallPoints.map((point) => point.id),
+      mode
     );
 
     return {
@@ -156,6 +196,8 @@ export class AnalyticsCalculator {
       pointAnalytics,
       topRabbitholeTopics,
       totalCostUsd,
+      ratingOverrides,
+      sessionMode: mode ?? null,
     };
   }
 
@@ -168,6 +210,7 @@ export class AnalyticsCalculator {
    * complete picture of the point's learning status.
    *
    * @param recallPointId - The ID of the recall point to analyze
+   * @param mode - Only count outcomes from sessions of this mode (all if omitted)
    * @returns Analytics for the recall point
    * @throws Error if the recall point is not found
    *
@@ -181,7 +224,8 @@ export class AnalyticsCalculator {
    * ```
    */
   async calculatePointAnalytics(
-    recallPointId: string
+    recallPointId: string,
+    mode?: SessionMode
   ): Promise<RecallPointAnalytics> {
     // Fetch the recall point to get content and FSRS state
     const recallPoint = await this.recallPointRepo.findById(recallPointId);
@@ -191,12 +235,12 @@ export class AnalyticsCalculator {
 
     // Get aggregate statistics for this recall point using efficient SQL
     const stats =
-      await this.recallOutcomeRepo.getStatsForRecallPoint(recallPointId);
+      await this.recallOutcomeRepo.getStatsForRecallPoint(recallPointId, mode);
 
     // Get all outcomes to calculate average time to recall
     // This is less efficient but necessary for time calculation
     const outcomes =
-      await this.recallOutcomeRepo.findByRecallPointId(recallPointId);
+      await this.recallOutcomeRepo.findByRecallPointId(recallPointId, mode);
 
     // Calculate average time to recall from outcomes
     const avgTimeToRecallMs =
@@ -224,11 +268,118 @@ export class AnalyticsCalculator {
       avgTimeToRecallMs,
       currentStability: recallPoint.fsrsState.stability,
       currentDifficulty: recallPoint.fsrsState.difficulty,
+      currentRetrievability: this.scheduler.getRetrievability(recallPoint.fsrsState),
       daysUntilDue,
       isStruggling,
     };
   }
 
+  /**
+   * Calculate the FSRS model's view of memory across a recall set.
+   *
+   * For every reviewed point, the retention curve follows its forgetting
+   * curve from today for the given number of days, as if it weren't
+   * reviewed again; the set's curve is the average of its points' curves.
+   * Points never reviewed have no memory to model, so they are counted but
+   * left out of the curves, the average and the stability distribution.
+   *
+   * @param recallSetId - The ID of the recall set to analyze
+   * @param days - Days after today the retention curves cover
+   * @returns Retention curves, stability distribution and leeches
+   * @throws Error if the recall set is not found
+   *
+   * @example
+   * ```typescript
+   * const memory = await calculator.calculateMemoryAnalytics('rs_spanish_vocab', 30);
+   * const inAMonth = memory.retentionCurve[memory.retentionCurve.length - 1];
+   * console.log(`Expected recall in 30 days: ${(inAMonth.value * 100).toFixed(0)}%`);
+   * ```
+   */
+  async calculateMemoryAnalytics(
+    recallSetId: string,
+    days: number = 30
+  ): Promise<RecallSetMemoryAnalytics> {
+    const recallSet = await this.recallSetRepo.findById(recallSetId);
+    if (!recallSet) {
+      throw new Error(`RecallSet with id '${recallSetId}' not found`);
+    }
+
+    const recallPoints = await this.recallPointRepo.findByRecallSetId(recallSetId);
+    const now = new Date();
+    const points = recallPoints.map((point) => this.toMemoryState(point, now, days));
+    const reviewed = points.filter((point) => point.reps > 0);
+
+    // Average the reviewed points' curves day by day
+    const retentionCurve: TrendData[] = [];
+    if (reviewed.length > 0) {
+      for (let day = 0; day <= days; day++) {
+        const total = reviewed.reduce((sum, point) => sum + point.retentionCurve[day].value, 0);
+        retentionCurve.push({ date: reviewed[0].retentionCurve[day].date, value: total / reviewed.length });
+      }
+    }
+
+    const avgRetrievability =
+      reviewed.length > 0
+        ? reviewed.reduce((sum, point) => sum + point.retrievability, 0) / reviewed.length
+        : 0;
+
+    return {
+      recallSetId,
+      recallSetName: recallSet.name,
+      days,
+      reviewedPointCount: reviewed.length,
+      newPointCount: points.length - reviewed.length,
+      avgRetrievability,
+      retentionCurve,
+      stabilityDistribution: this.calculateStabilityDistribution(reviewed),
+      leeches: this.collectLeeches(recallPoints, resolveLeechLapseThreshold(recallSet)),
+      points,
+    };
+  }
+
+  /**
+   * Calculate the FSRS model's view of a single recall point's memory.
+   *
+   * @param recallPointId - The ID of the recall point
+   * @param days - Days after today the retention curve covers
+   * @returns The point's memory state and retention curve
+   * @throws Error if the recall point is not found
+   */
+  async calculatePointMemory(
+    recallPointId: string,
+    days: number = 30
+  ): Promise<PointMemoryState> {
+    const recallPoint = await this.recallPointRepo.findById(recallPointId);
+    if (!recallPoint) {
+      throw new Error(`RecallPoint with id '${recallPointId}' not found`);
+    }
+
+    return this.toMemoryState(recallPoint, new Date(), days);
+  }
+
+  /**
+   * Find the leeches in a recall set: points that keep being reviewed
+   * without sticking.
+   *
+   * A point is a leech when it has lapsed (been forgotten after being
+   * learned) at least as many times as the set's lapse threshold, or when
+   * it has been reviewed at least 5 times and its stability is still under
+   * a week. Suspended points are left out (see leech-detection.ts).
+   *
+   * @param recallSetId - The ID of the recall set
+   * @returns The set's leeches, most lapses first
+   * @throws Error if the recall set is not found
+   */
+  async findLeeches(recallSetId: string): Promise<LeechPoint[]> {
+    const recallSet = await this.recallSetRepo.findById(recallSetId);
+    if (!recallSet) {
+      throw new Error(`RecallSet with id '${recallSetId}' not found`);
+    }
+
+    const recallPoints = await this.recallPointRepo.findByRecallSetId(recallSetId);
+    return this.collectLeeches(recallPoints, resolveLeechLapseThreshold(recallSet));
+  }
+
   /**
    * Calculate global analytics across all recall sets.
    *
@@ -320,11 +471,13 @@ export class AnalyticsCalculator {
    *
    * @param recallSetId - The ID of the recall set to analyze
    * @param days - Number of days to include in the trend (default 30)
+   * @param mode - Only count sessions of this mode (all sessions if omitted)
    * @returns Array of trend data points, one per day with sessions
    */
   private async calculateRecallRateTrend(
     recallSetId: string,
-    days: number = 30
+    days: number = 30,
+    mode?: SessionMode
   ): Promise<TrendData[]> {
     // Calculate the date range for the trend
     const endDate = new Date();
@@ -335,7 +488,8 @@ export class AnalyticsCalculator {
     const summaries = await this.sessionMetricsRepo.findByDateRange(
       recallSetId,
       startDate,
-      endDate
+      endDate,
+      mode
     );
 
     // Group summaries by date and calculate average recall rate per day
@@ -367,11 +521,13 @@ export class AnalyticsCalculator {
    *
    * @param recallSetId - The ID of the recall set to analyze
    * @param days - Number of days to include in the trend (default 30)
+   * @param mode - Only count sessions of this mode (all sessions if omitted)
    * @returns Array of trend data points, one per day with sessions
    */
   private async calculateEngagementTrend(
     recallSetId: string,
-    days: number = 30
+    days: number = 30,
+    mode?: SessionMode
   ): Promise<TrendData[]> {
     // Calculate the date range for the trend
     const endDate = new Date();
@@ -382,7 +538,8 @@ export class AnalyticsCalculator {
     const summaries = await this.sessionMetricsRepo.findByDateRange(
       recallSetId,
       startDate,
-      endDate
+      endDate,
+      mode
     );
 
     // Group summaries by date and calculate average engagement per day
@@ -471,6 +628,50 @@ export class AnalyticsCalculator {
     return attempts >= MIN_ATTEMPTS && successRate < STRUGGLING_THRESHOLD;
   }
 
+  /**
+   * Count how often the learner replaced the AI's rating of a recall.
+   *
+   * Only outcomes with an AI rating count: outcomes recorded before ratings
+   * were kept, or evaluations that didn't end a point, have nothing to
+   * compare. A learner rating equal to the AI's counts as agreement.
+   *
+   * @param recallPointIds - The points whose outcomes to count
+   * @param mode - Only count outcomes from sessions of this mode (all if omitted)
+   * @returns Override counts and rate
+   */
+  private async calculateRatingOverrides(
+    recallPointIds: string[],
+    mode?: SessionMode
+  ): Promise<RatingOverrideStats> {
+    const outcomes = await this.recallOutcomeRepo.findByRecallPointIds(recallPointIds, mode);
+
+    let ratedCount = 0;
+    let learnerHigherCount = 0;
+    let learnerLowerCount = 0;
+    for (const { aiRating, learnerRating } of outcomes) {
+      if (!aiRating) {
+        continue;
+      }
+      ratedCount++;
+      if (learnerRating && learnerRating !== aiRating) {
+        if (toFSRSRating(learnerRating) > toFSRSRating(aiRating)) {
+          learnerHigherCount++;
+        } else {
+          learnerLowerCount++;
+        }
+      }
+    }
+
+    const overriddenCount = learnerHigherCount + learnerLowerCount;
+    return {
+      ratedCount,
+      overriddenCount,
+      overrideRate: ratedCount > 0 ? overriddenCount / ratedCount : 0,
+      learnerHigherCount,
+      learnerLowerCount,
+    };
+  }
+
   /**
    * Calculate days until a recall point is due.
    *
@@ -496,6 +697,63 @@ export class AnalyticsCalculator {
     return Math.ceil(diffMs / (1000 * 60 * 60 * 24));
   }
 
+  /**
+   * Build a recall point's memory state, with its retention curve from
+   * `now` for `days` days. Points never reviewed get an empty curve.
+   */
+  private toMemoryState(point: RecallPoint, now: Date, days: number): PointMemoryState {
+    const { fsrsState } = point;
+    const retentionCurve: TrendData[] = [];
+
+    if (fsrsState.reps > 0) {
+      for (let day = 0; day <= days; day++) {
+        const date = new Date(now.getTime() + day * MS_PER_DAY);
+        retentionCurve.push({ date, value: this.scheduler.getRetrievability(fsrsState, date) });
+      }
+    }
+
+    return {
+      recallPointId: point.id,
+      content: point.content,
+      stability: fsrsState.stability,
+      difficulty: fsrsState.difficulty,
+      retrievability: retentionCurve[0]?.value ?? 0,
+      reps: fsrsState.reps,
+      lapses: fsrsState.lapses,
+      lastReview: fsrsState.lastReview,
+      due: fsrsState.due,
+      retentionCurve,
+    };
+  }
+
+  /**
+   * Count reviewed points into the stability distribution's buckets.
+   */
+  private calculateStabilityDistribution(points: PointMemoryState[]): StabilityBucket[] {
+    return STABILITY_BUCKETS.map((bucket) => ({
+      ...bucket,
+      count: points.filter(
+        (point) =>
+          point.stability >= bucket.minDays &&
+          (bucket.maxDays === null || point.stability < bucket.maxDays)
+      ).length,
+    }));
+  }
+
+  /**
+   * Pick out the leeches among recall points, most lapses first.
+   */
+  private collectLeeches(points: RecallPoint[], lapseThreshold: number): LeechPoint[] {
+    return collectLeeches(points, lapseThreshold).map(({ point, reasons }) => ({
+      recallPointId: point.id,
+      content: point.content,
+      lapses: point.fsrsState.lapses,
+      reps: point.fsrsState.reps,
+      stability: point.fsrsState.stability,
+      reasons,
+    }));
+  }
+
   /**
    * Group items by their date (ignoring time).
    *
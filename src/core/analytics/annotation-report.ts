@@ -0,0 +1,154 @@
+/**
+ * Annotation Tag Reports
+ *
+ * Counts how often each annotation tag comes up, grouped by the prompt
+ * version the annotated sessions used or by their recall set. A tag like
+ * "too long" that drops off after a tutor prompt revision is the evidence a
+ * refinement round is after; one that sticks to a single recall set points
+ * at the set's content rather than at the prompts.
+ *
+ * Tags are free text. normalizeAnnotationTags() gives them one spelling
+ * before they are stored, so counts don't split over case and spacing.
+ */
+
+import type { PromptKind } from '../../llm/prompts';
+import type { AnnotationWithSession } from '../../storage/repositories';
+import { DAILY_REVIEW_NAME } from '../session/types';
+
+/**
+ * What annotations are grouped by in a tag report.
+ */
+export type AnnotationGrouping = 'prompt-version' | 'recall-set';
+
+/**
+ * How often one tag was used within a group.
+ */
+export interface AnnotationTagCount {
+  /** The tag */
+  tag: string;
+  /** Annotations in the group with this tag */
+  count: number;
+  /** Annotated sessions in the group with this tag */
+  sessionCount: number;
+}
+
+/**
+ * Tag counts for one prompt version or recall set.
+ */
+export interface AnnotationTagGroup {
+  /** Prompt version or recall set ID (null for sessions without recorded
+   *  prompt versions, or for daily reviews) */
+  key: string | null;
+  /** Display name of the group */
+  label: string;
+  /** Annotations in the group */
+  annotationCount: number;
+  /** Sessions in the group with at least one annotation */
+  sessionCount: number;
+  /** Tags used in the group, most frequent first */
+  tags: AnnotationTagCount[];
+}
+
+/**
+ * Tag frequencies of annotations, by prompt version or by recall set.
+ */
+export interface AnnotationTagReport {
+  /** What the annotations are grouped by */
+  groupBy: AnnotationGrouping;
+  /** The prompt kind whose versions define the groups (null when grouped by recall set) */
+  promptKind: PromptKind | null;
+  /** Annotations in the report */
+  annotationCount: number;
+  /** The groups, with the most annotations first */
+  groups: AnnotationTagGroup[];
+}
+
+/**
+ * Running counts for one group while a report is built.
+ */
+interface GroupTally {
+  label: string;
+  annotationCount: number;
+  sessionIds: Set<string>;
+  /** Annotations per tag */
+  tagCounts: Map<string, number>;
+  /** Sessions per tag */
+  tagSessions: Map<string, Set<string>>;
+}
+
+/**
+ * Label for sessions started before prompt versions were recorded.
+ */
+const UNRECORDED_PROMPT_VERSION = 'Unrecorded';
+
+/**
+ * Normalizes annotation tags: trimmed, lowercase, inner whitespace
+ * collapsed, empty tags and duplicates removed.
+ *
+ * @param tags - Tags as entered
+ * @returns The tags to store, in their original order
+ */
+export function normalizeAnnotationTags(tags: string[]): string[] {
+  const normalized = tags.map((tag) => tag.trim().toLowerCase().replace(/\s+/g, ' '));
+  return [...new Set(normalized.filter((tag) => tag.length > 0))];
+}
+
+/**
+ * Builds a report of how often each tag was used.
+ *
+ * @param annotations - Annotations with their sessions' details (see
+ *                      SessionAnnotationRepository.findWithSessions)
+ * @param groupBy - Group by prompt version or by recall set
+ * @param promptKind - Whose prompt versions to group by (default: the tutor's)
+ * @returns The report
+ */
+export function buildAnnotationTagReport(
+  annotations: AnnotationWithSession[],
+  groupBy: AnnotationGrouping,
+  promptKind: PromptKind = 'tutor'
+): AnnotationTagReport {
+  const groups = new Map<string | null, GroupTally>();
+
+  for (const { annotation, recallSetId, recallSetName, promptVersions } of annotations) {
+    const key = groupBy === 'prompt-version' ? (promptVersions?.[promptKind] ?? null) : recallSetId;
+    const label =
+      groupBy === 'prompt-version'
+        ? (key ?? UNRECORDED_PROMPT_VERSION)
+        : recallSetId === null
+          ? DAILY_REVIEW_NAME
+          : (recallSetName ?? recallSetId);
+
+    let group = groups.get(key);
+    if (!group) {
+      group = { label, annotationCount: 0, sessionIds: new Set(), tagCounts: new Map(), tagSessions: new Map() };
+      groups.set(key, group);
+    }
+
+    group.annotationCount++;
+    group.sessionIds.add(annotation.sessionId);
+    for (const tag of annotation.tags) {
+      group.tagCounts.set(tag, (group.tagCounts.get(tag) ?? 0) + 1);
+      const sessions = group.tagSessions.get(tag) ?? new Set<string>();
+      sessions.add(annotation.sessionId);
+      group.tagSessions.set(tag, sessions);
+    }
+  }
+
+  const reportGroups: AnnotationTagGroup[] = [...groups.entries()].map(([key, group]) => ({
+    key,
+    label: group.label,
+    annotationCount: group.annotationCount,
+    sessionCount: group.sessionIds.size,
+    tags: [...group.tagCounts.entries()]
+      .map(([tag, count]) => ({ tag, count, sessionCount: group.tagSessions.get(tag)!.size }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag)),
+  }));
+  reportGroups.sort((a, b) => b.annotationCount - a.annotationCount || a.label.localeCompare(b.label));
+
+  return {
+    groupBy,
+    promptKind: groupBy === 'prompt-version' ? promptKind : null,
+    annotationCount: annotations.length,
+    groups: reportGroups,
+  };
+}
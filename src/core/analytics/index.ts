@@ -12,6 +12,8 @@
  * - Aggregate analytics across sessions and recall sets
  * - Trend analysis for recall rates and engagement
  * - Identification of struggling recall points
+ * - Retention curves, stability distribution and leeches from FSRS state
+ * - Tag frequencies of session annotations
  *
  * @example
  * ```typescript
@@ -41,10 +43,25 @@ export type { ModelPricing, ClaudeModel } from './token-costs';
 // Session analytics calculator for aggregate insights
 export { AnalyticsCalculator } from './analytics-calculator';
 
+// Tag frequencies of session annotations, by prompt version or recall set
+export { buildAnnotationTagReport, normalizeAnnotationTags } from './annotation-report';
+export type {
+  AnnotationGrouping,
+  AnnotationTagCount,
+  AnnotationTagGroup,
+  AnnotationTagReport,
+} from './annotation-report';
+
 // Analytics types for trend data and aggregate statistics
 export type {
   TrendData,
   RecallSetAnalytics,
   RecallPointAnalytics,
+  RatingOverrideStats,
   GlobalAnalytics,
+  LeechReason,
+  LeechPoint,
+  StabilityBucket,
+  PointMemoryState,
+  RecallSetMemoryAnalytics,
 } from './types';
@@ -10,10 +10,16 @@
  * 2. RecallSetAnalytics - Detailed analytics for a specific recall set
  * 3. RecallPointAnalytics - Granular analytics for individual recall points
  *
+ * Alongside these, the memory analytics (RecallSetMemoryAnalytics and
+ * PointMemoryState) give the FSRS model's view of memory: retrievability
+ * curves, the stability distribution, and leeches.
+ *
  * All analytics types are designed to be computed from stored session data
  * and cached or recomputed as needed for dashboard displays.
  */
 
+import type { SessionMode } from '../models';
+
 /**
  * A single data point in a time series trend.
  *
@@ -68,6 +74,7 @@ export interface TrendData {
  *     { topic: 'Regional dialects', count: 5, avgDepth: 1.5 }
  *   ],
  *   totalCostUsd: 2.35,
+ *   ratingOverrides: { ratedCount: 120, overriddenCount: 18, overrideRate: 0.15, learnerHigherCount: 5, learnerLowerCount: 13 },
  * };
  * ```
  */
@@ -145,6 +152,39 @@ export interface RecallSetAnalytics {
    * Useful for budgeting and cost monitoring.
    */
   totalCostUsd: number;
+
+  /**
+   * How often the learner replaced the AI's rating of a recall.
+   */
+  ratingOverrides: RatingOverrideStats;
+
+  /**
+   * Session mode the analytics were limited to, or null when review and
+   * practice sessions are both counted.
+   */
+  sessionMode: SessionMode | null;
+}
+
+/**
+ * How often learners override the rating derived from the AI's evaluation,
+ * and in which direction. Frequent overrides in one direction suggest the
+ * evaluator is too strict or too lenient for the material.
+ */
+export interface RatingOverrideStats {
+  /** Outcomes rated by the AI (outcomes recorded before ratings were kept aren't counted) */
+  ratedCount: number;
+
+  /** Outcomes where the learner chose a different rating than the AI */
+  overriddenCount: number;
+
+  /** overriddenCount / ratedCount (0 when nothing was rated) */
+  overrideRate: number;
+
+  /** Overrides where the learner rated their recall higher than the AI did */
+  learnerHigherCount: number;
+
+  /** Overrides where the learner rated their recall lower than the AI did */
+  learnerLowerCount: number;
 }
 
 /**
@@ -167,6 +207,7 @@ export interface RecallSetAnalytics {
  *   avgTimeToRecallMs: 3500,
  *   currentStability: 25.5,
  *   currentDifficulty: 4.2,
+ *   currentRetrievability: 0.93,
  *   daysUntilDue: 12,
  *   isStruggling: false,
  * };
@@ -216,6 +257,13 @@ export interface RecallPointAnalytics {
    */
   currentDifficulty: number;
 
+  /**
+   * Probability (0.0 to 1.0) the FSRS model gives of recalling the point
+   * now, from its stability and the time since its last review.
+   * 0 for a point that has never been reviewed.
+   */
+  currentRetrievability: number;
+
   /**
    * Days until this recall point is due for review.
    * Positive values = due in the future.
@@ -302,3 +350,178 @@ export interface GlobalAnalytics {
    */
   recentActivity: TrendData[];
 }
+
+/**
+ * Why a recall point is considered a leech.
+ * - 'lapses': It has been forgotten after being learned repeatedly
+ * - 'flat-stability': Many reviews haven't built up its stability
+ */
+export type LeechReason = 'lapses' | 'flat-stability';
+
+/**
+ * A recall point that keeps cycling through reviews without sticking.
+ *
+ * @example
+ * ```typescript
+ * const leech: LeechPoint = {
+ *   recallPointId: 'rp_subjunctive',
+ *   content: 'The subjunctive follows "espero que"',
+ *   lapses: 5,
+ *   reps: 11,
+ *   stability: 2.4,
+ *   reasons: ['lapses', 'flat-stability'],
+ * };
+ * ```
+ */
+export interface LeechPoint {
+  /** Unique identifier of the recall point */
+  recallPointId: string;
+
+  /** The content/knowledge being tested */
+  content: string;
+
+  /** Times the point was forgotten after being learned */
+  lapses: number;
+
+  /** Times the point has been reviewed */
+  reps: number;
+
+  /** Current FSRS stability in days */
+  stability: number;
+
+  /** Why the point is a leech */
+  reasons: LeechReason[];
+}
+
+/**
+ * Number of reviewed points whose stability falls in a range, for a
+ * stability distribution histogram.
+ */
+export interface StabilityBucket {
+  /** Display label of the range, e.g. '7-30d' */
+  label: string;
+
+  /** Lower bound of the range in days (inclusive) */
+  minDays: number;
+
+  /** Upper bound of the range in days (exclusive), or null for no bound */
+  maxDays: number | null;
+
+  /** Reviewed points with a stability in the range */
+  count: number;
+}
+
+/**
+ * The FSRS model's view of one recall point's memory.
+ *
+ * The retention curve shows how retrievability falls from today if the
+ * point isn't reviewed again, following the forgetting curve its current
+ * stability gives.
+ *
+ * @example
+ * ```typescript
+ * const memory: PointMemoryState = {
+ *   recallPointId: 'rp_spanish_hola',
+ *   content: 'Hola means "Hello" in Spanish',
+ *   stability: 25.5,
+ *   difficulty: 4.2,
+ *   retrievability: 0.93,
+ *   reps: 6,
+ *   lapses: 0,
+ *   lastReview: new Date('2024-01-12'),
+ *   due: new Date('2024-02-06'),
+ *   retentionCurve: [
+ *     { date: new Date('2024-01-20'), value: 0.93 },
+ *     { date: new Date('2024-01-21'), value: 0.92 },
+ *   ],
+ * };
+ * ```
+ */
+export interface PointMemoryState {
+  /** Unique identifier of the recall point */
+  recallPointId: string;
+
+  /** The content/knowledge being tested */
+  content: string;
+
+  /** Current FSRS stability in days (0 if never reviewed) */
+  stability: number;
+
+  /** Current FSRS difficulty (1.0 to 10.0) */
+  difficulty: number;
+
+  /** Probability of recalling the point now (0 if never reviewed) */
+  retrievability: number;
+
+  /** Times the point has been reviewed */
+  reps: number;
+
+  /** Times the point was forgotten after being learned */
+  lapses: number;
+
+  /** When the point was last reviewed (null if never) */
+  lastReview: Date | null;
+
+  /** When the point is next due */
+  due: Date;
+
+  /**
+   * Retrievability for each day from today without further review
+   * (empty if the point has never been reviewed).
+   */
+  retentionCurve: TrendData[];
+}
+
+/**
+ * The FSRS model's view of memory across a recall set.
+ *
+ * @example
+ * ```typescript
+ * const memory: RecallSetMemoryAnalytics = {
+ *   recallSetId: 'rs_spanish_vocab',
+ *   recallSetName: 'Spanish Vocabulary',
+ *   days: 30,
+ *   reviewedPointCount: 42,
+ *   newPointCount: 8,
+ *   avgRetrievability: 0.88,
+ *   retentionCurve: [...],
+ *   stabilityDistribution: [...],
+ *   leeches: [...],
+ *   points: [...],
+ * };
+ * ```
+ */
+export interface RecallSetMemoryAnalytics {
+  /** Unique identifier of the recall set */
+  recallSetId: string;
+
+  /** Human-readable name of the recall set */
+  recallSetName: string;
+
+  /** Number of days the retention curves cover, after today */
+  days: number;
+
+  /** Points reviewed at least once (the ones the model has a view of) */
+  reviewedPointCount: number;
+
+  /** Points never reviewed */
+  newPointCount: number;
+
+  /** Average retrievability of the reviewed points now (0 without any) */
+  avgRetrievability: number;
+
+  /**
+   * Average retrievability of the reviewed points for each day from
+   * today without further review.
+   */
+  retentionCurve: TrendData[];
+
+  /** Reviewed points by stability range, shortest first */
+  stabilityDistribution: StabilityBucket[];
+
+  /** The set's leeches, most lapses first */
+  leeches: LeechPoint[];
+
+  /** Memory state and retention curve of every point in the set */
+  points: PointMemoryState[];
+}
@@ -0,0 +1,216 @@
+/**
+ * Auth Service
+ *
+ * Handles account registration, password login, and login tokens:
+ *
+ * 1. **Register**: Validate the input, hash the password with Bun.password
+ *    (argon2id), and create the user. The very first account on a deployment
+ *    takes ownership of all existing (unowned) recall sets and sessions, so a
+ *    single-user database carries over when accounts are switched on.
+ * 2. **Login**: Verify the password against the stored hash and record the
+ *    login time.
+ * 3. **Tokens**: Both flows return an HS256 JWT whose subject is the user ID.
+ *    The API sends it as an httpOnly cookie and also accepts it as a Bearer
+ *    token. authenticate() turns a token back into a User, returning null for
+ *    anything invalid, expired, or belonging to a deleted account.
+ *
+ * Tokens are stateless: logging out clears the cookie, but a copied token
+ * stays valid until it expires.
+ *
+ * @example
+ * ```typescript
+ * const auth = new AuthService(
+ *   {
+ *     userRepo: new UserRepository(db),
+ *     recallSetRepo: new RecallSetRepository(db),
+ *     sessionRepo: new SessionRepository(db),
+ *   },
+ *   { jwtSecret: getJwtSecret() }
+ * );
+ *
+ * const { user, token } = await auth.login('ada@example.com', password);
+ * const sameUser = await auth.authenticate(token);
+ * ```
+ */
+
+import { sign, verify } from 'hono/jwt';
+import type { User } from '../models';
+import {
+  AuthError,
+  DEFAULT_AUTH_CONFIG,
+  type AuthServiceConfig,
+  type AuthServiceDependencies,
+  type AuthResult,
+  type RegisterInput,
+} from './types';
+
+/**
+ * Loose email shape check; the address is never used to send mail.
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Generates a unique user ID.
+ *
+ * @returns A prefixed unique identifier (e.g., 'usr_abc123...')
+ */
+function generateUserId(): string {
+  return `usr_${crypto.randomUUID()}`;
+}
+
+/**
+ * Registers and authenticates users.
+ */
+export class AuthService {
+  private deps: AuthServiceDependencies;
+  private config: AuthServiceConfig;
+
+  /**
+   * Creates a new AuthService.
+   *
+   * @param deps - User, recall set, and session repositories
+   * @param config - Token secret plus optional configuration overrides
+   */
+  constructor(
+    deps: AuthServiceDependencies,
+    config: Partial<AuthServiceConfig> & Pick<AuthServiceConfig, 'jwtSecret'>
+  ) {
+    this.deps = deps;
+    this.config = { ...DEFAULT_AUTH_CONFIG, ...config };
+  }
+
+  /**
+   * How long issued tokens stay valid, in seconds (for cookie max-age).
+   */
+  get tokenTtlSeconds(): number {
+    return this.config.tokenTtlHours * 60 * 60;
+  }
+
+  // ===========================================================================
+  // Register & Login
+  // ===========================================================================
+
+  /**
+   * Creates a new account and logs it in.
+   *
+   * The first account can always be registered. Later accounts require
+   * allowRegistration. The first account also claims all unowned recall sets
+   * and sessions.
+   *
+   * @param input - Email, display name, and password
+   * @returns The new user and a login token
+   * @throws AuthError if the input is invalid, the email is taken, or
+   *         registration is closed
+   */
+  async register(input: RegisterInput): Promise<AuthResult> {
+    const email = input.email.trim().toLowerCase();
+    const name = input.name.trim();
+
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new AuthError('A valid email address is required', 'invalid_input');
+    }
+    if (!name) {
+      throw new AuthError('Name cannot be empty', 'invalid_input');
+    }
+    if (input.password.length < this.config.minPasswordLength) {
+      throw new AuthError(
+        `Password must be at least ${this.config.minPasswordLength} characters`,
+        'invalid_input'
+      );
+    }
+
+    const isFirstUser = (await this.deps.userRepo.count()) === 0;
+    if (!isFirstUser && !this.config.allowRegistration) {
+      throw new AuthError('Registration is closed on this server', 'registration_closed');
+    }
+
+    if (await this.deps.userRepo.findByEmail(email)) {
+      throw new AuthError(`An account for '${email}' already exists`, 'email_taken');
+    }
+
+    const user = await this.deps.userRepo.create({
+      id: generateUserId(),
+      email,
+      name,
+      passwordHash: await Bun.password.hash(input.password),
+    });
+
+    if (isFirstUser) {
+      await this.deps.recallSetRepo.claimUnowned(user.id);
+      await this.deps.sessionRepo.claimUnowned(user.id);
+    }
+
+    return this.login(email, input.password);
+  }
+
+  /**
+   * Verifies an email and password and issues a login token.
+   *
+   * @param email - Login email address (case-insensitive)
+   * @param password - Plain-text password
+   * @returns The user and a login token
+   * @throws AuthError with type 'invalid_credentials' if the email is unknown
+   *         or the password is wrong
+   */
+  async login(email: string, password: string): Promise<AuthResult> {
+    const credentials = await this.deps.userRepo.findCredentialsByEmail(email);
+    const valid =
+      credentials !== null && (await Bun.password.verify(password, credentials.passwordHash));
+
+    if (!credentials || !valid) {
+      throw new AuthError('Invalid email or password', 'invalid_credentials');
+    }
+
+    const user = await this.deps.userRepo.update(credentials.user.id, {
+      lastLoginAt: new Date(),
+    });
+
+    return this.issueToken(user);
+  }
+
+  // ===========================================================================
+  // Tokens
+  // ===========================================================================
+
+  /**
+   * Resolves a login token to its user.
+   *
+   * @param token - A token from register/login, or null
+   * @returns The user, or null if the token is missing, invalid, expired,
+   *          or belongs to an account that no longer exists
+   */
+  async authenticate(token: string | null | undefined): Promise<User | null> {
+    if (!token) {
+      return null;
+    }
+
+    let subject: unknown;
+    try {
+      const payload = await verify(token, this.config.jwtSecret, 'HS256');
+      subject = payload.sub;
+    } catch {
+      return null;
+    }
+
+    if (typeof subject !== 'string') {
+      return null;
+    }
+
+    return this.deps.userRepo.findById(subject);
+  }
+
+  /**
+   * Signs a login token for a user.
+   */
+  private async issueToken(user: User): Promise<AuthResult> {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = issuedAt + this.tokenTtlSeconds;
+
+    const token = await sign(
+      { sub: user.id, iat: issuedAt, exp: expiresAt },
+      this.config.jwtSecret
+    );
+
+    return { user, token, expiresAt: new Date(expiresAt * 1000) };
+  }
+}
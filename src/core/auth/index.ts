@@ -0,0 +1,42 @@
+/**
+ * Auth Module - Barrel Export
+ *
+ * This module provides user accounts for shared deployments.
+ *
+ * The primary service is AuthService, which:
+ * - Registers accounts with argon2id password hashes (via Bun.password)
+ * - Logs users in and issues signed JWT login tokens
+ * - Resolves tokens back to users for the API's user context middleware
+ * - Hands existing unowned data to the first account that registers
+ *
+ * @example
+ * ```typescript
+ * import { AuthService } from '@/core/auth';
+ *
+ * const auth = new AuthService(
+ *   { userRepo, recallSetRepo, sessionRepo },
+ *   { jwtSecret: getJwtSecret() }
+ * );
+ *
+ * const { token } = await auth.register({
+ *   email: 'ada@example.com',
+ *   name: 'Ada',
+ *   password: 'correct horse battery',
+ * });
+ * const user = await auth.authenticate(token);
+ * ```
+ */
+
+// Main auth service
+export { AuthService } from './auth-service';
+
+// Configuration, dependency, input, and error types
+export {
+  type AuthServiceConfig,
+  type AuthServiceDependencies,
+  type RegisterInput,
+  type AuthResult,
+  type AuthErrorType,
+  AuthError,
+  DEFAULT_AUTH_CONFIG,
+} from './types';
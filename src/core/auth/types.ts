@@ -0,0 +1,102 @@
+/**
+ * Authentication Types
+ *
+ * Configuration, dependency, input, and error types for the AuthService.
+ * The User domain type lives in core/models.
+ */
+
+import type { User } from '../models';
+import type {
+  UserRepository,
+  RecallSetRepository,
+  SessionRepository,
+} from '../../storage/repositories';
+
+/**
+ * Configuration options for the AuthService.
+ */
+export interface AuthServiceConfig {
+  /** Secret used to sign and verify login tokens (HS256) */
+  jwtSecret: string;
+
+  /** How long an issued token stays valid, in hours */
+  tokenTtlHours: number;
+
+  /** Whether accounts beyond the first can register themselves */
+  allowRegistration: boolean;
+
+  /** Minimum accepted password length */
+  minPasswordLength: number;
+}
+
+/**
+ * Default AuthService configuration (without the secret, which must be supplied).
+ */
+export const DEFAULT_AUTH_CONFIG: Omit<AuthServiceConfig, 'jwtSecret'> = {
+  tokenTtlHours: 168,
+  allowRegistration: true,
+  minPasswordLength: 8,
+};
+
+/**
+ * Dependencies required by the AuthService.
+ */
+export interface AuthServiceDependencies {
+  /** Repository for user accounts */
+  userRepo: UserRepository;
+
+  /** Unscoped recall set repository, used to hand existing sets to the first user */
+  recallSetRepo: RecallSetRepository;
+
+  /** Unscoped session repository, used to hand existing sessions to the first user */
+  sessionRepo: SessionRepository;
+}
+
+/**
+ * Input for registering a new account.
+ */
+export interface RegisterInput {
+  /** Login email address */
+  email: string;
+  /** Display name */
+  name: string;
+  /** Plain-text password (hashed before storage) */
+  password: string;
+}
+
+/**
+ * Result of a successful registration or login.
+ */
+export interface AuthResult {
+  /** The authenticated user */
+  user: User;
+  /** Signed token to send as a cookie or Bearer header */
+  token: string;
+  /** When the token expires */
+  expiresAt: Date;
+}
+
+/**
+ * Error types that can occur during registration and login.
+ * These let the API layer choose the right status code.
+ */
+export type AuthErrorType =
+  | 'invalid_credentials'   // Unknown email or wrong password
+  | 'email_taken'           // Email already registered
+  | 'registration_closed'   // Self-registration is disabled
+  | 'invalid_input';        // Missing name/email or password too short
+
+/**
+ * Custom error class for authentication failures.
+ * Includes the error type for easier handling.
+ */
+export class AuthError extends Error {
+  /** The type of error that occurred */
+  type: AuthErrorType;
+
+  constructor(message: string, type: AuthErrorType) {
+    super(message);
+    this.name = 'AuthError';
+    this.type = type;
+  }
+}
@@ -6,9 +6,10 @@
  * recall set analytics, session metrics, and recall point status into
  * dashboard-ready data structures.
  *
- * The aggregator provides two main views:
+ * The aggregator provides three main views:
  * 1. Overview - System-wide summary across all recall sets
  * 2. RecallSetDashboard - Detailed analytics for a single recall set
+ * 3. ReviewForecast - Projected daily review load over the coming days
  *
  * All data is computed on-demand from stored session and analytics data.
  * For frequently accessed dashboards, consider caching the results.
@@ -38,9 +39,14 @@ import type { RecallSetRepository } from '../../storage/repositories/recall-set.
 import type { RecallPointRepository } from '../../storage/repositories/recall-point.repository';
 import type { SessionRepository } from '../../storage/repositories/session.repository';
 import type { SessionMetricsRepository } from '../../storage/repositories/session-metrics.repository';
+import type { FSRSParametersRepository } from '../../storage/repositories/fsrs-parameters.repository';
 import type { AnalyticsCalculator } from '../analytics';
+import { FSRSScheduler } from '../fsrs';
+import type { FSRSState } from '../models';
 import type { RecallSet } from '../models/recall-set';
 import type { Session } from '../models/session';
+import { DAILY_REVIEW_NAME } from '../session/types';
+import { resolveSessionLimits, countPointsIntroducedToday } from '../session/session-planner';
 import type {
   DashboardOverview,
   RecallSetDashboard,
@@ -49,6 +55,9 @@ import type {
   PointStatusBreakdown,
   RecallPointSummary,
   ChartDataPoint,
+  ForecastDay,
+  ForecastRecallSet,
+  ReviewForecast,
 } from './types';
 
 /**
@@ -61,6 +70,8 @@ const STRUGGLING_MIN_ATTEMPTS = 3; // minimum attempts to be considered struggli
 const UPCOMING_REVIEW_DAYS = 7; // days ahead to consider for upcoming reviews
 const RECENT_SESSIONS_LIMIT = 10; // max recent sessions to include
 const UPCOMING_REVIEWS_LIMIT = 20; // max upcoming reviews to include
+const DEFAULT_MINUTES_PER_POINT = 2; // minutes - assumed per review without any session history
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
 
 /**
  * Aggregates data for dashboard views.
@@ -82,13 +93,18 @@ export class DashboardDataAggregator {
    * @param sessionRepo - Repository for session data
    * @param metricsRepo - Repository for session metrics data
    * @param analyticsCalc - Calculator for recall set analytics
+   * @param scheduler - Scheduler used to project reviews for the forecast
+   * @param fsrsParametersRepo - Repository for FSRS weights fitted to the
+   *   learner's history, used in the forecast where they exist
    */
   constructor(
     private recallSetRepo: RecallSetRepository,
     private recallPointRepo: RecallPointRepository,
     private sessionRepo: SessionRepository,
     private metricsRepo: SessionMetricsRepository,
-    private analyticsCalc: AnalyticsCalculator
+    private analyticsCalc: AnalyticsCalculator,
+    private scheduler: FSRSScheduler = new FSRSScheduler(),
+    private fsrsParametersRepo?: FSRSParametersRepository
   ) {}
 
   /**
@@ -217,10 +233,16 @@ export class DashboardDataAggregator {
     const recallRateHistory = this.toChartData(analytics.recallRateTrend);
     const engagementHistory = this.toChartData(analytics.engagementTrend);
 
-    // Get recent sessions for this specific recall set
+    // Get recent sessions for this specific recall set, including daily
+    // reviews that covered any of its points
     const allSessions = await this.sessionRepo.findAll();
-    const setSessions = allSessions.filter(
-      (s) => s.recallSetId === recallSetId
+    const setPointIds = new Set(
+      (await this.recallPointRepo.findByRecallSetId(recallSetId)).map((p) => p.id)
+    );
+    const setSessions = allSessions.filter((s) =>
+      s.recallSetId === null
+        ? s.targetRecallPointIds.some((id) => setPointIds.has(id))
+        : s.recallSetId === recallSetId
     );
     const recentSessions = await this.getRecentSessions(
       setSessions,
@@ -294,6 +316,11 @@ export class DashboardDataAggregator {
       const points = await this.recallPointRepo.findByRecallSetId(recallSet.id);
 
       for (const point of points) {
+        // Suspended points are never scheduled
+        if (point.suspendedAt) {
+          continue;
+        }
+
         // Skip points that are due far in the future
         const dueDate = point.fsrsState.due;
         if (dueDate && dueDate > upcomingCutoff) {
@@ -329,6 +356,147 @@ export class DashboardDataAggregator {
     return upcomingReviews;
   }
 
+  /**
+   * Forecast the review load over the coming days, per recall set.
+   *
+   * Each point of an active recall set is projected forward from its FSRS
+   * due date: overdue points count today, and every projected review is
+   * assumed successful ('good'), so the point comes back after the interval
+   * its stability gives under the set's scheduler. A point is reviewed at
+   * most once a day, so a learning step due later the same day counts the
+   * next day. New points are introduced as the session planner draws them:
+   * oldest first, up to the set's new points per day and at most a
+   * session's worth a day, so a large set of new points is spread over the
+   * days it takes to introduce them. Study minutes are estimated from each set's historical
+   * minutes per point in review sessions, falling back to the average
+   * across sets, and to a default without any history.
+   *
+   * @param days - Number of days to forecast, starting today
+   * @returns The projected daily load and per-set totals
+   *
+   * @example
+   * ```typescript
+   * const forecast = await aggregator.getReviewForecast(30);
+   * const busiest = Math.max(...forecast.dailyLoad.map((d) => d.estimatedMinutes));
+   * console.log(`Busiest day: ${busiest} minutes`);
+   * ```
+   */
+  async getReviewForecast(days: number): Promise<ReviewForecast> {
+    const allRecallSets = await this.recallSetRepo.findAll();
+    const activeRecallSets = allRecallSets.filter((rs) => rs.status === 'active');
+
+    // Days are counted from the start of today
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const dailyLoad: ForecastDay[] = [];
+    for (let day = 0; day < days; day++) {
+      const date = new Date(today);
+      date.setDate(date.getDate() + day);
+      dailyLoad.push({ date: this.toDateKey(date), dueCount: 0, estimatedMinutes: 0, recallSets: [] });
+    }
+
+    // Historical minutes per point from each set's scheduled (review and deep-dive) sessions
+    const setStats = await Promise.all(
+      activeRecallSets.map((rs) => this.metricsRepo.getAggregateStats(rs.id, 'scheduled'))
+    );
+    const totalTimeMs = setStats.reduce((sum, stats) => sum + stats.totalTimeMs, 0);
+    const totalAttempts = setStats.reduce((sum, stats) => sum + stats.totalRecallAttempts, 0);
+    const fallbackMinutesPerPoint =
+      totalAttempts > 0 ? totalTimeMs / totalAttempts / 60000 : DEFAULT_MINUTES_PER_POINT;
+
+    const recallSets: ForecastRecallSet[] = [];
+
+    for (const [index, recallSet] of activeRecallSets.entries()) {
+      const stats = setStats[index];
+      const minutesPerPoint =
+        stats.totalRecallAttempts > 0
+          ? stats.totalTimeMs / stats.totalRecallAttempts / 60000
+          : fallbackMinutesPerPoint;
+
+      // Count the set's projected reviews on each day; suspended points are
+      // never scheduled
+      const scheduler = await this.schedulerFor(recallSet);
+      const points = (await this.recallPointRepo.findByRecallSetId(recallSet.id)).filter(
+        (point) => !point.suspendedAt
+      );
+      const dueCounts = new Array<number>(days).fill(0);
+      for (const point of points.filter((p) => p.fsrsState.state !== 'new')) {
+        for (const day of this.projectReviewDays(point.fsrsState, scheduler, today, days)) {
+          dueCounts[day]++;
+        }
+      }
+
+      // New points are first reviewed on the day they're introduced: what is
+      // left of today's allowance, then a full allowance each following day
+      // (none at all if the set introduces no new points)
+      const { maxPoints, newPointsPerDay } = resolveSessionLimits(recallSet);
+      const dailyNewLimit = Math.min(newPointsPerDay ?? Infinity, maxPoints ?? Infinity);
+      const todayNewLimit =
+        newPointsPerDay === null
+          ? dailyNewLimit
+          : Math.min(Math.max(newPointsPerDay - countPointsIntroducedToday(points), 0), dailyNewLimit);
+      const newPoints =
+        dailyNewLimit === 0
+          ? []
+          : points
+              .filter((p) => p.fsrsState.state === 'new')
+              .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      for (const [index, point] of newPoints.entries()) {
+        const introductionDay =
+          index < todayNewLimit ? 0 : 1 + Math.floor((index - todayNewLimit) / dailyNewLimit);
+        if (introductionDay >= days) {
+          break;
+        }
+        const introducedAt = new Date(today);
+        introducedAt.setDate(introducedAt.getDate() + introductionDay);
+        const state = {
+          ...point.fsrsState,
+          due: point.fsrsState.due > introducedAt ? point.fsrsState.due : introducedAt,
+        };
+        for (const day of this.projectReviewDays(state, scheduler, today, days)) {
+          dueCounts[day]++;
+        }
+      }
+
+      let setDueCount = 0;
+      for (const [day, dueCount] of dueCounts.entries()) {
+        if (dueCount === 0) {
+          continue;
+        }
+        const estimatedMinutes = dueCount * minutesPerPoint;
+        dailyLoad[day].dueCount += dueCount;
+        dailyLoad[day].estimatedMinutes += estimatedMinutes;
+        dailyLoad[day].recallSets.push({
+          recallSetId: recallSet.id,
+          dueCount,
+          estimatedMinutes: this.roundMinutes(estimatedMinutes),
+        });
+        setDueCount += dueCount;
+      }
+
+      recallSets.push({
+        recallSetId: recallSet.id,
+        recallSetName: recallSet.name,
+        minutesPerPoint: this.roundMinutes(minutesPerPoint),
+        dueCount: setDueCount,
+        estimatedMinutes: this.roundMinutes(setDueCount * minutesPerPoint),
+      });
+    }
+
+    const totalEstimatedMinutes = dailyLoad.reduce((sum, day) => sum + day.estimatedMinutes, 0);
+    for (const day of dailyLoad) {
+      day.estimatedMinutes = this.roundMinutes(day.estimatedMinutes);
+    }
+
+    return {
+      days,
+      dailyLoad,
+      recallSets,
+      totalDueCount: dailyLoad.reduce((sum, day) => sum + day.dueCount, 0),
+      totalEstimatedMinutes: this.roundMinutes(totalEstimatedMinutes),
+    };
+  }
+
   /**
    * Calculate point status breakdown for a recall set.
    *
@@ -595,6 +763,88 @@ export class DashboardDataAggregator {
     return Math.ceil(diffMs / (1000 * 60 * 60 * 24));
   }
 
+  /**
+   * Project the days of the forecast on which a point will be reviewed,
+   * assuming each review is rated 'good'.
+   *
+   * @param fsrsState - The point's current FSRS state
+   * @param scheduler - The scheduler for the point's recall set
+   * @param today - Start of today, the forecast's first day
+   * @param days - Number of days in the forecast
+   * @returns Day offsets from today, one per projected review, ascending
+   */
+  private projectReviewDays(
+    fsrsState: FSRSState,
+    scheduler: FSRSScheduler,
+    today: Date,
+    days: number
+  ): number[] {
+    const horizon = new Date(today);
+    horizon.setDate(horizon.getDate() + days);
+
+    // A point that is already due is reviewed now
+    const now = new Date();
+    let state = fsrsState;
+    let reviewAt = state.due > now ? state.due : now;
+    const reviewDays: number[] = [];
+
+    while (reviewAt < horizon) {
+      const reviewDay = new Date(reviewAt);
+      reviewDay.setHours(0, 0, 0, 0);
+      // Rounded, as a day across a daylight saving change isn't 24 hours
+      const day = Math.round((reviewDay.getTime() - today.getTime()) / MS_PER_DAY);
+      reviewDays.push(day);
+
+      state = scheduler.schedule(state, 'good', reviewAt);
+
+      // At most one review a day: a step due later today waits for tomorrow
+      const nextDay = new Date(reviewDay);
+      nextDay.setDate(nextDay.getDate() + 1);
+      reviewAt = state.due > nextDay ? state.due : nextDay;
+    }
+
+    return reviewDays;
+  }
+
+  /**
+   * Returns the scheduler for a recall set's points: the base scheduler
+   * with the set's retention and maximum interval, and the FSRS weights
+   * fitted for the set (or for its owner), if any.
+   *
+   * @param recallSet - The recall set being forecast
+   * @returns The scheduler to use
+   */
+  private async schedulerFor(recallSet: RecallSet): Promise<FSRSScheduler> {
+    const scheduler = this.scheduler.forRecallSet(recallSet);
+    if (!this.fsrsParametersRepo) {
+      return scheduler;
+    }
+    const parameters = await this.fsrsParametersRepo.findForRecallSet(recallSet.id);
+    return parameters ? scheduler.withWeights(parameters.weights) : scheduler;
+  }
+
+  /**
+   * Format a date as a local YYYY-MM-DD key.
+   *
+   * @param date - The date to format
+   * @returns The date's key in local time
+   */
+  private toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Round an estimate in minutes to one decimal place.
+   *
+   * @param minutes - The estimate to round
+   * @returns The rounded estimate
+   */
+  private roundMinutes(minutes: number): number {
+    return Math.round(minutes * 10) / 10;
+  }
+
   /**
    * Determine review priority based on days until due.
    *
@@ -699,8 +949,10 @@ export class DashboardDataAggregator {
       const metrics = await this.metricsRepo.findBySessionId(session.id);
 
       // Get the recall set name
-      const recallSet = recallSetMap.get(session.recallSetId);
-      const recallSetName = recallSet?.name ?? 'Unknown';
+      const recallSetName =
+        session.recallSetId === null
+          ? DAILY_REVIEW_NAME
+          : recallSetMap.get(session.recallSetId)?.name ?? 'Unknown';
 
       summaries.push({
         id: session.id,
@@ -711,6 +963,7 @@ export class DashboardDataAggregator {
         recallRate: metrics?.overallRecallRate ?? 0,
         engagementScore: metrics?.engagementScore ?? 0,
         status: session.status,
+        mode: session.mode,
       });
     }
 
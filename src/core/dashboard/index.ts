@@ -8,6 +8,7 @@
  * The dashboard module supports two main views:
  * - Overview: System-wide summary across all recall sets
  * - RecallSetDashboard: Detailed analytics for a single recall set
+ * - ReviewForecast: Projected daily review load per recall set
  *
  * @example
  * ```typescript
@@ -50,4 +51,8 @@ export type {
   PointStatusBreakdown,
   RecallPointSummary,
   RecallSetDashboard,
+  ForecastSetLoad,
+  ForecastDay,
+  ForecastRecallSet,
+  ReviewForecast,
 } from './types';
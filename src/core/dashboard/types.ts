@@ -9,11 +9,14 @@
  * 1. DashboardOverview - System-wide summary for the main dashboard view
  * 2. RecallSetDashboard - Detailed analytics for a single recall set
  * 3. UpcomingReview - Points that need review, prioritized by urgency
+ * 4. ReviewForecast - Projected daily review load per recall set
  *
  * All date fields use ISO strings (YYYY-MM-DD) for chart compatibility,
  * while timestamps remain as Date objects for full precision where needed.
  */
 
+import type { SessionMode } from '../models';
+
 /**
  * Summary of a single session for list views.
  *
@@ -32,6 +35,7 @@
  *   recallRate: 0.75,
  *   engagementScore: 82,
  *   status: 'completed',
+ *   mode: 'review',
  * };
  * ```
  */
@@ -39,10 +43,10 @@ export interface SessionSummary {
   /** Unique identifier for the session */
   id: string;
 
-  /** ID of the recall set this session belongs to */
-  recallSetId: string;
+  /** ID of the recall set this session belongs to (null for a daily review) */
+  recallSetId: string | null;
 
-  /** Human-readable name of the recall set (for display convenience) */
+  /** Human-readable name of the recall set, or 'Daily review' (for display convenience) */
   recallSetName: string;
 
   /** When the session started */
@@ -59,6 +63,9 @@ export interface SessionSummary {
 
   /** Session lifecycle status ('completed', 'abandoned', 'in_progress') */
   status: string;
+
+  /** Whether the session scheduled reviews or was practice */
+  mode: SessionMode;
 }
 
 /**
@@ -357,3 +364,106 @@ export interface RecallSetDashboard {
   /** Summary of all recall points with their current status */
   pointDetails: RecallPointSummary[];
 }
+
+/**
+ * Projected review load of one recall set on one day of a forecast.
+ */
+export interface ForecastSetLoad {
+  /** ID of the recall set */
+  recallSetId: string;
+
+  /** Number of the set's points projected to be due that day */
+  dueCount: number;
+
+  /** Estimated minutes to review them */
+  estimatedMinutes: number;
+}
+
+/**
+ * Projected review load for one day of a forecast.
+ *
+ * @example
+ * ```typescript
+ * const day: ForecastDay = {
+ *   date: '2024-01-21',
+ *   dueCount: 12,
+ *   estimatedMinutes: 18.5,
+ *   recallSets: [
+ *     { recallSetId: 'rs_spanish_vocab', dueCount: 9, estimatedMinutes: 12.6 },
+ *     { recallSetId: 'rs_history', dueCount: 3, estimatedMinutes: 5.9 },
+ *   ],
+ * };
+ * ```
+ */
+export interface ForecastDay {
+  /** ISO date string in YYYY-MM-DD format (the first day is today) */
+  date: string;
+
+  /** Number of points projected to be due that day, across all sets */
+  dueCount: number;
+
+  /** Estimated minutes to review them, across all sets */
+  estimatedMinutes: number;
+
+  /** The load per recall set, for sets with points due that day */
+  recallSets: ForecastSetLoad[];
+}
+
+/**
+ * A recall set's part in a forecast, with the totals over the forecast.
+ */
+export interface ForecastRecallSet {
+  /** ID of the recall set */
+  recallSetId: string;
+
+  /** Human-readable name of the recall set */
+  recallSetName: string;
+
+  /**
+   * Minutes a review of one of the set's points takes, from the set's past
+   * review sessions (or all sets' sessions, or a default, without history)
+   */
+  minutesPerPoint: number;
+
+  /** Reviews of the set's points projected over the forecast */
+  dueCount: number;
+
+  /** Estimated minutes for those reviews */
+  estimatedMinutes: number;
+}
+
+/**
+ * Forecast of the review load over the coming days.
+ *
+ * Each point's reviews are projected from its FSRS due date and stability:
+ * overdue points count today, and each review is assumed successful
+ * ('good'), so the point comes back after the interval its stability gives.
+ * Minutes are estimated with each set's historical minutes per point.
+ *
+ * @example
+ * ```typescript
+ * const forecast: ReviewForecast = {
+ *   days: 30,
+ *   dailyLoad: [...],
+ *   recallSets: [...],
+ *   totalDueCount: 214,
+ *   totalEstimatedMinutes: 305.2,
+ * };
+ * ```
+ */
+export interface ReviewForecast {
+  /** Number of days forecast, starting today */
+  days: number;
+
+  /** The projected load for each day, in date order */
+  dailyLoad: ForecastDay[];
+
+  /** The active recall sets in the forecast */
+  recallSets: ForecastRecallSet[];
+
+  /** Reviews projected over the forecast, across all sets */
+  totalDueCount: number;
+
+  /** Estimated minutes for those reviews, across all sets */
+  totalEstimatedMinutes: number;
+}
@@ -0,0 +1,138 @@
+/**
+ * Prompt Experiment Reports
+ *
+ * Compares the variants of a prompt experiment on the session metrics the
+ * prompts are meant to improve: recall rate, engagement score, session
+ * length and token cost. Each variant is compared with the baseline, the
+ * first variant of the experiment's config (or, without the config, the
+ * first variant by name).
+ *
+ * Differences between variants with only a handful of measured sessions are
+ * mostly noise, so reports carry each variant's session counts alongside
+ * its averages.
+ */
+
+import type { PromptVersions } from '../models';
+import type { ExperimentVariantStats } from '../../storage/repositories';
+import { resolvePromptVersions } from '../../llm/prompts';
+import type { PromptExperiment } from './prompt-experiment';
+
+/**
+ * How a variant's averages differ from the baseline's.
+ */
+export interface VariantDifference {
+  /** Difference in average recall rate (-1.0 to 1.0) */
+  recallRate: number;
+  /** Difference in average engagement score */
+  engagement: number;
+  /** Difference in average session duration in milliseconds */
+  durationMs: number;
+  /** Difference in average tokens per session */
+  tokens: number;
+  /** Difference in average estimated cost per session in USD */
+  costUsd: number;
+}
+
+/**
+ * One variant's results in a prompt experiment report.
+ */
+export interface VariantReport extends ExperimentVariantStats {
+  /** The variant's prompt versions, if the experiment's config is known */
+  promptVersions: PromptVersions | null;
+  /** Difference from the baseline, or null for the baseline itself or when
+   *  either variant has no measured sessions */
+  vsBaseline: VariantDifference | null;
+}
+
+/**
+ * Comparison of a prompt experiment's variants.
+ */
+export interface PromptExperimentReport {
+  /** The experiment's ID */
+  experimentId: string;
+  /** The experiment's description, if its config is known */
+  description: string | null;
+  /** Name of the variant the others are compared with (null if none) */
+  baselineVariant: string | null;
+  /** Total sessions assigned to the experiment */
+  sessionCount: number;
+  /** The variants, baseline first */
+  variants: VariantReport[];
+}
+
+/**
+ * Builds a report comparing the variants of a prompt experiment.
+ *
+ * @param experimentId - The experiment's ID
+ * @param stats - Per-variant session metrics (see
+ *                SessionRepository.getExperimentVariantStats)
+ * @param experiment - The experiment's config, when it's the one configured;
+ *                     adds the variants' prompt versions and any variants
+ *                     without sessions yet, in config order
+ * @returns The report
+ */
+export function buildPromptExperimentReport(
+  experimentId: string,
+  stats: ExperimentVariantStats[],
+  experiment?: PromptExperiment
+): PromptExperimentReport {
+  const config = experiment?.id === experimentId ? experiment : undefined;
+  const byName = new Map(stats.map((variantStats) => [variantStats.variant, variantStats]));
+
+  // Config variants come first, in config order; variants that sessions
+  // recorded but the config no longer lists follow, by name
+  const names = [
+    ...(config?.variants.map((variant) => variant.name) ?? []),
+    ...stats.map((variantStats) => variantStats.variant).filter(
+      (name) => !config?.variants.some((variant) => variant.name === name)
+    ),
+  ];
+
+  const variants = names.map((name) => {
+    const variantStats = byName.get(name) ?? emptyStats(name);
+    const configVariant = config?.variants.find((variant) => variant.name === name);
+    return {
+      ...variantStats,
+      promptVersions: configVariant ? resolvePromptVersions(configVariant.prompts) : null,
+    };
+  });
+
+  const baseline = variants[0];
+  return {
+    experimentId,
+    description: config?.description ?? null,
+    baselineVariant: baseline?.variant ?? null,
+    sessionCount: stats.reduce((total, variantStats) => total + variantStats.sessionCount, 0),
+    variants: variants.map((variant) => ({
+      ...variant,
+      vsBaseline:
+        variant === baseline || variant.measuredCount === 0 || baseline.measuredCount === 0
+          ? null
+          : {
+              recallRate: variant.avgRecallRate - baseline.avgRecallRate,
+              engagement: variant.avgEngagement - baseline.avgEngagement,
+              durationMs: variant.avgDurationMs - baseline.avgDurationMs,
+              tokens: variant.avgTokens - baseline.avgTokens,
+              costUsd: variant.avgCostUsd - baseline.avgCostUsd,
+            },
+    })),
+  };
+}
+
+/**
+ * Stats for a configured variant that no session was assigned to yet.
+ */
+function emptyStats(variant: string): ExperimentVariantStats {
+  return {
+    variant,
+    sessionCount: 0,
+    completedCount: 0,
+    measuredCount: 0,
+    avgRecallRate: 0,
+    avgEngagement: 0,
+    avgDurationMs: 0,
+    avgTokens: 0,
+    avgCostUsd: 0,
+    totalCostUsd: 0,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Core Experiments Module - Barrel Export
+ *
+ * This module runs A/B experiments on the versioned prompts: it reads an
+ * experiment config, assigns each new session a variant's prompt versions,
+ * and compares the variants' session metrics.
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   loadPromptExperiment,
+ *   assignSessionPrompts,
+ *   buildPromptExperimentReport,
+ * } from '@/core/experiments';
+ *
+ * const experiment = loadPromptExperiment('data/experiments/tutor-length.json');
+ *
+ * // Assign a new session to a variant
+ * const assignment = assignSessionPrompts(experiment);
+ *
+ * // Later, compare the variants
+ * const stats = await sessionRepo.getExperimentVariantStats(experiment.id);
+ * const report = buildPromptExperimentReport(experiment.id, stats, experiment);
+ * ```
+ */
+
+// Experiment configs and session assignment
+export {
+  parsePromptExperiment,
+  loadPromptExperiment,
+  assignSessionPrompts,
+  PromptExperimentError,
+  type PromptExperiment,
+  type PromptExperimentVariant,
+  type PromptExperimentErrorType,
+  type SessionPromptAssignment,
+} from './prompt-experiment';
+
+// Comparing variants
+export {
+  buildPromptExperimentReport,
+  type PromptExperimentReport,
+  type VariantReport,
+  type VariantDifference,
+} from './experiment-report';
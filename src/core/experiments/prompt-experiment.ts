@@ -0,0 +1,235 @@
+/**
+ * Prompt Experiments
+ *
+ * A prompt experiment is an A/B test of prompt versions. Its config names
+ * the experiment and lists variants, each overriding some of the default
+ * prompt versions (see src/llm/prompts/registry.ts) and carrying a weight.
+ * Every new session is randomly assigned a variant in proportion to the
+ * weights, and records the experiment, the variant and the resulting prompt
+ * versions, so analytics can compare the variants afterwards.
+ *
+ * The config is a JSON file, located by the PROMPT_EXPERIMENT_PATH
+ * environment variable:
+ * ```json
+ * {
+ *   "id": "tutor-length-2026-10",
+ *   "description": "Do shorter tutor turns keep learners engaged?",
+ *   "variants": [
+ *     { "name": "control", "weight": 1, "prompts": {} },
+ *     { "name": "concise", "weight": 1, "prompts": { "tutor": "socratic-concise-v1" } }
+ *   ]
+ * }
+ * ```
+ *
+ * A variant with weight 0 receives no new sessions, which pauses it without
+ * dropping it from reports. Give each experiment a new id rather than
+ * changing the variants of one that sessions were already assigned to.
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import type { PromptVersions } from '../models';
+import { resolvePromptVersions, DEFAULT_PROMPT_VERSIONS, PromptRegistryError } from '../../llm/prompts';
+
+/**
+ * One arm of a prompt experiment.
+ */
+export interface PromptExperimentVariant {
+  /** Name unique within the experiment (e.g., 'control') */
+  name: string;
+  /** Relative share of new sessions assigned to the variant (0 pauses it) */
+  weight: number;
+  /** Prompt versions to use instead of the defaults */
+  prompts: Partial<PromptVersions>;
+}
+
+/**
+ * The contents of a prompt experiment config file.
+ */
+export interface PromptExperiment {
+  /** Experiment ID recorded on assigned sessions */
+  id: string;
+  /** Human-readable description of what the experiment tests */
+  description?: string;
+  /** The variants sessions are assigned between, baseline first */
+  variants: PromptExperimentVariant[];
+}
+
+/**
+ * The prompt versions a new session is conducted with, and the experiment
+ * variant that chose them.
+ */
+export interface SessionPromptAssignment {
+  /** The complete set of prompt versions */
+  promptVersions: PromptVersions;
+  /** The experiment's ID, or null when no experiment is running */
+  experimentId: string | null;
+  /** The assigned variant's name, or null when no experiment is running */
+  experimentVariant: string | null;
+}
+
+/**
+ * Types of prompt experiment errors.
+ */
+export type PromptExperimentErrorType = 'unreadable' | 'invalid_experiment';
+
+/**
+ * Error thrown when a prompt experiment config can't be read or is malformed.
+ */
+export class PromptExperimentError extends Error {
+  /** The type of error that occurred */
+  type: PromptExperimentErrorType;
+
+  constructor(message: string, type: PromptExperimentErrorType) {
+    super(message);
+    this.name = 'PromptExperimentError';
+    this.type = type;
+  }
+}
+
+/**
+ * Shape of an experiment config as read from JSON.
+ */
+const promptExperimentSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  variants: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        weight: z.number().nonnegative(),
+        prompts: z
+          .object({
+            tutor: z.string().optional(),
+            evaluator: z.string().optional(),
+            rabbithole: z.string().optional(),
+          })
+          .strict()
+          .default({}),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * Parses and validates a prompt experiment config.
+ *
+ * @param input - Config JSON text, or an already-parsed JSON value
+ * @returns The validated experiment
+ * @throws PromptExperimentError ('invalid_experiment') if the input is
+ *         malformed, variant names repeat, every weight is 0, or a variant
+ *         names an unregistered prompt version
+ */
+export function parsePromptExperiment(input: unknown): PromptExperiment {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      throw new PromptExperimentError('The experiment config is not valid JSON', 'invalid_experiment');
+    }
+  }
+
+  const result = promptExperimentSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? ` at '${issue.path.join('.')}'` : '';
+    throw new PromptExperimentError(
+      `Not a valid prompt experiment: ${issue.message}${path}`,
+      'invalid_experiment'
+    );
+  }
+
+  const experiment = result.data;
+  const seen = new Set<string>();
+  for (const variant of experiment.variants) {
+    if (seen.has(variant.name)) {
+      throw new PromptExperimentError(
+        `Duplicate variant name '${variant.name}' in experiment '${experiment.id}'`,
+        'invalid_experiment'
+      );
+    }
+    seen.add(variant.name);
+
+    try {
+      resolvePromptVersions(variant.prompts);
+    } catch (error) {
+      if (error instanceof PromptRegistryError) {
+        throw new PromptExperimentError(
+          `Variant '${variant.name}': ${error.message}`,
+          'invalid_experiment'
+        );
+      }
+      throw error;
+    }
+  }
+
+  if (experiment.variants.every((variant) => variant.weight === 0)) {
+    throw new PromptExperimentError(
+      `Experiment '${experiment.id}' has no variant with a positive weight`,
+      'invalid_experiment'
+    );
+  }
+
+  return experiment;
+}
+
+/**
+ * Reads and validates a prompt experiment config file.
+ *
+ * @param path - Path to the config JSON file
+ * @returns The validated experiment
+ * @throws PromptExperimentError if the file can't be read or is malformed
+ */
+export function loadPromptExperiment(path: string): PromptExperiment {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf-8');
+  } catch {
+    throw new PromptExperimentError(`Could not read prompt experiment: ${path}`, 'unreadable');
+  }
+  return parsePromptExperiment(raw);
+}
+
+/**
+ * Chooses the prompt versions for a new session.
+ *
+ * Without an experiment the session uses the default versions. With one,
+ * a variant is drawn at random in proportion to the variants' weights.
+ *
+ * @param experiment - The running experiment, if any
+ * @param random - Source of uniform random numbers in [0, 1)
+ * @returns The session's prompt versions and experiment assignment
+ *
+ * @example
+ * ```typescript
+ * const assignment = assignSessionPrompts(experiment);
+ * await sessionRepo.create({ id, recallSetId, targetRecallPointIds, ...assignment });
+ * ```
+ */
+export function assignSessionPrompts(
+  experiment?: PromptExperiment,
+  random: () => number = Math.random
+): SessionPromptAssignment {
+  if (!experiment) {
+    return { promptVersions: DEFAULT_PROMPT_VERSIONS, experimentId: null, experimentVariant: null };
+  }
+
+  const totalWeight = experiment.variants.reduce((total, variant) => total + variant.weight, 0);
+  let remaining = random() * totalWeight;
+  // Fall back to the last weighted variant in case rounding leaves a remainder
+  let chosen = experiment.variants.filter((variant) => variant.weight > 0).at(-1)!;
+  for (const variant of experiment.variants) {
+    if (variant.weight > 0 && remaining < variant.weight) {
+      chosen = variant;
+      break;
+    }
+    remaining -= variant.weight;
+  }
+
+  return {
+    promptVersions: resolvePromptVersions(chosen.prompts),
+    experimentId: experiment.id,
+    experimentVariant: chosen.name,
+  };
+}
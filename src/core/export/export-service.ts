@@ -5,6 +5,10 @@
  * formats for external analysis. It supports exporting individual sessions, complete
  * recall sets (with all their sessions), and analytics-only summaries.
  *
+ * It also exports a recall set's content - its recall points - in study formats:
+ * Anki-compatible TSV, Markdown (which Mochi and most note apps import), and a
+ * native JSON bundle that keeps FSRS state and recall history for re-import.
+ *
  * The export service aggregates data from multiple repositories to build comprehensive
  * export packages, then formats them according to the requested output format.
  *
@@ -24,7 +28,8 @@
  *   metricsRepo,
  *   outcomeRepo,
  *   rabbitholeRepo,
- *   analyticsCalc
+ *   analyticsCalc,
+ *   recallPointRepo
  * );
  *
  * // Export a single session as JSON
@@ -43,6 +48,9 @@
  *   includeTimings: false,
  *   dateRange: { start: new Date('2024-01-01'), end: new Date('2024-01-31') },
  * });
+ *
+ * // Export a recall set's points as Markdown
+ * const markdown = await exportService.exportRecallSetContent('rs_spanish_vocab', 'markdown');
  * ```
  */
 
@@ -52,15 +60,22 @@ import type { SessionMessageRepository } from '../../storage/repositories/sessio
 import type { SessionMetricsRepository } from '../../storage/repositories/session-metrics.repository';
 import type { RecallOutcomeRepository } from '../../storage/repositories/recall-outcome.repository';
 import type { RabbitholeEventRepository } from '../../storage/repositories/rabbithole-event.repository';
+import type { RecallPointRepository } from '../../storage/repositories/recall-point.repository';
+import type { RecallPoint, RecallSet, Session } from '../models';
 import type { AnalyticsCalculator } from '../analytics/analytics-calculator';
+import { DAILY_REVIEW_NAME } from '../session/types';
 import type {
   ExportOptions,
   SessionExport,
   RecallSetExport,
   AnalyticsExport,
   RecallOutcomeExport,
+  RecallSetBundle,
+  RecallSetContentFormat,
 } from './types';
 import {
+  RECALL_SET_BUNDLE_FORMAT,
+  RECALL_SET_BUNDLE_VERSION,
   mapRecallOutcomeToExport,
   mapRabbitholeEventToExport,
   mapSessionMessageToExport,
@@ -89,6 +104,7 @@ export class ExportService {
    * @param outcomeRepo - Repository for recall outcome data access
    * @param rabbitholeRepo - Repository for rabbithole event data access
    * @param analyticsCalc - Calculator for aggregate analytics
+   * @param recallPointRepo - Repository for recall point data access
    */
   constructor(
     private readonly sessionRepo: SessionRepository,
@@ -97,7 +113,8 @@ export class ExportService {
     private readonly metricsRepo: SessionMetricsRepository,
     private readonly outcomeRepo: RecallOutcomeRepository,
     private readonly rabbitholeRepo: RabbitholeEventRepository,
-    private readonly analyticsCalc: AnalyticsCalculator
+    private readonly analyticsCalc: AnalyticsCalculator,
+    private readonly recallPointRepo: RecallPointRepository
   ) {}
 
   /**
@@ -141,18 +158,23 @@ export class ExportService {
       throw new Error(`Session with id '${sessionId}' not found`);
     }
 
-    // Fetch the recall set to get the name for the export
-    const recallSet = await this.recallSetRepo.findById(session.recallSetId);
-    if (!recallSet) {
-      throw new Error(
-        `RecallSet with id '${session.recallSetId}' not found for session '${sessionId}'`
-      );
+    // Fetch the recall set to get the name for the export (a daily review
+    // spans all active sets and has none)
+    let recallSetName = DAILY_REVIEW_NAME;
+    if (session.recallSetId !== null) {
+      const recallSet = await this.recallSetRepo.findById(session.recallSetId);
+      if (!recallSet) {
+        throw new Error(
+          `RecallSet with id '${session.recallSetId}' not found for session '${sessionId}'`
+        );
+      }
+      recallSetName = recallSet.name;
     }
 
     // Build the session export object
     const sessionExport = await this.buildSessionExport(
       session,
-      recallSet.name,
+      recallSetName,
       options
     );
 
@@ -295,6 +317,52 @@ export class ExportService {
     }
   }
 
+  /**
+   * Export a recall set's content (its recall points) in a study format.
+   *
+   * Unlike exportRecallSet(), which exports session history for analysis,
+   * this exports the material itself:
+   * - 'anki': Tab-separated text Anki imports as Basic notes into a deck
+   *   named after the set (content on the front, context on the back)
+   * - 'markdown': The set as a document with one heading per point
+   * - 'bundle': RecallSetBundle JSON that can be imported again with
+   *   FSRS state and recall history intact
+   *
+   * @param recallSetId - The unique identifier of the recall set to export
+   * @param format - The study format to produce
+   * @returns The exported file contents
+   * @throws Error if the recall set is not found
+   *
+   * @example
+   * ```typescript
+   * const tsv = await exportService.exportRecallSetContent('rs_spanish_vocab', 'anki');
+   * await Bun.write('spanish-vocab.txt', tsv);
+   * ```
+   */
+  async exportRecallSetContent(
+    recallSetId: string,
+    format: RecallSetContentFormat
+  ): Promise<string> {
+    // Fetch the recall set to verify it exists
+    const recallSet = await this.recallSetRepo.findById(recallSetId);
+    if (!recallSet) {
+      throw new Error(`RecallSet with id '${recallSetId}' not found`);
+    }
+
+    // Export points in the order they were created
+    const points = await this.recallPointRepo.findByRecallSetId(recallSetId);
+    points.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    switch (format) {
+      case 'anki':
+        return this.contentToAnki(recallSet, points);
+      case 'markdown':
+        return this.contentToMarkdown(recallSet, points);
+      case 'bundle':
+        return JSON.stringify(this.buildBundle(recallSet, points), this.jsonDateReplacer, 2);
+    }
+  }
+
   /**
    * Build a SessionExport object from a session.
    *
@@ -307,7 +375,7 @@ export class ExportService {
    * @returns Complete SessionExport object
    */
   private async buildSessionExport(
-    session: { id: string; recallSetId: string; status: string; startedAt: Date; endedAt: Date | null },
+    session: Pick<Session, 'id' | 'recallSetId' | 'status' | 'mode' | 'startedAt' | 'endedAt'>,
     recallSetName: string,
     options: ExportOptions
   ): Promise<SessionExport> {
@@ -329,10 +397,12 @@ export class ExportService {
         startedAt: session.startedAt,
         endedAt: session.endedAt,
         status: session.status,
+        mode: session.mode,
       },
       metrics: metrics
         ? {
             sessionId: metrics.sessionId,
+            mode: session.mode,
             durationMs: metrics.durationMs,
             recallRate: metrics.overallRecallRate,
             engagementScore: metrics.engagementScore,
@@ -383,7 +453,7 @@ export class ExportService {
   private async getSessionsForRecallSet(
     recallSetId: string,
     options: ExportOptions
-  ): Promise<Array<{ id: string; recallSetId: string; status: string; startedAt: Date; endedAt: Date | null }>> {
+  ): Promise<Session[]> {
     // Get all sessions for this recall set
     const allSessions = await this.sessionRepo.findAll();
     const recallSetSessions = allSessions.filter(
@@ -459,7 +529,7 @@ export class ExportService {
     // Session info section
     sections.push('# Session Info');
     sections.push(
-      ['id', 'recallSetId', 'recallSetName', 'startedAt', 'endedAt', 'status'].join(',')
+      ['id', 'recallSetId', 'recallSetName', 'startedAt', 'endedAt', 'status', 'mode'].join(',')
     );
     sections.push(
       [
@@ -469,6 +539,7 @@ export class ExportService {
         this.escapeCSV(this.formatDate(session.session.startedAt)),
         this.escapeCSV(this.formatDate(session.session.endedAt)),
         this.escapeCSV(session.session.status),
+        this.escapeCSV(session.session.mode),
       ].join(',')
     );
 
@@ -869,6 +940,113 @@ export class ExportService {
     return sections.join('\n');
   }
 
+  /**
+   * Convert recall points to Anki's "Notes in Plain Text" format.
+   *
+   * The header lines tell Anki (2.1.55+) the separator, that fields are
+   * HTML, and which note type and deck to use, so the file imports without
+   * any mapping. Fields are HTML-escaped with newlines as <br>.
+   *
+   * @param recallSet - The recall set being exported
+   * @param points - Its recall points
+   * @returns Tab-separated text
+   */
+  private contentToAnki(recallSet: RecallSet, points: RecallPoint[]): string {
+    const lines = [
+      '#separator:tab',
+      '#html:true',
+      '#notetype:Basic',
+      `#deck:${recallSet.name.replace(/[\r\n]+/g, ' ')}`,
+      '#columns:Front\tBack',
+    ];
+
+    for (const point of points) {
+      lines.push(`${this.escapeAnkiField(point.content)}\t${this.escapeAnkiField(point.context)}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Convert recall points to a Markdown document.
+   *
+   * The set name is the title, followed by its description. Each point is a
+   * second-level heading (its content on one line) with its context below.
+   *
+   * @param recallSet - The recall set being exported
+   * @param points - Its recall points
+   * @returns Markdown text
+   */
+  private contentToMarkdown(recallSet: RecallSet, points: RecallPoint[]): string {
+    const sections: string[] = [`# ${this.toHeading(recallSet.name)}`];
+
+    if (recallSet.description.trim()) {
+      sections.push(recallSet.description.trim());
+    }
+
+    for (const point of points) {
+      sections.push(`## ${this.toHeading(point.content)}`);
+      if (point.context.trim()) {
+        sections.push(point.context.trim());
+      }
+    }
+
+    return sections.join('\n\n') + '\n';
+  }
+
+  /**
+   * Build a RecallSetBundle from a recall set and its points.
+   *
+   * @param recallSet - The recall set being exported
+   * @param points - Its recall points
+   * @returns The bundle (serialized by the caller)
+   */
+  private buildBundle(recallSet: RecallSet, points: RecallPoint[]): RecallSetBundle {
+    return {
+      format: RECALL_SET_BUNDLE_FORMAT,
+      version: RECALL_SET_BUNDLE_VERSION,
+      exportedAt: new Date(),
+      recallSet: {
+        name: recallSet.name,
+        description: recallSet.description,
+        discussionSystemPrompt: recallSet.discussionSystemPrompt,
+      },
+      recallPoints: points.map((point) => ({
+        content: point.content,
+        context: point.context,
+        fsrsState: point.fsrsState,
+        recallHistory: point.recallHistory,
+      })),
+    };
+  }
+
+  /**
+   * Escape a value for an HTML field in Anki's text format.
+   *
+   * Tabs would split the field, so they become spaces; newlines become <br>.
+   *
+   * @param value - The plain-text field value
+   * @returns HTML-safe single-line field value
+   */
+  private escapeAnkiField(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/\t/g, ' ')
+      .replace(/\r?\n/g, '<br>');
+  }
+
+  /**
+   * Collapse text onto one line for use as a Markdown heading.
+   *
+   * @param text - The text to use as a heading
+   * @returns Single-line heading text
+   */
+  private toHeading(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
   /**
    * Safely escape a value for CSV output.
    *
@@ -4,6 +4,8 @@
  * This module provides functionality for exporting session data in JSON and CSV
  * formats for external analysis. It supports exporting individual sessions,
  * complete recall sets with all their sessions, and analytics-only summaries.
+ * It also exports a recall set's points as Anki TSV, Markdown, or a native
+ * bundle that can be imported again.
  *
  * The export module is designed for:
  * - Researchers analyzing learning patterns
@@ -28,7 +30,8 @@
  *   metricsRepo,
  *   outcomeRepo,
  *   rabbitholeRepo,
- *   analyticsCalc
+ *   analyticsCalc,
+ *   recallPointRepo
  * );
  *
  * // Export a single session as JSON
@@ -58,6 +61,9 @@
  *   includeRabbitholes: false,
  *   includeTimings: false,
  * });
+ *
+ * // Export a recall set's points as a re-importable bundle
+ * const bundleJson = await exportService.exportRecallSetContent('rs_spanish_vocab', 'bundle');
  * ```
  */
 
@@ -74,6 +80,15 @@ export type {
   RabbitholeEventExport,
   MessageTimingExport,
   SessionMessageExport,
+  RecallSetContentFormat,
+  RecallSetBundle,
+} from './types';
+
+// Content export format constants
+export {
+  RECALL_SET_CONTENT_FORMATS,
+  RECALL_SET_BUNDLE_FORMAT,
+  RECALL_SET_BUNDLE_VERSION,
 } from './types';
 
 // Export mapping functions for converting DB records to export format
@@ -10,13 +10,18 @@
  * 2. RecallSetExport - Aggregated data for all sessions in a recall set
  * 3. AnalyticsExport - Analytics-only export without session details
  *
+ * Separately, a recall set's content (its recall points) can be exported in
+ * a study format: Anki-compatible TSV, Markdown, or a RecallSetBundle that
+ * preserves scheduling state and can be imported again.
+ *
  * The export options allow consumers to customize what data is included,
  * balancing detail against file size and processing requirements.
  */
 
 import type { RecallSetAnalytics } from '../analytics/types';
 import type { SessionMetricsSummary } from '../../storage/repositories/session-metrics.repository';
-import type { SessionMessage } from '../models/session';
+import type { SessionMessage, SessionMode } from '../models/session';
+import type { FSRSState, RecallAttempt } from '../models/recall-point';
 import type {
   RecallOutcome as DbRecallOutcome,
   RabbitholeEvent as DbRabbitholeEvent,
@@ -206,6 +211,7 @@ export interface SessionMessageExport {
  *     startedAt: new Date('2024-01-15T10:00:00Z'),
  *     endedAt: new Date('2024-01-15T10:15:00Z'),
  *     status: 'completed',
+ *     mode: 'review',
  *   },
  *   metrics: { ... },
  *   recallOutcomes: [...],
@@ -223,9 +229,9 @@ export interface SessionExport {
   session: {
     /** Unique identifier for the session */
     id: string;
-    /** ID of the recall set this session belongs to */
-    recallSetId: string;
-    /** Name of the recall set (for convenience) */
+    /** ID of the recall set this session belongs to (null for a daily review) */
+    recallSetId: string | null;
+    /** Name of the recall set, or 'Daily review' (for convenience) */
     recallSetName: string;
     /** When the session started */
     startedAt: Date;
@@ -233,6 +239,8 @@ export interface SessionExport {
     endedAt: Date | null;
     /** Current status of the session */
     status: string;
+    /** Whether the session scheduled reviews or was practice */
+    mode: SessionMode;
   };
 
   /**
@@ -348,6 +356,64 @@ export interface AnalyticsExport {
   exportedAt: Date;
 }
 
+/**
+ * Study formats for exporting a recall set's content.
+ *
+ * - 'anki': Anki "Notes in Plain Text" TSV (Front = content, Back = context)
+ * - 'markdown': One heading per recall point, with its context below
+ * - 'bundle': RecallSetBundle JSON, including FSRS state and recall history
+ */
+export type RecallSetContentFormat = 'anki' | 'markdown' | 'bundle';
+
+/**
+ * All content export formats, for validating user input.
+ */
+export const RECALL_SET_CONTENT_FORMATS: readonly RecallSetContentFormat[] = [
+  'anki',
+  'markdown',
+  'bundle',
+];
+
+/**
+ * Identifies a JSON document as a recall set bundle.
+ */
+export const RECALL_SET_BUNDLE_FORMAT = 'contextual-clarity.recall-set';
+
+/**
+ * Current bundle version. Bump when the shape changes incompatibly.
+ */
+export const RECALL_SET_BUNDLE_VERSION = 1;
+
+/**
+ * Native export of a recall set's content.
+ *
+ * Unlike the Anki and Markdown exports, a bundle round-trips: importing it
+ * recreates the set with every point's FSRS state and recall history, so
+ * reviews continue on the same schedule. IDs are not included; imported
+ * sets and points get new ones.
+ */
+export interface RecallSetBundle {
+  /** Always RECALL_SET_BUNDLE_FORMAT */
+  format: typeof RECALL_SET_BUNDLE_FORMAT;
+  /** Bundle version the file was written with */
+  version: number;
+  /** When the bundle was exported */
+  exportedAt: Date;
+  /** The recall set's own fields */
+  recallSet: {
+    name: string;
+    description: string;
+    discussionSystemPrompt: string;
+  };
+  /** The recall points, oldest first */
+  recallPoints: Array<{
+    content: string;
+    context: string;
+    fsrsState: FSRSState;
+    recallHistory: RecallAttempt[];
+  }>;
+}
+
 /**
  * Maps a database recall outcome to an export format.
  *
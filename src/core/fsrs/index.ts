@@ -10,6 +10,8 @@
  * - FSRSSchedulerConfig: Configuration options for the scheduler
  * - RecallRating: User-facing rating type ('forgot' | 'hard' | 'good' | 'easy')
  * - Type conversion utilities for interoperating with ts-fsrs
+ * - evaluateWeights/fitWeights: Fit FSRS weights to a review history
+ * - FSRSOptimizationService: Fit, store, and reset a user's weights
  *
  * @example
  * ```typescript
@@ -37,3 +39,27 @@ export {
   toFSRSState,
   fromFSRSState,
 } from './types';
+
+// Weight fitting from review history
+export {
+  DEFAULT_FSRS_WEIGHTS,
+  MIN_REVIEWS_FOR_FIT,
+  evaluateWeights,
+  fitWeights,
+  type ReviewRecord,
+  type RetentionBin,
+  type RetentionReport,
+  type FitOptions,
+  type FitResult,
+} from './optimizer';
+
+export {
+  FSRSOptimizationService,
+  FSRSOptimizationError,
+  type FSRSOptimizationServiceDependencies,
+  type FSRSOptimizationErrorType,
+  type FSRSOptimizationReport,
+  type FSRSOptimizationResult,
+  type FSRSWeightsSource,
+  type EffectiveFSRSWeights,
+} from './optimization-service';
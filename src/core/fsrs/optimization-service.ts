@@ -0,0 +1,309 @@
+/**
+ * FSRS Optimization Service
+ *
+ * Fits FSRS weights to a user's own review history and stores them so the
+ * session engine schedules with them. Weights can be fitted for all of a
+ * user's recall sets, or for one set (which then overrides the user-wide
+ * weights for that set).
+ *
+ * The history is the user's recall outcomes: each point's outcomes in the
+ * order they were recorded. An outcome's success says whether the point was
+ * recalled; its rating (or, when it has none, 'good' or 'forgot') drives the
+ * memory model, as it drove the scheduler.
+ *
+ * report() fits without storing anything, comparing predicted and observed
+ * retention under the weights currently in use and under the fitted ones;
+ * optimize() does the same and stores the fitted weights.
+ *
+ * @example
+ * ```typescript
+ * const service = new FSRSOptimizationService({
+ *   recallSetRepo: new RecallSetRepository(db, user.id),
+ *   recallPointRepo: new RecallPointRepository(db),
+ *   outcomeRepo: new RecallOutcomeRepository(db),
+ *   parametersRepo: new FSRSParametersRepository(db, user.id),
+ * });
+ *
+ * const report = await service.report();
+ * console.log(report.current.retention.logLoss, '->', report.fitted.retention.logLoss);
+ *
+ * await service.optimize('rs_abc123');
+ * ```
+ */
+
+import type { FSRSParameters } from '../models';
+import type {
+  RecallSetRepository,
+  RecallPointRepository,
+  RecallOutcomeRepository,
+  FSRSParametersRepository,
+} from '../../storage/repositories';
+import {
+  DEFAULT_FSRS_WEIGHTS,
+  MIN_REVIEWS_FOR_FIT,
+  evaluateWeights,
+  fitWeights,
+  type ReviewRecord,
+  type RetentionReport,
+} from './optimizer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Dependencies for FSRSOptimizationService. The recall set and parameters
+ * repositories should be scoped to the user whose history is fitted.
+ */
+export interface FSRSOptimizationServiceDependencies {
+  /** Repository for the user's recall sets */
+  recallSetRepo: RecallSetRepository;
+  /** Repository for recall points */
+  recallPointRepo: RecallPointRepository;
+  /** Repository for recall outcomes (the review history) */
+  outcomeRepo: RecallOutcomeRepository;
+  /** Repository for stored weights */
+  parametersRepo: FSRSParametersRepository;
+}
+
+/**
+ * Where the weights in use come from: fitted for the recall set, fitted
+ * for all of the user's sets, or the ts-fsrs defaults.
+ */
+export type FSRSWeightsSource = 'recall_set' | 'user' | 'default';
+
+/**
+ * The weights that apply to a scope.
+ */
+export interface EffectiveFSRSWeights {
+  /** Where the weights come from */
+  source: FSRSWeightsSource;
+  /** The 19 FSRS-5 weights */
+  weights: number[];
+  /** The stored weights, or null when the defaults apply */
+  parameters: FSRSParameters | null;
+}
+
+/**
+ * Predicted versus observed retention before and after fitting.
+ */
+export interface FSRSOptimizationReport {
+  /** The recall set fitted, or null for all of the user's sets */
+  recallSetId: string | null;
+  /** Number of recall points with at least one outcome */
+  pointCount: number;
+  /** Number of outcomes replayed */
+  outcomeCount: number;
+  /** The weights currently in use and how well they predict the history */
+  current: EffectiveFSRSWeights & { retention: RetentionReport };
+  /** The fitted weights and how well they predict the history */
+  fitted: { weights: number[]; retention: RetentionReport };
+}
+
+/**
+ * Result of optimize(): the report and the weights that were stored.
+ */
+export interface FSRSOptimizationResult {
+  /** Predicted versus observed retention before and after fitting */
+  report: FSRSOptimizationReport;
+  /** The stored weights */
+  parameters: FSRSParameters;
+}
+
+/**
+ * Types of optimization errors.
+ */
+export type FSRSOptimizationErrorType = 'recall_set_not_found' | 'insufficient_history';
+
+/**
+ * Custom error class for optimization failures.
+ * Includes the error type so callers can map it to a response.
+ */
+export class FSRSOptimizationError extends Error {
+  /** The type of error that occurred */
+  type: FSRSOptimizationErrorType;
+
+  constructor(message: string, type: FSRSOptimizationErrorType) {
+    super(message);
+    this.name = 'FSRSOptimizationError';
+    this.type = type;
+  }
+}
+
+/**
+ * Generates a unique ID with the given prefix.
+ * Uses crypto.randomUUID() for uniqueness.
+ *
+ * @param prefix - The prefix for the ID (e.g., 'fsp')
+ * @returns A unique ID string
+ */
+function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID()}`;
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Fits, stores, and resets FSRS weights for a user or one of their sets.
+ */
+export class FSRSOptimizationService {
+  private deps: FSRSOptimizationServiceDependencies;
+
+  /**
+   * Creates a new FSRSOptimizationService.
+   *
+   * @param deps - Repositories scoped to the user
+   */
+  constructor(deps: FSRSOptimizationServiceDependencies) {
+    this.deps = deps;
+  }
+
+  /**
+   * Gets the weights that apply to a recall set, or to the user's sets in
+   * general when no set is given.
+   *
+   * @param recallSetId - The recall set, or undefined for the user-wide weights
+   * @returns The weights in use and where they come from
+   * @throws FSRSOptimizationError if the recall set doesn't exist
+   */
+  async getWeights(recallSetId?: string): Promise<EffectiveFSRSWeights> {
+    if (recallSetId) {
+      await this.requireRecallSet(recallSetId);
+    }
+
+    const parameters = recallSetId
+      ? await this.deps.parametersRepo.findForRecallSet(recallSetId)
+      : await this.deps.parametersRepo.findByScope(null);
+
+    if (!parameters) {
+      return { source: 'default', weights: [...DEFAULT_FSRS_WEIGHTS], parameters: null };
+    }
+    return {
+      source: parameters.recallSetId ? 'recall_set' : 'user',
+      weights: parameters.weights,
+      parameters,
+    };
+  }
+
+  /**
+   * Fits weights to the history without storing them.
+   *
+   * @param recallSetId - The recall set to fit, or undefined for all sets
+   * @returns Predicted versus observed retention before and after fitting
+   * @throws FSRSOptimizationError if the recall set doesn't exist or the
+   *         history has fewer than MIN_REVIEWS_FOR_FIT predictable reviews
+   */
+  async report(recallSetId?: string): Promise<FSRSOptimizationReport> {
+    const current = await this.getWeights(recallSetId);
+    const { histories, outcomeCount } = await this.loadHistories(recallSetId);
+
+    const currentRetention = evaluateWeights(current.weights, histories);
+    if (currentRetention.reviews < MIN_REVIEWS_FOR_FIT) {
+      throw new FSRSOptimizationError(
+        `Not enough review history to fit: ${currentRetention.reviews} review(s) ` +
+          `a day or more after the previous one, at least ${MIN_REVIEWS_FOR_FIT} needed`,
+        'insufficient_history'
+      );
+    }
+
+    const fit = fitWeights(histories, current.weights);
+
+    return {
+      recallSetId: recallSetId ?? null,
+      pointCount: histories.length,
+      outcomeCount,
+      current: { ...current, retention: currentRetention },
+      fitted: { weights: fit.weights, retention: fit.after },
+    };
+  }
+
+  /**
+   * Fits weights to the history and stores them for the scope, replacing
+   * any previously fitted weights.
+   *
+   * @param recallSetId - The recall set to fit, or undefined for all sets
+   * @returns The report and the stored weights
+   * @throws FSRSOptimizationError for the same reasons as report()
+   */
+  async optimize(recallSetId?: string): Promise<FSRSOptimizationResult> {
+    const report = await this.report(recallSetId);
+
+    const parameters = await this.deps.parametersRepo.save({
+      id: generateId('fsp'),
+      recallSetId: recallSetId ?? null,
+      weights: report.fitted.weights,
+      reviewCount: report.fitted.retention.reviews,
+      logLossBefore: report.current.retention.logLoss,
+      logLossAfter: report.fitted.retention.logLoss,
+    });
+
+    return { report, parameters };
+  }
+
+  /**
+   * Deletes the weights stored for the scope. A recall set then falls back
+   * to the user-wide weights, and those to the ts-fsrs defaults.
+   *
+   * @param recallSetId - The recall set, or undefined for the user-wide weights
+   * @returns true if weights were deleted, false if none were stored
+   * @throws FSRSOptimizationError if the recall set doesn't exist
+   */
+  async reset(recallSetId?: string): Promise<boolean> {
+    if (recallSetId) {
+      await this.requireRecallSet(recallSetId);
+    }
+    return this.deps.parametersRepo.deleteByScope(recallSetId ?? null);
+  }
+
+  // ===========================================================================
+  // Private Helper Methods
+  // ===========================================================================
+
+  /**
+   * Checks that a recall set exists (and belongs to the scoped user).
+   */
+  private async requireRecallSet(recallSetId: string): Promise<void> {
+    const recallSet = await this.deps.recallSetRepo.findById(recallSetId);
+    if (!recallSet) {
+      throw new FSRSOptimizationError(
+        `RecallSet with id '${recallSetId}' not found`,
+        'recall_set_not_found'
+      );
+    }
+  }
+
+  /**
+   * Loads each recall point's review history from its outcomes.
+   * Points without outcomes are left out, and so are outcomes of practice
+   * sessions, which were never scheduled by FSRS.
+   */
+  private async loadHistories(
+    recallSetId?: string
+  ): Promise<{ histories: ReviewRecord[][]; outcomeCount: number }> {
+    const recallSetIds = recallSetId
+      ? [recallSetId]
+      : (await this.deps.recallSetRepo.findAll()).map((set) => set.id);
+
+    const pointIds: string[] = [];
+    for (const id of recallSetIds) {
+      const points = await this.deps.recallPointRepo.findByRecallSetId(id);
+      pointIds.push(...points.map((p) => p.id));
+    }
+
+    const outcomes = await this.deps.outcomeRepo.findByRecallPointIds(pointIds, 'scheduled');
+    const byPoint = new Map<string, ReviewRecord[]>();
+    for (const outcome of outcomes) {
+      const history = byPoint.get(outcome.recallPointId) ?? [];
+      history.push({
+        reviewedAt: outcome.createdAt,
+        rating: outcome.rating ?? (outcome.success ? 'good' : 'forgot'),
+        recalled: outcome.success,
+      });
+      byPoint.set(outcome.recallPointId, history);
+    }
+
+    return { histories: [...byPoint.values()], outcomeCount: outcomes.length };
+  }
+}
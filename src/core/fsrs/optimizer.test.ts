@@ -0,0 +1,110 @@
+/**
+ * FSRS Weight Optimizer Unit Tests
+ *
+ * These tests verify fitting FSRS weights to review histories:
+ * - Which reviews get a retention prediction
+ * - Calibration reports (overall and by bin)
+ * - Fitting moves predicted retention towards observed retention
+ * - Fitted weights stay within the ranges ts-fsrs allows
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { CLAMP_PARAMETERS } from 'ts-fsrs';
+import { DEFAULT_FSRS_WEIGHTS, evaluateWeights, fitWeights, type ReviewRecord } from './optimizer';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2026-01-01T09:00:00Z');
+
+/**
+ * Builds a history reviewed on the given days after START, recalled unless
+ * the day is listed in forgotten.
+ */
+function history(days: number[], forgotten: number[] = []): ReviewRecord[] {
+  return days.map((day) => ({
+    reviewedAt: new Date(START.getTime() + day * DAY_MS),
+    rating: forgotten.includes(day) ? 'forgot' : 'good',
+  }));
+}
+
+/**
+ * Forty points reviewed at widening intervals and forgotten about half the
+ * time after the first review: far worse than the default weights expect.
+ */
+function forgetfulHistories(): ReviewRecord[][] {
+  return Array.from({ length: 40 }, (_, i) =>
+    history([0, 1, 4, 10, 20], i % 2 === 0 ? [4, 20] : [1, 10])
+  );
+}
+
+describe('evaluateWeights', () => {
+  it('predicts only reviews a day or more after the previous one', () => {
+    const report = evaluateWeights(DEFAULT_FSRS_WEIGHTS, [
+      [
+        { reviewedAt: START, rating: 'good' },
+        { reviewedAt: new Date(START.getTime() + 60 * 60 * 1000), rating: 'good' },
+        { reviewedAt: new Date(START.getTime() + 3 * DAY_MS), rating: 'good' },
+      ],
+    ]);
+
+    expect(report.reviews).toBe(1);
+  });
+
+  it('reports an empty history as zero reviews', () => {
+    const report = evaluateWeights(DEFAULT_FSRS_WEIGHTS, [history([0])]);
+
+    expect(report.reviews).toBe(0);
+    expect(report.bins).toHaveLength(0);
+  });
+
+  it('summarizes observed retention overall and by bin', () => {
+    const report = evaluateWeights(DEFAULT_FSRS_WEIGHTS, forgetfulHistories());
+
+    expect(report.reviews).toBe(160);
+    expect(report.observedRetention).toBeCloseTo(0.5);
+    expect(report.predictedRetention).toBeGreaterThan(0.8);
+    expect(report.bins.reduce((sum, bin) => sum + bin.reviews, 0)).toBe(160);
+    for (const bin of report.bins) {
+      expect(bin.predictedRetention).toBeGreaterThanOrEqual(bin.minPredicted);
+      expect(bin.predictedRetention).toBeLessThanOrEqual(bin.maxPredicted);
+    }
+  });
+
+  it('uses the recalled flag over the rating when given', () => {
+    const report = evaluateWeights(DEFAULT_FSRS_WEIGHTS, [
+      [
+        { reviewedAt: START, rating: 'good' },
+        { reviewedAt: new Date(START.getTime() + 2 * DAY_MS), rating: 'hard', recalled: false },
+      ],
+    ]);
+
+    expect(report.observedRetention).toBe(0);
+  });
+});
+
+describe('fitWeights', () => {
+  it('moves predicted retention towards observed retention', () => {
+    const result = fitWeights(forgetfulHistories());
+
+    expect(result.after.logLoss).toBeLessThan(result.before.logLoss);
+    expect(Math.abs(result.after.predictedRetention - result.after.observedRetention)).toBeLessThan(
+      Math.abs(result.before.predictedRetention - result.before.observedRetention)
+    );
+  });
+
+  it('keeps every weight within the range ts-fsrs allows', () => {
+    const { weights } = fitWeights(forgetfulHistories());
+
+    expect(weights).toHaveLength(DEFAULT_FSRS_WEIGHTS.length);
+    weights.forEach((w, i) => {
+      expect(w).toBeGreaterThanOrEqual(CLAMP_PARAMETERS[i][0]);
+      expect(w).toBeLessThanOrEqual(CLAMP_PARAMETERS[i][1]);
+    });
+  });
+
+  it('returns the starting weights when there is nothing to predict', () => {
+    const result = fitWeights([history([0])]);
+
+    expect(result.weights).toEqual([...DEFAULT_FSRS_WEIGHTS]);
+    expect(result.after).toEqual(result.before);
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * FSRS Weight Optimizer
+ *
+ * Fits the 19 FSRS-5 weights to a review history, so the scheduler's
+ * retention predictions match how a particular learner actually remembers.
+ *
+ * The history is replayed through ts-fsrs's memory model (the same one the
+ * scheduler uses): for every review that comes a day or more after the
+ * previous one, the model predicts the probability of recall, which is
+ * compared with whether the learner actually recalled the point. Same-day
+ * reviews update the memory state but aren't predicted, matching how FSRS
+ * itself is trained.
+ *
+ * Fitting minimizes the log loss of those predictions with a pattern search
+ * over the weights, kept within the ranges ts-fsrs allows. A penalty pulls
+ * the weights towards their starting values, weaker the more reviews there
+ * are, so a small history nudges the weights rather than overfitting them.
+ *
+ * Everything here is pure: loading histories and storing weights is done by
+ * FSRSOptimizationService.
+ */
+
+import {
+  FSRSAlgorithm,
+  CLAMP_PARAMETERS,
+  default_w,
+  dateDiffInDays,
+  type FSRSState as MemoryState,
+} from 'ts-fsrs';
+import { toFSRSRating, type RecallRating } from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * The ts-fsrs default weights, used when no fitted weights are stored.
+ */
+export const DEFAULT_FSRS_WEIGHTS: readonly number[] = default_w;
+
+/**
+ * Fewest predicted reviews worth fitting weights to. Below this the fit
+ * says more about noise than about the learner.
+ */
+export const MIN_REVIEWS_FOR_FIT = 50;
+
+/**
+ * Number of equal-width retrievability bins used for calibration.
+ */
+const BIN_COUNT = 10;
+
+/**
+ * Default limits and strength of the pattern search.
+ */
+const DEFAULT_FIT_OPTIONS: Required<FitOptions> = {
+  maxRounds: 100,
+  priorStrength: 20,
+};
+
+/**
+ * Search steps start at this fraction of each weight's allowed range and
+ * the search stops once every step has been halved below the minimum.
+ */
+const INITIAL_STEP = 0.1;
+const MIN_STEP = 0.001;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One review of a recall point.
+ */
+export interface ReviewRecord {
+  /** When the review happened */
+  reviewedAt: Date;
+  /** The rating the point was scheduled with */
+  rating: RecallRating;
+  /** Whether the point was recalled (defaults to any rating but 'forgot') */
+  recalled?: boolean;
+}
+
+/**
+ * Predicted and observed retention for reviews whose predicted
+ * retrievability fell in one range.
+ */
+export interface RetentionBin {
+  /** Lower bound of the predicted retrievability range */
+  minPredicted: number;
+  /** Upper bound of the predicted retrievability range */
+  maxPredicted: number;
+  /** Number of reviews in the range */
+  reviews: number;
+  /** Mean predicted retrievability of those reviews */
+  predictedRetention: number;
+  /** Share of those reviews that were recalled */
+  observedRetention: number;
+}
+
+/**
+ * How well a set of weights predicts a review history.
+ */
+export interface RetentionReport {
+  /** Number of reviews with a prediction */
+  reviews: number;
+  /** Mean predicted retrievability */
+  predictedRetention: number;
+  /** Share of reviews that were recalled */
+  observedRetention: number;
+  /** Mean log loss of the predictions (lower is better) */
+  logLoss: number;
+  /** Root mean squared calibration error across bins, weighted by reviews */
+  rmse: number;
+  /** Calibration by predicted retrievability (empty bins omitted) */
+  bins: RetentionBin[];
+}
+
+/**
+ * Options for fitWeights().
+ */
+export interface FitOptions {
+  /** Maximum number of pattern search rounds */
+  maxRounds?: number;
+  /** How strongly weights are pulled towards their starting values */
+  priorStrength?: number;
+}
+
+/**
+ * Result of fitting weights to a history.
+ */
+export interface FitResult {
+  /** The fitted weights */
+  weights: number[];
+  /** How the starting weights predict the history */
+  before: RetentionReport;
+  /** How the fitted weights predict the history */
+  after: RetentionReport;
+}
+
+/**
+ * A single retention prediction and what actually happened.
+ */
+interface Prediction {
+  retrievability: number;
+  recalled: boolean;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Replays review histories with the given weights and collects a prediction
+ * for every review a day or more after the previous one.
+ *
+ * @param weights - FSRS weights to replay with
+ * @param histories - One review history per recall point, oldest first
+ */
+function predict(weights: readonly number[], histories: ReviewRecord[][]): Prediction[] {
+  const algorithm = new FSRSAlgorithm({ w: [...weights] });
+  const predictions: Prediction[] = [];
+
+  for (const history of histories) {
+    let memory: MemoryState | null = null;
+    let lastReview: Date | null = null;
+
+    for (const review of history) {
+      const elapsedDays = lastReview
+        ? Math.max(dateDiffInDays(lastReview, review.reviewedAt), 0)
+        : 0;
+
+      if (memory && elapsedDays >= 1) {
+        predictions.push({
+          retrievability: algorithm.forgetting_curve(elapsedDays, memory.stability),
+          recalled: review.recalled ?? review.rating !== 'forgot',
+        });
+      }
+
+      memory = algorithm.next_state(memory, elapsedDays, toFSRSRating(review.rating));
+      lastReview = review.reviewedAt;
+    }
+  }
+
+  return predictions;
+}
+
+/**
+ * Mean binary cross-entropy of the predictions.
+ */
+function logLoss(predictions: Prediction[]): number {
+  if (predictions.length === 0) {
+    return 0;
+  }
+  let total = 0;
+  for (const { retrievability, recalled } of predictions) {
+    const p = Math.min(Math.max(retrievability, 1e-6), 1 - 1e-6);
+    total -= recalled ? Math.log(p) : Math.log(1 - p);
+  }
+  return total / predictions.length;
+}
+
+/**
+ * Summarizes predictions into a RetentionReport.
+ */
+function summarize(predictions: Prediction[]): RetentionReport {
+  const n = predictions.length;
+  if (n === 0) {
+    return { reviews: 0, predictedRetention: 0, observedRetention: 0, logLoss: 0, rmse: 0, bins: [] };
+  }
+
+  const sums = Array.from({ length: BIN_COUNT }, () => ({ reviews: 0, predicted: 0, recalled: 0 }));
+  let predictedTotal = 0;
+  let recalledTotal = 0;
+
+  for (const { retrievability, recalled } of predictions) {
+    const bin = sums[Math.min(Math.floor(retrievability * BIN_COUNT), BIN_COUNT - 1)];
+    bin.reviews++;
+    bin.predicted += retrievability;
+    predictedTotal += retrievability;
+    if (recalled) {
+      bin.recalled++;
+      recalledTotal++;
+    }
+  }
+
+  const bins: RetentionBin[] = [];
+  let squaredError = 0;
+  sums.forEach((sum, i) => {
+    if (sum.reviews === 0) {
+      return;
+    }
+    const predictedRetention = sum.predicted / sum.reviews;
+    const observedRetention = sum.recalled / sum.reviews;
+    squaredError += sum.reviews * (predictedRetention - observedRetention) ** 2;
+    bins.push({
+      minPredicted: i / BIN_COUNT,
+      maxPredicted: (i + 1) / BIN_COUNT,
+      reviews: sum.reviews,
+      predictedRetention,
+      observedRetention,
+    });
+  });
+
+  return {
+    reviews: n,
+    predictedRetention: predictedTotal / n,
+    observedRetention: recalledTotal / n,
+    logLoss: logLoss(predictions),
+    rmse: Math.sqrt(squaredError / n),
+    bins,
+  };
+}
+
+/**
+ * Reports how well a set of weights predicts review histories.
+ *
+ * @param weights - FSRS weights to evaluate
+ * @param histories - One review history per recall point, oldest first
+ * @returns Predicted versus observed retention, overall and by bin
+ *
+ * @example
+ * ```typescript
+ * const report = evaluateWeights(DEFAULT_FSRS_WEIGHTS, histories);
+ * console.log(`Predicted ${report.predictedRetention}, observed ${report.observedRetention}`);
+ * ```
+ */
+export function evaluateWeights(
+  weights: readonly number[],
+  histories: ReviewRecord[][]
+): RetentionReport {
+  return summarize(predict(weights, histories));
+}
+
+// ============================================================================
+// Fitting
+// ============================================================================
+
+/**
+ * Fits FSRS weights to review histories.
+ *
+ * Each round tries moving every weight up and then down by its step,
+ * keeping any move that lowers the objective; when a round keeps nothing
+ * the steps are halved. The objective is the log loss plus a penalty on
+ * each weight's distance from its starting value (as a fraction of its
+ * allowed range), scaled by priorStrength / reviews.
+ *
+ * @param histories - One review history per recall point, oldest first
+ * @param initialWeights - Weights to start from (and be pulled towards)
+ * @param options - Search limits and prior strength
+ * @returns The fitted weights with before/after retention reports
+ */
+export function fitWeights(
+  histories: ReviewRecord[][],
+  initialWeights: readonly number[] = DEFAULT_FSRS_WEIGHTS,
+  options: FitOptions = {}
+): FitResult {
+  const { maxRounds, priorStrength } = { ...DEFAULT_FIT_OPTIONS, ...options };
+  const start = initialWeights.map((w, i) => clampWeight(w, i));
+  const before = evaluateWeights(start, histories);
+
+  if (before.reviews === 0) {
+    return { weights: start, before, after: before };
+  }
+
+  const ranges = CLAMP_PARAMETERS.map(([min, max]) => max - min);
+  const penaltyScale = priorStrength / before.reviews;
+  const objective = (weights: number[]): number => {
+    let penalty = 0;
+    weights.forEach((w, i) => {
+      penalty += ((w - start[i]) / ranges[i]) ** 2;
+    });
+    return logLoss(predict(weights, histories)) + penaltyScale * penalty;
+  };
+
+  const weights = [...start];
+  const steps = ranges.map((range) => range * INITIAL_STEP);
+  let best = objective(weights);
+
+  for (let round = 0; round < maxRounds; round++) {
+    let improved = false;
+
+    for (let i = 0; i < weights.length; i++) {
+      for (const direction of [1, -1]) {
+        const candidate = clampWeight(weights[i] + direction * steps[i], i);
+        if (candidate === weights[i]) {
+          continue;
+        }
+        const previous = weights[i];
+        weights[i] = candidate;
+        const value = objective(weights);
+        if (value < best - 1e-9) {
+          best = value;
+          improved = true;
+          break;
+        }
+        weights[i] = previous;
+      }
+    }
+
+    if (!improved) {
+      for (let i = 0; i < steps.length; i++) {
+        steps[i] /= 2;
+      }
+      if (steps.every((step, i) => step < ranges[i] * MIN_STEP)) {
+        break;
+      }
+    }
+  }
+
+  return { weights, before, after: evaluateWeights(weights, histories) };
+}
+
+/**
+ * Clamps a weight to the range ts-fsrs allows for it.
+ */
+function clampWeight(value: number, index: number): number {
+  const [min, max] = CLAMP_PARAMETERS[index];
+  return Math.min(Math.max(value, min), max);
+}
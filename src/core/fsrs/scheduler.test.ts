@@ -10,6 +10,7 @@
 
 import { describe, it, expect, beforeEach } from 'bun:test';
 import { FSRSScheduler } from './scheduler';
+import { DEFAULT_FSRS_WEIGHTS } from './optimizer';
 import type { FSRSState } from '../models';
 
 describe('FSRSScheduler', () => {
@@ -301,4 +302,56 @@ describe('FSRSScheduler', () => {
       expect(config.requestRetention).toBe(0.85);
     });
   });
+
+  describe('withWeights', () => {
+    it('schedules with the given weights and keeps the configuration', () => {
+      const weights = [...DEFAULT_FSRS_WEIGHTS];
+      // w3 is the initial stability after an 'easy' first review
+      weights[3] = 50;
+      const custom = new FSRSScheduler({ maximumInterval: 180 }).withWeights(weights);
+
+      const now = new Date('2025-01-01T00:00:00Z');
+      const base = scheduler.schedule(scheduler.createInitialState(now), 'easy', now);
+      const fitted = custom.schedule(custom.createInitialState(now), 'easy', now);
+
+      expect(fitted.stability).toBe(50);
+      expect(fitted.due.getTime()).toBeGreaterThan(base.due.getTime());
+      expect(custom.getConfig().maximumInterval).toBe(180);
+      expect(custom.getConfig().weights).toEqual(weights);
+    });
+  });
+
+  describe('forRecallSet', () => {
+    const defaults = { desiredRetention: null, maximumIntervalDays: null };
+
+    it('returns the same scheduler when the set uses the defaults', () => {
+      expect(scheduler.forRecallSet(defaults)).toBe(scheduler);
+    });
+
+    it('schedules sooner for a set with higher desired retention', () => {
+      const now = new Date('2025-01-01T00:00:00Z');
+      const reviewed = scheduler.schedule(scheduler.createInitialState(now), 'good', now);
+      const later = new Date(reviewed.due.getTime());
+
+      const casual = scheduler.forRecallSet({ ...defaults, desiredRetention: 0.8 });
+      const examPrep = scheduler.forRecallSet({ ...defaults, desiredRetention: 0.95 });
+
+      expect(examPrep.schedule(reviewed, 'good', later).due.getTime()).toBeLessThan(
+        casual.schedule(reviewed, 'good', later).due.getTime()
+      );
+    });
+
+    it('caps intervals at the set maximum and keeps other settings', () => {
+      const custom = new FSRSScheduler({ requestRetention: 0.85 }).forRecallSet({
+        ...defaults,
+        maximumIntervalDays: 3,
+      });
+
+      const now = new Date('2025-01-01T00:00:00Z');
+      const state = custom.schedule(custom.createInitialState(now), 'easy', now);
+
+      expect(state.due.getTime() - now.getTime()).toBeLessThanOrEqual(3 * 24 * 60 * 60 * 1000);
+      expect(custom.getConfig().requestRetention).toBe(0.85);
+    });
+  });
 });
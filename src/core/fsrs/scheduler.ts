@@ -23,7 +23,7 @@ import {
   generatorParameters,
   type Card,
 } from 'ts-fsrs';
-import type { FSRSState } from '../models';
+import type { FSRSState, RecallSet } from '../models';
 import { toFSRSRating, toFSRSState, fromFSRSState, type RecallRating } from './types';
 
 /**
@@ -45,6 +45,13 @@ export interface FSRSSchedulerConfig {
    * Default: 0.9 (90% target recall probability)
    */
   requestRetention: number;
+
+  /**
+   * The 19 FSRS-5 weights of the memory model, e.g. fitted to the learner's
+   * own review history by FSRSOptimizationService.
+   * Default: the ts-fsrs defaults
+   */
+  weights?: readonly number[];
 }
 
 /**
@@ -106,6 +113,7 @@ export class FSRSScheduler {
     const params = generatorParameters({
       maximum_interval: this.config.maximumInterval,
       request_retention: this.config.requestRetention,
+      w: this.config.weights ? [...this.config.weights] : undefined,
     });
     this.fsrs = new FSRS(params);
   }
@@ -270,6 +278,45 @@ export class FSRSScheduler {
     return { ...this.config };
   }
 
+  /**
+   * Creates a scheduler for a recall set, applying the set's own retention
+   * and maximum interval where it has them.
+   *
+   * @param recallSet - The recall set being scheduled
+   * @returns This scheduler if the set uses the defaults, otherwise a new one
+   *
+   * @example
+   * ```typescript
+   * // An exam-prep set with desiredRetention 0.95 gets shorter intervals
+   * const newState = scheduler.forRecallSet(recallSet).schedule(state, 'good');
+   * ```
+   */
+  forRecallSet(
+    recallSet: Pick<RecallSet, 'desiredRetention' | 'maximumIntervalDays'>
+  ): FSRSScheduler {
+    if (recallSet.desiredRetention === null && recallSet.maximumIntervalDays === null) {
+      return this;
+    }
+    return new FSRSScheduler({
+      ...this.config,
+      requestRetention: recallSet.desiredRetention ?? this.config.requestRetention,
+      maximumInterval: recallSet.maximumIntervalDays ?? this.config.maximumInterval,
+    });
+  }
+
+  /**
+   * Creates a scheduler with the same configuration but different weights.
+   *
+   * Used to schedule a recall set with weights fitted to its history while
+   * keeping the retention and interval settings.
+   *
+   * @param weights - The 19 FSRS-5 weights to use
+   * @returns A new FSRSScheduler
+   */
+  withWeights(weights: readonly number[]): FSRSScheduler {
+    return new FSRSScheduler({ ...this.config, weights });
+  }
+
   /**
    * Calculates the retrievability (probability of recall) for a state.
    *
@@ -0,0 +1,300 @@
+/**
+ * Anki Import Service
+ *
+ * Imports Anki decks (packages or plain-text exports) into recall sets.
+ *
+ * Each Anki note becomes one RecallPoint:
+ * - Cloze notes: content is the cloze text with every deletion revealed;
+ *   context is the note's other fields (e.g., "Back Extra").
+ * - Other notes: content is "Front — Back"; context is any further fields.
+ * - Notes with no further fields get a short context naming the deck.
+ *
+ * When the export includes review history (packages do, text exports don't),
+ * the point's FSRS state is seeded by replaying the note's reviews through
+ * the target set's scheduler (its retention, maximum interval and fitted
+ * weights), and the reviews become its recall history. Otherwise the
+ * point starts in the 'new' state like any other.
+ *
+ * Every import can be previewed first: preview() returns exactly what
+ * import() would create (and skip) without writing anything.
+ */
+
+import { basename, extname } from 'path';
+import type { FSRSScheduler } from '../fsrs';
+import type { FSRSState, RecallAttempt, RecallPoint, RecallSet } from '../models';
+import { parseAnkiPackage, parseAnkiText, hasCloze, revealCloze } from './anki-parser';
+import { resolveImportTarget, normalizeContent } from './import-target';
+import {
+  ImportError,
+  SUPPORTED_IMPORT_EXTENSIONS,
+  type AnkiImportServiceDependencies,
+  type ImportOptions,
+  type AnkiNote,
+  type ImportPreview,
+  type ImportPreviewPoint,
+  type ImportResult,
+  type ParsedAnkiDeck,
+  type SkippedNote,
+} from './types';
+
+/**
+ * Generates a unique ID with the given prefix.
+ * Uses crypto.randomUUID() for uniqueness.
+ *
+ * @param prefix - The prefix for the ID (e.g., 'rs', 'rp')
+ * @returns A unique ID string
+ */
+function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID()}`;
+}
+
+/**
+ * Imports Anki exports into new or existing recall sets.
+ */
+export class AnkiImportService {
+  private deps: AnkiImportServiceDependencies;
+
+  /**
+   * Creates a new AnkiImportService.
+   *
+   * @param deps - Scheduler and repositories (plus fitted weights, optionally)
+   */
+  constructor(deps: AnkiImportServiceDependencies) {
+    this.deps = deps;
+  }
+
+  /**
+   * Works out what importing a file would do, without writing anything.
+   *
+   * @param fileName - Original file name; its extension selects the parser
+   * @param data - File contents
+   * @param options - Target recall set (existing ID, or name for a new one)
+   * @returns The target set, the points that would be created, and skipped notes
+   * @throws ImportError if the file can't be parsed, has no importable notes,
+   *         the target set doesn't exist, or the new set's name is taken
+   */
+  async preview(
+    fileName: string,
+    data: Uint8Array,
+    options: ImportOptions = {}
+  ): Promise<ImportPreview> {
+    const deck = this.parse(fileName, data);
+    const fallbackName = deck.deckName ?? basename(fileName, extname(fileName));
+
+    const { target, existingContent } = await resolveImportTarget(this.deps, options, {
+      name: fallbackName,
+      description: `Imported from the Anki deck "${fallbackName}"`,
+    });
+
+    const scheduler = await this.schedulerFor(target);
+    const { points, skipped } = this.mapNotes(deck, fallbackName, existingContent, scheduler);
+    if (points.length === 0) {
+      throw new ImportError(
+        skipped.length > 0
+          ? `Nothing to import: all ${skipped.length} note(s) are empty or duplicates`
+          : 'Nothing to import: the file contains no notes',
+        'no_notes'
+      );
+    }
+
+    return { deckName: deck.deckName, target, points, skipped };
+  }
+
+  /**
+   * Imports a file: creates the recall set (unless importing into an
+   * existing one) and a recall point for every importable note.
+   *
+   * @param fileName - Original file name; its extension selects the parser
+   * @param data - File contents
+   * @param options - Target recall set (existing ID, or name for a new one)
+   * @returns The recall set, the created points, and skipped notes
+   * @throws ImportError for the same reasons as preview()
+   */
+  async import(
+    fileName: string,
+    data: Uint8Array,
+    options: ImportOptions = {}
+  ): Promise<ImportResult> {
+    const preview = await this.preview(fileName, data, options);
+
+    let recallSet: RecallSet;
+    if (preview.target.type === 'existing') {
+      recallSet = (await this.deps.recallSetRepo.findById(preview.target.recallSetId))!;
+    } else {
+      recallSet = await this.deps.recallSetRepo.create({
+        id: generateId('rs'),
+        name: preview.target.name,
+        description: preview.target.description,
+        status: 'active',
+        discussionSystemPrompt: buildDiscussionPrompt(preview.target.name),
+      });
+    }
+
+    const recallPoints: RecallPoint[] = [];
+    for (const point of preview.points) {
+      recallPoints.push(
+        await this.deps.recallPointRepo.create({
+          id: generateId('rp'),
+          recallSetId: recallSet.id,
+          content: point.content,
+          context: point.context,
+          fsrsState: point.fsrsState,
+          recallHistory: point.recallHistory,
+        })
+      );
+    }
+
+    return {
+      recallSet,
+      createdRecallSet: preview.target.type === 'new',
+      recallPoints,
+      skipped: preview.skipped,
+    };
+  }
+
+  // ===========================================================================
+  // Private Helper Methods
+  // ===========================================================================
+
+  /**
+   * Parses a file with the parser for its extension.
+   */
+  private parse(fileName: string, data: Uint8Array): ParsedAnkiDeck {
+    const extension = extname(fileName).toLowerCase();
+
+    switch (extension as (typeof SUPPORTED_IMPORT_EXTENSIONS)[number]) {
+      case '.apkg':
+      case '.colpkg':
+        return parseAnkiPackage(data);
+      case '.txt':
+      case '.tsv':
+        return parseAnkiText(new TextDecoder().decode(data), '\t');
+      case '.csv':
+        return parseAnkiText(new TextDecoder().decode(data), ',');
+      default:
+        throw new ImportError(
+          `Unsupported file type '${extension || basename(fileName)}'. ` +
+            `Supported: ${SUPPORTED_IMPORT_EXTENSIONS.join(', ')}`,
+          'unsupported_format'
+        );
+    }
+  }
+
+  /**
+   * Maps notes to preview points, skipping empty notes and duplicates (of
+   * each other or of points already in the target set).
+   */
+  private mapNotes(
+    deck: ParsedAnkiDeck,
+    deckName: string,
+    existingContent: Set<string>,
+    scheduler: FSRSScheduler
+  ): { points: ImportPreviewPoint[]; skipped: SkippedNote[] } {
+    const seen = new Set(existingContent);
+    const points: ImportPreviewPoint[] = [];
+    const skipped: SkippedNote[] = [];
+
+    for (const note of deck.notes) {
+      const { content, context } = mapNoteText(note, deckName);
+
+      if (!content) {
+        skipped.push({ sourceId: note.sourceId, reason: 'empty', content });
+        continue;
+      }
+
+      const key = normalizeContent(content);
+      if (seen.has(key)) {
+        skipped.push({ sourceId: note.sourceId, reason: 'duplicate', content });
+        continue;
+      }
+      seen.add(key);
+
+      points.push({
+        sourceId: note.sourceId,
+        content,
+        context,
+        tags: note.tags,
+        reviewCount: note.reviews.length,
+        fsrsState: seedState(note, scheduler),
+        recallHistory: note.reviews.map(
+          (review): RecallAttempt => ({
+            timestamp: review.reviewedAt,
+            success: review.rating !== 'forgot',
+            latencyMs: review.durationMs,
+          })
+        ),
+      });
+    }
+
+    return { points, skipped };
+  }
+
+  /**
+   * Returns the scheduler to replay reviews with: for an existing set, the
+   * base scheduler with the set's retention and maximum interval and the
+   * weights fitted for the set (or its owner), as its sessions will use. A
+   * new set has none of these yet.
+   */
+  private async schedulerFor(target: ImportPreview['target']): Promise<FSRSScheduler> {
+    const { scheduler, recallSetRepo, fsrsParametersRepo } = this.deps;
+    if (target.type !== 'existing') {
+      return scheduler;
+    }
+
+    const recallSet = await recallSetRepo.findById(target.recallSetId);
+    if (!recallSet) {
+      return scheduler;
+    }
+    const setScheduler = scheduler.forRecallSet(recallSet);
+    const parameters = await fsrsParametersRepo?.findForRecallSet(recallSet.id);
+    return parameters ? setScheduler.withWeights(parameters.weights) : setScheduler;
+  }
+}
+
+/**
+ * Replays a note's reviews through the scheduler, starting from a new card
+ * created at the first review. Notes without reviews start as new.
+ */
+function seedState(note: AnkiNote, scheduler: FSRSScheduler): FSRSState {
+  if (note.reviews.length === 0) {
+    return scheduler.createInitialState();
+  }
+
+  let state = scheduler.createInitialState(note.reviews[0].reviewedAt);
+  for (const review of note.reviews) {
+    state = scheduler.schedule(state, review.rating, review.reviewedAt);
+  }
+  return state;
+}
+
+/**
+ * Maps a note's fields to recall point content and context.
+ */
+function mapNoteText(note: AnkiNote, deckName: string): { content: string; context: string } {
+  const [first = '', ...rest] = note.fields;
+
+  let content: string;
+  let extra: string[];
+  if (hasCloze(first)) {
+    content = revealCloze(first).trim();
+    extra = rest;
+  } else {
+    const [second = '', ...others] = rest;
+    content = [first, second].filter(Boolean).join(' — ');
+    extra = others;
+  }
+
+  const context =
+    extra.filter(Boolean).join('\n\n') || `From the Anki deck "${deckName}".`;
+
+  return { content, context };
+}
+
+/**
+ * Builds the discussion prompt for a recall set created from an Anki deck.
+ */
+function buildDiscussionPrompt(name: string): string {
+  return `You are helping the user recall material from their Anki deck "${name}".
+Each recall point started life as a flashcard: go beyond the card's wording,
+asking the user to explain the idea, connect it to related points, and apply it.`;
+}
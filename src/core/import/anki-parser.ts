@@ -0,0 +1,436 @@
+/**
+ * Anki Export Parsers
+ *
+ * Turns the two kinds of file Anki exports into a ParsedAnkiDeck:
+ *
+ * - Packages (.apkg / .colpkg): a ZIP archive holding the SQLite collection.
+ *   Newer Anki versions store it zstd-compressed as `collection.anki21b`
+ *   (alongside a stub `collection.anki2` telling old clients to upgrade);
+ *   older versions store it uncompressed as `collection.anki21` or
+ *   `collection.anki2`. Notes, cards, decks, and the review log (revlog) are
+ *   read directly from the collection.
+ *
+ * - Text (.txt / .tsv / .csv): "Notes in Plain Text" exports. Newer exports
+ *   start with `#key:value` header lines describing the separator, whether
+ *   fields contain HTML, and which columns hold tags/deck/note type/GUID.
+ *   Text exports carry no review history.
+ *
+ * Field values are converted to plain text: HTML tags are removed (line
+ * breaks kept), entities decoded, and [sound:...] references dropped.
+ */
+
+import { Database } from 'bun:sqlite';
+import type { RecallRating } from '../fsrs';
+import { readZipEntry, listZipEntries } from './zip-reader';
+import { ImportError, type AnkiNote, type AnkiReview, type ParsedAnkiDeck } from './types';
+
+/**
+ * Collection files inside a package, most preferred first.
+ */
+const COLLECTION_ENTRIES = ['collection.anki21b', 'collection.anki21', 'collection.anki2'] as const;
+
+/**
+ * Anki's field separator within notes.flds.
+ */
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * Maps revlog ease values (answer buttons) to our ratings.
+ * Ease 0 marks manual changes (reschedule/forget), which are not reviews.
+ */
+const EASE_TO_RATING: Record<number, RecallRating> = {
+  1: 'forgot',
+  2: 'hard',
+  3: 'good',
+  4: 'easy',
+};
+
+/**
+ * Separator names used in the `#separator:` header of text exports.
+ */
+const SEPARATOR_NAMES: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  space: ' ',
+  pipe: '|',
+  colon: ':',
+};
+
+// ============================================================================
+// Packages (.apkg / .colpkg)
+// ============================================================================
+
+/**
+ * Parses an Anki package.
+ *
+ * @param archive - The raw .apkg/.colpkg bytes
+ * @returns The notes (with review history) and the main deck name
+ * @throws ImportError ('invalid_file') if the archive or collection can't be read
+ */
+export function parseAnkiPackage(archive: Uint8Array): ParsedAnkiDeck {
+  let entries: string[];
+  try {
+    entries = listZipEntries(archive);
+  } catch (error) {
+    throw new ImportError(
+      `Not a valid Anki package: ${error instanceof Error ? error.message : String(error)}`,
+      'invalid_file'
+    );
+  }
+
+  const entryName = COLLECTION_ENTRIES.find((name) => entries.includes(name));
+  if (!entryName) {
+    throw new ImportError('Not a valid Anki package: no collection found', 'invalid_file');
+  }
+
+  let collection: Database;
+  try {
+    let bytes = readZipEntry(archive, entryName)!;
+    if (entryName === 'collection.anki21b') {
+      bytes = new Uint8Array(Bun.zstdDecompressSync(bytes));
+    }
+    collection = Database.deserialize(bytes, { readonly: true });
+  } catch (error) {
+    throw new ImportError(
+      `Could not open the Anki collection: ${error instanceof Error ? error.message : String(error)}`,
+      'invalid_file'
+    );
+  }
+
+  try {
+    return readCollection(collection);
+  } catch (error) {
+    throw new ImportError(
+      `Could not read the Anki collection: ${error instanceof Error ? error.message : String(error)}`,
+      'invalid_file'
+    );
+  } finally {
+    collection.close();
+  }
+}
+
+/**
+ * Reads notes, cards, decks, and reviews from an open collection.
+ */
+function readCollection(collection: Database): ParsedAnkiDeck {
+  const noteRows = collection
+    .query<{ id: number; flds: string; tags: string }, []>(
+      'SELECT id, flds, tags FROM notes ORDER BY id'
+    )
+    .all();
+
+  const cardRows = collection
+    .query<{ id: number; nid: number; did: number }, []>(
+      'SELECT id, nid, did FROM cards ORDER BY id'
+    )
+    .all();
+
+  const reviewRows = collection
+    .query<{ cid: number; id: number; ease: number; time: number }, []>(
+      'SELECT cid, id, ease, time FROM revlog ORDER BY id'
+    )
+    .all();
+
+  // Reviews per card, oldest first (revlog.id is the review time in ms)
+  const reviewsByCard = new Map<number, AnkiReview[]>();
+  for (const row of reviewRows) {
+    const rating = EASE_TO_RATING[row.ease];
+    if (!rating) continue;
+    const reviews = reviewsByCard.get(row.cid) ?? [];
+    reviews.push({ reviewedAt: new Date(row.id), rating, durationMs: Math.max(0, row.time) });
+    reviewsByCard.set(row.cid, reviews);
+  }
+
+  // A note's history comes from its most-reviewed card: for Basic-and-reversed
+  // or cloze notes with several cards, that's the one the learner knows best
+  const reviewsByNote = new Map<number, AnkiReview[]>();
+  const cardCountByDeck = new Map<number, number>();
+  for (const card of cardRows) {
+    cardCountByDeck.set(card.did, (cardCountByDeck.get(card.did) ?? 0) + 1);
+    const reviews = reviewsByCard.get(card.id) ?? [];
+    if (reviews.length > (reviewsByNote.get(card.nid)?.length ?? 0)) {
+      reviewsByNote.set(card.nid, reviews);
+    }
+  }
+
+  const notes: AnkiNote[] = noteRows.map((row) => ({
+    sourceId: String(row.id),
+    fields: row.flds.split(FIELD_SEPARATOR).map(htmlToText),
+    tags: row.tags.split(/\s+/).filter(Boolean),
+    reviews: reviewsByNote.get(row.id) ?? [],
+  }));
+
+  return { deckName: findMainDeckName(collection, cardCountByDeck), notes };
+}
+
+/**
+ * Returns the name of the deck holding the most cards.
+ */
+function findMainDeckName(
+  collection: Database,
+  cardCountByDeck: Map<number, number>
+): string | null {
+  const deckNames = readDeckNames(collection);
+
+  let mainDeck: string | null = null;
+  let mostCards = 0;
+  for (const [deckId, count] of cardCountByDeck) {
+    const name = deckNames.get(deckId);
+    if (name && count > mostCards) {
+      mainDeck = name;
+      mostCards = count;
+    }
+  }
+  return mainDeck;
+}
+
+/**
+ * Reads deck names by ID. Newer collections have a `decks` table (with
+ * \x1f between nested deck names); older ones keep JSON in `col.decks`.
+ */
+function readDeckNames(collection: Database): Map<number, string> {
+  const names = new Map<number, string>();
+
+  const hasDecksTable = collection
+    .query<{ name: string }, []>(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'decks'"
+    )
+    .get();
+
+  if (hasDecksTable) {
+    const rows = collection
+      .query<{ id: number; name: string }, []>('SELECT id, name FROM decks')
+      .all();
+    for (const row of rows) {
+      names.set(row.id, row.name.split(FIELD_SEPARATOR).join('::'));
+    }
+    return names;
+  }
+
+  const col = collection.query<{ decks: string }, []>('SELECT decks FROM col').get();
+  if (col?.decks) {
+    const decks = JSON.parse(col.decks) as Record<string, { id: number; name: string }>;
+    for (const deck of Object.values(decks)) {
+      names.set(Number(deck.id), deck.name);
+    }
+  }
+  return names;
+}
+
+// ============================================================================
+// Text exports (.txt / .tsv / .csv)
+// ============================================================================
+
+/**
+ * Parses an Anki "Notes in Plain Text" export.
+ *
+ * @param text - The file contents
+ * @param defaultSeparator - Separator to use when the file has no
+ *        `#separator:` header (tab for .txt/.tsv, comma for .csv)
+ * @returns The notes (without review history) and the deck name, if recorded
+ */
+export function parseAnkiText(text: string, defaultSeparator = '\t'): ParsedAnkiDeck {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  // Header lines come first, e.g. "#separator:tab", "#tags column:3"
+  const headers = new Map<string, string>();
+  let bodyStart = 0;
+  while (bodyStart < lines.length) {
+    const match = lines[bodyStart].match(/^#([a-z ]+):(.*)$/i);
+    if (!match) break;
+    headers.set(match[1].trim().toLowerCase(), match[2].trim());
+    bodyStart++;
+  }
+
+  const separatorHeader = headers.get('separator');
+  const separator = separatorHeader
+    ? (SEPARATOR_NAMES[separatorHeader.toLowerCase()] ?? separatorHeader)
+    : defaultSeparator;
+  const isHtml = headers.get('html')?.toLowerCase() !== 'false';
+
+  // Column headers are 1-based
+  const columnIndex = (key: string) => {
+    const value = Number(headers.get(key));
+    return Number.isInteger(value) && value > 0 ? value - 1 : -1;
+  };
+  const tagsColumn = columnIndex('tags column');
+  const deckColumn = columnIndex('deck column');
+  const metadataColumns = new Set(
+    [tagsColumn, deckColumn, columnIndex('notetype column'), columnIndex('guid column')].filter(
+      (i) => i >= 0
+    )
+  );
+
+  const notes: AnkiNote[] = [];
+  const deckCounts = new Map<string, number>();
+
+  for (const record of parseDelimited(lines.slice(bodyStart).join('\n'), separator)) {
+    if (record.values.every((value) => value.trim() === '')) continue;
+
+    const deck = deckColumn >= 0 ? record.values[deckColumn]?.trim() : undefined;
+    if (deck) {
+      deckCounts.set(deck, (deckCounts.get(deck) ?? 0) + 1);
+    }
+
+    notes.push({
+      sourceId: `line ${bodyStart + record.line}`,
+      fields: record.values
+        .filter((_, i) => !metadataColumns.has(i))
+        .map((value) => (isHtml ? htmlToText(value) : value.trim())),
+      tags: tagsColumn >= 0 ? (record.values[tagsColumn] ?? '').split(/\s+/).filter(Boolean) : [],
+      reviews: [],
+    });
+  }
+
+  // Prefer an explicit "#deck:" header, then the most common deck column value
+  let deckName = headers.get('deck') || null;
+  if (!deckName) {
+    let mostNotes = 0;
+    for (const [name, count] of deckCounts) {
+      if (count > mostNotes) {
+        deckName = name;
+        mostNotes = count;
+      }
+    }
+  }
+
+  return { deckName, notes };
+}
+
+/**
+ * Splits delimited text into records. Values may be double-quoted, in which
+ * case they can contain the separator, newlines, and doubled quotes ("").
+ *
+ * @returns Records with their 1-based starting line within `text`
+ */
+function parseDelimited(
+  text: string,
+  separator: string
+): Array<{ line: number; values: string[] }> {
+  const records: Array<{ line: number; values: string[] }> = [];
+  let values: string[] = [];
+  let value = '';
+  let line = 1;
+  let recordLine = 1;
+  let i = 0;
+
+  const endRecord = () => {
+    values.push(value);
+    records.push({ line: recordLine, values });
+    values = [];
+    value = '';
+    recordLine = line;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"' && value === '') {
+      // Quoted value: read up to the closing quote
+      i++;
+      while (i < text.length) {
+        if (text[i] === '"') {
+          if (text[i + 1] === '"') {
+            value += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        if (text[i] === '\n') line++;
+        value += text[i++];
+      }
+      continue;
+    }
+
+    if (text.startsWith(separator, i)) {
+      values.push(value);
+      value = '';
+      i += separator.length;
+    } else if (char === '\n') {
+      line++;
+      endRecord();
+      i++;
+    } else {
+      value += char;
+      i++;
+    }
+  }
+
+  if (value !== '' || values.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+// ============================================================================
+// Field text
+// ============================================================================
+
+/**
+ * Converts an Anki field (HTML) to plain text.
+ *
+ * Block-level tags and <br> become line breaks, all other tags are removed,
+ * entities are decoded, and [sound:...] media references are dropped.
+ *
+ * @param html - The raw field value
+ * @returns Trimmed plain text
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li|h[1-6]|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, decodeEntity);
+
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00A0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Replaces cloze deletions ({{c1::answer::hint}}) with their answers.
+ *
+ * @param text - Field text that may contain cloze markup
+ * @returns The text as it reads with every deletion revealed
+ */
+export function revealCloze(text: string): string {
+  return text.replace(/\{\{c\d+::([\s\S]*?)(?:::[\s\S]*?)?\}\}/g, '$1');
+}
+
+/**
+ * Whether a field uses cloze deletions.
+ */
+export function hasCloze(text: string): boolean {
+  return /\{\{c\d+::/.test(text);
+}
+
+/**
+ * Decodes a single HTML entity match, leaving unknown named entities and
+ * numeric ones beyond Unicode's last code point as-is.
+ */
+function decodeEntity(entity: string, body: string): string {
+  if (body[0] === '#') {
+    const code = body[1].toLowerCase() === 'x'
+      ? parseInt(body.slice(2), 16)
+      : parseInt(body.slice(1), 10);
+    return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  }
+
+  const named: Record<string, string> = {
+    nbsp: ' ',
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+  };
+  return named[body.toLowerCase()] ?? entity;
+}
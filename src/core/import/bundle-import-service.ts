@@ -0,0 +1,176 @@
+/**
+ * Recall Set Bundle Import Service
+ *
+ * Imports recall set bundles - the native JSON export - into new or
+ * existing recall sets. Bundles carry each point's FSRS state and recall
+ * history, which are kept as-is, so a set exported from one database and
+ * imported into another continues on the same review schedule.
+ *
+ * A new set takes its name, description, and discussion prompt from the
+ * bundle (the name can be overridden). As with Anki imports, empty points
+ * and duplicates are skipped, and preview() shows exactly what import()
+ * would create.
+ */
+
+import type { RecallPoint, RecallSet } from '../models';
+import type { RecallSetBundle } from '../export';
+import { parseRecallSetBundle } from './recall-set-bundle';
+import { resolveImportTarget, normalizeContent } from './import-target';
+import {
+  ImportError,
+  type BundleImportServiceDependencies,
+  type ImportOptions,
+  type ImportPreview,
+  type ImportPreviewPoint,
+  type ImportResult,
+  type SkippedNote,
+} from './types';
+
+/**
+ * Generates a unique ID with the given prefix.
+ * Uses crypto.randomUUID() for uniqueness.
+ *
+ * @param prefix - The prefix for the ID (e.g., 'rs', 'rp')
+ * @returns A unique ID string
+ */
+function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID()}`;
+}
+
+/**
+ * Imports recall set bundles into new or existing recall sets.
+ */
+export class BundleImportService {
+  private deps: BundleImportServiceDependencies;
+
+  /**
+   * Creates a new BundleImportService.
+   *
+   * @param deps - Repositories for the target recall set and its points
+   */
+  constructor(deps: BundleImportServiceDependencies) {
+    this.deps = deps;
+  }
+
+  /**
+   * Works out what importing a bundle would do, without writing anything.
+   *
+   * @param input - Bundle JSON text or parsed JSON value
+   * @param options - Target recall set (existing ID, or name for a new one)
+   * @returns The target set, the points that would be created, and skipped points
+   * @throws ImportError if the bundle is invalid or has no importable points,
+   *         the target set doesn't exist, or the new set's name is taken
+   */
+  async preview(input: unknown, options: ImportOptions = {}): Promise<ImportPreview> {
+    const bundle = parseRecallSetBundle(input);
+    return this.buildPreview(bundle, options);
+  }
+
+  /**
+   * Imports a bundle: creates the recall set (unless importing into an
+   * existing one) and its recall points with their scheduling state.
+   *
+   * @param input - Bundle JSON text or parsed JSON value
+   * @param options - Target recall set (existing ID, or name for a new one)
+   * @returns The recall set, the created points, and skipped points
+   * @throws ImportError for the same reasons as preview()
+   */
+  async import(input: unknown, options: ImportOptions = {}): Promise<ImportResult> {
+    const bundle = parseRecallSetBundle(input);
+    const preview = await this.buildPreview(bundle, options);
+
+    let recallSet: RecallSet;
+    if (preview.target.type === 'existing') {
+      recallSet = (await this.deps.recallSetRepo.findById(preview.target.recallSetId))!;
+    } else {
+      recallSet = await this.deps.recallSetRepo.create({
+        id: generateId('rs'),
+        name: preview.target.name,
+        description: preview.target.description,
+        status: 'active',
+        discussionSystemPrompt: bundle.recallSet.discussionSystemPrompt,
+      });
+    }
+
+    const recallPoints: RecallPoint[] = [];
+    for (const point of preview.points) {
+      recallPoints.push(
+        await this.deps.recallPointRepo.create({
+          id: generateId('rp'),
+          recallSetId: recallSet.id,
+          content: point.content,
+          context: point.context,
+          fsrsState: point.fsrsState,
+          recallHistory: point.recallHistory,
+        })
+      );
+    }
+
+    return {
+      recallSet,
+      createdRecallSet: preview.target.type === 'new',
+      recallPoints,
+      skipped: preview.skipped,
+    };
+  }
+
+  // ===========================================================================
+  // Private Helper Methods
+  // ===========================================================================
+
+  /**
+   * Resolves the target and maps the bundle's points, skipping empty points
+   * and duplicates (of each other or of points already in the target set).
+   */
+  private async buildPreview(
+    bundle: RecallSetBundle,
+    options: ImportOptions
+  ): Promise<ImportPreview> {
+    const { target, existingContent } = await resolveImportTarget(this.deps, options, {
+      name: bundle.recallSet.name,
+      description: bundle.recallSet.description,
+    });
+
+    const seen = new Set(existingContent);
+    const points: ImportPreviewPoint[] = [];
+    const skipped: SkippedNote[] = [];
+
+    bundle.recallPoints.forEach((point, i) => {
+      const sourceId = `point ${i + 1}`;
+      const content = point.content.trim();
+
+      if (!content) {
+        skipped.push({ sourceId, reason: 'empty', content });
+        return;
+      }
+
+      const key = normalizeContent(content);
+      if (seen.has(key)) {
+        skipped.push({ sourceId, reason: 'duplicate', content });
+        return;
+      }
+      seen.add(key);
+
+      points.push({
+        sourceId,
+        content,
+        context: point.context,
+        tags: [],
+        reviewCount: point.recallHistory.length,
+        fsrsState: point.fsrsState,
+        recallHistory: point.recallHistory,
+      });
+    });
+
+    if (points.length === 0) {
+      throw new ImportError(
+        skipped.length > 0
+          ? `Nothing to import: all ${skipped.length} point(s) are empty or duplicates`
+          : 'Nothing to import: the bundle contains no recall points',
+        'no_notes'
+      );
+    }
+
+    return { deckName: bundle.recallSet.name, target, points, skipped };
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Import Target Resolution
+ *
+ * Shared by the import services: works out which recall set an import goes
+ * into (an existing set, or a new one whose name must be free) and which
+ * content is already there, so duplicates can be skipped.
+ */
+
+import type { RecallPoint } from '../models';
+import type { RecallSetRepository, RecallPointRepository } from '../../storage/repositories';
+import { ImportError, type ImportOptions, type ImportPreview } from './types';
+
+/**
+ * The resolved target and the normalized content already in it.
+ */
+export interface ResolvedImportTarget {
+  /** Where the points will go */
+  target: ImportPreview['target'];
+  /** Normalized content of the target's existing points (empty for a new set) */
+  existingContent: Set<string>;
+}
+
+/**
+ * Resolves the recall set an import targets.
+ *
+ * @param repos - Repositories scoped to the importing user
+ * @param options - The caller's target options
+ * @param defaults - Name and description for a new set when options omit them
+ * @returns The target and its existing content
+ * @throws ImportError if recallSetId doesn't exist or the new set's name is taken
+ */
+export async function resolveImportTarget(
+  repos: { recallSetRepo: RecallSetRepository; recallPointRepo: RecallPointRepository },
+  options: ImportOptions,
+  defaults: { name: string; description: string }
+): Promise<ResolvedImportTarget> {
+  if (options.recallSetId) {
+    const recallSet = await repos.recallSetRepo.findById(options.recallSetId);
+    if (!recallSet) {
+      throw new ImportError(
+        `RecallSet with id '${options.recallSetId}' not found`,
+        'recall_set_not_found'
+      );
+    }
+    const existingPoints: RecallPoint[] = await repos.recallPointRepo.findByRecallSetId(
+      recallSet.id
+    );
+    return {
+      target: { type: 'existing', recallSetId: recallSet.id, name: recallSet.name },
+      existingContent: new Set(existingPoints.map((p) => normalizeContent(p.content))),
+    };
+  }
+
+  const name = options.name?.trim() || defaults.name;
+  if (await repos.recallSetRepo.findByName(name)) {
+    throw new ImportError(`A recall set named '${name}' already exists`, 'name_taken');
+  }
+  const description = options.description?.trim() || defaults.description;
+
+  return { target: { type: 'new', name, description }, existingContent: new Set() };
+}
+
+/**
+ * Normalizes content for duplicate detection (case and whitespace).
+ */
+export function normalizeContent(content: string): string {
+  return content.toLowerCase().replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,53 @@
+/**
+ * Import Module - Barrel Export
+ *
+ * This module imports Anki decks into recall sets. It reads both Anki
+ * packages (.apkg/.colpkg, including their review logs) and "Notes in Plain
+ * Text" exports (.txt/.tsv/.csv). BundleImportService imports the native
+ * recall set bundles written by ExportService, keeping their FSRS state.
+ *
+ * The primary service is AnkiImportService, which:
+ * - Maps each note to a RecallPoint (content + context)
+ * - Seeds FSRS state and recall history from Anki review logs when present
+ * - Skips empty notes and duplicates
+ * - Previews an import without writing anything (dry run)
+ *
+ * @example
+ * ```typescript
+ * import { AnkiImportService } from '@/core/import';
+ *
+ * const service = new AnkiImportService({ scheduler, recallSetRepo, recallPointRepo, fsrsParametersRepo });
+ * const data = new Uint8Array(await Bun.file('Biology.apkg').arrayBuffer());
+ *
+ * const preview = await service.preview('Biology.apkg', data);
+ * console.log(`${preview.points.length} points, ${preview.skipped.length} skipped`);
+ *
+ * const { recallSet, recallPoints } = await service.import('Biology.apkg', data);
+ * ```
+ */
+
+// Import services
+export { AnkiImportService } from './anki-import-service';
+export { BundleImportService } from './bundle-import-service';
+
+// Parsers, for callers that only need to read an export
+export { parseAnkiPackage, parseAnkiText } from './anki-parser';
+export { parseRecallSetBundle } from './recall-set-bundle';
+
+// Options, result, and error types
+export {
+  type AnkiImportServiceDependencies,
+  type BundleImportServiceDependencies,
+  type ImportOptions,
+  type AnkiNote,
+  type AnkiReview,
+  type ParsedAnkiDeck,
+  type ImportPreview,
+  type ImportPreviewPoint,
+  type ImportResult,
+  type SkippedNote,
+  type SkippedNoteReason,
+  type ImportErrorType,
+  ImportError,
+  SUPPORTED_IMPORT_EXTENSIONS,
+} from './types';
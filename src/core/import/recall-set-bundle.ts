@@ -0,0 +1,87 @@
+/**
+ * Recall Set Bundle Parser
+ *
+ * Validates recall set bundles - the native JSON export written by
+ * ExportService.exportRecallSetContent(id, 'bundle') - before they are
+ * imported. Dates arrive as ISO strings and are revived here.
+ */
+
+import { z } from 'zod';
+import {
+  RECALL_SET_BUNDLE_FORMAT,
+  RECALL_SET_BUNDLE_VERSION,
+  type RecallSetBundle,
+} from '../export';
+import { ImportError } from './types';
+
+/**
+ * Shape of a bundle as read from JSON.
+ */
+const recallSetBundleSchema = z.object({
+  format: z.literal(RECALL_SET_BUNDLE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.coerce.date(),
+  recallSet: z.object({
+    name: z.string().min(1),
+    description: z.string(),
+    discussionSystemPrompt: z.string().min(1),
+  }),
+  recallPoints: z.array(
+    z.object({
+      content: z.string(),
+      context: z.string(),
+      fsrsState: z.object({
+        difficulty: z.number(),
+        stability: z.number(),
+        due: z.coerce.date(),
+        lastReview: z.coerce.date().nullable(),
+        reps: z.number().int().nonnegative(),
+        lapses: z.number().int().nonnegative(),
+        state: z.enum(['new', 'learning', 'review', 'relearning']),
+      }),
+      recallHistory: z.array(
+        z.object({
+          timestamp: z.coerce.date(),
+          success: z.boolean(),
+          latencyMs: z.number().nonnegative(),
+        })
+      ),
+    })
+  ),
+});
+
+/**
+ * Parses and validates a recall set bundle.
+ *
+ * @param input - Bundle JSON text, or an already-parsed JSON value
+ * @returns The validated bundle with dates revived
+ * @throws ImportError ('invalid_file') if the input is not a bundle this
+ *         version can read
+ */
+export function parseRecallSetBundle(input: unknown): RecallSetBundle {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      throw new ImportError('The file is not valid JSON', 'invalid_file');
+    }
+  }
+
+  const result = recallSetBundleSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? ` at '${issue.path.join('.')}'` : '';
+    throw new ImportError(`Not a valid recall set bundle: ${issue.message}${path}`, 'invalid_file');
+  }
+
+  if (result.data.version > RECALL_SET_BUNDLE_VERSION) {
+    throw new ImportError(
+      `Bundle version ${result.data.version} is newer than this version supports ` +
+        `(${RECALL_SET_BUNDLE_VERSION}); update to import it`,
+      'invalid_file'
+    );
+  }
+
+  return result.data;
+}
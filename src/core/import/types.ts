@@ -0,0 +1,218 @@
+/**
+ * Import Types
+ *
+ * Types for importing Anki decks and recall set bundles into recall sets:
+ * the parsed form of an Anki export, the options and results shared by
+ * AnkiImportService and BundleImportService, and the ImportError thrown for
+ * unusable input.
+ */
+
+import type { FSRSScheduler, RecallRating } from '../fsrs';
+import type { FSRSState, RecallAttempt, RecallPoint, RecallSet } from '../models';
+import type {
+  RecallSetRepository,
+  RecallPointRepository,
+  FSRSParametersRepository,
+} from '../../storage/repositories';
+
+// ============================================================================
+// Parsed Anki Data
+// ============================================================================
+
+/**
+ * A single review from an Anki review log (revlog).
+ */
+export interface AnkiReview {
+  /** When the review happened */
+  reviewedAt: Date;
+  /** The answer button pressed, mapped to our rating scale */
+  rating: RecallRating;
+  /** Time spent answering, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * An Anki note, reduced to what the importer needs.
+ *
+ * Field values are plain text: HTML has been stripped and entities decoded.
+ */
+export interface AnkiNote {
+  /** Anki note ID (packages) or line number (text exports) - for error messages */
+  sourceId: string;
+  /** Field values in note type order (e.g., [Front, Back] for Basic) */
+  fields: string[];
+  /** Anki tags on the note */
+  tags: string[];
+  /** Reviews of the note's most-reviewed card, oldest first (empty for text exports) */
+  reviews: AnkiReview[];
+}
+
+/**
+ * The contents of an Anki export file.
+ */
+export interface ParsedAnkiDeck {
+  /** Deck name from the export (most common deck), if it records one */
+  deckName: string | null;
+  /** Notes in export order */
+  notes: AnkiNote[];
+}
+
+// ============================================================================
+// Service Configuration
+// ============================================================================
+
+/**
+ * File extensions accepted by AnkiImportService.
+ *
+ * - .apkg / .colpkg: Anki packages (a zipped SQLite collection)
+ * - .txt / .tsv / .csv: Anki's "Notes in Plain Text" export
+ */
+export const SUPPORTED_IMPORT_EXTENSIONS = ['.apkg', '.colpkg', '.txt', '.tsv', '.csv'] as const;
+
+/**
+ * Dependencies required by the AnkiImportService.
+ */
+export interface AnkiImportServiceDependencies {
+  /** FSRS scheduler used to seed states (initial or replayed from review logs) */
+  scheduler: FSRSScheduler;
+
+  /** Repository used to find or create the target RecallSet */
+  recallSetRepo: RecallSetRepository;
+
+  /** Repository used to create the imported RecallPoints */
+  recallPointRepo: RecallPointRepository;
+
+  /**
+   * Repository of FSRS weights fitted to review history. When provided,
+   * reviews imported into an existing set are replayed with the set's
+   * fitted weights (or its owner's); otherwise the scheduler's are used.
+   */
+  fsrsParametersRepo?: FSRSParametersRepository;
+}
+
+/**
+ * Dependencies required by the BundleImportService.
+ *
+ * No scheduler is needed: bundles carry their own FSRS state.
+ */
+export interface BundleImportServiceDependencies {
+  /** Repository used to find or create the target RecallSet */
+  recallSetRepo: RecallSetRepository;
+
+  /** Repository used to create the imported RecallPoints */
+  recallPointRepo: RecallPointRepository;
+}
+
+/**
+ * Where to import a deck or bundle.
+ */
+export interface ImportOptions {
+  /** Add the notes to this existing recall set instead of creating one */
+  recallSetId?: string;
+  /** Name for the new recall set (defaults to the deck, bundle, or file name) */
+  name?: string;
+  /** Description for the new recall set */
+  description?: string;
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Why a note was left out of an import.
+ */
+export type SkippedNoteReason =
+  | 'empty'       // No usable text after stripping HTML/media
+  | 'duplicate';  // Same content as another note or an existing recall point
+
+/**
+ * A note that will not be (or was not) imported.
+ */
+export interface SkippedNote {
+  /** Anki note ID, text export line number, or bundle point number */
+  sourceId: string;
+  /** Why the note was skipped */
+  reason: SkippedNoteReason;
+  /** The note's mapped content, if any, for display */
+  content: string;
+}
+
+/**
+ * A recall point that an import would create.
+ */
+export interface ImportPreviewPoint {
+  /** Anki note ID, text export line number, or bundle point number */
+  sourceId: string;
+  /** Recall point content */
+  content: string;
+  /** Recall point context */
+  context: string;
+  /** Anki tags on the note */
+  tags: string[];
+  /** Number of past reviews behind the FSRS state (0 = new) */
+  reviewCount: number;
+  /** FSRS state the point will start with */
+  fsrsState: FSRSState;
+  /** Recall history from the review log or bundle */
+  recallHistory: RecallAttempt[];
+}
+
+/**
+ * Dry-run result: everything an import would do, without writing anything.
+ */
+export interface ImportPreview {
+  /** Deck (or bundled recall set) name found in the file, if any */
+  deckName: string | null;
+  /** The recall set the points would go into */
+  target:
+    | { type: 'new'; name: string; description: string }
+    | { type: 'existing'; recallSetId: string; name: string };
+  /** Points that would be created, in file order */
+  points: ImportPreviewPoint[];
+  /** Notes that would be skipped */
+  skipped: SkippedNote[];
+}
+
+/**
+ * Result of a completed import.
+ */
+export interface ImportResult {
+  /** The recall set the points were added to */
+  recallSet: RecallSet;
+  /** Whether the recall set was created by this import */
+  createdRecallSet: boolean;
+  /** The created recall points */
+  recallPoints: RecallPoint[];
+  /** Notes that were skipped */
+  skipped: SkippedNote[];
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Types of import errors.
+ */
+export type ImportErrorType =
+  | 'unsupported_format'  // File extension is not an Anki export
+  | 'invalid_file'        // File could not be parsed as the expected format
+  | 'no_notes'            // Nothing importable in the file
+  | 'name_taken'          // A recall set with the requested name already exists
+  | 'recall_set_not_found'; // recallSetId does not exist (or isn't visible)
+
+/**
+ * Custom error class for import failures.
+ * Includes the error type so callers can map it to a response.
+ */
+export class ImportError extends Error {
+  /** The type of error that occurred */
+  type: ImportErrorType;
+
+  constructor(message: string, type: ImportErrorType) {
+    super(message);
+    this.name = 'ImportError';
+    this.type = type;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Minimal ZIP Reader
+ *
+ * Anki packages (.apkg/.colpkg) are ZIP archives. This module reads just
+ * enough of the ZIP format to pull named entries out of one: it walks the
+ * central directory and inflates entries stored with either no compression
+ * (method 0) or DEFLATE (method 8), which covers every package Anki writes.
+ *
+ * ZIP64 archives, encryption, and multi-disk archives are not supported.
+ *
+ * @see https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+ */
+
+import { inflateRawSync } from 'zlib';
+
+/** "End of central directory" record signature */
+const EOCD_SIGNATURE = 0x06054b50;
+
+/** Central directory file header signature */
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+
+/** Local file header signature */
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/** Fixed size of the EOCD record, excluding the trailing comment */
+const EOCD_SIZE = 22;
+
+/** The EOCD comment can be at most 64 KiB long */
+const MAX_EOCD_SEARCH = EOCD_SIZE + 0xffff;
+
+/**
+ * Location of a single entry, read from the central directory.
+ */
+interface ZipEntryHeader {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Lists the names of all entries in a ZIP archive.
+ *
+ * @param archive - The raw archive bytes
+ * @returns Entry names in central directory order
+ * @throws Error if the bytes are not a readable ZIP archive
+ */
+export function listZipEntries(archive: Uint8Array): string[] {
+  return readCentralDirectory(archive).map((entry) => entry.name);
+}
+
+/**
+ * Extracts a single entry from a ZIP archive.
+ *
+ * @param archive - The raw archive bytes
+ * @param name - Entry name (path within the archive)
+ * @returns The decompressed entry, or null if the archive has no such entry
+ * @throws Error if the archive is malformed or uses an unsupported compression method
+ */
+export function readZipEntry(archive: Uint8Array, name: string): Uint8Array | null {
+  const entry = readCentralDirectory(archive).find((e) => e.name === name);
+  if (!entry) {
+    return null;
+  }
+
+  const view = toDataView(archive);
+  const offset = entry.localHeaderOffset;
+  if (view.getUint32(offset, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP archive: bad local header for '${name}'`);
+  }
+
+  // The local header repeats the name and may carry a different extra field
+  const nameLength = view.getUint16(offset + 26, true);
+  const extraLength = view.getUint16(offset + 28, true);
+  const dataStart = offset + 30 + nameLength + extraLength;
+  const data = archive.subarray(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return data.slice();
+    case 8:
+      return new Uint8Array(inflateRawSync(data));
+    default:
+      throw new Error(
+        `Unsupported ZIP compression method ${entry.method} for '${name}'`
+      );
+  }
+}
+
+/**
+ * Reads every entry header from the central directory.
+ */
+function readCentralDirectory(archive: Uint8Array): ZipEntryHeader[] {
+  const view = toDataView(archive);
+  const eocdOffset = findEndOfCentralDirectory(view);
+
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  let offset = view.getUint32(eocdOffset + 16, true);
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntryHeader[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP archive: bad central directory');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.push({ name, method, compressedSize, localHeaderOffset });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Finds the EOCD record by scanning backwards from the end of the archive.
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  const stop = Math.max(0, view.byteLength - MAX_EOCD_SEARCH);
+  for (let offset = view.byteLength - EOCD_SIZE; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP archive');
+}
+
+/**
+ * Creates a DataView over exactly the bytes of the given array.
+ */
+function toDataView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
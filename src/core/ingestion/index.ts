@@ -0,0 +1,46 @@
+/**
+ * Ingestion Module - Barrel Export
+ *
+ * This module turns source material (pasted text or a local markdown/plain-text
+ * file) into a draft RecallSet.
+ *
+ * The primary service is IngestionService, which:
+ * - Stores the source and creates a resumable IngestionJob
+ * - Uses the LLM to extract candidate recall points (content + context)
+ * - Records approve/edit/merge/reject decisions for each candidate
+ * - Creates the RecallSet, with an LLM-generated discussionSystemPrompt,
+ *   from the approved candidates
+ *
+ * @example
+ * ```typescript
+ * import { IngestionService } from '@/core/ingestion';
+ *
+ * const service = new IngestionService({
+ *   llmClient,
+ *   scheduler,
+ *   sourceRepo,
+ *   jobRepo,
+ *   recallSetRepo,
+ *   recallPointRepo,
+ * });
+ *
+ * const job = await service.ingestText(notes, 'Lecture 3');
+ * await service.approveCandidate(job.id, job.candidates[0].id);
+ * await service.rejectCandidate(job.id, job.candidates[1].id);
+ * const { recallSet } = await service.finalize(job.id);
+ * ```
+ */
+
+// Main ingestion service
+export { IngestionService } from './ingestion-service';
+
+// Configuration, dependency, and result types
+export {
+  type IngestionServiceConfig,
+  type IngestionServiceDependencies,
+  type CandidateEdit,
+  type FinalizeIngestionInput,
+  type FinalizeIngestionResult,
+  DEFAULT_INGESTION_CONFIG,
+  SUPPORTED_INGESTION_EXTENSIONS,
+} from './types';
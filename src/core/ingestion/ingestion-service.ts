@@ -0,0 +1,555 @@
+/**
+ * Ingestion Service
+ *
+ * Turns raw source material into a draft RecallSet:
+ *
+ * 1. **Ingest**: Store pasted text or a local markdown/plain-text file as an
+ *    IngestionSource and create an IngestionJob for it.
+ * 2. **Extract**: Ask the LLM for candidate recall points (content + context)
+ *    and a suggested set name/description. Failed extractions leave the job
+ *    in 'failed' status so they can be retried.
+ * 3. **Review**: Approve, edit, merge, or reject candidates. Every decision is
+ *    persisted immediately, so review can be resumed at any time.
+ * 4. **Finalize**: Generate a discussionSystemPrompt with the LLM and create
+ *    the RecallSet and RecallPoints from the approved candidates using the
+ *    existing repositories.
+ *
+ * @example
+ * ```typescript
+ * const service = new IngestionService({
+ *   llmClient,
+ *   scheduler: new FSRSScheduler(),
+ *   sourceRepo: new IngestionSourceRepository(db),
+ *   jobRepo: new IngestionJobRepository(db),
+ *   recallSetRepo: new RecallSetRepository(db),
+ *   recallPointRepo: new RecallPointRepository(db),
+ * });
+ *
+ * const job = await service.ingestFile('notes/atp-synthesis.md');
+ * for (const candidate of job.candidates) {
+ *   await service.approveCandidate(job.id, candidate.id);
+ * }
+ * const { recallSet } = await service.finalize(job.id, { name: 'ATP Synthesis' });
+ * ```
+ */
+
+import { readFile } from 'fs/promises';
+import { basename, extname } from 'path';
+import {
+  buildRecallPointExtractionPrompt,
+  buildDiscussionPromptGenerationPrompt,
+  parseRecallPointExtractionResponse,
+} from '../../llm/prompts';
+import type {
+  IngestionJob,
+  IngestionCandidate,
+  IngestionCandidateStatus,
+  IngestionSource,
+  RecallPoint,
+} from '../models';
+import {
+  DEFAULT_INGESTION_CONFIG,
+  SUPPORTED_INGESTION_EXTENSIONS,
+  type IngestionServiceConfig,
+  type IngestionServiceDependencies,
+  type CandidateEdit,
+  type FinalizeIngestionInput,
+  type FinalizeIngestionResult,
+} from './types';
+
+/**
+ * Generates a unique ID with the given prefix.
+ * Uses crypto.randomUUID() for uniqueness.
+ *
+ * @param prefix - The prefix for the ID (e.g., 'ing', 'src', 'cand')
+ * @returns A unique ID string
+ */
+function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID()}`;
+}
+
+/**
+ * Candidate statuses that count as accepted when finalizing.
+ */
+const ACCEPTED_STATUSES: IngestionCandidateStatus[] = ['approved', 'edited'];
+
+/**
+ * Orchestrates ingestion of source material into a new RecallSet.
+ */
+export class IngestionService {
+  private deps: IngestionServiceDependencies;
+  private config: IngestionServiceConfig;
+
+  /**
+   * Creates a new IngestionService.
+   *
+   * @param deps - LLM provider, scheduler, and repositories
+   * @param config - Optional configuration overrides
+   */
+  constructor(
+    deps: IngestionServiceDependencies,
+    config: Partial<IngestionServiceConfig> = {}
+  ) {
+    this.deps = deps;
+    this.config = { ...DEFAULT_INGESTION_CONFIG, ...config };
+  }
+
+  // ===========================================================================
+  // Ingest & Extract
+  // ===========================================================================
+
+  /**
+   * Stores pasted text as a source and extracts candidates from it.
+   *
+   * @param text - The source material
+   * @param title - Optional title used as the source name and as a hint to the LLM
+   * @returns The job, in 'reviewing' status with candidates
+   * @throws Error if the text is empty or extraction fails (the job is kept as 'failed')
+   */
+  async ingestText(text: string, title?: string): Promise<IngestionJob> {
+    return this.ingest('text', text, title ?? null);
+  }
+
+  /**
+   * Reads a local markdown or plain-text file and extracts candidates from it.
+   *
+   * @param filePath - Path to a .md, .markdown, or .txt file
+   * @returns The job, in 'reviewing' status with candidates
+   * @throws Error if the file type is unsupported, the file cannot be read,
+   *         or extraction fails (the job is kept as 'failed')
+   */
+  async ingestFile(filePath: string): Promise<IngestionJob> {
+    const extension = extname(filePath).toLowerCase();
+    if (!(SUPPORTED_INGESTION_EXTENSIONS as readonly string[]).includes(extension)) {
+      throw new Error(
+        `Unsupported file type '${extension || basename(filePath)}'. ` +
+          `Supported: ${SUPPORTED_INGESTION_EXTENSIONS.join(', ')}`
+      );
+    }
+
+    let content: string;
+    try {
+      content = await readFile(filePath, 'utf-8');
+    } catch (error) {
+      throw new Error(
+        `Could not read file '${filePath}': ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    return this.ingest('file', content, filePath);
+  }
+
+  /**
+   * Runs (or re-runs) LLM extraction for a job.
+   *
+   * Re-running replaces any existing candidates and review decisions.
+   * Use this to retry a failed job.
+   *
+   * @param jobId - The job to extract candidates for
+   * @returns The job, in 'reviewing' status with candidates
+   * @throws Error if the job is completed/cancelled or extraction fails
+   */
+  async extractCandidates(jobId: string): Promise<IngestionJob> {
+    const job = await this.getJob(jobId);
+    this.assertOpen(job);
+
+    const source = await this.getSource(job.sourceId);
+    await this.deps.jobRepo.update(jobId, { status: 'extracting', error: null });
+
+    try {
+      const prompt = buildRecallPointExtractionPrompt({
+        content: source.content,
+        title: source.name,
+        targetCount: this.config.targetCandidateCount,
+      });
+
+      const response = await this.deps.llmClient.complete(prompt, {
+        temperature: this.config.extractionTemperature,
+        maxTokens: this.config.extractionMaxTokens,
+      });
+
+      const result = parseRecallPointExtractionResponse(response.text);
+      if (result.points.length === 0) {
+        throw new Error('The LLM did not return any recall point candidates');
+      }
+
+      const candidates: IngestionCandidate[] = result.points.map((point) => ({
+        id: generateId('cand'),
+        content: point.content,
+        context: point.context,
+        sourceQuote: point.sourceQuote,
+        status: 'pending',
+      }));
+
+      return await this.deps.jobRepo.update(jobId, {
+        status: 'reviewing',
+        candidates,
+        suggestedName: result.suggestedName,
+        suggestedDescription: result.suggestedDescription,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.deps.jobRepo.update(jobId, { status: 'failed', error: message });
+      throw new Error(`Extraction failed for ingestion job '${jobId}': ${message}`);
+    }
+  }
+
+  // ===========================================================================
+  // Review
+  // ===========================================================================
+
+  /**
+   * Retrieves a job by ID.
+   *
+   * @param jobId - The job ID
+   * @returns The job
+   * @throws Error if the job does not exist
+   */
+  async getJob(jobId: string): Promise<IngestionJob> {
+    const job = await this.deps.jobRepo.findById(jobId);
+    if (!job) {
+      throw new Error(`IngestionJob with id '${jobId}' not found`);
+    }
+    return job;
+  }
+
+  /**
+   * Retrieves the source material for a job.
+   *
+   * @param jobId - The job ID
+   * @returns The job's source
+   * @throws Error if the job or its source does not exist
+   */
+  async getJobSource(jobId: string): Promise<IngestionSource> {
+    const job = await this.getJob(jobId);
+    return this.getSource(job.sourceId);
+  }
+
+  /**
+   * Lists jobs that can still be reviewed or retried, most recent first.
+   *
+   * @returns Jobs in 'reviewing' or 'failed' status
+   */
+  async listResumableJobs(): Promise<IngestionJob[]> {
+    return this.deps.jobRepo.findByStatus(['reviewing', 'failed']);
+  }
+
+  /**
+   * Approves a candidate as extracted.
+   *
+   * @param jobId - The job ID
+   * @param candidateId - The candidate to approve
+   * @returns The updated job
+   */
+  async approveCandidate(jobId: string, candidateId: string): Promise<IngestionJob> {
+    return this.updateCandidate(jobId, candidateId, (candidate) => ({
+      ...candidate,
+      status: 'approved',
+    }));
+  }
+
+  /**
+   * Edits a candidate's content and/or context, marking it accepted.
+   *
+   * @param jobId - The job ID
+   * @param candidateId - The candidate to edit
+   * @param edit - The replacement content and/or context
+   * @returns The updated job
+   * @throws Error if the edit would leave the content empty
+   */
+  async editCandidate(
+    jobId: string,
+    candidateId: string,
+    edit: CandidateEdit
+  ): Promise<IngestionJob> {
+    return this.updateCandidate(jobId, candidateId, (candidate) => {
+      const content = edit.content !== undefined ? edit.content.trim() : candidate.content;
+      if (!content) {
+        throw new Error('Candidate content cannot be empty');
+      }
+      return {
+        ...candidate,
+        content,
+        context: edit.context !== undefined ? edit.context.trim() : candidate.context,
+        status: 'edited',
+      };
+    });
+  }
+
+  /**
+   * Rejects a candidate so it is left out of the final recall set.
+   *
+   * @param jobId - The job ID
+   * @param candidateId - The candidate to reject
+   * @returns The updated job
+   */
+  async rejectCandidate(jobId: string, candidateId: string): Promise<IngestionJob> {
+    return this.updateCandidate(jobId, candidateId, (candidate) => ({
+      ...candidate,
+      status: 'rejected',
+    }));
+  }
+
+  /**
+   * Merges several candidates into the first one.
+   *
+   * The first candidate keeps its ID and becomes 'edited'; the others are
+   * removed from the job. Unless replacement text is given, content and
+   * context are joined in the order the IDs were passed.
+   *
+   * @param jobId - The job ID
+   * @param candidateIds - Two or more candidates to merge, target first
+   * @param edit - Optional replacement content and/or context for the result
+   * @returns The updated job
+   * @throws Error if fewer than two distinct candidates are given
+   */
+  async mergeCandidates(
+    jobId: string,
+    candidateIds: string[],
+    edit: CandidateEdit = {}
+  ): Promise<IngestionJob> {
+    const ids = [...new Set(candidateIds)];
+    if (ids.length < 2) {
+      throw new Error('At least two candidates are required to merge');
+    }
+
+    const job = await this.getJob(jobId);
+    this.assertReviewing(job);
+
+    const merging = ids.map((id) => {
+      const candidate = job.candidates.find((c) => c.id === id);
+      if (!candidate) {
+        throw new Error(`Candidate '${id}' not found in ingestion job '${jobId}'`);
+      }
+      return candidate;
+    });
+
+    const content = (edit.content ?? merging.map((c) => c.content).join(' ')).trim();
+    if (!content) {
+      throw new Error('Candidate content cannot be empty');
+    }
+
+    const quotes = merging.map((c) => c.sourceQuote).filter((q): q is string => q !== null);
+    const merged: IngestionCandidate = {
+      id: merging[0].id,
+      content,
+      context: (edit.context ?? merging.map((c) => c.context).filter(Boolean).join(' ')).trim(),
+      sourceQuote: quotes.length > 0 ? quotes.join(' … ') : null,
+      status: 'edited',
+    };
+
+    // Keep the merged candidate where the target was; drop the rest
+    const removed = new Set(ids.slice(1));
+    const candidates = job.candidates
+      .filter((c) => !removed.has(c.id))
+      .map((c) => (c.id === merged.id ? merged : c));
+
+    return this.deps.jobRepo.update(jobId, { candidates });
+  }
+
+  /**
+   * Cancels a job. Cancelled jobs cannot be reviewed or finalized.
+   *
+   * @param jobId - The job ID
+   * @returns The cancelled job
+   */
+  async cancel(jobId: string): Promise<IngestionJob> {
+    const job = await this.getJob(jobId);
+    this.assertOpen(job);
+    return this.deps.jobRepo.update(jobId, { status: 'cancelled' });
+  }
+
+  // ===========================================================================
+  // Finalize
+  // ===========================================================================
+
+  /**
+   * Creates a RecallSet from the job's approved and edited candidates.
+   *
+   * Pending and rejected candidates are left out. Unless a prompt is supplied,
+   * the discussionSystemPrompt is generated by the LLM from the approved points.
+   *
+   * @param jobId - The job ID
+   * @param input - Name, description, and optional discussion prompt
+   * @returns The completed job, new recall set, and its recall points
+   * @throws Error if the job is not in review, nothing is approved, no name is
+   *         available, or a recall set with the same name already exists
+   */
+  async finalize(
+    jobId: string,
+    input: FinalizeIngestionInput = {}
+  ): Promise<FinalizeIngestionResult> {
+    const job = await this.getJob(jobId);
+    if (job.status !== 'reviewing') {
+      throw new Error(
+        `IngestionJob '${jobId}' cannot be finalized from status '${job.status}'`
+      );
+    }
+
+    const accepted = job.candidates.filter((c) => ACCEPTED_STATUSES.includes(c.status));
+    if (accepted.length === 0) {
+      throw new Error('Approve at least one candidate before creating a recall set');
+    }
+
+    const name = (input.name ?? job.suggestedName ?? '').trim();
+    if (!name) {
+      throw new Error('A name is required to create the recall set');
+    }
+
+    const existing = await this.deps.recallSetRepo.findByName(name);
+    if (existing) {
+      throw new Error(`A recall set named '${name}' already exists`);
+    }
+
+    const description = (
+      input.description ??
+      job.suggestedDescription ??
+      `Recall points ingested from ${(await this.getSource(job.sourceId)).name ?? 'pasted text'}`
+    ).trim();
+
+    const discussionSystemPrompt =
+      input.discussionSystemPrompt?.trim() ||
+      (await this.generateDiscussionPrompt(name, description, accepted));
+
+    const recallSet = await this.deps.recallSetRepo.create({
+      id: generateId('rs'),
+      name,
+      description,
+      status: 'active',
+      discussionSystemPrompt,
+    });
+
+    // New points start in the FSRS 'new' state and are due immediately
+    const now = new Date();
+    const recallPoints: RecallPoint[] = [];
+    for (const candidate of accepted) {
+      recallPoints.push(
+        await this.deps.recallPointRepo.create({
+          id: generateId('rp'),
+          recallSetId: recallSet.id,
+          content: candidate.content,
+          context: candidate.context,
+          fsrsState: this.deps.scheduler.createInitialState(now),
+        })
+      );
+    }
+
+    const completedJob = await this.deps.jobRepo.update(jobId, {
+      status: 'completed',
+      recallSetId: recallSet.id,
+      completedAt: now,
+    });
+
+    return { job: completedJob, recallSet, recallPoints };
+  }
+
+  // ===========================================================================
+  // Private Helper Methods
+  // ===========================================================================
+
+  /**
+   * Stores a source, creates its job, and runs extraction.
+   */
+  private async ingest(
+    type: IngestionSource['type'],
+    content: string,
+    name: string | null
+  ): Promise<IngestionJob> {
+    if (!content.trim()) {
+      throw new Error('Source material is empty');
+    }
+
+    const source = await this.deps.sourceRepo.create({
+      id: generateId('src'),
+      type,
+      name,
+      content,
+    });
+
+    const job = await this.deps.jobRepo.create({
+      id: generateId('ing'),
+      sourceId: source.id,
+    });
+
+    return this.extractCandidates(job.id);
+  }
+
+  /**
+   * Applies a change to one candidate and persists the job.
+   */
+  private async updateCandidate(
+    jobId: string,
+    candidateId: string,
+    change: (candidate: IngestionCandidate) => IngestionCandidate
+  ): Promise<IngestionJob> {
+    const job = await this.getJob(jobId);
+    this.assertReviewing(job);
+
+    const index = job.candidates.findIndex((c) => c.id === candidateId);
+    if (index === -1) {
+      throw new Error(`Candidate '${candidateId}' not found in ingestion job '${jobId}'`);
+    }
+
+    const candidates = [...job.candidates];
+    candidates[index] = change(candidates[index]);
+
+    return this.deps.jobRepo.update(jobId, { candidates });
+  }
+
+  /**
+   * Asks the LLM to write the discussion system prompt for a new set.
+   * Falls back to a generic tutor persona if the response is empty.
+   */
+  private async generateDiscussionPrompt(
+    name: string,
+    description: string,
+    points: IngestionCandidate[]
+  ): Promise<string> {
+    const prompt = buildDiscussionPromptGenerationPrompt({
+      name,
+      description,
+      points: points.map((p) => ({ content: p.content, context: p.context })),
+    });
+
+    const response = await this.deps.llmClient.complete(prompt, {
+      temperature: this.config.promptGenerationTemperature,
+    });
+
+    const generated = response.text.trim();
+    return (
+      generated ||
+      `You are a knowledgeable tutor helping the learner recall and understand key ideas about ${name}.`
+    );
+  }
+
+  /**
+   * Retrieves a source by ID.
+   */
+  private async getSource(sourceId: string): Promise<IngestionSource> {
+    const source = await this.deps.sourceRepo.findById(sourceId);
+    if (!source) {
+      throw new Error(`IngestionSource with id '${sourceId}' not found`);
+    }
+    return source;
+  }
+
+  /**
+   * Throws if the job's candidates cannot currently be reviewed.
+   */
+  private assertReviewing(job: IngestionJob): void {
+    if (job.status !== 'reviewing') {
+      throw new Error(
+        `IngestionJob '${job.id}' cannot be reviewed in status '${job.status}'`
+      );
+    }
+  }
+
+  /**
+   * Throws if the job can no longer change (completed or cancelled).
+   */
+  private assertOpen(job: IngestionJob): void {
+    if (job.status === 'completed' || job.status === 'cancelled') {
+      throw new Error(`IngestionJob '${job.id}' is already ${job.status}`);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Ingestion Types
+ *
+ * Configuration, dependency, and result types for the IngestionService.
+ * Domain types (IngestionJob, IngestionCandidate, ...) live in core/models.
+ */
+
+import type { FSRSScheduler } from '../fsrs';
+import type { LLMProvider } from '../../llm/types';
+import type { RecallSet, RecallPoint, IngestionJob } from '../models';
+import type {
+  RecallSetRepository,
+  RecallPointRepository,
+  IngestionSourceRepository,
+  IngestionJobRepository,
+} from '../../storage/repositories';
+
+/**
+ * Configuration options for the IngestionService.
+ */
+export interface IngestionServiceConfig {
+  /** How many candidate recall points to ask the LLM for */
+  targetCandidateCount: number;
+
+  /** Temperature for the extraction call (low for consistent output) */
+  extractionTemperature: number;
+
+  /** Max tokens for the extraction response */
+  extractionMaxTokens: number;
+
+  /** Temperature for generating the discussion system prompt */
+  promptGenerationTemperature: number;
+}
+
+/**
+ * Default IngestionService configuration.
+ */
+export const DEFAULT_INGESTION_CONFIG: IngestionServiceConfig = {
+  targetCandidateCount: 10,
+  extractionTemperature: 0.3,
+  extractionMaxTokens: 4096,
+  promptGenerationTemperature: 0.6,
+};
+
+/**
+ * File extensions accepted by IngestionService.ingestFile().
+ */
+export const SUPPORTED_INGESTION_EXTENSIONS = ['.md', '.markdown', '.txt'] as const;
+
+/**
+ * Dependencies required by the IngestionService.
+ */
+export interface IngestionServiceDependencies {
+  /** LLM provider used for extraction and prompt generation */
+  llmClient: LLMProvider;
+
+  /** FSRS scheduler used to give new recall points their initial state */
+  scheduler: FSRSScheduler;
+
+  /** Repository for stored source material */
+  sourceRepo: IngestionSourceRepository;
+
+  /** Repository for ingestion jobs */
+  jobRepo: IngestionJobRepository;
+
+  /** Repository used to create the final RecallSet */
+  recallSetRepo: RecallSetRepository;
+
+  /** Repository used to create the final RecallPoints */
+  recallPointRepo: RecallPointRepository;
+}
+
+/**
+ * Changes a user can make to a candidate during review.
+ */
+export interface CandidateEdit {
+  /** Replacement recall point content */
+  content?: string;
+  /** Replacement tutor context */
+  context?: string;
+}
+
+/**
+ * Input for turning a reviewed job into a RecallSet.
+ */
+export interface FinalizeIngestionInput {
+  /** Name for the new set (defaults to the LLM-suggested name) */
+  name?: string;
+  /** Description for the new set (defaults to the LLM-suggested description) */
+  description?: string;
+  /** Discussion prompt to use instead of generating one with the LLM */
+  discussionSystemPrompt?: string;
+}
+
+/**
+ * Result of finalizing an ingestion job.
+ */
+export interface FinalizeIngestionResult {
+  /** The completed job */
+  job: IngestionJob;
+  /** The newly created recall set */
+  recallSet: RecallSet;
+  /** The recall points created from approved candidates */
+  recallPoints: RecallPoint[];
+}
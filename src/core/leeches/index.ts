@@ -0,0 +1,38 @@
+/**
+ * Leeches Module - Barrel Export
+ *
+ * Leeches are recall points the learner keeps forgetting, so they cycle
+ * through reviews without ever sticking. This module flags them, using
+ * each recall set's lapse threshold, and lists them as a remediation queue
+ * where the learner can split, rewrite, suspend or mark them for a
+ * deep-dive session.
+ *
+ * @example
+ * ```typescript
+ * import { LeechRemediationService } from '@/core/leeches';
+ *
+ * const service = new LeechRemediationService({ recallSetRepo, recallPointRepo, scheduler });
+ * const { leeches } = await service.getQueue('rs_abc123');
+ * await service.suspend(leeches[0].point.id);
+ * ```
+ */
+
+// Leech detection shared by analytics, the remediation queue and badges
+export {
+  DEFAULT_LEECH_LAPSE_THRESHOLD,
+  resolveLeechLapseThreshold,
+  detectLeechReasons,
+  collectLeeches,
+  type DetectedLeech,
+} from './leech-detection';
+
+// Remediation queue and remedies
+export {
+  LeechRemediationService,
+  LeechRemediationError,
+  type LeechRemediationServiceDependencies,
+  type LeechQueue,
+  type LeechSplitResult,
+  type LeechRewriteInput,
+  type LeechRemediationErrorType,
+} from './leech-remediation';
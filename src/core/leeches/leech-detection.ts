@@ -0,0 +1,107 @@
+/**
+ * Leech Detection
+ *
+ * A leech is a recall point that keeps cycling through reviews without
+ * sticking. A point is flagged as one when:
+ *
+ * - It has lapsed (been forgotten after being learned) at least as many
+ *   times as its recall set's lapse threshold (4 unless the set sets its
+ *   own), or
+ * - It has been reviewed at least 5 times and its stability is still under
+ *   a week, so reviewing it isn't building memory.
+ *
+ * Suspended points are never flagged: they are out of the review cycle
+ * already. The same rules drive the analytics leech list, the remediation
+ * queue and the leech badges, so the three always agree.
+ *
+ * @example
+ * ```typescript
+ * const threshold = resolveLeechLapseThreshold(recallSet);
+ * for (const { point, reasons } of collectLeeches(points, threshold)) {
+ *   console.log(`${point.content}: ${reasons.join(', ')}`);
+ * }
+ * ```
+ */
+
+import type { RecallPoint, RecallSet } from '../models';
+import type { LeechReason } from '../analytics/types';
+
+/** Lapses at which a recall point counts as a leech, unless its set sets its own */
+export const DEFAULT_LEECH_LAPSE_THRESHOLD = 4;
+
+/**
+ * Reviews after which a point whose stability is still under
+ * FLAT_STABILITY_DAYS counts as a leech: reviewing it isn't building memory.
+ */
+const FLAT_STABILITY_MIN_REPS = 5;
+const FLAT_STABILITY_DAYS = 7;
+
+/**
+ * A leech together with why it was flagged.
+ */
+export interface DetectedLeech {
+  /** The recall point */
+  point: RecallPoint;
+  /** Why the point is a leech (never empty) */
+  reasons: LeechReason[];
+}
+
+/**
+ * Resolves the lapse threshold a recall set's points are flagged at.
+ *
+ * @param recallSet - The recall set
+ * @returns The set's threshold, or the default when it doesn't set one
+ */
+export function resolveLeechLapseThreshold(
+  recallSet: Pick<RecallSet, 'leechLapseThreshold'>
+): number {
+  return recallSet.leechLapseThreshold ?? DEFAULT_LEECH_LAPSE_THRESHOLD;
+}
+
+/**
+ * Determines why a recall point is a leech.
+ *
+ * @param point - The recall point
+ * @param lapseThreshold - Lapses at which the point is flagged
+ * @returns The reasons, empty if the point isn't a leech or is suspended
+ */
+export function detectLeechReasons(point: RecallPoint, lapseThreshold: number): LeechReason[] {
+  if (point.suspendedAt) {
+    return [];
+  }
+
+  const { lapses, reps, stability } = point.fsrsState;
+  const reasons: LeechReason[] = [];
+  if (lapses >= lapseThreshold) {
+    reasons.push('lapses');
+  }
+  if (reps >= FLAT_STABILITY_MIN_REPS && stability < FLAT_STABILITY_DAYS) {
+    reasons.push('flat-stability');
+  }
+  return reasons;
+}
+
+/**
+ * Picks out the leeches among recall points, most lapses first and, among
+ * equal lapses, least stable first.
+ *
+ * @param points - Recall points, typically all of a set's
+ * @param lapseThreshold - Lapses at which a point is flagged
+ * @returns The leeches with their reasons
+ */
+export function collectLeeches(points: RecallPoint[], lapseThreshold: number): DetectedLeech[] {
+  const leeches: DetectedLeech[] = [];
+
+  for (const point of points) {
+    const reasons = detectLeechReasons(point, lapseThreshold);
+    if (reasons.length > 0) {
+      leeches.push({ point, reasons });
+    }
+  }
+
+  return leeches.sort(
+    (a, b) =>
+      b.point.fsrsState.lapses - a.point.fsrsState.lapses ||
+      a.point.fsrsState.stability - b.point.fsrsState.stability
+  );
+}
@@ -0,0 +1,402 @@
+/**
+ * Leech Remediation Service
+ *
+ * Lists a recall set's leeches (see leech-detection.ts) as a remediation
+ * queue and applies the learner's remedies to them. Reviewing a leech
+ * again the same way rarely helps, so each remedy changes what is
+ * reviewed or how:
+ *
+ * - **Split**: proposeSplit() asks the LLM to break the point into smaller
+ *   ones; split() adds the parts the learner confirmed (possibly edited) as
+ *   new points and suspends the original.
+ * - **Rewrite**: rewrite() replaces the point's content and/or context and
+ *   starts its schedule over, since its review history was about the old
+ *   wording. This takes it out of the queue.
+ * - **Suspend**: suspend() takes the point out of scheduling while keeping
+ *   its history; unsuspend() puts it back.
+ * - **Deep dive**: requestDeepDive() marks the point for a dedicated
+ *   deep-dive session (see SessionEngine.startSession), which clears the
+ *   mark once it has covered the point; cancelDeepDive() clears it early.
+ *
+ * Points are only reached through recall sets the learner owns: a point
+ * whose set the recall set repository can't see is reported as not found.
+ *
+ * @example
+ * ```typescript
+ * const service = new LeechRemediationService({
+ *   recallSetRepo: new RecallSetRepository(db, user.id),
+ *   recallPointRepo: new RecallPointRepository(db),
+ *   scheduler: new FSRSScheduler(),
+ *   llmClient,
+ * });
+ *
+ * const queue = await service.getQueue('rs_abc123');
+ * const leech = queue.leeches[0].point;
+ * const parts = await service.proposeSplit(leech.id);
+ * await service.split(leech.id, parts);
+ * ```
+ */
+
+import type { LLMProvider } from '../../llm/types';
+import {
+  buildLeechSplitPrompt,
+  parseLeechSplitResponse,
+  MAX_LEECH_SPLIT_PARTS,
+  type LeechSplitPart,
+} from '../../llm/prompts';
+import type { RecallPoint, RecallSet } from '../models';
+import type { FSRSScheduler } from '../fsrs/scheduler';
+import type { RecallSetRepository, RecallPointRepository } from '../../storage/repositories';
+import {
+  collectLeeches,
+  resolveLeechLapseThreshold,
+  type DetectedLeech,
+} from './leech-detection';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Temperature for split proposals; low, since the parts should restate the
+ * point rather than add to it.
+ */
+const SPLIT_TEMPERATURE = 0.3;
+
+/**
+ * Dependencies for LeechRemediationService. The recall set repository
+ * should be scoped to the learner whose leeches are remediated.
+ */
+export interface LeechRemediationServiceDependencies {
+  /** Repository for the learner's recall sets */
+  recallSetRepo: RecallSetRepository;
+  /** Repository for recall points */
+  recallPointRepo: RecallPointRepository;
+  /** Scheduler for the initial state of new and rewritten points */
+  scheduler: FSRSScheduler;
+  /** LLM that proposes splits; only proposeSplit() calls it */
+  llmClient?: LLMProvider;
+}
+
+/**
+ * A recall set's remediation queue.
+ */
+export interface LeechQueue {
+  /** The recall set */
+  recallSetId: string;
+  /** Name of the recall set */
+  recallSetName: string;
+  /** Lapses at which the set's points are flagged */
+  lapseThreshold: number;
+  /** The set's leeches, most lapses first */
+  leeches: DetectedLeech[];
+}
+
+/**
+ * Result of splitting a leech.
+ */
+export interface LeechSplitResult {
+  /** The original point, now suspended */
+  original: RecallPoint;
+  /** The new points, in the order given */
+  created: RecallPoint[];
+}
+
+/**
+ * Edits to a leech's wording; at least one is needed.
+ */
+export interface LeechRewriteInput {
+  /** New content */
+  content?: string;
+  /** New context */
+  context?: string;
+}
+
+/**
+ * Types of leech remediation errors.
+ */
+export type LeechRemediationErrorType =
+  | 'recall_set_not_found'
+  | 'recall_point_not_found'
+  | 'invalid_split'
+  | 'invalid_rewrite'
+  | 'point_suspended'
+  | 'split_failed';
+
+/**
+ * Custom error class for leech remediation failures.
+ * Includes the error type so callers can map it to a response.
+ */
+export class LeechRemediationError extends Error {
+  /** The type of error that occurred */
+  type: LeechRemediationErrorType;
+
+  constructor(message: string, type: LeechRemediationErrorType) {
+    super(message);
+    this.name = 'LeechRemediationError';
+    this.type = type;
+  }
+}
+
+/**
+ * Generates a unique ID with the given prefix.
+ * Uses crypto.randomUUID() for uniqueness.
+ *
+ * @param prefix - The prefix for the ID (e.g., 'rp')
+ * @returns A unique ID string
+ */
+function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID()}`;
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Lists leeches for remediation and applies the learner's remedies.
+ */
+export class LeechRemediationService {
+  private deps: LeechRemediationServiceDependencies;
+
+  /**
+   * Creates a new LeechRemediationService.
+   *
+   * @param deps - Repositories scoped to the learner, the scheduler and the LLM
+   */
+  constructor(deps: LeechRemediationServiceDependencies) {
+    this.deps = deps;
+  }
+
+  /**
+   * Lists a recall set's leeches, most lapses first. Suspended points are
+   * left out.
+   *
+   * @param recallSetId - The recall set
+   * @returns The set's remediation queue
+   * @throws LeechRemediationError if the recall set doesn't exist
+   */
+  async getQueue(recallSetId: string): Promise<LeechQueue> {
+    const recallSet = await this.deps.recallSetRepo.findById(recallSetId);
+    if (!recallSet) {
+      throw new LeechRemediationError(
+        `RecallSet with id '${recallSetId}' not found`,
+        'recall_set_not_found'
+      );
+    }
+
+    const lapseThreshold = resolveLeechLapseThreshold(recallSet);
+    const points = await this.deps.recallPointRepo.findByRecallSetId(recallSetId);
+
+    return {
+      recallSetId,
+      recallSetName: recallSet.name,
+      lapseThreshold,
+      leeches: collectLeeches(points, lapseThreshold),
+    };
+  }
+
+  /**
+   * Asks the LLM how to split a point into smaller ones. Nothing is saved;
+   * pass the parts (edited as the learner likes) to split().
+   *
+   * @param recallPointId - The point to split
+   * @returns The proposed parts, 2 to MAX_LEECH_SPLIT_PARTS of them
+   * @throws LeechRemediationError if the point doesn't exist or the LLM's
+   *         response doesn't contain a usable split
+   * @throws Error if the service was created without an LLM client
+   */
+  async proposeSplit(recallPointId: string): Promise<LeechSplitPart[]> {
+    const llmClient = this.deps.llmClient;
+    if (!llmClient) {
+      throw new Error('LeechRemediationService needs an LLM client to propose splits');
+    }
+    const { point, recallSet } = await this.getPoint(recallPointId);
+
+    const response = await llmClient.complete(
+      buildLeechSplitPrompt({ point, recallSetName: recallSet.name }),
+      { temperature: SPLIT_TEMPERATURE }
+    );
+    const parts = parseLeechSplitResponse(response.text);
+    if (!parts) {
+      throw new LeechRemediationError(
+        `Could not propose a split for RecallPoint '${recallPointId}'; try again or split it by hand`,
+        'split_failed'
+      );
+    }
+    return parts;
+  }
+
+  /**
+   * Splits a point: adds the parts to its recall set as new points and
+   * suspends the original, keeping its history.
+   *
+   * Everything is checked before anything is written. The parts are then
+   * added in a single insert, and the original is suspended last, so a
+   * failed split never leaves the original suspended without its parts;
+   * once suspended, it can't be split again.
+   *
+   * @param recallPointId - The point to split
+   * @param parts - The new points' content and context
+   * @returns The suspended original and the new points
+   * @throws LeechRemediationError if the point doesn't exist or is suspended,
+   *         or there are fewer than 2 or more than MAX_LEECH_SPLIT_PARTS
+   *         parts, or a part has no content
+   */
+  async split(recallPointId: string, parts: LeechSplitPart[]): Promise<LeechSplitResult> {
+    const { point } = await this.getPoint(recallPointId);
+    if (point.suspendedAt) {
+      throw new LeechRemediationError(
+        `RecallPoint '${recallPointId}' is suspended; unsuspend it before splitting it`,
+        'point_suspended'
+      );
+    }
+    if (parts.length < 2 || parts.length > MAX_LEECH_SPLIT_PARTS) {
+      throw new LeechRemediationError(
+        `A recall point is split into 2 to ${MAX_LEECH_SPLIT_PARTS} parts, not ${parts.length}`,
+        'invalid_split'
+      );
+    }
+    if (parts.some((part) => !part.content.trim())) {
+      throw new LeechRemediationError('Every part of a split needs content', 'invalid_split');
+    }
+
+    const now = new Date();
+    const created = await this.deps.recallPointRepo.createMany(
+      parts.map((part) => ({
+        id: generateId('rp'),
+        recallSetId: point.recallSetId,
+        content: part.content.trim(),
+        context: part.context.trim(),
+        fsrsState: this.deps.scheduler.createInitialState(now),
+      }))
+    );
+
+    const original = await this.deps.recallPointRepo.update(recallPointId, {
+      suspendedAt: now,
+      deepDiveRequestedAt: null,
+    });
+
+    return { original, created };
+  }
+
+  /**
+   * Rewrites a point's content and/or context and starts its schedule over
+   * as a new point. Its recall history is kept.
+   *
+   * @param recallPointId - The point to rewrite
+   * @param input - The new content and/or context
+   * @returns The rewritten point
+   * @throws LeechRemediationError if the point doesn't exist, or neither
+   *         content nor context is given, or content is empty
+   */
+  async rewrite(recallPointId: string, input: LeechRewriteInput): Promise<RecallPoint> {
+    await this.getPoint(recallPointId);
+    if (input.content === undefined && input.context === undefined) {
+      throw new LeechRemediationError(
+        'A rewrite needs new content, new context, or both',
+        'invalid_rewrite'
+      );
+    }
+    if (input.content !== undefined && !input.content.trim()) {
+      throw new LeechRemediationError('A rewritten point needs content', 'invalid_rewrite');
+    }
+
+    await this.deps.recallPointRepo.update(recallPointId, {
+      content: input.content?.trim(),
+      context: input.context?.trim(),
+      deepDiveRequestedAt: null,
+    });
+    await this.deps.recallPointRepo.updateFSRSState(
+      recallPointId,
+      this.deps.scheduler.createInitialState(new Date())
+    );
+
+    return (await this.deps.recallPointRepo.findById(recallPointId))!;
+  }
+
+  /**
+   * Suspends a point: it keeps its history but is no longer scheduled, and
+   * leaves the remediation queue. Suspending a suspended point does nothing.
+   *
+   * @param recallPointId - The point to suspend
+   * @returns The suspended point
+   * @throws LeechRemediationError if the point doesn't exist
+   */
+  async suspend(recallPointId: string): Promise<RecallPoint> {
+    const { point } = await this.getPoint(recallPointId);
+    if (point.suspendedAt) {
+      return point;
+    }
+    return this.deps.recallPointRepo.update(recallPointId, {
+      suspendedAt: new Date(),
+      deepDiveRequestedAt: null,
+    });
+  }
+
+  /**
+   * Puts a suspended point back into scheduling, with the schedule it had.
+   *
+   * @param recallPointId - The point to unsuspend
+   * @returns The point
+   * @throws LeechRemediationError if the point doesn't exist
+   */
+  async unsuspend(recallPointId: string): Promise<RecallPoint> {
+    await this.getPoint(recallPointId);
+    return this.deps.recallPointRepo.update(recallPointId, { suspendedAt: null });
+  }
+
+  /**
+   * Marks a point for the set's next deep-dive session. Marking a marked
+   * point keeps its original mark.
+   *
+   * @param recallPointId - The point to mark
+   * @returns The marked point
+   * @throws LeechRemediationError if the point doesn't exist or is suspended
+   */
+  async requestDeepDive(recallPointId: string): Promise<RecallPoint> {
+    const { point } = await this.getPoint(recallPointId);
+    if (point.deepDiveRequestedAt) {
+      return point;
+    }
+    if (point.suspendedAt) {
+      throw new LeechRemediationError(
+        `RecallPoint '${recallPointId}' is suspended; unsuspend it before a deep dive`,
+        'point_suspended'
+      );
+    }
+    return this.deps.recallPointRepo.update(recallPointId, { deepDiveRequestedAt: new Date() });
+  }
+
+  /**
+   * Clears a point's deep-dive mark.
+   *
+   * @param recallPointId - The point
+   * @returns The point
+   * @throws LeechRemediationError if the point doesn't exist
+   */
+  async cancelDeepDive(recallPointId: string): Promise<RecallPoint> {
+    await this.getPoint(recallPointId);
+    return this.deps.recallPointRepo.update(recallPointId, { deepDiveRequestedAt: null });
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  /**
+   * Loads a point and its recall set, which must be visible through the
+   * (user-scoped) recall set repository.
+   */
+  private async getPoint(recallPointId: string): Promise<{ point: RecallPoint; recallSet: RecallSet }> {
+    const point = await this.deps.recallPointRepo.findById(recallPointId);
+    const recallSet = point ? await this.deps.recallSetRepo.findById(point.recallSetId) : null;
+    if (!point || !recallSet) {
+      throw new LeechRemediationError(
+        `RecallPoint with id '${recallPointId}' not found`,
+        'recall_point_not_found'
+      );
+    }
+    return { point, recallSet };
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * FSRS Parameters Domain Types
+ *
+ * FSRS predicts how quickly memories fade using 19 weights. The library's
+ * defaults were fitted to millions of Anki reviews; a user's own review
+ * history can be used to fit weights that match how *they* remember.
+ *
+ * Fitted weights are stored per user (applying to all of their recall sets)
+ * or per recall set (overriding the user's weights for that set). The
+ * scheduler falls back to the library defaults when neither exists.
+ *
+ * This module contains only pure TypeScript types with no runtime dependencies.
+ */
+
+/**
+ * A set of fitted FSRS weights and how well they fit the history.
+ *
+ * @example
+ * ```typescript
+ * const params: FSRSParameters = {
+ *   id: 'fsp_abc123',
+ *   recallSetId: null, // applies to all of the user's sets
+ *   weights: [0.41, 1.18, 3.17, ...],
+ *   reviewCount: 240,
+ *   logLossBefore: 0.412,
+ *   logLossAfter: 0.365,
+ *   fittedAt: new Date('2025-03-01T10:00:00Z'),
+ * };
+ * ```
+ */
+export interface FSRSParameters {
+  /** Unique identifier (e.g., 'fsp_abc123') */
+  id: string;
+
+  /** The recall set these weights apply to, or null for all of the user's sets */
+  recallSetId: string | null;
+
+  /** The 19 FSRS-5 weights */
+  weights: number[];
+
+  /** Number of reviews with a retention prediction the weights were fitted on */
+  reviewCount: number;
+
+  /** Log loss of the previously used weights on that history */
+  logLossBefore: number;
+
+  /** Log loss of the fitted weights on that history (lower is better) */
+  logLossAfter: number;
+
+  /** When the weights were fitted */
+  fittedAt: Date;
+}
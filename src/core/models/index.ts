@@ -30,8 +30,10 @@ export type {
 // Session types - study sessions with conversational history
 export type {
   SessionStatus,
+  SessionMode,
   MessageRole,
   SessionMessage,
+  PromptVersions,
   Session,
 } from './session';
 
@@ -46,6 +48,35 @@ export type {
   SessionMetricsSummary,
 } from './session-metrics';
 
+// Ingestion types - turning source material into draft recall sets
+export type {
+  IngestionSourceType,
+  IngestionJobStatus,
+  IngestionCandidateStatus,
+  IngestionSource,
+  IngestionCandidate,
+  IngestionJob,
+} from './ingestion';
+
+// User types - accounts that own recall sets and sessions
+export type { User } from './user';
+
+// FSRS parameter types - weights fitted to a user's review history
+export type { FSRSParameters } from './fsrs-parameters';
+
+// Outcome evaluation types - past recall attempts judged again by a newer evaluator
+export type { OutcomeEvaluation } from './outcome-evaluation';
+
+// Session annotation types - notes and tags on sessions for prompt refinement
+export type { SessionAnnotation } from './session-annotation';
+
+// Tangent candidate types - recall points proposed from session rabbitholes
+export type {
+  TangentCandidateStatus,
+  TangentDestination,
+  TangentCandidate,
+} from './tangent-candidate';
+
 // SessionMetrics helper functions
 export {
   calculateEngagementScore,
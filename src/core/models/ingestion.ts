@@ -0,0 +1,142 @@
+/**
+ * Ingestion Domain Types
+ *
+ * Ingestion turns raw source material (pasted text or a local markdown/plain-text
+ * file) into a draft RecallSet. The workflow is:
+ *
+ * 1. The source material is stored as an IngestionSource
+ * 2. An IngestionJob asks the LLM to extract candidate recall points
+ * 3. The user reviews each candidate: approve, edit, or reject
+ * 4. Approved candidates become a RecallSet with a generated discussion prompt
+ *
+ * Jobs persist their candidates and review decisions, so a half-finished
+ * review can be resumed later.
+ *
+ * This module contains only pure TypeScript types with no runtime dependencies.
+ */
+
+/**
+ * Where the source material came from.
+ *
+ * - 'text': Pasted directly (e.g., via the API)
+ * - 'file': Read from a local markdown or plain-text file
+ */
+export type IngestionSourceType = 'text' | 'file';
+
+/**
+ * Lifecycle status of an ingestion job.
+ *
+ * - 'extracting': The LLM is extracting candidates from the source
+ * - 'reviewing': Candidates are ready for (or undergoing) user review
+ * - 'completed': A RecallSet has been created from the approved candidates
+ * - 'failed': Extraction failed; the job can be retried
+ * - 'cancelled': The user abandoned the job
+ */
+export type IngestionJobStatus =
+  | 'extracting'
+  | 'reviewing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Review status of a single candidate recall point.
+ *
+ * - 'pending': Not yet reviewed
+ * - 'approved': Accepted as extracted
+ * - 'edited': Accepted with user modifications
+ * - 'rejected': Dropped from the final recall set
+ */
+export type IngestionCandidateStatus = 'pending' | 'approved' | 'edited' | 'rejected';
+
+/**
+ * Raw source material submitted for ingestion.
+ *
+ * @example
+ * ```typescript
+ * const source: IngestionSource = {
+ *   id: 'src_abc123',
+ *   type: 'file',
+ *   name: 'notes/atp-synthesis.md',
+ *   content: '# ATP Synthesis\n\nATP synthase is...',
+ *   createdAt: new Date(),
+ * };
+ * ```
+ */
+export interface IngestionSource {
+  /** Unique identifier (e.g., 'src_abc123') */
+  id: string;
+
+  /** Whether the material was pasted or read from a file */
+  type: IngestionSourceType;
+
+  /**
+   * Human-readable label: the file path for file sources,
+   * or an optional title for pasted text (null if none was given).
+   */
+  name: string | null;
+
+  /** The full text of the source material */
+  content: string;
+
+  /** Timestamp when the source was stored */
+  createdAt: Date;
+}
+
+/**
+ * A recall point proposed by the LLM, awaiting user review.
+ */
+export interface IngestionCandidate {
+  /** Unique identifier within the job (e.g., 'cand_abc123') */
+  id: string;
+
+  /** The fact or concept to be recalled (becomes RecallPoint.content) */
+  content: string;
+
+  /** Background for the tutor (becomes RecallPoint.context) */
+  context: string;
+
+  /** Supporting excerpt from the source material, if the LLM provided one */
+  sourceQuote: string | null;
+
+  /** Current review decision */
+  status: IngestionCandidateStatus;
+}
+
+/**
+ * An ingestion job tracking extraction and review of one source.
+ */
+export interface IngestionJob {
+  /** Unique identifier (e.g., 'ing_abc123') */
+  id: string;
+
+  /** The source material this job ingests */
+  sourceId: string;
+
+  /** Current lifecycle status */
+  status: IngestionJobStatus;
+
+  /** Candidate recall points with their review decisions */
+  candidates: IngestionCandidate[];
+
+  /** Recall set name suggested by the LLM during extraction */
+  suggestedName: string | null;
+
+  /** Recall set description suggested by the LLM during extraction */
+  suggestedDescription: string | null;
+
+  /** The RecallSet created from this job (null until completed) */
+  recallSetId: string | null;
+
+  /** Error message from the last failed extraction (null otherwise) */
+  error: string | null;
+
+  /** Timestamp when the job was created */
+  createdAt: Date;
+
+  /** Timestamp of the last change to the job */
+  updatedAt: Date;
+
+  /** Timestamp when the RecallSet was created (null until completed) */
+  completedAt: Date | null;
+}
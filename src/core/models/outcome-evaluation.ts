@@ -0,0 +1,65 @@
+/**
+ * Outcome Evaluation Domain Types
+ *
+ * A recall outcome records how the evaluator judged a recall attempt when it
+ * happened. When the evaluation prompt improves, past attempts can be judged
+ * again by replaying the stored conversation slice through the current
+ * evaluator. Each such re-evaluation is stored alongside the original
+ * outcome, under the version of the prompt that produced it, so the original
+ * judgment is never lost and several prompt versions can be compared.
+ *
+ * This module contains only pure TypeScript types with no runtime dependencies.
+ */
+
+import type { RecallRating } from '../fsrs/types';
+
+/**
+ * A recall outcome judged again by a later version of the evaluator.
+ *
+ * @example
+ * ```typescript
+ * const evaluation: OutcomeEvaluation = {
+ *   id: 'oe_abc123',
+ *   recallOutcomeId: 'ro_xyz789',
+ *   evaluatorVersion: 'enhanced-v2',
+ *   success: true,
+ *   confidence: 0.7,
+ *   rating: 'good',
+ *   reasoning: 'Recalled the mechanism after one hint.',
+ *   keyDemonstratedConcepts: ['proton gradient'],
+ *   missedConcepts: ['ATP synthase rotation'],
+ *   createdAt: new Date('2025-03-01T10:00:00Z'),
+ * };
+ * ```
+ */
+export interface OutcomeEvaluation {
+  /** Unique identifier (e.g., 'oe_abc123') */
+  id: string;
+
+  /** The recall outcome that was re-evaluated */
+  recallOutcomeId: string;
+
+  /** Version of the evaluation prompt that produced this evaluation */
+  evaluatorVersion: string;
+
+  /** Whether the attempt counts as successful recall */
+  success: boolean;
+
+  /** Confidence in the judgment (0.0 to 1.0) */
+  confidence: number;
+
+  /** Rating the evaluator suggests for the attempt */
+  rating: RecallRating;
+
+  /** The evaluator's explanation */
+  reasoning: string;
+
+  /** Concepts the learner demonstrated */
+  keyDemonstratedConcepts: string[];
+
+  /** Concepts the learner missed */
+  missedConcepts: string[];
+
+  /** When the re-evaluation was made */
+  createdAt: Date;
+}
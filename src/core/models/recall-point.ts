@@ -147,6 +147,8 @@ export interface RecallAttempt {
  *     { timestamp: new Date('2024-01-16'), success: true, latencyMs: 2800 },
  *     { timestamp: new Date('2024-01-17'), success: true, latencyMs: 2100 },
  *   ],
+ *   suspendedAt: null,
+ *   deepDiveRequestedAt: null,
  *   createdAt: new Date('2024-01-14'),
  *   updatedAt: new Date('2024-01-17'),
  * };
@@ -191,6 +193,19 @@ export interface RecallPoint {
    */
   recallHistory: RecallAttempt[];
 
+  /**
+   * When the learner suspended the point, or null if it is active.
+   * Suspended points are kept with their history but never scheduled,
+   * typically because they were split into smaller points.
+   */
+  suspendedAt: Date | null;
+
+  /**
+   * When the learner marked the point for a dedicated deep-dive session,
+   * or null if it isn't marked. Cleared once a deep dive covers the point.
+   */
+  deepDiveRequestedAt: Date | null;
+
   /**
    * Timestamp when the recall point was created.
    */
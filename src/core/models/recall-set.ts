@@ -11,6 +11,7 @@
  * - Define custom discussion prompts that guide AI-powered Socratic dialogues
  * - Track learning progress at the collection level
  * - Pause or archive sets when needed (e.g., exam completed, topic mastered)
+ * - Tune scheduling per set (e.g., higher retention for exam preparation)
  *
  * This module contains only pure TypeScript types with no runtime dependencies,
  * forming the contract between all modules that work with recall sets.
@@ -42,6 +43,11 @@ export type RecallSetStatus = 'active' | 'paused' | 'archived';
  *   description: 'Major battles, treaties, and turning points of WWII',
  *   status: 'active',
  *   discussionSystemPrompt: 'You are a history teacher helping the student recall key WWII events through discussion.',
+ *   desiredRetention: 0.95,
+ *   maximumIntervalDays: null,
+ *   maxPointsPerSession: 20,
+ *   newPointsPerDay: null,
+ *   leechLapseThreshold: null,
  *   createdAt: new Date('2024-01-15'),
  *   updatedAt: new Date('2024-01-15'),
  * };
@@ -79,6 +85,36 @@ export interface RecallSet {
    */
   discussionSystemPrompt: string;
 
+  /**
+   * Target probability of recall when a point comes up for review (0-1).
+   * Higher values schedule reviews sooner. Null uses the scheduler default.
+   */
+  desiredRetention: number | null;
+
+  /**
+   * Longest interval, in days, a point in this set can be scheduled ahead.
+   * Null uses the scheduler default.
+   */
+  maximumIntervalDays: number | null;
+
+  /**
+   * Most recall points a session of this set covers.
+   * Null uses the session engine default.
+   */
+  maxPointsPerSession: number | null;
+
+  /**
+   * Most never-reviewed points introduced into sessions per day.
+   * Null uses the session engine default.
+   */
+  newPointsPerDay: number | null;
+
+  /**
+   * Lapses after which a point is flagged as a leech and queued for
+   * remediation. Null uses the default of 4.
+   */
+  leechLapseThreshold: number | null;
+
   /**
    * Timestamp when the recall set was created.
    */
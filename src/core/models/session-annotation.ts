@@ -0,0 +1,54 @@
+/**
+ * Session Annotation Domain Types
+ *
+ * Prompt refinement happens in rounds: run sessions with a prompt version,
+ * read the transcripts, note what went wrong, and revise the prompt.
+ * Annotations keep those notes next to the sessions they are about. Each
+ * annotation is a free-text note with tags such as "too long" or "robotic",
+ * attached to a whole session or to one message of its transcript, so tag
+ * frequencies can be compared across prompt versions and recall sets.
+ *
+ * This module contains only pure TypeScript types with no runtime dependencies.
+ */
+
+/**
+ * A note on a session or on one of its messages.
+ *
+ * @example
+ * ```typescript
+ * const annotation: SessionAnnotation = {
+ *   id: 'ann_abc123',
+ *   sessionId: 'sess_xyz789',
+ *   messageIndex: 4,
+ *   note: 'Three paragraphs before asking anything.',
+ *   tags: ['too long'],
+ *   createdAt: new Date('2026-10-01T10:00:00Z'),
+ *   updatedAt: new Date('2026-10-01T10:00:00Z'),
+ * };
+ * ```
+ */
+export interface SessionAnnotation {
+  /** Unique identifier (e.g., 'ann_abc123') */
+  id: string;
+
+  /** The session the annotation is about */
+  sessionId: string;
+
+  /**
+   * Index of the annotated message in the session's transcript (0-based),
+   * or null for a note on the session as a whole.
+   */
+  messageIndex: number | null;
+
+  /** Free-text note (may be empty when the tags say enough) */
+  note: string;
+
+  /** Short lowercase labels for what the note is about (e.g., 'too long') */
+  tags: string[];
+
+  /** When the annotation was made */
+  createdAt: Date;
+
+  /** When the annotation was last edited */
+  updatedAt: Date;
+}
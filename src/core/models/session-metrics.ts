@@ -17,6 +17,8 @@
  * with no external runtime dependencies.
  */
 
+import type { RecallRating } from '../fsrs/types';
+
 /**
  * Granular recall outcome for a single recall point within a session.
  *
@@ -32,6 +34,9 @@
  *   confidence: 0.85,
  *   messageRange: { start: 3, end: 8 },
  *   durationMs: 45000,
+ *   aiRating: 'good',
+ *   learnerRating: null,
+ *   hintsUsed: 0,
  * };
  * ```
  */
@@ -70,6 +75,26 @@ export interface RecallOutcome {
    * Calculated from timestamps of messages in the messageRange.
    */
   durationMs: number;
+
+  /**
+   * Rating derived from the evaluation, or null if the point wasn't
+   * scheduled after this evaluation (e.g. an auto-evaluation that let the
+   * discussion continue).
+   */
+  aiRating: RecallRating | null;
+
+  /**
+   * Rating the learner chose instead of the AI's, or null if they kept it.
+   * When set, this is the rating the point was scheduled with.
+   */
+  learnerRating: RecallRating | null;
+
+  /**
+   * Hints the learner asked for (or was given after saying they didn't
+   * know) before this evaluation. Each hint lowers the best rating the
+   * point can be scheduled with.
+   */
+  hintsUsed: number;
 }
 
 /**
@@ -30,6 +30,19 @@
  */
 export type SessionStatus = 'in_progress' | 'completed' | 'abandoned';
 
+/**
+ * How a Session's results are used.
+ *
+ * - 'review': Regular spaced repetition; each evaluated point is rescheduled
+ * - 'practice': Drilling a set (e.g. before an exam); points are evaluated
+ *               and outcomes recorded, but their FSRS state is left untouched
+ *               so scheduling isn't distorted
+ * - 'deep-dive': A slower, explanatory session on the points the learner
+ *                marked as leeches for a deep dive; points are rescheduled
+ *                as in a review
+ */
+export type SessionMode = 'review' | 'practice' | 'deep-dive';
+
 /**
  * Role of a message participant in the conversation.
  *
@@ -39,6 +52,20 @@ export type SessionStatus = 'in_progress' | 'completed' | 'abandoned';
  */
 export type MessageRole = 'user' | 'assistant' | 'system';
 
+/**
+ * The named prompt versions a Session was conducted with, one per prompt
+ * the session uses (see src/llm/prompts/registry.ts).
+ *
+ * - tutor: The Socratic tutor system prompt
+ * - evaluator: The enhanced recall evaluation prompt
+ * - rabbithole: The rabbithole detection and return prompts
+ */
+export interface PromptVersions {
+  tutor: string;
+  evaluator: string;
+  rabbithole: string;
+}
+
 /**
  * SessionMessage represents a single message in a session's conversation.
  *
@@ -117,7 +144,11 @@ export interface SessionMessage {
  *   id: 'sess_abc123',
  *   recallSetId: 'rs_xyz789',
  *   status: 'in_progress',
+ *   mode: 'review',
  *   targetRecallPointIds: ['rp_001', 'rp_002', 'rp_003'],
+ *   promptVersions: { tutor: 'socratic-v1', evaluator: 'enhanced-v1', rabbithole: 'rabbithole-v1' },
+ *   experimentId: null,
+ *   experimentVariant: null,
  *   startedAt: new Date('2024-01-20T10:30:00Z'),
  *   endedAt: null,
  * };
@@ -133,14 +164,25 @@ export interface Session {
   /**
    * ID of the RecallSet being studied in this session.
    * Determines which system prompt guides the AI conversation.
+   *
+   * Null for a daily review session, which draws the most urgent due points
+   * from every active RecallSet; each point is then discussed with its own
+   * set's system prompt.
    */
-  recallSetId: string;
+  recallSetId: string | null;
 
   /**
    * Current lifecycle status of the session.
    */
   status: SessionStatus;
 
+  /**
+   * Whether the session reschedules points ('review' or 'deep-dive') or
+   * only drills them ('practice'). Practice sessions can be filtered out of
+   * analytics.
+   */
+  mode: SessionMode;
+
   /**
    * IDs of the recall points targeted for review in this session.
    * These are the specific items the FSRS algorithm determined were
@@ -148,6 +190,25 @@ export interface Session {
    */
   targetRecallPointIds: string[];
 
+  /**
+   * The prompt versions the session was conducted with. Resuming the
+   * session keeps using them. Null for sessions started before prompt
+   * versions were recorded, which used the then-current prompts.
+   */
+  promptVersions: PromptVersions | null;
+
+  /**
+   * ID of the prompt experiment that assigned the session's prompt
+   * versions, or null if the session used the default prompts.
+   */
+  experimentId: string | null;
+
+  /**
+   * Name of the experiment variant the session was assigned to, or null
+   * if it wasn't part of an experiment.
+   */
+  experimentVariant: string | null;
+
   /**
    * When the session began.
    */
@@ -0,0 +1,90 @@
+/**
+ * Tangent Candidate Domain Types
+ *
+ * A rabbithole is a stretch of a session where the conversation followed a
+ * tangent away from the recall point at hand. Tangents the learner cared
+ * enough to chase are often worth remembering in their own right, so once a
+ * session is over each finished rabbithole is summarized from its part of
+ * the transcript into a candidate recall point. The learner reviews the
+ * candidates: accepted ones become recall points, either in the session's
+ * recall set or in a "Tangents" inbox set; dismissed ones are kept so they
+ * aren't proposed again.
+ *
+ * This module contains only pure TypeScript types with no runtime dependencies.
+ */
+
+/**
+ * Review status of a tangent candidate.
+ *
+ * - 'pending': Not yet reviewed
+ * - 'accepted': Added as a recall point
+ * - 'dismissed': Not worth keeping
+ */
+export type TangentCandidateStatus = 'pending' | 'accepted' | 'dismissed';
+
+/**
+ * Where an accepted tangent candidate is added.
+ *
+ * - 'set': The candidate's recall set (usually the session's)
+ * - 'inbox': The learner's "Tangents" inbox set, created when first needed
+ */
+export type TangentDestination = 'set' | 'inbox';
+
+/**
+ * A recall point proposed from a rabbithole in a session.
+ *
+ * @example
+ * ```typescript
+ * const candidate: TangentCandidate = {
+ *   id: 'tan_abc123',
+ *   sessionId: 'sess_xyz789',
+ *   rabbitholeEventId: 'rh_def456',
+ *   recallSetId: 'rs_ghi012',
+ *   topic: 'why the Weimar Republic printed money',
+ *   content: 'The Weimar Republic printed money to pay reparations, causing the hyperinflation of 1923',
+ *   context: 'Came up while recalling the Treaty of Versailles.',
+ *   status: 'pending',
+ *   recallPointId: null,
+ *   createdAt: new Date('2026-10-01T10:30:00Z'),
+ *   reviewedAt: null,
+ * };
+ * ```
+ */
+export interface TangentCandidate {
+  /** Unique identifier (e.g., 'tan_abc123') */
+  id: string;
+
+  /** The session the tangent happened in */
+  sessionId: string;
+
+  /** The rabbithole the candidate was summarized from */
+  rabbitholeEventId: string;
+
+  /**
+   * Recall set the candidate belongs with: the session's set, or for a
+   * daily review the set of a recall point the tangent touched. Null when
+   * neither is known; such candidates can only go to the inbox.
+   */
+  recallSetId: string | null;
+
+  /** The tangent's topic, as recorded for the rabbithole */
+  topic: string;
+
+  /** The proposed recall point: the statement to remember */
+  content: string;
+
+  /** Supporting context for the proposed point */
+  context: string;
+
+  /** Review status */
+  status: TangentCandidateStatus;
+
+  /** The recall point created on acceptance (null until accepted) */
+  recallPointId: string | null;
+
+  /** When the candidate was proposed */
+  createdAt: Date;
+
+  /** When the candidate was accepted or dismissed (null while pending) */
+  reviewedAt: Date | null;
+}
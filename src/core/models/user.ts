@@ -0,0 +1,44 @@
+/**
+ * User Domain Types
+ *
+ * A User is a person with an account on a shared deployment. Recall sets and
+ * sessions are owned by a user, and the API only ever shows a user their own
+ * data.
+ *
+ * Credentials (the password hash) are deliberately not part of this type so
+ * a User can be returned from API endpoints as-is; the repository exposes the
+ * hash only through a dedicated credentials lookup used for login.
+ *
+ * This module contains only pure TypeScript types with no runtime dependencies.
+ */
+
+/**
+ * Represents an account that can sign in to the web app and API.
+ *
+ * @example
+ * ```typescript
+ * const user: User = {
+ *   id: 'usr_abc123',
+ *   email: 'ada@example.com',
+ *   name: 'Ada',
+ *   createdAt: new Date('2025-01-10T09:00:00Z'),
+ *   lastLoginAt: new Date('2025-01-12T18:30:00Z'),
+ * };
+ * ```
+ */
+export interface User {
+  /** Unique identifier (e.g., 'usr_abc123') */
+  id: string;
+
+  /** Login email address, stored lowercased */
+  email: string;
+
+  /** Display name shown in the UI */
+  name: string;
+
+  /** When the account was created */
+  createdAt: Date;
+
+  /** When the user last logged in, or null if they never have */
+  lastLoginAt: Date | null;
+}
@@ -0,0 +1,203 @@
+/**
+ * Evaluator Calibration Datasets
+ *
+ * A calibration dataset is a JSON file of recall attempts labelled by a
+ * person: the recall point, the conversation excerpt in which the learner
+ * tried to recall it, and the verdict and rating a human gave the attempt.
+ * The evaluator benchmark runs an evaluator over every case and compares
+ * its judgments with the labels.
+ *
+ * File format:
+ * ```json
+ * {
+ *   "version": 1,
+ *   "description": "Hand-labelled attempts from cell biology sessions",
+ *   "cases": [
+ *     {
+ *       "id": "atp-gradient-partial",
+ *       "topic": "Cell Biology",
+ *       "recallPoint": {
+ *         "content": "ATP synthase is driven by the proton gradient across the inner membrane",
+ *         "context": "Chemiosmosis couples electron transport to ATP production"
+ *       },
+ *       "conversation": [
+ *         { "role": "assistant", "content": "What powers ATP synthase?" },
+ *         { "role": "user", "content": "Something about protons moving back in?" }
+ *       ],
+ *       "label": { "success": true, "rating": "hard" },
+ *       "notes": "Needed the word 'gradient' from the tutor"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import type { RecallRating } from '../fsrs/types';
+
+/**
+ * Current calibration dataset format version.
+ * Bump this if the case shape changes incompatibly.
+ */
+export const CALIBRATION_DATASET_VERSION = 1;
+
+/**
+ * One labelled recall attempt.
+ */
+export interface CalibrationCase {
+  /** Identifier unique within the dataset (e.g., 'atp-gradient-partial') */
+  id: string;
+  /** Topic passed to the evaluator as context (typically the recall set name) */
+  topic?: string;
+  /** The recall point the learner was trying to recall */
+  recallPoint: {
+    content: string;
+    context: string;
+  };
+  /** The conversation excerpt containing the attempt, oldest message first */
+  conversation: {
+    role: 'user' | 'assistant';
+    content: string;
+  }[];
+  /** How a person judged the attempt */
+  label: {
+    /** Whether the attempt counts as successful recall */
+    success: boolean;
+    /** The rating the point should be scheduled with */
+    rating: RecallRating;
+  };
+  /** Free-text notes from the labeller */
+  notes?: string;
+}
+
+/**
+ * The contents of a calibration dataset file.
+ */
+export interface CalibrationDataset {
+  /** Dataset format version */
+  version: number;
+  /** Human-readable description of where the cases come from */
+  description?: string;
+  /** The labelled attempts */
+  cases: CalibrationCase[];
+}
+
+/**
+ * Types of calibration dataset errors.
+ */
+export type CalibrationDatasetErrorType = 'unreadable' | 'invalid_dataset';
+
+/**
+ * Error thrown when a calibration dataset can't be read or is malformed.
+ */
+export class CalibrationDatasetError extends Error {
+  /** The type of error that occurred */
+  type: CalibrationDatasetErrorType;
+
+  constructor(message: string, type: CalibrationDatasetErrorType) {
+    super(message);
+    this.name = 'CalibrationDatasetError';
+    this.type = type;
+  }
+}
+
+/**
+ * Shape of a dataset as read from JSON.
+ */
+const calibrationDatasetSchema = z.object({
+  version: z.number().int().positive(),
+  description: z.string().optional(),
+  cases: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        topic: z.string().optional(),
+        recallPoint: z.object({
+          content: z.string().min(1),
+          context: z.string(),
+        }),
+        conversation: z
+          .array(
+            z.object({
+              role: z.enum(['user', 'assistant']),
+              content: z.string(),
+            })
+          )
+          .min(1),
+        label: z.object({
+          success: z.boolean(),
+          rating: z.enum(['forgot', 'hard', 'good', 'easy']),
+        }),
+        notes: z.string().optional(),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * Parses and validates a calibration dataset.
+ *
+ * @param input - Dataset JSON text, or an already-parsed JSON value
+ * @returns The validated dataset
+ * @throws CalibrationDatasetError ('invalid_dataset') if the input is not a
+ *         dataset this version can read, or case IDs repeat
+ */
+export function parseCalibrationDataset(input: unknown): CalibrationDataset {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      throw new CalibrationDatasetError('The dataset is not valid JSON', 'invalid_dataset');
+    }
+  }
+
+  const result = calibrationDatasetSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? ` at '${issue.path.join('.')}'` : '';
+    throw new CalibrationDatasetError(
+      `Not a valid calibration dataset: ${issue.message}${path}`,
+      'invalid_dataset'
+    );
+  }
+
+  if (result.data.version !== CALIBRATION_DATASET_VERSION) {
+    throw new CalibrationDatasetError(
+      `Unsupported calibration dataset version ${result.data.version} ` +
+        `(expected ${CALIBRATION_DATASET_VERSION})`,
+      'invalid_dataset'
+    );
+  }
+
+  const seen = new Set<string>();
+  for (const calibrationCase of result.data.cases) {
+    if (seen.has(calibrationCase.id)) {
+      throw new CalibrationDatasetError(
+        `Duplicate case id '${calibrationCase.id}' in calibration dataset`,
+        'invalid_dataset'
+      );
+    }
+    seen.add(calibrationCase.id);
+  }
+
+  return result.data;
+}
+
+/**
+ * Reads and validates a calibration dataset file.
+ *
+ * @param path - Path to the dataset JSON file
+ * @returns The validated dataset
+ * @throws CalibrationDatasetError if the file can't be read or is malformed
+ */
+export function loadCalibrationDataset(path: string): CalibrationDataset {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf-8');
+  } catch {
+    throw new CalibrationDatasetError(`Could not read calibration dataset: ${path}`, 'unreadable');
+  }
+  return parseCalibrationDataset(raw);
+}
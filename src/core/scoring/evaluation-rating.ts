@@ -0,0 +1,84 @@
+/**
+ * Evaluation Rating
+ *
+ * Maps a recall evaluation to the FSRS rating a point is scheduled with.
+ * The session engine uses it when a point is evaluated, and re-evaluation
+ * of past outcomes uses it so re-evaluated ratings are comparable with the
+ * ratings points were actually scheduled with.
+ *
+ * Hints taken before the evaluation cap the rating: a point the learner
+ * only recalled with help wasn't recalled effortlessly, however confident
+ * the evaluator is about the final answer.
+ */
+
+import type { RecallRating } from '../fsrs/types';
+import type { RecallEvaluation } from './types';
+
+/**
+ * Maps a recall evaluation to an FSRS rating.
+ *
+ * The mapping considers both success and confidence:
+ * - High confidence success -> 'easy' or 'good'
+ * - Low confidence success -> 'good' or 'hard'
+ * - Failure -> 'forgot' or 'hard'
+ *
+ * @param evaluation - The recall evaluation result
+ * @returns The corresponding FSRS rating
+ */
+export function evaluationToRating(evaluation: RecallEvaluation): RecallRating {
+  if (evaluation.success) {
+    // Successful recall - determine between easy, good, or hard
+    if (evaluation.confidence >= 0.9) {
+      // High confidence, effortless recall
+      return 'easy';
+    } else if (evaluation.confidence >= 0.7) {
+      // Good recall with some effort
+      return 'good';
+    } else {
+      // Recalled but with significant difficulty
+      return 'hard';
+    }
+  } else {
+    // Failed recall
+    if (evaluation.confidence >= 0.7) {
+      // Definitely didn't recall
+      return 'forgot';
+    } else {
+      // Uncertain failure - might have been close
+      return 'hard';
+    }
+  }
+}
+
+/**
+ * Ratings from worst to best, for comparing them.
+ */
+const RATING_ORDER: RecallRating[] = ['forgot', 'hard', 'good', 'easy'];
+
+/**
+ * Best rating allowed after a number of hints, by hint count. Counts past
+ * the end of the list get its last entry.
+ */
+const MAX_RATING_AFTER_HINTS: RecallRating[] = ['easy', 'good', 'hard'];
+
+/**
+ * Lowers a rating to the best one allowed after the hints the learner took:
+ * 'good' after one hint, 'hard' after two or more. Ratings already at or
+ * below the cap are unchanged.
+ *
+ * @param rating - The rating to cap
+ * @param hintsUsed - Hints taken on the point before it was rated
+ * @returns The capped rating
+ *
+ * @example
+ * ```typescript
+ * capRatingForHints('easy', 0); // 'easy'
+ * capRatingForHints('easy', 1); // 'good'
+ * capRatingForHints('good', 3); // 'hard'
+ * capRatingForHints('forgot', 3); // 'forgot'
+ * ```
+ */
+export function capRatingForHints(rating: RecallRating, hintsUsed: number): RecallRating {
+  const cap = MAX_RATING_AFTER_HINTS[Math.min(hintsUsed, MAX_RATING_AFTER_HINTS.length - 1)];
+  return RATING_ORDER.indexOf(rating) > RATING_ORDER.indexOf(cap) ? cap : rating;
+}
@@ -0,0 +1,384 @@
+/**
+ * Evaluator Benchmark
+ *
+ * Measures how closely an evaluator's judgments match human labels by
+ * running it over every case of a calibration dataset. The report covers:
+ * - Verdict accuracy: how often the evaluator's success/failure verdict
+ *   matches the label, and which way it errs
+ * - Ratings: accuracy and a confusion matrix of labelled against predicted
+ *   rating, where the predicted rating is the one the session engine would
+ *   schedule the point with (see evaluationToRating)
+ * - Confidence calibration: the evaluator's confidence is read as the
+ *   probability that its verdict is right, scored with the Brier score and
+ *   compared with the observed accuracy in equal-width confidence bins
+ *
+ * Any evaluator with RecallEvaluator's evaluateEnhanced() signature can be
+ * benchmarked. For RecallEvaluator itself, the LLM provider decides whether
+ * the run is live or offline: a ScriptedLLMProvider or a ReplayLLMProvider
+ * cassette makes it repeatable without an API key.
+ *
+ * @example
+ * ```typescript
+ * const dataset = loadCalibrationDataset('data/calibration/cell-biology.json');
+ * const evaluator = new RecallEvaluator(ReplayLLMProvider.fromFile('data/cassettes/calibration.json'));
+ *
+ * const report = await runEvaluatorBenchmark(evaluator, dataset);
+ * console.log(`Verdict accuracy: ${report.verdict.accuracy}`);
+ * console.log(`Brier score: ${report.calibration.brierScore}`);
+ * ```
+ */
+
+import { FSRSScheduler } from '../fsrs/scheduler';
+import type { RecallRating } from '../fsrs/types';
+import type { RecallPoint, SessionMessage } from '../models';
+import { DEFAULT_PROMPT_VERSIONS, type EnhancedEvaluationContext } from '../../llm/prompts';
+import { evaluationToRating } from './evaluation-rating';
+import type { CalibrationCase, CalibrationDataset } from './calibration-dataset';
+import type { EnhancedRecallEvaluation } from './types';
+
+/**
+ * Ratings in order from worst to best recall, which is also the row and
+ * column order of the confusion matrix.
+ */
+export const BENCHMARK_RATINGS: readonly RecallRating[] = ['forgot', 'hard', 'good', 'easy'];
+
+/**
+ * Number of equal-width confidence bins used for calibration.
+ */
+const BIN_COUNT = 10;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The part of an evaluator the benchmark needs. RecallEvaluator satisfies it.
+ */
+export interface BenchmarkEvaluator {
+  evaluateEnhanced(
+    recallPoint: RecallPoint,
+    conversationMessages: SessionMessage[],
+    context?: EnhancedEvaluationContext
+  ): Promise<EnhancedRecallEvaluation>;
+}
+
+/**
+ * The evaluator's judgment of one case.
+ */
+export interface BenchmarkJudgment {
+  /** Whether the evaluator judged the attempt successful */
+  success: boolean;
+  /** The evaluator's confidence in its verdict (0.0 to 1.0) */
+  confidence: number;
+  /** The rating the session engine would schedule with */
+  rating: RecallRating;
+  /** The evaluator's explanation */
+  reasoning: string;
+}
+
+/**
+ * The outcome of benchmarking one case.
+ */
+export interface BenchmarkCaseResult {
+  /** The case's ID in the dataset */
+  caseId: string;
+  /** The human label */
+  expected: CalibrationCase['label'];
+  /** The evaluator's judgment (null if it threw) */
+  actual: BenchmarkJudgment | null;
+  /** The error the evaluator threw, if any */
+  error: string | null;
+  /** Whether the verdicts match (false if the evaluator threw) */
+  verdictCorrect: boolean;
+  /** Whether the ratings match (false if the evaluator threw) */
+  ratingCorrect: boolean;
+}
+
+/**
+ * Observed verdict accuracy for judgments whose confidence fell in one range.
+ */
+export interface ConfidenceBin {
+  /** Lower bound of the confidence range */
+  minConfidence: number;
+  /** Upper bound of the confidence range */
+  maxConfidence: number;
+  /** Number of judgments in the range */
+  cases: number;
+  /** Mean confidence of those judgments */
+  meanConfidence: number;
+  /** Share of those judgments whose verdict was right */
+  accuracy: number;
+}
+
+/**
+ * Confusion matrix of labelled (rows) against predicted (columns) ratings.
+ * `matrix.good.hard` is the number of cases labelled 'good' that the
+ * evaluator rated 'hard'.
+ */
+export type RatingConfusionMatrix = Record<RecallRating, Record<RecallRating, number>>;
+
+/**
+ * How an evaluator's judgments compare with a dataset's labels.
+ */
+export interface EvaluatorBenchmarkReport {
+  /** The dataset's description, if it has one */
+  datasetDescription: string | null;
+  /** The evaluation prompt version the evaluator was asked to judge with */
+  promptVersion: string;
+  /** Number of cases in the dataset */
+  caseCount: number;
+  /** Number of cases the evaluator judged (the rest threw) */
+  judgedCount: number;
+  /** Verdict agreement over the judged cases */
+  verdict: {
+    /** Share of judged cases whose verdict matches the label */
+    accuracy: number;
+    /** Cases judged successful that were labelled as failed */
+    falseSuccessCount: number;
+    /** Cases judged failed that were labelled as successful */
+    falseFailureCount: number;
+  };
+  /** Rating agreement over the judged cases */
+  rating: {
+    /** Share of judged cases whose rating matches the label */
+    accuracy: number;
+    /** Share of judged cases whose rating is at most one step from the label */
+    withinOneAccuracy: number;
+    /** Labelled against predicted ratings */
+    confusion: RatingConfusionMatrix;
+  };
+  /** How well confidence predicts whether the verdict is right */
+  calibration: {
+    /** Mean squared difference between confidence and correctness (lower is better) */
+    brierScore: number;
+    /** Mean confidence over the judged cases */
+    meanConfidence: number;
+    /** Root mean squared calibration error across bins, weighted by cases */
+    rmse: number;
+    /** Calibration by confidence (empty bins omitted) */
+    bins: ConfidenceBin[];
+  };
+  /** Every case's result, in dataset order */
+  cases: BenchmarkCaseResult[];
+}
+
+/**
+ * Options for runEvaluatorBenchmark().
+ */
+export interface EvaluatorBenchmarkOptions {
+  /** Called after each case is judged, e.g. to show progress */
+  onCaseComplete?: (result: BenchmarkCaseResult, index: number, total: number) => void;
+  /** Registered evaluation prompt version to judge with (defaults to the registry's default) */
+  promptVersion?: string;
+}
+
+// ============================================================================
+// Benchmark
+// ============================================================================
+
+/**
+ * Runs an evaluator over every case of a dataset, one case at a time, and
+ * compares its judgments with the labels.
+ *
+ * A case the evaluator throws on is recorded with its error and left out of
+ * the metrics. RecallEvaluator doesn't throw on LLM failures but returns a
+ * failed verdict with zero confidence, which counts as a judgment.
+ *
+ * @param evaluator - The evaluator to benchmark
+ * @param dataset - The labelled cases
+ * @param options - Optional progress callback and prompt version
+ * @returns The benchmark report
+ */
+export async function runEvaluatorBenchmark(
+  evaluator: BenchmarkEvaluator,
+  dataset: CalibrationDataset,
+  options: EvaluatorBenchmarkOptions = {}
+): Promise<EvaluatorBenchmarkReport> {
+  const results: BenchmarkCaseResult[] = [];
+  const promptVersion = options.promptVersion ?? DEFAULT_PROMPT_VERSIONS.evaluator;
+
+  for (const [index, calibrationCase] of dataset.cases.entries()) {
+    const result = await judgeCase(evaluator, calibrationCase, promptVersion);
+    results.push(result);
+    options.onCaseComplete?.(result, index, dataset.cases.length);
+  }
+
+  return buildReport(dataset, promptVersion, results);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Summarizes case results into a benchmark report.
+ */
+function buildReport(
+  dataset: CalibrationDataset,
+  promptVersion: string,
+  results: BenchmarkCaseResult[]
+): EvaluatorBenchmarkReport {
+  const judged = results.filter(
+    (result): result is BenchmarkCaseResult & { actual: BenchmarkJudgment } => result.actual !== null
+  );
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  const confusion = Object.fromEntries(
+    BENCHMARK_RATINGS.map((expected) => [
+      expected,
+      Object.fromEntries(BENCHMARK_RATINGS.map((predicted) => [predicted, 0])),
+    ])
+  ) as RatingConfusionMatrix;
+  for (const result of judged) {
+    confusion[result.expected.rating][result.actual.rating]++;
+  }
+
+  const ratingDistance = (result: (typeof judged)[number]) =>
+    Math.abs(
+      BENCHMARK_RATINGS.indexOf(result.expected.rating) - BENCHMARK_RATINGS.indexOf(result.actual.rating)
+    );
+
+  const bins = confidenceBins(judged);
+
+  return {
+    datasetDescription: dataset.description ?? null,
+    promptVersion,
+    caseCount: results.length,
+    judgedCount: judged.length,
+    verdict: {
+      accuracy: mean(judged.map((result) => (result.verdictCorrect ? 1 : 0))),
+      falseSuccessCount: judged.filter((result) => result.actual.success && !result.expected.success).length,
+      falseFailureCount: judged.filter((result) => !result.actual.success && result.expected.success).length,
+    },
+    rating: {
+      accuracy: mean(judged.map((result) => (result.ratingCorrect ? 1 : 0))),
+      withinOneAccuracy: mean(judged.map((result) => (ratingDistance(result) <= 1 ? 1 : 0))),
+      confusion,
+    },
+    calibration: {
+      brierScore: mean(
+        judged.map((result) => (result.actual.confidence - (result.verdictCorrect ? 1 : 0)) ** 2)
+      ),
+      meanConfidence: mean(judged.map((result) => result.actual.confidence)),
+      rmse: Math.sqrt(
+        judged.length > 0
+          ? bins.reduce((sum, bin) => sum + bin.cases * (bin.meanConfidence - bin.accuracy) ** 2, 0) /
+              judged.length
+          : 0
+      ),
+      bins,
+    },
+    cases: results,
+  };
+}
+
+/**
+ * Runs the evaluator on one case and compares its judgment with the label.
+ */
+async function judgeCase(
+  evaluator: BenchmarkEvaluator,
+  calibrationCase: CalibrationCase,
+  promptVersion: string
+): Promise<BenchmarkCaseResult> {
+  const { recallPoint, messages } = toEvaluatorInput(calibrationCase);
+
+  let evaluation: EnhancedRecallEvaluation;
+  try {
+    evaluation = await evaluator.evaluateEnhanced(recallPoint, messages, {
+      topic: calibrationCase.topic,
+      promptVersion,
+    });
+  } catch (error) {
+    return {
+      caseId: calibrationCase.id,
+      expected: calibrationCase.label,
+      actual: null,
+      error: error instanceof Error ? error.message : String(error),
+      verdictCorrect: false,
+      ratingCorrect: false,
+    };
+  }
+
+  const actual: BenchmarkJudgment = {
+    success: evaluation.success,
+    confidence: evaluation.confidence,
+    rating: evaluationToRating(evaluation),
+    reasoning: evaluation.reasoning,
+  };
+
+  return {
+    caseId: calibrationCase.id,
+    expected: calibrationCase.label,
+    actual,
+    error: null,
+    verdictCorrect: actual.success === calibrationCase.label.success,
+    ratingCorrect: actual.rating === calibrationCase.label.rating,
+  };
+}
+
+/**
+ * Builds the recall point and session messages an evaluator expects from a
+ * case. Messages are a second apart, starting at a fixed time, so the same
+ * case always produces the same input.
+ */
+function toEvaluatorInput(calibrationCase: CalibrationCase): {
+  recallPoint: RecallPoint;
+  messages: SessionMessage[];
+} {
+  const start = new Date('2025-01-01T00:00:00Z');
+  const sessionId = `calibration_${calibrationCase.id}`;
+
+  return {
+    recallPoint: {
+      id: `calibration_${calibrationCase.id}`,
+      recallSetId: 'calibration',
+      content: calibrationCase.recallPoint.content,
+      context: calibrationCase.recallPoint.context,
+      fsrsState: new FSRSScheduler().createInitialState(start),
+      recallHistory: [],
+      suspendedAt: null,
+      deepDiveRequestedAt: null,
+      createdAt: start,
+      updatedAt: start,
+    },
+    messages: calibrationCase.conversation.map((message, index) => ({
+      id: `${sessionId}_${index}`,
+      sessionId,
+      role: message.role,
+      content: message.content,
+      timestamp: new Date(start.getTime() + index * 1000),
+      tokenCount: null,
+    })),
+  };
+}
+
+/**
+ * Groups judgments into equal-width confidence bins, omitting empty ones.
+ * A confidence of exactly 1 falls in the top bin.
+ */
+function confidenceBins(judged: { actual: BenchmarkJudgment; verdictCorrect: boolean }[]): ConfidenceBin[] {
+  const bins: ConfidenceBin[] = [];
+
+  for (let i = 0; i < BIN_COUNT; i++) {
+    const minConfidence = i / BIN_COUNT;
+    const maxConfidence = (i + 1) / BIN_COUNT;
+    const inBin = judged.filter(({ actual }) => {
+      const bin = Math.min(Math.floor(actual.confidence * BIN_COUNT), BIN_COUNT - 1);
+      return bin === i;
+    });
+    if (inBin.length === 0) {
+      continue;
+    }
+
+    bins.push({
+      minConfidence,
+      maxConfidence,
+      cases: inBin.length,
+      meanConfidence: inBin.reduce((sum, { actual }) => sum + actual.confidence, 0) / inBin.length,
+      accuracy: inBin.filter(({ verdictCorrect }) => verdictCorrect).length / inBin.length,
+    });
+  }
+
+  return bins;
+}
@@ -33,5 +33,46 @@
 // RecallEvaluator class - LLM-powered recall assessment
 export { RecallEvaluator } from './recall-evaluator';
 
+// Mapping from an evaluation to the FSRS rating a point is scheduled with,
+// and the cap hints put on it
+export { evaluationToRating, capRatingForHints } from './evaluation-rating';
+
+// Re-evaluation of past recall outcomes with the current evaluator
+export {
+  ReEvaluationService,
+  ReEvaluationError,
+  type ReEvaluationServiceDependencies,
+  type ReEvaluationOptions,
+  type ReEvaluationReport,
+  type EvaluationAgreement,
+  type OutcomeComparison,
+  type ScheduleRecomputation,
+  type RecomputedPoint,
+} from './re-evaluation-service';
+
+// Labelled datasets for measuring evaluator accuracy
+export {
+  loadCalibrationDataset,
+  parseCalibrationDataset,
+  CalibrationDatasetError,
+  CALIBRATION_DATASET_VERSION,
+  type CalibrationDataset,
+  type CalibrationCase,
+  type CalibrationDatasetErrorType,
+} from './calibration-dataset';
+
+// Benchmarking an evaluator against a calibration dataset
+export {
+  runEvaluatorBenchmark,
+  BENCHMARK_RATINGS,
+  type BenchmarkEvaluator,
+  type BenchmarkJudgment,
+  type BenchmarkCaseResult,
+  type ConfidenceBin,
+  type RatingConfusionMatrix,
+  type EvaluatorBenchmarkReport,
+  type EvaluatorBenchmarkOptions,
+} from './evaluator-benchmark';
+
 // Types for recall evaluation results
 export type { RecallEvaluation, EnhancedRecallEvaluation } from './types';
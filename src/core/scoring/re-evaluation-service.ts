@@ -0,0 +1,554 @@
+/**
+ * Re-evaluation Service
+ *
+ * Judges past recall attempts again with the current evaluator, so an
+ * improved evaluation prompt can be checked against (and applied to) the
+ * history it would have judged.
+ *
+ * Each recall outcome records the slice of its session's transcript that
+ * covered the attempt (messageIndexStart to messageIndexEnd). reEvaluate()
+ * replays that slice of the stored session messages through the evaluator
+ * and stores the result under the evaluator's version, alongside the
+ * original outcome, which is left unchanged. It then reports how often the
+ * re-evaluations agree with the original judgments. Re-evaluated ratings are
+ * capped by the hints recorded on the outcome, as the original ones were.
+ *
+ * Outcomes already evaluated by the version are skipped, and a limit caps
+ * the evaluator calls per run, so a large history can be re-evaluated in
+ * several runs; report() summarizes agreement without calling the evaluator.
+ *
+ * recomputeSchedules() optionally replays each point's review history with
+ * the re-evaluated ratings and stores the resulting FSRS state. A rating the
+ * learner chose themselves is kept. Points whose history predates recorded
+ * outcomes (e.g. imported with their scheduling state) are left alone, since
+ * their state can't be rebuilt from the outcomes.
+ *
+ * @example
+ * ```typescript
+ * const service = new ReEvaluationService({
+ *   recallSetRepo: new RecallSetRepository(db, user.id),
+ *   recallPointRepo: new RecallPointRepository(db),
+ *   messageRepo: new SessionMessageRepository(db),
+ *   outcomeRepo: new RecallOutcomeRepository(db),
+ *   evaluationRepo: new OutcomeEvaluationRepository(db),
+ *   evaluator: new RecallEvaluator(llmClient),
+ *   scheduler: new FSRSScheduler(),
+ * });
+ *
+ * const report = await service.reEvaluate({ recallSetId: 'rs_abc123', limit: 50 });
+ * console.log(`${Math.round(report.agreement.successAgreementRate * 100)}% agree`);
+ *
+ * await service.recomputeSchedules('rs_abc123');
+ * ```
+ */
+
+import type {
+  RecallPoint,
+  RecallSet,
+  SessionMessage,
+  OutcomeEvaluation,
+  FSRSLearningState,
+} from '../models';
+import type { RecallRating } from '../fsrs/types';
+import type { FSRSScheduler } from '../fsrs/scheduler';
+import type {
+  RecallSetRepository,
+  RecallPointRepository,
+  SessionMessageRepository,
+  RecallOutcomeRepository,
+  OutcomeEvaluationRepository,
+  FSRSParametersRepository,
+} from '../../storage/repositories';
+import type { RecallOutcome as DbRecallOutcome } from '../../storage/schema';
+import { DEFAULT_PROMPT_VERSIONS } from '../../llm/prompts';
+import type { RecallEvaluator } from './recall-evaluator';
+import { evaluationToRating, capRatingForHints } from './evaluation-rating';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Dependencies for ReEvaluationService. The recall set repository should
+ * be scoped to the user whose history is re-evaluated.
+ */
+export interface ReEvaluationServiceDependencies {
+  /** Repository for the user's recall sets */
+  recallSetRepo: RecallSetRepository;
+  /** Repository for recall points */
+  recallPointRepo: RecallPointRepository;
+  /** Repository for session transcripts */
+  messageRepo: SessionMessageRepository;
+  /** Repository for the original recall outcomes */
+  outcomeRepo: RecallOutcomeRepository;
+  /** Repository for re-evaluations */
+  evaluationRepo: OutcomeEvaluationRepository;
+  /** The current evaluator; only reEvaluate() calls it */
+  evaluator?: RecallEvaluator;
+  /** Scheduler used to recompute FSRS state */
+  scheduler: FSRSScheduler;
+  /** Optional repository for fitted FSRS weights, applied when recomputing */
+  fsrsParametersRepo?: FSRSParametersRepository;
+  /**
+   * Registered evaluation prompt version to judge with, and to store
+   * re-evaluations under (defaults to the registry's default)
+   */
+  evaluatorVersion?: string;
+}
+
+/**
+ * Options for a re-evaluation run.
+ */
+export interface ReEvaluationOptions {
+  /** The recall set to re-evaluate, or undefined for all of the user's sets */
+  recallSetId?: string;
+  /** Most outcomes to send to the evaluator in this run (no limit if omitted) */
+  limit?: number;
+  /** Re-evaluate outcomes this version has already evaluated */
+  force?: boolean;
+}
+
+/**
+ * How a re-evaluation judged an attempt compared with the original.
+ */
+export interface OutcomeComparison {
+  /** The recall outcome */
+  recallOutcomeId: string;
+  /** The session the attempt was made in */
+  sessionId: string;
+  /** The recall point attempted */
+  recallPointId: string;
+  /** The original judgment (rating is null for outcomes recorded without one) */
+  original: { success: boolean; confidence: number; rating: RecallRating | null };
+  /** The re-evaluation's judgment */
+  reEvaluated: { success: boolean; confidence: number; rating: RecallRating };
+  /** The re-evaluation's reasoning */
+  reasoning: string;
+}
+
+/**
+ * Agreement between re-evaluations and the original judgments.
+ */
+export interface EvaluationAgreement {
+  /** Outcomes with a re-evaluation by this version */
+  comparedCount: number;
+  /** Fraction judged the same way (success or failure) */
+  successAgreementRate: number;
+  /** Originally successful attempts now judged failed */
+  successToFailureCount: number;
+  /** Originally failed attempts now judged successful */
+  failureToSuccessCount: number;
+  /** Compared outcomes that were recorded with a rating */
+  ratingComparedCount: number;
+  /** Fraction of those given the same rating */
+  ratingAgreementRate: number;
+  /** Average change in confidence (re-evaluated minus original) */
+  meanConfidenceChange: number;
+}
+
+/**
+ * Result of a re-evaluation run, or of report().
+ */
+export interface ReEvaluationReport {
+  /** The evaluator version compared */
+  evaluatorVersion: string;
+  /** The recall set covered, or null for all of the user's sets */
+  recallSetId: string | null;
+  /** Recall outcomes in scope */
+  outcomeCount: number;
+  /** Outcomes sent to the evaluator in this run */
+  evaluatedCount: number;
+  /** Outcomes whose transcript slice could not be found */
+  missingTranscriptCount: number;
+  /** Outcomes still without a re-evaluation by this version */
+  remainingCount: number;
+  /** Agreement across every outcome re-evaluated by this version */
+  agreement: EvaluationAgreement;
+  /** The outcomes where success or the rating changed */
+  disagreements: OutcomeComparison[];
+}
+
+/**
+ * A recall point whose FSRS state was recomputed.
+ */
+export interface RecomputedPoint {
+  /** The recall point */
+  recallPointId: string;
+  /** Due date before recomputing */
+  previousDue: Date;
+  /** Due date after recomputing */
+  newDue: Date;
+  /** Learning state after recomputing */
+  newState: FSRSLearningState;
+}
+
+/**
+ * Result of recomputeSchedules().
+ */
+export interface ScheduleRecomputation {
+  /** The evaluator version whose ratings were applied */
+  evaluatorVersion: string;
+  /** The recall set covered, or null for all of the user's sets */
+  recallSetId: string | null;
+  /** Points whose FSRS state was rebuilt and stored */
+  updated: RecomputedPoint[];
+  /** Points with a changed rating whose history predates recorded outcomes */
+  skippedPointCount: number;
+}
+
+/**
+ * Types of re-evaluation errors.
+ */
+export type ReEvaluationErrorType = 'recall_set_not_found';
+
+/**
+ * Custom error class for re-evaluation failures.
+ * Includes the error type so callers can map it to a response.
+ */
+export class ReEvaluationError extends Error {
+  /** The type of error that occurred */
+  type: ReEvaluationErrorType;
+
+  constructor(message: string, type: ReEvaluationErrorType) {
+    super(message);
+    this.name = 'ReEvaluationError';
+    this.type = type;
+  }
+}
+
+/**
+ * The recall outcomes in scope, with their points and sets.
+ */
+interface OutcomeScope {
+  outcomes: DbRecallOutcome[];
+  points: Map<string, RecallPoint>;
+  recallSets: Map<string, RecallSet>;
+}
+
+/**
+ * Generates a unique ID with the given prefix.
+ * Uses crypto.randomUUID() for uniqueness.
+ *
+ * @param prefix - The prefix for the ID (e.g., 'oe')
+ * @returns A unique ID string
+ */
+function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID()}`;
+}
+
+/**
+ * The rating an outcome was originally judged with: the AI's rating where
+ * recorded separately, otherwise the rating it was scheduled with (which
+ * was the AI's before learners could override it).
+ */
+function originalRating(outcome: DbRecallOutcome): RecallRating | null {
+  return outcome.aiRating ?? outcome.rating;
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Re-evaluates past recall outcomes and reports agreement.
+ */
+export class ReEvaluationService {
+  private deps: ReEvaluationServiceDependencies;
+  private evaluatorVersion: string;
+
+  /**
+   * Creates a new ReEvaluationService.
+   *
+   * @param deps - Repositories scoped to the user, the evaluator, and the scheduler
+   */
+  constructor(deps: ReEvaluationServiceDependencies) {
+    this.deps = deps;
+    this.evaluatorVersion = deps.evaluatorVersion ?? DEFAULT_PROMPT_VERSIONS.evaluator;
+  }
+
+  /**
+   * Re-evaluates the outcomes in scope that this evaluator version hasn't
+   * evaluated yet, stores the results, and reports agreement.
+   *
+   * @param options - Scope, per-run limit, and whether to redo evaluated outcomes
+   * @returns Agreement across all of the version's evaluations in scope
+   * @throws ReEvaluationError if the recall set doesn't exist
+   * @throws Error if the service was created without an evaluator
+   */
+  async reEvaluate(options: ReEvaluationOptions = {}): Promise<ReEvaluationReport> {
+    const evaluator = this.deps.evaluator;
+    if (!evaluator) {
+      throw new Error('ReEvaluationService needs an evaluator to re-evaluate outcomes');
+    }
+    const scope = await this.loadScope(options.recallSetId);
+    const evaluations = await this.loadEvaluations(scope.outcomes);
+
+    const pending = scope.outcomes.filter(
+      (outcome) => options.force || !evaluations.has(outcome.id)
+    );
+    const batch = options.limit === undefined ? pending : pending.slice(0, options.limit);
+
+    const transcripts = new Map<string, SessionMessage[]>();
+    let evaluatedCount = 0;
+    let missingTranscriptCount = 0;
+
+    for (const outcome of batch) {
+      if (!transcripts.has(outcome.sessionId)) {
+        transcripts.set(outcome.sessionId, await this.deps.messageRepo.findBySessionId(outcome.sessionId));
+      }
+      const slice = transcripts
+        .get(outcome.sessionId)!
+        .slice(outcome.messageIndexStart, outcome.messageIndexEnd + 1);
+      if (slice.length === 0) {
+        missingTranscriptCount++;
+        continue;
+      }
+
+      const point = scope.points.get(outcome.recallPointId)!;
+      const evaluation = await evaluator.evaluateEnhanced(point, slice, {
+        topic: scope.recallSets.get(point.recallSetId)?.name,
+        promptVersion: this.evaluatorVersion,
+      });
+
+      evaluations.set(
+        outcome.id,
+        await this.deps.evaluationRepo.save({
+          id: generateId('oe'),
+          recallOutcomeId: outcome.id,
+          evaluatorVersion: this.evaluatorVersion,
+          success: evaluation.success,
+          confidence: evaluation.confidence,
+          rating: capRatingForHints(evaluationToRating(evaluation), outcome.hintsUsed),
+          reasoning: evaluation.reasoning,
+          keyDemonstratedConcepts: evaluation.keyDemonstratedConcepts,
+          missedConcepts: evaluation.missedConcepts,
+        })
+      );
+      evaluatedCount++;
+    }
+
+    return this.buildReport(options.recallSetId, scope.outcomes, evaluations, {
+      evaluatedCount,
+      missingTranscriptCount,
+    });
+  }
+
+  /**
+   * Reports agreement for the outcomes this evaluator version has already
+   * evaluated, without calling the evaluator.
+   *
+   * @param recallSetId - The recall set, or undefined for all of the user's sets
+   * @returns Agreement across the version's evaluations in scope
+   * @throws ReEvaluationError if the recall set doesn't exist
+   */
+  async report(recallSetId?: string): Promise<ReEvaluationReport> {
+    const scope = await this.loadScope(recallSetId);
+    const evaluations = await this.loadEvaluations(scope.outcomes);
+    return this.buildReport(recallSetId, scope.outcomes, evaluations, {
+      evaluatedCount: 0,
+      missingTranscriptCount: 0,
+    });
+  }
+
+  /**
+   * Rebuilds the FSRS state of each point whose review history was rated
+   * differently by this evaluator version, by replaying the history with
+   * the re-evaluated ratings, and stores it.
+   *
+   * Outcomes of practice sessions are left out, as they never scheduled
+   * anything; a rating chosen by the learner is kept, and outcomes without
+   * a re-evaluation keep the rating they were scheduled with. Points whose
+   * FSRS state reflects more reviews than they have outcomes are skipped.
+   *
+   * @param recallSetId - The recall set, or undefined for all of the user's sets
+   * @returns The points updated and the number skipped
+   * @throws ReEvaluationError if the recall set doesn't exist
+   */
+  async recomputeSchedules(recallSetId?: string): Promise<ScheduleRecomputation> {
+    const scope = await this.loadScope(recallSetId);
+    const reviewOutcomes = await this.deps.outcomeRepo.findByRecallPointIds(
+      [...scope.points.keys()],
+      'scheduled'
+    );
+    const evaluations = await this.loadEvaluations(reviewOutcomes);
+
+    const historyByPoint = new Map<string, DbRecallOutcome[]>();
+    for (const outcome of reviewOutcomes) {
+      const history = historyByPoint.get(outcome.recallPointId) ?? [];
+      history.push(outcome);
+      historyByPoint.set(outcome.recallPointId, history);
+    }
+
+    // The rating each review was scheduled with, and the one to replay it with
+    const scheduledRating = (outcome: DbRecallOutcome): RecallRating =>
+      outcome.rating ?? (outcome.success ? 'good' : 'forgot');
+    const replayRating = (outcome: DbRecallOutcome): RecallRating =>
+      outcome.learnerRating ?? evaluations.get(outcome.id)?.rating ?? scheduledRating(outcome);
+
+    const updated: RecomputedPoint[] = [];
+    let skippedPointCount = 0;
+
+    for (const [pointId, history] of historyByPoint) {
+      const point = scope.points.get(pointId)!;
+
+      if (history.every((outcome) => replayRating(outcome) === scheduledRating(outcome))) {
+        continue;
+      }
+      if (point.fsrsState.reps !== history.length) {
+        skippedPointCount++;
+        continue;
+      }
+
+      const scheduler = await this.schedulerFor(scope.recallSets.get(point.recallSetId)!);
+      let state = scheduler.createInitialState(point.createdAt);
+      for (const outcome of history) {
+        state = scheduler.schedule(state, replayRating(outcome), outcome.createdAt);
+      }
+
+      await this.deps.recallPointRepo.updateFSRSState(pointId, state);
+      updated.push({
+        recallPointId: pointId,
+        previousDue: point.fsrsState.due,
+        newDue: state.due,
+        newState: state.state,
+      });
+    }
+
+    return {
+      evaluatorVersion: this.evaluatorVersion,
+      recallSetId: recallSetId ?? null,
+      updated,
+      skippedPointCount,
+    };
+  }
+
+  // ===========================================================================
+  // Private Helper Methods
+  // ===========================================================================
+
+  /**
+   * Loads the recall sets, points, and outcomes in scope.
+   */
+  private async loadScope(recallSetId?: string): Promise<OutcomeScope> {
+    let sets: RecallSet[];
+    if (recallSetId) {
+      const recallSet = await this.deps.recallSetRepo.findById(recallSetId);
+      if (!recallSet) {
+        throw new ReEvaluationError(
+          `RecallSet with id '${recallSetId}' not found`,
+          'recall_set_not_found'
+        );
+      }
+      sets = [recallSet];
+    } else {
+      sets = await this.deps.recallSetRepo.findAll();
+    }
+
+    const points = new Map<string, RecallPoint>();
+    for (const set of sets) {
+      for (const point of await this.deps.recallPointRepo.findByRecallSetId(set.id)) {
+        points.set(point.id, point);
+      }
+    }
+
+    return {
+      outcomes: await this.deps.outcomeRepo.findByRecallPointIds([...points.keys()]),
+      points,
+      recallSets: new Map(sets.map((set) => [set.id, set])),
+    };
+  }
+
+  /**
+   * Loads this version's evaluations of the given outcomes, by outcome ID.
+   */
+  private async loadEvaluations(
+    outcomes: DbRecallOutcome[]
+  ): Promise<Map<string, OutcomeEvaluation>> {
+    const evaluations = await this.deps.evaluationRepo.findByRecallOutcomeIds(
+      outcomes.map((outcome) => outcome.id),
+      this.evaluatorVersion
+    );
+    return new Map(evaluations.map((evaluation) => [evaluation.recallOutcomeId, evaluation]));
+  }
+
+  /**
+   * Compares each evaluated outcome with its original judgment.
+   */
+  private buildReport(
+    recallSetId: string | undefined,
+    outcomes: DbRecallOutcome[],
+    evaluations: Map<string, OutcomeEvaluation>,
+    counts: { evaluatedCount: number; missingTranscriptCount: number }
+  ): ReEvaluationReport {
+    const comparisons: OutcomeComparison[] = [];
+    for (const outcome of outcomes) {
+      const evaluation = evaluations.get(outcome.id);
+      if (!evaluation) continue;
+      comparisons.push({
+        recallOutcomeId: outcome.id,
+        sessionId: outcome.sessionId,
+        recallPointId: outcome.recallPointId,
+        original: {
+          success: outcome.success,
+          confidence: outcome.confidence,
+          rating: originalRating(outcome),
+        },
+        reEvaluated: {
+          success: evaluation.success,
+          confidence: evaluation.confidence,
+          rating: evaluation.rating,
+        },
+        reasoning: evaluation.reasoning,
+      });
+    }
+
+    const rated = comparisons.filter((c) => c.original.rating !== null);
+    const rate = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+    return {
+      evaluatorVersion: this.evaluatorVersion,
+      recallSetId: recallSetId ?? null,
+      outcomeCount: outcomes.length,
+      ...counts,
+      remainingCount: outcomes.length - comparisons.length,
+      agreement: {
+        comparedCount: comparisons.length,
+        successAgreementRate: rate(
+          comparisons.filter((c) => c.original.success === c.reEvaluated.success).length,
+          comparisons.length
+        ),
+        successToFailureCount: comparisons.filter((c) => c.original.success && !c.reEvaluated.success)
+          .length,
+        failureToSuccessCount: comparisons.filter((c) => !c.original.success && c.reEvaluated.success)
+          .length,
+        ratingComparedCount: rated.length,
+        ratingAgreementRate: rate(
+          rated.filter((c) => c.original.rating === c.reEvaluated.rating).length,
+          rated.length
+        ),
+        meanConfidenceChange: rate(
+          comparisons.reduce((sum, c) => sum + c.reEvaluated.confidence - c.original.confidence, 0),
+          comparisons.length
+        ),
+      },
+      disagreements: comparisons.filter(
+        (c) =>
+          c.original.success !== c.reEvaluated.success ||
+          (c.original.rating !== null && c.original.rating !== c.reEvaluated.rating)
+      ),
+    };
+  }
+
+  /**
+   * Gets the scheduler for a recall set: its retention and interval
+   * settings, and its fitted weights if any are stored.
+   */
+  private async schedulerFor(recallSet: RecallSet): Promise<FSRSScheduler> {
+    const scheduler = this.deps.scheduler.forRecallSet(recallSet);
+    if (!this.deps.fsrsParametersRepo) {
+      return scheduler;
+    }
+    const parameters = await this.deps.fsrsParametersRepo.findForRecallSet(recallSet.id);
+    return parameters ? scheduler.withWeights(parameters.weights) : scheduler;
+  }
+}
@@ -32,11 +32,12 @@
  * ```
  */
 
-import { AnthropicClient } from '../../llm/client';
+import type { LLMProvider } from '../../llm/types';
 import {
   buildRecallEvaluatorPrompt,
   parseRecallEvaluationResponse,
-  buildEnhancedRecallEvaluatorPrompt,
+  getEvaluatorPrompt,
+  DEFAULT_PROMPT_VERSIONS,
   parseEnhancedRecallEvaluationResponse,
   deriveRatingFromConfidence,
   type EnhancedEvaluationContext,
@@ -87,12 +88,12 @@ const EVALUATION_MAX_TOKENS = 512;
  */
 export class RecallEvaluator {
   /** The LLM client used to perform evaluations */
-  private llmClient: AnthropicClient;
+  private llmClient: LLMProvider;
 
   /**
    * Creates a new RecallEvaluator instance.
    *
-   * @param llmClient - An initialized AnthropicClient for making LLM calls
+   * @param llmClient - An LLMProvider for making LLM calls (e.g. AnthropicClient)
    *
    * @example
    * ```typescript
@@ -100,7 +101,7 @@ export class RecallEvaluator {
    * const evaluator = new RecallEvaluator(client);
    * ```
    */
-  constructor(llmClient: AnthropicClient) {
+  constructor(llmClient: LLMProvider) {
     this.llmClient = llmClient;
   }
 
@@ -255,10 +256,12 @@ export class RecallEvaluator {
    *
    * @param recallPoint - The recall point being evaluated (contains target content)
    * @param conversationMessages - The session's message history
-   * @param context - Optional session context for more consistent evaluation
+   * @param context - Optional session context for more consistent evaluation,
+   *                  and the registered prompt version to judge with
    * @returns Promise resolving to an EnhancedRecallEvaluation with concept analysis
    *
-   * @throws Never throws - returns a default failed evaluation on any error
+   * @throws PromptRegistryError if context.promptVersion isn't registered;
+   *         otherwise never throws - returns a default failed evaluation on any error
    *
    * @example
    * ```typescript
@@ -286,9 +289,12 @@ export class RecallEvaluator {
     // the actual recall attempt rather than initial session setup
     const conversationExcerpt = this.extractExcerpt(conversationMessages);
 
-    // Step 2: Build the enhanced evaluation prompt
+    // Step 2: Build the enhanced evaluation prompt from the requested version
     // This prompt includes instructions for concept-level analysis and rating suggestions
-    const evaluationPrompt = buildEnhancedRecallEvaluatorPrompt(
+    const promptVersion = getEvaluatorPrompt(
+      context?.promptVersion ?? DEFAULT_PROMPT_VERSIONS.evaluator
+    );
+    const evaluationPrompt = promptVersion.build(
       recallPoint.content,
       conversationExcerpt,
       context
@@ -48,6 +48,20 @@ export { SessionEngine } from './session-engine';
 // Metrics collection
 export { SessionMetricsCollector } from './metrics-collector';
 
+// Session planning under per-set limits
+export {
+  resolveSessionLimits,
+  countPointsIntroducedToday,
+  planSession,
+  planPracticeSession,
+  planDailyReview,
+  type SessionLimits,
+  type DailyReviewSource,
+  type PlannedPoint,
+  type SessionPlan,
+  type SessionPlanSummary,
+} from './session-planner';
+
 // Type exports
 export type {
   SessionEventType,
@@ -55,10 +69,17 @@ export type {
   SessionEngineConfig,
   SessionEngineDependencies,
   ProcessMessageResult,
+  RatingProposal,
+  RatingOverrideHandler,
+  HintResult,
+  UndoResult,
+  TangentResult,
 } from './types';
 
 // Constants
 export {
   DEFAULT_SESSION_CONFIG,
+  DAILY_REVIEW_NAME,
   EVALUATION_TRIGGER_PHRASES,
+  DONT_KNOW_PHRASES,
 } from './types';
@@ -9,6 +9,8 @@
  * 2. **Recall Outcomes**: Records evaluation results for each recall point attempted
  * 3. **Rabbithole Events**: Tracks conversational tangents and their resolution
  * 4. **Token Usage**: Monitors input/output token counts for cost calculation
+ * 5. **Point Timer**: Pauses the clock of the current recall point while the
+ *    learner explores a tangent, so the point's time excludes it
  *
  * The collector coordinates with the rabbithole detector and recall evaluator
  * to build complete session metrics that enable:
@@ -46,6 +48,7 @@ import type {
   MessageTiming,
 } from '../models/session-metrics';
 import type { EnhancedRecallEvaluation } from '../scoring/types';
+import type { RecallRating } from '../fsrs/types';
 import { calculateEngagementScore } from '../models/session-metrics';
 import { calculateCost, type ClaudeModel } from '../analytics/token-costs';
 
@@ -115,6 +118,13 @@ export class SessionMetricsCollector {
    */
   private pauseTimeMs: number = 0;
 
+  /**
+   * Intervals during which the point timer was paused, the last one open
+   * (end null) while it still is. Time within them isn't counted towards
+   * the duration of a recall outcome.
+   */
+  private pointTimerPauses: Array<{ start: Date; end: Date | null }> = [];
+
   /**
    * Initializes the collector for a new session.
    *
@@ -140,6 +150,7 @@ export class SessionMetricsCollector {
     this.totalOutputTokens = 0;
     this.lastMessageTime = null;
     this.pauseTimeMs = 0;
+    this.pointTimerPauses = [];
 
     // Set the model if provided and valid, otherwise use default
     if (model && this.isValidClaudeModel(model)) {
@@ -231,12 +242,14 @@ export class SessionMetricsCollector {
    *
    * This method converts an EnhancedRecallEvaluation (from the evaluator)
    * into a RecallOutcome for the metrics. It calculates the time spent
-   * on this recall point based on the message range timings.
+   * on this recall point based on the message range timings, leaving out
+   * any time the point timer was paused.
    *
    * @param recallPointId - ID of the recall point that was evaluated
    * @param evaluation - The evaluation result from the RecallEvaluator
    * @param messageIndexStart - Index of the first message discussing this recall point
    * @param messageIndexEnd - Index of the last message (inclusive) for this recall point
+   * @param hintsUsed - Hints the learner took on this recall point (default 0)
    *
    * @example
    * ```typescript
@@ -256,13 +269,16 @@ export class SessionMetricsCollector {
     recallPointId: string,
     evaluation: EnhancedRecallEvaluation,
     messageIndexStart: number,
-    messageIndexEnd: number
+    messageIndexEnd: number,
+    hintsUsed: number = 0
   ): void {
     // Calculate time spent on this recall point from message timings
-    // This sums the latencies of all messages in the range
-    const durationMs = this.calculateDurationForMessageRange(
-      messageIndexStart,
-      messageIndexEnd
+    // This sums the latencies of all messages in the range, less the time
+    // the point timer was paused (while the learner explored a tangent)
+    const durationMs = Math.max(
+      0,
+      this.calculateDurationForMessageRange(messageIndexStart, messageIndexEnd) -
+        this.calculatePausedTimeForMessageRange(messageIndexStart, messageIndexEnd)
     );
 
     // Convert the evaluation to a RecallOutcome
@@ -275,11 +291,41 @@ export class SessionMetricsCollector {
         end: messageIndexEnd,
       },
       durationMs,
+      aiRating: null,
+      learnerRating: null,
+      hintsUsed,
     };
 
     this.recallOutcomes.push(outcome);
   }
 
+  /**
+   * Records the rating a recall point was scheduled with on its latest
+   * outcome: the rating derived from the evaluation and, if the learner
+   * overrode it, the learner's.
+   *
+   * @param recallPointId - ID of the recall point that was rated
+   * @param aiRating - Rating derived from the evaluation
+   * @param learnerRating - Rating the learner chose instead, or null
+   *
+   * @example
+   * ```typescript
+   * collector.recordRecallOutcome('rp_001', evaluation, 0, 5);
+   * collector.recordRating('rp_001', 'good', 'hard');
+   * ```
+   */
+  recordRating(
+    recallPointId: string,
+    aiRating: RecallRating,
+    learnerRating: RecallRating | null
+  ): void {
+    const outcome = this.recallOutcomes.findLast((o) => o.recallPointId === recallPointId);
+    if (outcome) {
+      outcome.aiRating = aiRating;
+      outcome.learnerRating = learnerRating;
+    }
+  }
+
   /**
    * Records a rabbithole (conversational tangent) event.
    *
@@ -333,6 +379,69 @@ export class SessionMetricsCollector {
     }
   }
 
+  /**
+   * Drops the timings of the latest messages, after they were taken back.
+   *
+   * Only the timings are dropped: the tokens spent on the messages still
+   * count towards the session's cost. Messages from before a resumed
+   * session's collector started aren't recorded, so this counts back from
+   * the latest recorded message rather than using transcript indices.
+   *
+   * @param count - How many of the latest messages were removed
+   *
+   * @example
+   * ```typescript
+   * // The learner took back their answer and the tutor's reply
+   * collector.retractMessages(2);
+   * ```
+   */
+  retractMessages(count: number): void {
+    this.messageTimings = this.messageTimings.slice(0, Math.max(0, this.messageTimings.length - count));
+  }
+
+  /**
+   * Pauses the timer of the current recall point.
+   *
+   * Used while the learner explores a tangent they opened themselves: the
+   * time until resumePointTimer() is left out of the duration recorded
+   * with the point's recall outcome. Session-level durations are
+   * unaffected. Does nothing if the timer is already paused.
+   *
+   * @example
+   * ```typescript
+   * collector.pausePointTimer();
+   * // ... the tangent is explored ...
+   * collector.resumePointTimer();
+   * ```
+   */
+  pausePointTimer(): void {
+    if (this.isPointTimerPaused()) {
+      return;
+    }
+    this.pointTimerPauses.push({ start: new Date(), end: null });
+  }
+
+  /**
+   * Resumes the timer of the current recall point after pausePointTimer().
+   * Does nothing if the timer isn't paused.
+   */
+  resumePointTimer(): void {
+    const pause = this.pointTimerPauses[this.pointTimerPauses.length - 1];
+    if (pause && pause.end === null) {
+      pause.end = new Date();
+    }
+  }
+
+  /**
+   * Whether the point timer is currently paused.
+   *
+   * @returns True between pausePointTimer() and resumePointTimer()
+   */
+  isPointTimerPaused(): boolean {
+    const pause = this.pointTimerPauses[this.pointTimerPauses.length - 1];
+    return pause !== undefined && pause.end === null;
+  }
+
   /**
    * Finalizes the session and calculates all derived metrics.
    *
@@ -539,6 +648,7 @@ export class SessionMetricsCollector {
     this.model = DEFAULT_MODEL;
     this.lastMessageTime = null;
     this.pauseTimeMs = 0;
+    this.pointTimerPauses = [];
   }
 
   // ============================================================================
@@ -606,6 +716,43 @@ export class SessionMetricsCollector {
     return duration;
   }
 
+  /**
+   * Calculates how much of a message range's duration the point timer was
+   * paused for.
+   *
+   * The range covers the same time calculateDurationForMessageRange()
+   * measures: from the message before the first one (or the first one, at
+   * the start of the session) to the last one. A pause still open counts
+   * up to the last message.
+   *
+   * @param startIndex - First message index in the range
+   * @param endIndex - Last message index in the range (inclusive)
+   * @returns Paused time within the range in milliseconds
+   */
+  private calculatePausedTimeForMessageRange(
+    startIndex: number,
+    endIndex: number
+  ): number {
+    const start = Math.max(0, startIndex);
+    const end = Math.min(this.messageTimings.length - 1, endIndex);
+    if (start > end || end < 0 || this.pointTimerPauses.length === 0) {
+      return 0;
+    }
+
+    const rangeStart = this.messageTimings[Math.max(0, start - 1)].timestamp.getTime();
+    const rangeEnd = this.messageTimings[end].timestamp.getTime();
+
+    let paused = 0;
+    for (const pause of this.pointTimerPauses) {
+      const pauseStart = Math.max(rangeStart, pause.start.getTime());
+      const pauseEnd = Math.min(rangeEnd, pause.end?.getTime() ?? rangeEnd);
+      if (pauseEnd > pauseStart) {
+        paused += pauseEnd - pauseStart;
+      }
+    }
+    return paused;
+  }
+
   /**
    * Calculates the total session duration from message timestamps.
    *
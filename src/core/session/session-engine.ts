@@ -13,11 +13,17 @@
  *    recall success using LLM-powered evaluation.
  *
  * 4. **Progress Tracking**: Advances through recall points, updates FSRS scheduling
- *    state based on evaluation results.
+ *    state based on evaluation results (except in practice sessions, which only
+ *    record outcomes). A rating override handler lets the learner replace the
+ *    rating derived from the evaluation before the point is scheduled.
  *
  * 5. **Session Completion**: Handles graceful completion when all points are reviewed
  *    or session is abandoned.
  *
+ * 6. **Tangent Exploration**: Lets the learner step aside from the current point
+ *    to explore a tangent, with the point's timer paused, and return to it with
+ *    a recap.
+ *
  * Session Flow:
  * ```
  * startSession() -> getOpeningMessage() -> [processUserMessage() loop] -> completion
@@ -59,25 +65,57 @@ import type {
   RecallPoint,
   Session,
   SessionMessage,
+  SessionMode,
+  PromptVersions,
+  SessionAnnotation,
+  RabbitholeEvent,
 } from '../models';
-import type { RecallEvaluation } from '../scoring/types';
 import type { RecallRating } from '../fsrs/types';
+import type { RecallEvaluation, EnhancedRecallEvaluation } from '../scoring/types';
+import { evaluationToRating, capRatingForHints } from '../scoring/evaluation-rating';
+import type { FSRSScheduler } from '../fsrs/scheduler';
 import type { LLMMessage } from '../../llm/types';
-import { buildSocraticTutorPrompt } from '../../llm/prompts';
+import {
+  getTutorPrompt,
+  buildHintPrompt,
+  buildTangentExplorationPrompt,
+  buildTangentOpeningPrompt,
+  buildTangentRecapPrompt,
+  buildDeepDiveGuidance,
+  resolvePromptVersions,
+  DEFAULT_PROMPT_VERSIONS,
+} from '../../llm/prompts';
+import { assignSessionPrompts, type PromptExperiment } from '../experiments/prompt-experiment';
 import {
   type SessionEngineDependencies,
   type SessionEngineConfig,
   type ProcessMessageResult,
   type SessionEvent,
+  type RatingOverrideHandler,
+  type HintResult,
+  type UndoResult,
+  type TangentResult,
   DEFAULT_SESSION_CONFIG,
   EVALUATION_TRIGGER_PHRASES,
+  DONT_KNOW_PHRASES,
 } from './types';
+import {
+  resolveSessionLimits,
+  planSession,
+  planPracticeSession,
+  planDailyReview,
+  type DailyReviewSource,
+  type SessionPlan,
+} from './session-planner';
 import type { SessionMetricsCollector } from './metrics-collector';
 import type { RabbitholeDetector } from '../analysis/rabbithole-detector';
+import type { TangentFollowUpService } from '../analysis/tangent-follow-up';
 import type {
+  SessionAnnotationRepository,
   SessionMetricsRepository,
   RecallOutcomeRepository,
   RabbitholeEventRepository,
+  FSRSParametersRepository,
 } from '../../storage/repositories';
 
 /**
@@ -91,6 +129,12 @@ function generateId(prefix: string): string {
   return `${prefix}_${crypto.randomUUID()}`;
 }
 
+/** Milliseconds in a day, for deferring points */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Longest tangent topic taken from the learner's last message */
+const MAX_TANGENT_TOPIC_LENGTH = 100;
+
 /**
  * SessionEngine orchestrates recall study sessions.
  *
@@ -158,6 +202,18 @@ export class SessionEngine {
   /** Repository for persisting rabbithole events */
   private rabbitholeRepo: RabbitholeEventRepository | null = null;
 
+  /** Repository of fitted FSRS weights, or null to always use the base scheduler */
+  private fsrsParametersRepo: FSRSParametersRepository | null = null;
+
+  /** Prompt experiment new sessions are assigned to, if one is running */
+  private promptExperiment: PromptExperiment | null = null;
+
+  /** Repository learner notes are saved to, or null if notes are unavailable */
+  private annotationRepo: SessionAnnotationRepository | null = null;
+
+  /** Follow-up that proposes recall points from rabbitholes, if enabled */
+  private tangentFollowUp: TangentFollowUpService | null = null;
+
   // === Configuration ===
 
   /** Engine configuration settings */
@@ -168,9 +224,15 @@ export class SessionEngine {
   /** The currently active session, or null if no session is active */
   private currentSession: Session | null = null;
 
-  /** The RecallSet being studied in the current session */
+  /** The RecallSet of the recall point currently being discussed */
   private currentRecallSet: RecallSet | null = null;
 
+  /**
+   * RecallSets of the current session's points, by ID. A single entry for
+   * regular sessions; one per set drawn on for a daily review.
+   */
+  private sessionRecallSets = new Map<string, RecallSet>();
+
   /** Recall points targeted for review in this session */
   private targetPoints: RecallPoint[] = [];
 
@@ -183,9 +245,21 @@ export class SessionEngine {
   /** Count of messages exchanged for the current recall point */
   private currentPointMessageCount: number = 0;
 
+  /** Hints given on the current recall point */
+  private currentPointHintCount: number = 0;
+
+  /**
+   * The tangent the learner is exploring, if any. While it's open, messages
+   * go to the tangent's prompt and the current point's timer is paused.
+   */
+  private exploringTangent: { rabbitholeId: string; topic: string } | null = null;
+
   /** Optional event listener for session events */
   private eventListener?: (event: SessionEvent) => void;
 
+  /** Optional handler letting the learner override each rating */
+  private ratingOverrideHandler?: RatingOverrideHandler;
+
   // === Phase 2: Metrics Tracking State ===
 
   /**
@@ -206,6 +280,12 @@ export class SessionEngine {
    */
   private currentModel: string = 'claude-3-5-sonnet-20241022';
 
+  /**
+   * The prompt versions the current session is conducted with.
+   * Recorded on the session when it starts, and restored when it resumes.
+   */
+  private promptVersions: PromptVersions = DEFAULT_PROMPT_VERSIONS;
+
   /**
    * Creates a new SessionEngine instance.
    *
@@ -256,6 +336,18 @@ export class SessionEngine {
     if (deps.rabbitholeRepo) {
       this.rabbitholeRepo = deps.rabbitholeRepo;
     }
+    if (deps.fsrsParametersRepo) {
+      this.fsrsParametersRepo = deps.fsrsParametersRepo;
+    }
+    if (deps.promptExperiment) {
+      this.promptExperiment = deps.promptExperiment;
+    }
+    if (deps.annotationRepo) {
+      this.annotationRepo = deps.annotationRepo;
+    }
+    if (deps.tangentFollowUp) {
+      this.tangentFollowUp = deps.tangentFollowUp;
+    }
 
     // Merge provided config with defaults
     this.config = { ...DEFAULT_SESSION_CONFIG, ...config };
@@ -280,6 +372,28 @@ export class SessionEngine {
     this.eventListener = listener;
   }
 
+  /**
+   * Sets a handler that offers each rating to the learner before the point
+   * is scheduled. The learner's rating, if any, replaces the one derived
+   * from the evaluation; both are kept on the recall outcome.
+   *
+   * Only one handler is supported at a time. Pass undefined to remove it,
+   * after which the evaluation's rating is always used.
+   *
+   * @param handler - Function asking the learner, or undefined to remove
+   *
+   * @example
+   * ```typescript
+   * engine.setRatingOverrideHandler(async (proposal) => {
+   *   const answer = await ask(`Rated ${proposal.rating}. Change it? `);
+   *   return answer === '' ? null : (answer as RecallRating);
+   * });
+   * ```
+   */
+  setRatingOverrideHandler(handler: RatingOverrideHandler | undefined): void {
+    this.ratingOverrideHandler = handler;
+  }
+
   /**
    * Emits an event to the registered listener (if any).
    *
@@ -302,15 +416,32 @@ export class SessionEngine {
    * This method:
    * 1. Checks for existing in-progress sessions (resumes if found)
    * 2. Finds all recall points due for review in the set
-   * 3. Creates a new session record in the database
-   * 4. Initializes the engine state for the session
+   * 3. Plans the session within the set's limits on points per session and
+   *    new points per day (falling back to the engine configuration):
+   *    least retrievable reviews first, new points interleaved, and the
+   *    rest left due for follow-up sessions (see session-planner.ts)
+   * 4. Creates a new session record in the database
+   * 5. Initializes the engine state for the session
    *
    * If there are no due points, an error is thrown - the caller should
    * check for due points before starting a session.
    *
+   * A practice session (`mode: 'practice'`) is for cramming: it draws on
+   * every point of the set, due or not, up to the session size cap, and
+   * its evaluations are recorded as outcomes without rescheduling the
+   * points (see advanceToNextPoint). A deep-dive session (`mode:
+   * 'deep-dive'`) covers the points the learner marked for one, with the
+   * tutor told to slow down and build understanding; points are
+   * rescheduled as in a review, and their marks are cleared. Sessions of
+   * each mode are resumed separately.
+   *
    * @param recallSet - The RecallSet to study
+   * @param options - Session options; `mode` defaults to 'review'
    * @returns The created (or resumed) Session
-   * @throws Error if no recall points are due for review
+   * @throws Error if no recall points are due for review, or only new
+   *         points are due and today's new point limit has been reached,
+   *         or a practice session is started for a set without points, or a
+   *         deep-dive session for a set without marked points
    *
    * @example
    * ```typescript
@@ -321,40 +452,208 @@ export class SessionEngine {
    * }
    * ```
    */
-  async startSession(recallSet: RecallSet): Promise<Session> {
+  async startSession(
+    recallSet: RecallSet,
+    options: { mode?: SessionMode } = {}
+  ): Promise<Session> {
+    const mode = options.mode ?? 'review';
+
     // Check for existing in-progress session to resume
-    const existingSession = await this.sessionRepo.findInProgress(recallSet.id);
+    const existingSession = await this.sessionRepo.findInProgress(recallSet.id, mode);
     if (existingSession) {
       // Resume the existing session instead of creating a new one
-      return this.resumeSession(existingSession, recallSet);
+      return this.resumeSession(existingSession, [recallSet]);
+    }
+
+    if (mode === 'practice') {
+      return this.startPracticeSession(recallSet);
+    }
+    if (mode === 'deep-dive') {
+      return this.startDeepDiveSession(recallSet);
     }
 
     // Find all recall points due for review in this set
-    const duePoints = await this.recallPointRepo.findDuePoints(recallSet.id);
+    const allDuePoints = await this.recallPointRepo.findDuePoints(recallSet.id);
 
     // Validate that there are points to review
-    if (duePoints.length === 0) {
+    if (allDuePoints.length === 0) {
       throw new Error(
         `No recall points are due for review in RecallSet '${recallSet.name}'. ` +
         'Check due dates before starting a session.'
       );
     }
 
+    // Plan the session within the set's session size and daily new point
+    // limits; due points that don't fit are left for follow-up sessions
+    const limits = resolveSessionLimits(recallSet, this.config);
+    const setPoints =
+      limits.newPointsPerDay === null
+        ? []
+        : await this.recallPointRepo.findByRecallSetId(recallSet.id);
+    const plan = planSession(allDuePoints, setPoints, limits, new Date(), this.scheduler);
+    const duePoints = plan.points;
+
+    if (duePoints.length === 0) {
+      throw new Error(
+        `Today's limit of ${limits.newPointsPerDay} new recall points for RecallSet ` +
+        `'${recallSet.name}' has been reached, and no reviewed points are due.`
+      );
+    }
+
+    return this.beginSession(recallSet.id, [recallSet], plan);
+  }
+
+  /**
+   * Plans and begins a practice session over the whole recall set. Due
+   * dates and the daily new point limit don't apply, since practice doesn't
+   * schedule anything; the session size cap still does, taking the least
+   * retrievable points first. Suspended points are left out.
+   *
+   * @param recallSet - The RecallSet to practice
+   * @returns The created Session
+   * @throws Error if the set has no recall points
+   */
+  private async startPracticeSession(recallSet: RecallSet): Promise<Session> {
+    const setPoints = (await this.recallPointRepo.findByRecallSetId(recallSet.id)).filter(
+      (point) => !point.suspendedAt
+    );
+    if (setPoints.length === 0) {
+      throw new Error(`RecallSet '${recallSet.name}' has no recall points to practice.`);
+    }
+
+    const plan = planPracticeSession(setPoints, recallSet, this.config, new Date(), this.scheduler);
+
+    return this.beginSession(recallSet.id, [recallSet], plan, 'practice');
+  }
+
+  /**
+   * Plans and begins a deep-dive session over the points of the recall set
+   * marked for one. Due dates and the daily new point limit don't apply;
+   * the session size cap does, taking the least retrievable points first,
+   * so marked points that don't fit wait for the next deep dive.
+   *
+   * @param recallSet - The RecallSet whose marked points to study
+   * @returns The created Session
+   * @throws Error if no points of the set are marked for a deep dive
+   */
+  private async startDeepDiveSession(recallSet: RecallSet): Promise<Session> {
+    const markedPoints = (await this.recallPointRepo.findByRecallSetId(recallSet.id)).filter(
+      (point) => point.deepDiveRequestedAt && !point.suspendedAt
+    );
+    if (markedPoints.length === 0) {
+      throw new Error(
+        `No recall points in RecallSet '${recallSet.name}' are marked for a deep dive.`
+      );
+    }
+
+    const plan = planPracticeSession(markedPoints, recallSet, this.config, new Date(), this.scheduler);
+
+    return this.beginSession(recallSet.id, [recallSet], plan, 'deep-dive');
+  }
+
+  /**
+   * Starts a daily review session across recall sets.
+   *
+   * A daily review draws the most urgent due points from every active
+   * RecallSet into one session, planned like a regular session (see
+   * session-planner.ts): each set's new point limit applies to its own
+   * points, and the engine's session size cap to the whole session. Each
+   * point is discussed with its own set's system prompt and scheduled with
+   * its own set's settings, and outcomes stay attributed to the point's set.
+   *
+   * An in-progress daily review is resumed instead of starting another.
+   *
+   * @param recallSets - The learner's recall sets; only active ones are drawn on
+   * @returns The created (or resumed) Session, with a null recallSetId
+   * @throws Error if no recall points are due in any active RecallSet, or
+   *         only new points are due and every set's new point limit has
+   *         been reached
+   *
+   * @example
+   * ```typescript
+   * const session = await engine.startDailyReview(await recallSetRepo.findAll());
+   * console.log(`Reviewing ${session.targetRecallPointIds.length} points`);
+   * ```
+   */
+  async startDailyReview(recallSets: RecallSet[]): Promise<Session> {
+    const existingSession = await this.sessionRepo.findInProgress(null);
+    if (existingSession) {
+      return this.resumeSession(existingSession, recallSets);
+    }
+
+    const activeSets = recallSets.filter((set) => set.status === 'active');
+    const sources: DailyReviewSource[] = [];
+    for (const recallSet of activeSets) {
+      const duePoints = await this.recallPointRepo.findDuePoints(recallSet.id);
+      if (duePoints.length === 0) {
+        continue;
+      }
+      const { newPointsPerDay } = resolveSessionLimits(recallSet, this.config);
+      const setPoints =
+        newPointsPerDay === null ? [] : await this.recallPointRepo.findByRecallSetId(recallSet.id);
+      sources.push({ recallSet, duePoints, setPoints });
+    }
+
+    if (sources.length === 0) {
+      throw new Error(
+        'No recall points are due for review in any active RecallSet. ' +
+        'Check due dates before starting a daily review.'
+      );
+    }
+
+    const plan = planDailyReview(sources, this.config, new Date(), this.scheduler);
+    if (plan.points.length === 0) {
+      throw new Error(
+        "Today's new recall point limits have been reached, and no reviewed points " +
+        'are due in any active RecallSet.'
+      );
+    }
+
+    return this.beginSession(null, activeSets, plan);
+  }
+
+  /**
+   * Creates the session record for a plan and initializes the engine state.
+   *
+   * The session's prompt versions are the defaults, or a randomly assigned
+   * variant's when a prompt experiment is running; they are recorded on the
+   * session so analytics can compare the variants.
+   *
+   * @param recallSetId - The studied RecallSet's ID, or null for a daily review
+   * @param recallSets - RecallSets the planned points belong to
+   * @param plan - The planned session
+   * @param mode - Whether the session is a review, practice or a deep dive
+   * @returns The created Session
+   */
+  private async beginSession(
+    recallSetId: string | null,
+    recallSets: RecallSet[],
+    plan: SessionPlan,
+    mode: SessionMode = 'review'
+  ): Promise<Session> {
+    const duePoints = plan.points;
+    const assignment = assignSessionPrompts(this.promptExperiment ?? undefined);
+
     // Create the session record in the database
     const session = await this.sessionRepo.create({
       id: generateId('sess'),
-      recallSetId: recallSet.id,
+      recallSetId,
+      mode,
       targetRecallPointIds: duePoints.map((p) => p.id),
+      ...assignment,
     });
 
     // Initialize engine state for the new session
     this.currentSession = session;
-    this.currentRecallSet = recallSet;
+    this.sessionRecallSets = new Map(recallSets.map((set) => [set.id, set]));
     this.targetPoints = duePoints;
     this.currentPointIndex = 0;
+    this.currentRecallSet = this.recallSetOf(duePoints[0]);
     this.messages = [];
     this.currentPointMessageCount = 0;
+    this.currentPointHintCount = 0;
     this.currentPointStartIndex = 0;
+    this.usePromptVersions(assignment.promptVersions);
 
     // === Phase 2: Initialize metrics collection for the new session ===
     // Start tracking session metrics if the collector is available
@@ -373,9 +672,15 @@ export class SessionEngine {
     // Emit session started event
     this.emitEvent('session_started', {
       sessionId: session.id,
-      recallSetId: recallSet.id,
+      recallSetId,
+      mode,
+      recallSetIds: [...new Set(duePoints.map((p) => p.recallSetId))],
       targetPointCount: duePoints.length,
       targetPointIds: duePoints.map((p) => p.id),
+      plan: plan.summary,
+      promptVersions: assignment.promptVersions,
+      experimentId: assignment.experimentId,
+      experimentVariant: assignment.experimentVariant,
     });
 
     return session;
@@ -384,22 +689,27 @@ export class SessionEngine {
   /**
    * Resumes an existing in-progress session.
    *
-   * Called internally by startSession when an in-progress session exists.
-   * Loads existing messages and determines the current point index.
+   * Called by startSession and startDailyReview when an in-progress session
+   * exists, and by callers that already hold the session, such as the
+   * WebSocket handler resuming a daily review. Loads existing messages and
+   * determines the current point index. The session keeps the prompt
+   * versions it recorded (the defaults, if it predates prompt versions).
    *
    * @param session - The existing session to resume
-   * @param recallSet - The RecallSet being studied
+   * @param recallSets - RecallSets the session's points may belong to
    * @returns The resumed Session
    */
-  private async resumeSession(
+  async resumeSession(
     session: Session,
-    recallSet: RecallSet
+    recallSets: RecallSet[]
   ): Promise<Session> {
-    // Load the recall points for this session
+    this.sessionRecallSets = new Map(recallSets.map((set) => [set.id, set]));
+
+    // Load the recall points for this session (skipping any whose set is gone)
     const points: RecallPoint[] = [];
     for (const pointId of session.targetRecallPointIds) {
       const point = await this.recallPointRepo.findById(pointId);
-      if (point) {
+      if (point && this.sessionRecallSets.has(point.recallSetId)) {
         points.push(point);
       }
     }
@@ -409,7 +719,7 @@ export class SessionEngine {
 
     // Initialize engine state
     this.currentSession = session;
-    this.currentRecallSet = recallSet;
+    this.currentRecallSet = points.length > 0 ? this.recallSetOf(points[0]) : recallSets[0] ?? null;
     this.targetPoints = points;
     this.messages = existingMessages;
 
@@ -418,7 +728,9 @@ export class SessionEngine {
     // A more sophisticated implementation could track progress in the session
     this.currentPointIndex = 0;
     this.currentPointMessageCount = existingMessages.length;
+    this.currentPointHintCount = 0;
     this.currentPointStartIndex = 0;
+    this.usePromptVersions(resolvePromptVersions(session.promptVersions ?? {}));
 
     // === Phase 2: Initialize metrics collection for resumed session ===
     // Note: When resuming, we start fresh with metrics collection
@@ -438,10 +750,14 @@ export class SessionEngine {
     // Emit session started event (as a resume)
     this.emitEvent('session_started', {
       sessionId: session.id,
-      recallSetId: recallSet.id,
+      recallSetId: session.recallSetId,
+      mode: session.mode,
       targetPointCount: points.length,
       resumed: true,
       existingMessageCount: existingMessages.length,
+      promptVersions: this.promptVersions,
+      experimentId: session.experimentId,
+      experimentVariant: session.experimentVariant,
     });
 
     return session;
@@ -508,6 +824,10 @@ export class SessionEngine {
    * 2. Checks for evaluation triggers (phrases or message count)
    * 3. Either evaluates and advances, or generates a follow-up response
    *
+   * A message saying the learner doesn't know the answer ("I don't know",
+   * "no idea", ...) gets the next hint instead; once the point's hints are
+   * used up, the point is evaluated on what the learner managed.
+   *
    * @param content - The user's message content
    * @returns Result containing the response and session status
    * @throws Error if no session is active
@@ -531,6 +851,26 @@ export class SessionEngine {
 
     // Save the user message
     await this.saveMessage('user', content);
+
+    // While exploring a tangent, the tutor only follows it: the message
+    // doesn't count towards the point, and nothing is evaluated
+    if (this.exploringTangent) {
+      this.emitEvent('user_message', {
+        content,
+        messageCount: this.currentPointMessageCount,
+        rabbitholeId: this.exploringTangent.rabbitholeId,
+      });
+
+      const response = await this.generateTutorResponse();
+      return {
+        response,
+        completed: false,
+        pointAdvanced: false,
+        currentPointIndex: this.currentPointIndex,
+        totalPoints: this.targetPoints.length,
+      };
+    }
+
     this.currentPointMessageCount++;
 
     // Emit user message event
@@ -543,9 +883,29 @@ export class SessionEngine {
     // Check if the user's message indicates a conversational tangent
     await this.detectAndRecordRabbithole();
 
+    // An "I don't know" climbs the hint ladder, unless the point has run out
+    // of messages anyway
+    if (
+      this.saysDontKnow(content) &&
+      this.currentPointMessageCount < this.config.maxMessagesPerPoint
+    ) {
+      const hint = await this.giveHint();
+      if (!hint) {
+        return this.evaluateAndAdvance();
+      }
+      return {
+        response: hint.hint,
+        completed: false,
+        pointAdvanced: false,
+        currentPointIndex: this.currentPointIndex,
+        totalPoints: this.targetPoints.length,
+        hint,
+      };
+    }
+
     // Check if we should trigger evaluation
     const shouldEvaluate =
-      this.shouldTriggerEvaluation(content) ||
+      (this.config.evaluateOnTriggerPhrases && this.shouldTriggerEvaluation(content)) ||
       this.currentPointMessageCount >= this.config.maxMessagesPerPoint;
 
     // If evaluation is triggered, evaluate and potentially advance
@@ -586,7 +946,7 @@ export class SessionEngine {
    * trigger phrases or message count.
    *
    * @returns Result containing the response and session status
-   * @throws Error if no session is active
+   * @throws Error if no session is active or a tangent is being explored
    *
    * @example
    * ```typescript
@@ -598,9 +958,352 @@ export class SessionEngine {
    */
   async triggerEvaluation(): Promise<ProcessMessageResult> {
     this.validateActiveSession();
+    this.validateNotExploringTangent('evaluating the point');
     return this.evaluateAndAdvance();
   }
 
+  /**
+   * Gives the next hint on the current recall point.
+   *
+   * Each hint reveals more of the point's context than the last (see
+   * buildHintPrompt). Hints taken are recorded with the point's recall
+   * outcome and cap its rating: with one hint it can be at best 'good', with
+   * two or more at best 'hard'.
+   *
+   * @returns The hint, or null if the point's hints are used up
+   * @throws Error if no session is active or a tangent is being explored
+   *
+   * @example
+   * ```typescript
+   * const hint = await engine.requestHint();
+   * if (hint) {
+   *   console.log(`Hint ${hint.level}:`, hint.hint);
+   * } else {
+   *   console.log('No more hints for this point');
+   * }
+   * ```
+   */
+  async requestHint(): Promise<HintResult | null> {
+    this.validateActiveSession();
+    this.validateNotExploringTangent('taking a hint');
+    return this.giveHint();
+  }
+
+  /**
+   * Skips the current recall point without rating it.
+   *
+   * The point keeps its FSRS state, so it stays due and comes up again in
+   * the next session; no recall outcome is recorded for it.
+   *
+   * @returns Result with the tutor's transition and session status
+   * @throws Error if no session is active or a tangent is being explored
+   */
+  async skipPoint(): Promise<ProcessMessageResult> {
+    this.validateActiveSession();
+    this.validateNotExploringTangent('skipping the point');
+
+    const currentPoint = this.targetPoints[this.currentPointIndex];
+    this.emitEvent('point_skipped', { pointId: currentPoint.id, deferredUntil: null });
+
+    return this.moveToNextPoint(null);
+  }
+
+  /**
+   * Defers the current recall point by a number of days without rating it.
+   *
+   * Only the point's due date moves; its stability and difficulty are kept,
+   * so deferring carries no penalty. Practice sessions leave the schedule
+   * alone, so there a point can only be skipped.
+   *
+   * @param days - Whole days until the point is due again (at least 1)
+   * @returns Result with the tutor's transition and session status
+   * @throws Error if no session is active, a tangent is being explored,
+   *         the session is a practice session, or days isn't a whole
+   *         number of at least 1
+   *
+   * @example
+   * ```typescript
+   * // Not now - ask again next week
+   * const result = await engine.deferPoint(7);
+   * ```
+   */
+  async deferPoint(days: number): Promise<ProcessMessageResult> {
+    this.validateActiveSession();
+    this.validateNotExploringTangent('deferring the point');
+
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error(`Cannot defer a point by ${days} days: use a whole number of at least 1`);
+    }
+    if (this.currentSession!.mode === 'practice') {
+      throw new Error('Practice sessions leave the review schedule unchanged: skip the point instead');
+    }
+
+    const currentPoint = this.targetPoints[this.currentPointIndex];
+    const due = new Date(Date.now() + days * DAY_MS);
+    await this.recallPointRepo.updateFSRSState(currentPoint.id, { ...currentPoint.fsrsState, due });
+    this.emitEvent('point_skipped', { pointId: currentPoint.id, deferredUntil: due });
+
+    return this.moveToNextPoint(null);
+  }
+
+  /**
+   * Shows the learner the current recall point and rates it 'forgot'.
+   *
+   * For a learner who has given up on recalling the point. The point and
+   * its context are added to the transcript, and the point is scheduled
+   * and recorded like an evaluated one, without offering the rating for
+   * override.
+   *
+   * @returns Result whose response starts with the revealed point
+   * @throws Error if no session is active or a tangent is being explored
+   */
+  async revealPoint(): Promise<ProcessMessageResult> {
+    this.validateActiveSession();
+    this.validateNotExploringTangent('showing the point');
+
+    const currentPoint = this.targetPoints[this.currentPointIndex];
+    const reveal = currentPoint.context
+      ? `Here's the point:\n\n${currentPoint.content}\n\n${currentPoint.context}`
+      : `Here's the point:\n\n${currentPoint.content}`;
+
+    await this.saveMessage('assistant', reveal);
+    this.emitEvent('assistant_message', { content: reveal, isReveal: true });
+    this.emitEvent('point_revealed', { pointId: currentPoint.id });
+
+    const evaluation: EnhancedRecallEvaluation = {
+      success: false,
+      confidence: 1,
+      reasoning: 'The learner asked to see the point instead of recalling it',
+      keyDemonstratedConcepts: [],
+      missedConcepts: [],
+      suggestedRating: 'forgot',
+    };
+    if (this.metricsEnabled && this.metricsCollector) {
+      this.metricsCollector.recordRecallOutcome(
+        currentPoint.id,
+        evaluation,
+        this.currentPointStartIndex,
+        this.messages.length - 1,
+        this.currentPointHintCount
+      );
+    }
+
+    const result = await this.advanceToNextPoint(evaluation, 'forgot');
+    return { ...result, response: `${reveal}\n\n${result.response}` };
+  }
+
+  /**
+   * Takes back the learner's last message on the current recall point,
+   * along with the tutor's replies to it.
+   *
+   * The messages are deleted from the transcript, so the tutor and the
+   * evaluator no longer see them, and their timings are dropped from the
+   * session's metrics. Hints given in reply still count towards the rating
+   * cap: the learner has seen them. A message with a note on it can't be
+   * taken back, so the note isn't left pointing at a missing message.
+   *
+   * @returns The retracted message, or null if the learner hasn't said
+   *          anything on the current point
+   * @throws Error if no session is active, a tangent is being explored, or
+   *         one of the messages has been annotated
+   */
+  async undoLastMessage(): Promise<UndoResult | null> {
+    this.validateActiveSession();
+    this.validateNotExploringTangent('undoing a message');
+
+    let index = this.messages.length - 1;
+    while (index >= this.currentPointStartIndex && this.messages[index].role !== 'user') {
+      index--;
+    }
+    if (index < this.currentPointStartIndex) {
+      return null;
+    }
+
+    if (this.annotationRepo) {
+      const annotations = await this.annotationRepo.findBySessionId(this.currentSession!.id);
+      if (annotations.some((annotation) => annotation.messageIndex !== null && annotation.messageIndex >= index)) {
+        throw new Error('The message has a note on it: it can no longer be undone');
+      }
+    }
+
+    const removed = this.messages.slice(index);
+    for (const message of removed) {
+      await this.messageRepo.delete(message.id);
+    }
+    this.messages = this.messages.slice(0, index);
+    this.metricsCollector?.retractMessages(removed.length);
+    this.currentPointMessageCount = Math.max(0, this.currentPointMessageCount - 1);
+
+    const result: UndoResult = { content: removed[0].content, messagesRemoved: removed.length };
+    this.emitEvent('message_retracted', { ...result });
+
+    return result;
+  }
+
+  /**
+   * Starts exploring a tangent at the learner's request ("let's explore
+   * this").
+   *
+   * Until returnFromTangent(), the tutor follows the tangent under its own
+   * prompt: the learner's messages don't count towards the current point,
+   * nothing is evaluated, and the point's timer is paused. The tangent is
+   * recorded as a learner-initiated rabbithole, so it can be proposed as a
+   * recall point when the session completes.
+   *
+   * @param topic - What to explore; defaults to the learner's last message
+   *                on the current point
+   * @returns The tangent, with the tutor's start of the exploration
+   * @throws Error if no session is active, a tangent is already being
+   *         explored, or there's no topic and nothing to take it from
+   *
+   * @example
+   * ```typescript
+   * const tangent = await engine.exploreTangent('Why did Germany print money?');
+   * console.log(tangent.response);
+   * // ... processUserMessage() follows the tangent ...
+   * const recap = await engine.returnFromTangent();
+   * ```
+   */
+  async exploreTangent(topic?: string): Promise<TangentResult> {
+    this.validateActiveSession();
+    if (this.exploringTangent) {
+      throw new Error(`Already exploring "${this.exploringTangent.topic}": return from it first`);
+    }
+
+    // Without a topic, the tangent starts at the learner's last message
+    let triggerMessageIndex = this.messages.length;
+    let tangentTopic = topic?.trim() ?? '';
+    if (tangentTopic === '') {
+      const lastUserIndex = this.messages.findLastIndex(
+        (message, index) => index >= this.currentPointStartIndex && message.role === 'user'
+      );
+      if (lastUserIndex === -1) {
+        throw new Error('Say what to explore: there is no message on this point to explore yet');
+      }
+      triggerMessageIndex = lastUserIndex;
+      tangentTopic = this.messages[lastUserIndex].content.trim().slice(0, MAX_TANGENT_TOPIC_LENGTH);
+    }
+
+    const currentPoint = this.targetPoints[this.currentPointIndex];
+    const event: RabbitholeEvent = {
+      id: generateId('rh'),
+      topic: tangentTopic,
+      triggerMessageIndex,
+      returnMessageIndex: null,
+      depth: 1,
+      relatedRecallPointIds: [currentPoint.id],
+      userInitiated: true,
+      status: 'active',
+    };
+
+    if (this.metricsCollector) {
+      this.metricsCollector.recordRabbithole(event);
+      this.metricsCollector.pausePointTimer();
+    }
+    if (this.rabbitholeRepo) {
+      await this.rabbitholeRepo.create({
+        ...event,
+        sessionId: this.currentSession!.id,
+        createdAt: new Date(),
+      });
+    }
+    this.exploringTangent = { rabbitholeId: event.id, topic: tangentTopic };
+
+    this.llmClient.setSystemPrompt(
+      buildTangentExplorationPrompt({ topic: tangentTopic, recallSet: this.currentRecallSet! })
+    );
+    const response = await this.completeWithInstruction(buildTangentOpeningPrompt(tangentTopic));
+
+    this.emitEvent('tangent_opened', {
+      rabbitholeId: event.id,
+      topic: tangentTopic,
+      pointId: currentPoint.id,
+    });
+    this.emitEvent('assistant_message', { content: response, isOpening: false });
+
+    return { rabbitholeId: event.id, topic: tangentTopic, response };
+  }
+
+  /**
+   * Returns from the tangent being explored to the current recall point.
+   *
+   * The tutor's prompt is restored and the point's timer resumed, and the
+   * tutor recaps the tangent before asking the learner to go on recalling
+   * the point. The tangent's rabbithole is recorded as returned.
+   *
+   * @returns The tangent, with the tutor's recap
+   * @throws Error if no session is active or no tangent is being explored
+   */
+  async returnFromTangent(): Promise<TangentResult> {
+    this.validateActiveSession();
+    if (!this.exploringTangent) {
+      throw new Error('Not exploring a tangent: there is nothing to return from');
+    }
+    const { rabbitholeId, topic } = this.exploringTangent;
+
+    this.updateLLMPrompt();
+    if (this.metricsCollector) {
+      this.metricsCollector.resumePointTimer();
+    }
+    const response = await this.completeWithInstruction(buildTangentRecapPrompt(topic));
+
+    const returnMessageIndex = this.messages.length - 1;
+    if (this.metricsCollector) {
+      this.metricsCollector.updateRabbitholeReturn(rabbitholeId, returnMessageIndex);
+    }
+    if (this.rabbitholeRepo) {
+      await this.rabbitholeRepo.update(rabbitholeId, { returnMessageIndex, status: 'returned' });
+    }
+    this.exploringTangent = null;
+
+    this.emitEvent('tangent_closed', {
+      rabbitholeId,
+      topic,
+      pointId: this.targetPoints[this.currentPointIndex].id,
+    });
+    this.emitEvent('assistant_message', { content: response, isOpening: false });
+
+    return { rabbitholeId, topic, response };
+  }
+
+  /**
+   * Saves a learner's note on the current recall point.
+   *
+   * The note is kept as an annotation on the latest message of the
+   * session (or the whole session before any message), so it shows up
+   * with the transcript in the session replay.
+   *
+   * @param note - The note's text
+   * @returns The saved annotation
+   * @throws Error if no session is active, the note is empty, or the engine
+   *         has no annotation repository
+   */
+  async addNote(note: string): Promise<SessionAnnotation> {
+    this.validateActiveSession();
+
+    if (!this.annotationRepo) {
+      throw new Error('Notes are unavailable: the session engine has no annotation repository');
+    }
+    const text = note.trim();
+    if (text === '') {
+      throw new Error('A note needs some text');
+    }
+
+    const annotation = await this.annotationRepo.create({
+      id: generateId('ann'),
+      sessionId: this.currentSession!.id,
+      messageIndex: this.messages.length > 0 ? this.messages.length - 1 : null,
+      note: text,
+      tags: [],
+    });
+    this.emitEvent('note_added', {
+      annotationId: annotation.id,
+      pointId: this.targetPoints[this.currentPointIndex].id,
+    });
+
+    return annotation;
+  }
+
   /**
    * Abandons the current session.
    *
@@ -623,6 +1326,14 @@ export class SessionEngine {
     // Mark session as abandoned in the database
     await this.sessionRepo.abandon(this.currentSession!.id);
 
+    // A tangent still being explored is never returned from
+    if (this.exploringTangent && this.rabbitholeRepo) {
+      await this.rabbitholeRepo.update(this.exploringTangent.rabbitholeId, {
+        returnMessageIndex: this.messages.length - 1,
+        status: 'abandoned',
+      });
+    }
+
     // Clear engine state
     this.resetState();
   }
@@ -639,6 +1350,7 @@ export class SessionEngine {
     totalPoints: number;
     currentPoint: RecallPoint;
     messageCount: number;
+    exploringTangent: { rabbitholeId: string; topic: string } | null;
   } | null {
     if (!this.currentSession || !this.currentRecallSet) {
       return null;
@@ -651,6 +1363,7 @@ export class SessionEngine {
       totalPoints: this.targetPoints.length,
       currentPoint: this.targetPoints[this.currentPointIndex],
       messageCount: this.messages.length,
+      exploringTangent: this.exploringTangent ? { ...this.exploringTangent } : null,
     };
   }
 
@@ -667,11 +1380,104 @@ export class SessionEngine {
   private shouldTriggerEvaluation(userMessage: string): boolean {
     const lowerMessage = userMessage.toLowerCase();
 
+    // Whole words only, so a phrase doesn't match inside a longer word
     return EVALUATION_TRIGGER_PHRASES.some((phrase) =>
-      lowerMessage.includes(phrase)
+      new RegExp(`\\b${phrase}\\b`).test(lowerMessage)
     );
   }
 
+  /**
+   * Checks if the user message says they can't recall the point.
+   *
+   * The whole message has to be a "don't know" phrase, so an answer that
+   * merely hedges ("I don't know exactly, but...") is still evaluated as an
+   * answer.
+   *
+   * @param userMessage - The user's message to check
+   * @returns true if the message is a "don't know" phrase
+   */
+  private saysDontKnow(userMessage: string): boolean {
+    // Normalize typographic apostrophes so "I don’t know" matches too, and
+    // drop the punctuation around the phrase ("I don't know...")
+    const normalized = userMessage
+      .toLowerCase()
+      .replace(/\u2019/g, "'")
+      .replace(/^[^a-z0-9']+|[^a-z0-9']+$/g, '')
+      .replace(/\s+/g, ' ');
+
+    return DONT_KNOW_PHRASES.includes(normalized);
+  }
+
+  /**
+   * Generates the next hint on the current recall point, if any are left.
+   *
+   * The hint instruction is sent as a final user turn after the conversation
+   * so far (see completeWithInstruction).
+   *
+   * @returns The hint, or null if the point's hints are used up
+   */
+  private async giveHint(): Promise<HintResult | null> {
+    if (this.currentPointHintCount >= this.config.maxHintsPerPoint) {
+      return null;
+    }
+
+    const currentPoint = this.targetPoints[this.currentPointIndex];
+    const level = this.currentPointHintCount + 1;
+    const hintPrompt = buildHintPrompt({
+      point: currentPoint,
+      level,
+      totalLevels: this.config.maxHintsPerPoint,
+    });
+
+    const text = await this.completeWithInstruction(hintPrompt);
+    this.currentPointHintCount = level;
+
+    const hint: HintResult = {
+      pointId: currentPoint.id,
+      hint: text,
+      level,
+      hintsRemaining: this.config.maxHintsPerPoint - level,
+    };
+
+    this.emitEvent('hint_given', {
+      pointId: hint.pointId,
+      level: hint.level,
+      hintsRemaining: hint.hintsRemaining,
+    });
+    this.emitEvent('assistant_message', {
+      content: text,
+      isOpening: false,
+    });
+
+    return hint;
+  }
+
+  /**
+   * Sends an instruction as a final user turn after the conversation so
+   * far and saves only the tutor's reply to the transcript.
+   *
+   * @param instruction - The instruction for the tutor
+   * @returns The tutor's reply
+   */
+  private async completeWithInstruction(instruction: string): Promise<string> {
+    const response = await this.llmClient.complete(
+      [...this.buildConversationHistory(), { role: 'user', content: instruction }],
+      {
+        temperature: this.config.tutorTemperature,
+        maxTokens: this.config.tutorMaxTokens,
+      }
+    );
+
+    await this.saveMessage(
+      'assistant',
+      response.text,
+      response.usage?.inputTokens,
+      response.usage?.outputTokens
+    );
+
+    return response.text;
+  }
+
   /**
    * Evaluates the current recall point and advances to the next.
    *
@@ -722,6 +1528,7 @@ export class SessionEngine {
           attemptNumber: currentPoint.fsrsState?.reps ?? 1,
           previousSuccesses: currentPoint.fsrsState?.reps ?? 0,
           topic: this.currentRecallSet?.name ?? 'Unknown',
+          promptVersion: this.promptVersions.evaluator,
         }
       );
 
@@ -732,7 +1539,8 @@ export class SessionEngine {
           currentPoint.id,
           enhancedEvaluation,
           this.currentPointStartIndex,
-          messageEndIndex
+          messageEndIndex,
+          this.currentPointHintCount
         );
       }
 
@@ -752,43 +1560,97 @@ export class SessionEngine {
    * Advances to the next recall point or completes the session.
    *
    * This method:
-   * 1. Determines the FSRS rating from the evaluation
+   * 1. Determines the FSRS rating from the evaluation, capped for the hints
+   *    the learner took, and offers it to the rating override handler (if
+   *    set). The learner's own rating is held to the same cap.
    * 2. Updates the recall point's scheduling state
    * 3. Records the recall attempt in history
    * 4. Either advances to next point or completes session
    *
+   * In a practice session steps 2 and 3 are skipped: the point keeps its
+   * FSRS state and due date, and the evaluation is only recorded as the
+   * session's recall outcome. In a deep-dive session the point's deep-dive
+   * mark is also cleared.
+   *
    * @param evaluation - The evaluation result from the current point
+   * @param forcedRating - Rating to use regardless of the evaluation and
+   *                       hints, without offering an override (a revealed
+   *                       point is always 'forgot')
    * @returns Result with response and session status
    */
   private async advanceToNextPoint(
-    evaluation: RecallEvaluation
+    evaluation: RecallEvaluation,
+    forcedRating?: RecallRating
   ): Promise<ProcessMessageResult> {
     const currentPoint = this.targetPoints[this.currentPointIndex];
 
-    // Map evaluation to FSRS rating
-    const rating = this.evaluationToRating(evaluation);
-
-    // Calculate new FSRS state
-    const newState = this.scheduler.schedule(currentPoint.fsrsState, rating);
+    // Map evaluation to FSRS rating, unless the learner overrides it
+    const hintsUsed = this.currentPointHintCount;
+    const aiRating = forcedRating ?? capRatingForHints(evaluationToRating(evaluation), hintsUsed);
+    const answer = this.ratingOverrideHandler && !forcedRating
+      ? await this.ratingOverrideHandler({
+          pointId: currentPoint.id,
+          success: evaluation.success,
+          confidence: evaluation.confidence,
+          reasoning: evaluation.reasoning,
+          hintsUsed,
+          rating: aiRating,
+        })
+      : null;
+    const learnerRating = answer === null ? null : capRatingForHints(answer, hintsUsed);
+    const rating = learnerRating ?? aiRating;
+    this.metricsCollector?.recordRating(currentPoint.id, aiRating, learnerRating);
+
+    // Practice sessions leave the point's schedule untouched
+    let newDueDate = currentPoint.fsrsState.due;
+    if (this.currentSession!.mode !== 'practice') {
+      // Calculate new FSRS state with the set's scheduling settings and fitted weights
+      const scheduler = await this.schedulerFor(this.recallSetOf(currentPoint));
+      const newState = scheduler.schedule(currentPoint.fsrsState, rating);
+
+      // Update the recall point's FSRS state in the database
+      await this.recallPointRepo.updateFSRSState(currentPoint.id, newState);
+
+      // Record the recall attempt in history
+      await this.recallPointRepo.addRecallAttempt(currentPoint.id, {
+        timestamp: new Date(),
+        success: evaluation.success,
+        latencyMs: 0, // We don't track latency in conversational recall
+      });
 
-    // Update the recall point's FSRS state in the database
-    await this.recallPointRepo.updateFSRSState(currentPoint.id, newState);
+      newDueDate = newState.due;
+    }
 
-    // Record the recall attempt in history
-    await this.recallPointRepo.addRecallAttempt(currentPoint.id, {
-      timestamp: new Date(),
-      success: evaluation.success,
-      latencyMs: 0, // We don't track latency in conversational recall
-    });
+    // The deep dive the learner asked for has covered the point
+    if (this.currentSession!.mode === 'deep-dive') {
+      await this.recallPointRepo.update(currentPoint.id, { deepDiveRequestedAt: null });
+    }
 
     // Emit point completed event
     this.emitEvent('point_completed', {
       pointId: currentPoint.id,
       rating,
-      newDueDate: newState.due,
+      aiRating,
+      overridden: learnerRating !== null && learnerRating !== aiRating,
+      hintsUsed,
+      newDueDate,
       success: evaluation.success,
     });
 
+    return this.moveToNextPoint(evaluation);
+  }
+
+  /**
+   * Moves on to the next recall point, or completes the session after the
+   * last one, with a tutor message about the point left behind.
+   *
+   * @param evaluation - The evaluation of the point left behind, or null if
+   *                     it was skipped
+   * @returns Result with response and session status
+   */
+  private async moveToNextPoint(
+    evaluation: RecallEvaluation | null
+  ): Promise<ProcessMessageResult> {
     // Check if there are more points to review
     const hasMorePoints = this.currentPointIndex < this.targetPoints.length - 1;
 
@@ -796,12 +1658,15 @@ export class SessionEngine {
       // Advance to the next point
       this.currentPointIndex++;
       this.currentPointMessageCount = 0;
+      this.currentPointHintCount = 0;
 
       // === Phase 2: Track the starting message index for the next recall point ===
       // This is used to determine the message range when recording recall outcomes
       this.currentPointStartIndex = this.messages.length;
 
-      // Update the LLM prompt for the new point
+      // Update the LLM prompt for the new point, which in a daily review may
+      // belong to another set
+      this.currentRecallSet = this.recallSetOf(this.targetPoints[this.currentPointIndex]);
       this.updateLLMPrompt();
 
       // Generate transition message and opening for next point
@@ -842,39 +1707,30 @@ export class SessionEngine {
   }
 
   /**
-   * Maps a recall evaluation to an FSRS rating.
+   * Returns the RecallSet a point of the current session belongs to.
    *
-   * The mapping considers both success and confidence:
-   * - High confidence success -> 'easy' or 'good'
-   * - Low confidence success -> 'good' or 'hard'
-   * - Failure -> 'forgot' or 'hard'
+   * @param point - A recall point of the current session
+   * @returns The point's RecallSet
+   */
+  private recallSetOf(point: RecallPoint): RecallSet {
+    return this.sessionRecallSets.get(point.recallSetId) ?? this.currentRecallSet!;
+  }
+
+  /**
+   * Returns the scheduler for a recall set's points: the base scheduler
+   * with the set's retention and maximum interval, and the FSRS weights
+   * fitted for the set (or for its owner), if any.
    *
-   * @param evaluation - The recall evaluation result
-   * @returns The corresponding FSRS rating
+   * @param recallSet - The recall set the point belongs to
+   * @returns The scheduler to use
    */
-  private evaluationToRating(evaluation: RecallEvaluation): RecallRating {
-    if (evaluation.success) {
-      // Successful recall - determine between easy, good, or hard
-      if (evaluation.confidence >= 0.9) {
-        // High confidence, effortless recall
-        return 'easy';
-      } else if (evaluation.confidence >= 0.7) {
-        // Good recall with some effort
-        return 'good';
-      } else {
-        // Recalled but with significant difficulty
-        return 'hard';
-      }
-    } else {
-      // Failed recall
-      if (evaluation.confidence >= 0.7) {
-        // Definitely didn't recall
-        return 'forgot';
-      } else {
-        // Uncertain failure - might have been close
-        return 'hard';
-      }
+  private async schedulerFor(recallSet: RecallSet): Promise<FSRSScheduler> {
+    const scheduler = this.scheduler.forRecallSet(recallSet);
+    if (!this.fsrsParametersRepo) {
+      return scheduler;
     }
+    const parameters = await this.fsrsParametersRepo.findForRecallSet(recallSet.id);
+    return parameters ? scheduler.withWeights(parameters.weights) : scheduler;
   }
 
   /**
@@ -921,12 +1777,13 @@ export class SessionEngine {
    *
    * Phase 2: Now tracks token usage for metrics collection.
    *
-   * @param evaluation - The evaluation result from the completed point
+   * @param evaluation - The evaluation result from the completed point, or
+   *                     null if it was skipped
    * @param hasNextPoint - Whether there's another point to discuss
    * @returns The transition message
    */
   private async generateTransitionMessage(
-    evaluation: RecallEvaluation,
+    evaluation: RecallEvaluation | null,
     hasNextPoint: boolean
   ): Promise<string> {
     // Build appropriate feedback prompt based on evaluation and whether there's a next point
@@ -938,7 +1795,12 @@ export class SessionEngine {
       ? 'The learner struggled with recall. Provide encouraging feedback about what they did remember, briefly reinforce the key point, then transition to the next topic.'
       : 'The learner struggled with the final recall point. Provide encouraging feedback and briefly reinforce the key information.';
 
-    const feedbackPrompt = evaluation.success ? successPrompt : strugglePrompt;
+    const skippedPrompt = hasNextPoint
+      ? 'The learner skipped this point for now. Without giving feedback on it or revealing it, transition to the next topic by asking an opening question about it.'
+      : 'The learner skipped the final recall point for now. Briefly acknowledge it without revealing it.';
+
+    const feedbackPrompt =
+      evaluation === null ? skippedPrompt : evaluation.success ? successPrompt : strugglePrompt;
 
     const response = await this.llmClient.complete(feedbackPrompt, {
       temperature: this.config.tutorTemperature,
@@ -970,13 +1832,16 @@ export class SessionEngine {
    *
    * Phase 2: Now tracks token usage for metrics collection.
    *
-   * @param lastEvaluation - The evaluation result from the final point
+   * @param lastEvaluation - The evaluation result from the final point, or
+   *                         null if it was skipped
    * @returns The completion message
    */
   private async generateCompletionMessage(
-    lastEvaluation: RecallEvaluation
+    lastEvaluation: RecallEvaluation | null
   ): Promise<string> {
-    const feedbackPrompt = lastEvaluation.success
+    const feedbackPrompt = lastEvaluation === null
+      ? `The learner has reached the end of this session, skipping the last recall point for now. Provide encouraging feedback about completing the session. Summarize that they've worked through ${this.targetPoints.length} points. Encourage them to continue their learning journey.`
+      : lastEvaluation.success
       ? `The learner has completed all recall points for this session! Provide a warm congratulatory message. Summarize that they've reviewed ${this.targetPoints.length} points. Encourage them to continue their learning journey.`
       : `The learner has completed all recall points for this session, though they struggled with the last one. Provide encouraging feedback about completing the session. Summarize that they've reviewed ${this.targetPoints.length} points. Encourage continued practice.`;
 
@@ -1019,20 +1884,38 @@ export class SessionEngine {
       }));
   }
 
+  /**
+   * Switches the engine to a session's prompt versions, including the
+   * rabbithole detector's prompts.
+   *
+   * @param versions - The session's prompt versions
+   */
+  private usePromptVersions(versions: PromptVersions): void {
+    this.promptVersions = versions;
+    if (this.rabbitholeDetector) {
+      this.rabbitholeDetector.setPromptVersion(versions.rabbithole);
+    }
+  }
+
   /**
    * Updates the LLM system prompt for the current recall point.
    *
-   * Rebuilds the Socratic tutor prompt with the current point information
-   * and sets it on the LLM client.
+   * Rebuilds the session's version of the Socratic tutor prompt with the
+   * current point information and sets it on the LLM client. In a
+   * deep-dive session the prompt also carries the deep-dive guidance.
    */
   private updateLLMPrompt(): void {
-    const prompt = buildSocraticTutorPrompt({
+    const prompt = getTutorPrompt(this.promptVersions.tutor).build({
       recallSet: this.currentRecallSet!,
       targetPoints: this.targetPoints,
       currentPointIndex: this.currentPointIndex,
     });
 
-    this.llmClient.setSystemPrompt(prompt);
+    this.llmClient.setSystemPrompt(
+      this.currentSession?.mode === 'deep-dive'
+        ? `${prompt}\n\n${buildDeepDiveGuidance(this.targetPoints[this.currentPointIndex])}`
+        : prompt
+    );
   }
 
   /**
@@ -1087,6 +1970,9 @@ export class SessionEngine {
    * - Closing any active rabbitholes as abandoned
    * - Recording all collected metrics to the database
    * - Persisting rabbithole events and recall outcomes
+   *
+   * Then proposes recall points from the session's rabbitholes, if the
+   * tangent follow-up is enabled.
    */
   private async completeSession(): Promise<void> {
     await this.sessionRepo.complete(this.currentSession!.id);
@@ -1100,6 +1986,8 @@ export class SessionEngine {
       pointsReviewed: this.targetPoints.length,
     });
 
+    await this.proposeTangents();
+
     // Update local state
     this.currentSession = {
       ...this.currentSession!,
@@ -1108,6 +1996,29 @@ export class SessionEngine {
     };
   }
 
+  /**
+   * Summarizes the finished session's rabbitholes into candidate recall
+   * points. A failure doesn't affect the completed session: the proposals
+   * can be made again later from the session replay.
+   */
+  private async proposeTangents(): Promise<void> {
+    if (!this.tangentFollowUp) {
+      return;
+    }
+
+    try {
+      const { proposed } = await this.tangentFollowUp.proposeForSession(this.currentSession!.id);
+      if (proposed.length > 0) {
+        this.emitEvent('tangents_proposed', {
+          sessionId: this.currentSession!.id,
+          candidateIds: proposed.map((candidate) => candidate.id),
+        });
+      }
+    } catch {
+      // Left for the session replay to retry
+    }
+  }
+
   /**
    * Validates that there is an active session.
    *
@@ -1121,6 +2032,19 @@ export class SessionEngine {
     }
   }
 
+  /**
+   * Validates that the learner isn't exploring a tangent, for commands
+   * about the current point.
+   *
+   * @param action - What the learner tried to do, for the error message
+   * @throws Error if a tangent is being explored
+   */
+  private validateNotExploringTangent(action: string): void {
+    if (this.exploringTangent) {
+      throw new Error(`Return from the tangent "${this.exploringTangent.topic}" before ${action}`);
+    }
+  }
+
   /**
    * Resets the engine state to initial values.
    *
@@ -1129,10 +2053,13 @@ export class SessionEngine {
   private resetState(): void {
     this.currentSession = null;
     this.currentRecallSet = null;
+    this.sessionRecallSets = new Map();
     this.targetPoints = [];
     this.currentPointIndex = 0;
     this.messages = [];
     this.currentPointMessageCount = 0;
+    this.currentPointHintCount = 0;
+    this.exploringTangent = null;
     this.llmClient.setSystemPrompt(undefined);
 
     // === Phase 2: Reset metrics collection state ===
@@ -1338,7 +2265,10 @@ export class SessionEngine {
           recallPointId: outcome.recallPointId,
           success: outcome.success,
           confidence: outcome.confidence,
-          rating: null, // Could be derived from confidence if needed
+          rating: outcome.learnerRating ?? outcome.aiRating,
+          aiRating: outcome.aiRating,
+          learnerRating: outcome.learnerRating,
+          hintsUsed: outcome.hintsUsed,
           reasoning: null, // Not stored in RecallOutcome model, could be added
           messageIndexStart: outcome.messageRange.start,
           messageIndexEnd: outcome.messageRange.end,
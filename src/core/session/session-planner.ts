@@ -0,0 +1,324 @@
+/**
+ * Session Planner
+ *
+ * Decides which due recall points go into a new session, and in what order,
+ * given the recall set's limits on points per session and new points per
+ * day. Sets without their own limits use the session engine defaults.
+ *
+ * Planning works in three steps:
+ *
+ * 1. **Prioritize** - Reviewed points are ranked by retrievability, lowest
+ *    first, so the points most likely to be forgotten are reviewed first;
+ *    ties go to the most overdue. New points follow in the order they were
+ *    added, but only while the day's allowance lasts: the allowance counts
+ *    every point of the set whose first review was today, so starting
+ *    several sessions in a day doesn't introduce more new points than the
+ *    set allows.
+ * 2. **Cap** - Reviews fill the session first and new points take the slots
+ *    left over. Whatever doesn't fit stays due and is picked up by
+ *    follow-up sessions, so a backlog after a break becomes several
+ *    sessions instead of one marathon.
+ * 3. **Interleave** - New points are spread evenly between the reviews
+ *    rather than saved for the end of the session.
+ *
+ * A practice session draws on every point of the set, due or not: practice
+ * doesn't schedule anything, so only the session size cap applies.
+ *
+ * A daily review plans one session across several recall sets: each set's
+ * own new point allowance applies to its points, then the eligible points
+ * of all sets compete for the session on retrievability alone.
+ *
+ * The plan's summary records these choices; the session engine includes it
+ * in the session_started event and the API returns it when a session is
+ * created. Used by SessionEngine and by the API routes that create sessions
+ * for the web client, so both plan sessions the same way.
+ *
+ * @example
+ * ```typescript
+ * const limits = resolveSessionLimits(recallSet);
+ * const allPoints = await recallPointRepo.findByRecallSetId(recallSet.id);
+ * const duePoints = await recallPointRepo.findDuePoints(recallSet.id);
+ * const plan = planSession(duePoints, allPoints, limits);
+ * console.log(`${plan.points.length} points, ${plan.summary.deferredCount} left for later`);
+ * ```
+ */
+
+import type { RecallPoint, RecallSet } from '../models';
+import { FSRSScheduler } from '../fsrs/scheduler';
+import { DEFAULT_SESSION_CONFIG, type SessionEngineConfig } from './types';
+
+/**
+ * The limits that apply to a session of one recall set.
+ */
+export interface SessionLimits {
+  /** Most points in the session, or null for no limit */
+  maxPoints: number | null;
+  /** Most new points introduced per day, or null for no limit */
+  newPointsPerDay: number | null;
+}
+
+/**
+ * One point of a planned session, with what placed it there.
+ */
+export interface PlannedPoint {
+  /** The recall point's ID */
+  recallPointId: string;
+  /** The recall set the point belongs to */
+  recallSetId: string;
+  /** Whether the point has been reviewed before or is being introduced */
+  kind: 'review' | 'new';
+  /** Predicted recall probability at planning time (null for new points) */
+  retrievability: number | null;
+  /** Days past the point's due date at planning time */
+  overdueDays: number;
+}
+
+/**
+ * What the planner decided for a session, in a form that can be logged or
+ * sent to clients.
+ */
+export interface SessionPlanSummary {
+  /** Session size cap applied, or null for no limit */
+  maxPoints: number | null;
+  /** Daily new point limit applied, or null for no limit */
+  newPointsPerDay: number | null;
+  /** New points still allowed today before planning, or null for no limit */
+  newAllowance: number | null;
+  /** Reviewed points in the session */
+  reviewCount: number;
+  /** New points in the session */
+  newCount: number;
+  /** Eligible points left for follow-up sessions by the session size cap */
+  deferredCount: number;
+  /** New points held back because today's allowance is used up */
+  newHeldBackCount: number;
+  /** Further sessions of the same size needed for the deferred points */
+  followUpSessions: number;
+  /** The session's points in study order */
+  order: PlannedPoint[];
+}
+
+/**
+ * A planned session: the points to study, in order, and the summary.
+ */
+export interface SessionPlan {
+  /** The points to study, in study order */
+  points: RecallPoint[];
+  /** The choices behind the plan */
+  summary: SessionPlanSummary;
+}
+
+/**
+ * Scheduler used for retrievability when the caller doesn't pass one.
+ * Retrievability only depends on a point's stability and last review, so
+ * the default configuration gives the same ranking as any other.
+ */
+const defaultScheduler = new FSRSScheduler();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolves a recall set's session limits, falling back to the engine
+ * defaults for limits the set doesn't set.
+ *
+ * @param recallSet - The recall set being studied
+ * @param defaults - Engine configuration supplying the defaults
+ * @returns The limits to apply
+ */
+export function resolveSessionLimits(
+  recallSet: Pick<RecallSet, 'maxPointsPerSession' | 'newPointsPerDay'>,
+  defaults: Pick<SessionEngineConfig, 'maxPointsPerSession' | 'newPointsPerDay'> = DEFAULT_SESSION_CONFIG
+): SessionLimits {
+  return {
+    maxPoints: recallSet.maxPointsPerSession ?? defaults.maxPointsPerSession,
+    newPointsPerDay: recallSet.newPointsPerDay ?? defaults.newPointsPerDay,
+  };
+}
+
+/**
+ * Counts the points whose first review happened today.
+ *
+ * @param points - All points of the recall set
+ * @param now - The current time
+ * @returns Number of points introduced today
+ */
+export function countPointsIntroducedToday(points: RecallPoint[], now: Date = new Date()): number {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  return points.filter(
+    (point) => point.recallHistory.length > 0 && point.recallHistory[0].timestamp >= today
+  ).length;
+}
+
+/**
+ * Spreads the new points evenly between the reviews. At each position the
+ * kind that is furthest behind its share of the session goes next, with
+ * ties going to reviews, so the session opens with a review.
+ *
+ * @param reviews - Reviewed points in priority order
+ * @param newPoints - New points in priority order
+ * @returns Both lists merged
+ */
+function interleave<T>(reviews: T[], newPoints: T[]): T[] {
+  const merged: T[] = [];
+  let r = 0;
+  let n = 0;
+
+  while (r < reviews.length || n < newPoints.length) {
+    const takeNew =
+      r >= reviews.length ||
+      (n < newPoints.length && n / newPoints.length < r / reviews.length);
+    merged.push(takeNew ? newPoints[n++] : reviews[r++]);
+  }
+
+  return merged;
+}
+
+/**
+ * Plans a new session from the candidate points.
+ *
+ * @param candidates - Points eligible for the session (usually the due points)
+ * @param setPoints - All points of the recall set, to count today's new points
+ * @param limits - The limits to apply
+ * @param now - The current time
+ * @param scheduler - Scheduler used to predict retrievability
+ * @returns The planned points and a summary of the choices
+ */
+export function planSession(
+  candidates: RecallPoint[],
+  setPoints: RecallPoint[],
+  limits: SessionLimits,
+  now: Date = new Date(),
+  scheduler: Pick<FSRSScheduler, 'getRetrievability'> = defaultScheduler
+): SessionPlan {
+  const plannedById = new Map<string, PlannedPoint>();
+  for (const point of candidates) {
+    const kind = point.fsrsState.state === 'new' ? 'new' : 'review';
+    plannedById.set(point.id, {
+      recallPointId: point.id,
+      recallSetId: point.recallSetId,
+      kind,
+      retrievability: kind === 'new' ? null : scheduler.getRetrievability(point.fsrsState, now),
+      overdueDays: Math.max((now.getTime() - point.fsrsState.due.getTime()) / DAY_MS, 0),
+    });
+  }
+  const plannedFor = (point: RecallPoint) => plannedById.get(point.id)!;
+
+  // Step 1: Prioritize - least retrievable reviews first, new points by age
+  const reviewPoints = candidates
+    .filter((point) => plannedFor(point).kind === 'review')
+    .sort(
+      (a, b) =>
+        plannedFor(a).retrievability! - plannedFor(b).retrievability! ||
+        a.fsrsState.due.getTime() - b.fsrsState.due.getTime()
+    );
+  const newPoints = candidates
+    .filter((point) => plannedFor(point).kind === 'new')
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  const newAllowance =
+    limits.newPointsPerDay === null
+      ? null
+      : Math.max(limits.newPointsPerDay - countPointsIntroducedToday(setPoints, now), 0);
+  const allowedNewPoints = newAllowance === null ? newPoints : newPoints.slice(0, newAllowance);
+
+  // Step 2: Cap - reviews first, new points take the slots left over
+  const maxPoints = limits.maxPoints ?? Infinity;
+  const sessionReviews = reviewPoints.slice(0, maxPoints);
+  const sessionNewPoints = allowedNewPoints.slice(0, maxPoints - sessionReviews.length);
+
+  // Step 3: Interleave
+  const points = interleave(sessionReviews, sessionNewPoints);
+
+  const deferredCount = reviewPoints.length + allowedNewPoints.length - points.length;
+
+  return {
+    points,
+    summary: {
+      maxPoints: limits.maxPoints,
+      newPointsPerDay: limits.newPointsPerDay,
+      newAllowance,
+      reviewCount: sessionReviews.length,
+      newCount: sessionNewPoints.length,
+      deferredCount,
+      newHeldBackCount: newPoints.length - allowedNewPoints.length,
+      followUpSessions: limits.maxPoints === null ? 0 : Math.ceil(deferredCount / limits.maxPoints),
+      order: points.map(plannedFor),
+    },
+  };
+}
+
+/**
+ * Plans a practice session over all points of a recall set. Due dates and
+ * the daily new point limit are ignored; the least retrievable points come
+ * first, up to the set's session size cap.
+ *
+ * @param setPoints - All points of the recall set
+ * @param recallSet - The recall set, for its session size cap
+ * @param defaults - Engine configuration supplying the cap for sets without their own
+ * @param now - The current time
+ * @param scheduler - Scheduler used to predict retrievability
+ * @returns The planned points and a summary of the choices
+ */
+export function planPracticeSession(
+  setPoints: RecallPoint[],
+  recallSet: Pick<RecallSet, 'maxPointsPerSession' | 'newPointsPerDay'>,
+  defaults: Pick<SessionEngineConfig, 'maxPointsPerSession' | 'newPointsPerDay'> = DEFAULT_SESSION_CONFIG,
+  now: Date = new Date(),
+  scheduler: Pick<FSRSScheduler, 'getRetrievability'> = defaultScheduler
+): SessionPlan {
+  const { maxPoints } = resolveSessionLimits(recallSet, defaults);
+  return planSession(setPoints, [], { maxPoints, newPointsPerDay: null }, now, scheduler);
+}
+
+/**
+ * The points of one recall set that a daily review can draw on.
+ */
+export interface DailyReviewSource {
+  /** The recall set, for its new point limit */
+  recallSet: Pick<RecallSet, 'id' | 'maxPointsPerSession' | 'newPointsPerDay'>;
+  /** The set's due points */
+  duePoints: RecallPoint[];
+  /** All points of the set, to count today's new points */
+  setPoints: RecallPoint[];
+}
+
+/**
+ * Plans a daily review session across several recall sets.
+ *
+ * Each set's new point limit applies to its own points; the session size
+ * cap applies to the session as a whole, since no single set owns it.
+ *
+ * @param sources - The due points of each active recall set
+ * @param defaults - Engine configuration supplying the session size cap and
+ *                   the new point limit for sets without their own
+ * @param now - The current time
+ * @param scheduler - Scheduler used to predict retrievability
+ * @returns The planned points and a summary of the choices
+ */
+export function planDailyReview(
+  sources: DailyReviewSource[],
+  defaults: Pick<SessionEngineConfig, 'maxPointsPerSession' | 'newPointsPerDay'> = DEFAULT_SESSION_CONFIG,
+  now: Date = new Date(),
+  scheduler: Pick<FSRSScheduler, 'getRetrievability'> = defaultScheduler
+): SessionPlan {
+  const eligible: RecallPoint[] = [];
+  let newHeldBackCount = 0;
+
+  for (const { recallSet, duePoints, setPoints } of sources) {
+    const { newPointsPerDay } = resolveSessionLimits(recallSet, defaults);
+    const setPlan = planSession(duePoints, setPoints, { maxPoints: null, newPointsPerDay }, now, scheduler);
+    eligible.push(...setPlan.points);
+    newHeldBackCount += setPlan.summary.newHeldBackCount;
+  }
+
+  const plan = planSession(
+    eligible,
+    [],
+    { maxPoints: defaults.maxPointsPerSession, newPointsPerDay: null },
+    now,
+    scheduler
+  );
+  return { ...plan, summary: { ...plan.summary, newHeldBackCount } };
+}
@@ -14,8 +14,9 @@
  *    services required by the SessionEngine.
  */
 
-import type { AnthropicClient } from '../../llm/client';
+import type { LLMProvider } from '../../llm/types';
 import type { FSRSScheduler } from '../fsrs/scheduler';
+import type { RecallRating } from '../fsrs/types';
 import type { RecallEvaluator } from '../scoring/recall-evaluator';
 import type {
   RecallPointRepository,
@@ -25,9 +26,13 @@ import type {
   SessionMetricsRepository,
   RecallOutcomeRepository,
   RabbitholeEventRepository,
+  FSRSParametersRepository,
+  SessionAnnotationRepository,
 } from '../../storage/repositories';
 import type { SessionMetricsCollector } from './metrics-collector';
 import type { RabbitholeDetector } from '../analysis/rabbithole-detector';
+import type { TangentFollowUpService } from '../analysis/tangent-follow-up';
+import type { PromptExperiment } from '../experiments/prompt-experiment';
 
 /**
  * Types of events that can occur during a session.
@@ -41,21 +46,31 @@ import type { RabbitholeDetector } from '../analysis/rabbithole-detector';
  * 3. assistant_message - AI asks initial question
  * 4. user_message - User responds
  * 5. assistant_message - AI follows up
- * 6. ... (conversation continues)
+ * 6. ... (conversation continues; hint_given when the learner takes a hint,
+ *    tangent_opened and tangent_closed around a tangent they explore)
  * 7. point_evaluated - User's recall is assessed
  * 8. point_completed - FSRS state updated, ready for next point
  * 9. point_started - Begin next point (if any)
  * 10. ... (repeat for each point)
  * 11. session_completed - All points reviewed
+ * 12. tangents_proposed - Finished rabbitholes proposed as recall points (if any)
  */
 export type SessionEventType =
   | 'session_started'      // Session initialized with target recall points
   | 'point_started'        // Started discussing a new recall point
   | 'user_message'         // User sent a message
   | 'assistant_message'    // AI tutor responded
+  | 'hint_given'           // Tutor gave the next hint on the hint ladder
+  | 'message_retracted'    // Learner took back their last message
+  | 'note_added'           // Learner noted something on the current point
+  | 'tangent_opened'       // Learner started exploring a tangent
+  | 'tangent_closed'       // Learner returned from the tangent to the point
   | 'point_evaluated'      // Recall evaluation completed for current point
+  | 'point_revealed'       // Learner gave up and had the point shown
+  | 'point_skipped'        // Learner skipped (or deferred) the point unrated
   | 'point_completed'      // FSRS state updated, moving to next point
-  | 'session_completed';   // All target points reviewed
+  | 'session_completed'    // All target points reviewed
+  | 'tangents_proposed';   // Finished rabbitholes proposed as recall points
 
 /**
  * Represents an event that occurred during a session.
@@ -139,6 +154,40 @@ export interface SessionEngineConfig {
    * Default: 512
    */
   tutorMaxTokens: number;
+
+  /**
+   * Most recall points a session covers, for recall sets without their
+   * own maxPointsPerSession. Null means no limit.
+   *
+   * Default: 20 (further due points wait for follow-up sessions)
+   */
+  maxPointsPerSession: number | null;
+
+  /**
+   * Most never-reviewed points introduced per day, for recall sets
+   * without their own newPointsPerDay. Null means no limit.
+   *
+   * Default: null (every due new point)
+   */
+  newPointsPerDay: number | null;
+
+  /**
+   * Rungs on the hint ladder: how many hints a learner can take on one
+   * recall point, each revealing more of its context. 0 disables hints.
+   *
+   * Default: 3
+   */
+  maxHintsPerPoint: number;
+
+  /**
+   * Whether phrases like "got it" or "move on" in a learner's message
+   * trigger evaluation (see EVALUATION_TRIGGER_PHRASES). Off by default, as
+   * they also turn up in ordinary sentences; learners evaluate explicitly
+   * (/eval, or "I've got it!" in the web app) instead.
+   *
+   * Default: false
+   */
+  evaluateOnTriggerPhrases: boolean;
 }
 
 /**
@@ -152,8 +201,18 @@ export const DEFAULT_SESSION_CONFIG: SessionEngineConfig = {
   autoEvaluateAfter: 6,
   tutorTemperature: 0.7,
   tutorMaxTokens: 512,
+  maxPointsPerSession: 20,
+  newPointsPerDay: null,
+  maxHintsPerPoint: 3,
+  evaluateOnTriggerPhrases: false,
 };
 
+/**
+ * Name shown in place of a recall set name for daily review sessions,
+ * which draw on every active recall set.
+ */
+export const DAILY_REVIEW_NAME = 'Daily review';
+
 /**
  * Dependencies required by SessionEngine.
  *
@@ -191,8 +250,8 @@ export interface SessionEngineDependencies {
   /** Evaluator for assessing recall success from conversations */
   evaluator: RecallEvaluator;
 
-  /** LLM client for generating tutor responses */
-  llmClient: AnthropicClient;
+  /** LLM provider for generating tutor responses (live or scripted) */
+  llmClient: LLMProvider;
 
   /** Repository for RecallSet data access */
   recallSetRepo: RecallSetRepository;
@@ -246,6 +305,34 @@ export interface SessionEngineDependencies {
    * @since Phase 2
    */
   rabbitholeRepo?: RabbitholeEventRepository;
+
+  /**
+   * Repository of FSRS weights fitted to review history.
+   * When provided, each point is scheduled with its recall set's fitted
+   * weights (or its owner's); otherwise the scheduler's weights are used.
+   */
+  fsrsParametersRepo?: FSRSParametersRepository;
+
+  /**
+   * Prompt A/B experiment to run. When provided, each new session is
+   * randomly assigned one of its variants' prompt versions; otherwise new
+   * sessions use the default versions.
+   */
+  promptExperiment?: PromptExperiment;
+
+  /**
+   * Repository for session annotations. When provided, learners can note
+   * things during a session (addNote); notes are kept as annotations and
+   * appear in the session replay.
+   */
+  annotationRepo?: SessionAnnotationRepository;
+
+  /**
+   * Follow-up for the session's rabbitholes. When provided, each finished
+   * rabbithole is summarized into a candidate recall point once the session
+   * completes, for the learner to review in the session replay.
+   */
+  tangentFollowUp?: TangentFollowUpService;
 }
 
 /**
@@ -271,12 +358,120 @@ export interface ProcessMessageResult {
 
   /** Total number of recall points in the session */
   totalPoints: number;
+
+  /**
+   * Set when the response is a hint, given because the learner said they
+   * didn't know the answer.
+   */
+  hint?: HintResult;
 }
 
+/**
+ * A learner message taken back with SessionEngine.undoLastMessage().
+ */
+export interface UndoResult {
+  /** The retracted learner message */
+  content: string;
+
+  /** Messages removed from the transcript: the learner's and the tutor's replies to it */
+  messagesRemoved: number;
+}
+
+/**
+ * A hint the tutor gave on the current recall point.
+ */
+export interface HintResult {
+  /** ID of the recall point the hint is about */
+  pointId: string;
+
+  /** The tutor's hint */
+  hint: string;
+
+  /** Rung of the hint ladder (1-based); also the hints taken on the point so far */
+  level: number;
+
+  /** Hints still available on the point */
+  hintsRemaining: number;
+}
+
+/**
+ * A tangent the learner opened or returned from with
+ * SessionEngine.exploreTangent() and SessionEngine.returnFromTangent().
+ */
+export interface TangentResult {
+  /** ID of the rabbithole event recorded for the tangent */
+  rabbitholeId: string;
+
+  /** What the learner is exploring */
+  topic: string;
+
+  /** The tutor's reply: the start of the exploration, or the recap on return */
+  response: string;
+}
+
+/**
+ * The rating the engine is about to schedule a recall point with, offered
+ * to the learner before the point is scheduled.
+ */
+export interface RatingProposal {
+  /** ID of the evaluated recall point */
+  pointId: string;
+
+  /** Whether the evaluator judged the recall successful */
+  success: boolean;
+
+  /** The evaluator's confidence in that judgment (0.0 to 1.0) */
+  confidence: number;
+
+  /** The evaluator's explanation */
+  reasoning: string;
+
+  /** Hints the learner took on the point before the evaluation */
+  hintsUsed: number;
+
+  /** The rating derived from the evaluation, capped for the hints taken */
+  rating: RecallRating;
+}
+
+/**
+ * Lets the learner replace the proposed rating. Resolves to the learner's
+ * rating, or to null to keep the proposed one.
+ *
+ * The engine waits for the handler before scheduling the point, so
+ * handlers that wait on the learner should give up after a while.
+ */
+export type RatingOverrideHandler = (proposal: RatingProposal) => Promise<RecallRating | null>;
+
+/**
+ * Phrases that indicate the learner can't recall the point.
+ *
+ * These are checked (case-insensitive) before the evaluation triggers, and
+ * only match a message that is nothing but the phrase, give or take the
+ * punctuation around it: "I don't know exactly, but it's 36 ATP" is an
+ * answer. A matching message gets the next hint instead of a follow-up
+ * question; once the hints are used up, the point is evaluated.
+ */
+export const DONT_KNOW_PHRASES = [
+  "i don't know",
+  'i dont know',
+  'idk',
+  'no idea',
+  'i have no idea',
+  'no clue',
+  "i don't remember",
+  'i dont remember',
+  "i can't remember",
+  'i cant remember',
+  "i've forgotten",
+  "i'm stuck",
+  'im stuck',
+];
+
 /**
  * Phrases that might indicate the user is ready to move on.
  *
- * These are checked (case-insensitive) to trigger evaluation.
+ * When evaluateOnTriggerPhrases is on, these are checked (case-insensitive,
+ * as whole words) to trigger evaluation.
  * The evaluation may still determine the user hasn't fully
  * demonstrated recall, in which case discussion continues.
  */
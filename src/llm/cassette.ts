@@ -0,0 +1,183 @@
+/**
+ * LLM Cassettes
+ *
+ * A cassette is a JSON file holding every request/response pair exchanged
+ * with an LLM during a run (typically one recall session). Cassettes are
+ * written by RecordingLLMProvider and played back by ReplayLLMProvider, which
+ * lets a real past session be re-run against changed code without paying for
+ * tokens again.
+ *
+ * Requests are identified by a prompt hash: a SHA-256 digest of the system
+ * prompt plus the normalized message array. Identical requests produce
+ * identical hashes, so a replay can tell exactly which calls still match the
+ * recording and which ones changed.
+ *
+ * File format:
+ * ```json
+ * {
+ *   "version": 1,
+ *   "createdAt": "2025-01-01T12:00:00.000Z",
+ *   "entries": [
+ *     {
+ *       "promptHash": "3f7a...",
+ *       "systemPrompt": "You are a Socratic tutor...",
+ *       "messages": [{ "role": "user", "content": "Begin the recall discussion..." }],
+ *       "mode": "complete",
+ *       "output": "Let's start with...",
+ *       "usage": { "inputTokens": 812, "outputTokens": 41 },
+ *       "stopReason": "end_turn",
+ *       "recordedAt": "2025-01-01T12:00:01.000Z"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { LLMMessage, LLMResponse } from './types';
+import { LLMError } from './types';
+
+/**
+ * Current cassette file format version.
+ * Bump this if the entry shape changes incompatibly.
+ */
+export const CASSETTE_VERSION = 1;
+
+/**
+ * A single recorded request/response pair.
+ */
+export interface CassetteEntry {
+  /** SHA-256 hash of the system prompt and messages (see hashPrompt) */
+  promptHash: string;
+  /** The system prompt active when the request was made */
+  systemPrompt: string | null;
+  /** The messages sent, normalized to a message array */
+  messages: LLMMessage[];
+  /** Whether the request was made via complete() or stream() */
+  mode: 'complete' | 'stream';
+  /** The full response text */
+  output: string;
+  /** Token usage reported by the provider (null for streams or if unavailable) */
+  usage: LLMResponse['usage'];
+  /** The reason the model stopped generating */
+  stopReason: LLMResponse['stopReason'];
+  /** ISO timestamp of when the response was recorded */
+  recordedAt: string;
+}
+
+/**
+ * The contents of a cassette file.
+ */
+export interface Cassette {
+  /** Cassette format version */
+  version: number;
+  /** ISO timestamp of when recording started */
+  createdAt: string;
+  /** Recorded request/response pairs in call order */
+  entries: CassetteEntry[];
+}
+
+/**
+ * Normalizes request input to a message array, mirroring AnthropicClient.
+ *
+ * @param messages - Either a single user message string or an array of messages
+ * @returns The messages as an array
+ */
+export function normalizeMessages(messages: string | LLMMessage[]): LLMMessage[] {
+  if (typeof messages === 'string') {
+    return [{ role: 'user', content: messages }];
+  }
+  return messages;
+}
+
+/**
+ * Computes the prompt hash that identifies a request in a cassette.
+ *
+ * Only the system prompt and message roles/content contribute to the hash;
+ * per-request config (temperature, max tokens) does not.
+ *
+ * @param messages - The normalized request messages
+ * @param systemPrompt - The system prompt active for the request
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashPrompt(messages: LLMMessage[], systemPrompt: string | undefined): string {
+  const canonical = JSON.stringify({
+    system: systemPrompt ?? null,
+    messages: messages.map((m) => ({ role: m.role, content: m.content })),
+  });
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Creates an empty cassette.
+ *
+ * @returns A new cassette with no entries
+ */
+export function createCassette(): Cassette {
+  return {
+    version: CASSETTE_VERSION,
+    createdAt: new Date().toISOString(),
+    entries: [],
+  };
+}
+
+/**
+ * Reads and validates a cassette file.
+ *
+ * @param path - Path to the cassette JSON file
+ * @returns The parsed cassette
+ * @throws LLMError if the file cannot be read, is not valid JSON,
+ *         or has an unsupported version
+ */
+export function loadCassette(path: string): Cassette {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new LLMError(
+      `Could not read LLM cassette file: ${path}`,
+      'invalid_request',
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  let parsed: Cassette;
+  try {
+    parsed = JSON.parse(raw) as Cassette;
+  } catch (error) {
+    throw new LLMError(
+      `LLM cassette file is not valid JSON: ${path}`,
+      'invalid_request',
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  if (!parsed || !Array.isArray(parsed.entries)) {
+    throw new LLMError(
+      `Invalid LLM cassette: expected an object with an "entries" array (${path})`,
+      'invalid_request'
+    );
+  }
+
+  if (parsed.version !== CASSETTE_VERSION) {
+    throw new LLMError(
+      `Unsupported LLM cassette version ${parsed.version} (expected ${CASSETTE_VERSION}): ${path}`,
+      'invalid_request'
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Writes a cassette to disk, creating parent directories as needed.
+ *
+ * @param path - Destination file path
+ * @param cassette - The cassette to write
+ */
+export function saveCassette(path: string, cassette: Cassette): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+}
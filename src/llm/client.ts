@@ -27,8 +27,15 @@ import Anthropic, {
   InternalServerError,
 } from '@anthropic-ai/sdk';
 import type { MessageParam } from '@anthropic-ai/sdk/resources/messages/messages';
-import type { LLMMessage, LLMConfig, StreamCallbacks, LLMResponse } from './types';
+import type {
+  LLMMessage,
+  LLMConfig,
+  StreamCallbacks,
+  LLMResponse,
+  LLMProvider,
+} from './types';
 import { getAnthropicApiKey } from '../config';
+import { estimateTokens, estimateConversationTokens } from './token-estimation';
 import { LLMError, type LLMErrorType } from './types';
 
 // Default model to use for all requests (Claude Sonnet 4.5)
@@ -44,8 +51,11 @@ const DEFAULT_TEMPERATURE = 0.7;
  * Wrapper class for the Anthropic API client.
  * Provides a simplified interface for making LLM calls with
  * proper error handling and streaming support.
+ *
+ * This is the live implementation of LLMProvider; see ScriptedLLMProvider
+ * for the offline equivalent.
  */
-export class AnthropicClient {
+export class AnthropicClient implements LLMProvider {
   /** The underlying Anthropic SDK client */
   private client: Anthropic;
 
@@ -284,10 +294,7 @@ export class AnthropicClient {
    * ```
    */
   estimateTokens(text: string): number {
-    // Claude models use roughly 4 characters per token for English text
-    // This is a rough approximation - actual tokenization varies
-    const CHARS_PER_TOKEN = 4;
-    return Math.ceil(text.length / CHARS_PER_TOKEN);
+    return estimateTokens(text);
   }
 
   /**
@@ -302,20 +309,7 @@ export class AnthropicClient {
     messages: LLMMessage[],
     systemPrompt?: string
   ): number {
-    let total = 0;
-
-    // Add tokens for system prompt if present
-    if (systemPrompt) {
-      total += this.estimateTokens(systemPrompt);
-    }
-
-    // Add tokens for each message (content + small overhead for role/structure)
-    const MESSAGE_OVERHEAD = 4; // Approximate overhead per message
-    for (const message of messages) {
-      total += this.estimateTokens(message.content) + MESSAGE_OVERHEAD;
-    }
-
-    return total;
+    return estimateConversationTokens(messages, systemPrompt);
   }
 
   /**
@@ -3,7 +3,11 @@
  *
  * This module provides an abstraction layer over the Anthropic SDK for
  * making LLM API calls. It includes:
+ * - LLMProvider: Provider-agnostic interface implemented by every backend
  * - AnthropicClient: Main client class for making API calls
+ * - ScriptedLLMProvider: Offline provider that plays back canned responses
+ * - RecordingLLMProvider / ReplayLLMProvider: Record-and-replay cassettes
+ * - createLLMProvider: Factory that builds the configured provider
  * - Type definitions for messages, configs, and responses
  * - Custom error types for better error handling
  * - Prompt builders for Socratic tutoring and recall evaluation
@@ -41,6 +45,36 @@
 // Re-export the main client class
 export { AnthropicClient } from './client';
 
+// Re-export the offline scripted provider and its script types
+export {
+  ScriptedLLMProvider,
+  type LLMScript,
+  type ScriptedResponse,
+  type ScriptedResponseMatch,
+  type ScriptedCall,
+} from './scripted-provider';
+
+// Re-export cassette recording and replay
+export { RecordingLLMProvider } from './recording-provider';
+export {
+  ReplayLLMProvider,
+  type ReplayOptions,
+  type ReplayMismatch,
+} from './replay-provider';
+export {
+  loadCassette,
+  saveCassette,
+  hashPrompt,
+  type Cassette,
+  type CassetteEntry,
+} from './cassette';
+
+// Re-export the provider factory
+export { createLLMProvider, type CreateLLMProviderOptions } from './provider-factory';
+
+// Re-export shared token estimation helpers
+export { estimateTokens, estimateConversationTokens } from './token-estimation';
+
 // Re-export all types for external use
 export type {
   LLMMessage,
@@ -48,6 +82,8 @@ export type {
   StreamCallbacks,
   LLMResponse,
   LLMErrorType,
+  LLMProvider,
+  LLMProviderType,
 } from './types';
 
 // Re-export the error class (needs to be a value export, not just type)
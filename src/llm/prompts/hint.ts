@@ -0,0 +1,123 @@
+/**
+ * Hint Prompt Builder
+ *
+ * This module constructs the instruction the tutor answers when a learner
+ * is stuck on a recall point and asks for a hint (or says they don't know).
+ * Hints form a ladder: each rung reveals more of the point's supporting
+ * context than the one before.
+ *
+ * Key design decisions:
+ *
+ * 1. **The prompt decides what may be revealed**: The tutor's system prompt
+ *    already holds the whole recall point with the instruction not to share
+ *    it. The hint prompt quotes the part of the context this rung may
+ *    reveal, so how much is given away doesn't depend on the model's
+ *    judgment.
+ *
+ * 2. **Graduated excerpts**: The first rung quotes nothing and only points
+ *    the learner in the right direction; later rungs quote a growing share
+ *    of the context's sentences, and the last rung quotes all of it.
+ *
+ * 3. **Back to the learner**: Every hint ends by inviting the learner to try
+ *    again, so the point is still recalled rather than read out.
+ */
+
+import type { RecallPoint } from '../../core/models';
+
+/**
+ * Parameters required to build a hint prompt.
+ */
+export interface HintPromptParams {
+  /** The recall point the learner is stuck on */
+  point: RecallPoint;
+
+  /** The rung of the ladder to build (1-based) */
+  level: number;
+
+  /** Number of rungs on the ladder */
+  totalLevels: number;
+}
+
+/**
+ * Returns the part of a point's context a rung of the hint ladder may
+ * reveal: nothing on the first rung, all of it on the last, and a growing
+ * number of leading sentences in between.
+ *
+ * @param context - The recall point's supporting context
+ * @param level - The rung (1-based)
+ * @param totalLevels - Number of rungs on the ladder
+ * @returns The excerpt to reveal (empty on the first rung)
+ *
+ * @example
+ * ```typescript
+ * const context = 'Ended WWI. Germany accepted responsibility. Led to hardship.';
+ * hintContextExcerpt(context, 1, 3); // ''
+ * hintContextExcerpt(context, 2, 3); // 'Ended WWI. Germany accepted responsibility.'
+ * hintContextExcerpt(context, 3, 3); // the whole context
+ * ```
+ */
+export function hintContextExcerpt(context: string, level: number, totalLevels: number): string {
+  const sentences = context
+    .trim()
+    .split(/(?<=[.!?])\s+/)
+    .filter((sentence) => sentence.length > 0);
+
+  if (totalLevels <= 1 || level >= totalLevels) {
+    return sentences.join(' ');
+  }
+
+  const share = (level - 1) / (totalLevels - 1);
+  return sentences.slice(0, Math.ceil(sentences.length * share)).join(' ');
+}
+
+/**
+ * Builds the instruction for one rung of the hint ladder. It is sent as the
+ * final user turn after the conversation so far, with the tutor's system
+ * prompt still in place.
+ *
+ * @param params - The point, the rung to build and the ladder's length
+ * @returns The hint instruction for the LLM
+ *
+ * @example
+ * ```typescript
+ * const prompt = buildHintPrompt({ point, level: 2, totalLevels: 3 });
+ * const response = await client.complete([...history, { role: 'user', content: prompt }]);
+ * ```
+ */
+export function buildHintPrompt(params: HintPromptParams): string {
+  const { point, level, totalLevels } = params;
+  const excerpt = hintContextExcerpt(point.context, level, totalLevels);
+
+  const header = `The learner is stuck on the current recall point and needs a hint. This is hint ${level} of ${totalLevels}.`;
+
+  let guidance: string;
+  if (!excerpt) {
+    guidance = `Point the learner in the right direction without revealing any of the recall target or its context: name the area the answer lies in, or ask a narrower question that makes it easier to retrieve.`;
+  } else if (level < totalLevels) {
+    guidance = `You may now reveal the following part of the supporting context, and nothing more of it. Work it into a cue that leaves the learner to recall the rest themselves.
+
+<hint_material>
+${escapeHintContent(excerpt)}
+</hint_material>`;
+  } else {
+    guidance = `This is the last hint. Reveal the supporting context below plainly, without stating the recall target itself, so the learner can reconstruct it.
+
+<hint_material>
+${escapeHintContent(excerpt)}
+</hint_material>`;
+  }
+
+  return `${header}
+
+${guidance}
+
+Keep the hint to two or three sentences, then ask the learner to try recalling the point again. Reply with the hint only.`;
+}
+
+/**
+ * Escapes closing delimiter tags in point content so it can't end the
+ * hint material section early.
+ */
+function escapeHintContent(content: string): string {
+  return content.replace(/<\/hint_material>/gi, '&lt;/hint_material&gt;');
+}
@@ -11,6 +11,23 @@
  * 2. **Recall Evaluation**: Automated assessment of whether a learner has
  *    successfully demonstrated recall of target information.
  *
+ * 3. **Ingestion**: Extracting candidate recall points from source material
+ *    and generating discussion prompts for new recall sets.
+ * 4. **Hints**: Graduated hints for a learner stuck on a recall point, each
+ *    revealing more of the point's context.
+ *
+ * 5. **Tangent Summaries**: Turning a session's finished rabbitholes into
+ *    candidate recall points for the learner to review.
+ *
+ * 6. **Tangent Exploration**: Following a tangent the learner chose to
+ *    explore, and recapping it when they return to the review.
+ *
+ * 7. **Leech Remediation**: Splitting a recall point the learner keeps
+ *    forgetting into smaller ones, and guiding deep-dive sessions on it.
+ *
+ * The tutor, evaluator and rabbithole prompts are versioned through the
+ * prompt registry, which sessions use to look up the versions they record.
+ *
  * @example
  * ```typescript
  * import {
@@ -37,6 +54,7 @@
 // Socratic tutor prompt builder and types
 export {
   buildSocraticTutorPrompt,
+  buildConciseSocraticTutorPrompt,
   type SocraticTutorPromptParams,
 } from './socratic-tutor';
 
@@ -50,6 +68,7 @@ export {
   // Enhanced evaluation exports (Phase 2+)
   buildEnhancedRecallEvaluatorPrompt,
   parseEnhancedRecallEvaluationResponse,
+  ENHANCED_RECALL_EVALUATOR_VERSION,
   deriveRatingFromConfidence,
   type EnhancedRecallEvaluationResult,
   type EnhancedEvaluationContext,
@@ -65,3 +84,60 @@ export {
   type RabbitholeDetectorParams,
   type RabbitholeReturnResult,
 } from './rabbithole-detector';
+
+// Ingestion prompt builders, types, and utilities
+export {
+  buildRecallPointExtractionPrompt,
+  buildDiscussionPromptGenerationPrompt,
+  parseRecallPointExtractionResponse,
+  MAX_EXTRACTION_SOURCE_CHARS,
+  type RecallPointExtractionParams,
+  type RecallPointExtractionResult,
+  type ExtractedRecallPoint,
+  type DiscussionPromptGenerationParams,
+} from './ingestion';
+
+// Hint ladder prompt builder
+export { buildHintPrompt, hintContextExcerpt, type HintPromptParams } from './hint';
+
+// Tangent summary prompt builder and parser
+export {
+  buildTangentSummaryPrompt,
+  parseTangentSummaryResponse,
+  type TangentSummaryPromptParams,
+  type TangentSummary,
+} from './tangent-summary';
+
+// Tangent exploration prompt builders
+export {
+  buildTangentExplorationPrompt,
+  buildTangentOpeningPrompt,
+  buildTangentRecapPrompt,
+  type TangentExplorationPromptParams,
+} from './tangent-exploration';
+
+// Leech remediation prompt builders and parser
+export {
+  buildLeechSplitPrompt,
+  parseLeechSplitResponse,
+  buildDeepDiveGuidance,
+  MAX_LEECH_SPLIT_PARTS,
+  type LeechSplitPromptParams,
+  type LeechSplitPart,
+} from './leech-remediation';
+
+// Prompt registry: named versions of the tutor, evaluator and rabbithole prompts
+export {
+  getTutorPrompt,
+  getEvaluatorPrompt,
+  getRabbitholePrompts,
+  listPromptVersions,
+  resolvePromptVersions,
+  DEFAULT_PROMPT_VERSIONS,
+  PromptRegistryError,
+  type PromptKind,
+  type PromptRegistryErrorType,
+  type TutorPromptVersion,
+  type EvaluatorPromptVersion,
+  type RabbitholePromptVersion,
+} from './registry';
@@ -0,0 +1,329 @@
+/**
+ * Ingestion Prompt Builders
+ *
+ * This module constructs the prompts used to turn raw source material into a
+ * draft recall set:
+ *
+ * 1. **Recall point extraction**: Asks the LLM to read pasted text or a
+ *    markdown/plain-text file and propose candidate recall points (content +
+ *    tutor context), plus a suggested name and description for the set.
+ *
+ * 2. **Discussion prompt generation**: Once the user has reviewed the
+ *    candidates, asks the LLM to write the RecallSet's discussionSystemPrompt
+ *    (the persona and teaching style for Socratic sessions).
+ *
+ * Like the other prompt modules, responses are parsed defensively because LLM
+ * output formats vary (code fences, preamble text, missing fields).
+ */
+
+/**
+ * Maximum number of source characters included in the extraction prompt.
+ * Longer sources are truncated at a sentence boundary to keep token usage bounded.
+ */
+export const MAX_EXTRACTION_SOURCE_CHARS = 15000;
+
+/**
+ * Default number of candidate recall points requested from the LLM.
+ */
+const DEFAULT_TARGET_COUNT = 10;
+
+/**
+ * Parameters for building the recall point extraction prompt.
+ */
+export interface RecallPointExtractionParams {
+  /** The full text of the source material */
+  content: string;
+
+  /** Optional title or file name for the source */
+  title?: string | null;
+
+  /** How many candidates to ask for (defaults to 10) */
+  targetCount?: number;
+}
+
+/**
+ * A single candidate recall point as returned by the LLM.
+ */
+export interface ExtractedRecallPoint {
+  /** The fact or concept to be recalled */
+  content: string;
+  /** Background for the tutor */
+  context: string;
+  /** Supporting excerpt from the source, or null */
+  sourceQuote: string | null;
+}
+
+/**
+ * Parsed result of a recall point extraction response.
+ */
+export interface RecallPointExtractionResult {
+  /** Suggested recall set name, or null if none was given */
+  suggestedName: string | null;
+  /** Suggested recall set description, or null if none was given */
+  suggestedDescription: string | null;
+  /** Extracted candidates (empty if parsing failed) */
+  points: ExtractedRecallPoint[];
+}
+
+/**
+ * Parameters for building the discussion prompt generation prompt.
+ */
+export interface DiscussionPromptGenerationParams {
+  /** Name of the recall set being created */
+  name: string;
+  /** Description of the recall set */
+  description: string;
+  /** The approved recall points */
+  points: Array<{ content: string; context: string }>;
+}
+
+/**
+ * Builds the prompt that extracts candidate recall points from source material.
+ *
+ * @param params - The source content, optional title, and target count
+ * @returns A complete prompt string for the LLM
+ *
+ * @example
+ * ```typescript
+ * const prompt = buildRecallPointExtractionPrompt({
+ *   content: markdown,
+ *   title: 'atp-synthesis.md',
+ * });
+ * const response = await client.complete(prompt);
+ * const result = parseRecallPointExtractionResponse(response.text);
+ * ```
+ */
+export function buildRecallPointExtractionPrompt(params: RecallPointExtractionParams): string {
+  const { content, title, targetCount = DEFAULT_TARGET_COUNT } = params;
+
+  const safeContent = sanitizeInput(
+    truncateAtSentenceBoundary(content, MAX_EXTRACTION_SOURCE_CHARS)
+  );
+  const wasTruncated = content.length > MAX_EXTRACTION_SOURCE_CHARS;
+  const titleLine = title ? `Title: ${sanitizeInput(title)}\n` : '';
+  const truncationNote = wasTruncated
+    ? `\n[Source truncated to the first ${MAX_EXTRACTION_SOURCE_CHARS} characters]\n`
+    : '';
+
+  return `You are an expert at distilling learning material into recall points for a conversational spaced repetition system.
+
+## Source Material
+
+${titleLine}<source_material>
+${safeContent || '[No content provided]'}
+</source_material>
+${truncationNote}
+## Your Task
+
+Identify up to ${targetCount} recall points that a learner should be able to recall and explain from this material.
+
+Each recall point has two parts:
+- **content**: The fact, principle, or idea to be recalled, stated in 1-3 sentences. It must be self-contained and specific enough that a tutor can judge whether the learner recalled it.
+- **context**: 1-3 sentences of background for the tutor: why it matters, how it connects to other points, and angles for Socratic questioning. The learner never sees this directly.
+
+Focus on:
+- Fundamental principles, mechanisms, and mental models
+- Key facts that enable deeper understanding
+- Counter-intuitive or surprising findings
+
+Avoid:
+- Trivial or obvious statements
+- Near-duplicate points
+- Details that do not generalize beyond the example they appear in
+
+Also suggest a short name (under 60 characters) and a one-sentence description for the resulting recall set.
+
+## Response Format
+
+You MUST respond with ONLY a valid JSON object in this exact format:
+
+\`\`\`json
+{
+  "suggestedName": "string",
+  "suggestedDescription": "string",
+  "points": [
+    {
+      "content": "string",
+      "context": "string",
+      "sourceQuote": "string | null"
+    }
+  ]
+}
+\`\`\`
+
+Where \`sourceQuote\` is a short verbatim excerpt from the source supporting the point, or null.
+
+**Important:** Return ONLY the JSON object. Do not include any other text, explanations, or markdown formatting outside the JSON.`;
+}
+
+/**
+ * Builds the prompt that writes a discussion system prompt for a new recall set.
+ *
+ * @param params - The recall set name, description, and approved points
+ * @returns A complete prompt string for the LLM
+ */
+export function buildDiscussionPromptGenerationPrompt(
+  params: DiscussionPromptGenerationParams
+): string {
+  const formattedPoints = params.points
+    .map((point, idx) => `${idx + 1}. ${sanitizeInput(point.content)}`)
+    .join('\n');
+
+  return `You are writing the persona and teaching-style instructions for an AI tutor that runs Socratic recall discussions.
+
+## Recall Set
+
+Name: ${sanitizeInput(params.name)}
+Description: ${sanitizeInput(params.description)}
+
+Recall points the learner will be asked to recall:
+${formattedPoints || '[No points provided]'}
+
+## Your Task
+
+Write a concise system prompt (2-4 sentences) addressed to the tutor, in the form "You are ...". It should:
+- Establish a persona with relevant domain expertise for this subject
+- Describe how to guide the learner toward recalling the material through questions rather than lectures
+- Suggest the kinds of examples, analogies, or real-world connections suited to this subject
+
+Do not list the recall points themselves; they are provided to the tutor separately.
+
+**Important:** Respond with ONLY the system prompt text. Do not wrap it in JSON, quotes, or markdown.`;
+}
+
+/**
+ * Parses the LLM response to a recall point extraction prompt.
+ *
+ * Handles code-fenced JSON, surrounding text, a bare array of points, and
+ * missing fields. Points without content are dropped; missing context
+ * becomes an empty string.
+ *
+ * @param response - The raw LLM response text
+ * @returns Parsed extraction result (with no points if parsing fails)
+ */
+export function parseRecallPointExtractionResponse(
+  response: string
+): RecallPointExtractionResult {
+  const empty: RecallPointExtractionResult = {
+    suggestedName: null,
+    suggestedDescription: null,
+    points: [],
+  };
+
+  if (!response || typeof response !== 'string') {
+    return empty;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonFromResponse(response));
+  } catch {
+    return empty;
+  }
+
+  // Accept a bare array of points as well as the documented object shape
+  const root = Array.isArray(parsed) ? { points: parsed } : parsed;
+  if (!root || typeof root !== 'object') {
+    return empty;
+  }
+
+  const obj = root as Record<string, unknown>;
+  const rawPoints = Array.isArray(obj.points) ? obj.points : [];
+
+  const points: ExtractedRecallPoint[] = [];
+  for (const raw of rawPoints) {
+    if (!raw || typeof raw !== 'object') {
+      continue;
+    }
+    const point = raw as Record<string, unknown>;
+    const content = typeof point.content === 'string' ? point.content.trim() : '';
+    if (!content) {
+      continue;
+    }
+    points.push({
+      content,
+      context: typeof point.context === 'string' ? point.context.trim() : '',
+      sourceQuote:
+        typeof point.sourceQuote === 'string' && point.sourceQuote.trim()
+          ? point.sourceQuote.trim()
+          : null,
+    });
+  }
+
+  return {
+    suggestedName: nonEmptyString(obj.suggestedName),
+    suggestedDescription: nonEmptyString(obj.suggestedDescription),
+    points,
+  };
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Truncates content at the last sentence boundary before maxLength,
+ * falling back to a word boundary if no sentence ends late enough.
+ */
+function truncateAtSentenceBoundary(content: string, maxLength: number): string {
+  if (content.length <= maxLength) {
+    return content;
+  }
+
+  const truncated = content.slice(0, maxLength);
+  const lastSentenceEnd = Math.max(
+    truncated.lastIndexOf('. '),
+    truncated.lastIndexOf('! '),
+    truncated.lastIndexOf('? '),
+    truncated.lastIndexOf('.\n')
+  );
+
+  if (lastSentenceEnd > maxLength * 0.7) {
+    return content.slice(0, lastSentenceEnd + 1);
+  }
+
+  const lastSpace = truncated.lastIndexOf(' ');
+  return lastSpace > 0 ? content.slice(0, lastSpace) : truncated;
+}
+
+/**
+ * Sanitizes input to prevent prompt injection via the source_material tags
+ * and code fences that would break the JSON response instructions.
+ */
+function sanitizeInput(input: string): string {
+  if (!input || typeof input !== 'string') {
+    return '';
+  }
+
+  return input
+    .trim()
+    .replace(/<\/(source_material)>/gi, '&lt;/$1&gt;')
+    .replace(/```json/gi, '` ` `json')
+    .replace(/```/g, '` ` `');
+}
+
+/**
+ * Extracts the JSON payload from a response that may be wrapped in a
+ * code block or surrounded by other text.
+ */
+function extractJsonFromResponse(response: string): string {
+  const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const jsonString = codeBlockMatch ? codeBlockMatch[1].trim() : response.trim();
+
+  if (!jsonString.startsWith('{') && !jsonString.startsWith('[')) {
+    const startIdx = jsonString.indexOf('{');
+    const endIdx = jsonString.lastIndexOf('}');
+    if (startIdx !== -1 && endIdx !== -1 && endIdx > startIdx) {
+      return jsonString.substring(startIdx, endIdx + 1);
+    }
+  }
+
+  return jsonString;
+}
+
+/**
+ * Returns a trimmed string, or null for non-strings and empty strings.
+ */
+function nonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
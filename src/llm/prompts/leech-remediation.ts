@@ -0,0 +1,222 @@
+/**
+ * Leech Remediation Prompt Builders
+ *
+ * This module constructs the prompts for remediating leeches: recall points
+ * the learner keeps forgetting, so they cycle through reviews without ever
+ * sticking. Two remedies involve the LLM:
+ *
+ * 1. **Splitting**: The point is broken into smaller points that can each be
+ *    recalled on their own. The LLM proposes the parts; the learner edits
+ *    and confirms them before anything is saved.
+ *
+ * 2. **Deep dives**: A dedicated session on the points the learner marked.
+ *    The Socratic tutor prompt is extended with guidance to slow down and
+ *    build understanding, since drilling the point again hasn't worked.
+ *
+ * Key design decisions:
+ *
+ * 1. **Parts cover the original**: Together, the parts must cover what the
+ *    original point asked the learner to recall, so splitting doesn't
+ *    quietly drop material.
+ *
+ * 2. **Same shape as other recall points**: Content and context follow the
+ *    ingestion prompt's definitions, so the parts read like any other point
+ *    in a recall set.
+ */
+
+import type { RecallPoint } from '../../core/models';
+
+/**
+ * Most parts a leech is split into. Beyond this the parts become trivia
+ * rather than ideas.
+ */
+export const MAX_LEECH_SPLIT_PARTS = 5;
+
+/**
+ * Parameters required to build a leech split prompt.
+ */
+export interface LeechSplitPromptParams {
+  /** The leech to split */
+  point: RecallPoint;
+
+  /** Name of the recall set the point belongs to */
+  recallSetName: string;
+}
+
+/**
+ * One of the smaller recall points a leech is split into.
+ */
+export interface LeechSplitPart {
+  /** The fact or idea to be recalled */
+  content: string;
+
+  /** Background for the tutor (may be empty) */
+  context: string;
+}
+
+/**
+ * Builds the prompt that proposes how to split a leech into smaller
+ * recall points.
+ *
+ * @param params - The leech and its recall set's name
+ * @returns A complete prompt string for the LLM
+ *
+ * @example
+ * ```typescript
+ * const prompt = buildLeechSplitPrompt({ point, recallSetName: 'Cell Biology' });
+ * const response = await client.complete(prompt);
+ * const parts = parseLeechSplitResponse(response.text);
+ * ```
+ */
+export function buildLeechSplitPrompt(params: LeechSplitPromptParams): string {
+  const { point, recallSetName } = params;
+  const { reps, lapses } = point.fsrsState;
+
+  return `You are an expert at writing recall points for a conversational spaced repetition system.
+
+## The Problem
+
+The learner is studying the recall set "${sanitizeInput(recallSetName)}". They keep forgetting the recall point below: it has been reviewed ${reps} times and forgotten ${lapses} times after being learned. Points like this usually ask for too much at once, or bundle several ideas that interfere with each other.
+
+<leech_content>
+${sanitizeInput(point.content)}
+</leech_content>
+
+<leech_context>
+${sanitizeInput(point.context) || '[No context provided]'}
+</leech_context>
+
+## Your Task
+
+Split the point into 2-${MAX_LEECH_SPLIT_PARTS} smaller recall points, each with two parts:
+- **content**: One fact, principle, or idea to be recalled, stated in 1-2 sentences. It must be self-contained and specific enough that a tutor can judge whether the learner recalled it.
+- **context**: 1-2 sentences of background for the tutor: why it matters, how it connects to the other parts, and angles for Socratic questioning.
+
+Together the parts must cover everything the original point asked the learner to recall. Order them so that each builds on the ones before it.
+
+## Response Format
+
+You MUST respond with ONLY a valid JSON object in this exact format:
+
+\`\`\`json
+{
+  "parts": [
+    { "content": "string", "context": "string" }
+  ]
+}
+\`\`\`
+
+**Important:** Return ONLY the JSON object. Do not include any other text, explanations, or markdown formatting outside the JSON.`;
+}
+
+/**
+ * Parses the LLM response to a leech split prompt.
+ *
+ * Handles code-fenced JSON and surrounding text. Parts without content are
+ * dropped, missing context becomes an empty string, and parts beyond
+ * MAX_LEECH_SPLIT_PARTS are ignored.
+ *
+ * @param response - The raw LLM response text
+ * @returns The proposed parts, or null if the response can't be parsed or
+ *          proposes fewer than two parts
+ *
+ * @example
+ * ```typescript
+ * const parts = parseLeechSplitResponse(response.text);
+ * if (parts) {
+ *   console.log(`Proposed ${parts.length} parts`);
+ * }
+ * ```
+ */
+export function parseLeechSplitResponse(response: string): LeechSplitPart[] | null {
+  if (!response || typeof response !== 'string') {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonFromResponse(response));
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as Record<string, unknown>).parts)) {
+    return null;
+  }
+
+  const parts: LeechSplitPart[] = [];
+  for (const item of (parsed as { parts: unknown[] }).parts) {
+    if (!item || typeof item !== 'object') {
+      continue;
+    }
+    const obj = item as Record<string, unknown>;
+    const content = typeof obj.content === 'string' ? obj.content.trim() : '';
+    if (content) {
+      parts.push({ content, context: typeof obj.context === 'string' ? obj.context.trim() : '' });
+    }
+  }
+
+  return parts.length >= 2 ? parts.slice(0, MAX_LEECH_SPLIT_PARTS) : null;
+}
+
+/**
+ * Builds the guidance appended to the Socratic tutor's system prompt in a
+ * deep-dive session, for the point under discussion.
+ *
+ * @param point - The recall point being discussed
+ * @returns The guidance section, starting with its heading
+ *
+ * @example
+ * ```typescript
+ * const prompt = `${tutorPrompt}\n\n${buildDeepDiveGuidance(currentPoint)}`;
+ * client.setSystemPrompt(prompt);
+ * ```
+ */
+export function buildDeepDiveGuidance(point: RecallPoint): string {
+  return `## Deep Dive
+
+This is a deep-dive session. The learner asked for it because they keep forgetting this point: it has been forgotten ${point.fsrsState.lapses} times after being learned. Quick recall drills haven't made it stick, so take your time:
+- Find out what the learner currently understands, and where it goes wrong or runs out.
+- Build the idea up from what they already know, connecting it to examples and to the other points of the set.
+- Ask them to explain the idea in their own words, and to apply it, before asking them to recall it.
+- Point out what makes this point easy to confuse, and give them a way to tell it apart.`;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Sanitizes input to prevent prompt injection via the prompt's tags and
+ * code fences that would break the JSON response instructions.
+ */
+function sanitizeInput(input: string): string {
+  if (!input || typeof input !== 'string') {
+    return '';
+  }
+
+  return input
+    .trim()
+    .replace(/<\/(leech_content|leech_context)>/gi, '&lt;/$1&gt;')
+    .replace(/```json/gi, '` ` `json')
+    .replace(/```/g, '` ` `');
+}
+
+/**
+ * Extracts the JSON payload from a response that may be wrapped in a
+ * code block or surrounded by other text.
+ */
+function extractJsonFromResponse(response: string): string {
+  const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const jsonString = codeBlockMatch ? codeBlockMatch[1].trim() : response.trim();
+
+  if (!jsonString.startsWith('{')) {
+    const startIdx = jsonString.indexOf('{');
+    const endIdx = jsonString.lastIndexOf('}');
+    if (startIdx !== -1 && endIdx !== -1 && endIdx > startIdx) {
+      return jsonString.substring(startIdx, endIdx + 1);
+    }
+  }
+
+  return jsonString;
+}
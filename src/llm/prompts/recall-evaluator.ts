@@ -428,8 +428,21 @@ export interface EnhancedEvaluationContext {
    * Helps the evaluator understand the subject matter context.
    */
   topic?: string;
+
+  /**
+   * Registered version of the evaluation prompt to judge with (defaults to
+   * the registry's default). Selects the prompt; it isn't shown to the LLM.
+   */
+  promptVersion?: string;
 }
 
+/**
+ * Version of the enhanced evaluation prompt. Re-evaluations of past recall
+ * outcomes are stored under this version, so bump it whenever a change to
+ * buildEnhancedRecallEvaluatorPrompt could change how attempts are judged.
+ */
+export const ENHANCED_RECALL_EVALUATOR_VERSION = 'enhanced-v1';
+
 /**
  * Builds an enhanced prompt for detailed recall evaluation with concept analysis.
  *
@@ -0,0 +1,247 @@
+/**
+ * Prompt Registry
+ *
+ * Names every version of the prompts a session uses, so prompt iteration
+ * can be measured: each session records which versions it was conducted
+ * with, and prompt experiments assign sessions to variants that differ in
+ * one or more versions.
+ *
+ * The registry covers three kinds of prompt:
+ * - tutor: The Socratic tutor system prompt
+ * - evaluator: The enhanced recall evaluation prompt
+ * - rabbithole: The rabbithole detection and return prompts (versioned together)
+ *
+ * To try a new prompt, add a builder and register it under a new version
+ * name rather than editing an existing one. A registered version must keep
+ * producing the same prompt, since sessions that recorded it are resumed
+ * with it and their analytics are attributed to it. Versions that sessions
+ * may still be resumed with must not be removed.
+ *
+ * @example
+ * ```typescript
+ * const versions = resolvePromptVersions({ tutor: 'socratic-concise-v1' });
+ * const prompt = getTutorPrompt(versions.tutor).build({
+ *   recallSet,
+ *   targetPoints,
+ *   currentPointIndex: 0,
+ * });
+ * ```
+ */
+
+import type { PromptVersions, RecallPoint, SessionMessage } from '../../core/models';
+import {
+  buildSocraticTutorPrompt,
+  buildConciseSocraticTutorPrompt,
+  type SocraticTutorPromptParams,
+} from './socratic-tutor';
+import {
+  buildEnhancedRecallEvaluatorPrompt,
+  ENHANCED_RECALL_EVALUATOR_VERSION,
+  type EnhancedEvaluationContext,
+} from './recall-evaluator';
+import {
+  buildRabbitholeDetectorPrompt,
+  buildRabbitholeReturnPrompt,
+  type RabbitholeDetectorParams,
+} from './rabbithole-detector';
+
+/**
+ * The kinds of prompt that are versioned.
+ */
+export type PromptKind = keyof PromptVersions;
+
+/**
+ * A registered version of the Socratic tutor system prompt.
+ */
+export interface TutorPromptVersion {
+  /** Version name (e.g., 'socratic-v1') */
+  version: string;
+  /** What distinguishes this version */
+  description: string;
+  /** Builds the system prompt */
+  build: (params: SocraticTutorPromptParams) => string;
+}
+
+/**
+ * A registered version of the enhanced recall evaluation prompt.
+ */
+export interface EvaluatorPromptVersion {
+  /** Version name (e.g., 'enhanced-v1') */
+  version: string;
+  /** What distinguishes this version */
+  description: string;
+  /** Builds the evaluation prompt */
+  build: (
+    recallPointContent: string,
+    conversationExcerpt: string,
+    context?: EnhancedEvaluationContext
+  ) => string;
+}
+
+/**
+ * A registered version of the rabbithole detection and return prompts.
+ */
+export interface RabbitholePromptVersion {
+  /** Version name (e.g., 'rabbithole-v1') */
+  version: string;
+  /** What distinguishes this version */
+  description: string;
+  /** Builds the prompt that detects a new tangent */
+  buildDetector: (params: RabbitholeDetectorParams) => string;
+  /** Builds the prompt that detects a return from a tangent */
+  buildReturn: (
+    rabbitholeTopic: string,
+    currentRecallPoint: RecallPoint,
+    recentMessages: SessionMessage[]
+  ) => string;
+}
+
+/**
+ * Registered tutor prompts, oldest first.
+ */
+const TUTOR_PROMPTS: TutorPromptVersion[] = [
+  {
+    version: 'socratic-v1',
+    description: 'Socratic questioning with the recall set persona and upcoming points',
+    build: buildSocraticTutorPrompt,
+  },
+  {
+    version: 'socratic-concise-v1',
+    description: 'socratic-v1, limited to one question in at most three sentences per reply',
+    build: buildConciseSocraticTutorPrompt,
+  },
+];
+
+/**
+ * Registered evaluator prompts, oldest first.
+ */
+const EVALUATOR_PROMPTS: EvaluatorPromptVersion[] = [
+  {
+    version: ENHANCED_RECALL_EVALUATOR_VERSION,
+    description: 'Concept-level analysis with a suggested FSRS rating',
+    build: buildEnhancedRecallEvaluatorPrompt,
+  },
+];
+
+/**
+ * Registered rabbithole prompts, oldest first.
+ */
+const RABBITHOLE_PROMPTS: RabbitholePromptVersion[] = [
+  {
+    version: 'rabbithole-v1',
+    description: 'Tangent detection against the session recall points',
+    buildDetector: buildRabbitholeDetectorPrompt,
+    buildReturn: buildRabbitholeReturnPrompt,
+  },
+];
+
+/**
+ * The prompt versions sessions use when no experiment assigns others.
+ */
+export const DEFAULT_PROMPT_VERSIONS: PromptVersions = {
+  tutor: 'socratic-v1',
+  evaluator: ENHANCED_RECALL_EVALUATOR_VERSION,
+  rabbithole: 'rabbithole-v1',
+};
+
+/**
+ * Types of prompt registry errors.
+ */
+export type PromptRegistryErrorType = 'unknown_version';
+
+/**
+ * Error thrown when a prompt version isn't registered.
+ */
+export class PromptRegistryError extends Error {
+  /** The type of error that occurred */
+  type: PromptRegistryErrorType;
+
+  constructor(message: string, type: PromptRegistryErrorType) {
+    super(message);
+    this.name = 'PromptRegistryError';
+    this.type = type;
+  }
+}
+
+/**
+ * Finds a registered version, throwing if there is none.
+ */
+function findVersion<T extends { version: string }>(
+  kind: PromptKind,
+  registered: T[],
+  version: string
+): T {
+  const found = registered.find((entry) => entry.version === version);
+  if (!found) {
+    throw new PromptRegistryError(
+      `Unknown ${kind} prompt version '${version}' ` +
+        `(registered: ${registered.map((entry) => entry.version).join(', ')})`,
+      'unknown_version'
+    );
+  }
+  return found;
+}
+
+/**
+ * Returns a registered tutor prompt.
+ *
+ * @param version - The version name
+ * @returns The registered version
+ * @throws PromptRegistryError if the version isn't registered
+ */
+export function getTutorPrompt(version: string): TutorPromptVersion {
+  return findVersion('tutor', TUTOR_PROMPTS, version);
+}
+
+/**
+ * Returns a registered evaluator prompt.
+ *
+ * @param version - The version name
+ * @returns The registered version
+ * @throws PromptRegistryError if the version isn't registered
+ */
+export function getEvaluatorPrompt(version: string): EvaluatorPromptVersion {
+  return findVersion('evaluator', EVALUATOR_PROMPTS, version);
+}
+
+/**
+ * Returns a registered pair of rabbithole prompts.
+ *
+ * @param version - The version name
+ * @returns The registered version
+ * @throws PromptRegistryError if the version isn't registered
+ */
+export function getRabbitholePrompts(version: string): RabbitholePromptVersion {
+  return findVersion('rabbithole', RABBITHOLE_PROMPTS, version);
+}
+
+/**
+ * Lists the registered versions of each kind of prompt, oldest first.
+ *
+ * @returns Version names and descriptions, keyed by prompt kind
+ */
+export function listPromptVersions(): Record<PromptKind, { version: string; description: string }[]> {
+  const summarize = (entries: { version: string; description: string }[]) =>
+    entries.map(({ version, description }) => ({ version, description }));
+  return {
+    tutor: summarize(TUTOR_PROMPTS),
+    evaluator: summarize(EVALUATOR_PROMPTS),
+    rabbithole: summarize(RABBITHOLE_PROMPTS),
+  };
+}
+
+/**
+ * Fills in a complete set of prompt versions: the given ones, and the
+ * defaults for the rest.
+ *
+ * @param overrides - Versions to use instead of the defaults
+ * @returns The complete, validated set of versions
+ * @throws PromptRegistryError if any version isn't registered
+ */
+export function resolvePromptVersions(overrides: Partial<PromptVersions> = {}): PromptVersions {
+  const versions = { ...DEFAULT_PROMPT_VERSIONS, ...overrides };
+  getTutorPrompt(versions.tutor);
+  getEvaluatorPrompt(versions.evaluator);
+  getRabbitholePrompts(versions.rabbithole);
+  return versions;
+}
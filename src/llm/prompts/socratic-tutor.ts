@@ -113,6 +113,19 @@ export function buildSocraticTutorPrompt(params: SocraticTutorPromptParams): str
   return promptSections.filter(Boolean).join('\n\n');
 }
 
+/**
+ * Builds the system prompt for a Socratic tutor discussion that keeps each
+ * turn short: the standard prompt, plus guidance to ask one question at a
+ * time in a few sentences. Registered as the 'socratic-concise-v1' tutor
+ * prompt, to test whether shorter turns keep learners more engaged.
+ *
+ * @param params - The parameters containing RecallSet, target points, and current index
+ * @returns A complete system prompt string for the LLM
+ */
+export function buildConciseSocraticTutorPrompt(params: SocraticTutorPromptParams): string {
+  return `${buildSocraticTutorPrompt(params)}\n\n${buildResponseLengthSection()}`;
+}
+
 /**
  * Builds a minimal prompt for sessions with no target points.
  * This handles the edge case gracefully while still maintaining
@@ -263,6 +276,15 @@ If the learner is struggling significantly after 3-4 attempts:
 4. As a last resort, provide a partial answer and have them complete it`;
 }
 
+/**
+ * Response length guidance for the concise tutor prompt.
+ */
+function buildResponseLengthSection(): string {
+  return `## Response Length
+
+Keep every reply to at most three short sentences, and ask exactly one question per reply. Skip recaps of what the learner just said; acknowledge progress in a few words and move straight to the next question.`;
+}
+
 /**
  * Escapes potentially problematic content in recall points.
  *
@@ -0,0 +1,123 @@
+/**
+ * Tangent Exploration Prompt Builders
+ *
+ * This module constructs the prompts for a tangent the learner chooses to
+ * explore during a session ("let's explore this"). While exploring, the
+ * tutor follows the tangent under its own system prompt; when the learner
+ * returns, the tutor's prompt is restored and it recaps the tangent before
+ * steering back to the recall point.
+ *
+ * Key design decisions:
+ *
+ * 1. **Explain, don't quiz**: The learner asked to explore, so the tangent
+ *    prompt has the tutor answer and explain directly instead of asking
+ *    Socratic questions. Nothing said in the tangent is evaluated.
+ *
+ * 2. **The recall point stays out**: The tangent prompt names the recall
+ *    set but not the point under review, so following the tangent can't
+ *    give the answer away before the learner returns to recall it.
+ *
+ * 3. **Instructions as final turns**: The opening and recap instructions
+ *    are sent as a final user turn, and only the tutor's replies are kept
+ *    in the transcript. The recap is sent with the Socratic tutor's
+ *    system prompt back in place, so the tutor can link the tangent to the
+ *    point without revealing it, as it does with hints.
+ */
+
+import type { RecallSet } from '../../core/models';
+
+/**
+ * Parameters required to build the tangent exploration system prompt.
+ */
+export interface TangentExplorationPromptParams {
+  /** What the learner wants to explore */
+  topic: string;
+
+  /** The recall set the session is studying */
+  recallSet: RecallSet;
+}
+
+/**
+ * Builds the system prompt the tutor follows while the learner explores a
+ * tangent.
+ *
+ * @param params - The tangent's topic and the session's recall set
+ * @returns The system prompt for the LLM
+ *
+ * @example
+ * ```typescript
+ * client.setSystemPrompt(buildTangentExplorationPrompt({ topic: 'Weimar hyperinflation', recallSet }));
+ * const response = await client.complete(history);
+ * ```
+ */
+export function buildTangentExplorationPrompt(params: TangentExplorationPromptParams): string {
+  const { topic, recallSet } = params;
+
+  return `You are a knowledgeable and patient tutor. You were helping a learner review the recall set "${recallSet.name}", and they have asked to step aside and explore a tangent.
+
+## The Tangent
+
+<tangent_topic>
+${escapeTopic(topic)}
+</tangent_topic>
+
+## How to Explore It
+
+- Follow the learner's curiosity: answer their questions directly and explain clearly, with examples where they help.
+- Don't quiz the learner or turn the tangent into a recall exercise; nothing here is being evaluated.
+- Stay with the tangent's topic and where the learner takes it, rather than steering back to the review.
+- Don't bring up the recall point the learner was reviewing: they will come back to recall it themselves, so don't give anything about it away.
+- Keep each reply conversational and reasonably short, ending where the learner can ask more.
+
+The learner decides when to return to the review.`;
+}
+
+/**
+ * Builds the instruction that starts the exploration. It is sent as the
+ * final user turn after the conversation so far, with the tangent's system
+ * prompt in place; only the tutor's reply is kept in the transcript.
+ *
+ * @param topic - What the learner wants to explore
+ * @returns The opening instruction for the LLM
+ */
+export function buildTangentOpeningPrompt(topic: string): string {
+  return `The learner wants to explore this tangent now:
+
+<tangent_topic>
+${escapeTopic(topic)}
+</tangent_topic>
+
+Start exploring it with them: give a short, direct explanation of the topic, building on anything the conversation so far touched on, and invite their questions. Reply with the explanation only.`;
+}
+
+/**
+ * Builds the instruction for the recap when the learner returns from a
+ * tangent. It is sent as the final user turn after the conversation so
+ * far, with the tutor's system prompt restored.
+ *
+ * @param topic - The tangent's topic
+ * @returns The recap instruction for the LLM
+ *
+ * @example
+ * ```typescript
+ * const prompt = buildTangentRecapPrompt('Weimar hyperinflation');
+ * const response = await client.complete([...history, { role: 'user', content: prompt }]);
+ * ```
+ */
+export function buildTangentRecapPrompt(topic: string): string {
+  return `The learner has finished exploring a tangent and wants to return to reviewing the current recall point.
+
+<tangent_topic>
+${escapeTopic(topic)}
+</tangent_topic>
+
+Recap the tangent in two or three sentences: the main things the learner found out. If the tangent connects to the current recall point, say how without revealing the point itself. Then ask the learner to pick up recalling the point where they left off. Reply with the recap and question only.`;
+}
+
+/**
+ * Escapes closing delimiter tags in the learner's topic so it can't end
+ * the topic section early.
+ */
+function escapeTopic(topic: string): string {
+  return topic.replace(/<\/tangent_topic>/gi, '&lt;/tangent_topic&gt;');
+}
@@ -0,0 +1,210 @@
+/**
+ * Tangent Summary Prompt Builder
+ *
+ * This module constructs the prompt that turns a finished rabbithole (a
+ * tangent the session wandered into) into a candidate recall point. It runs
+ * after the session, on the part of the transcript from the message that
+ * started the tangent to the one where the conversation came back (or the
+ * session ended).
+ *
+ * Key design decisions:
+ *
+ * 1. **Only what the conversation established**: The point is summarized
+ *    from the tangent's messages alone, so the candidate states what the
+ *    learner actually discussed rather than what the model knows about the
+ *    topic.
+ *
+ * 2. **Nothing is a valid answer**: Some tangents are small talk or
+ *    confusion. The model may return null content, and no candidate is
+ *    proposed, rather than forcing a trivial point into the learner's review.
+ *
+ * 3. **Same shape as other recall points**: Content and context follow the
+ *    ingestion prompt's definitions, so accepted candidates read like any
+ *    other point in a recall set.
+ */
+
+import type { SessionMessage } from '../../core/models';
+
+/**
+ * Parameters required to build a tangent summary prompt.
+ */
+export interface TangentSummaryPromptParams {
+  /** The rabbithole's topic, as recorded when it was detected */
+  topic: string;
+
+  /** The tangent's part of the transcript */
+  messages: SessionMessage[];
+
+  /** Name of the recall set the session was studying, if known */
+  recallSetName?: string | null;
+}
+
+/**
+ * A candidate recall point summarized from a tangent.
+ */
+export interface TangentSummary {
+  /** The fact or idea to be recalled */
+  content: string;
+
+  /** Background for the tutor (may be empty) */
+  context: string;
+}
+
+/**
+ * Builds the prompt that summarizes a tangent into a candidate recall point.
+ *
+ * @param params - The tangent's topic, its messages and the recall set name
+ * @returns A complete prompt string for the LLM
+ *
+ * @example
+ * ```typescript
+ * const prompt = buildTangentSummaryPrompt({
+ *   topic: 'why the Weimar Republic printed money',
+ *   messages: transcript.slice(event.triggerMessageIndex, event.returnMessageIndex + 1),
+ *   recallSetName: 'Interwar Europe',
+ * });
+ * const response = await client.complete(prompt);
+ * const summary = parseTangentSummaryResponse(response.text);
+ * ```
+ */
+export function buildTangentSummaryPrompt(params: TangentSummaryPromptParams): string {
+  const { topic, messages, recallSetName } = params;
+
+  const setLine = recallSetName
+    ? `\nThe session was reviewing the recall set "${sanitizeInput(recallSetName)}".\n`
+    : '';
+
+  return `You are an expert at distilling learning conversations into recall points for a conversational spaced repetition system.
+
+## The Tangent
+
+During a recall session, the conversation wandered off the recall point being reviewed into this tangent:
+
+<tangent_topic>
+${sanitizeInput(topic)}
+</tangent_topic>
+${setLine}
+## Conversation
+
+<tangent_messages>
+${formatMessagesForPrompt(messages) || '[No messages provided]'}
+</tangent_messages>
+
+## Your Task
+
+Decide whether the tangent established something the learner would want to remember, and if so, state it as one recall point with two parts:
+- **content**: The fact, principle, or idea to be recalled, stated in 1-3 sentences. It must be self-contained and specific enough that a tutor can judge whether the learner recalled it.
+- **context**: 1-3 sentences of background for the tutor: why it matters, how it connects to what the session was reviewing, and angles for Socratic questioning.
+
+Only use what the conversation itself established. If the tangent was small talk, a misunderstanding that was never resolved, or too thin to remember, set content to null.
+
+## Response Format
+
+You MUST respond with ONLY a valid JSON object in this exact format:
+
+\`\`\`json
+{
+  "content": "string | null",
+  "context": "string"
+}
+\`\`\`
+
+**Important:** Return ONLY the JSON object. Do not include any other text, explanations, or markdown formatting outside the JSON.`;
+}
+
+/**
+ * Parses the LLM response to a tangent summary prompt.
+ *
+ * Handles code-fenced JSON and surrounding text. Missing context becomes an
+ * empty string.
+ *
+ * @param response - The raw LLM response text
+ * @returns The summarized recall point, or null if the tangent isn't worth
+ *          keeping or the response can't be parsed
+ *
+ * @example
+ * ```typescript
+ * const summary = parseTangentSummaryResponse(response.text);
+ * if (summary) {
+ *   console.log(`Proposed: ${summary.content}`);
+ * }
+ * ```
+ */
+export function parseTangentSummaryResponse(response: string): TangentSummary | null {
+  if (!response || typeof response !== 'string') {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonFromResponse(response));
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return null;
+  }
+
+  const obj = parsed as Record<string, unknown>;
+  const content = typeof obj.content === 'string' ? obj.content.trim() : '';
+  if (!content) {
+    return null;
+  }
+
+  return {
+    content,
+    context: typeof obj.context === 'string' ? obj.context.trim() : '',
+  };
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Formats the tangent's messages as a transcript with speaker labels.
+ */
+function formatMessagesForPrompt(messages: SessionMessage[]): string {
+  return messages
+    .map((msg) => {
+      const roleLabel = msg.role === 'user' ? 'Learner' : msg.role === 'assistant' ? 'Tutor' : 'System';
+      return `[${roleLabel}]: ${sanitizeInput(msg.content)}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Sanitizes input to prevent prompt injection via the prompt's tags and
+ * code fences that would break the JSON response instructions.
+ */
+function sanitizeInput(input: string): string {
+  if (!input || typeof input !== 'string') {
+    return '';
+  }
+
+  return input
+    .trim()
+    .replace(/<\/(tangent_topic|tangent_messages)>/gi, '&lt;/$1&gt;')
+    .replace(/```json/gi, '` ` `json')
+    .replace(/```/g, '` ` `');
+}
+
+/**
+ * Extracts the JSON payload from a response that may be wrapped in a
+ * code block or surrounded by other text.
+ */
+function extractJsonFromResponse(response: string): string {
+  const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const jsonString = codeBlockMatch ? codeBlockMatch[1].trim() : response.trim();
+
+  if (!jsonString.startsWith('{')) {
+    const startIdx = jsonString.indexOf('{');
+    const endIdx = jsonString.lastIndexOf('}');
+    if (startIdx !== -1 && endIdx !== -1 && endIdx > startIdx) {
+      return jsonString.substring(startIdx, endIdx + 1);
+    }
+  }
+
+  return jsonString;
+}
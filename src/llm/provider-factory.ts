@@ -0,0 +1,92 @@
+/**
+ * LLM Provider Factory
+ *
+ * Constructs the LLMProvider selected by configuration so that entry points
+ * (CLI, API server) don't need to know which backend is in use.
+ *
+ * - LLM_PROVIDER=anthropic (default): live AnthropicClient
+ * - LLM_PROVIDER=scripted: ScriptedLLMProvider reading LLM_SCRIPT_PATH
+ * - LLM_PROVIDER=record: AnthropicClient wrapped in a RecordingLLMProvider
+ *   that writes LLM_CASSETTE_PATH
+ * - LLM_PROVIDER=replay: ReplayLLMProvider reading LLM_CASSETTE_PATH
+ *
+ * Usage:
+ * ```typescript
+ * const llmClient = createLLMProvider();
+ * const evaluator = new RecallEvaluator(llmClient);
+ * ```
+ */
+
+import {
+  getLLMProviderType,
+  getLLMScriptPath,
+  getLLMCassettePath,
+  isLLMReplayStrict,
+} from '../config';
+import { AnthropicClient } from './client';
+import { ScriptedLLMProvider } from './scripted-provider';
+import { RecordingLLMProvider } from './recording-provider';
+import { ReplayLLMProvider } from './replay-provider';
+import { LLMError, type LLMConfig, type LLMProvider, type LLMProviderType } from './types';
+
+/**
+ * Options for creating an LLM provider. Anything omitted falls back to
+ * the application configuration.
+ */
+export interface CreateLLMProviderOptions {
+  /** Which provider to construct (defaults to LLM_PROVIDER) */
+  provider?: LLMProviderType;
+  /** Script fixture path for the scripted provider (defaults to LLM_SCRIPT_PATH) */
+  scriptPath?: string;
+  /** Cassette path for the record/replay providers (defaults to LLM_CASSETTE_PATH) */
+  cassettePath?: string;
+  /** Fail replay on divergent requests (defaults to LLM_REPLAY_STRICT) */
+  replayStrict?: boolean;
+  /** Default request configuration for the Anthropic client */
+  config?: LLMConfig;
+}
+
+/**
+ * Creates the configured LLMProvider.
+ *
+ * @param options - Optional overrides for the configured provider
+ * @returns A ready-to-use LLMProvider
+ * @throws LLMError if the Anthropic API key is missing, or if the scripted,
+ *         record or replay provider is selected without a usable file path
+ */
+export function createLLMProvider(options: CreateLLMProviderOptions = {}): LLMProvider {
+  const provider = options.provider ?? getLLMProviderType();
+
+  if (provider === 'scripted') {
+    const scriptPath = options.scriptPath ?? getLLMScriptPath();
+    if (!scriptPath) {
+      throw new LLMError(
+        'LLM_SCRIPT_PATH environment variable is not set. ' +
+          'The scripted provider needs a script fixture file to play back.',
+        'invalid_request'
+      );
+    }
+    return ScriptedLLMProvider.fromFile(scriptPath);
+  }
+
+  if (provider === 'record' || provider === 'replay') {
+    const cassettePath = options.cassettePath ?? getLLMCassettePath();
+    if (!cassettePath) {
+      throw new LLMError(
+        'LLM_CASSETTE_PATH environment variable is not set. ' +
+          `The ${provider} provider needs a cassette file path.`,
+        'invalid_request'
+      );
+    }
+
+    if (provider === 'replay') {
+      return ReplayLLMProvider.fromFile(cassettePath, {
+        strict: options.replayStrict ?? isLLMReplayStrict(),
+      });
+    }
+
+    return new RecordingLLMProvider(new AnthropicClient(options.config), cassettePath);
+  }
+
+  return new AnthropicClient(options.config);
+}
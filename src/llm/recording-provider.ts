@@ -0,0 +1,205 @@
+/**
+ * Recording LLM Provider
+ *
+ * Wraps another LLMProvider (normally AnthropicClient) and writes every
+ * request/response pair to a cassette file as it happens. The cassette is
+ * saved after each call, so a session that crashes or is abandoned part-way
+ * still leaves a usable recording behind.
+ *
+ * Play the cassette back later with ReplayLLMProvider.
+ *
+ * Usage:
+ * ```typescript
+ * const llmClient = new RecordingLLMProvider(
+ *   new AnthropicClient(),
+ *   'data/cassettes/atp-session.json'
+ * );
+ * const engine = new SessionEngine({ llmClient, ... });
+ * ```
+ */
+
+import type {
+  LLMMessage,
+  LLMConfig,
+  StreamCallbacks,
+  LLMResponse,
+  LLMProvider,
+} from './types';
+import {
+  createCassette,
+  hashPrompt,
+  normalizeMessages,
+  saveCassette,
+  type Cassette,
+  type CassetteEntry,
+} from './cassette';
+
+/**
+ * LLMProvider decorator that records all traffic to a cassette file.
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  /** The provider that actually serves requests */
+  private inner: LLMProvider;
+
+  /** Destination path of the cassette file */
+  private cassettePath: string;
+
+  /** The cassette being recorded */
+  private cassette: Cassette;
+
+  /**
+   * Creates a new RecordingLLMProvider.
+   * Recording starts with an empty cassette; an existing file at the
+   * path is overwritten on the first recorded call.
+   *
+   * @param inner - The provider to forward requests to
+   * @param cassettePath - Where to write the cassette file
+   */
+  constructor(inner: LLMProvider, cassettePath: string) {
+    this.inner = inner;
+    this.cassettePath = cassettePath;
+    this.cassette = createCassette();
+  }
+
+  /**
+   * Sets a system prompt on the wrapped provider.
+   *
+   * @param prompt - The system prompt text, or undefined to clear
+   */
+  setSystemPrompt(prompt: string | undefined): void {
+    this.inner.setSystemPrompt(prompt);
+  }
+
+  /**
+   * Gets the wrapped provider's current system prompt.
+   *
+   * @returns The current system prompt, or undefined if not set
+   */
+  getSystemPrompt(): string | undefined {
+    return this.inner.getSystemPrompt();
+  }
+
+  /**
+   * Forwards a non-streaming call and records the response.
+   *
+   * @param messages - Either a single user message string or an array of messages
+   * @param config - Optional per-request configuration overrides
+   * @returns The wrapped provider's response, unchanged
+   */
+  async complete(
+    messages: string | LLMMessage[],
+    config?: LLMConfig
+  ): Promise<LLMResponse> {
+    // Capture the system prompt before the call in case it changes concurrently
+    const systemPrompt = this.inner.getSystemPrompt();
+    const response = await this.inner.complete(messages, config);
+
+    this.record({
+      messages: normalizeMessages(messages),
+      systemPrompt,
+      mode: 'complete',
+      output: response.text,
+      usage: response.usage,
+      stopReason: response.stopReason,
+    });
+
+    return response;
+  }
+
+  /**
+   * Forwards a streaming call and records the full text once it completes.
+   * Failed streams are not recorded.
+   *
+   * @param messages - Either a single user message string or an array of messages
+   * @param callbacks - Callbacks for handling stream events
+   * @param config - Optional per-request configuration overrides
+   */
+  async stream(
+    messages: string | LLMMessage[],
+    callbacks: StreamCallbacks,
+    config?: LLMConfig
+  ): Promise<void> {
+    const systemPrompt = this.inner.getSystemPrompt();
+
+    await this.inner.stream(
+      messages,
+      {
+        ...callbacks,
+        onComplete: (fullText) => {
+          this.record({
+            messages: normalizeMessages(messages),
+            systemPrompt,
+            mode: 'stream',
+            output: fullText,
+            // Streaming responses do not report usage
+            usage: null,
+            stopReason: null,
+          });
+          callbacks.onComplete?.(fullText);
+        },
+      },
+      config
+    );
+  }
+
+  /**
+   * Estimates the number of tokens in a string using the wrapped provider.
+   *
+   * @param text - The text to estimate tokens for
+   * @returns Estimated token count
+   */
+  estimateTokens(text: string): number {
+    return this.inner.estimateTokens(text);
+  }
+
+  /**
+   * Estimates token count for a conversation using the wrapped provider.
+   *
+   * @param messages - Array of messages to estimate
+   * @param systemPrompt - Optional system prompt to include in estimate
+   * @returns Estimated total token count
+   */
+  estimateConversationTokens(messages: LLMMessage[], systemPrompt?: string): number {
+    return this.inner.estimateConversationTokens(messages, systemPrompt);
+  }
+
+  /**
+   * Returns a copy of the cassette recorded so far.
+   */
+  getCassette(): Cassette {
+    return { ...this.cassette, entries: [...this.cassette.entries] };
+  }
+
+  /**
+   * Returns the path the cassette is written to.
+   */
+  getCassettePath(): string {
+    return this.cassettePath;
+  }
+
+  // ===========================================================================
+  // Private Helper Methods
+  // ===========================================================================
+
+  /**
+   * Appends an entry to the cassette and persists it to disk.
+   */
+  private record(
+    entry: Omit<CassetteEntry, 'promptHash' | 'recordedAt' | 'systemPrompt'> & {
+      systemPrompt: string | undefined;
+    }
+  ): void {
+    this.cassette.entries.push({
+      promptHash: hashPrompt(entry.messages, entry.systemPrompt),
+      systemPrompt: entry.systemPrompt ?? null,
+      messages: entry.messages.map((m) => ({ role: m.role, content: m.content })),
+      mode: entry.mode,
+      output: entry.output,
+      usage: entry.usage,
+      stopReason: entry.stopReason,
+      recordedAt: new Date().toISOString(),
+    });
+
+    saveCassette(this.cassettePath, this.cassette);
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Replay LLM Provider
+ *
+ * Serves responses from a cassette recorded by RecordingLLMProvider, so a
+ * real past session can be re-run against changed code (for example a new
+ * SessionEngine flow or a reworded buildSocraticTutorPrompt) without any
+ * API calls.
+ *
+ * Each request is answered as follows:
+ * 1. If an unused entry has the same prompt hash, it is served. Identical
+ *    requests are served in the order they were recorded.
+ * 2. Otherwise the request has diverged from the recording. In strict mode
+ *    this throws an LLMError. By default the next unused entry (in recorded
+ *    order) is served instead and the divergence is logged, so the run can
+ *    continue and the mismatches can be inspected afterwards.
+ * 3. If the cassette is exhausted, an LLMError is thrown.
+ *
+ * Usage:
+ * ```typescript
+ * const llmClient = ReplayLLMProvider.fromFile('data/cassettes/atp-session.json');
+ * // ...re-run the session...
+ * for (const mismatch of llmClient.getMismatches()) {
+ *   console.log(`Call #${mismatch.callIndex} diverged from the recording`);
+ * }
+ * ```
+ */
+
+import type {
+  LLMMessage,
+  LLMConfig,
+  StreamCallbacks,
+  LLMResponse,
+  LLMProvider,
+} from './types';
+import { LLMError } from './types';
+import { estimateTokens, estimateConversationTokens } from './token-estimation';
+import {
+  hashPrompt,
+  loadCassette,
+  normalizeMessages,
+  type Cassette,
+  type CassetteEntry,
+} from './cassette';
+
+/**
+ * Options controlling how replay handles divergent requests.
+ */
+export interface ReplayOptions {
+  /**
+   * If true, any request whose prompt hash is not in the cassette throws.
+   * If false (default), the next unused entry is served and the mismatch logged.
+   */
+  strict?: boolean;
+}
+
+/**
+ * A request that did not match any unused recorded entry by prompt hash.
+ */
+export interface ReplayMismatch {
+  /** Zero-based index of the request among all replayed requests */
+  callIndex: number;
+  /** Prompt hash of the request as made by the current code */
+  promptHash: string;
+  /** The system prompt sent by the current code */
+  systemPrompt: string | null;
+  /** The messages sent by the current code */
+  messages: LLMMessage[];
+  /** The recorded entry served in its place */
+  servedEntry: CassetteEntry;
+}
+
+/**
+ * LLMProvider that plays back a recorded cassette.
+ */
+export class ReplayLLMProvider implements LLMProvider {
+  /** The cassette being played back */
+  private cassette: Cassette;
+
+  /** Replay options */
+  private options: Required<ReplayOptions>;
+
+  /** Indices of entries that have already been served */
+  private used = new Set<number>();
+
+  /** Requests that diverged from the recording */
+  private mismatches: ReplayMismatch[] = [];
+
+  /** Number of requests handled so far */
+  private callCount = 0;
+
+  /** Optional system prompt to include with all requests */
+  private systemPrompt: string | undefined;
+
+  /**
+   * Creates a new ReplayLLMProvider from an in-memory cassette.
+   *
+   * @param cassette - The cassette to play back
+   * @param options - Replay options
+   */
+  constructor(cassette: Cassette, options: ReplayOptions = {}) {
+    this.cassette = cassette;
+    this.options = { strict: options.strict ?? false };
+  }
+
+  /**
+   * Loads a cassette from disk.
+   *
+   * @param path - Path to the cassette JSON file
+   * @param options - Replay options
+   * @returns A provider that plays back the cassette
+   * @throws LLMError if the file cannot be read or is not a valid cassette
+   */
+  static fromFile(path: string, options: ReplayOptions = {}): ReplayLLMProvider {
+    return new ReplayLLMProvider(loadCassette(path), options);
+  }
+
+  /**
+   * Sets a system prompt to be included with all subsequent requests.
+   *
+   * @param prompt - The system prompt text, or undefined to clear
+   */
+  setSystemPrompt(prompt: string | undefined): void {
+    this.systemPrompt = prompt;
+  }
+
+  /**
+   * Gets the current system prompt.
+   *
+   * @returns The current system prompt, or undefined if not set
+   */
+  getSystemPrompt(): string | undefined {
+    return this.systemPrompt;
+  }
+
+  /**
+   * Serves the recorded response for a request.
+   *
+   * @param messages - Either a single user message string or an array of messages
+   * @param _config - Ignored; accepted for interface compatibility
+   * @returns The recorded response and usage
+   * @throws LLMError in strict mode on a mismatch, or when the cassette is exhausted
+   */
+  async complete(
+    messages: string | LLMMessage[],
+    _config?: LLMConfig
+  ): Promise<LLMResponse> {
+    const normalized = normalizeMessages(messages);
+    const entry = this.takeEntry(normalized);
+
+    return {
+      text: entry.output,
+      // Streamed recordings have no usage; estimate so metrics stay populated
+      usage: entry.usage ?? {
+        inputTokens: estimateConversationTokens(normalized, this.systemPrompt),
+        outputTokens: estimateTokens(entry.output),
+      },
+      stopReason: entry.stopReason ?? 'end_turn',
+    };
+  }
+
+  /**
+   * Serves the recorded response for a request through stream callbacks.
+   * The full recorded text is delivered as a single chunk.
+   *
+   * @param messages - Either a single user message string or an array of messages
+   * @param callbacks - Callbacks for handling stream events
+   * @param config - Ignored; accepted for interface compatibility
+   * @throws LLMError in strict mode on a mismatch, or when the cassette is exhausted
+   */
+  async stream(
+    messages: string | LLMMessage[],
+    callbacks: StreamCallbacks,
+    config?: LLMConfig
+  ): Promise<void> {
+    let response: LLMResponse;
+    try {
+      response = await this.complete(messages, config);
+    } catch (error) {
+      const llmError = error instanceof LLMError
+        ? error
+        : new LLMError('Cassette replay failed', 'unknown', error as Error);
+      callbacks.onError?.(llmError);
+      throw llmError;
+    }
+
+    callbacks.onText?.(response.text);
+    callbacks.onComplete?.(response.text);
+  }
+
+  /**
+   * Estimates the number of tokens in a string.
+   *
+   * @param text - The text to estimate tokens for
+   * @returns Estimated token count
+   */
+  estimateTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  /**
+   * Estimates token count for a conversation.
+   *
+   * @param messages - Array of messages to estimate
+   * @param systemPrompt - Optional system prompt to include in estimate
+   * @returns Estimated total token count
+   */
+  estimateConversationTokens(messages: LLMMessage[], systemPrompt?: string): number {
+    return estimateConversationTokens(messages, systemPrompt);
+  }
+
+  /**
+   * Returns every request that diverged from the recording, in call order.
+   * An empty array means the current code sent exactly the recorded prompts.
+   */
+  getMismatches(): ReplayMismatch[] {
+    return [...this.mismatches];
+  }
+
+  /**
+   * Returns recorded entries that were never served.
+   * Non-empty after a run means the current code made fewer calls than the recording.
+   */
+  getUnusedEntries(): CassetteEntry[] {
+    return this.cassette.entries.filter((_, index) => !this.used.has(index));
+  }
+
+  // ===========================================================================
+  // Private Helper Methods
+  // ===========================================================================
+
+  /**
+   * Selects the entry to serve for a request and marks it used.
+   */
+  private takeEntry(messages: LLMMessage[]): CassetteEntry {
+    const callIndex = this.callCount++;
+    const promptHash = hashPrompt(messages, this.systemPrompt);
+    const entries = this.cassette.entries;
+
+    // Exact match: first unused entry with the same prompt hash
+    const exactIndex = entries.findIndex(
+      (entry, index) => !this.used.has(index) && entry.promptHash === promptHash
+    );
+    if (exactIndex !== -1) {
+      this.used.add(exactIndex);
+      return entries[exactIndex];
+    }
+
+    if (this.options.strict) {
+      throw new LLMError(
+        `Cassette has no recorded response for request #${callIndex} (prompt hash ${promptHash.slice(0, 12)})`,
+        'invalid_request'
+      );
+    }
+
+    // Divergent request: serve the next unused entry in recorded order
+    const nextIndex = entries.findIndex((_, index) => !this.used.has(index));
+    if (nextIndex === -1) {
+      throw new LLMError(
+        `Cassette exhausted: no recorded responses left for request #${callIndex}`,
+        'invalid_request'
+      );
+    }
+
+    this.used.add(nextIndex);
+    this.mismatches.push({
+      callIndex,
+      promptHash,
+      systemPrompt: this.systemPrompt ?? null,
+      messages,
+      servedEntry: entries[nextIndex],
+    });
+    return entries[nextIndex];
+  }
+}
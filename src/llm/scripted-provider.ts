@@ -0,0 +1,376 @@
+/**
+ * Scripted LLM Provider
+ *
+ * An offline, deterministic LLMProvider that answers requests from a script
+ * of canned responses instead of calling a live model. Scripts are plain JSON
+ * fixture files, which makes it possible to run the full session, evaluation
+ * and rabbithole pipelines end-to-end in CI or without an API key.
+ *
+ * Response selection works as follows:
+ * 1. Entries are considered in script order.
+ * 2. An entry is eligible if its `match` conditions (if any) hold for the
+ *    request: `promptIncludes` is checked against the last user message and
+ *    `systemIncludes` against the current system prompt.
+ * 3. The first eligible entry wins. Entries are consumed once used, unless
+ *    they are marked `repeat: true`.
+ * 4. If nothing is eligible, the script's `fallback` text is returned, or an
+ *    LLMError is thrown when the script has no fallback.
+ *
+ * Usage:
+ * ```typescript
+ * const provider = ScriptedLLMProvider.fromFile('tests/fixtures/llm/session.json');
+ * const response = await provider.complete('Begin the recall discussion.');
+ * console.log(response.text);
+ * ```
+ */
+
+import { readFileSync } from 'fs';
+import type {
+  LLMMessage,
+  LLMConfig,
+  StreamCallbacks,
+  LLMResponse,
+  LLMProvider,
+} from './types';
+import { LLMError } from './types';
+import { estimateTokens, estimateConversationTokens } from './token-estimation';
+
+// =============================================================================
+// Script Types
+// =============================================================================
+
+/**
+ * Conditions that must all hold for a scripted response to be used.
+ * Omitted conditions always match.
+ */
+export interface ScriptedResponseMatch {
+  /** Substring that must appear in the last user message of the request */
+  promptIncludes?: string;
+  /** Substring that must appear in the system prompt active for the request */
+  systemIncludes?: string;
+}
+
+/**
+ * A single canned response in a script.
+ */
+export interface ScriptedResponse {
+  /** Optional conditions restricting which requests this response answers */
+  match?: ScriptedResponseMatch;
+  /** The response text returned to the caller */
+  text: string;
+  /** If true, the entry is never consumed and can answer any number of requests */
+  repeat?: boolean;
+  /** Optional usage to report; estimated from the request/response when omitted */
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+/**
+ * The contents of a script fixture file.
+ */
+export interface LLMScript {
+  /** Human-readable description of what the script exercises */
+  description?: string;
+  /** Ordered list of canned responses */
+  responses: ScriptedResponse[];
+  /** Text returned when no response entry matches a request */
+  fallback?: string;
+}
+
+/**
+ * Record of a single request handled by the scripted provider.
+ * Useful for asserting on the prompts a pipeline sent.
+ */
+export interface ScriptedCall {
+  /** The messages sent, normalized to a message array */
+  messages: LLMMessage[];
+  /** The system prompt active when the request was made */
+  systemPrompt: string | undefined;
+  /** The text that was returned */
+  responseText: string;
+}
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+/**
+ * Deterministic LLMProvider backed by a script of canned responses.
+ * This is the offline counterpart to AnthropicClient.
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  /** The script being played back */
+  private script: LLMScript;
+
+  /** Indices of non-repeating entries that have already been used */
+  private consumed = new Set<number>();
+
+  /** Every request handled so far, in order */
+  private calls: ScriptedCall[] = [];
+
+  /** Optional system prompt to include with all requests */
+  private systemPrompt: string | undefined;
+
+  /**
+   * Creates a new ScriptedLLMProvider from an in-memory script.
+   *
+   * @param script - The script of canned responses to play back
+   * @throws LLMError if the script is malformed
+   */
+  constructor(script: LLMScript) {
+    if (!script || !Array.isArray(script.responses)) {
+      throw new LLMError(
+        'Invalid LLM script: expected an object with a "responses" array',
+        'invalid_request'
+      );
+    }
+    this.script = script;
+  }
+
+  /**
+   * Loads a script from a JSON fixture file.
+   *
+   * @param path - Path to the script JSON file
+   * @returns A provider that plays back the script
+   * @throws LLMError if the file cannot be read or parsed
+   */
+  static fromFile(path: string): ScriptedLLMProvider {
+    let raw: string;
+    try {
+      raw = readFileSync(path, 'utf-8');
+    } catch (error) {
+      throw new LLMError(
+        `Could not read LLM script file: ${path}`,
+        'invalid_request',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    try {
+      return new ScriptedLLMProvider(JSON.parse(raw) as LLMScript);
+    } catch (error) {
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      throw new LLMError(
+        `LLM script file is not valid JSON: ${path}`,
+        'invalid_request',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Sets a system prompt to be included with all subsequent requests.
+   *
+   * @param prompt - The system prompt text, or undefined to clear
+   */
+  setSystemPrompt(prompt: string | undefined): void {
+    this.systemPrompt = prompt;
+  }
+
+  /**
+   * Gets the current system prompt.
+   *
+   * @returns The current system prompt, or undefined if not set
+   */
+  getSystemPrompt(): string | undefined {
+    return this.systemPrompt;
+  }
+
+  /**
+   * Returns the next matching scripted response.
+   *
+   * @param messages - Either a single user message string or an array of messages
+   * @param _config - Ignored; accepted for interface compatibility
+   * @returns The scripted response with real or estimated usage
+   * @throws LLMError if no scripted response matches and there is no fallback
+   */
+  async complete(
+    messages: string | LLMMessage[],
+    _config?: LLMConfig
+  ): Promise<LLMResponse> {
+    const normalized = this.normalizeMessages(messages);
+    const entry = this.selectResponse(normalized);
+    const text = entry?.text ?? this.script.fallback;
+
+    if (text === undefined) {
+      const lastUser = this.getLastUserContent(normalized);
+      throw new LLMError(
+        `LLM script has no response matching request: "${lastUser.slice(0, 80)}"`,
+        'invalid_request'
+      );
+    }
+
+    this.calls.push({
+      messages: normalized,
+      systemPrompt: this.systemPrompt,
+      responseText: text,
+    });
+
+    return {
+      text,
+      usage: entry?.usage ?? {
+        inputTokens: estimateConversationTokens(normalized, this.systemPrompt),
+        outputTokens: estimateTokens(text),
+      },
+      stopReason: 'end_turn',
+    };
+  }
+
+  /**
+   * Plays back the next matching scripted response as a stream.
+   * The text is emitted word by word to mimic incremental delivery.
+   *
+   * @param messages - Either a single user message string or an array of messages
+   * @param callbacks - Callbacks for handling stream events
+   * @param config - Ignored; accepted for interface compatibility
+   * @throws LLMError if no scripted response matches and there is no fallback
+   */
+  async stream(
+    messages: string | LLMMessage[],
+    callbacks: StreamCallbacks,
+    config?: LLMConfig
+  ): Promise<void> {
+    let response: LLMResponse;
+    try {
+      response = await this.complete(messages, config);
+    } catch (error) {
+      const llmError = error instanceof LLMError
+        ? error
+        : new LLMError('Scripted stream failed', 'unknown', error as Error);
+      callbacks.onError?.(llmError);
+      throw llmError;
+    }
+
+    // Split on whitespace boundaries while keeping the whitespace attached,
+    // so concatenating the chunks reproduces the original text exactly
+    const chunks = response.text.match(/\S+\s*|\s+/g) ?? [];
+    for (const chunk of chunks) {
+      callbacks.onText?.(chunk);
+    }
+
+    callbacks.onComplete?.(response.text);
+  }
+
+  /**
+   * Estimates the number of tokens in a string.
+   *
+   * @param text - The text to estimate tokens for
+   * @returns Estimated token count
+   */
+  estimateTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  /**
+   * Estimates token count for a conversation.
+   *
+   * @param messages - Array of messages to estimate
+   * @param systemPrompt - Optional system prompt to include in estimate
+   * @returns Estimated total token count
+   */
+  estimateConversationTokens(messages: LLMMessage[], systemPrompt?: string): number {
+    return estimateConversationTokens(messages, systemPrompt);
+  }
+
+  /**
+   * Returns every request handled so far, in order.
+   */
+  getCalls(): ScriptedCall[] {
+    return [...this.calls];
+  }
+
+  /**
+   * Returns the number of non-repeating entries that have not been used yet.
+   * A fully played script returns 0.
+   */
+  getRemainingCount(): number {
+    return this.script.responses.filter(
+      (entry, index) => !entry.repeat && !this.consumed.has(index)
+    ).length;
+  }
+
+  /**
+   * Rewinds the script so every entry can be used again and clears the call log.
+   */
+  reset(): void {
+    this.consumed.clear();
+    this.calls = [];
+  }
+
+  // ===========================================================================
+  // Private Helper Methods
+  // ===========================================================================
+
+  /**
+   * Finds the first eligible response for a request and marks it consumed.
+   *
+   * @param messages - The normalized request messages
+   * @returns The selected entry, or undefined if none matches
+   */
+  private selectResponse(messages: LLMMessage[]): ScriptedResponse | undefined {
+    const lastUser = this.getLastUserContent(messages);
+
+    for (let index = 0; index < this.script.responses.length; index++) {
+      if (this.consumed.has(index)) {
+        continue;
+      }
+
+      const entry = this.script.responses[index];
+      if (!this.matches(entry.match, lastUser)) {
+        continue;
+      }
+
+      if (!entry.repeat) {
+        this.consumed.add(index);
+      }
+      return entry;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks whether a request satisfies an entry's match conditions.
+   */
+  private matches(match: ScriptedResponseMatch | undefined, lastUser: string): boolean {
+    if (!match) {
+      return true;
+    }
+    if (match.promptIncludes !== undefined && !lastUser.includes(match.promptIncludes)) {
+      return false;
+    }
+    if (
+      match.systemIncludes !== undefined &&
+      !(this.systemPrompt ?? '').includes(match.systemIncludes)
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Normalizes input to a message array, mirroring AnthropicClient.
+   */
+  private normalizeMessages(messages: string | LLMMessage[]): LLMMessage[] {
+    if (typeof messages === 'string') {
+      return [{ role: 'user', content: messages }];
+    }
+    return messages;
+  }
+
+  /**
+   * Returns the content of the last user message, or an empty string.
+   */
+  private getLastUserContent(messages: LLMMessage[]): string {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === 'user') {
+        return messages[i].content;
+      }
+    }
+    return '';
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Token Estimation Utilities
+ *
+ * Character-based token estimates shared by every LLMProvider implementation.
+ * These are approximations, not exact tokenization - use them for rough
+ * budgeting before a call, or as a stand-in for usage data when a provider
+ * (such as the offline scripted provider) has no real token counts.
+ */
+
+import type { LLMMessage } from './types';
+
+/**
+ * Claude models use roughly 4 characters per token for English text.
+ * Actual tokenization varies by content and language.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Approximate structural overhead (role markers, separators) per message.
+ */
+const MESSAGE_OVERHEAD = 4;
+
+/**
+ * Estimates the number of tokens in a string.
+ *
+ * @param text - The text to estimate tokens for
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates token count for a conversation.
+ * Includes both message content and approximate overhead for message structure.
+ *
+ * @param messages - Array of messages to estimate
+ * @param systemPrompt - Optional system prompt to include in estimate
+ * @returns Estimated total token count
+ */
+export function estimateConversationTokens(
+  messages: LLMMessage[],
+  systemPrompt?: string
+): number {
+  let total = 0;
+
+  // Add tokens for system prompt if present
+  if (systemPrompt) {
+    total += estimateTokens(systemPrompt);
+  }
+
+  // Add tokens for each message (content + small overhead for role/structure)
+  for (const message of messages) {
+    total += estimateTokens(message.content) + MESSAGE_OVERHEAD;
+  }
+
+  return total;
+}
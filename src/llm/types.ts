@@ -92,6 +92,76 @@ export interface LLMResponse {
   stopReason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | null;
 }
 
+/**
+ * Provider-agnostic interface for LLM backends.
+ *
+ * Everything that talks to a model (the SessionEngine, RecallEvaluator and
+ * RabbitholeDetector) depends on this interface rather than on a concrete
+ * client, so the Anthropic API can be swapped for an offline provider in
+ * tests, CI, or when no API key is available.
+ *
+ * Implementations:
+ * - AnthropicClient: Live calls to the Anthropic Messages API
+ * - ScriptedLLMProvider: Deterministic canned responses loaded from fixtures
+ * - RecordingLLMProvider: Wraps another provider and records a cassette
+ * - ReplayLLMProvider: Serves responses from a recorded cassette
+ */
+export interface LLMProvider {
+  /**
+   * Sets a system prompt to be included with all subsequent requests.
+   * @param prompt - The system prompt text, or undefined to clear
+   */
+  setSystemPrompt(prompt: string | undefined): void;
+
+  /**
+   * Gets the current system prompt.
+   * @returns The current system prompt, or undefined if not set
+   */
+  getSystemPrompt(): string | undefined;
+
+  /**
+   * Makes a non-streaming call and returns the complete response.
+   * @param messages - A single user message string or a full message array
+   * @param config - Optional per-request configuration overrides
+   */
+  complete(messages: string | LLMMessage[], config?: LLMConfig): Promise<LLMResponse>;
+
+  /**
+   * Makes a streaming call, invoking callbacks as text arrives.
+   * @param messages - A single user message string or a full message array
+   * @param callbacks - Callbacks for handling stream events
+   * @param config - Optional per-request configuration overrides
+   */
+  stream(
+    messages: string | LLMMessage[],
+    callbacks: StreamCallbacks,
+    config?: LLMConfig
+  ): Promise<void>;
+
+  /**
+   * Estimates the number of tokens in a string.
+   * @param text - The text to estimate tokens for
+   */
+  estimateTokens(text: string): number;
+
+  /**
+   * Estimates token count for a conversation including structural overhead.
+   * @param messages - Array of messages to estimate
+   * @param systemPrompt - Optional system prompt to include in the estimate
+   */
+  estimateConversationTokens(messages: LLMMessage[], systemPrompt?: string): number;
+}
+
+/**
+ * Identifies which LLMProvider implementation to construct.
+ *
+ * - 'anthropic': Live Anthropic API (requires ANTHROPIC_API_KEY)
+ * - 'scripted': Offline canned responses read from a script fixture file
+ * - 'record': Live Anthropic API, with all traffic written to a cassette file
+ * - 'replay': Offline playback of a previously recorded cassette
+ */
+export type LLMProviderType = 'anthropic' | 'scripted' | 'record' | 'replay';
+
 /**
  * Error types that can occur when calling the LLM API.
  * These help distinguish between different failure modes.
@@ -11,16 +11,16 @@
  */
 
 // Export database connection factory and default instance
-export { db, createDatabase } from './db';
+export { db, createDatabase, createPostgresDatabase, closeDatabase } from './db';
 export type { AppDatabase } from './db';
 
-// Export all table definitions
+// Export table definitions for the configured dialect (SQLite or PostgreSQL)
 export {
   recallSets,
   recallPoints,
   sessions,
   sessionMessages,
-} from './schema';
+} from './tables';
 
 // Export all inferred types for type-safe database operations
 export type {
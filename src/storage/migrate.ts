@@ -1,16 +1,19 @@
 /**
  * Database Migration Runner for Contextual Clarity
  *
- * This script applies pending Drizzle ORM migrations to the SQLite database.
- * It should be run whenever the schema changes to keep the database in sync.
+ * This script applies pending Drizzle ORM migrations to the configured
+ * database. It should be run whenever the schema changes to keep the
+ * database in sync.
  *
  * Usage:
  *   bun run db:migrate                    # Uses default database path
  *   DATABASE_URL=/path/to/db bun run db:migrate  # Custom database path
+ *   DATABASE_TYPE=postgres DATABASE_URL=postgres://... bun run db:migrate
  *
  * The script will:
- * 1. Connect to the database (creating it if it doesn't exist)
- * 2. Apply any pending migrations from the ./drizzle folder
+ * 1. Connect to the database (creating it if it doesn't exist, for SQLite)
+ * 2. Apply any pending migrations from ./drizzle (SQLite) or ./drizzle-pg
+ *    (PostgreSQL)
  * 3. Report success or failure with descriptive messages
  *
  * Migrations are tracked in a __drizzle_migrations table, so running this
@@ -18,67 +21,140 @@
  */
 
 import { migrate } from 'drizzle-orm/bun-sqlite/migrator';
+import { migrate as migratePostgres } from 'drizzle-orm/postgres-js/migrator';
 import { Database } from 'bun:sqlite';
+import postgres from 'postgres';
 import { resolve } from 'path';
-import { getDatabaseURL } from '../config';
+import { getDatabaseURL, getDatabaseType } from '../config';
 
 // Determine database path from environment or use default
 const dbPath = getDatabaseURL();
+const dbType = getDatabaseType();
 
-console.log(`[migrate] Database path: ${dbPath}`);
-console.log('[migrate] Connecting to database...');
-
-// Create the raw SQLite connection first (for verification queries)
-const sqlite = new Database(dbPath);
-
-// Enable foreign key constraint enforcement
-// SQLite has this disabled by default for backwards compatibility
-sqlite.run('PRAGMA foreign_keys = ON');
-
-// Import drizzle here to wrap the existing connection
-const { drizzle } = await import('drizzle-orm/bun-sqlite');
-const db = drizzle(sqlite);
-
-// Resolve the migrations folder path relative to the project root
-// This ensures the script works regardless of where it's invoked from
-const migrationsFolder = resolve(import.meta.dir, '../../drizzle');
-
-console.log(`[migrate] Migrations folder: ${migrationsFolder}`);
-console.log('[migrate] Running migrations...');
-
-try {
-  // Apply all pending migrations
-  // This will:
-  // - Create the __drizzle_migrations table if it doesn't exist
-  // - Read all .sql files from the migrations folder
-  // - Execute any migrations that haven't been applied yet
-  // - Record successful migrations to prevent re-running
-  migrate(db, { migrationsFolder });
-
-  console.log('[migrate] Migrations completed successfully.');
-
-  // Verify that tables were created by listing them
-  // Using raw SQLite queries for verification
-  // Note: We exclude sqlite internal tables and drizzle migrations table
-  const tablesResult = sqlite
-    .query<{ name: string }, []>(
-      "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' AND name != '__drizzle_migrations' ORDER BY name"
-    )
-    .all();
-
-  console.log('[migrate] Tables in database:');
-  for (const table of tablesResult) {
-    console.log(`  - ${table.name}`);
+if (dbType === 'postgres') {
+  await migratePostgresDatabase(dbPath);
+} else {
+  await migrateSqliteDatabase(dbPath);
+}
+
+/**
+ * Applies the SQLite migrations in ./drizzle.
+ *
+ * @param dbPath - Path to the SQLite database file
+ */
+async function migrateSqliteDatabase(dbPath: string): Promise<void> {
+  console.log(`[migrate] Database path: ${dbPath}`);
+  console.log('[migrate] Connecting to database...');
+
+  // Create the raw SQLite connection first (for verification queries)
+  const sqlite = new Database(dbPath);
+
+  // Leave foreign key enforcement off while migrating. Migrations that change
+  // a column's constraints rebuild the table (create a copy, drop the
+  // original, rename), and SQLite ignores the PRAGMA that would switch
+  // enforcement off inside the migration's transaction, so dropping a table
+  // that other tables reference would fail. Enforcement is switched on
+  // again, after a check, once the migrations have run.
+  sqlite.run('PRAGMA foreign_keys = OFF');
+
+  // Import drizzle here to wrap the existing connection
+  const { drizzle } = await import('drizzle-orm/bun-sqlite');
+  const db = drizzle(sqlite);
+
+  // Resolve the migrations folder path relative to the project root
+  // This ensures the script works regardless of where it's invoked from
+  const migrationsFolder = resolve(import.meta.dir, '../../drizzle');
+
+  console.log(`[migrate] Migrations folder: ${migrationsFolder}`);
+  console.log('[migrate] Running migrations...');
+
+  try {
+    // Apply all pending migrations
+    // This will:
+    // - Create the __drizzle_migrations table if it doesn't exist
+    // - Read all .sql files from the migrations folder
+    // - Execute any migrations that haven't been applied yet
+    // - Record successful migrations to prevent re-running
+    migrate(db, { migrationsFolder });
+
+    // Make sure the rebuilt tables still satisfy every foreign key
+    const violations = sqlite.query('PRAGMA foreign_key_check').all();
+    if (violations.length > 0) {
+      throw new Error(`${violations.length} foreign key violations after migrating`);
+    }
+    sqlite.run('PRAGMA foreign_keys = ON');
+
+    console.log('[migrate] Migrations completed successfully.');
+
+    // Verify that tables were created by listing them
+    // Using raw SQLite queries for verification
+    // Note: We exclude sqlite internal tables and drizzle migrations table
+    const tablesResult = sqlite
+      .query<{ name: string }, []>(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' AND name != '__drizzle_migrations' ORDER BY name"
+      )
+      .all();
+
+    console.log('[migrate] Tables in database:');
+    for (const table of tablesResult) {
+      console.log(`  - ${table.name}`);
+    }
+
+    // Verify foreign keys are enabled
+    // The PRAGMA query returns { foreign_keys: 0 | 1 }
+    const fkResult = sqlite.query<{ foreign_keys: number }, []>('PRAGMA foreign_keys').get();
+
+    console.log(
+      `[migrate] Foreign key enforcement: ${fkResult?.foreign_keys === 1 ? 'ENABLED' : 'DISABLED'}`
+    );
+  } catch (error) {
+    console.error('[migrate] Migration failed:', error);
+    process.exit(1);
   }
+}
+
+/**
+ * Applies the PostgreSQL migrations in ./drizzle-pg.
+ *
+ * @param url - PostgreSQL connection string
+ */
+async function migratePostgresDatabase(url: string): Promise<void> {
+  // Don't print credentials embedded in the connection string
+  console.log(`[migrate] Database: ${url.replace(/\/\/[^@]*@/, '//***@')}`);
+  console.log('[migrate] Connecting to database...');
 
-  // Verify foreign keys are enabled
-  // The PRAGMA query returns { foreign_keys: 0 | 1 }
-  const fkResult = sqlite.query<{ foreign_keys: number }, []>('PRAGMA foreign_keys').get();
+  // A single connection is enough for running migrations
+  const client = postgres(url, { max: 1, onnotice: () => {} });
 
-  console.log(
-    `[migrate] Foreign key enforcement: ${fkResult?.foreign_keys === 1 ? 'ENABLED' : 'DISABLED'}`
-  );
-} catch (error) {
-  console.error('[migrate] Migration failed:', error);
-  process.exit(1);
+  const { drizzle } = await import('drizzle-orm/postgres-js');
+  const db = drizzle(client);
+
+  const migrationsFolder = resolve(import.meta.dir, '../../drizzle-pg');
+
+  console.log(`[migrate] Migrations folder: ${migrationsFolder}`);
+  console.log('[migrate] Running migrations...');
+
+  try {
+    // Migration history is kept in drizzle.__drizzle_migrations
+    await migratePostgres(db, { migrationsFolder });
+
+    console.log('[migrate] Migrations completed successfully.');
+
+    // Verify that tables were created by listing them
+    const tables = await client<{ table_name: string }[]>`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = current_schema() AND table_type = 'BASE TABLE'
+      ORDER BY table_name
+    `;
+
+    console.log('[migrate] Tables in database:');
+    for (const table of tables) {
+      console.log(`  - ${table.table_name}`);
+    }
+  } catch (error) {
+    console.error('[migrate] Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await client.end();
+  }
 }
@@ -0,0 +1,419 @@
+/**
+ * PostgreSQL Schema Definitions for Contextual Clarity
+ *
+ * A pg-core mirror of the SQLite schema in schema.ts, used when
+ * DATABASE_TYPE=postgres. Every table, column, and index has the same name
+ * and the same TypeScript type as its SQLite counterpart, so repositories
+ * can run unchanged against either dialect (see tables.ts). Column meanings
+ * are documented in schema.ts.
+ *
+ * Type mapping from SQLite:
+ * - integer timestamps (timestamp_ms) -> timestamptz, read back as Date
+ * - real -> double precision (SQLite REAL is a 64-bit float)
+ * - integer booleans -> boolean
+ * - JSON stored as text -> jsonb
+ *
+ * Any change to schema.ts must be made here too, followed by
+ * `bun run db:generate` and `bun run db:generate:pg` to produce a migration
+ * for each dialect.
+ */
+
+import {
+  pgTable,
+  text,
+  integer,
+  doublePrecision,
+  boolean,
+  timestamp,
+  jsonb,
+  index,
+} from 'drizzle-orm/pg-core';
+
+/**
+ * Timestamp column stored as timestamptz and read back as a Date.
+ */
+function timestampColumn(name: string) {
+  return timestamp(name, { mode: 'date', withTimezone: true });
+}
+
+/**
+ * Users Table - accounts that own recall sets and sessions.
+ */
+export const users = pgTable('users', {
+  id: text('id').primaryKey(),
+  email: text('email').notNull().unique(),
+  name: text('name').notNull(),
+  passwordHash: text('password_hash').notNull(),
+  createdAt: timestampColumn('created_at').notNull(),
+  updatedAt: timestampColumn('updated_at').notNull(),
+  lastLoginAt: timestampColumn('last_login_at'),
+});
+
+/**
+ * Recall Sets Table - collections of related recall points.
+ */
+export const recallSets = pgTable(
+  'recall_sets',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id').references(() => users.id),
+    name: text('name').notNull(),
+    description: text('description').notNull(),
+    status: text('status', { enum: ['active', 'paused', 'archived'] })
+      .notNull()
+      .default('active'),
+    discussionSystemPrompt: text('discussion_system_prompt').notNull(),
+    desiredRetention: doublePrecision('desired_retention'),
+    maximumIntervalDays: integer('maximum_interval_days'),
+    maxPointsPerSession: integer('max_points_per_session'),
+    newPointsPerDay: integer('new_points_per_day'),
+    leechLapseThreshold: integer('leech_lapse_threshold'),
+    createdAt: timestampColumn('created_at').notNull(),
+    updatedAt: timestampColumn('updated_at').notNull(),
+  },
+  (table) => [index('recall_sets_user_id_idx').on(table.userId)]
+);
+
+/**
+ * Recall Points Table - individual facts tracked with FSRS.
+ */
+export const recallPoints = pgTable('recall_points', {
+  id: text('id').primaryKey(),
+  recallSetId: text('recall_set_id')
+    .notNull()
+    .references(() => recallSets.id),
+  content: text('content').notNull(),
+  context: text('context').notNull(),
+  fsrsDifficulty: doublePrecision('fsrs_difficulty').notNull(),
+  fsrsStability: doublePrecision('fsrs_stability').notNull(),
+  fsrsDue: timestampColumn('fsrs_due').notNull(),
+  fsrsLastReview: timestampColumn('fsrs_last_review'),
+  fsrsReps: integer('fsrs_reps').notNull().default(0),
+  fsrsLapses: integer('fsrs_lapses').notNull().default(0),
+  fsrsState: text('fsrs_state', {
+    enum: ['new', 'learning', 'review', 'relearning'],
+  })
+    .notNull()
+    .default('new'),
+  recallHistory: jsonb('recall_history')
+    .$type<Array<{ timestamp: number; success: boolean; latencyMs: number }>>()
+    .notNull()
+    .default([]),
+  suspendedAt: timestampColumn('suspended_at'),
+  deepDiveRequestedAt: timestampColumn('deep_dive_requested_at'),
+  createdAt: timestampColumn('created_at').notNull(),
+  updatedAt: timestampColumn('updated_at').notNull(),
+});
+
+/**
+ * Sessions Table - recall sessions for a recall set.
+ */
+export const sessions = pgTable(
+  'sessions',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id').references(() => users.id),
+    recallSetId: text('recall_set_id').references(() => recallSets.id),
+    status: text('status', { enum: ['in_progress', 'completed', 'abandoned'] })
+      .notNull()
+      .default('in_progress'),
+    mode: text('mode', { enum: ['review', 'practice', 'deep-dive'] })
+      .notNull()
+      .default('review'),
+    targetRecallPointIds: jsonb('target_recall_point_ids')
+      .$type<string[]>()
+      .notNull(),
+    promptVersions: jsonb('prompt_versions').$type<{
+      tutor: string;
+      evaluator: string;
+      rabbithole: string;
+    }>(),
+    experimentId: text('experiment_id'),
+    experimentVariant: text('experiment_variant'),
+    startedAt: timestampColumn('started_at').notNull(),
+    endedAt: timestampColumn('ended_at'),
+  },
+  (table) => [
+    index('sessions_user_id_idx').on(table.userId),
+    index('sessions_experiment_id_idx').on(table.experimentId),
+  ]
+);
+
+/**
+ * Session Messages Table - conversation history within sessions.
+ */
+export const sessionMessages = pgTable('session_messages', {
+  id: text('id').primaryKey(),
+  sessionId: text('session_id')
+    .notNull()
+    .references(() => sessions.id),
+  role: text('role', { enum: ['user', 'assistant', 'system'] }).notNull(),
+  content: text('content').notNull(),
+  timestamp: timestampColumn('timestamp').notNull(),
+  tokenCount: integer('token_count'),
+});
+
+/**
+ * Session Metrics Table - aggregated metrics for a completed session.
+ */
+export const sessionMetrics = pgTable(
+  'session_metrics',
+  {
+    id: text('id').primaryKey(),
+    sessionId: text('session_id')
+      .notNull()
+      .unique()
+      .references(() => sessions.id),
+    durationMs: integer('duration_ms').notNull(),
+    activeTimeMs: integer('active_time_ms').notNull(),
+    avgUserResponseTimeMs: integer('avg_user_response_time_ms').notNull(),
+    avgAssistantResponseTimeMs: integer(
+      'avg_assistant_response_time_ms'
+    ).notNull(),
+    recallPointsAttempted: integer('recall_points_attempted').notNull(),
+    recallPointsSuccessful: integer('recall_points_successful').notNull(),
+    recallPointsFailed: integer('recall_points_failed').notNull(),
+    overallRecallRate: doublePrecision('overall_recall_rate').notNull(),
+    avgConfidence: doublePrecision('avg_confidence').notNull(),
+    totalMessages: integer('total_messages').notNull(),
+    userMessages: integer('user_messages').notNull(),
+    assistantMessages: integer('assistant_messages').notNull(),
+    avgMessageLength: doublePrecision('avg_message_length').notNull(),
+    rabbitholeCount: integer('rabbithole_count').notNull().default(0),
+    totalRabbitholeTimeMs: integer('total_rabbithole_time_ms')
+      .notNull()
+      .default(0),
+    avgRabbitholeDepth: doublePrecision('avg_rabbithole_depth').notNull().default(0),
+    inputTokens: integer('input_tokens').notNull(),
+    outputTokens: integer('output_tokens').notNull(),
+    totalTokens: integer('total_tokens').notNull(),
+    estimatedCostUsd: doublePrecision('estimated_cost_usd').notNull(),
+    engagementScore: integer('engagement_score').notNull(),
+    calculatedAt: timestampColumn('calculated_at').notNull(),
+  },
+  (table) => [index('session_metrics_session_id_idx').on(table.sessionId)]
+);
+
+/**
+ * Recall Outcomes Table - per-point evaluation results within a session.
+ */
+export const recallOutcomes = pgTable(
+  'recall_outcomes',
+  {
+    id: text('id').primaryKey(),
+    sessionId: text('session_id')
+      .notNull()
+      .references(() => sessions.id),
+    recallPointId: text('recall_point_id')
+      .notNull()
+      .references(() => recallPoints.id),
+    success: boolean('success').notNull(),
+    confidence: doublePrecision('confidence').notNull(),
+    rating: text('rating', { enum: ['forgot', 'hard', 'good', 'easy'] }),
+    aiRating: text('ai_rating', { enum: ['forgot', 'hard', 'good', 'easy'] }),
+    learnerRating: text('learner_rating', { enum: ['forgot', 'hard', 'good', 'easy'] }),
+    hintsUsed: integer('hints_used').notNull().default(0),
+    reasoning: text('reasoning'),
+    messageIndexStart: integer('message_index_start').notNull(),
+    messageIndexEnd: integer('message_index_end').notNull(),
+    timeSpentMs: integer('time_spent_ms').notNull(),
+    createdAt: timestampColumn('created_at').notNull(),
+  },
+  (table) => [
+    index('recall_outcomes_session_id_idx').on(table.sessionId),
+    index('recall_outcomes_recall_point_id_idx').on(table.recallPointId),
+  ]
+);
+
+/**
+ * Rabbithole Events Table - tangents detected during sessions.
+ */
+export const rabbitholeEvents = pgTable(
+  'rabbithole_events',
+  {
+    id: text('id').primaryKey(),
+    sessionId: text('session_id')
+      .notNull()
+      .references(() => sessions.id),
+    topic: text('topic').notNull(),
+    triggerMessageIndex: integer('trigger_message_index').notNull(),
+    returnMessageIndex: integer('return_message_index'),
+    depth: integer('depth').notNull(),
+    relatedRecallPointIds: jsonb('related_recall_point_ids')
+      .$type<string[]>()
+      .notNull()
+      .default([]),
+    userInitiated: boolean('user_initiated').notNull(),
+    status: text('status', { enum: ['active', 'returned', 'abandoned'] })
+      .notNull()
+      .default('active'),
+    createdAt: timestampColumn('created_at').notNull(),
+  },
+  (table) => [index('rabbithole_events_session_id_idx').on(table.sessionId)]
+);
+
+/**
+ * Message Timings Table - per-message timing data for metrics.
+ */
+export const messageTimings = pgTable(
+  'message_timings',
+  {
+    id: text('id').primaryKey(),
+    sessionId: text('session_id')
+      .notNull()
+      .references(() => sessions.id),
+    messageId: text('message_id')
+      .notNull()
+      .references(() => sessionMessages.id),
+    role: text('role', { enum: ['user', 'assistant', 'system'] }).notNull(),
+    timestamp: timestampColumn('timestamp').notNull(),
+    responseLatencyMs: integer('response_latency_ms'),
+    tokenCount: integer('token_count').notNull(),
+  },
+  (table) => [index('message_timings_session_id_idx').on(table.sessionId)]
+);
+
+/**
+ * Ingestion Sources Table - raw source text submitted for ingestion.
+ */
+export const ingestionSources = pgTable('ingestion_sources', {
+  id: text('id').primaryKey(),
+  type: text('type', { enum: ['text', 'file'] }).notNull(),
+  name: text('name'),
+  content: text('content').notNull(),
+  createdAt: timestampColumn('created_at').notNull(),
+});
+
+/**
+ * Ingestion Jobs Table - drafting a recall set from a source.
+ */
+export const ingestionJobs = pgTable(
+  'ingestion_jobs',
+  {
+    id: text('id').primaryKey(),
+    sourceId: text('source_id')
+      .notNull()
+      .references(() => ingestionSources.id),
+    status: text('status', {
+      enum: ['extracting', 'reviewing', 'completed', 'failed', 'cancelled'],
+    })
+      .notNull()
+      .default('extracting'),
+    candidates: jsonb('candidates')
+      .$type<
+        Array<{
+          id: string;
+          content: string;
+          context: string;
+          sourceQuote: string | null;
+          status: 'pending' | 'approved' | 'edited' | 'rejected';
+        }>
+      >()
+      .notNull()
+      .default([]),
+    suggestedName: text('suggested_name'),
+    suggestedDescription: text('suggested_description'),
+    recallSetId: text('recall_set_id').references(() => recallSets.id),
+    error: text('error'),
+    createdAt: timestampColumn('created_at').notNull(),
+    updatedAt: timestampColumn('updated_at').notNull(),
+    completedAt: timestampColumn('completed_at'),
+  },
+  (table) => [index('ingestion_jobs_status_idx').on(table.status)]
+);
+
+/**
+ * FSRS Parameters Table - weights fitted to a user's review history.
+ */
+export const fsrsParameters = pgTable(
+  'fsrs_parameters',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id').references(() => users.id),
+    recallSetId: text('recall_set_id').references(() => recallSets.id),
+    weights: jsonb('weights').$type<number[]>().notNull(),
+    reviewCount: integer('review_count').notNull(),
+    logLossBefore: doublePrecision('log_loss_before').notNull(),
+    logLossAfter: doublePrecision('log_loss_after').notNull(),
+    fittedAt: timestampColumn('fitted_at').notNull(),
+  },
+  (table) => [
+    index('fsrs_parameters_user_id_idx').on(table.userId),
+    index('fsrs_parameters_recall_set_id_idx').on(table.recallSetId),
+  ]
+);
+
+/**
+ * Outcome Evaluations Table - recall outcomes judged again by a later
+ * version of the evaluation prompt.
+ */
+export const outcomeEvaluations = pgTable(
+  'outcome_evaluations',
+  {
+    id: text('id').primaryKey(),
+    recallOutcomeId: text('recall_outcome_id')
+      .notNull()
+      .references(() => recallOutcomes.id),
+    evaluatorVersion: text('evaluator_version').notNull(),
+    success: boolean('success').notNull(),
+    confidence: doublePrecision('confidence').notNull(),
+    rating: text('rating', { enum: ['forgot', 'hard', 'good', 'easy'] }).notNull(),
+    reasoning: text('reasoning').notNull(),
+    keyDemonstratedConcepts: jsonb('key_demonstrated_concepts').$type<string[]>().notNull(),
+    missedConcepts: jsonb('missed_concepts').$type<string[]>().notNull(),
+    createdAt: timestampColumn('created_at').notNull(),
+  },
+  (table) => [
+    index('outcome_evaluations_recall_outcome_id_idx').on(table.recallOutcomeId),
+    index('outcome_evaluations_evaluator_version_idx').on(table.evaluatorVersion),
+  ]
+);
+
+/**
+ * Session Annotations Table - notes and tags on sessions or on single
+ * transcript messages, for prompt refinement.
+ */
+export const sessionAnnotations = pgTable(
+  'session_annotations',
+  {
+    id: text('id').primaryKey(),
+    sessionId: text('session_id')
+      .notNull()
+      .references(() => sessions.id),
+    messageIndex: integer('message_index'),
+    note: text('note').notNull(),
+    tags: jsonb('tags').$type<string[]>().notNull(),
+    createdAt: timestampColumn('created_at').notNull(),
+    updatedAt: timestampColumn('updated_at').notNull(),
+  },
+  (table) => [index('session_annotations_session_id_idx').on(table.sessionId)]
+);
+
+/**
+ * Tangent Candidates Table - recall points proposed from session
+ * rabbitholes, awaiting review.
+ */
+export const tangentCandidates = pgTable(
+  'tangent_candidates',
+  {
+    id: text('id').primaryKey(),
+    sessionId: text('session_id')
+      .notNull()
+      .references(() => sessions.id),
+    rabbitholeEventId: text('rabbithole_event_id')
+      .notNull()
+      .unique()
+      .references(() => rabbitholeEvents.id),
+    recallSetId: text('recall_set_id').references(() => recallSets.id),
+    topic: text('topic').notNull(),
+    content: text('content').notNull(),
+    context: text('context').notNull(),
+    status: text('status', { enum: ['pending', 'accepted', 'dismissed'] })
+      .notNull()
+      .default('pending'),
+    recallPointId: text('recall_point_id').references(() => recallPoints.id),
+    createdAt: timestampColumn('created_at').notNull(),
+    reviewedAt: timestampColumn('reviewed_at'),
+  },
+  (table) => [index('tangent_candidates_session_id_idx').on(table.sessionId)]
+);
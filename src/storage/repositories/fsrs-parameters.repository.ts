@@ -0,0 +1,205 @@
+/**
+ * FSRSParameters Repository Implementation
+ *
+ * This module provides data access operations for fitted FSRS weights.
+ * Weights are stored per scope: a recall set, or (with no recall set) all
+ * of a user's sets. Each scope has at most one row, which save() replaces.
+ *
+ * Like the RecallSet repository, it can be scoped to a user, whose
+ * user-wide weights it then reads and writes. An unscoped repository (the
+ * CLI) uses the user-wide row without an owner, as single-user databases do.
+ * Recall set rows are identified by the set alone; callers check that the
+ * set belongs to the user first.
+ */
+
+import { eq, and, isNull, type SQL } from 'drizzle-orm';
+import type { AppDatabase } from '../db';
+import { fsrsParameters, recallSets } from '../tables';
+import type { FSRSParameters } from '@/core/models';
+
+/**
+ * Input type for saving fitted weights for a scope.
+ */
+export interface SaveFSRSParametersInput {
+  /** Identifier for a new row (e.g., 'fsp_abc123'); unused when replacing */
+  id: string;
+  /** The recall set the weights apply to, or null for all of the user's sets */
+  recallSetId: string | null;
+  /** The 19 FSRS-5 weights */
+  weights: number[];
+  /** Number of reviews the weights were fitted on */
+  reviewCount: number;
+  /** Log loss of the previously used weights */
+  logLossBefore: number;
+  /** Log loss of the fitted weights */
+  logLossAfter: number;
+}
+
+/**
+ * Maps a database row to an FSRSParameters domain model.
+ *
+ * @param row - Raw database row from Drizzle query
+ * @returns FSRSParameters domain model
+ */
+function mapToDomain(row: typeof fsrsParameters.$inferSelect): FSRSParameters {
+  return {
+    id: row.id,
+    recallSetId: row.recallSetId,
+    weights: row.weights,
+    reviewCount: row.reviewCount,
+    logLossBefore: row.logLossBefore,
+    logLossAfter: row.logLossAfter,
+    // Drizzle's timestamp_ms mode already returns Date objects
+    fittedAt: row.fittedAt,
+  };
+}
+
+/**
+ * Repository for fitted FSRS weights.
+ *
+ * @example
+ * ```typescript
+ * const repo = new FSRSParametersRepository(db, user.id);
+ *
+ * // Store weights for all of the user's sets
+ * await repo.save({ id: 'fsp_' + crypto.randomUUID(), recallSetId: null, weights, reviewCount: 240, logLossBefore: 0.41, logLossAfter: 0.37 });
+ *
+ * // The weights a session in a set should use (set, then user-wide)
+ * const params = await repo.findForRecallSet('rs_abc123');
+ * ```
+ */
+export class FSRSParametersRepository {
+  /**
+   * Creates a new FSRSParametersRepository instance.
+   *
+   * @param db - The Drizzle database instance to use for queries
+   * @param userId - When set, every scope belongs to this user.
+   *                 Omit to work with rows that have no owner.
+   */
+  constructor(
+    private readonly db: AppDatabase,
+    private readonly userId?: string
+  ) {}
+
+  /**
+   * Condition matching the row stored for one scope. A recall set's row
+   * is found by the set alone (a set has one owner); the user-wide row by
+   * its owner, defaulting to the scoped user.
+   */
+  private scope(recallSetId: string | null, userId: string | null = this.userId ?? null): SQL {
+    if (recallSetId) {
+      return eq(fsrsParameters.recallSetId, recallSetId);
+    }
+    return and(
+      userId ? eq(fsrsParameters.userId, userId) : isNull(fsrsParameters.userId),
+      isNull(fsrsParameters.recallSetId)
+    )!;
+  }
+
+  /**
+   * Retrieves the weights stored for exactly one scope.
+   *
+   * @param recallSetId - The recall set, or null for the user-wide weights
+   * @returns The stored weights, or null if none were fitted for this scope
+   */
+  async findByScope(recallSetId: string | null): Promise<FSRSParameters | null> {
+    const result = await this.db
+      .select()
+      .from(fsrsParameters)
+      .where(this.scope(recallSetId))
+      .limit(1);
+
+    return result.length > 0 ? mapToDomain(result[0]) : null;
+  }
+
+  /**
+   * Retrieves the weights that apply to a recall set: the set's own weights
+   * if it has any, otherwise its owner's user-wide weights.
+   *
+   * The owner is read from the recall set itself, so this works on an
+   * unscoped repository too (as used by the session engine). The caller is
+   * responsible for checking the set belongs to the scoped user.
+   *
+   * @param recallSetId - The recall set being scheduled
+   * @returns The applicable weights, or null to use the FSRS defaults
+   */
+  async findForRecallSet(recallSetId: string): Promise<FSRSParameters | null> {
+    const setLevel = await this.db
+      .select()
+      .from(fsrsParameters)
+      .where(this.scope(recallSetId))
+      .limit(1);
+    if (setLevel.length > 0) {
+      return mapToDomain(setLevel[0]);
+    }
+
+    const owner = await this.db
+      .select({ userId: recallSets.userId })
+      .from(recallSets)
+      .where(eq(recallSets.id, recallSetId))
+      .limit(1);
+    if (owner.length === 0) {
+      return null;
+    }
+
+    const userLevel = await this.db
+      .select()
+      .from(fsrsParameters)
+      .where(this.scope(null, owner[0].userId))
+      .limit(1);
+    return userLevel.length > 0 ? mapToDomain(userLevel[0]) : null;
+  }
+
+  /**
+   * Stores fitted weights for a scope, replacing any previous weights.
+   *
+   * @param input - The scope and the fitted weights
+   * @returns The stored weights
+   */
+  async save(input: SaveFSRSParametersInput): Promise<FSRSParameters> {
+    const values = {
+      weights: input.weights,
+      reviewCount: input.reviewCount,
+      logLossBefore: input.logLossBefore,
+      logLossAfter: input.logLossAfter,
+      fittedAt: new Date(),
+    };
+
+    const existing = await this.findByScope(input.recallSetId);
+    if (existing) {
+      const result = await this.db
+        .update(fsrsParameters)
+        .set(values)
+        .where(eq(fsrsParameters.id, existing.id))
+        .returning();
+      return mapToDomain(result[0]);
+    }
+
+    const result = await this.db
+      .insert(fsrsParameters)
+      .values({
+        id: input.id,
+        userId: this.userId ?? null,
+        recallSetId: input.recallSetId,
+        ...values,
+      })
+      .returning();
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Deletes the weights stored for a scope, so it falls back to the
+   * user-wide weights (for a set) or the FSRS defaults.
+   *
+   * @param recallSetId - The recall set, or null for the user-wide weights
+   * @returns true if weights were deleted, false if none were stored
+   */
+  async deleteByScope(recallSetId: string | null): Promise<boolean> {
+    const result = await this.db
+      .delete(fsrsParameters)
+      .where(this.scope(recallSetId))
+      .returning({ id: fsrsParameters.id });
+
+    return result.length > 0;
+  }
+}
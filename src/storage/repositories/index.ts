@@ -48,8 +48,13 @@ export {
 // Session repository and types
 export {
   SessionRepository,
+  sessionCoversRecallSet,
+  sessionModeCondition,
+  type SessionModeFilter,
   type CreateSessionInput,
   type UpdateSessionInput,
+  type ExperimentSessionCount,
+  type ExperimentVariantStats,
 } from './session.repository';
 
 // SessionMessage repository and types
@@ -77,3 +82,51 @@ export {
   RabbitholeEventRepository,
   type TopicStats,
 } from './rabbithole-event.repository';
+
+// Ingestion repositories and types
+export {
+  IngestionSourceRepository,
+  type CreateIngestionSourceInput,
+  type UpdateIngestionSourceInput,
+} from './ingestion-source.repository';
+
+export {
+  IngestionJobRepository,
+  type CreateIngestionJobInput,
+  type UpdateIngestionJobInput,
+} from './ingestion-job.repository';
+
+// FSRSParameters repository and types
+export {
+  FSRSParametersRepository,
+  type SaveFSRSParametersInput,
+} from './fsrs-parameters.repository';
+
+// OutcomeEvaluation repository and types
+export {
+  OutcomeEvaluationRepository,
+  type SaveOutcomeEvaluationInput,
+} from './outcome-evaluation.repository';
+
+// SessionAnnotation repository and types
+export {
+  SessionAnnotationRepository,
+  type CreateSessionAnnotationInput,
+  type UpdateSessionAnnotationInput,
+  type AnnotationWithSession,
+} from './session-annotation.repository';
+
+// TangentCandidate repository and types
+export {
+  TangentCandidateRepository,
+  type CreateTangentCandidateInput,
+  type UpdateTangentCandidateInput,
+} from './tangent-candidate.repository';
+
+// User repository and types
+export {
+  UserRepository,
+  type CreateUserInput,
+  type UpdateUserInput,
+  type UserCredentials,
+} from './user.repository';
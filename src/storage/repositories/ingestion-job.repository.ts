@@ -0,0 +1,241 @@
+/**
+ * IngestionJob Repository Implementation
+ *
+ * This module provides data access operations for IngestionJob entities,
+ * which track extraction and review of a source into a draft recall set.
+ * Candidate recall points are stored as a JSON array on the job row, so
+ * review decisions are saved by replacing the candidates array.
+ */
+
+import { eq, desc, inArray } from 'drizzle-orm';
+import type { AppDatabase } from '../db';
+import { ingestionJobs } from '../tables';
+import type {
+  IngestionJob,
+  IngestionJobStatus,
+  IngestionCandidate,
+} from '@/core/models';
+import type { Repository } from './base';
+
+/**
+ * Input type for creating a new IngestionJob.
+ * Status defaults to 'extracting' and the candidates list starts empty.
+ */
+export interface CreateIngestionJobInput {
+  /** Unique identifier - typically a prefixed UUID (e.g., 'ing_abc123') */
+  id: string;
+  /** ID of the IngestionSource being ingested */
+  sourceId: string;
+  /** Initial lifecycle status */
+  status?: IngestionJobStatus;
+}
+
+/**
+ * Input type for updating an existing IngestionJob.
+ * All fields are optional - only specified fields will be updated.
+ */
+export interface UpdateIngestionJobInput {
+  /** Current lifecycle status */
+  status?: IngestionJobStatus;
+  /** Full replacement list of candidates */
+  candidates?: IngestionCandidate[];
+  /** LLM-suggested recall set name */
+  suggestedName?: string | null;
+  /** LLM-suggested recall set description */
+  suggestedDescription?: string | null;
+  /** The RecallSet created from this job */
+  recallSetId?: string | null;
+  /** Error message from the last failed extraction */
+  error?: string | null;
+  /** When the RecallSet was created */
+  completedAt?: Date | null;
+}
+
+/**
+ * Maps a database row to an IngestionJob domain model.
+ *
+ * @param row - Raw database row from Drizzle query
+ * @returns IngestionJob domain model with proper Date objects
+ */
+function mapToDomain(row: typeof ingestionJobs.$inferSelect): IngestionJob {
+  return {
+    id: row.id,
+    sourceId: row.sourceId,
+    status: row.status,
+    candidates: row.candidates,
+    suggestedName: row.suggestedName,
+    suggestedDescription: row.suggestedDescription,
+    recallSetId: row.recallSetId,
+    error: row.error,
+    // Drizzle's timestamp_ms mode already returns Date objects
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    completedAt: row.completedAt,
+  };
+}
+
+/**
+ * Repository for IngestionJob entity data access operations.
+ *
+ * @example
+ * ```typescript
+ * const repo = new IngestionJobRepository(db);
+ *
+ * const job = await repo.create({
+ *   id: 'ing_' + crypto.randomUUID(),
+ *   sourceId: source.id,
+ * });
+ *
+ * // Save review decisions
+ * await repo.update(job.id, { candidates: reviewedCandidates });
+ *
+ * // Find jobs that can be resumed
+ * const resumable = await repo.findByStatus(['reviewing', 'failed']);
+ * ```
+ */
+export class IngestionJobRepository
+  implements Repository<IngestionJob, CreateIngestionJobInput, UpdateIngestionJobInput>
+{
+  /**
+   * Creates a new IngestionJobRepository instance.
+   *
+   * @param db - The Drizzle database instance to use for queries
+   */
+  constructor(private readonly db: AppDatabase) {}
+
+  /**
+   * Retrieves a job by its unique identifier.
+   *
+   * @param id - The unique identifier of the job
+   * @returns The IngestionJob if found, or null if not found
+   */
+  async findById(id: string): Promise<IngestionJob | null> {
+    const result = await this.db
+      .select()
+      .from(ingestionJobs)
+      .where(eq(ingestionJobs.id, id))
+      .limit(1);
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Retrieves all jobs, most recently updated first.
+   *
+   * @returns Array of all IngestionJob domain models (may be empty)
+   */
+  async findAll(): Promise<IngestionJob[]> {
+    const results = await this.db
+      .select()
+      .from(ingestionJobs)
+      .orderBy(desc(ingestionJobs.updatedAt));
+    return results.map(mapToDomain);
+  }
+
+  /**
+   * Finds jobs in any of the given statuses, most recently updated first.
+   *
+   * @param statuses - One or more statuses to match
+   * @returns Matching jobs (may be empty)
+   */
+  async findByStatus(statuses: IngestionJobStatus[]): Promise<IngestionJob[]> {
+    if (statuses.length === 0) {
+      return [];
+    }
+
+    const results = await this.db
+      .select()
+      .from(ingestionJobs)
+      .where(inArray(ingestionJobs.status, statuses))
+      .orderBy(desc(ingestionJobs.updatedAt));
+    return results.map(mapToDomain);
+  }
+
+  /**
+   * Finds all jobs created from a given source.
+   *
+   * @param sourceId - The IngestionSource ID
+   * @returns Jobs for the source, most recently updated first
+   */
+  async findBySourceId(sourceId: string): Promise<IngestionJob[]> {
+    const results = await this.db
+      .select()
+      .from(ingestionJobs)
+      .where(eq(ingestionJobs.sourceId, sourceId))
+      .orderBy(desc(ingestionJobs.updatedAt));
+    return results.map(mapToDomain);
+  }
+
+  /**
+   * Creates a new ingestion job.
+   *
+   * @param input - The data for creating the new job
+   * @returns The created IngestionJob domain model
+   */
+  async create(input: CreateIngestionJobInput): Promise<IngestionJob> {
+    const now = new Date();
+
+    const result = await this.db
+      .insert(ingestionJobs)
+      .values({
+        id: input.id,
+        sourceId: input.sourceId,
+        status: input.status ?? 'extracting',
+        candidates: [],
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Updates an existing job.
+   *
+   * Only the fields specified in the input will be updated.
+   * The updatedAt timestamp is automatically set to the current time.
+   *
+   * @param id - The unique identifier of the job to update
+   * @param input - The partial data to update
+   * @returns The updated IngestionJob domain model
+   * @throws Error if the job with the given id does not exist
+   */
+  async update(id: string, input: UpdateIngestionJobInput): Promise<IngestionJob> {
+    const result = await this.db
+      .update(ingestionJobs)
+      .set({
+        ...input,
+        updatedAt: new Date(),
+      })
+      .where(eq(ingestionJobs.id, id))
+      .returning();
+
+    if (result.length === 0) {
+      throw new Error(`IngestionJob with id '${id}' not found`);
+    }
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Permanently deletes a job.
+   *
+   * @param id - The unique identifier of the job to delete
+   * @throws Error if the job does not exist
+   */
+  async delete(id: string): Promise<void> {
+    const result = await this.db
+      .delete(ingestionJobs)
+      .where(eq(ingestionJobs.id, id))
+      .returning({ id: ingestionJobs.id });
+
+    if (result.length === 0) {
+      throw new Error(`IngestionJob with id '${id}' not found`);
+    }
+  }
+}
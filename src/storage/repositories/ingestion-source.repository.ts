@@ -0,0 +1,172 @@
+/**
+ * IngestionSource Repository Implementation
+ *
+ * This module provides data access operations for IngestionSource entities,
+ * the raw text or file contents submitted for ingestion. Sources are
+ * write-once: content is never edited after it is stored, so updates are
+ * limited to the display name.
+ */
+
+import { eq } from 'drizzle-orm';
+import type { AppDatabase } from '../db';
+import { ingestionSources } from '../tables';
+import type { IngestionSource, IngestionSourceType } from '@/core/models';
+import type { Repository } from './base';
+
+/**
+ * Input type for creating a new IngestionSource.
+ */
+export interface CreateIngestionSourceInput {
+  /** Unique identifier - typically a prefixed UUID (e.g., 'src_abc123') */
+  id: string;
+  /** Whether the material was pasted or read from a file */
+  type: IngestionSourceType;
+  /** File path or optional title */
+  name?: string | null;
+  /** The full text of the source material */
+  content: string;
+}
+
+/**
+ * Input type for updating an existing IngestionSource.
+ */
+export interface UpdateIngestionSourceInput {
+  /** File path or optional title */
+  name?: string | null;
+}
+
+/**
+ * Maps a database row to an IngestionSource domain model.
+ *
+ * @param row - Raw database row from Drizzle query
+ * @returns IngestionSource domain model with proper Date objects
+ */
+function mapToDomain(row: typeof ingestionSources.$inferSelect): IngestionSource {
+  return {
+    id: row.id,
+    type: row.type,
+    name: row.name,
+    content: row.content,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Repository for IngestionSource entity data access operations.
+ *
+ * @example
+ * ```typescript
+ * const repo = new IngestionSourceRepository(db);
+ *
+ * const source = await repo.create({
+ *   id: 'src_' + crypto.randomUUID(),
+ *   type: 'file',
+ *   name: 'notes/atp.md',
+ *   content: fileContents,
+ * });
+ * ```
+ */
+export class IngestionSourceRepository
+  implements
+    Repository<IngestionSource, CreateIngestionSourceInput, UpdateIngestionSourceInput>
+{
+  /**
+   * Creates a new IngestionSourceRepository instance.
+   *
+   * @param db - The Drizzle database instance to use for queries
+   */
+  constructor(private readonly db: AppDatabase) {}
+
+  /**
+   * Retrieves a source by its unique identifier.
+   *
+   * @param id - The unique identifier of the source
+   * @returns The IngestionSource if found, or null if not found
+   */
+  async findById(id: string): Promise<IngestionSource | null> {
+    const result = await this.db
+      .select()
+      .from(ingestionSources)
+      .where(eq(ingestionSources.id, id))
+      .limit(1);
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Retrieves all stored sources.
+   *
+   * @returns Array of all IngestionSource domain models (may be empty)
+   */
+  async findAll(): Promise<IngestionSource[]> {
+    const results = await this.db.select().from(ingestionSources);
+    return results.map(mapToDomain);
+  }
+
+  /**
+   * Stores new source material.
+   *
+   * @param input - The data for creating the new source
+   * @returns The created IngestionSource domain model
+   */
+  async create(input: CreateIngestionSourceInput): Promise<IngestionSource> {
+    const result = await this.db
+      .insert(ingestionSources)
+      .values({
+        id: input.id,
+        type: input.type,
+        name: input.name ?? null,
+        content: input.content,
+        createdAt: new Date(),
+      })
+      .returning();
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Updates an existing source's display name.
+   *
+   * @param id - The unique identifier of the source to update
+   * @param input - The partial data to update
+   * @returns The updated IngestionSource domain model
+   * @throws Error if the source with the given id does not exist
+   */
+  async update(id: string, input: UpdateIngestionSourceInput): Promise<IngestionSource> {
+    const result = await this.db
+      .update(ingestionSources)
+      .set(input)
+      .where(eq(ingestionSources.id, id))
+      .returning();
+
+    if (result.length === 0) {
+      throw new Error(`IngestionSource with id '${id}' not found`);
+    }
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Permanently deletes a source.
+   *
+   * WARNING: This will fail if ingestion jobs still reference the source
+   * due to foreign key constraints.
+   *
+   * @param id - The unique identifier of the source to delete
+   * @throws Error if the source does not exist or has dependencies
+   */
+  async delete(id: string): Promise<void> {
+    const result = await this.db
+      .delete(ingestionSources)
+      .where(eq(ingestionSources.id, id))
+      .returning({ id: ingestionSources.id });
+
+    if (result.length === 0) {
+      throw new Error(`IngestionSource with id '${id}' not found`);
+    }
+  }
+}
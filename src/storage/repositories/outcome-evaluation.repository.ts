@@ -0,0 +1,159 @@
+/**
+ * OutcomeEvaluation Repository Implementation
+ *
+ * This module provides data access operations for re-evaluations of past
+ * recall outcomes. Each re-evaluation is stored under the version of the
+ * evaluation prompt that produced it, next to the original outcome, which
+ * is never modified. An outcome has at most one evaluation per version;
+ * save() replaces it.
+ */
+
+import { eq, and, inArray } from 'drizzle-orm';
+import type { AppDatabase } from '../db';
+import { outcomeEvaluations } from '../tables';
+import type { OutcomeEvaluation } from '@/core/models';
+import type { RecallRating } from '@/core/fsrs';
+
+/**
+ * Input type for saving a re-evaluation of a recall outcome.
+ */
+export interface SaveOutcomeEvaluationInput {
+  /** Identifier for a new row (e.g., 'oe_abc123'); unused when replacing */
+  id: string;
+  /** The recall outcome that was re-evaluated */
+  recallOutcomeId: string;
+  /** Version of the evaluation prompt */
+  evaluatorVersion: string;
+  /** Whether the attempt counts as successful recall */
+  success: boolean;
+  /** Confidence in the judgment (0.0 to 1.0) */
+  confidence: number;
+  /** Rating the evaluator suggests */
+  rating: RecallRating;
+  /** The evaluator's explanation */
+  reasoning: string;
+  /** Concepts the learner demonstrated */
+  keyDemonstratedConcepts: string[];
+  /** Concepts the learner missed */
+  missedConcepts: string[];
+}
+
+/**
+ * Maps a database row to an OutcomeEvaluation domain model.
+ *
+ * @param row - Raw database row from Drizzle query
+ * @returns OutcomeEvaluation domain model
+ */
+function mapToDomain(row: typeof outcomeEvaluations.$inferSelect): OutcomeEvaluation {
+  return {
+    id: row.id,
+    recallOutcomeId: row.recallOutcomeId,
+    evaluatorVersion: row.evaluatorVersion,
+    success: row.success,
+    confidence: row.confidence,
+    rating: row.rating,
+    reasoning: row.reasoning,
+    keyDemonstratedConcepts: row.keyDemonstratedConcepts,
+    missedConcepts: row.missedConcepts,
+    // Drizzle's timestamp_ms mode already returns Date objects
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Repository for re-evaluations of recall outcomes.
+ *
+ * @example
+ * ```typescript
+ * const repo = new OutcomeEvaluationRepository(db);
+ *
+ * await repo.save({
+ *   id: 'oe_' + crypto.randomUUID(),
+ *   recallOutcomeId: 'ro_001',
+ *   evaluatorVersion: 'enhanced-v2',
+ *   success: true,
+ *   confidence: 0.7,
+ *   rating: 'good',
+ *   reasoning: 'Recalled the mechanism after one hint.',
+ *   keyDemonstratedConcepts: ['proton gradient'],
+ *   missedConcepts: [],
+ * });
+ *
+ * const evaluations = await repo.findByRecallOutcomeIds(['ro_001'], 'enhanced-v2');
+ * ```
+ */
+export class OutcomeEvaluationRepository {
+  /**
+   * Creates a new OutcomeEvaluationRepository instance.
+   *
+   * @param db - The Drizzle database instance to use for queries
+   */
+  constructor(private readonly db: AppDatabase) {}
+
+  /**
+   * Retrieves the evaluations of the given outcomes made by one version
+   * of the evaluator.
+   *
+   * @param recallOutcomeIds - The recall outcomes to look up
+   * @param evaluatorVersion - The evaluator version
+   * @returns The stored evaluations (outcomes without one are left out)
+   */
+  async findByRecallOutcomeIds(
+    recallOutcomeIds: string[],
+    evaluatorVersion: string
+  ): Promise<OutcomeEvaluation[]> {
+    if (recallOutcomeIds.length === 0) {
+      return [];
+    }
+
+    const rows = await this.db
+      .select()
+      .from(outcomeEvaluations)
+      .where(
+        and(
+          inArray(outcomeEvaluations.recallOutcomeId, recallOutcomeIds),
+          eq(outcomeEvaluations.evaluatorVersion, evaluatorVersion)
+        )
+      );
+
+    return rows.map(mapToDomain);
+  }
+
+  /**
+   * Stores a re-evaluation, replacing any earlier evaluation of the same
+   * outcome by the same evaluator version.
+   *
+   * @param input - The outcome, evaluator version, and judgment
+   * @returns The stored evaluation
+   */
+  async save(input: SaveOutcomeEvaluationInput): Promise<OutcomeEvaluation> {
+    const { id, recallOutcomeId, evaluatorVersion, ...judgment } = input;
+    const values = { ...judgment, createdAt: new Date() };
+
+    const existing = await this.db
+      .select({ id: outcomeEvaluations.id })
+      .from(outcomeEvaluations)
+      .where(
+        and(
+          eq(outcomeEvaluations.recallOutcomeId, recallOutcomeId),
+          eq(outcomeEvaluations.evaluatorVersion, evaluatorVersion)
+        )
+      )
+      .limit(1);
+
+    if (existing.length > 0) {
+      const result = await this.db
+        .update(outcomeEvaluations)
+        .set(values)
+        .where(eq(outcomeEvaluations.id, existing[0].id))
+        .returning();
+      return mapToDomain(result[0]);
+    }
+
+    const result = await this.db
+      .insert(outcomeEvaluations)
+      .values({ id, recallOutcomeId, evaluatorVersion, ...values })
+      .returning();
+    return mapToDomain(result[0]);
+  }
+}
@@ -24,7 +24,8 @@
 
 import { eq, and, desc, count, avg } from 'drizzle-orm';
 import type { AppDatabase } from '../db';
-import { rabbitholeEvents, sessions } from '../schema';
+import { rabbitholeEvents, sessions } from '../tables';
+import { sessionCoversRecallSet, type SessionModeFilter } from './session.repository';
 import type {
   RabbitholeEvent as DbRabbitholeEvent,
   NewRabbitholeEvent,
@@ -227,6 +228,7 @@ export class RabbitholeEventRepository {
    *
    * @param recallSetId - The ID of the recall set to analyze
    * @param limit - Maximum number of topics to return (default 10)
+   * @param mode - Only include sessions of this mode, or 'scheduled' (all modes if omitted)
    * @returns Array of topic statistics, ordered by count descending
    *
    * @example
@@ -240,7 +242,8 @@ export class RabbitholeEventRepository {
    */
   async getTopTopics(
     recallSetId: string,
-    limit: number = 10
+    limit: number = 10,
+    mode?: SessionModeFilter
   ): Promise<TopicStats[]> {
     // Join with sessions to filter by recall set, then aggregate by topic
     const results = await this.db
@@ -251,7 +254,7 @@ export class RabbitholeEventRepository {
       })
       .from(rabbitholeEvents)
       .innerJoin(sessions, eq(rabbitholeEvents.sessionId, sessions.id))
-      .where(eq(sessions.recallSetId, recallSetId))
+      .where(sessionCoversRecallSet(this.db, recallSetId, mode))
       .groupBy(rabbitholeEvents.topic)
       .orderBy(desc(count(rabbitholeEvents.id)))
       .limit(limit);
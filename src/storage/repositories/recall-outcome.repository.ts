@@ -18,13 +18,14 @@
  * more practice and tracking of confidence calibration over time.
  */
 
-import { eq, avg, count, sum, sql } from 'drizzle-orm';
+import { eq, and, inArray, asc, avg, count, sum, sql, type SQL } from 'drizzle-orm';
 import type { AppDatabase } from '../db';
-import { recallOutcomes } from '../schema';
+import { recallOutcomes, sessions } from '../tables';
 import type {
   RecallOutcome as DbRecallOutcome,
   NewRecallOutcome,
 } from '../schema';
+import { sessionModeCondition, type SessionModeFilter } from './session.repository';
 
 /**
  * Statistics for a specific recall point across all sessions.
@@ -40,6 +41,25 @@ export interface RecallPointStats {
   avgConfidence: number;
 }
 
+/**
+ * Builds a condition limiting outcomes to those recorded in sessions of one
+ * mode, e.g. 'scheduled' to leave practice sessions out of a point's history.
+ *
+ * @param db - The database, for the session subquery
+ * @param mode - The session mode or 'scheduled', or undefined for no condition
+ * @returns SQL condition on the recall_outcomes table, or undefined
+ */
+function recordedInMode(db: AppDatabase, mode?: SessionModeFilter): SQL | undefined {
+  if (!mode) {
+    return undefined;
+  }
+
+  return inArray(
+    recallOutcomes.sessionId,
+    db.select({ id: sessions.id }).from(sessions).where(sessionModeCondition(mode))
+  );
+}
+
 /**
  * Repository for RecallOutcome entity data access operations.
  *
@@ -202,6 +222,7 @@ export class RecallOutcomeRepository {
    * is being retained over time.
    *
    * @param recallPointId - The ID of the recall point to get outcomes for
+   * @param mode - Only include outcomes from sessions of this mode, or 'scheduled' (all if omitted)
    * @returns Array of recall outcomes for the recall point (may be empty)
    *
    * @example
@@ -212,11 +233,43 @@ export class RecallOutcomeRepository {
    * console.log(`Success rate: ${(successCount / history.length * 100).toFixed(1)}%`);
    * ```
    */
-  async findByRecallPointId(recallPointId: string): Promise<DbRecallOutcome[]> {
+  async findByRecallPointId(
+    recallPointId: string,
+    mode?: SessionModeFilter
+  ): Promise<DbRecallOutcome[]> {
+    return await this.db
+      .select()
+      .from(recallOutcomes)
+      .where(
+        and(eq(recallOutcomes.recallPointId, recallPointId), recordedInMode(this.db, mode))
+      );
+  }
+
+  /**
+   * Retrieves the recall outcomes for several recall points, oldest first.
+   *
+   * Used to replay the review history of a whole recall set (or all of a
+   * user's sets), e.g. when fitting FSRS weights.
+   *
+   * @param recallPointIds - The IDs of the recall points to get outcomes for
+   * @param mode - Only include outcomes from sessions of this mode, or 'scheduled' (all if omitted)
+   * @returns Outcomes for those points in the order they were recorded
+   */
+  async findByRecallPointIds(
+    recallPointIds: string[],
+    mode?: SessionModeFilter
+  ): Promise<DbRecallOutcome[]> {
+    if (recallPointIds.length === 0) {
+      return [];
+    }
+
     return await this.db
       .select()
       .from(recallOutcomes)
-      .where(eq(recallOutcomes.recallPointId, recallPointId));
+      .where(
+        and(inArray(recallOutcomes.recallPointId, recallPointIds), recordedInMode(this.db, mode))
+      )
+      .orderBy(asc(recallOutcomes.createdAt));
   }
 
   /**
@@ -227,6 +280,7 @@ export class RecallOutcomeRepository {
    * tracking improvement over time.
    *
    * @param recallPointId - The ID of the recall point to get stats for
+   * @param mode - Only include outcomes from sessions of this mode, or 'scheduled' (all if omitted)
    * @returns Aggregate statistics for the recall point
    *
    * @example
@@ -241,19 +295,25 @@ export class RecallOutcomeRepository {
    * console.log(`  Avg confidence: ${(stats.avgConfidence * 100).toFixed(1)}%`);
    * ```
    */
-  async getStatsForRecallPoint(recallPointId: string): Promise<RecallPointStats> {
+  async getStatsForRecallPoint(
+    recallPointId: string,
+    mode?: SessionModeFilter
+  ): Promise<RecallPointStats> {
     // Use SQL aggregation for efficient statistics calculation
-    // Count successes by summing boolean (1 for true, 0 for false)
+    // Count successes by summing boolean (1 for true, 0 for false).
+    // The bare column in WHEN works for both SQLite integers and Postgres booleans.
     const result = await this.db
       .select({
         totalAttempts: count(recallOutcomes.id),
         successCount: sum(
-          sql<number>`CASE WHEN ${recallOutcomes.success} = 1 THEN 1 ELSE 0 END`
+          sql<number>`CASE WHEN ${recallOutcomes.success} THEN 1 ELSE 0 END`
         ),
         avgConfidence: avg(recallOutcomes.confidence),
       })
       .from(recallOutcomes)
-      .where(eq(recallOutcomes.recallPointId, recallPointId));
+      .where(
+        and(eq(recallOutcomes.recallPointId, recallPointId), recordedInMode(this.db, mode))
+      );
 
     const row = result[0];
 
@@ -10,9 +10,9 @@
  * (Free Spaced Repetition Scheduler) algorithm for optimal review timing.
  */
 
-import { eq, lte, and } from 'drizzle-orm';
+import { eq, lte, and, isNull } from 'drizzle-orm';
 import type { AppDatabase } from '../db';
-import { recallPoints } from '../schema';
+import { recallPoints } from '../tables';
 import type {
   RecallPoint,
   FSRSState,
@@ -45,6 +45,8 @@ export interface CreateRecallPointInput {
   context: string;
   /** Initial FSRS scheduling state */
   fsrsState: FSRSState;
+  /** Prior recall attempts (e.g., from an imported review log); defaults to none */
+  recallHistory?: RecallAttempt[];
 }
 
 /**
@@ -57,6 +59,10 @@ export interface UpdateRecallPointInput {
   content?: string;
   /** Additional context that supports understanding */
   context?: string;
+  /** When the point was suspended, or null to make it active again */
+  suspendedAt?: Date | null;
+  /** When the point was marked for a deep dive, or null to clear the mark */
+  deepDiveRequestedAt?: Date | null;
 }
 
 /**
@@ -95,12 +101,50 @@ function mapToDomain(row: typeof recallPoints.$inferSelect): RecallPoint {
       state: row.fsrsState,
     },
     recallHistory,
+    suspendedAt: row.suspendedAt,
+    deepDiveRequestedAt: row.deepDiveRequestedAt,
     // Drizzle's timestamp_ms mode already returns Date objects
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   };
 }
 
+/**
+ * Maps the input for a new recall point to a database row, the reverse of
+ * mapToDomain: the FSRSState object is flattened into its columns and
+ * recall history timestamps become numbers.
+ *
+ * @param input - The data for the new recall point
+ * @param now - Creation time, used for both timestamps
+ * @returns Row values ready to insert
+ */
+function mapToRow(
+  input: CreateRecallPointInput,
+  now: Date
+): typeof recallPoints.$inferInsert {
+  return {
+    id: input.id,
+    recallSetId: input.recallSetId,
+    content: input.content,
+    context: input.context,
+    // Flatten FSRSState object into individual columns
+    fsrsDifficulty: input.fsrsState.difficulty,
+    fsrsStability: input.fsrsState.stability,
+    fsrsDue: input.fsrsState.due,
+    fsrsLastReview: input.fsrsState.lastReview,
+    fsrsReps: input.fsrsState.reps,
+    fsrsLapses: input.fsrsState.lapses,
+    fsrsState: input.fsrsState.state,
+    recallHistory: (input.recallHistory ?? []).map((attempt) => ({
+      timestamp: attempt.timestamp.getTime(),
+      success: attempt.success,
+      latencyMs: attempt.latencyMs,
+    })),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
 /**
  * Repository for RecallPoint entity data access operations.
  *
@@ -190,7 +234,7 @@ export class RecallPointRepository
    *
    * A point is considered "due" when its fsrsDue timestamp is less than or
    * equal to the specified reference time. This is the core query for
-   * scheduling recall sessions.
+   * scheduling recall sessions, so suspended points are left out.
    *
    * @param recallSetId - The ID of the recall set to search within
    * @param asOf - Reference time for due calculation (defaults to now)
@@ -217,7 +261,8 @@ export class RecallPointRepository
       .where(
         and(
           eq(recallPoints.recallSetId, recallSetId),
-          lte(recallPoints.fsrsDue, asOf)
+          lte(recallPoints.fsrsDue, asOf),
+          isNull(recallPoints.suspendedAt)
         )
       );
 
@@ -231,40 +276,45 @@ export class RecallPointRepository
    * @returns The created RecallPoint domain model with timestamps
    */
   async create(input: CreateRecallPointInput): Promise<RecallPoint> {
-    const now = new Date();
-
     const result = await this.db
       .insert(recallPoints)
-      .values({
-        id: input.id,
-        recallSetId: input.recallSetId,
-        content: input.content,
-        context: input.context,
-        // Flatten FSRSState object into individual columns
-        fsrsDifficulty: input.fsrsState.difficulty,
-        fsrsStability: input.fsrsState.stability,
-        fsrsDue: input.fsrsState.due,
-        fsrsLastReview: input.fsrsState.lastReview,
-        fsrsReps: input.fsrsState.reps,
-        fsrsLapses: input.fsrsState.lapses,
-        fsrsState: input.fsrsState.state,
-        recallHistory: [],
-        createdAt: now,
-        updatedAt: now,
-      })
+      .values(mapToRow(input, new Date()))
       .returning();
 
     return mapToDomain(result[0]);
   }
 
   /**
-   * Updates an existing recall point's content/context fields.
+   * Creates several recall points in a single insert, so either all of them
+   * are stored or none are.
+   *
+   * @param inputs - The data for each new recall point
+   * @returns The created RecallPoint domain models, in input order
+   */
+  async createMany(inputs: CreateRecallPointInput[]): Promise<RecallPoint[]> {
+    // Handle empty array case - nothing to insert
+    if (inputs.length === 0) {
+      return [];
+    }
+
+    const now = new Date();
+    const result = await this.db
+      .insert(recallPoints)
+      .values(inputs.map((input) => mapToRow(input, now)))
+      .returning();
+
+    return result.map(mapToDomain);
+  }
+
+  /**
+   * Updates an existing recall point's content/context fields, or its
+   * suspension and deep-dive marks.
    *
    * Note: For FSRS state updates, use updateFSRSState instead.
    * For adding recall attempts, use addRecallAttempt instead.
    *
    * @param id - The unique identifier of the recall point to update
-   * @param input - The partial data to update (content and/or context)
+   * @param input - The partial data to update
    * @returns The updated RecallPoint domain model
    * @throws Error if the recall point with the given id does not exist
    */
@@ -9,11 +9,15 @@
  * RecallSets are thematic collections of recall points that share a common
  * subject or context. They include a discussion system prompt that guides
  * AI-powered Socratic dialogues.
+ *
+ * A repository can be scoped to a user: every query then only sees that
+ * user's sets, and new sets are assigned to them. The API layer always uses
+ * scoped repositories; the CLI uses unscoped ones as a local admin tool.
  */
 
-import { eq, sql } from 'drizzle-orm';
+import { eq, and, isNull, sql, type SQL } from 'drizzle-orm';
 import type { AppDatabase } from '../db';
-import { recallSets } from '../schema';
+import { recallSets } from '../tables';
 import type { RecallSet, RecallSetStatus } from '@/core/models';
 import type { Repository } from './base';
 
@@ -32,6 +36,16 @@ export interface CreateRecallSetInput {
   status?: RecallSetStatus;
   /** System prompt for AI discussions in this set */
   discussionSystemPrompt: string;
+  /** Target retention (0-1), or null for the default */
+  desiredRetention?: number | null;
+  /** Longest interval in days, or null for the default */
+  maximumIntervalDays?: number | null;
+  /** Most points per session, or null for the default */
+  maxPointsPerSession?: number | null;
+  /** Most new points per day, or null for the default */
+  newPointsPerDay?: number | null;
+  /** Lapses at which points are flagged as leeches, or null for the default */
+  leechLapseThreshold?: number | null;
 }
 
 /**
@@ -47,6 +61,16 @@ export interface UpdateRecallSetInput {
   status?: RecallSetStatus;
   /** System prompt for AI discussions in this set */
   discussionSystemPrompt?: string;
+  /** Target retention (0-1); null resets to the default */
+  desiredRetention?: number | null;
+  /** Longest interval in days; null resets to the default */
+  maximumIntervalDays?: number | null;
+  /** Most points per session; null resets to the default */
+  maxPointsPerSession?: number | null;
+  /** Most new points per day; null resets to the default */
+  newPointsPerDay?: number | null;
+  /** Lapses at which points are flagged as leeches; null resets to the default */
+  leechLapseThreshold?: number | null;
 }
 
 /**
@@ -65,6 +89,11 @@ function mapToDomain(row: typeof recallSets.$inferSelect): RecallSet {
     description: row.description,
     status: row.status,
     discussionSystemPrompt: row.discussionSystemPrompt,
+    desiredRetention: row.desiredRetention,
+    maximumIntervalDays: row.maximumIntervalDays,
+    maxPointsPerSession: row.maxPointsPerSession,
+    newPointsPerDay: row.newPointsPerDay,
+    leechLapseThreshold: row.leechLapseThreshold,
     // Drizzle's timestamp_ms mode already returns Date objects
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
@@ -92,6 +121,9 @@ function mapToDomain(row: typeof recallSets.$inferSelect): RecallSet {
  *
  * // Find by name (case-insensitive)
  * const found = await repo.findByName('spanish vocabulary');
+ *
+ * // Only see (and create) sets owned by one user
+ * const mine = new RecallSetRepository(db, user.id);
  * ```
  */
 export class RecallSetRepository
@@ -101,8 +133,25 @@ export class RecallSetRepository
    * Creates a new RecallSetRepository instance.
    *
    * @param db - The Drizzle database instance to use for queries
+   * @param userId - When set, restricts every query to sets owned by this
+   *                 user and assigns new sets to them. Null restricts queries
+   *                 to sets without an owner. Omit for unscoped access.
    */
-  constructor(private readonly db: AppDatabase) {}
+  constructor(
+    private readonly db: AppDatabase,
+    private readonly userId?: string | null
+  ) {}
+
+  /**
+   * Condition restricting a query to the scoped user's sets
+   * (undefined for an unscoped repository, which drizzle ignores).
+   */
+  private ownedByUser(): SQL | undefined {
+    if (this.userId === null) {
+      return isNull(recallSets.userId);
+    }
+    return this.userId ? eq(recallSets.userId, this.userId) : undefined;
+  }
 
   /**
    * Retrieves a recall set by its unique identifier.
@@ -114,7 +163,7 @@ export class RecallSetRepository
     const result = await this.db
       .select()
       .from(recallSets)
-      .where(eq(recallSets.id, id))
+      .where(and(eq(recallSets.id, id), this.ownedByUser()))
       .limit(1);
 
     if (result.length === 0) {
@@ -125,12 +174,12 @@ export class RecallSetRepository
   }
 
   /**
-   * Retrieves all recall sets.
+   * Retrieves all recall sets (only the scoped user's, if scoped).
    *
    * @returns Array of all RecallSet domain models (may be empty)
    */
   async findAll(): Promise<RecallSet[]> {
-    const results = await this.db.select().from(recallSets);
+    const results = await this.db.select().from(recallSets).where(this.ownedByUser());
     return results.map(mapToDomain);
   }
 
@@ -156,7 +205,7 @@ export class RecallSetRepository
     const result = await this.db
       .select()
       .from(recallSets)
-      .where(sql`LOWER(${recallSets.name}) = LOWER(${name})`)
+      .where(and(sql`LOWER(${recallSets.name}) = LOWER(${name})`, this.ownedByUser()))
       .limit(1);
 
     if (result.length === 0) {
@@ -179,10 +228,16 @@ export class RecallSetRepository
       .insert(recallSets)
       .values({
         id: input.id,
+        userId: this.userId ?? null,
         name: input.name,
         description: input.description,
         status: input.status ?? 'active',
         discussionSystemPrompt: input.discussionSystemPrompt,
+        desiredRetention: input.desiredRetention ?? null,
+        maximumIntervalDays: input.maximumIntervalDays ?? null,
+        maxPointsPerSession: input.maxPointsPerSession ?? null,
+        newPointsPerDay: input.newPointsPerDay ?? null,
+        leechLapseThreshold: input.leechLapseThreshold ?? null,
         createdAt: now,
         updatedAt: now,
       })
@@ -209,7 +264,7 @@ export class RecallSetRepository
         ...input,
         updatedAt: new Date(),
       })
-      .where(eq(recallSets.id, id))
+      .where(and(eq(recallSets.id, id), this.ownedByUser()))
       .returning();
 
     if (result.length === 0) {
@@ -231,11 +286,30 @@ export class RecallSetRepository
   async delete(id: string): Promise<void> {
     const result = await this.db
       .delete(recallSets)
-      .where(eq(recallSets.id, id))
+      .where(and(eq(recallSets.id, id), this.ownedByUser()))
       .returning({ id: recallSets.id });
 
     if (result.length === 0) {
       throw new Error(`RecallSet with id '${id}' not found`);
     }
   }
+
+  /**
+   * Assigns every recall set without an owner to the given user.
+   *
+   * Used when the first account is registered on an existing single-user
+   * database, and by the CLI to hand sets it created to a user.
+   *
+   * @param userId - The user who should own the unowned sets
+   * @returns The number of sets that were claimed
+   */
+  async claimUnowned(userId: string): Promise<number> {
+    const result = await this.db
+      .update(recallSets)
+      .set({ userId })
+      .where(isNull(recallSets.userId))
+      .returning({ id: recallSets.id });
+
+    return result.length;
+  }
 }
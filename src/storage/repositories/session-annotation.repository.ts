@@ -0,0 +1,274 @@
+/**
+ * SessionAnnotation Repository Implementation
+ *
+ * This module provides data access operations for annotations: notes and
+ * tags made on sessions, or on single messages of their transcripts, while
+ * refining the prompts. Besides the usual CRUD operations it reads
+ * annotations together with the annotated session's recall set and prompt
+ * versions, for reports on how often each tag comes up.
+ *
+ * Like SessionRepository, a repository can be scoped to a user so that
+ * every query only sees annotations on that user's sessions.
+ */
+
+import { eq, and, asc, inArray, type SQL } from 'drizzle-orm';
+import type { AppDatabase } from '../db';
+import { sessionAnnotations, sessions, recallSets } from '../tables';
+import type { SessionAnnotation, PromptVersions } from '@/core/models';
+import type { Repository } from './base';
+
+/**
+ * Input type for creating a new SessionAnnotation.
+ */
+export interface CreateSessionAnnotationInput {
+  /** Unique identifier - typically a prefixed UUID (e.g., 'ann_abc123') */
+  id: string;
+  /** The annotated session */
+  sessionId: string;
+  /** Index of the annotated message (null or omitted for the whole session) */
+  messageIndex?: number | null;
+  /** Free-text note */
+  note: string;
+  /** Lowercase tags */
+  tags: string[];
+}
+
+/**
+ * Input type for updating an existing SessionAnnotation.
+ * All fields are optional - only provided fields will be updated.
+ */
+export interface UpdateSessionAnnotationInput {
+  /** Index of the annotated message (null for the whole session) */
+  messageIndex?: number | null;
+  /** Free-text note */
+  note?: string;
+  /** Lowercase tags */
+  tags?: string[];
+}
+
+/**
+ * An annotation with the details of the session it was made on.
+ */
+export interface AnnotationWithSession {
+  /** The annotation */
+  annotation: SessionAnnotation;
+  /** Recall set of the session (null for a daily review) */
+  recallSetId: string | null;
+  /** Name of that recall set (null for a daily review) */
+  recallSetName: string | null;
+  /** Prompt versions the session used (null if not recorded) */
+  promptVersions: PromptVersions | null;
+}
+
+/**
+ * Maps a database row to a SessionAnnotation domain model.
+ *
+ * @param row - Raw database row from Drizzle query
+ * @returns SessionAnnotation domain model
+ */
+function mapToDomain(row: typeof sessionAnnotations.$inferSelect): SessionAnnotation {
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    messageIndex: row.messageIndex,
+    note: row.note,
+    tags: row.tags,
+    // Drizzle's timestamp_ms mode already returns Date objects
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Repository for SessionAnnotation entities.
+ *
+ * @example
+ * ```typescript
+ * const repo = new SessionAnnotationRepository(db, userId);
+ *
+ * // Tag a tutor message that rambled
+ * await repo.create({
+ *   id: 'ann_' + crypto.randomUUID(),
+ *   sessionId: 'sess_xyz789',
+ *   messageIndex: 4,
+ *   note: 'Three paragraphs before asking anything.',
+ *   tags: ['too long'],
+ * });
+ *
+ * const annotations = await repo.findBySessionId('sess_xyz789');
+ * ```
+ */
+export class SessionAnnotationRepository
+  implements Repository<SessionAnnotation, CreateSessionAnnotationInput, UpdateSessionAnnotationInput>
+{
+  /**
+   * Creates a new SessionAnnotationRepository instance.
+   *
+   * @param db - The Drizzle database instance to use for queries
+   * @param userId - When set, restricts every query to annotations on
+   *                 sessions owned by this user. Omit for unscoped access.
+   */
+  constructor(
+    private readonly db: AppDatabase,
+    private readonly userId?: string
+  ) {}
+
+  /**
+   * Condition restricting a query to annotations on the scoped user's
+   * sessions (undefined for an unscoped repository, which drizzle ignores).
+   */
+  private onUserSessions(): SQL | undefined {
+    if (!this.userId) {
+      return undefined;
+    }
+    const userSessionIds = this.db
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(eq(sessions.userId, this.userId));
+    return inArray(sessionAnnotations.sessionId, userSessionIds);
+  }
+
+  /**
+   * Retrieves an annotation by its unique identifier.
+   *
+   * @param id - The unique identifier of the annotation
+   * @returns The SessionAnnotation domain model if found, or null if not found
+   */
+  async findById(id: string): Promise<SessionAnnotation | null> {
+    const result = await this.db
+      .select()
+      .from(sessionAnnotations)
+      .where(and(eq(sessionAnnotations.id, id), this.onUserSessions()))
+      .limit(1);
+
+    return result.length > 0 ? mapToDomain(result[0]) : null;
+  }
+
+  /**
+   * Retrieves all annotations, oldest first.
+   *
+   * @returns Array of all SessionAnnotation domain models
+   */
+  async findAll(): Promise<SessionAnnotation[]> {
+    const result = await this.db
+      .select()
+      .from(sessionAnnotations)
+      .where(this.onUserSessions())
+      .orderBy(asc(sessionAnnotations.createdAt));
+
+    return result.map(mapToDomain);
+  }
+
+  /**
+   * Retrieves the annotations on a session, oldest first.
+   *
+   * @param sessionId - The session to look up
+   * @returns The session's annotations (empty if none)
+   */
+  async findBySessionId(sessionId: string): Promise<SessionAnnotation[]> {
+    const result = await this.db
+      .select()
+      .from(sessionAnnotations)
+      .where(and(eq(sessionAnnotations.sessionId, sessionId), this.onUserSessions()))
+      .orderBy(asc(sessionAnnotations.createdAt));
+
+    return result.map(mapToDomain);
+  }
+
+  /**
+   * Retrieves annotations together with the recall set and prompt versions
+   * of the annotated sessions.
+   *
+   * @param recallSetId - Optional recall set to restrict the annotations to
+   * @returns The annotations, oldest first
+   */
+  async findWithSessions(recallSetId?: string): Promise<AnnotationWithSession[]> {
+    const rows = await this.db
+      .select({
+        annotation: sessionAnnotations,
+        recallSetId: sessions.recallSetId,
+        recallSetName: recallSets.name,
+        promptVersions: sessions.promptVersions,
+      })
+      .from(sessionAnnotations)
+      .innerJoin(sessions, eq(sessions.id, sessionAnnotations.sessionId))
+      .leftJoin(recallSets, eq(recallSets.id, sessions.recallSetId))
+      .where(
+        and(
+          recallSetId ? eq(sessions.recallSetId, recallSetId) : undefined,
+          this.userId ? eq(sessions.userId, this.userId) : undefined
+        )
+      )
+      .orderBy(asc(sessionAnnotations.createdAt));
+
+    return rows.map((row) => ({
+      annotation: mapToDomain(row.annotation),
+      recallSetId: row.recallSetId,
+      recallSetName: row.recallSetName,
+      promptVersions: row.promptVersions,
+    }));
+  }
+
+  /**
+   * Creates a new annotation.
+   *
+   * @param input - The annotated session, message, note and tags
+   * @returns The created SessionAnnotation
+   */
+  async create(input: CreateSessionAnnotationInput): Promise<SessionAnnotation> {
+    const now = new Date();
+    const result = await this.db
+      .insert(sessionAnnotations)
+      .values({
+        id: input.id,
+        sessionId: input.sessionId,
+        messageIndex: input.messageIndex ?? null,
+        note: input.note,
+        tags: input.tags,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Updates an annotation's note, tags or message.
+   *
+   * @param id - The unique identifier of the annotation
+   * @param input - The fields to change
+   * @returns The updated SessionAnnotation
+   * @throws Error if the annotation does not exist
+   */
+  async update(id: string, input: UpdateSessionAnnotationInput): Promise<SessionAnnotation> {
+    const result = await this.db
+      .update(sessionAnnotations)
+      .set({ ...input, updatedAt: new Date() })
+      .where(and(eq(sessionAnnotations.id, id), this.onUserSessions()))
+      .returning();
+
+    if (result.length === 0) {
+      throw new Error(`SessionAnnotation with id '${id}' not found`);
+    }
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Permanently deletes an annotation.
+   *
+   * @param id - The unique identifier of the annotation
+   * @throws Error if the annotation does not exist
+   */
+  async delete(id: string): Promise<void> {
+    const result = await this.db
+      .delete(sessionAnnotations)
+      .where(and(eq(sessionAnnotations.id, id), this.onUserSessions()))
+      .returning({ id: sessionAnnotations.id });
+
+    if (result.length === 0) {
+      throw new Error(`SessionAnnotation with id '${id}' not found`);
+    }
+  }
+}
@@ -12,7 +12,7 @@
 
 import { eq } from 'drizzle-orm';
 import type { AppDatabase } from '../db';
-import { sessionMessages } from '../schema';
+import { sessionMessages } from '../tables';
 import type { SessionMessage, MessageRole } from '@/core/models';
 import type { Repository } from './base';
 
@@ -18,7 +18,9 @@
 
 import { eq, and, gte, lte, desc, avg, sum, count } from 'drizzle-orm';
 import type { AppDatabase } from '../db';
-import { sessionMetrics, sessions } from '../schema';
+import { sessionMetrics, sessions } from '../tables';
+import { sessionCoversRecallSet, type SessionModeFilter } from './session.repository';
+import type { SessionMode } from '@/core/models';
 import type {
   SessionMetrics as DbSessionMetrics,
   NewSessionMetrics,
@@ -32,6 +34,8 @@ import type {
 export interface SessionMetricsSummary {
   /** ID of the session this summary describes */
   sessionId: string;
+  /** Whether the session was a scheduled review or practice */
+  mode: SessionMode;
   /** Total session duration in milliseconds */
   durationMs: number;
   /** Overall recall success rate (0.0 to 1.0) */
@@ -77,12 +81,13 @@ export interface RecallSetAggregateStats {
  * Extracts the essential fields needed for list views without
  * the full detail of complete metrics records.
  *
- * @param row - Raw database row from Drizzle query
+ * @param row - Raw database row from Drizzle query, joined with the session's mode
  * @returns SessionMetricsSummary with essential metrics
  */
-function mapToSummary(row: DbSessionMetrics): SessionMetricsSummary {
+function mapToSummary(row: DbSessionMetrics & { mode: SessionMode }): SessionMetricsSummary {
   return {
     sessionId: row.sessionId,
+    mode: row.mode,
     durationMs: row.durationMs,
     recallRate: row.overallRecallRate,
     engagementScore: row.engagementScore,
@@ -210,9 +215,11 @@ export class SessionMetricsRepository {
    *
    * Returns lightweight summaries ordered by most recent first,
    * suitable for displaying session history lists or dashboards.
-   * Uses a join with the sessions table to filter by recall set.
+   * Uses a join with the sessions table to filter by recall set; daily
+   * reviews that covered the set's points are included.
    *
    * @param recallSetId - The ID of the recall set to get summaries for
+   * @param mode - Only include sessions of this mode, or 'scheduled' (all modes if omitted)
    * @returns Array of session metric summaries, ordered by calculatedAt descending
    *
    * @example
@@ -224,7 +231,8 @@ export class SessionMetricsRepository {
    * ```
    */
   async findSummariesByRecallSet(
-    recallSetId: string
+    recallSetId: string,
+    mode?: SessionModeFilter
   ): Promise<SessionMetricsSummary[]> {
     // Join session_metrics with sessions to filter by recall set
     const results = await this.db
@@ -254,10 +262,11 @@ export class SessionMetricsRepository {
         estimatedCostUsd: sessionMetrics.estimatedCostUsd,
         engagementScore: sessionMetrics.engagementScore,
         calculatedAt: sessionMetrics.calculatedAt,
+        mode: sessions.mode,
       })
       .from(sessionMetrics)
       .innerJoin(sessions, eq(sessionMetrics.sessionId, sessions.id))
-      .where(eq(sessions.recallSetId, recallSetId))
+      .where(sessionCoversRecallSet(this.db, recallSetId, mode))
       .orderBy(desc(sessionMetrics.calculatedAt));
 
     return results.map(mapToSummary);
@@ -270,6 +279,7 @@ export class SessionMetricsRepository {
    * metrics across all sessions. Useful for dashboards and progress reports.
    *
    * @param recallSetId - The ID of the recall set to aggregate stats for
+   * @param mode - Only include sessions of this mode, or 'scheduled' (all modes if omitted)
    * @returns Aggregate statistics across all sessions in the recall set
    *
    * @example
@@ -280,7 +290,10 @@ export class SessionMetricsRepository {
    * console.log(`Total study time: ${stats.totalTimeMs / 60000} minutes`);
    * ```
    */
-  async getAggregateStats(recallSetId: string): Promise<RecallSetAggregateStats> {
+  async getAggregateStats(
+    recallSetId: string,
+    mode?: SessionModeFilter
+  ): Promise<RecallSetAggregateStats> {
     // Use SQL aggregation functions for efficient statistics calculation
     const result = await this.db
       .select({
@@ -294,7 +307,7 @@ export class SessionMetricsRepository {
       })
       .from(sessionMetrics)
       .innerJoin(sessions, eq(sessionMetrics.sessionId, sessions.id))
-      .where(eq(sessions.recallSetId, recallSetId));
+      .where(sessionCoversRecallSet(this.db, recallSetId, mode));
 
     const row = result[0];
 
@@ -321,6 +334,7 @@ export class SessionMetricsRepository {
    * @param recallSetId - The ID of the recall set to filter by
    * @param startDate - Start of the date range (inclusive)
    * @param endDate - End of the date range (inclusive)
+   * @param mode - Only include sessions of this mode, or 'scheduled' (all modes if omitted)
    * @returns Array of session metric summaries within the date range
    *
    * @example
@@ -334,7 +348,8 @@ export class SessionMetricsRepository {
   async findByDateRange(
     recallSetId: string,
     startDate: Date,
-    endDate: Date
+    endDate: Date,
+    mode?: SessionModeFilter
   ): Promise<SessionMetricsSummary[]> {
     // Join with sessions to filter by recall set and date range
     const results = await this.db
@@ -364,12 +379,13 @@ export class SessionMetricsRepository {
         estimatedCostUsd: sessionMetrics.estimatedCostUsd,
         engagementScore: sessionMetrics.engagementScore,
         calculatedAt: sessionMetrics.calculatedAt,
+        mode: sessions.mode,
       })
       .from(sessionMetrics)
       .innerJoin(sessions, eq(sessionMetrics.sessionId, sessions.id))
       .where(
         and(
-          eq(sessions.recallSetId, recallSetId),
+          sessionCoversRecallSet(this.db, recallSetId, mode),
           gte(sessionMetrics.calculatedAt, startDate),
           lte(sessionMetrics.calculatedAt, endDate)
         )
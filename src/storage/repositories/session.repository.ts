@@ -8,14 +8,34 @@
  * Sessions represent individual study encounters where users review
  * due recall points through AI-powered Socratic dialogues. They track
  * engagement and maintain conversation history.
+ *
+ * Like RecallSetRepository, a repository can be scoped to a user so that
+ * every query only sees that user's sessions and new sessions are assigned
+ * to them.
  */
 
-import { eq, and } from 'drizzle-orm';
+import { eq, ne, and, or, isNull, isNotNull, inArray, asc, avg, sum, count, sql, type SQL } from 'drizzle-orm';
 import type { AppDatabase } from '../db';
-import { sessions } from '../schema';
-import type { Session, SessionStatus } from '@/core/models';
+import { sessions, sessionMetrics, recallOutcomes, recallPoints } from '../tables';
+import type { Session, SessionMode, SessionStatus, PromptVersions } from '@/core/models';
 import type { Repository } from './base';
 
+/**
+ * Which sessions a query covers: those of one mode, or 'scheduled' for every
+ * session that reschedules its points (reviews and deep dives, not practice).
+ */
+export type SessionModeFilter = SessionMode | 'scheduled';
+
+/**
+ * Builds a condition on the sessions table's mode.
+ *
+ * @param mode - The session mode, or 'scheduled' for every mode but practice
+ * @returns SQL condition on the sessions table
+ */
+export function sessionModeCondition(mode: SessionModeFilter): SQL {
+  return mode === 'scheduled' ? ne(sessions.mode, 'practice') : eq(sessions.mode, mode);
+}
+
 /**
  * Input type for creating a new Session.
  * Status defaults to 'in_progress' and endedAt starts as null.
@@ -23,10 +43,18 @@ import type { Repository } from './base';
 export interface CreateSessionInput {
   /** Unique identifier - typically a prefixed UUID (e.g., 'sess_abc123') */
   id: string;
-  /** ID of the RecallSet being studied in this session */
-  recallSetId: string;
+  /** ID of the RecallSet being studied in this session (null for a daily review) */
+  recallSetId: string | null;
   /** IDs of recall points targeted for review */
   targetRecallPointIds: string[];
+  /** Whether the session schedules reviews or is practice (defaults to 'review') */
+  mode?: SessionMode;
+  /** Prompt versions the session is conducted with (null if not recorded) */
+  promptVersions?: PromptVersions | null;
+  /** Prompt experiment that assigned the versions, if any */
+  experimentId?: string | null;
+  /** Experiment variant the session was assigned to, if any */
+  experimentVariant?: string | null;
   /** When the session started (defaults to now if not provided) */
   startedAt?: Date;
 }
@@ -42,6 +70,44 @@ export interface UpdateSessionInput {
   endedAt?: Date;
 }
 
+/**
+ * A prompt experiment that sessions were assigned to, with how many.
+ */
+export interface ExperimentSessionCount {
+  /** The experiment's ID */
+  experimentId: string;
+  /** Number of sessions assigned to any of its variants */
+  sessionCount: number;
+}
+
+/**
+ * Aggregate session metrics for one variant of a prompt experiment.
+ * Averages cover the variant's sessions that have metrics (i.e. that
+ * were completed with metrics collection enabled).
+ */
+export interface ExperimentVariantStats {
+  /** Name of the variant */
+  variant: string;
+  /** Number of sessions assigned to the variant */
+  sessionCount: number;
+  /** Number of those sessions that were completed */
+  completedCount: number;
+  /** Number of those sessions with metrics */
+  measuredCount: number;
+  /** Average recall success rate (0.0 to 1.0) */
+  avgRecallRate: number;
+  /** Average engagement score (0-100) */
+  avgEngagement: number;
+  /** Average session duration in milliseconds */
+  avgDurationMs: number;
+  /** Average tokens used per session */
+  avgTokens: number;
+  /** Average estimated API cost per session in USD */
+  avgCostUsd: number;
+  /** Total estimated API cost in USD */
+  totalCostUsd: number;
+}
+
 /**
  * Maps a database row to a Session domain model.
  *
@@ -53,13 +119,46 @@ function mapToDomain(row: typeof sessions.$inferSelect): Session {
     id: row.id,
     recallSetId: row.recallSetId,
     status: row.status,
+    mode: row.mode,
     targetRecallPointIds: row.targetRecallPointIds,
+    promptVersions: row.promptVersions ?? null,
+    experimentId: row.experimentId,
+    experimentVariant: row.experimentVariant,
     // Drizzle's timestamp_ms mode already returns Date objects
     startedAt: row.startedAt,
     endedAt: row.endedAt,
   };
 }
 
+/**
+ * Builds a condition matching the sessions that studied a recall set: the
+ * set's own sessions, and daily reviews that recorded an outcome for any of
+ * its points. Used by the per-set analytics queries so daily reviews count
+ * toward every set they covered.
+ *
+ * @param db - The database, for the outcome subquery
+ * @param recallSetId - The recall set
+ * @param mode - Only match sessions of this mode, or 'scheduled' (all modes if omitted)
+ * @returns SQL condition on the sessions table
+ */
+export function sessionCoversRecallSet(
+  db: AppDatabase,
+  recallSetId: string,
+  mode?: SessionModeFilter
+): SQL {
+  const dailyReviewSessionIds = db
+    .select({ sessionId: recallOutcomes.sessionId })
+    .from(recallOutcomes)
+    .innerJoin(recallPoints, eq(recallOutcomes.recallPointId, recallPoints.id))
+    .where(eq(recallPoints.recallSetId, recallSetId));
+
+  const covers = or(
+    eq(sessions.recallSetId, recallSetId),
+    and(isNull(sessions.recallSetId), inArray(sessions.id, dailyReviewSessionIds))
+  )!;
+  return mode ? and(covers, sessionModeCondition(mode))! : covers;
+}
+
 /**
  * Repository for Session entity data access operations.
  *
@@ -91,8 +190,25 @@ export class SessionRepository
    * Creates a new SessionRepository instance.
    *
    * @param db - The Drizzle database instance to use for queries
+   * @param userId - When set, restricts every query to sessions owned by this
+   *                 user and assigns new sessions to them. Null restricts
+   *                 queries to sessions without an owner. Omit for unscoped access.
    */
-  constructor(private readonly db: AppDatabase) {}
+  constructor(
+    private readonly db: AppDatabase,
+    private readonly userId?: string | null
+  ) {}
+
+  /**
+   * Condition restricting a query to the scoped user's sessions
+   * (undefined for an unscoped repository, which drizzle ignores).
+   */
+  private ownedByUser(): SQL | undefined {
+    if (this.userId === null) {
+      return isNull(sessions.userId);
+    }
+    return this.userId ? eq(sessions.userId, this.userId) : undefined;
+  }
 
   /**
    * Retrieves a session by its unique identifier.
@@ -104,7 +220,7 @@ export class SessionRepository
     const result = await this.db
       .select()
       .from(sessions)
-      .where(eq(sessions.id, id))
+      .where(and(eq(sessions.id, id), this.ownedByUser()))
       .limit(1);
 
     if (result.length === 0) {
@@ -115,23 +231,27 @@ export class SessionRepository
   }
 
   /**
-   * Retrieves all sessions.
+   * Retrieves all sessions (only the scoped user's, if scoped).
    *
    * @returns Array of all Session domain models (may be empty)
    */
   async findAll(): Promise<Session[]> {
-    const results = await this.db.select().from(sessions);
+    const results = await this.db.select().from(sessions).where(this.ownedByUser());
     return results.map(mapToDomain);
   }
 
   /**
    * Finds an in-progress session for a specific recall set.
    *
-   * Only one session should be in-progress at a time for each recall set.
-   * This is used to resume interrupted sessions or prevent multiple
-   * concurrent sessions for the same set.
+   * Only one session should be in-progress at a time for each recall set,
+   * and one daily review session at a time. This is used to resume
+   * interrupted sessions or prevent multiple concurrent sessions for the
+   * same set.
    *
-   * @param recallSetId - The ID of the recall set to check
+   * @param recallSetId - The ID of the recall set to check, or null for
+   *                      the daily review session
+   * @param mode - The session mode to look for; review and practice
+   *               sessions of the same set are resumed separately
    * @returns The in-progress Session if found, or null if none exists
    *
    * @example
@@ -144,14 +264,21 @@ export class SessionRepository
    * }
    * ```
    */
-  async findInProgress(recallSetId: string): Promise<Session | null> {
+  async findInProgress(
+    recallSetId: string | null,
+    mode: SessionMode = 'review'
+  ): Promise<Session | null> {
     const result = await this.db
       .select()
       .from(sessions)
       .where(
         and(
-          eq(sessions.recallSetId, recallSetId),
-          eq(sessions.status, 'in_progress')
+          recallSetId === null
+            ? isNull(sessions.recallSetId)
+            : eq(sessions.recallSetId, recallSetId),
+          eq(sessions.status, 'in_progress'),
+          eq(sessions.mode, mode),
+          this.ownedByUser()
         )
       )
       .limit(1);
@@ -176,9 +303,14 @@ export class SessionRepository
       .insert(sessions)
       .values({
         id: input.id,
+        userId: this.userId ?? null,
         recallSetId: input.recallSetId,
         status: 'in_progress',
+        mode: input.mode ?? 'review',
         targetRecallPointIds: input.targetRecallPointIds,
+        promptVersions: input.promptVersions ?? null,
+        experimentId: input.experimentId ?? null,
+        experimentVariant: input.experimentVariant ?? null,
         startedAt: input.startedAt ?? new Date(),
         endedAt: null,
       })
@@ -202,7 +334,7 @@ export class SessionRepository
     const result = await this.db
       .update(sessions)
       .set(input)
-      .where(eq(sessions.id, id))
+      .where(and(eq(sessions.id, id), this.ownedByUser()))
       .returning();
 
     if (result.length === 0) {
@@ -234,7 +366,7 @@ export class SessionRepository
         status: 'completed',
         endedAt: new Date(),
       })
-      .where(eq(sessions.id, id))
+      .where(and(eq(sessions.id, id), this.ownedByUser()))
       .returning({ id: sessions.id });
 
     if (result.length === 0) {
@@ -264,7 +396,7 @@ export class SessionRepository
         status: 'abandoned',
         endedAt: new Date(),
       })
-      .where(eq(sessions.id, id))
+      .where(and(eq(sessions.id, id), this.ownedByUser()))
       .returning({ id: sessions.id });
 
     if (result.length === 0) {
@@ -284,11 +416,107 @@ export class SessionRepository
   async delete(id: string): Promise<void> {
     const result = await this.db
       .delete(sessions)
-      .where(eq(sessions.id, id))
+      .where(and(eq(sessions.id, id), this.ownedByUser()))
       .returning({ id: sessions.id });
 
     if (result.length === 0) {
       throw new Error(`Session with id '${id}' not found`);
     }
   }
+
+  /**
+   * Lists the prompt experiments that sessions were assigned to.
+   *
+   * @returns One entry per experiment ID, ordered by ID
+   */
+  async findExperiments(): Promise<ExperimentSessionCount[]> {
+    const rows = await this.db
+      .select({ experimentId: sessions.experimentId, sessionCount: count(sessions.id) })
+      .from(sessions)
+      .where(and(isNotNull(sessions.experimentId), this.ownedByUser()))
+      .groupBy(sessions.experimentId)
+      .orderBy(asc(sessions.experimentId));
+
+    return rows.map((row) => ({
+      experimentId: row.experimentId!,
+      sessionCount: Number(row.sessionCount),
+    }));
+  }
+
+  /**
+   * Aggregates session metrics per variant of a prompt experiment, so the
+   * variants' prompts can be compared on recall rate, engagement, session
+   * length and token cost.
+   *
+   * @param experimentId - The experiment's ID
+   * @returns One entry per variant with sessions, ordered by variant name
+   *          (empty if no sessions were assigned to the experiment)
+   *
+   * @example
+   * ```typescript
+   * const stats = await repo.getExperimentVariantStats('tutor-length');
+   * for (const variant of stats) {
+   *   console.log(`${variant.variant}: ${(variant.avgRecallRate * 100).toFixed(0)}%`);
+   * }
+   * ```
+   */
+  async getExperimentVariantStats(experimentId: string): Promise<ExperimentVariantStats[]> {
+    const rows = await this.db
+      .select({
+        variant: sessions.experimentVariant,
+        sessionCount: count(sessions.id),
+        completedCount: sum(sql`case when ${sessions.status} = 'completed' then 1 else 0 end`),
+        measuredCount: count(sessionMetrics.id),
+        avgRecallRate: avg(sessionMetrics.overallRecallRate),
+        avgEngagement: avg(sessionMetrics.engagementScore),
+        avgDurationMs: avg(sessionMetrics.durationMs),
+        avgTokens: avg(sessionMetrics.totalTokens),
+        avgCostUsd: avg(sessionMetrics.estimatedCostUsd),
+        totalCostUsd: sum(sessionMetrics.estimatedCostUsd),
+      })
+      .from(sessions)
+      .leftJoin(sessionMetrics, eq(sessionMetrics.sessionId, sessions.id))
+      .where(
+        and(
+          eq(sessions.experimentId, experimentId),
+          isNotNull(sessions.experimentVariant),
+          this.ownedByUser()
+        )
+      )
+      .groupBy(sessions.experimentVariant)
+      .orderBy(asc(sessions.experimentVariant));
+
+    // Aggregates over no measured sessions come back null; report them as 0
+    return rows.map((row) => ({
+      variant: row.variant!,
+      sessionCount: Number(row.sessionCount),
+      completedCount: Number(row.completedCount) || 0,
+      measuredCount: Number(row.measuredCount),
+      avgRecallRate: Number(row.avgRecallRate) || 0,
+      avgEngagement: Number(row.avgEngagement) || 0,
+      avgDurationMs: Number(row.avgDurationMs) || 0,
+      avgTokens: Number(row.avgTokens) || 0,
+      avgCostUsd: Number(row.avgCostUsd) || 0,
+      totalCostUsd: Number(row.totalCostUsd) || 0,
+    }));
+  }
+
+  /**
+   * Assigns every session without an owner to the given user.
+   *
+   * Used alongside RecallSetRepository.claimUnowned() so a user who claims
+   * existing sets also gets their session history.
+   *
+   * @param userId - The user who should own the unowned sessions
+   * @returns The number of sessions that were claimed
+   */
+  async claimUnowned(userId: string): Promise<number> {
+    const result = await this.db
+      .update(sessions)
+      .set({ userId })
+      .where(isNull(sessions.userId))
+      .returning({ id: sessions.id });
+
+    return result.length;
+  }
 }
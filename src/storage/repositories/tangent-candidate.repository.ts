@@ -0,0 +1,264 @@
+/**
+ * TangentCandidate Repository Implementation
+ *
+ * This module provides data access operations for tangent candidates:
+ * recall points proposed from the rabbitholes of a finished session,
+ * awaiting the learner's review. Each rabbithole event has at most one
+ * candidate, so findByRabbitholeEventIds() tells which tangents have
+ * already been summarized.
+ *
+ * Like SessionRepository, a repository can be scoped to a user so that
+ * every query only sees candidates from that user's sessions.
+ */
+
+import { eq, and, asc, inArray, type SQL } from 'drizzle-orm';
+import type { AppDatabase } from '../db';
+import { tangentCandidates, sessions } from '../tables';
+import type { TangentCandidate, TangentCandidateStatus } from '@/core/models';
+import type { Repository } from './base';
+
+/**
+ * Input type for creating a new TangentCandidate.
+ */
+export interface CreateTangentCandidateInput {
+  /** Unique identifier - typically a prefixed UUID (e.g., 'tan_abc123') */
+  id: string;
+  /** The session the tangent happened in */
+  sessionId: string;
+  /** The rabbithole the candidate was summarized from */
+  rabbitholeEventId: string;
+  /** Recall set the candidate belongs with (null if unknown) */
+  recallSetId: string | null;
+  /** The rabbithole's topic */
+  topic: string;
+  /** The proposed recall point */
+  content: string;
+  /** Supporting context for the proposed point */
+  context: string;
+}
+
+/**
+ * Input type for updating an existing TangentCandidate.
+ * All fields are optional - only provided fields will be updated.
+ */
+export interface UpdateTangentCandidateInput {
+  /** The proposed recall point */
+  content?: string;
+  /** Supporting context for the proposed point */
+  context?: string;
+  /** Review status */
+  status?: TangentCandidateStatus;
+  /** The recall point created on acceptance */
+  recallPointId?: string | null;
+  /** When the candidate was reviewed */
+  reviewedAt?: Date | null;
+}
+
+/**
+ * Maps a database row to a TangentCandidate domain model.
+ *
+ * @param row - Raw database row from Drizzle query
+ * @returns TangentCandidate domain model
+ */
+function mapToDomain(row: typeof tangentCandidates.$inferSelect): TangentCandidate {
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    rabbitholeEventId: row.rabbitholeEventId,
+    recallSetId: row.recallSetId,
+    topic: row.topic,
+    content: row.content,
+    context: row.context,
+    status: row.status,
+    recallPointId: row.recallPointId,
+    // Drizzle's timestamp_ms mode already returns Date objects
+    createdAt: row.createdAt,
+    reviewedAt: row.reviewedAt,
+  };
+}
+
+/**
+ * Repository for TangentCandidate entities.
+ *
+ * @example
+ * ```typescript
+ * const repo = new TangentCandidateRepository(db, userId);
+ *
+ * await repo.create({
+ *   id: 'tan_' + crypto.randomUUID(),
+ *   sessionId: 'sess_xyz789',
+ *   rabbitholeEventId: 'rh_def456',
+ *   recallSetId: 'rs_ghi012',
+ *   topic: 'why the Weimar Republic printed money',
+ *   content: 'The Weimar Republic printed money to pay reparations',
+ *   context: 'Came up while recalling the Treaty of Versailles.',
+ * });
+ *
+ * const candidates = await repo.findBySessionId('sess_xyz789');
+ * ```
+ */
+export class TangentCandidateRepository
+  implements Repository<TangentCandidate, CreateTangentCandidateInput, UpdateTangentCandidateInput>
+{
+  /**
+   * Creates a new TangentCandidateRepository instance.
+   *
+   * @param db - The Drizzle database instance to use for queries
+   * @param userId - When set, restricts every query to candidates from
+   *                 sessions owned by this user. Omit for unscoped access.
+   */
+  constructor(
+    private readonly db: AppDatabase,
+    private readonly userId?: string
+  ) {}
+
+  /**
+   * Condition restricting a query to candidates from the scoped user's
+   * sessions (undefined for an unscoped repository, which drizzle ignores).
+   */
+  private onUserSessions(): SQL | undefined {
+    if (!this.userId) {
+      return undefined;
+    }
+    const userSessionIds = this.db
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(eq(sessions.userId, this.userId));
+    return inArray(tangentCandidates.sessionId, userSessionIds);
+  }
+
+  /**
+   * Retrieves a candidate by its unique identifier.
+   *
+   * @param id - The unique identifier of the candidate
+   * @returns The TangentCandidate domain model if found, or null if not found
+   */
+  async findById(id: string): Promise<TangentCandidate | null> {
+    const result = await this.db
+      .select()
+      .from(tangentCandidates)
+      .where(and(eq(tangentCandidates.id, id), this.onUserSessions()))
+      .limit(1);
+
+    return result.length > 0 ? mapToDomain(result[0]) : null;
+  }
+
+  /**
+   * Retrieves all candidates, oldest first.
+   *
+   * @returns Array of all TangentCandidate domain models
+   */
+  async findAll(): Promise<TangentCandidate[]> {
+    const result = await this.db
+      .select()
+      .from(tangentCandidates)
+      .where(this.onUserSessions())
+      .orderBy(asc(tangentCandidates.createdAt));
+
+    return result.map(mapToDomain);
+  }
+
+  /**
+   * Retrieves the candidates proposed from a session, oldest first.
+   *
+   * @param sessionId - The session to look up
+   * @returns The session's candidates (empty if none)
+   */
+  async findBySessionId(sessionId: string): Promise<TangentCandidate[]> {
+    const result = await this.db
+      .select()
+      .from(tangentCandidates)
+      .where(and(eq(tangentCandidates.sessionId, sessionId), this.onUserSessions()))
+      .orderBy(asc(tangentCandidates.createdAt));
+
+    return result.map(mapToDomain);
+  }
+
+  /**
+   * Retrieves the candidates summarized from any of the given rabbithole
+   * events.
+   *
+   * @param rabbitholeEventIds - The rabbithole events to look up
+   * @returns The events' candidates (empty if none, or if no IDs are given)
+   */
+  async findByRabbitholeEventIds(rabbitholeEventIds: string[]): Promise<TangentCandidate[]> {
+    if (rabbitholeEventIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.db
+      .select()
+      .from(tangentCandidates)
+      .where(
+        and(inArray(tangentCandidates.rabbitholeEventId, rabbitholeEventIds), this.onUserSessions())
+      );
+
+    return result.map(mapToDomain);
+  }
+
+  /**
+   * Creates a new pending candidate.
+   *
+   * @param input - The session, rabbithole and proposed recall point
+   * @returns The created TangentCandidate
+   */
+  async create(input: CreateTangentCandidateInput): Promise<TangentCandidate> {
+    const result = await this.db
+      .insert(tangentCandidates)
+      .values({
+        id: input.id,
+        sessionId: input.sessionId,
+        rabbitholeEventId: input.rabbitholeEventId,
+        recallSetId: input.recallSetId,
+        topic: input.topic,
+        content: input.content,
+        context: input.context,
+        status: 'pending',
+        recallPointId: null,
+        createdAt: new Date(),
+        reviewedAt: null,
+      })
+      .returning();
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Updates a candidate, e.g. to record its review.
+   *
+   * @param id - The unique identifier of the candidate
+   * @param input - The fields to change
+   * @returns The updated TangentCandidate
+   * @throws Error if the candidate does not exist
+   */
+  async update(id: string, input: UpdateTangentCandidateInput): Promise<TangentCandidate> {
+    const result = await this.db
+      .update(tangentCandidates)
+      .set(input)
+      .where(and(eq(tangentCandidates.id, id), this.onUserSessions()))
+      .returning();
+
+    if (result.length === 0) {
+      throw new Error(`TangentCandidate with id '${id}' not found`);
+    }
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Permanently deletes a candidate.
+   *
+   * @param id - The unique identifier of the candidate
+   * @throws Error if the candidate does not exist
+   */
+  async delete(id: string): Promise<void> {
+    const result = await this.db
+      .delete(tangentCandidates)
+      .where(and(eq(tangentCandidates.id, id), this.onUserSessions()))
+      .returning({ id: tangentCandidates.id });
+
+    if (result.length === 0) {
+      throw new Error(`TangentCandidate with id '${id}' not found`);
+    }
+  }
+}
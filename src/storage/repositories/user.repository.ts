@@ -0,0 +1,244 @@
+/**
+ * User Repository Implementation
+ *
+ * This module provides data access operations for User accounts. It maps
+ * database rows to the User domain model, which never includes the password
+ * hash; the hash is only returned by findCredentialsByEmail() for login.
+ *
+ * Email addresses are normalized to lowercase on write and on lookup so
+ * "Ada@Example.com" and "ada@example.com" are the same account.
+ */
+
+import { eq, count } from 'drizzle-orm';
+import type { AppDatabase } from '../db';
+import { users } from '../tables';
+import type { User } from '@/core/models';
+import type { Repository } from './base';
+
+/**
+ * Input type for creating a new User.
+ */
+export interface CreateUserInput {
+  /** Unique identifier - typically a prefixed UUID (e.g., 'usr_abc123') */
+  id: string;
+  /** Login email address (normalized to lowercase) */
+  email: string;
+  /** Display name */
+  name: string;
+  /** Password hash produced by Bun.password.hash() */
+  passwordHash: string;
+}
+
+/**
+ * Input type for updating an existing User.
+ * All fields are optional - only specified fields will be updated.
+ */
+export interface UpdateUserInput {
+  /** Display name */
+  name?: string;
+  /** Replacement password hash */
+  passwordHash?: string;
+  /** Time of the most recent successful login */
+  lastLoginAt?: Date;
+}
+
+/**
+ * A user together with their stored password hash, for verifying logins.
+ */
+export interface UserCredentials {
+  /** The user account */
+  user: User;
+  /** The stored password hash */
+  passwordHash: string;
+}
+
+/**
+ * Maps a database row to a User domain model, dropping the password hash.
+ *
+ * @param row - Raw database row from Drizzle query
+ * @returns User domain model with proper Date objects
+ */
+function mapToDomain(row: typeof users.$inferSelect): User {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    // Drizzle's timestamp_ms mode already returns Date objects
+    createdAt: row.createdAt,
+    lastLoginAt: row.lastLoginAt,
+  };
+}
+
+/**
+ * Normalizes an email address for storage and lookup.
+ */
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Repository for User account data access operations.
+ *
+ * @example
+ * ```typescript
+ * const repo = new UserRepository(db);
+ *
+ * const user = await repo.create({
+ *   id: 'usr_' + crypto.randomUUID(),
+ *   email: 'ada@example.com',
+ *   name: 'Ada',
+ *   passwordHash: await Bun.password.hash(password),
+ * });
+ *
+ * const credentials = await repo.findCredentialsByEmail('ADA@example.com');
+ * ```
+ */
+export class UserRepository implements Repository<User, CreateUserInput, UpdateUserInput> {
+  /**
+   * Creates a new UserRepository instance.
+   *
+   * @param db - The Drizzle database instance to use for queries
+   */
+  constructor(private readonly db: AppDatabase) {}
+
+  /**
+   * Retrieves a user by their unique identifier.
+   *
+   * @param id - The unique identifier of the user
+   * @returns The User domain model if found, or null if not found
+   */
+  async findById(id: string): Promise<User | null> {
+    const result = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Retrieves all users.
+   *
+   * @returns Array of all User domain models (may be empty)
+   */
+  async findAll(): Promise<User[]> {
+    const results = await this.db.select().from(users);
+    return results.map(mapToDomain);
+  }
+
+  /**
+   * Finds a user by email address (case-insensitive).
+   *
+   * @param email - The email address to look up
+   * @returns The User if found, or null if not found
+   */
+  async findByEmail(email: string): Promise<User | null> {
+    const credentials = await this.findCredentialsByEmail(email);
+    return credentials?.user ?? null;
+  }
+
+  /**
+   * Finds a user and their password hash by email address (case-insensitive).
+   *
+   * Only the login flow should use this; everything else should work with
+   * the hash-free User model.
+   *
+   * @param email - The email address to look up
+   * @returns The user and stored hash, or null if no account uses this email
+   */
+  async findCredentialsByEmail(email: string): Promise<UserCredentials | null> {
+    const result = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.email, normalizeEmail(email)))
+      .limit(1);
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return { user: mapToDomain(result[0]), passwordHash: result[0].passwordHash };
+  }
+
+  /**
+   * Counts registered users.
+   *
+   * @returns The number of user accounts
+   */
+  async count(): Promise<number> {
+    const result = await this.db.select({ value: count() }).from(users);
+    return result[0]?.value ?? 0;
+  }
+
+  /**
+   * Creates a new user.
+   *
+   * @param input - The data for creating the new user
+   * @returns The created User domain model
+   * @throws Error if the email address is already registered
+   */
+  async create(input: CreateUserInput): Promise<User> {
+    const now = new Date();
+
+    const result = await this.db
+      .insert(users)
+      .values({
+        id: input.id,
+        email: normalizeEmail(input.email),
+        name: input.name,
+        passwordHash: input.passwordHash,
+        createdAt: now,
+        updatedAt: now,
+        lastLoginAt: null,
+      })
+      .returning();
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Updates an existing user.
+   *
+   * @param id - The unique identifier of the user to update
+   * @param input - The partial data to update
+   * @returns The updated User domain model
+   * @throws Error if the user with the given id does not exist
+   */
+  async update(id: string, input: UpdateUserInput): Promise<User> {
+    const result = await this.db
+      .update(users)
+      .set({
+        ...input,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (result.length === 0) {
+      throw new Error(`User with id '${id}' not found`);
+    }
+
+    return mapToDomain(result[0]);
+  }
+
+  /**
+   * Permanently deletes a user.
+   *
+   * WARNING: This will fail while recall sets or sessions are still owned
+   * by the user due to foreign key constraints.
+   *
+   * @param id - The unique identifier of the user to delete
+   * @throws Error if the user does not exist or still owns data
+   */
+  async delete(id: string): Promise<void> {
+    const result = await this.db
+      .delete(users)
+      .where(eq(users.id, id))
+      .returning({ id: users.id });
+
+    if (result.length === 0) {
+      throw new Error(`User with id '${id}' not found`);
+    }
+  }
+}
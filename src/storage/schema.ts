@@ -5,6 +5,7 @@
  * These define the structure of all database tables used by the application.
  *
  * The schema supports a conversational spaced repetition system with:
+ * - Users: Accounts that own recall sets and sessions
  * - Recall Sets: Collections of related recall points with discussion prompts
  * - Recall Points: Individual facts/concepts tracked using FSRS algorithm
  * - Sessions: Recall session records for tracking user engagement
@@ -22,6 +23,36 @@ import {
   index,
 } from 'drizzle-orm/sqlite-core';
 
+/**
+ * Users Table
+ *
+ * Accounts for people sharing a deployment. Recall sets and sessions carry
+ * a user_id so each user only sees their own data. Passwords are stored as
+ * Bun.password (argon2id) hashes, never in plain text.
+ */
+export const users = sqliteTable('users', {
+  // Unique identifier for the user (e.g., 'usr_abc123')
+  id: text('id').primaryKey(),
+
+  // Login email address, stored lowercased so lookups are case-insensitive
+  email: text('email').notNull().unique(),
+
+  // Display name shown in the UI
+  name: text('name').notNull(),
+
+  // argon2id password hash produced by Bun.password.hash()
+  passwordHash: text('password_hash').notNull(),
+
+  // Timestamp when the account was created (milliseconds since epoch)
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+
+  // Timestamp when the account was last modified (milliseconds since epoch)
+  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
+
+  // Timestamp of the most recent successful login (null until first login)
+  lastLoginAt: integer('last_login_at', { mode: 'timestamp_ms' }),
+});
+
 /**
  * Recall Sets Table
  *
@@ -34,31 +65,47 @@ import {
  * - 'paused': Temporarily excluded from scheduling
  * - 'archived': Permanently excluded but preserved for history
  */
-export const recallSets = sqliteTable('recall_sets', {
-  // Unique identifier for the recall set (UUID format recommended)
-  id: text('id').primaryKey(),
+export const recallSets = sqliteTable(
+  'recall_sets',
+  {
+    // Unique identifier for the recall set (UUID format recommended)
+    id: text('id').primaryKey(),
 
-  // Human-readable name for the recall set (e.g., "Spanish Vocabulary")
-  name: text('name').notNull(),
+    // Owning user (null for sets created before accounts existed, or by the CLI)
+    userId: text('user_id').references(() => users.id),
 
-  // Detailed description of what this recall set covers
-  description: text('description').notNull(),
+    // Human-readable name for the recall set (e.g., "Spanish Vocabulary")
+    name: text('name').notNull(),
 
-  // Current status controlling whether the set is used in scheduling
-  status: text('status', { enum: ['active', 'paused', 'archived'] })
-    .notNull()
-    .default('active'),
+    // Detailed description of what this recall set covers
+    description: text('description').notNull(),
 
-  // System prompt used to guide AI behavior during recall discussions
-  // This defines the Socratic dialog style for this particular topic
-  discussionSystemPrompt: text('discussion_system_prompt').notNull(),
+    // Current status controlling whether the set is used in scheduling
+    status: text('status', { enum: ['active', 'paused', 'archived'] })
+      .notNull()
+      .default('active'),
 
-  // Timestamp when the recall set was created (milliseconds since epoch)
-  createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+    // System prompt used to guide AI behavior during recall discussions
+    // This defines the Socratic dialog style for this particular topic
+    discussionSystemPrompt: text('discussion_system_prompt').notNull(),
 
-  // Timestamp when the recall set was last modified (milliseconds since epoch)
-  updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
-});
+    // Per-set scheduling settings; null falls back to the application defaults
+    desiredRetention: real('desired_retention'),
+    maximumIntervalDays: integer('maximum_interval_days'),
+    maxPointsPerSession: integer('max_points_per_session'),
+    newPointsPerDay: integer('new_points_per_day'),
+
+    // Lapses after which a point is flagged as a leech; null uses the default
+    leechLapseThreshold: integer('leech_lapse_threshold'),
+
+    // Timestamp when the recall set was created (milliseconds since epoch)
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+
+    // Timestamp when the recall set was last modified (milliseconds since epoch)
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [index('recall_sets_user_id_idx').on(table.userId)]
+);
 
 /**
  * Recall Points Table
@@ -120,6 +167,12 @@ export const recallPoints = sqliteTable('recall_points', {
     .notNull()
     .default([]),
 
+  // When the learner suspended this point; suspended points are never scheduled
+  suspendedAt: integer('suspended_at', { mode: 'timestamp_ms' }),
+
+  // When the learner marked this point for a dedicated deep-dive session
+  deepDiveRequestedAt: integer('deep_dive_requested_at', { mode: 'timestamp_ms' }),
+
   // Timestamp when the recall point was created (milliseconds since epoch)
   createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
 
@@ -139,32 +192,60 @@ export const recallPoints = sqliteTable('recall_points', {
  * - 'completed': Session finished normally with all points reviewed
  * - 'abandoned': Session was started but not completed
  */
-export const sessions = sqliteTable('sessions', {
-  // Unique identifier for the session (UUID format recommended)
-  id: text('id').primaryKey(),
+export const sessions = sqliteTable(
+  'sessions',
+  {
+    // Unique identifier for the session (UUID format recommended)
+    id: text('id').primaryKey(),
 
-  // Foreign key reference to the recall set being practiced
-  recallSetId: text('recall_set_id')
-    .notNull()
-    .references(() => recallSets.id),
+    // Owning user (null for sessions started before accounts existed, or by the CLI)
+    userId: text('user_id').references(() => users.id),
 
-  // Current status of the session
-  status: text('status', { enum: ['in_progress', 'completed', 'abandoned'] })
-    .notNull()
-    .default('in_progress'),
+    // Foreign key reference to the recall set being practiced
+    // (null for daily review sessions spanning all active recall sets)
+    recallSetId: text('recall_set_id').references(() => recallSets.id),
 
-  // Array of recall point IDs targeted for this session
-  // Stored as JSON array for flexibility in session size
-  targetRecallPointIds: text('target_recall_point_ids', { mode: 'json' })
-    .$type<string[]>()
-    .notNull(),
+    // Current status of the session
+    status: text('status', { enum: ['in_progress', 'completed', 'abandoned'] })
+      .notNull()
+      .default('in_progress'),
 
-  // Timestamp when the session started (milliseconds since epoch)
-  startedAt: integer('started_at', { mode: 'timestamp_ms' }).notNull(),
+    // 'review' and 'deep-dive' reschedule points; 'practice' records
+    // outcomes without touching FSRS state
+    mode: text('mode', { enum: ['review', 'practice', 'deep-dive'] })
+      .notNull()
+      .default('review'),
 
-  // Timestamp when the session ended (null if still in progress)
-  endedAt: integer('ended_at', { mode: 'timestamp_ms' }),
-});
+    // Array of recall point IDs targeted for this session
+    // Stored as JSON array for flexibility in session size
+    targetRecallPointIds: text('target_recall_point_ids', { mode: 'json' })
+      .$type<string[]>()
+      .notNull(),
+
+    // Named prompt versions the session used, as { tutor, evaluator, rabbithole }
+    // (null for sessions started before prompt versions were recorded)
+    promptVersions: text('prompt_versions', { mode: 'json' }).$type<{
+      tutor: string;
+      evaluator: string;
+      rabbithole: string;
+    }>(),
+
+    // Prompt experiment and variant that assigned those versions
+    // (null when the session used the default prompts)
+    experimentId: text('experiment_id'),
+    experimentVariant: text('experiment_variant'),
+
+    // Timestamp when the session started (milliseconds since epoch)
+    startedAt: integer('started_at', { mode: 'timestamp_ms' }).notNull(),
+
+    // Timestamp when the session ended (null if still in progress)
+    endedAt: integer('ended_at', { mode: 'timestamp_ms' }),
+  },
+  (table) => [
+    index('sessions_user_id_idx').on(table.userId),
+    index('sessions_experiment_id_idx').on(table.experimentId),
+  ]
+);
 
 /**
  * Session Messages Table
@@ -203,6 +284,9 @@ export const sessionMessages = sqliteTable('session_messages', {
  * Type exports for use throughout the application
  * These types are inferred from the schema for type-safe database operations
  */
+export type User = typeof users.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
+
 export type RecallSet = typeof recallSets.$inferSelect;
 export type NewRecallSet = typeof recallSets.$inferInsert;
 
@@ -353,13 +437,23 @@ export const recallOutcomes = sqliteTable(
     // User's confidence level in their recall (0.0-1.0)
     confidence: real('confidence').notNull(),
 
-    // User's self-rating of the recall difficulty (FSRS-style ratings)
+    // Rating the point was scheduled with (FSRS-style ratings): the learner's
+    // rating if they overrode the AI's, otherwise the AI's
     // 'forgot': Complete failure, needs relearning
     // 'hard': Recalled with significant difficulty
     // 'good': Recalled correctly with some effort
     // 'easy': Recalled effortlessly
     rating: text('rating', { enum: ['forgot', 'hard', 'good', 'easy'] }),
 
+    // Rating derived from the AI's evaluation, before any override
+    aiRating: text('ai_rating', { enum: ['forgot', 'hard', 'good', 'easy'] }),
+
+    // Rating the learner chose instead of the AI's (null if they kept it)
+    learnerRating: text('learner_rating', { enum: ['forgot', 'hard', 'good', 'easy'] }),
+
+    // Hints the learner took before the evaluation; they cap the rating
+    hintsUsed: integer('hints_used').notNull().default(0),
+
     // AI's reasoning for success/failure assessment (useful for review)
     reasoning: text('reasoning'),
 
@@ -502,3 +596,287 @@ export type NewRabbitholeEvent = typeof rabbitholeEvents.$inferInsert;
 // Type exports for message timings
 export type MessageTiming = typeof messageTimings.$inferSelect;
 export type NewMessageTiming = typeof messageTimings.$inferInsert;
+
+/**
+ * Ingestion Sources Table
+ *
+ * Stores raw source material (pasted text or the contents of a local
+ * markdown/plain-text file) submitted for ingestion. The content is kept
+ * so extraction can be retried and jobs can be resumed later.
+ */
+export const ingestionSources = sqliteTable('ingestion_sources', {
+  // Unique identifier for the source (e.g., 'src_abc123')
+  id: text('id').primaryKey(),
+
+  // Whether the material was pasted ('text') or read from a file ('file')
+  type: text('type', { enum: ['text', 'file'] }).notNull(),
+
+  // File path for file sources, or an optional title for pasted text
+  name: text('name'),
+
+  // The full text of the source material
+  content: text('content').notNull(),
+
+  // Timestamp when the source was stored (milliseconds since epoch)
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+});
+
+/**
+ * Ingestion Jobs Table
+ *
+ * Tracks the extraction and review of one source into a draft recall set.
+ * Candidate recall points and their review decisions are stored as a JSON
+ * array so a half-finished review can be resumed.
+ *
+ * Status values:
+ * - 'extracting': LLM extraction in progress
+ * - 'reviewing': Candidates ready for user review
+ * - 'completed': Recall set created from approved candidates
+ * - 'failed': Extraction failed (see error column)
+ * - 'cancelled': Abandoned by the user
+ */
+export const ingestionJobs = sqliteTable(
+  'ingestion_jobs',
+  {
+    // Unique identifier for the job (e.g., 'ing_abc123')
+    id: text('id').primaryKey(),
+
+    // Foreign key reference to the source material being ingested
+    sourceId: text('source_id')
+      .notNull()
+      .references(() => ingestionSources.id),
+
+    // Current lifecycle status of the job
+    status: text('status', {
+      enum: ['extracting', 'reviewing', 'completed', 'failed', 'cancelled'],
+    })
+      .notNull()
+      .default('extracting'),
+
+    // Candidate recall points with review status, stored as JSON array
+    candidates: text('candidates', { mode: 'json' })
+      .$type<
+        Array<{
+          id: string;
+          content: string;
+          context: string;
+          sourceQuote: string | null;
+          status: 'pending' | 'approved' | 'edited' | 'rejected';
+        }>
+      >()
+      .notNull()
+      .default([]),
+
+    // Recall set name and description suggested by the LLM
+    suggestedName: text('suggested_name'),
+    suggestedDescription: text('suggested_description'),
+
+    // The recall set created from this job (null until completed)
+    recallSetId: text('recall_set_id').references(() => recallSets.id),
+
+    // Error message from the last failed extraction
+    error: text('error'),
+
+    // Timestamp when the job was created (milliseconds since epoch)
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+
+    // Timestamp when the job was last modified (milliseconds since epoch)
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
+
+    // Timestamp when the recall set was created (milliseconds since epoch)
+    completedAt: integer('completed_at', { mode: 'timestamp_ms' }),
+  },
+  (table) => [index('ingestion_jobs_status_idx').on(table.status)]
+);
+
+// Type exports for ingestion
+export type IngestionSource = typeof ingestionSources.$inferSelect;
+export type NewIngestionSource = typeof ingestionSources.$inferInsert;
+
+export type IngestionJob = typeof ingestionJobs.$inferSelect;
+export type NewIngestionJob = typeof ingestionJobs.$inferInsert;
+
+/**
+ * FSRS Parameters Table
+ *
+ * Stores FSRS weights fitted to a user's own review history (recall_outcomes).
+ * A row with a recall_set_id applies to that set only; a row without one
+ * applies to all of the user's sets. There is at most one row per scope,
+ * and the scheduler uses the library defaults where no row applies.
+ */
+export const fsrsParameters = sqliteTable(
+  'fsrs_parameters',
+  {
+    // Unique identifier (e.g., 'fsp_abc123')
+    id: text('id').primaryKey(),
+
+    // Owning user (null for single-user databases and CLI-fitted weights)
+    userId: text('user_id').references(() => users.id),
+
+    // The recall set these weights apply to (null for all of the user's sets)
+    recallSetId: text('recall_set_id').references(() => recallSets.id),
+
+    // The 19 FSRS-5 weights, stored as a JSON array
+    weights: text('weights', { mode: 'json' }).$type<number[]>().notNull(),
+
+    // Number of reviews with a retention prediction used for fitting
+    reviewCount: integer('review_count').notNull(),
+
+    // Log loss of the previous and the fitted weights on those reviews
+    logLossBefore: real('log_loss_before').notNull(),
+    logLossAfter: real('log_loss_after').notNull(),
+
+    // Timestamp when the weights were fitted (milliseconds since epoch)
+    fittedAt: integer('fitted_at', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [
+    index('fsrs_parameters_user_id_idx').on(table.userId),
+    index('fsrs_parameters_recall_set_id_idx').on(table.recallSetId),
+  ]
+);
+
+// Type exports for FSRS parameters
+export type FSRSParameters = typeof fsrsParameters.$inferSelect;
+export type NewFSRSParameters = typeof fsrsParameters.$inferInsert;
+
+/**
+ * Outcome Evaluations Table
+ *
+ * Recall outcomes judged again by a later version of the evaluation prompt.
+ * The stored conversation slice of the outcome (message_index_start to
+ * message_index_end) is replayed through the evaluator, and the result is
+ * kept alongside the original outcome rather than replacing it. There is at
+ * most one evaluation per outcome and evaluator version.
+ */
+export const outcomeEvaluations = sqliteTable(
+  'outcome_evaluations',
+  {
+    // Unique identifier (e.g., 'oe_abc123')
+    id: text('id').primaryKey(),
+
+    // The recall outcome that was re-evaluated
+    recallOutcomeId: text('recall_outcome_id')
+      .notNull()
+      .references(() => recallOutcomes.id),
+
+    // Version of the evaluation prompt (e.g., 'enhanced-v2')
+    evaluatorVersion: text('evaluator_version').notNull(),
+
+    // The re-evaluation's judgment, as in recall_outcomes
+    success: integer('success', { mode: 'boolean' }).notNull(),
+    confidence: real('confidence').notNull(),
+    rating: text('rating', { enum: ['forgot', 'hard', 'good', 'easy'] }).notNull(),
+    reasoning: text('reasoning').notNull(),
+
+    // Concepts demonstrated and missed, stored as JSON arrays
+    keyDemonstratedConcepts: text('key_demonstrated_concepts', { mode: 'json' })
+      .$type<string[]>()
+      .notNull(),
+    missedConcepts: text('missed_concepts', { mode: 'json' }).$type<string[]>().notNull(),
+
+    // Timestamp when the re-evaluation was made (milliseconds since epoch)
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [
+    index('outcome_evaluations_recall_outcome_id_idx').on(table.recallOutcomeId),
+    index('outcome_evaluations_evaluator_version_idx').on(table.evaluatorVersion),
+  ]
+);
+
+// Type exports for outcome evaluations
+export type OutcomeEvaluation = typeof outcomeEvaluations.$inferSelect;
+export type NewOutcomeEvaluation = typeof outcomeEvaluations.$inferInsert;
+
+/**
+ * Session Annotations Table
+ *
+ * Notes made while reviewing session transcripts to refine the prompts: a
+ * free-text note plus tags (e.g., 'too long', 'robotic'), attached to the
+ * whole session or to one message of its transcript. Tag frequencies are
+ * reported per prompt version and per recall set.
+ */
+export const sessionAnnotations = sqliteTable(
+  'session_annotations',
+  {
+    // Unique identifier (e.g., 'ann_abc123')
+    id: text('id').primaryKey(),
+
+    // The annotated session
+    sessionId: text('session_id')
+      .notNull()
+      .references(() => sessions.id),
+
+    // Index of the annotated message in the transcript (null for the whole session)
+    messageIndex: integer('message_index'),
+
+    // Free-text note (may be empty)
+    note: text('note').notNull(),
+
+    // Lowercase tags, stored as a JSON array
+    tags: text('tags', { mode: 'json' }).$type<string[]>().notNull(),
+
+    // Timestamps (milliseconds since epoch)
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [index('session_annotations_session_id_idx').on(table.sessionId)]
+);
+
+// Type exports for session annotations
+export type SessionAnnotation = typeof sessionAnnotations.$inferSelect;
+export type NewSessionAnnotation = typeof sessionAnnotations.$inferInsert;
+
+/**
+ * Tangent Candidates Table
+ *
+ * Recall points proposed from rabbitholes once a session is over: each
+ * returned or abandoned rabbithole is summarized from its part of the
+ * transcript into a candidate, which the learner accepts into a recall set
+ * (or the "Tangents" inbox set) or dismisses. There is at most one
+ * candidate per rabbithole event.
+ */
+export const tangentCandidates = sqliteTable(
+  'tangent_candidates',
+  {
+    // Unique identifier (e.g., 'tan_abc123')
+    id: text('id').primaryKey(),
+
+    // The session the tangent happened in
+    sessionId: text('session_id')
+      .notNull()
+      .references(() => sessions.id),
+
+    // The rabbithole the candidate was summarized from (one candidate each)
+    rabbitholeEventId: text('rabbithole_event_id')
+      .notNull()
+      .unique()
+      .references(() => rabbitholeEvents.id),
+
+    // Recall set the candidate belongs with (null if unknown; inbox only)
+    recallSetId: text('recall_set_id').references(() => recallSets.id),
+
+    // The rabbithole's topic
+    topic: text('topic').notNull(),
+
+    // The proposed recall point and its supporting context
+    content: text('content').notNull(),
+    context: text('context').notNull(),
+
+    // Review status
+    status: text('status', { enum: ['pending', 'accepted', 'dismissed'] })
+      .notNull()
+      .default('pending'),
+
+    // Recall point created on acceptance (null until accepted)
+    recallPointId: text('recall_point_id').references(() => recallPoints.id),
+
+    // Timestamps (milliseconds since epoch); reviewedAt is null while pending
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+    reviewedAt: integer('reviewed_at', { mode: 'timestamp_ms' }),
+  },
+  (table) => [index('tangent_candidates_session_id_idx').on(table.sessionId)]
+);
+
+// Type exports for tangent candidates
+export type TangentCandidate = typeof tangentCandidates.$inferSelect;
+export type NewTangentCandidate = typeof tangentCandidates.$inferInsert;
@@ -21,7 +21,7 @@
  * - Empty recall history
  */
 
-import { db } from './db';
+import { db, closeDatabase } from './db';
 import {
   RecallSetRepository,
   RecallPointRepository,
@@ -213,8 +213,11 @@ async function main() {
   console.log(`  Skipped: ${skippedCount} recall set(s)`);
 }
 
-// Execute the seeder
-main().catch((error) => {
-  console.error('Seeding failed:', error);
-  process.exit(1);
-});
+// Execute the seeder, then close the connection so a PostgreSQL pool
+// doesn't keep the process alive
+main()
+  .then(() => closeDatabase(db))
+  .catch((error) => {
+    console.error('Seeding failed:', error);
+    process.exit(1);
+  });
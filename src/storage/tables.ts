@@ -0,0 +1,46 @@
+/**
+ * Active Table Definitions
+ *
+ * Repositories import their table objects from here rather than from
+ * schema.ts. The tables come from schema.ts (SQLite) or pg-schema.ts
+ * (PostgreSQL) depending on DATABASE_TYPE, so the same repository code
+ * builds queries for whichever dialect the database connection uses.
+ *
+ * Both schemas define identical table and column names with identical
+ * TypeScript types, so the tables are typed as the SQLite definitions.
+ * Row types (RecallSet, NewSession, ...) should still be imported from
+ * schema.ts.
+ *
+ * The dialect is fixed for the lifetime of the process; a connection
+ * created by createDatabase() always matches these tables.
+ */
+
+import { getDatabaseType } from '../config';
+import * as sqliteSchema from './schema';
+import * as pgSchema from './pg-schema';
+
+/**
+ * Table definitions for the configured dialect.
+ */
+const activeSchema: typeof sqliteSchema =
+  getDatabaseType() === 'postgres'
+    ? (pgSchema as unknown as typeof sqliteSchema)
+    : sqliteSchema;
+
+export const {
+  users,
+  recallSets,
+  recallPoints,
+  sessions,
+  sessionMessages,
+  sessionMetrics,
+  recallOutcomes,
+  rabbitholeEvents,
+  messageTimings,
+  ingestionSources,
+  ingestionJobs,
+  fsrsParameters,
+  outcomeEvaluations,
+  sessionAnnotations,
+  tangentCandidates,
+} = activeSchema;
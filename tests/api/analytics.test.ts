@@ -0,0 +1,143 @@
+/**
+ * Analytics API Endpoint Tests
+ *
+ * Tests for the memory analytics endpoints behind the retention curves,
+ * stability histogram and leech list on the recall set detail page.
+ *
+ * Endpoints tested:
+ * - GET /api/analytics/recall-sets/:id/memory - Retention curves, stability distribution and leeches
+ * - GET /api/analytics/recall-sets/:id/leeches - Leeches of a recall set
+ * - GET /api/analytics/recall-points/:id/memory - Memory state and retention curve of a point
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  createTestApp,
+  type TestContext,
+} from '../setup';
+import {
+  createTestRecallSet,
+  createTestRecallPoint,
+  daysAgo,
+  getJsonResponse,
+} from '../helpers';
+import type { RecallSet } from '../../src/core/models';
+import type { Hono } from 'hono';
+
+describe('Analytics API', () => {
+  let ctx: TestContext;
+  let app: Hono;
+  let recallSet: RecallSet;
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    app = createTestApp(ctx);
+
+    recallSet = await createTestRecallSet(ctx.repos, { name: 'Memory Set' });
+    await createTestRecallPoint(ctx.repos, {
+      id: 'rp_api_steady',
+      recallSetId: recallSet.id,
+      fsrsState: { state: 'review', stability: 20, reps: 4, lapses: 0, lastReview: daysAgo(5) },
+    });
+    await createTestRecallPoint(ctx.repos, {
+      id: 'rp_api_leech',
+      recallSetId: recallSet.id,
+      fsrsState: { state: 'relearning', stability: 1.5, reps: 8, lapses: 5, lastReview: daysAgo(1) },
+    });
+    await createTestRecallPoint(ctx.repos, { id: 'rp_api_new', recallSetId: recallSet.id });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  // ==========================================================================
+  // GET /api/analytics/recall-sets/:id/memory
+  // ==========================================================================
+  describe('GET /api/analytics/recall-sets/:id/memory', () => {
+    it('should return retention curves, the stability distribution and leeches', async () => {
+      const response = await app.request(`/api/analytics/recall-sets/${recallSet.id}/memory`);
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(200);
+      expect(json.data.recallSetName).toBe('Memory Set');
+      expect(json.data.days).toBe(30);
+      expect(json.data.reviewedPointCount).toBe(2);
+      expect(json.data.newPointCount).toBe(1);
+      expect(json.data.retentionCurve).toHaveLength(31);
+      expect(json.data.points).toHaveLength(3);
+      expect(json.data.stabilityDistribution).toHaveLength(7);
+      expect(json.data.leeches.map((l: any) => l.recallPointId)).toEqual(['rp_api_leech']);
+    });
+
+    it('should cap the curve length at 365 days', async () => {
+      const response = await app.request(
+        `/api/analytics/recall-sets/${recallSet.id}/memory?days=1000`
+      );
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(200);
+      expect(json.data.days).toBe(365);
+      expect(json.data.retentionCurve).toHaveLength(366);
+    });
+
+    it('should reject an invalid days parameter', async () => {
+      const response = await app.request(
+        `/api/analytics/recall-sets/${recallSet.id}/memory?days=soon`
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown recall set', async () => {
+      const response = await app.request('/api/analytics/recall-sets/rs_missing/memory');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  // ==========================================================================
+  // GET /api/analytics/recall-sets/:id/leeches
+  // ==========================================================================
+  describe('GET /api/analytics/recall-sets/:id/leeches', () => {
+    it("should return the set's leeches with their reasons", async () => {
+      const response = await app.request(`/api/analytics/recall-sets/${recallSet.id}/leeches`);
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(200);
+      expect(json.data).toEqual([
+        {
+          recallPointId: 'rp_api_leech',
+          content: expect.any(String),
+          lapses: 5,
+          reps: 8,
+          stability: 1.5,
+          reasons: ['lapses', 'flat-stability'],
+        },
+      ]);
+    });
+  });
+
+  // ==========================================================================
+  // GET /api/analytics/recall-points/:id/memory
+  // ==========================================================================
+  describe('GET /api/analytics/recall-points/:id/memory', () => {
+    it("should return the point's memory state and retention curve", async () => {
+      const response = await app.request('/api/analytics/recall-points/rp_api_steady/memory?days=7');
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(200);
+      expect(json.data.stability).toBe(20);
+      expect(json.data.retentionCurve).toHaveLength(8);
+      expect(json.data.retrievability).toBeGreaterThan(0.9);
+    });
+
+    it('should return 404 for an unknown recall point', async () => {
+      const response = await app.request('/api/analytics/recall-points/rp_missing/memory');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
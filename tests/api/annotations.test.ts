@@ -0,0 +1,269 @@
+/**
+ * Session Annotations API Endpoint Tests
+ *
+ * Tests for the endpoints that keep notes and tags on sessions, or on
+ * single transcript messages, and report how often each tag came up per
+ * prompt version or recall set.
+ *
+ * Endpoints tested:
+ * - GET /api/sessions/:id/annotations - List a session's annotations
+ * - POST /api/sessions/:id/annotations - Annotate a session or message
+ * - PATCH /api/sessions/:id/annotations/:annotationId - Edit an annotation
+ * - DELETE /api/sessions/:id/annotations/:annotationId - Delete an annotation
+ * - GET /api/annotations/report - Tag frequencies
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  createTestApp,
+  type TestContext,
+} from '../setup';
+import { createTestRecallSet, createTestSession, getJsonResponse } from '../helpers';
+import { DEFAULT_PROMPT_VERSIONS } from '../../src/llm/prompts';
+import type { Session } from '../../src/core/models';
+import type { Hono } from 'hono';
+
+describe('Session Annotations API', () => {
+  let ctx: TestContext;
+  let app: Hono;
+  let session: Session;
+
+  /** Sends a JSON request to the test app. */
+  const send = (path: string, method: string, body: unknown) =>
+    app.request(path, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  /** Annotates a session through the API and returns the annotation. */
+  const annotate = async (sessionId: string, body: unknown) => {
+    const response = await send(`/api/sessions/${sessionId}/annotations`, 'POST', body);
+    return (await getJsonResponse<any>(response)).data;
+  };
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    app = createTestApp(ctx);
+
+    const set = await createTestRecallSet(ctx.repos, { name: 'Cell Biology' });
+    session = await createTestSession(ctx.repos, {
+      recallSetId: set.id,
+      promptVersions: DEFAULT_PROMPT_VERSIONS,
+    });
+    for (const [i, role] of (['assistant', 'user', 'assistant'] as const).entries()) {
+      await ctx.repos.messageRepo.create({
+        id: `msg_${crypto.randomUUID()}`,
+        sessionId: session.id,
+        role,
+        content: `Message ${i}`,
+        timestamp: new Date(),
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  // ==========================================================================
+  // POST /api/sessions/:id/annotations
+  // ==========================================================================
+  describe('POST /api/sessions/:id/annotations', () => {
+    it('should annotate a message, normalizing the tags', async () => {
+      // Act
+      const response = await send(`/api/sessions/${session.id}/annotations`, 'POST', {
+        messageIndex: 2,
+        note: '  Three paragraphs before asking anything. ',
+        tags: ['Too  Long', 'too long', ' robotic', ''],
+      });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(json.data.id).toMatch(/^ann_/);
+      expect(json.data.messageIndex).toBe(2);
+      expect(json.data.note).toBe('Three paragraphs before asking anything.');
+      expect(json.data.tags).toEqual(['too long', 'robotic']);
+    });
+
+    it('should annotate the whole session when no message is given', async () => {
+      const annotation = await annotate(session.id, { tags: ['great pacing'] });
+
+      expect(annotation.messageIndex).toBeNull();
+      expect(annotation.note).toBe('');
+    });
+
+    it('should reject annotations without a note or tags', async () => {
+      const response = await send(`/api/sessions/${session.id}/annotations`, 'POST', {
+        note: '   ',
+        tags: [' '],
+      });
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(400);
+      expect(json.error.message).toContain('needs a note or at least one tag');
+    });
+
+    it('should reject message indices outside the transcript', async () => {
+      const response = await send(`/api/sessions/${session.id}/annotations`, 'POST', {
+        messageIndex: 3,
+        tags: ['robotic'],
+      });
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(400);
+      expect(json.error.message).toContain('outside the transcript (3 messages)');
+    });
+
+    it('should return 404 for a non-existent session', async () => {
+      const response = await send('/api/sessions/sess_nonexistent/annotations', 'POST', {
+        tags: ['robotic'],
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  // ==========================================================================
+  // GET, PATCH and DELETE
+  // ==========================================================================
+  describe('listing and editing annotations', () => {
+    it('should list annotations oldest first', async () => {
+      await annotate(session.id, { note: 'First' });
+      await annotate(session.id, { messageIndex: 0, note: 'Second' });
+
+      const response = await app.request(`/api/sessions/${session.id}/annotations`);
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(200);
+      expect(json.data.map((a: any) => a.note)).toEqual(['First', 'Second']);
+    });
+
+    it('should edit only the fields given', async () => {
+      const annotation = await annotate(session.id, { messageIndex: 0, note: 'Robotic opener', tags: ['robotic'] });
+
+      const response = await send(`/api/sessions/${session.id}/annotations/${annotation.id}`, 'PATCH', {
+        tags: ['Robotic', 'Too Long'],
+      });
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(200);
+      expect(json.data.tags).toEqual(['robotic', 'too long']);
+      expect(json.data.note).toBe('Robotic opener');
+      expect(json.data.messageIndex).toBe(0);
+    });
+
+    it('should not edit an annotation into one without a note or tags', async () => {
+      const annotation = await annotate(session.id, { tags: ['robotic'] });
+
+      const response = await send(`/api/sessions/${session.id}/annotations/${annotation.id}`, 'PATCH', {
+        tags: [],
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should delete an annotation', async () => {
+      const annotation = await annotate(session.id, { tags: ['robotic'] });
+
+      const response = await app.request(`/api/sessions/${session.id}/annotations/${annotation.id}`, {
+        method: 'DELETE',
+      });
+
+      expect(response.status).toBe(200);
+      expect(await ctx.repos.annotationRepo.findBySessionId(session.id)).toHaveLength(0);
+    });
+
+    it("should not reach another session's annotations", async () => {
+      const other = await createTestSession(ctx.repos, { recallSetId: session.recallSetId });
+      const annotation = await annotate(session.id, { tags: ['robotic'] });
+
+      const response = await app.request(`/api/sessions/${other.id}/annotations/${annotation.id}`, {
+        method: 'DELETE',
+      });
+
+      expect(response.status).toBe(404);
+      expect(await ctx.repos.annotationRepo.findById(annotation.id)).not.toBeNull();
+    });
+  });
+
+  // ==========================================================================
+  // GET /api/annotations/report
+  // ==========================================================================
+  describe('GET /api/annotations/report', () => {
+    beforeEach(async () => {
+      const concise = await createTestSession(ctx.repos, {
+        recallSetId: session.recallSetId,
+        promptVersions: { ...DEFAULT_PROMPT_VERSIONS, tutor: 'socratic-concise-v1' },
+      });
+      const otherSet = await createTestRecallSet(ctx.repos, { name: 'Genetics' });
+      const unversioned = await createTestSession(ctx.repos, { recallSetId: otherSet.id });
+
+      await ctx.repos.messageRepo.create({
+        id: `msg_${crypto.randomUUID()}`,
+        sessionId: concise.id,
+        role: 'assistant',
+        content: 'Short question?',
+        timestamp: new Date(),
+      });
+
+      await annotate(session.id, { messageIndex: 0, tags: ['too long', 'robotic'] });
+      await annotate(session.id, { messageIndex: 2, tags: ['too long'] });
+      await annotate(concise.id, { messageIndex: 0, tags: ['robotic'] });
+      await annotate(unversioned.id, { note: 'Fine' });
+    });
+
+    it('should count tags per tutor prompt version by default', async () => {
+      const response = await app.request('/api/annotations/report');
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(200);
+      expect(json.data.groupBy).toBe('prompt-version');
+      expect(json.data.promptKind).toBe('tutor');
+      expect(json.data.annotationCount).toBe(4);
+
+      const [standard, ...rest] = json.data.groups;
+      expect(standard.key).toBe(DEFAULT_PROMPT_VERSIONS.tutor);
+      expect(standard.annotationCount).toBe(2);
+      expect(standard.sessionCount).toBe(1);
+      expect(standard.tags).toEqual([
+        { tag: 'too long', count: 2, sessionCount: 1 },
+        { tag: 'robotic', count: 1, sessionCount: 1 },
+      ]);
+
+      const concise = rest.find((group: any) => group.key === 'socratic-concise-v1');
+      expect(concise.tags).toEqual([{ tag: 'robotic', count: 1, sessionCount: 1 }]);
+
+      const unrecorded = rest.find((group: any) => group.key === null);
+      expect(unrecorded.label).toBe('Unrecorded');
+      expect(unrecorded.tags).toEqual([]);
+    });
+
+    it('should count tags per recall set', async () => {
+      const response = await app.request('/api/annotations/report?groupBy=recall-set');
+      const json = await getJsonResponse<any>(response);
+
+      expect(json.data.promptKind).toBeNull();
+      expect(json.data.groups.map((group: any) => [group.label, group.annotationCount])).toEqual([
+        ['Cell Biology', 3],
+        ['Genetics', 1],
+      ]);
+      expect(json.data.groups[0].tags[0]).toEqual({ tag: 'robotic', count: 2, sessionCount: 2 });
+    });
+
+    it('should restrict the report to one recall set', async () => {
+      const response = await app.request(`/api/annotations/report?recallSetId=${session.recallSetId}`);
+      const json = await getJsonResponse<any>(response);
+
+      expect(json.data.annotationCount).toBe(3);
+    });
+
+    it('should reject unknown groupings and prompt kinds', async () => {
+      expect((await app.request('/api/annotations/report?groupBy=week')).status).toBe(400);
+      expect((await app.request('/api/annotations/report?promptKind=ingestion')).status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Auth API Endpoint Tests
+ *
+ * Tests for account registration, login, and the authentication middleware
+ * that protects the rest of the API. The app is assembled the same way as
+ * server.ts: userContext() resolves the token, the auth routes are mounted,
+ * and requireAuth() guards everything after them.
+ *
+ * Endpoints tested:
+ * - POST /api/auth/register - Create an account and log in
+ * - POST /api/auth/login - Log in with email and password
+ * - POST /api/auth/logout - Clear the session cookie
+ * - GET /api/auth/me - The authenticated user
+ *
+ * Also covers per-user scoping of recall set and session repositories.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Hono } from 'hono';
+import { createTestContext, cleanupTestDatabase, type TestContext } from '../setup';
+import { createTestRecallSet, createTestSession, getJsonResponse } from '../helpers';
+import { AuthService, type AuthServiceConfig } from '../../src/core/auth';
+import {
+  UserRepository,
+  RecallSetRepository,
+  SessionRepository,
+} from '../../src/storage/repositories';
+import { errorHandler, appErrorHandler } from '../../src/api/middleware/error-handler';
+import {
+  userContext,
+  requireAuth,
+  getUser,
+  AUTH_COOKIE_NAME,
+} from '../../src/api/middleware/user-context';
+import { authRoutes } from '../../src/api/routes/auth';
+import { success } from '../../src/api/utils/response';
+
+const PASSWORD = 'correct horse battery';
+
+/**
+ * Builds an app with the auth routes and one protected route that lists the
+ * caller's recall sets.
+ */
+function createAuthTestApp(ctx: TestContext, config: Partial<AuthServiceConfig> = {}) {
+  const authService = new AuthService(
+    {
+      userRepo: new UserRepository(ctx.db),
+      recallSetRepo: ctx.repos.recallSetRepo,
+      sessionRepo: ctx.repos.sessionRepo,
+    },
+    { jwtSecret: 'test-secret', ...config }
+  );
+
+  const app = new Hono();
+  app.onError(appErrorHandler());
+  app.use('*', errorHandler());
+  app.use('/api/*', userContext(authService));
+  app.route('/api/auth', authRoutes(authService));
+  app.use('/api/*', requireAuth());
+  app.get('/api/recall-sets', async (c) => {
+    const repo = new RecallSetRepository(ctx.db, getUser(c).id);
+    return success(c, await repo.findAll());
+  });
+
+  return { app, authService };
+}
+
+/**
+ * Registers an account through the API and returns the response JSON.
+ */
+async function register(app: Hono, email: string, name = 'Test User') {
+  const response = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, name, password: PASSWORD }),
+  });
+  return { response, json: await getJsonResponse<any>(response) };
+}
+
+describe('Auth API', () => {
+  let ctx: TestContext;
+  let app: Hono;
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    app = createAuthTestApp(ctx).app;
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  // ==========================================================================
+  // POST /api/auth/register
+  // ==========================================================================
+  describe('POST /api/auth/register', () => {
+    it('should create an account and set the session cookie', async () => {
+      // Act
+      const { response, json } = await register(app, 'Ada@Example.com', 'Ada');
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(json.data.user.email).toBe('ada@example.com');
+      expect(json.data.user.name).toBe('Ada');
+      expect(json.data.user.passwordHash).toBeUndefined();
+      expect(json.data.token).toBeString();
+      expect(response.headers.get('Set-Cookie')).toContain(`${AUTH_COOKIE_NAME}=`);
+      expect(response.headers.get('Set-Cookie')).toContain('HttpOnly');
+    });
+
+    it('should reject a duplicate email with 409', async () => {
+      await register(app, 'ada@example.com');
+
+      const { response, json } = await register(app, 'ADA@example.com');
+
+      expect(response.status).toBe(409);
+      expect(json.error.code).toBe('CONFLICT');
+    });
+
+    it('should reject a short password with 400', async () => {
+      const response = await app.request('/api/auth/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'ada@example.com', name: 'Ada', password: 'short' }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should allow only the first account when registration is closed', async () => {
+      // Arrange
+      app = createAuthTestApp(ctx, { allowRegistration: false }).app;
+
+      // Act
+      const first = await register(app, 'owner@example.com');
+      const second = await register(app, 'guest@example.com');
+
+      // Assert
+      expect(first.response.status).toBe(201);
+      expect(second.response.status).toBe(403);
+      expect(second.json.error.code).toBe('FORBIDDEN');
+    });
+
+    it('should give existing unowned data to the first account only', async () => {
+      // Arrange - data created before accounts existed
+      const set = await createTestRecallSet(ctx.repos, { name: 'Legacy Set' });
+      await createTestSession(ctx.repos, { recallSetId: set.id });
+
+      // Act
+      const first = await register(app, 'owner@example.com');
+      const second = await register(app, 'guest@example.com');
+
+      // Assert
+      const ownerSets = new RecallSetRepository(ctx.db, first.json.data.user.id);
+      const ownerSessions = new SessionRepository(ctx.db, first.json.data.user.id);
+      const guestSets = new RecallSetRepository(ctx.db, second.json.data.user.id);
+      expect(await ownerSets.findAll()).toHaveLength(1);
+      expect(await ownerSessions.findAll()).toHaveLength(1);
+      expect(await guestSets.findAll()).toHaveLength(0);
+    });
+  });
+
+  // ==========================================================================
+  // POST /api/auth/login
+  // ==========================================================================
+  describe('POST /api/auth/login', () => {
+    beforeEach(async () => {
+      await register(app, 'ada@example.com', 'Ada');
+    });
+
+    it('should log in with the correct password', async () => {
+      const response = await app.request('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'ADA@example.com', password: PASSWORD }),
+      });
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(200);
+      expect(json.data.user.name).toBe('Ada');
+      expect(json.data.user.lastLoginAt).not.toBeNull();
+      expect(response.headers.get('Set-Cookie')).toContain(`${AUTH_COOKIE_NAME}=`);
+    });
+
+    it('should return 401 for a wrong password', async () => {
+      const response = await app.request('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'ada@example.com', password: 'not the password' }),
+      });
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(401);
+      expect(json.error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should return the same error for an unknown email', async () => {
+      const response = await app.request('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'nobody@example.com', password: PASSWORD }),
+      });
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(401);
+      expect(json.error.message).toBe('Invalid email or password');
+    });
+  });
+
+  // ==========================================================================
+  // Protected Routes
+  // ==========================================================================
+  describe('protected routes', () => {
+    it('should return 401 without a token', async () => {
+      const meResponse = await app.request('/api/auth/me');
+      const setsResponse = await app.request('/api/recall-sets');
+      const json = await getJsonResponse<any>(setsResponse);
+
+      expect(meResponse.status).toBe(401);
+      expect(setsResponse.status).toBe(401);
+      expect(json.success).toBe(false);
+      expect(json.error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should return 401 for a token signed with another secret', async () => {
+      const other = createAuthTestApp(ctx, { jwtSecret: 'other-secret' });
+      const { token } = await other.authService.register({
+        email: 'ada@example.com',
+        name: 'Ada',
+        password: PASSWORD,
+      });
+
+      const response = await app.request('/api/recall-sets', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should accept a Bearer token', async () => {
+      const { json: registered } = await register(app, 'ada@example.com', 'Ada');
+
+      const response = await app.request('/api/auth/me', {
+        headers: { Authorization: `Bearer ${registered.data.token}` },
+      });
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(200);
+      expect(json.data.id).toBe(registered.data.user.id);
+    });
+
+    it('should accept the session cookie', async () => {
+      const { json: registered } = await register(app, 'ada@example.com', 'Ada');
+
+      const response = await app.request('/api/auth/me', {
+        headers: { Cookie: `${AUTH_COOKIE_NAME}=${registered.data.token}` },
+      });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should only list recall sets owned by the caller', async () => {
+      // Arrange
+      const ada = await register(app, 'ada@example.com', 'Ada');
+      const bob = await register(app, 'bob@example.com', 'Bob');
+      await new RecallSetRepository(ctx.db, ada.json.data.user.id).create({
+        id: `rs_${crypto.randomUUID()}`,
+        name: "Ada's Set",
+        description: 'Owned by Ada',
+        discussionSystemPrompt: 'Discuss.',
+      });
+
+      // Act
+      const adaResponse = await app.request('/api/recall-sets', {
+        headers: { Authorization: `Bearer ${ada.json.data.token}` },
+      });
+      const bobResponse = await app.request('/api/recall-sets', {
+        headers: { Authorization: `Bearer ${bob.json.data.token}` },
+      });
+
+      // Assert
+      expect((await getJsonResponse<any>(adaResponse)).data).toHaveLength(1);
+      expect((await getJsonResponse<any>(bobResponse)).data).toHaveLength(0);
+    });
+  });
+
+  // ==========================================================================
+  // POST /api/auth/logout
+  // ==========================================================================
+  describe('POST /api/auth/logout', () => {
+    it('should clear the session cookie', async () => {
+      const response = await app.request('/api/auth/logout', { method: 'POST' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Set-Cookie')).toContain('Max-Age=0');
+    });
+  });
+});
+
+// ============================================================================
+// Repository Scoping
+// ============================================================================
+
+describe('Per-user repository scoping', () => {
+  let ctx: TestContext;
+  let userRepo: UserRepository;
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    userRepo = new UserRepository(ctx.db);
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  async function createUser(email: string) {
+    return userRepo.create({
+      id: `usr_${crypto.randomUUID()}`,
+      email,
+      name: email,
+      passwordHash: 'unused',
+    });
+  }
+
+  it('should hide another user\'s recall set from findById, update, and delete', async () => {
+    // Arrange
+    const ada = await createUser('ada@example.com');
+    const bob = await createUser('bob@example.com');
+    const adaSets = new RecallSetRepository(ctx.db, ada.id);
+    const bobSets = new RecallSetRepository(ctx.db, bob.id);
+    const set = await adaSets.create({
+      id: `rs_${crypto.randomUUID()}`,
+      name: 'Private',
+      description: 'Only for Ada',
+      discussionSystemPrompt: 'Discuss.',
+    });
+
+    // Act & Assert
+    expect(await adaSets.findById(set.id)).not.toBeNull();
+    expect(await bobSets.findById(set.id)).toBeNull();
+    await expect(bobSets.update(set.id, { name: 'Taken' })).rejects.toThrow();
+    await expect(bobSets.delete(set.id)).rejects.toThrow();
+    expect(await adaSets.findById(set.id)).not.toBeNull();
+  });
+
+  it('should scope sessions to their owner', async () => {
+    // Arrange
+    const ada = await createUser('ada@example.com');
+    const bob = await createUser('bob@example.com');
+    const set = await createTestRecallSet(ctx.repos);
+    const session = await new SessionRepository(ctx.db, ada.id).create({
+      id: `sess_${crypto.randomUUID()}`,
+      recallSetId: set.id,
+      targetRecallPointIds: [],
+    });
+
+    // Assert
+    expect(await new SessionRepository(ctx.db, ada.id).findById(session.id)).not.toBeNull();
+    expect(await new SessionRepository(ctx.db, bob.id).findById(session.id)).toBeNull();
+    expect(await new SessionRepository(ctx.db, bob.id).findAll()).toHaveLength(0);
+  });
+
+  it('should scope to the data without an owner when the user is null', async () => {
+    // Arrange
+    const ada = await createUser('ada@example.com');
+    const unowned = await createTestRecallSet(ctx.repos);
+    await new RecallSetRepository(ctx.db, ada.id).create({
+      id: `rs_${crypto.randomUUID()}`,
+      name: 'Private',
+      description: 'Only for Ada',
+      discussionSystemPrompt: 'Discuss.',
+    });
+    await new SessionRepository(ctx.db, ada.id).create({
+      id: `sess_${crypto.randomUUID()}`,
+      recallSetId: null,
+      targetRecallPointIds: [],
+    });
+
+    // Assert
+    const unownedSets = await new RecallSetRepository(ctx.db, null).findAll();
+    expect(unownedSets.map((set) => set.id)).toEqual([unowned.id]);
+    expect(await new SessionRepository(ctx.db, null).findInProgress(null)).toBeNull();
+  });
+});
@@ -9,6 +9,7 @@
  * - GET /api/dashboard/overview - Global stats, due points, and streaks
  * - GET /api/dashboard/recent-sessions - Last N sessions with metrics
  * - GET /api/dashboard/upcoming-reviews - Points due in the next N days
+ * - GET /api/dashboard/forecast - Projected daily review load per recall set
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
@@ -30,15 +31,15 @@ describe('Dashboard API', () => {
 
   beforeEach(async () => {
     // Create fresh test context with in-memory database
-    ctx = createTestContext();
+    ctx = await createTestContext();
     app = createTestApp(ctx);
 
     // Seed test data for dashboard tests
     await seedDashboardTestData(ctx.repos);
   });
 
-  afterEach(() => {
-    cleanupTestDatabase(ctx);
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
   });
 
   // ==========================================================================
@@ -168,7 +169,7 @@ describe('Dashboard API', () => {
 
     it('should handle empty database gracefully', async () => {
       // Arrange: Create fresh empty context
-      const emptyCtx = createTestContext();
+      const emptyCtx = await createTestContext();
       const emptyApp = createTestApp(emptyCtx);
 
       try {
@@ -184,7 +185,7 @@ describe('Dashboard API', () => {
         expect(json.data.recentSessions).toHaveLength(0);
         expect(json.data.upcomingReviews).toHaveLength(0);
       } finally {
-        cleanupTestDatabase(emptyCtx);
+        await cleanupTestDatabase(emptyCtx);
       }
     });
   });
@@ -425,7 +426,7 @@ describe('Dashboard API', () => {
 
     it('should handle empty results gracefully', async () => {
       // Arrange: Create fresh context with no due points
-      const emptyCtx = createTestContext();
+      const emptyCtx = await createTestContext();
       const emptyApp = createTestApp(emptyCtx);
 
       try {
@@ -439,8 +440,67 @@ describe('Dashboard API', () => {
         expect(json.data.reviews).toHaveLength(0);
         expect(json.data.summary.total).toBe(0);
       } finally {
-        cleanupTestDatabase(emptyCtx);
+        await cleanupTestDatabase(emptyCtx);
       }
     });
   });
+
+  // ==========================================================================
+  // GET /api/dashboard/forecast
+  // ==========================================================================
+  describe('GET /api/dashboard/forecast', () => {
+    it('should forecast 30 days when no days specified', async () => {
+      // Act
+      const response = await app.request('/api/dashboard/forecast');
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(json.success).toBe(true);
+      expect(json.data.days).toBe(30);
+      expect(json.data.dailyLoad).toHaveLength(30);
+    });
+
+    it('should respect and cap the days query parameter', async () => {
+      // Act
+      const quarter = await getJsonResponse<any>(await app.request('/api/dashboard/forecast?days=90'));
+      const capped = await getJsonResponse<any>(await app.request('/api/dashboard/forecast?days=365'));
+
+      // Assert
+      expect(quarter.data.dailyLoad).toHaveLength(90);
+      expect(capped.data.days).toBe(90);
+    });
+
+    it('should return error for invalid days parameter', async () => {
+      // Act
+      const response = await app.request('/api/dashboard/forecast?days=soon');
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(json.success).toBe(false);
+      expect(json.error.code).toBe('BAD_REQUEST');
+    });
+
+    it('should break the load down by active recall set', async () => {
+      // Act
+      const response = await app.request('/api/dashboard/forecast');
+      const json = await getJsonResponse<any>(response);
+
+      // Assert: Both active sets are forecast, the paused one isn't
+      const setIds = json.data.recallSets.map((rs: any) => rs.recallSetId);
+      expect(setIds).toHaveLength(2);
+      expect(setIds).not.toContain('rs_test_paused');
+      for (const recallSet of json.data.recallSets) {
+        expect(typeof recallSet.recallSetName).toBe('string');
+        expect(recallSet.minutesPerPoint).toBeGreaterThan(0);
+      }
+
+      // The due and overdue points count today
+      const [today] = json.data.dailyLoad;
+      expect(today.dueCount).toBeGreaterThan(0);
+      expect(today.estimatedMinutes).toBeGreaterThan(0);
+      expect(today.recallSets.length).toBeGreaterThan(0);
+    });
+  });
 });
@@ -0,0 +1,150 @@
+/**
+ * FSRS Parameters API Endpoint Tests
+ *
+ * Tests for the endpoints that fit FSRS weights to review history, report
+ * predicted versus observed retention, and store or reset the weights.
+ *
+ * Endpoints tested:
+ * - GET /api/fsrs-parameters - The weights in use and their source
+ * - GET /api/fsrs-parameters/report - Fit without storing
+ * - POST /api/fsrs-parameters/optimize - Fit and store
+ * - DELETE /api/fsrs-parameters - Delete the stored weights
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  createTestApp,
+  type TestContext,
+} from '../setup';
+import { createTestRecallSet, createTestReviewHistory, getJsonResponse } from '../helpers';
+import type { Hono } from 'hono';
+
+describe('FSRS Parameters API', () => {
+  let ctx: TestContext;
+  let app: Hono;
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    app = createTestApp(ctx);
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  // ==========================================================================
+  // GET /api/fsrs-parameters
+  // ==========================================================================
+  describe('GET /api/fsrs-parameters', () => {
+    it('should return the default weights before any fitting', async () => {
+      // Act
+      const response = await app.request('/api/fsrs-parameters');
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(json.data.source).toBe('default');
+      expect(json.data.weights).toHaveLength(19);
+      expect(json.data.parameters).toBeNull();
+    });
+
+    it('should return 404 for an unknown recall set', async () => {
+      const response = await app.request('/api/fsrs-parameters?recallSetId=rs_missing');
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(404);
+      expect(json.error.code).toBe('NOT_FOUND');
+    });
+  });
+
+  // ==========================================================================
+  // GET /api/fsrs-parameters/report
+  // ==========================================================================
+  describe('GET /api/fsrs-parameters/report', () => {
+    it('should report predicted versus observed retention before and after fitting', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      await createTestReviewHistory(ctx.repos, { recallSetId: set.id });
+
+      // Act
+      const response = await app.request(`/api/fsrs-parameters/report?recallSetId=${set.id}`);
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const { current, fitted } = json.data;
+      expect(current.retention.observedRetention).toBe(fitted.retention.observedRetention);
+      expect(fitted.retention.logLoss).toBeLessThan(current.retention.logLoss);
+      expect(current.retention.bins.length).toBeGreaterThan(0);
+
+      // Nothing was stored
+      const weights = await getJsonResponse<any>(
+        await app.request(`/api/fsrs-parameters?recallSetId=${set.id}`)
+      );
+      expect(weights.data.source).toBe('default');
+    });
+
+    it('should return 400 when there is too little history', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      await createTestReviewHistory(ctx.repos, { recallSetId: set.id, points: 1 });
+
+      // Act
+      const response = await app.request(`/api/fsrs-parameters/report?recallSetId=${set.id}`);
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('BAD_REQUEST');
+      expect(json.error.message).toContain('Not enough review history');
+    });
+  });
+
+  // ==========================================================================
+  // POST /api/fsrs-parameters/optimize and DELETE /api/fsrs-parameters
+  // ==========================================================================
+  describe('POST /api/fsrs-parameters/optimize', () => {
+    it('should store the fitted weights and use them for the set', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      await createTestReviewHistory(ctx.repos, { recallSetId: set.id });
+
+      // Act
+      const response = await app.request(`/api/fsrs-parameters/optimize?recallSetId=${set.id}`, {
+        method: 'POST',
+      });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(json.data.parameters.recallSetId).toBe(set.id);
+      expect(json.data.parameters.weights).toEqual(json.data.report.fitted.weights);
+
+      const weights = await getJsonResponse<any>(
+        await app.request(`/api/fsrs-parameters?recallSetId=${set.id}`)
+      );
+      expect(weights.data.source).toBe('recall_set');
+    });
+
+    it('should delete the stored weights', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      await createTestReviewHistory(ctx.repos, { recallSetId: set.id });
+      await app.request('/api/fsrs-parameters/optimize', { method: 'POST' });
+
+      // Act
+      const first = await getJsonResponse<any>(
+        await app.request('/api/fsrs-parameters', { method: 'DELETE' })
+      );
+      const second = await getJsonResponse<any>(
+        await app.request('/api/fsrs-parameters', { method: 'DELETE' })
+      );
+
+      // Assert
+      expect(first.data.deleted).toBe(true);
+      expect(second.data.deleted).toBe(false);
+    });
+  });
+});
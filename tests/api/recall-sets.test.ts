@@ -15,6 +15,9 @@
  * - POST /api/recall-sets/:id/points - Add a point to a set
  * - PATCH /api/recall-sets/:id/points/:pointId - Update a point
  * - DELETE /api/recall-sets/:id/points/:pointId - Delete a point
+ * - POST /api/recall-sets/import - Import an Anki deck (or preview it)
+ * - POST /api/recall-sets/import/bundle - Import a recall set bundle
+ * - GET /api/recall-sets/:id/export - Export a set's points
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
@@ -27,6 +30,8 @@ import {
 import {
   createTestRecallSet,
   createTestRecallPoint,
+  createTestAnkiPackage,
+  daysAgo,
   getJsonResponse,
 } from '../helpers';
 import type { Hono } from 'hono';
@@ -36,12 +41,12 @@ describe('Recall Sets API', () => {
   let app: Hono;
 
   beforeEach(async () => {
-    ctx = createTestContext();
+    ctx = await createTestContext();
     app = createTestApp(ctx);
   });
 
-  afterEach(() => {
-    cleanupTestDatabase(ctx);
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
   });
 
   // ==========================================================================
@@ -390,6 +395,56 @@ describe('Recall Sets API', () => {
       expect(json.data.name).toBe('Original Name'); // Unchanged
       expect(json.data.description).toBe('Updated Description');
     });
+
+    it('should update scheduling settings and reset them with null', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos, { maxPointsPerSession: 10 });
+      expect(set.desiredRetention).toBeNull();
+
+      // Act
+      const response = await app.request(`/api/recall-sets/${set.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          desiredRetention: 0.95,
+          maximumIntervalDays: 90,
+          newPointsPerDay: 5,
+          maxPointsPerSession: null,
+        }),
+      });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(json.data.desiredRetention).toBe(0.95);
+      expect(json.data.maximumIntervalDays).toBe(90);
+      expect(json.data.newPointsPerDay).toBe(5);
+      expect(json.data.maxPointsPerSession).toBeNull();
+
+      const detail = await getJsonResponse<any>(await app.request(`/api/recall-sets/${set.id}`));
+      expect(detail.data.desiredRetention).toBe(0.95);
+    });
+
+    it('should reject out-of-range scheduling settings', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+
+      // Act
+      const response = await app.request(`/api/recall-sets/${set.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ desiredRetention: 1.2, maxPointsPerSession: 2.5 }),
+      });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('VALIDATION_ERROR');
+      expect(json.error.details.map((d: { path: string }) => d.path)).toEqual([
+        'desiredRetention',
+        'maxPointsPerSession',
+      ]);
+    });
   });
 
   // ==========================================================================
@@ -804,4 +859,201 @@ describe('Recall Sets API', () => {
       expect(json.success).toBe(false);
     });
   });
+
+  // ==========================================================================
+  // POST /api/recall-sets/import
+  // ==========================================================================
+  describe('POST /api/recall-sets/import', () => {
+    /** Posts an Anki export as multipart form data */
+    function postImport(fileName: string, data: Uint8Array, fields: Record<string, string> = {}) {
+      const form = new FormData();
+      form.append('file', new File([data], fileName));
+      for (const [key, value] of Object.entries(fields)) {
+        form.append(key, value);
+      }
+      return app.request('/api/recall-sets/import', { method: 'POST', body: form });
+    }
+
+    const apkg = () =>
+      createTestAnkiPackage('Pharmacology', [
+        { fields: ['Antidote for opioid overdose', 'Naloxone'], reviews: [{ ease: 3, at: daysAgo(2) }] },
+        { fields: ['Antidote for heparin', 'Protamine sulfate'] },
+      ]);
+
+    it('should preview an import without creating anything on dry run', async () => {
+      // Act
+      const response = await postImport('pharm.apkg', apkg(), { dryRun: 'true' });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(json.data.target).toMatchObject({ type: 'new', name: 'Pharmacology' });
+      expect(json.data.points).toHaveLength(2);
+      expect(json.data.points[0].reviewCount).toBe(1);
+      expect(await ctx.repos.recallSetRepo.findAll()).toHaveLength(0);
+    });
+
+    it('should import a package as a new recall set', async () => {
+      // Act
+      const response = await postImport('pharm.apkg', apkg(), { name: 'Antidotes' });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(json.data.createdRecallSet).toBe(true);
+      expect(json.data.recallSet.name).toBe('Antidotes');
+      expect(json.data.recallPoints).toHaveLength(2);
+
+      const points = await ctx.repos.recallPointRepo.findByRecallSetId(json.data.recallSet.id);
+      expect(points).toHaveLength(2);
+    });
+
+    it('should import into an existing recall set', async () => {
+      // Arrange
+      const recallSet = await createTestRecallSet(ctx.repos, { name: 'Toxicology' });
+
+      // Act
+      const response = await postImport('pharm.apkg', apkg(), { recallSetId: recallSet.id });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(json.data.createdRecallSet).toBe(false);
+      expect(json.data.recallSet.id).toBe(recallSet.id);
+    });
+
+    it('should return 400 when no file is uploaded', async () => {
+      // Act
+      const form = new FormData();
+      form.append('name', 'No file');
+      const response = await app.request('/api/recall-sets/import', { method: 'POST', body: form });
+
+      // Assert
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for unsupported file types', async () => {
+      // Act
+      const response = await postImport('notes.pdf', apkg());
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('BAD_REQUEST');
+    });
+
+    it('should return 409 when the new set name is taken', async () => {
+      // Arrange
+      await createTestRecallSet(ctx.repos, { name: 'Pharmacology' });
+
+      // Act
+      const response = await postImport('pharm.apkg', apkg());
+
+      // Assert
+      expect(response.status).toBe(409);
+    });
+
+    it('should return 404 for an unknown recall set', async () => {
+      // Act
+      const response = await postImport('pharm.apkg', apkg(), { recallSetId: 'rs_missing' });
+
+      // Assert
+      expect(response.status).toBe(404);
+    });
+  });
+
+  // ==========================================================================
+  // GET /api/recall-sets/:id/export and POST /api/recall-sets/import/bundle
+  // ==========================================================================
+  describe('recall set content export and bundle import', () => {
+    let setId: string;
+
+    /** Posts a bundle to the import route with the given query string */
+    function postBundle(body: string, query = '') {
+      return app.request(`/api/recall-sets/import/bundle${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+      });
+    }
+
+    beforeEach(async () => {
+      const set = await createTestRecallSet(ctx.repos, { name: 'Enzymes' });
+      setId = set.id;
+      await createTestRecallPoint(ctx.repos, {
+        recallSetId: setId,
+        content: 'Enzymes lower the activation energy of reactions',
+        context: 'They do not change the equilibrium',
+      });
+    });
+
+    it('should download Markdown as an attachment', async () => {
+      // Act
+      const response = await app.request(`/api/recall-sets/${setId}/export?format=markdown`);
+      const body = await response.text();
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toContain('text/markdown');
+      expect(response.headers.get('Content-Disposition')).toContain('attachment');
+      expect(body).toContain('# Enzymes');
+      expect(body).toContain('## Enzymes lower the activation energy of reactions');
+    });
+
+    it('should return 400 for an unknown format', async () => {
+      // Act
+      const response = await app.request(`/api/recall-sets/${setId}/export?format=pdf`);
+
+      // Assert
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 when exporting a non-existent set', async () => {
+      // Act
+      const response = await app.request('/api/recall-sets/rs_missing/export');
+
+      // Assert
+      expect(response.status).toBe(404);
+    });
+
+    it('should re-import an exported bundle', async () => {
+      // Arrange: Download the bundle (the default format)
+      const exported = await app.request(`/api/recall-sets/${setId}/export`);
+      const bundle = await exported.text();
+
+      // Act: Preview, then import under a new name
+      const previewResponse = await postBundle(bundle, '?dryRun=true&name=Enzymes%20Copy');
+      const preview = await getJsonResponse<any>(previewResponse);
+      const importResponse = await postBundle(bundle, '?name=Enzymes%20Copy');
+      const imported = await getJsonResponse<any>(importResponse);
+
+      // Assert
+      expect(previewResponse.status).toBe(200);
+      expect(preview.data.target).toMatchObject({ type: 'new', name: 'Enzymes Copy' });
+      expect(importResponse.status).toBe(201);
+      expect(imported.data.recallSet.name).toBe('Enzymes Copy');
+      expect(imported.data.recallPoints).toHaveLength(1);
+    });
+
+    it('should return 409 when re-importing under the same name', async () => {
+      // Arrange
+      const bundle = await (await app.request(`/api/recall-sets/${setId}/export`)).text();
+
+      // Act
+      const response = await postBundle(bundle);
+
+      // Assert
+      expect(response.status).toBe(409);
+    });
+
+    it('should return 400 for an invalid bundle', async () => {
+      // Act
+      const response = await postBundle(JSON.stringify({ name: 'Not a bundle' }));
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('BAD_REQUEST');
+    });
+  });
 });
@@ -7,9 +7,11 @@
  *
  * Endpoints tested:
  * - GET /api/sessions - List sessions with pagination and filters
+ * - GET /api/sessions/daily-review - Preview today's daily review
  * - GET /api/sessions/:id - Get session details
  * - GET /api/sessions/:id/transcript - Get session transcript with markers
  * - POST /api/sessions/start - Start a new session
+ * - POST /api/sessions/daily-review/start - Start a daily review across recall sets
  * - POST /api/sessions/:id/abandon - Abandon an in-progress session
  */
 
@@ -28,6 +30,7 @@ import {
   createTestRecallOutcome,
   getJsonResponse,
   daysAgo,
+  daysFromNow,
 } from '../helpers';
 import type { Hono } from 'hono';
 
@@ -36,12 +39,12 @@ describe('Sessions API', () => {
   let app: Hono;
 
   beforeEach(async () => {
-    ctx = createTestContext();
+    ctx = await createTestContext();
     app = createTestApp(ctx);
   });
 
-  afterEach(() => {
-    cleanupTestDatabase(ctx);
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
   });
 
   // ==========================================================================
@@ -139,6 +142,28 @@ describe('Sessions API', () => {
       expect(json.data.sessions.every((s: any) => s.recallSetId === set1.id)).toBe(true);
     });
 
+    it('should include daily reviews that covered the recall set when filtering', async () => {
+      // Arrange
+      const set1 = await createTestRecallSet(ctx.repos, { name: 'Set 1' });
+      const set2 = await createTestRecallSet(ctx.repos, { name: 'Set 2' });
+      const point1 = await createTestRecallPoint(ctx.repos, { recallSetId: set1.id });
+      const point2 = await createTestRecallPoint(ctx.repos, { recallSetId: set2.id });
+      const review = await createTestSession(ctx.repos, {
+        recallSetId: null,
+        targetRecallPointIds: [point1.id],
+      });
+      await createTestSession(ctx.repos, { recallSetId: null, targetRecallPointIds: [point2.id] });
+
+      // Act
+      const response = await app.request(`/api/sessions?recallSetId=${set1.id}`);
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(json.data.sessions).toHaveLength(1);
+      expect(json.data.sessions[0].id).toBe(review.id);
+      expect(json.data.sessions[0].recallSetId).toBeNull();
+    });
+
     it('should filter by status', async () => {
       // Arrange
       const set = await createTestRecallSet(ctx.repos);
@@ -166,6 +191,34 @@ describe('Sessions API', () => {
       expect(json.error.message).toContain('Invalid status');
     });
 
+    it('should filter by mode and report each session\'s mode', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      await createTestSession(ctx.repos, { recallSetId: set.id });
+      const practice = await createTestSession(ctx.repos, { recallSetId: set.id, mode: 'practice' });
+
+      // Act
+      const all = await getJsonResponse<any>(await app.request('/api/sessions'));
+      const response = await app.request('/api/sessions?mode=practice');
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(all.data.sessions.map((s: any) => s.mode).sort()).toEqual(['practice', 'review']);
+      expect(json.data.sessions).toHaveLength(1);
+      expect(json.data.sessions[0].id).toBe(practice.id);
+      expect(json.data.sessions[0].mode).toBe('practice');
+    });
+
+    it('should return error for invalid mode filter', async () => {
+      // Act
+      const response = await app.request('/api/sessions?mode=cram');
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(json.error.message).toContain('Invalid mode');
+    });
+
     it('should return sessions sorted by startedAt descending', async () => {
       // Arrange
       const set = await createTestRecallSet(ctx.repos);
@@ -250,6 +303,20 @@ describe('Sessions API', () => {
       expect(json.data.session.targetRecallPointIds).toContain(point.id);
     });
 
+    it('should name daily review sessions', async () => {
+      // Arrange
+      const session = await createTestSession(ctx.repos, { recallSetId: null });
+
+      // Act
+      const response = await app.request(`/api/sessions/${session.id}`);
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(json.data.session.recallSetId).toBeNull();
+      expect(json.data.session.recallSetName).toBe('Daily review');
+    });
+
     it('should return 404 for non-existent session', async () => {
       // Act
       const response = await app.request('/api/sessions/sess_nonexistent');
@@ -591,6 +658,259 @@ describe('Sessions API', () => {
       expect(json.data.sessionId).not.toBe(completedSession.id);
       expect(json.data.isResume).toBe(false);
     });
+
+    it('should cap the session at the set\'s max points per session', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos, { maxPointsPerSession: 2 });
+      for (let i = 0; i < 5; i++) {
+        await createTestRecallPoint(ctx.repos, { recallSetId: set.id });
+      }
+
+      // Act
+      const response = await app.request('/api/sessions/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recallSetId: set.id }),
+      });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(json.data.targetRecallPointCount).toBe(2);
+    });
+
+    it('should plan reviews first with new points between them', async () => {
+      // Arrange: three reviewed points and two new points, room for four
+      const set = await createTestRecallSet(ctx.repos, { maxPointsPerSession: 4 });
+      for (let i = 0; i < 3; i++) {
+        await createTestRecallPoint(ctx.repos, {
+          recallSetId: set.id,
+          fsrsState: { state: 'review', stability: 2, lastReview: daysFromNow(-3 - i), due: daysFromNow(-1) },
+        });
+      }
+      for (let i = 0; i < 2; i++) {
+        await createTestRecallPoint(ctx.repos, { recallSetId: set.id });
+      }
+
+      // Act
+      const response = await app.request('/api/sessions/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recallSetId: set.id }),
+      });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(201);
+      const { plan } = json.data;
+      expect(plan).toMatchObject({ maxPoints: 4, reviewCount: 3, newCount: 1, deferredCount: 1, followUpSessions: 1 });
+      expect(plan.order.map((p: any) => p.kind)).toEqual(['review', 'new', 'review', 'review']);
+
+      // Least retrievable (longest since review) first, in the stored session
+      const session = await ctx.repos.sessionRepo.findById(json.data.sessionId);
+      expect(session!.targetRecallPointIds).toEqual(plan.order.map((p: any) => p.recallPointId));
+      expect(plan.order[0].retrievability).toBeLessThan(plan.order[3].retrievability);
+    });
+
+    it('should return 400 when today\'s new points have all been introduced', async () => {
+      // Arrange: one point was reviewed for the first time today, one is still new
+      const set = await createTestRecallSet(ctx.repos, { newPointsPerDay: 1 });
+      const introduced = await createTestRecallPoint(ctx.repos, {
+        recallSetId: set.id,
+        fsrsState: { state: 'review', due: daysFromNow(3) },
+      });
+      await ctx.repos.recallPointRepo.addRecallAttempt(introduced.id, {
+        timestamp: new Date(),
+        success: true,
+        latencyMs: 0,
+      });
+      await createTestRecallPoint(ctx.repos, { recallSetId: set.id });
+
+      // Act
+      const response = await app.request('/api/sessions/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recallSetId: set.id }),
+      });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(json.error.message).toContain("Today's limit of 1 new recall points");
+    });
+
+    it('should return 409 when no recall points are due for review', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      await createTestRecallPoint(ctx.repos, {
+        recallSetId: set.id,
+        fsrsState: { state: 'review', stability: 5, lastReview: daysAgo(2), due: daysFromNow(3) },
+      });
+
+      // Act
+      const response = await app.request('/api/sessions/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recallSetId: set.id }),
+      });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(409);
+      expect(json.error.message).toContain('No recall points are due');
+      expect(await ctx.repos.sessionRepo.findAll()).toHaveLength(0);
+    });
+
+    it('should start a practice session over all points, due or not', async () => {
+      // Arrange: no new points left for today, and the reviewed point isn't due
+      const set = await createTestRecallSet(ctx.repos, { newPointsPerDay: 0 });
+      await createTestRecallPoint(ctx.repos, {
+        recallSetId: set.id,
+        fsrsState: { state: 'review', stability: 5, lastReview: daysAgo(2), due: daysFromNow(3) },
+      });
+      await createTestRecallPoint(ctx.repos, { recallSetId: set.id });
+
+      // Act
+      const response = await app.request('/api/sessions/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recallSetId: set.id, mode: 'practice' }),
+      });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(json.data.mode).toBe('practice');
+      expect(json.data.targetRecallPointCount).toBe(2);
+      const session = await ctx.repos.sessionRepo.findById(json.data.sessionId);
+      expect(session!.mode).toBe('practice');
+    });
+
+    it('should not resume an in-progress review as a practice session', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      await createTestRecallPoint(ctx.repos, { recallSetId: set.id });
+      const review = await createTestSession(ctx.repos, { recallSetId: set.id });
+
+      // Act
+      const response = await app.request('/api/sessions/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recallSetId: set.id, mode: 'practice' }),
+      });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(json.data.sessionId).not.toBe(review.id);
+      expect(json.data.isResume).toBe(false);
+    });
+
+    it('should return error for an invalid mode', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      await createTestRecallPoint(ctx.repos, { recallSetId: set.id });
+
+      // Act
+      const response = await app.request('/api/sessions/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recallSetId: set.id, mode: 'cram' }),
+      });
+
+      // Assert
+      expect(response.status).toBe(400);
+    });
+  });
+
+  // ==========================================================================
+  // GET /api/sessions/daily-review and POST /api/sessions/daily-review/start
+  // ==========================================================================
+  describe('Daily review', () => {
+    /** Seeds two active sets with due points and a paused set. */
+    async function seedRecallSets() {
+      const biology = await createTestRecallSet(ctx.repos, { name: 'Biology' });
+      const history = await createTestRecallSet(ctx.repos, { name: 'History' });
+      const paused = await createTestRecallSet(ctx.repos, { name: 'Paused', status: 'paused' });
+      for (const recallSetId of [biology.id, biology.id, history.id, paused.id]) {
+        await createTestRecallPoint(ctx.repos, { recallSetId, fsrsState: { due: daysAgo(1) } });
+      }
+      // Not due yet
+      await createTestRecallPoint(ctx.repos, {
+        recallSetId: history.id,
+        fsrsState: { state: 'review', due: daysFromNow(3) },
+      });
+      return { biology, history };
+    }
+
+    it('should preview the due points of all active recall sets', async () => {
+      // Arrange
+      const { biology, history } = await seedRecallSets();
+
+      // Act
+      const response = await app.request('/api/sessions/daily-review');
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(json.data).toMatchObject({ sessionsReady: 1, duePointCount: 3, inProgressSessionId: null });
+      expect(json.data.recallSets).toEqual([
+        { recallSetId: biology.id, recallSetName: 'Biology', pointCount: 2 },
+        { recallSetId: history.id, recallSetName: 'History', pointCount: 1 },
+      ]);
+    });
+
+    it('should report no sessions ready when nothing is due', async () => {
+      const response = await app.request('/api/sessions/daily-review');
+      const json = await getJsonResponse<any>(response);
+
+      expect(json.data.sessionsReady).toBe(0);
+      expect(json.data.recallSets).toEqual([]);
+    });
+
+    it('should start a daily review session without a recall set', async () => {
+      // Arrange
+      await seedRecallSets();
+
+      // Act
+      const response = await app.request('/api/sessions/daily-review/start', { method: 'POST' });
+      const json = await getJsonResponse<any>(response);
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(json.data.isResume).toBe(false);
+      expect(json.data.targetRecallPointCount).toBe(3);
+      const session = await ctx.repos.sessionRepo.findById(json.data.sessionId);
+      expect(session!.recallSetId).toBeNull();
+      expect(session!.targetRecallPointIds).toEqual(json.data.plan.order.map((p: any) => p.recallPointId));
+    });
+
+    it('should resume an in-progress daily review', async () => {
+      // Arrange
+      await seedRecallSets();
+      const first = await getJsonResponse<any>(
+        await app.request('/api/sessions/daily-review/start', { method: 'POST' })
+      );
+
+      // Act
+      const response = await app.request('/api/sessions/daily-review/start', { method: 'POST' });
+      const json = await getJsonResponse<any>(response);
+      const preview = await getJsonResponse<any>(await app.request('/api/sessions/daily-review'));
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(json.data.isResume).toBe(true);
+      expect(json.data.sessionId).toBe(first.data.sessionId);
+      expect(preview.data.inProgressSessionId).toBe(first.data.sessionId);
+    });
+
+    it('should return 400 when nothing is due in any active recall set', async () => {
+      const response = await app.request('/api/sessions/daily-review/start', { method: 'POST' });
+      const json = await getJsonResponse<any>(response);
+
+      expect(response.status).toBe(400);
+      expect(json.error.message).toContain('No recall points are due');
+    });
   });
 
   // ==========================================================================
@@ -13,23 +13,24 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from 'bun:test';
-import { drizzle } from 'drizzle-orm/bun-sqlite';
-import { migrate } from 'drizzle-orm/bun-sqlite/migrator';
-import { Database } from 'bun:sqlite';
 import { resolve, join } from 'path';
 import { existsSync, unlinkSync, mkdirSync, rmSync } from 'fs';
-import * as schema from '../../src/storage/schema';
 import { RecallSetRepository, RecallPointRepository, SessionRepository, SessionMessageRepository } from '../../src/storage/repositories';
 import { SessionMetricsRepository } from '../../src/storage/repositories/session-metrics.repository';
 import { RecallOutcomeRepository } from '../../src/storage/repositories/recall-outcome.repository';
 import { RabbitholeEventRepository } from '../../src/storage/repositories/rabbithole-event.repository';
 import { FSRSScheduler } from '../../src/core/fsrs';
 import type { AppDatabase } from '../../src/storage/db';
+import { createTestDatabase, createTestRepositories, type TestDatabaseContext } from '../setup';
+import { createTestReviewHistory } from '../helpers';
 
 // Test database path - unique for CLI tests to avoid conflicts
 const TEST_DB_PATH = resolve(import.meta.dir, '../../test-cli.db');
 const TEST_EXPORT_DIR = resolve(import.meta.dir, '../../test-exports');
 
+// DATABASE_URL passed to the CLI subprocess; set once the test database is seeded
+let cliDatabaseUrl = TEST_DB_PATH;
+
 /**
  * Cleans up all test artifacts including database files and exports.
  * Called in afterEach and afterAll to ensure no trace remains.
@@ -95,7 +96,7 @@ function cleanupTestArtifacts(): void {
 /**
  * Executes a CLI command and returns the result
  */
-async function runCli(args: string[], env?: Record<string, string>): Promise<{
+async function runCli(args: string[], env?: Record<string, string>, stdin?: string): Promise<{
   stdout: string;
   stderr: string;
   exitCode: number;
@@ -104,11 +105,13 @@ async function runCli(args: string[], env?: Record<string, string>): Promise<{
     cwd: resolve(import.meta.dir, '../..'),
     env: {
       ...process.env,
-      DATABASE_URL: TEST_DB_PATH,
+      // The seeded test database (a SQLite file or a PostgreSQL schema)
+      DATABASE_URL: cliDatabaseUrl,
       NO_COLOR: '1',
       FORCE_COLOR: '0',
       ...env,
     },
+    stdin: stdin !== undefined ? new Blob([stdin]) : undefined,
     stdout: 'pipe',
     stderr: 'pipe',
   });
@@ -120,22 +123,6 @@ async function runCli(args: string[], env?: Record<string, string>): Promise<{
   return { stdout, stderr, exitCode };
 }
 
-/**
- * Creates and migrates a test database
- */
-function createTestDatabase(): { db: AppDatabase; sqlite: Database } {
-  if (existsSync(TEST_DB_PATH)) {
-    unlinkSync(TEST_DB_PATH);
-  }
-
-  const sqlite = new Database(TEST_DB_PATH);
-  sqlite.run('PRAGMA foreign_keys = ON');
-  const db = drizzle(sqlite, { schema });
-  const migrationsFolder = resolve(import.meta.dir, '../../drizzle');
-  migrate(db, { migrationsFolder });
-  return { db, sqlite };
-}
-
 /**
  * Seeds test data for CLI testing
  */
@@ -308,7 +295,7 @@ async function seedTestData(
 
 describe('CLI Commands', () => {
   let db: AppDatabase;
-  let sqlite: Database;
+  let testDb: TestDatabaseContext;
 
   beforeAll(async () => {
     // Clean up any leftover artifacts from previous test runs
@@ -334,9 +321,9 @@ describe('CLI Commands', () => {
       mkdirSync(TEST_EXPORT_DIR, { recursive: true });
     }
 
-    const testDb = createTestDatabase();
+    testDb = await createTestDatabase(TEST_DB_PATH);
     db = testDb.db;
-    sqlite = testDb.sqlite;
+    cliDatabaseUrl = testDb.url;
 
     const recallSetRepo = new RecallSetRepository(db);
     const recallPointRepo = new RecallPointRepository(db);
@@ -347,13 +334,13 @@ describe('CLI Commands', () => {
     const scheduler = new FSRSScheduler();
 
     await seedTestData(recallSetRepo, recallPointRepo, sessionRepo, messageRepo, metricsRepo, outcomeRepo, scheduler);
-
-    // Close connection so CLI can access the database
-    sqlite.close();
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     // Clean up after each test
+    if (testDb) {
+      await testDb.close();
+    }
     cleanupTestArtifacts();
   });
 
@@ -572,6 +559,40 @@ describe('CLI Commands', () => {
       });
     });
 
+    describe('export content', () => {
+      it('should export points as Markdown', async () => {
+        const outputFile = join(TEST_EXPORT_DIR, 'test-content.md');
+        const { stdout, exitCode } = await runCli(['export', 'content', 'CLI Test Active', '--format', 'markdown', '--output', outputFile]);
+
+        expect(exitCode).toBe(0);
+        expect(stdout).toContain('Exported');
+
+        const content = await Bun.file(outputFile).text();
+        expect(content).toContain('# CLI Test Active');
+        expect(content).toContain('## ');
+
+        unlinkSync(outputFile);
+      });
+
+      it('should round-trip a bundle through import', async () => {
+        const outputFile = join(TEST_EXPORT_DIR, 'test-content.bundle.json');
+        const exported = await runCli(['export', 'content', 'CLI Test Active', '--output', outputFile]);
+        expect(exported.exitCode).toBe(0);
+
+        const { stdout, exitCode } = await runCli(['import', outputFile, '--name', 'CLI Bundle Copy']);
+        expect(exitCode).toBe(0);
+        expect(stdout).toContain('into new set "CLI Bundle Copy"');
+
+        unlinkSync(outputFile);
+      });
+
+      it('should reject an unknown format', async () => {
+        const { stdout, exitCode } = await runCli(['export', 'content', 'CLI Test Active', '--format', 'pdf']);
+        expect(exitCode).toBe(1);
+        expect(stdout).toContain('Unknown format');
+      });
+    });
+
     describe('export help', () => {
       it('should show export help with no subcommand', async () => {
         const { stdout, stderr, exitCode } = await runCli(['export']);
@@ -584,6 +605,250 @@ describe('CLI Commands', () => {
     });
   });
 
+  describe('ingest command', () => {
+    // Offline ingestion: extraction and prompt generation come from a script
+    const scriptedEnv = {
+      LLM_PROVIDER: 'scripted',
+      LLM_SCRIPT_PATH: resolve(import.meta.dir, '../fixtures/llm/ingest-basic.json'),
+    };
+    const notesPath = resolve(import.meta.dir, '../fixtures/ingest/mitochondria.md');
+    // Counts are colorized, so compare against plain text
+    const plain = (s: string): string => s.replace(/\x1b\[[0-9;]*m/g, '');
+
+    it('should show error when file path is missing', async () => {
+      const { stdout, exitCode } = await runCli(['ingest']);
+      expect(exitCode).toBe(1);
+      expect(stdout).toContain('File path is required');
+    });
+
+    it('should reject unsupported file types', async () => {
+      const { stdout, exitCode } = await runCli(['ingest', 'slides.pdf'], scriptedEnv, '');
+      expect(exitCode).toBe(1);
+      expect(stdout).toContain('Unsupported file type');
+    });
+
+    it('should create a recall set from reviewed concepts', async () => {
+      // accept, edit content, merge 3+4 keeping joined text, then name the set
+      const input = ['a', 'e', 'ATP comes from oxidative phosphorylation.', '', 'm', '', '', 'Cell Energy', '', ''].join('\n');
+      const { stdout, exitCode } = await runCli(['ingest', notesPath], scriptedEnv, input);
+
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('Review Extracted Concepts');
+      expect(stdout).toContain('Recall Set Created!');
+      expect(plain(stdout)).toContain('Recall points: 3');
+
+      const { stdout: listOut } = await runCli(['list']);
+      expect(listOut).toContain('Cell Energy');
+    });
+
+    it('should resume a paused ingestion', async () => {
+      const first = await runCli(['ingest', notesPath], scriptedEnv, 'a\nd\nq\n');
+      expect(first.exitCode).toBe(0);
+      expect(first.stdout).toContain('Ingestion paused');
+      expect(first.stdout).toContain('ingest --resume ing_');
+
+      // Only the two undecided concepts remain, and no extraction call is needed
+      const resumed = await runCli(['ingest', '--resume'], scriptedEnv, 'a\nd\nResumed Set\n\n');
+      expect(resumed.exitCode).toBe(0);
+      expect(plain(resumed.stdout)).toContain('Concepts to review: 2');
+      expect(plain(resumed.stdout)).toContain('Recall points: 2');
+    });
+
+    it('should report when there is nothing to resume', async () => {
+      const { stdout, exitCode } = await runCli(['ingest', '--resume'], scriptedEnv, '');
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('No unfinished ingestion jobs');
+    });
+  });
+
+  describe('import command', () => {
+    const deckPath = resolve(import.meta.dir, '../fixtures/anki/cell-biology.txt');
+    const plain = (s: string): string => s.replace(/\x1b\[[0-9;]*m/g, '');
+
+    it('should show error when file path is missing', async () => {
+      const { stdout, exitCode } = await runCli(['import', '--dry-run']);
+      expect(exitCode).toBe(1);
+      expect(stdout).toContain('File path is required');
+    });
+
+    it('should preview without importing on --dry-run', async () => {
+      const { stdout, exitCode } = await runCli(['import', deckPath, '--dry-run']);
+      expect(exitCode).toBe(0);
+      expect(plain(stdout)).toContain('Target: new set "Cell Biology"');
+      expect(plain(stdout)).toContain('Recall points: 3');
+      expect(stdout).toContain('Dry run: nothing was imported.');
+
+      const { stdout: listOut } = await runCli(['list']);
+      expect(listOut).not.toContain('Cell Biology');
+    });
+
+    it('should import into a new set with --name', async () => {
+      const { stdout, exitCode } = await runCli(['import', deckPath, '--name', 'Imported Cells']);
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('Imported 3 recall point(s) into new set "Imported Cells"');
+
+      const { stdout: listOut } = await runCli(['list']);
+      expect(listOut).toContain('Imported Cells');
+    });
+
+    it('should fail when the --into set does not exist', async () => {
+      const { stdout, exitCode } = await runCli(['import', deckPath, '--into', 'NonExistent']);
+      expect(exitCode).toBe(1);
+      expect(stdout).toContain('Recall set "NonExistent" not found');
+    });
+  });
+
+  describe('optimize command', () => {
+    it('should fail when there is too little review history', async () => {
+      const { stdout, exitCode } = await runCli(['optimize']);
+      expect(exitCode).toBe(1);
+      expect(stdout).toContain('Not enough review history');
+    });
+
+    it('should fail when the recall set does not exist', async () => {
+      const { stdout, exitCode } = await runCli(['optimize', 'NonExistent']);
+      expect(exitCode).toBe(1);
+      expect(stdout).toContain('Recall set "NonExistent" not found');
+    });
+
+    it('should report before and after fitting, storing only without --dry-run', async () => {
+      await createTestReviewHistory(createTestRepositories(db), { recallSetId: 'rs_cli_test_active' });
+
+      const dryRun = await runCli(['optimize', 'CLI Test Active', '--dry-run']);
+      expect(dryRun.exitCode).toBe(0);
+      expect(dryRun.stdout).toContain('FSRS Optimization');
+      expect(dryRun.stdout).toContain('Predicted retention');
+      expect(dryRun.stdout).toContain('Dry run: the fitted weights were not stored.');
+
+      const { stdout, exitCode } = await runCli(['optimize', 'CLI Test Active']);
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('Current weights: FSRS defaults');
+      expect(stdout).toContain('Stored the fitted FSRS weights for "CLI Test Active"');
+
+      const reset = await runCli(['optimize', 'CLI Test Active', '--reset']);
+      expect(reset.stdout).toContain('Removed the fitted FSRS weights for "CLI Test Active"');
+    });
+  });
+
+  describe('benchmark command', () => {
+    // Offline benchmark: the evaluator's judgments come from a script
+    const scriptedEnv = {
+      LLM_PROVIDER: 'scripted',
+      LLM_SCRIPT_PATH: resolve(import.meta.dir, '../fixtures/llm/evaluator-calibration.json'),
+    };
+    const datasetPath = resolve(import.meta.dir, '../fixtures/calibration/cell-biology.json');
+    const plain = (s: string): string => s.replace(/\x1b\[[0-9;]*m/g, '');
+
+    it('should show error when the dataset path is missing', async () => {
+      const { stdout, exitCode } = await runCli(['benchmark'], scriptedEnv);
+      expect(exitCode).toBe(1);
+      expect(stdout).toContain('Dataset path is required');
+    });
+
+    it('should fail on an unreadable dataset', async () => {
+      const { stdout, exitCode } = await runCli(['benchmark', 'missing.json'], scriptedEnv);
+      expect(exitCode).toBe(1);
+      expect(stdout).toContain('Could not read calibration dataset');
+    });
+
+    it('should report accuracy, ratings and calibration', async () => {
+      const { stdout, exitCode } = await runCli(['benchmark', datasetPath], scriptedEnv);
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('Evaluator Benchmark');
+      expect(plain(stdout)).toContain('Verdict accuracy: 67%');
+      expect(plain(stdout)).toContain('Rating accuracy: 50%');
+      expect(plain(stdout)).toContain('Brier score: 0.164');
+      expect(plain(stdout)).toContain('glycolysis-yield: labelled failed (hard), judged recalled (good)');
+    });
+
+    it('should print the report as JSON with --json', async () => {
+      const { stdout, exitCode } = await runCli(['benchmark', datasetPath, '--json'], scriptedEnv);
+      expect(exitCode).toBe(0);
+      const report = JSON.parse(stdout);
+      expect(report.caseCount).toBe(6);
+      expect(report.rating.confusion.hard.easy).toBe(1);
+    });
+
+    it('should name the evaluation prompt, and reject unregistered versions', async () => {
+      const { stdout } = await runCli(['benchmark', datasetPath, '--prompt-version', 'enhanced-v1'], scriptedEnv);
+      expect(plain(stdout)).toContain('Evaluation prompt: enhanced-v1');
+
+      const unknown = await runCli(['benchmark', datasetPath, '--prompt-version', 'enhanced-v99'], scriptedEnv);
+      expect(unknown.exitCode).toBe(1);
+      expect(unknown.stdout).toContain("Unknown evaluator prompt version 'enhanced-v99'");
+    });
+  });
+
+  describe('experiment command', () => {
+    const experimentEnv = {
+      PROMPT_EXPERIMENT_PATH: resolve(import.meta.dir, '../fixtures/experiments/tutor-length.json'),
+    };
+    const plain = (s: string): string => s.replace(/\x1b\[[0-9;]*m/g, '');
+
+    /** Assigns sessions of the seeded recall set to the experiment's variants. */
+    const assignSessions = async (variants: string[]) => {
+      const { sessionRepo } = createTestRepositories(db);
+      for (const [i, variant] of variants.entries()) {
+        await sessionRepo.create({
+          id: `sess_experiment_${i}`,
+          recallSetId: 'rs_cli_test_active',
+          targetRecallPointIds: [],
+          experimentId: 'tutor-length',
+          experimentVariant: variant,
+        });
+      }
+    };
+
+    it('should list prompt versions when no experiment is running', async () => {
+      const { stdout, exitCode } = await runCli(['experiment']);
+      expect(exitCode).toBe(0);
+      expect(plain(stdout)).toContain('socratic-v1 (default)');
+      expect(stdout).toContain('socratic-concise-v1');
+      expect(stdout).toContain('No experiment is running');
+      expect(stdout).toContain('No sessions have been assigned to an experiment yet.');
+    });
+
+    it('should show the running experiment and its variant shares', async () => {
+      await assignSessions(['control', 'concise']);
+
+      const { stdout, exitCode } = await runCli(['experiment'], experimentEnv);
+      expect(exitCode).toBe(0);
+      expect(plain(stdout)).toContain('Running experiment: tutor-length');
+      expect(plain(stdout)).toMatch(/concise\s+50%\s+tutor=socratic-concise-v1/);
+      expect(plain(stdout)).toContain('tutor-length (2 session(s))');
+    });
+
+    it('should fail for an experiment without sessions', async () => {
+      const { stdout, exitCode } = await runCli(['experiment', 'nonexistent']);
+      expect(exitCode).toBe(1);
+      expect(stdout).toContain('No sessions were assigned to experiment "nonexistent"');
+    });
+
+    it('should fail on an invalid experiment config', async () => {
+      const { stdout, exitCode } = await runCli(['experiment'], {
+        PROMPT_EXPERIMENT_PATH: resolve(import.meta.dir, '../fixtures/calibration/cell-biology.json'),
+      });
+      expect(exitCode).toBe(1);
+      expect(stdout).toContain('Not a valid prompt experiment');
+    });
+
+    it('should compare the variants of an experiment', async () => {
+      await assignSessions(['control', 'concise', 'concise']);
+
+      const { stdout, exitCode } = await runCli(['experiment', 'tutor-length'], experimentEnv);
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('Prompt Experiment');
+      expect(plain(stdout)).toMatch(/concise\s+2\s+0\s+-/);
+      expect(plain(stdout)).toContain('concise: tutor=socratic-concise-v1');
+      expect(stdout).toContain('fewer than 10 measured sessions');
+
+      const json = await runCli(['experiment', 'tutor-length', '--json'], experimentEnv);
+      const report = JSON.parse(json.stdout);
+      expect(report.baselineVariant).toBe('control');
+      expect(report.sessionCount).toBe(3);
+    });
+  });
+
   describe('unknown command', () => {
     it('should show error for unknown command', async () => {
       const { stdout, exitCode } = await runCli(['foobar']);
@@ -6,9 +6,25 @@
  * ensure consistent test data across the test suite.
  */
 
-import type { TestRepositories } from './setup';
-import { FSRSScheduler } from '../src/core/fsrs';
-import type { RecallSet, RecallPoint, Session, FSRSState } from '../src/core/models';
+import { Database } from 'bun:sqlite';
+import { deflateRawSync } from 'zlib';
+import type { TestContext, TestRepositories } from './setup';
+import { FSRSScheduler, type RecallRating } from '../src/core/fsrs';
+import { SessionEngine, type SessionEngineConfig, type SessionEngineDependencies } from '../src/core/session';
+import { SessionMetricsCollector } from '../src/core/session/metrics-collector';
+import { RecallEvaluator } from '../src/core/scoring';
+import type { RecallEvaluation, EnhancedRecallEvaluation } from '../src/core/scoring/types';
+import { ScriptedLLMProvider, type ScriptedResponse } from '../src/llm';
+import type { EnhancedEvaluationContext } from '../src/llm/prompts';
+import type {
+  RecallSet,
+  RecallPoint,
+  Session,
+  SessionMessage,
+  SessionMode,
+  PromptVersions,
+  FSRSState,
+} from '../src/core/models';
 
 // ============================================================================
 // Date Utilities
@@ -100,6 +116,11 @@ export interface CreateRecallSetOptions {
   description?: string;
   discussionSystemPrompt?: string;
   status?: 'active' | 'paused' | 'archived';
+  desiredRetention?: number | null;
+  maximumIntervalDays?: number | null;
+  maxPointsPerSession?: number | null;
+  newPointsPerDay?: number | null;
+  leechLapseThreshold?: number | null;
 }
 
 /**
@@ -171,9 +192,11 @@ export async function createTestRecallPoint(
  */
 export interface CreateSessionOptions {
   id?: string;
-  recallSetId: string;
+  recallSetId: string | null;
   targetRecallPointIds?: string[];
   status?: 'in_progress' | 'completed' | 'abandoned';
+  mode?: SessionMode;
+  promptVersions?: PromptVersions | null;
   startedAt?: Date;
   endedAt?: Date | null;
 }
@@ -287,8 +310,12 @@ export async function createTestRecallOutcome(
     success?: boolean;
     confidence?: number;
     rating?: 'forgot' | 'hard' | 'good' | 'easy';
+    aiRating?: 'forgot' | 'hard' | 'good' | 'easy' | null;
+    learnerRating?: 'forgot' | 'hard' | 'good' | 'easy' | null;
+    hintsUsed?: number;
     messageIndexStart?: number;
     messageIndexEnd?: number;
+    createdAt?: Date;
   }
 ): Promise<void> {
   const defaults = {
@@ -309,6 +336,188 @@ export async function createTestRecallOutcome(
   });
 }
 
+/**
+ * Options for creating a test review history.
+ */
+export interface CreateReviewHistoryOptions {
+  recallSetId: string;
+  /** Number of recall points to create (default 12) */
+  points?: number;
+  /** Days ago of each point's reviews, oldest first (default 60, 59, 56, 50, 40, 20) */
+  reviewDaysAgo?: number[];
+  /** Whether a review was recalled (default: every third review after the first is forgotten) */
+  recalled?: (pointIndex: number, reviewIndex: number) => boolean;
+  /** Mode of the session the reviews are recorded in (default 'review') */
+  mode?: SessionMode;
+}
+
+/**
+ * Creates recall points with a back-dated outcome for every review, enough
+ * (by default 60 reviews a day or more apart) to fit FSRS weights to.
+ *
+ * @param repos - Test repositories
+ * @param options - Configuration including required recallSetId
+ * @returns The created points and the number of outcomes recorded
+ */
+export async function createTestReviewHistory(
+  repos: TestRepositories,
+  options: CreateReviewHistoryOptions
+): Promise<{ points: RecallPoint[]; outcomeCount: number }> {
+  const {
+    recallSetId,
+    points: pointCount = 12,
+    reviewDaysAgo = [60, 59, 56, 50, 40, 20],
+    recalled = (pointIndex: number, reviewIndex: number) =>
+      reviewIndex === 0 || (pointIndex + reviewIndex) % 3 !== 0,
+    mode,
+  } = options;
+
+  const session = await createTestSession(repos, { recallSetId, status: 'completed', mode });
+  const points: RecallPoint[] = [];
+  const outcomes = [];
+
+  for (let p = 0; p < pointCount; p++) {
+    const point = await createTestRecallPoint(repos, { recallSetId });
+    points.push(point);
+
+    for (let r = 0; r < reviewDaysAgo.length; r++) {
+      const success = recalled(p, r);
+      outcomes.push({
+        id: generateOutcomeId(),
+        sessionId: session.id,
+        recallPointId: point.id,
+        success,
+        confidence: 0.8,
+        rating: success ? ('good' as const) : ('forgot' as const),
+        reasoning: 'Test review',
+        messageIndexStart: 0,
+        messageIndexEnd: 1,
+        timeSpentMs: 30000,
+        createdAt: daysAgo(reviewDaysAgo[r]),
+      });
+    }
+  }
+
+  await repos.outcomeRepo.createMany(outcomes);
+  return { points, outcomeCount: outcomes.length };
+}
+
+// ============================================================================
+// Anki Package Fixtures
+// ============================================================================
+
+/**
+ * A note to put in a test Anki package.
+ */
+export interface TestAnkiNote {
+  /** Field values; joined with Anki's \x1f separator */
+  fields: string[];
+  /** Space-separated tags */
+  tags?: string;
+  /** Review log entries for the note's card: Anki ease (0-4) and when */
+  reviews?: { ease: number; at: Date; timeMs?: number }[];
+}
+
+/**
+ * Builds an Anki package (.apkg) in memory: a legacy `collection.anki2`
+ * SQLite database with the notes, cards, revlog, and col tables the
+ * importer reads, zipped with deflate.
+ *
+ * @param deckName - Name of the single deck the cards belong to
+ * @param notes - Notes to include (one card each)
+ * @returns The .apkg file contents
+ */
+export function createTestAnkiPackage(deckName: string, notes: TestAnkiNote[]): Uint8Array {
+  const collection = new Database(':memory:');
+  const deckId = 1700000000000;
+
+  collection.run('CREATE TABLE col (id INTEGER PRIMARY KEY, decks TEXT NOT NULL)');
+  collection.run('CREATE TABLE notes (id INTEGER PRIMARY KEY, flds TEXT NOT NULL, tags TEXT NOT NULL)');
+  collection.run('CREATE TABLE cards (id INTEGER PRIMARY KEY, nid INTEGER NOT NULL, did INTEGER NOT NULL)');
+  collection.run(
+    'CREATE TABLE revlog (id INTEGER PRIMARY KEY, cid INTEGER NOT NULL, ease INTEGER NOT NULL, time INTEGER NOT NULL)'
+  );
+  collection.run('INSERT INTO col (id, decks) VALUES (1, ?)', [
+    JSON.stringify({ [deckId]: { id: deckId, name: deckName } }),
+  ]);
+
+  notes.forEach((note, i) => {
+    const noteId = 1600000000000 + i;
+    const cardId = 1650000000000 + i;
+    collection.run('INSERT INTO notes (id, flds, tags) VALUES (?, ?, ?)', [
+      noteId,
+      note.fields.join('\x1f'),
+      note.tags ?? '',
+    ]);
+    collection.run('INSERT INTO cards (id, nid, did) VALUES (?, ?, ?)', [cardId, noteId, deckId]);
+    for (const review of note.reviews ?? []) {
+      collection.run('INSERT INTO revlog (id, cid, ease, time) VALUES (?, ?, ?, ?)', [
+        review.at.getTime(),
+        cardId,
+        review.ease,
+        review.timeMs ?? 5000,
+      ]);
+    }
+  });
+
+  const data = collection.serialize();
+  collection.close();
+
+  return createTestZip({ 'collection.anki2': data, media: new TextEncoder().encode('{}') });
+}
+
+/**
+ * Builds a zip archive with every entry deflated.
+ *
+ * @param entries - File contents by name
+ * @returns The zip file contents
+ */
+export function createTestZip(entries: Record<string, Uint8Array>): Uint8Array {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, contents] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const compressed = deflateRawSync(contents);
+    const crc = Bun.hash.crc32(contents);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(contents.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    localParts.push(local, nameBytes, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(8, 10); // deflate
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(contents.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...localParts, centralDirectory, end]));
+}
+
 // ============================================================================
 // Complex Test Data Fixtures
 // ============================================================================
@@ -560,6 +769,109 @@ export async function seedDashboardTestData(
   };
 }
 
+// ============================================================================
+// Session Engine Test Doubles
+// ============================================================================
+
+/**
+ * What the test tutor answers every request with, unless scripted otherwise.
+ */
+export const TEST_TUTOR_REPLY = 'Can you tell me what you remember about this?';
+
+/**
+ * Creates an offline tutor for session tests: a ScriptedLLMProvider that
+ * gives the first matching response, and TEST_TUTOR_REPLY when none match.
+ * Its getCalls() show the prompts the engine sent.
+ *
+ * @param responses - Scripted responses for particular requests
+ * @returns The tutor
+ */
+export function createTestTutor(responses: ScriptedResponse[] = []): ScriptedLLMProvider {
+  return new ScriptedLLMProvider({ responses, fallback: TEST_TUTOR_REPLY });
+}
+
+/**
+ * Options for a SuccessfulRecallEvaluator.
+ */
+export interface SuccessfulRecallEvaluatorOptions {
+  /** Confidence reported with each verdict (default: 0.95) */
+  confidence?: number;
+  /** Rating suggested by enhanced evaluations (default: 'easy') */
+  suggestedRating?: RecallRating;
+}
+
+/**
+ * Evaluator double that judges every recall successful without calling an
+ * LLM, and keeps the context of each evaluation.
+ */
+export class SuccessfulRecallEvaluator extends RecallEvaluator {
+  /** The context of each evaluation, in order (undefined for evaluate()) */
+  readonly evaluations: Array<EnhancedEvaluationContext | undefined> = [];
+
+  private readonly confidence: number;
+  private readonly suggestedRating: RecallRating;
+
+  constructor(options: SuccessfulRecallEvaluatorOptions = {}) {
+    super(createTestTutor());
+    this.confidence = options.confidence ?? 0.95;
+    this.suggestedRating = options.suggestedRating ?? 'easy';
+  }
+
+  async evaluate(): Promise<RecallEvaluation> {
+    this.evaluations.push(undefined);
+    return { success: true, confidence: this.confidence, reasoning: 'Recalled clearly' };
+  }
+
+  async evaluateEnhanced(
+    _recallPoint: RecallPoint,
+    _conversationMessages: SessionMessage[],
+    context?: EnhancedEvaluationContext
+  ): Promise<EnhancedRecallEvaluation> {
+    this.evaluations.push(context);
+    return {
+      success: true,
+      confidence: this.confidence,
+      reasoning: 'Recalled clearly',
+      keyDemonstratedConcepts: ['main concept'],
+      missedConcepts: [],
+      suggestedRating: this.suggestedRating,
+    };
+  }
+}
+
+/**
+ * Creates a SessionEngine over the test repositories that records metrics
+ * and outcomes, with the test tutor and a SuccessfulRecallEvaluator unless
+ * others are given.
+ *
+ * @param ctx - Test context providing the repositories and scheduler
+ * @param deps - Dependencies to add or replace
+ * @param config - Engine configuration overrides
+ * @returns The engine
+ */
+export function createTestSessionEngine(
+  ctx: Pick<TestContext, 'repos' | 'scheduler'>,
+  deps: Partial<SessionEngineDependencies> = {},
+  config?: Partial<SessionEngineConfig>
+): SessionEngine {
+  return new SessionEngine(
+    {
+      scheduler: ctx.scheduler,
+      evaluator: new SuccessfulRecallEvaluator(),
+      llmClient: createTestTutor(),
+      recallSetRepo: ctx.repos.recallSetRepo,
+      recallPointRepo: ctx.repos.recallPointRepo,
+      sessionRepo: ctx.repos.sessionRepo,
+      messageRepo: ctx.repos.messageRepo,
+      metricsCollector: new SessionMetricsCollector(),
+      metricsRepo: ctx.repos.metricsRepo,
+      recallOutcomeRepo: ctx.repos.outcomeRepo,
+      ...deps,
+    },
+    config
+  );
+}
+
 // ============================================================================
 // Response Assertion Helpers
 // ============================================================================
@@ -7,6 +7,7 @@
  * - GlobalAnalytics aggregation across all recall sets
  * - Trend data calculation by day
  * - Struggling point identification
+ * - Retention curves, stability distribution and leeches from FSRS state
  * - Handling of empty and edge cases
  *
  * Tests use an in-memory SQLite database with seeded data that represents
@@ -14,11 +15,6 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
-import { drizzle } from 'drizzle-orm/bun-sqlite';
-import { migrate } from 'drizzle-orm/bun-sqlite/migrator';
-import { Database } from 'bun:sqlite';
-import { resolve } from 'path';
-import * as schema from '../../src/storage/schema';
 import {
   RecallSetRepository,
   RecallPointRepository,
@@ -32,18 +28,7 @@ import { AnalyticsCalculator } from '../../src/core/analytics/analytics-calculat
 import { FSRSScheduler } from '../../src/core/fsrs';
 import type { RecallSet, RecallPoint, Session } from '../../src/core/models';
 import type { AppDatabase } from '../../src/storage/db';
-
-/**
- * Creates an in-memory database with migrations applied.
- */
-function createTestDatabase(): { db: AppDatabase; sqlite: Database } {
-  const sqlite = new Database(':memory:');
-  sqlite.run('PRAGMA foreign_keys = ON');
-  const db = drizzle(sqlite, { schema });
-  const migrationsFolder = resolve(import.meta.dir, '../../drizzle');
-  migrate(db, { migrationsFolder });
-  return { db, sqlite };
-}
+import { createTestDatabase, type TestDatabaseContext } from '../setup';
 
 /**
  * Creates a date by subtracting days from now.
@@ -477,7 +462,7 @@ async function seedAnalyticsTestData(
 
 describe('Analytics Calculator', () => {
   let db: AppDatabase;
-  let sqlite: Database;
+  let testDb: TestDatabaseContext;
   let recallSetRepo: RecallSetRepository;
   let recallPointRepo: RecallPointRepository;
   let sessionRepo: SessionRepository;
@@ -495,9 +480,8 @@ describe('Analytics Calculator', () => {
 
   beforeEach(async () => {
     // Create fresh database
-    const testDb = createTestDatabase();
+    testDb = await createTestDatabase();
     db = testDb.db;
-    sqlite = testDb.sqlite;
 
     // Initialize repositories
     recallSetRepo = new RecallSetRepository(db);
@@ -534,9 +518,9 @@ describe('Analytics Calculator', () => {
     testSessions = seedData.sessions;
   });
 
-  afterEach(() => {
-    if (sqlite) {
-      sqlite.close();
+  afterEach(async () => {
+    if (testDb) {
+      await testDb.close();
     }
   });
 
@@ -696,6 +680,8 @@ describe('Analytics Calculator', () => {
       expect(analytics.avgTimeToRecallMs).toBe(175000); // (150000 + 200000) / 2
       expect(analytics.currentStability).toBeGreaterThan(0);
       expect(analytics.currentDifficulty).toBeGreaterThan(0);
+      // Seeded points were never scheduled, so the model has no memory of them
+      expect(analytics.currentRetrievability).toBe(0);
     });
 
     it('should calculate correct success rate for mixed outcomes', async () => {
@@ -814,7 +800,7 @@ describe('Analytics Calculator', () => {
 
     it('should handle system with no recall sets', async () => {
       // Arrange: Create a fresh database with no data
-      const freshDb = createTestDatabase();
+      const freshDb = await createTestDatabase();
       const freshRecallSetRepo = new RecallSetRepository(freshDb.db);
       const freshRecallPointRepo = new RecallPointRepository(freshDb.db);
       const freshMetricsRepo = new SessionMetricsRepository(freshDb.db);
@@ -842,7 +828,7 @@ describe('Analytics Calculator', () => {
       expect(analytics.recentActivity).toHaveLength(0);
 
       // Cleanup
-      freshDb.sqlite.close();
+      await freshDb.close();
     });
 
     it('should correctly count active vs inactive recall sets', async () => {
@@ -863,4 +849,160 @@ describe('Analytics Calculator', () => {
       expect(analytics.activeRecallSets).toBe(2);
     });
   });
+
+  describe('memory analytics', () => {
+    /**
+     * Creates a recall point in a fresh set with the given FSRS state on
+     * top of a new card's.
+     */
+    const createMemoryPoint = async (
+      id: string,
+      fsrsState: Partial<RecallPoint['fsrsState']>
+    ): Promise<RecallPoint> =>
+      recallPointRepo.create({
+        id,
+        recallSetId: 'rs_memory',
+        content: `Memory fact ${id}`,
+        context: 'Context for the memory fact',
+        fsrsState: { ...scheduler.createInitialState(new Date()), ...fsrsState },
+      });
+
+    /** A reviewed point whose last review was `elapsed` days ago */
+    const reviewed = (stability: number, elapsed: number, reps = 3, lapses = 0) => ({
+      state: 'review' as const,
+      stability,
+      difficulty: 5,
+      reps,
+      lapses,
+      lastReview: daysAgo(elapsed),
+      due: daysAgo(elapsed - Math.round(stability)),
+    });
+
+    beforeEach(async () => {
+      await recallSetRepo.create({
+        id: 'rs_memory',
+        name: 'Memory Set',
+        description: 'Points in different memory states',
+        status: 'active',
+        discussionSystemPrompt: 'Help the user remember.',
+      });
+    });
+
+    it('should follow each reviewed point along its forgetting curve', async () => {
+      await createMemoryPoint('rp_mem_due', reviewed(10, 10));
+      await createMemoryPoint('rp_mem_strong', reviewed(100, 2));
+
+      const memory = await calculator.calculateMemoryAnalytics('rs_memory', 14);
+
+      expect(memory.days).toBe(14);
+      const due = memory.points.find((p) => p.recallPointId === 'rp_mem_due')!;
+      expect(due.retentionCurve).toHaveLength(15);
+      // Recall is 90% once the elapsed time reaches the stability
+      expect(due.retrievability).toBeCloseTo(0.9, 2);
+      for (let day = 1; day < due.retentionCurve.length; day++) {
+        expect(due.retentionCurve[day].value).toBeLessThan(due.retentionCurve[day - 1].value);
+      }
+
+      const strong = memory.points.find((p) => p.recallPointId === 'rp_mem_strong')!;
+      expect(strong.retentionCurve[14].value).toBeGreaterThan(due.retentionCurve[14].value);
+
+      // The set's curve averages its points' curves
+      expect(memory.retentionCurve).toHaveLength(15);
+      expect(memory.retentionCurve[14].value).toBeCloseTo(
+        (due.retentionCurve[14].value + strong.retentionCurve[14].value) / 2,
+        10
+      );
+      expect(memory.avgRetrievability).toBeCloseTo(
+        (due.retrievability + strong.retrievability) / 2,
+        10
+      );
+    });
+
+    it('should count new points without modeling their memory', async () => {
+      await createMemoryPoint('rp_mem_reviewed', reviewed(10, 5));
+      await createMemoryPoint('rp_mem_new', {});
+
+      const memory = await calculator.calculateMemoryAnalytics('rs_memory');
+
+      expect(memory.reviewedPointCount).toBe(1);
+      expect(memory.newPointCount).toBe(1);
+      expect(memory.retentionCurve).toHaveLength(31);
+      expect(memory.retentionCurve[0].value).toBe(memory.points[0].retrievability);
+
+      const fresh = memory.points.find((p) => p.recallPointId === 'rp_mem_new')!;
+      expect(fresh.retrievability).toBe(0);
+      expect(fresh.retentionCurve).toHaveLength(0);
+      expect(memory.stabilityDistribution.reduce((sum, b) => sum + b.count, 0)).toBe(1);
+    });
+
+    it('should bucket reviewed points by stability', async () => {
+      await createMemoryPoint('rp_mem_a', reviewed(0.5, 0));
+      await createMemoryPoint('rp_mem_b', reviewed(3, 1));
+      await createMemoryPoint('rp_mem_c', reviewed(7, 1));
+      await createMemoryPoint('rp_mem_d', reviewed(45, 1));
+      await createMemoryPoint('rp_mem_e', reviewed(400, 1));
+
+      const memory = await calculator.calculateMemoryAnalytics('rs_memory');
+
+      expect(memory.stabilityDistribution.map((b) => [b.label, b.count])).toEqual([
+        ['<1d', 1],
+        ['1-7d', 1],
+        ['7-30d', 1],
+        ['30-90d', 1],
+        ['90-180d', 0],
+        ['180-365d', 0],
+        ['365d+', 1],
+      ]);
+      expect(memory.stabilityDistribution[6].maxDays).toBeNull();
+    });
+
+    it('should report an empty set without curves', async () => {
+      const memory = await calculator.calculateMemoryAnalytics('rs_memory');
+
+      expect(memory.reviewedPointCount).toBe(0);
+      expect(memory.avgRetrievability).toBe(0);
+      expect(memory.retentionCurve).toHaveLength(0);
+      expect(memory.leeches).toHaveLength(0);
+    });
+
+    it('should flag leeches by repeated lapses or flat stability, most lapses first', async () => {
+      await createMemoryPoint('rp_mem_lapsing', reviewed(12, 2, 9, 4));
+      await createMemoryPoint('rp_mem_both', reviewed(2, 1, 10, 6));
+      await createMemoryPoint('rp_mem_flat', reviewed(3, 1, 5, 1));
+      await createMemoryPoint('rp_mem_healthy', reviewed(30, 5, 6, 1));
+      await createMemoryPoint('rp_mem_young', reviewed(3, 1, 4, 0));
+
+      const leeches = await calculator.findLeeches('rs_memory');
+
+      expect(leeches.map((l) => [l.recallPointId, l.reasons])).toEqual([
+        ['rp_mem_both', ['lapses', 'flat-stability']],
+        ['rp_mem_lapsing', ['lapses']],
+        ['rp_mem_flat', ['flat-stability']],
+      ]);
+      expect((await calculator.calculateMemoryAnalytics('rs_memory')).leeches).toEqual(leeches);
+    });
+
+    it('should calculate a single point\'s memory', async () => {
+      await createMemoryPoint('rp_mem_single', reviewed(20, 4));
+
+      const memory = await calculator.calculatePointMemory('rp_mem_single', 7);
+
+      expect(memory.recallPointId).toBe('rp_mem_single');
+      expect(memory.stability).toBe(20);
+      expect(memory.retentionCurve).toHaveLength(8);
+      expect(memory.retrievability).toBeGreaterThan(0.9);
+    });
+
+    it('should throw for a non-existent recall set or point', async () => {
+      await expect(calculator.calculateMemoryAnalytics('rs_nonexistent')).rejects.toThrow(
+        "RecallSet with id 'rs_nonexistent' not found"
+      );
+      await expect(calculator.findLeeches('rs_nonexistent')).rejects.toThrow(
+        "RecallSet with id 'rs_nonexistent' not found"
+      );
+      await expect(calculator.calculatePointMemory('rp_nonexistent')).rejects.toThrow(
+        "RecallPoint with id 'rp_nonexistent' not found"
+      );
+    });
+  });
 });
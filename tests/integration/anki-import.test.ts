@@ -0,0 +1,344 @@
+/**
+ * Integration Test: Anki Import
+ *
+ * Drives the AnkiImportService against an in-memory database with Anki
+ * exports built in the test or read from fixtures (text, and a package in
+ * the current zstd-compressed format):
+ *
+ * - Text exports: headers, HTML stripping, cloze notes, quoted fields
+ * - Packages: deck names, notes, and review logs from the SQLite collection
+ * - FSRS state and recall history are seeded from review logs when present
+ * - Empty notes and duplicates (including existing points) are skipped
+ * - preview() writes nothing; import() creates the set and points
+ * - Unusable input and bad targets raise typed ImportErrors
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createTestContext, cleanupTestDatabase, type TestContext } from '../setup';
+import {
+  createTestRecallSet,
+  createTestRecallPoint,
+  createTestAnkiPackage,
+  createTestZip,
+  daysAgo,
+} from '../helpers';
+import { AnkiImportService, ImportError, parseAnkiText } from '../../src/core/import';
+import { FSRSScheduler, DEFAULT_FSRS_WEIGHTS } from '../../src/core/fsrs';
+
+const FIXTURE_DIR = join(import.meta.dir, '../fixtures/anki');
+
+const TEXT_EXPORT = new Uint8Array(readFileSync(join(FIXTURE_DIR, 'cell-biology.txt')));
+
+/**
+ * A package in the current format: the collection zstd-compressed as
+ * collection.anki21b, with deck names in a `decks` table, next to a stub
+ * collection.anki2 asking old clients to upgrade.
+ */
+const ANKI21B_PACKAGE = new Uint8Array(readFileSync(join(FIXTURE_DIR, 'cell-biology.apkg')));
+
+/**
+ * Runs an async function and returns the ImportError it throws.
+ */
+async function captureImportError(fn: () => Promise<unknown>): Promise<ImportError> {
+  try {
+    await fn();
+  } catch (err) {
+    if (err instanceof ImportError) return err;
+    throw err;
+  }
+  throw new Error('Expected an ImportError');
+}
+
+describe('Anki import', () => {
+  let ctx: TestContext;
+  let service: AnkiImportService;
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    service = new AnkiImportService({
+      scheduler: new FSRSScheduler(),
+      recallSetRepo: ctx.repos.recallSetRepo,
+      recallPointRepo: ctx.repos.recallPointRepo,
+      fsrsParametersRepo: ctx.repos.fsrsParametersRepo,
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  // ==========================================================================
+  // Text exports
+  // ==========================================================================
+  describe('text exports', () => {
+    it('should parse headers, HTML, quoted fields, and tags', () => {
+      const deck = parseAnkiText(new TextDecoder().decode(TEXT_EXPORT));
+
+      expect(deck.deckName).toBe('Cell Biology');
+      expect(deck.notes).toHaveLength(5);
+      expect(deck.notes[0].fields).toEqual([
+        'What does ATP synthase make?',
+        'ATP, driven by the proton gradient',
+      ]);
+      expect(deck.notes[0].tags).toEqual(['bioenergetics']);
+      expect(deck.notes[1].fields[0]).toBe(
+        'The Krebs cycle runs in the {{c1::mitochondrial matrix}}.'
+      );
+      expect(deck.notes[2].fields[0]).toBe('What pumps protons across the\ninner membrane?');
+      expect(deck.notes.every((note) => note.reviews.length === 0)).toBe(true);
+    });
+
+    it('should preview points without writing anything', async () => {
+      const preview = await service.preview('cell-biology.txt', TEXT_EXPORT);
+
+      expect(preview.target).toEqual({
+        type: 'new',
+        name: 'Cell Biology',
+        description: 'Imported from the Anki deck "Cell Biology"',
+      });
+      expect(preview.points.map((p) => p.content)).toEqual([
+        'What does ATP synthase make? — ATP, driven by the proton gradient',
+        'The Krebs cycle runs in the mitochondrial matrix.',
+        'What pumps protons across the\ninner membrane? — The electron transport chain',
+      ]);
+      expect(preview.points[0].context).toBe('From the Anki deck "Cell Biology".');
+      expect(preview.points[1].context).toBe('Also called the citric acid cycle.');
+      expect(preview.points.every((p) => p.fsrsState.state === 'new')).toBe(true);
+      expect(preview.skipped.map((s) => s.reason).sort()).toEqual(['duplicate', 'empty']);
+
+      expect(await ctx.repos.recallSetRepo.findAll()).toHaveLength(0);
+    });
+
+    it('should leave numeric entities beyond Unicode undecoded', () => {
+      const deck = parseAnkiText('Out of range &#99999999; and &#x110000;\tIn range &#x1F600;');
+
+      expect(deck.notes[0].fields).toEqual([
+        'Out of range &#99999999; and &#x110000;',
+        'In range \u{1F600}',
+      ]);
+    });
+
+    it('should read comma-separated exports by extension', async () => {
+      const csv = new TextEncoder().encode('Front one,Back one\n"Front, two",Back two\n');
+
+      const preview = await service.preview('Vocabulary.csv', csv);
+
+      expect(preview.target.name).toBe('Vocabulary');
+      expect(preview.points.map((p) => p.content)).toEqual([
+        'Front one — Back one',
+        'Front, two — Back two',
+      ]);
+    });
+  });
+
+  // ==========================================================================
+  // Packages
+  // ==========================================================================
+  describe('packages', () => {
+    it('should read the zstd-compressed collection of a current package', async () => {
+      const preview = await service.preview('cell-biology.apkg', ANKI21B_PACKAGE);
+
+      // The deck holding the cards, not the upgrade stub's Default deck
+      expect(preview.deckName).toBe('Biology::Cells');
+      expect(preview.points.map((p) => p.content)).toEqual([
+        'What does ATP synthase make? — ATP, driven by the proton gradient',
+        'The inner membrane holds the electron transport chain',
+        'What splits glucose in the cytoplasm? — Glycolysis \u2014 no oxygen needed',
+      ]);
+
+      const [atp, membrane, glycolysis] = preview.points;
+      expect(atp.tags).toEqual(['bioenergetics']);
+      expect(atp.reviewCount).toBe(4);
+      expect(atp.recallHistory.map((a) => a.success)).toEqual([true, false, true, true]);
+      expect(atp.fsrsState.lastReview?.toISOString()).toBe('2024-03-12T09:00:00.000Z');
+      expect(membrane.context).toBe('Folded into cristae');
+      expect(membrane.reviewCount).toBe(1);
+      expect(glycolysis.fsrsState.state).toBe('new');
+    });
+
+    it('should seed FSRS state and recall history from review logs', async () => {
+      const apkg = createTestAnkiPackage('Biology::Cells', [
+        {
+          fields: ['Powerhouse of the cell', 'Mitochondria'],
+          tags: ' organelles ',
+          reviews: [
+            { ease: 4, at: daysAgo(30), timeMs: 4000 },
+            { ease: 1, at: daysAgo(20), timeMs: 9000 },
+            { ease: 3, at: daysAgo(19) },
+            { ease: 3, at: daysAgo(10) },
+          ],
+        },
+        { fields: ['Site of photosynthesis', 'Chloroplast'] },
+      ]);
+
+      const preview = await service.preview('export.apkg', apkg);
+
+      expect(preview.deckName).toBe('Biology::Cells');
+      expect(preview.target.name).toBe('Biology::Cells');
+
+      const [reviewed, fresh] = preview.points;
+      expect(reviewed.content).toBe('Powerhouse of the cell — Mitochondria');
+      expect(reviewed.tags).toEqual(['organelles']);
+      expect(reviewed.reviewCount).toBe(4);
+      expect(reviewed.fsrsState.state).toBe('review');
+      expect(reviewed.fsrsState.reps).toBe(4);
+      expect(reviewed.fsrsState.lapses).toBe(1);
+      expect(reviewed.fsrsState.lastReview?.getTime()).toBe(daysAgo(10).getTime());
+      expect(reviewed.fsrsState.due.getTime()).toBeGreaterThan(daysAgo(10).getTime());
+      expect(reviewed.recallHistory.map((a) => a.success)).toEqual([true, false, true, true]);
+      expect(reviewed.recallHistory[1].latencyMs).toBe(9000);
+
+      expect(fresh.reviewCount).toBe(0);
+      expect(fresh.fsrsState.state).toBe('new');
+      expect(fresh.recallHistory).toEqual([]);
+    });
+
+    it('should ignore manual rescheduling entries in the review log', async () => {
+      const apkg = createTestAnkiPackage('Deck', [
+        {
+          fields: ['Front', 'Back'],
+          reviews: [
+            { ease: 3, at: daysAgo(5) },
+            { ease: 0, at: daysAgo(4) },
+          ],
+        },
+      ]);
+
+      const preview = await service.preview('deck.apkg', apkg);
+
+      expect(preview.points[0].reviewCount).toBe(1);
+    });
+
+    it('should create the recall set and points on import', async () => {
+      const apkg = createTestAnkiPackage('Physiology', [
+        { fields: ['Normal resting heart rate', '60-100 bpm'], reviews: [{ ease: 3, at: daysAgo(3) }] },
+        { fields: ['{{c1::Insulin}} lowers blood glucose', 'Made by beta cells'] },
+      ]);
+
+      const result = await service.import('physiology.apkg', apkg, { name: 'Physiology Cards' });
+
+      expect(result.createdRecallSet).toBe(true);
+      expect(result.recallSet.name).toBe('Physiology Cards');
+      expect(result.recallSet.status).toBe('active');
+      expect(result.recallSet.discussionSystemPrompt).toContain('Physiology Cards');
+
+      const stored = await ctx.repos.recallPointRepo.findByRecallSetId(result.recallSet.id);
+      expect(stored).toHaveLength(2);
+
+      const heartRate = stored.find((p) => p.content.startsWith('Normal resting'))!;
+      expect(heartRate.fsrsState.state).not.toBe('new');
+      expect(heartRate.recallHistory).toHaveLength(1);
+      expect(heartRate.recallHistory[0].success).toBe(true);
+
+      const insulin = stored.find((p) => p.content.startsWith('Insulin'))!;
+      expect(insulin.content).toBe('Insulin lowers blood glucose');
+      expect(insulin.context).toBe('Made by beta cells');
+      expect(insulin.fsrsState.state).toBe('new');
+    });
+  });
+
+  // ==========================================================================
+  // Existing recall sets
+  // ==========================================================================
+  describe('importing into an existing set', () => {
+    it('should add points and skip ones the set already has', async () => {
+      const recallSet = await createTestRecallSet(ctx.repos, { name: 'Bioenergetics' });
+      await createTestRecallPoint(ctx.repos, {
+        recallSetId: recallSet.id,
+        content: 'What does ATP synthase make? — ATP, driven by the proton gradient',
+      });
+
+      const result = await service.import('cell-biology.txt', TEXT_EXPORT, {
+        recallSetId: recallSet.id,
+      });
+
+      expect(result.createdRecallSet).toBe(false);
+      expect(result.recallSet.id).toBe(recallSet.id);
+      expect(result.recallPoints).toHaveLength(2);
+      expect(result.skipped.filter((s) => s.reason === 'duplicate')).toHaveLength(2);
+      expect(await ctx.repos.recallPointRepo.findByRecallSetId(recallSet.id)).toHaveLength(3);
+      expect(await ctx.repos.recallSetRepo.findAll()).toHaveLength(1);
+    });
+
+    it("should replay review logs with the set's retention, interval cap and fitted weights", async () => {
+      const recallSet = await createTestRecallSet(ctx.repos, {
+        name: 'Bioenergetics',
+        desiredRetention: 0.95,
+        maximumIntervalDays: 3,
+      });
+      // Fitted weights with twice the default initial stabilities
+      const weights = DEFAULT_FSRS_WEIGHTS.map((w, i) => (i < 4 ? w * 2 : w));
+      await ctx.repos.fsrsParametersRepo.save({
+        id: `fsp_${crypto.randomUUID()}`,
+        recallSetId: recallSet.id,
+        weights,
+        reviewCount: 400,
+        logLossBefore: 0.4,
+        logLossAfter: 0.35,
+      });
+      const reviews = [
+        { rating: 'easy' as const, at: daysAgo(30) },
+        { rating: 'good' as const, at: daysAgo(10) },
+      ];
+      const apkg = createTestAnkiPackage('Bioenergetics', [
+        { fields: ['Powerhouse of the cell', 'Mitochondria'], reviews: reviews.map(({ at }, i) => ({ ease: 4 - i, at })) },
+      ]);
+
+      const result = await service.import('bioenergetics.apkg', apkg, { recallSetId: recallSet.id });
+
+      const replay = (scheduler: FSRSScheduler) =>
+        reviews.reduce(
+          (state, review) => scheduler.schedule(state, review.rating, review.at),
+          scheduler.createInitialState(reviews[0].at)
+        );
+      const expected = replay(new FSRSScheduler().forRecallSet(recallSet).withWeights(weights));
+      const [point] = result.recallPoints;
+      expect(point.fsrsState.stability).toBeCloseTo(expected.stability, 6);
+      expect(point.fsrsState.due.getTime()).toBe(expected.due.getTime());
+      expect(point.fsrsState.due.getTime()).toBeLessThan(replay(new FSRSScheduler()).due.getTime());
+    });
+  });
+
+  // ==========================================================================
+  // Errors
+  // ==========================================================================
+  describe('errors', () => {
+    it('should reject unsupported file types', async () => {
+      const err = await captureImportError(() => service.preview('notes.docx', TEXT_EXPORT));
+      expect(err.type).toBe('unsupported_format');
+    });
+
+    it('should reject packages without a collection', async () => {
+      const zip = createTestZip({ 'readme.txt': new TextEncoder().encode('not a deck') });
+      const err = await captureImportError(() => service.preview('deck.apkg', zip));
+      expect(err.type).toBe('invalid_file');
+    });
+
+    it('should reject files that are not zip archives', async () => {
+      const err = await captureImportError(() => service.preview('deck.apkg', TEXT_EXPORT));
+      expect(err.type).toBe('invalid_file');
+    });
+
+    it('should reject exports with nothing to import', async () => {
+      const empty = new TextEncoder().encode('#separator:tab\n\t\n');
+      const err = await captureImportError(() => service.preview('empty.txt', empty));
+      expect(err.type).toBe('no_notes');
+    });
+
+    it('should reject a new set name that is already taken', async () => {
+      await createTestRecallSet(ctx.repos, { name: 'Cell Biology' });
+      const err = await captureImportError(() => service.import('cell-biology.txt', TEXT_EXPORT));
+      expect(err.type).toBe('name_taken');
+    });
+
+    it('should reject an unknown target recall set', async () => {
+      const err = await captureImportError(() =>
+        service.import('cell-biology.txt', TEXT_EXPORT, { recallSetId: 'rs_missing' })
+      );
+      expect(err.type).toBe('recall_set_not_found');
+      expect(await ctx.repos.recallPointRepo.findAll()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Integration Tests: Daily Review Sessions
+ *
+ * A daily review is one session over the most urgent due points of every
+ * active recall set. Tests run the real SessionEngine against an in-memory
+ * database, with a mocked tutor and evaluator:
+ *
+ * - The session has no recall set and draws on active sets only
+ * - Each point is tutored with its own set's discussion prompt
+ * - Outcomes are recorded per point and count toward each set's analytics
+ * - An unfinished daily review is resumed rather than started again
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import {
+  createTestRecallSet,
+  createTestRecallPoint,
+  createTestSessionEngine,
+  createTestTutor,
+  daysAgo,
+} from '../helpers';
+import type { RecallSet } from '../../src/core/models';
+import type { ScriptedLLMProvider } from '../../src/llm';
+
+describe('Daily review sessions', () => {
+  let ctx: TestContext;
+  let tutor: ScriptedLLMProvider;
+  let biology: RecallSet;
+  let history: RecallSet;
+  let paused: RecallSet;
+
+  /** Creates an engine that records metrics and outcomes. */
+  const createEngine = () => createTestSessionEngine(ctx, { llmClient: tutor });
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    tutor = createTestTutor();
+
+    biology = await createTestRecallSet(ctx.repos, {
+      name: 'Biology',
+      discussionSystemPrompt: 'Discuss cellular biology.',
+    });
+    history = await createTestRecallSet(ctx.repos, {
+      name: 'History',
+      discussionSystemPrompt: 'Discuss modern history.',
+    });
+    paused = await createTestRecallSet(ctx.repos, { name: 'Paused', status: 'paused' });
+
+    await createTestRecallPoint(ctx.repos, {
+      id: 'rp_biology',
+      recallSetId: biology.id,
+      fsrsState: { due: daysAgo(2) },
+    });
+    await createTestRecallPoint(ctx.repos, {
+      id: 'rp_history',
+      recallSetId: history.id,
+      fsrsState: { due: daysAgo(1) },
+    });
+    await createTestRecallPoint(ctx.repos, { id: 'rp_paused', recallSetId: paused.id });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  it('should draw on the due points of active recall sets only', async () => {
+    const engine = createEngine();
+
+    const session = await engine.startDailyReview(await ctx.repos.recallSetRepo.findAll());
+
+    expect(session.recallSetId).toBeNull();
+    expect([...session.targetRecallPointIds].sort()).toEqual(['rp_biology', 'rp_history']);
+  });
+
+  it("should tutor each point with its own set's prompt and attribute outcomes to its set", async () => {
+    const engine = createEngine();
+    const session = await engine.startDailyReview(await ctx.repos.recallSetRepo.findAll());
+    const [firstId] = session.targetRecallPointIds;
+    const [firstSet, secondSet] = firstId === 'rp_biology' ? [biology, history] : [history, biology];
+
+    // First point
+    await engine.getOpeningMessage();
+    expect(tutor.getCalls().at(-1)!.systemPrompt).toContain(firstSet.discussionSystemPrompt);
+    expect(tutor.getCalls().at(-1)!.systemPrompt).not.toContain(secondSet.discussionSystemPrompt);
+
+    // Second point
+    const transition = await engine.triggerEvaluation();
+    expect(transition.pointAdvanced).toBe(true);
+    await engine.processUserMessage('Let me think about that.');
+    expect(tutor.getCalls().at(-1)!.systemPrompt).toContain(secondSet.discussionSystemPrompt);
+
+    const completion = await engine.triggerEvaluation();
+    expect(completion.completed).toBe(true);
+
+    // Both points' outcomes were recorded in this session
+    const outcomes = await ctx.repos.outcomeRepo.findBySessionId(session.id);
+    expect(outcomes.map((o) => o.recallPointId).sort()).toEqual(['rp_biology', 'rp_history']);
+
+    // Each set's analytics count the daily review; the paused set's don't
+    for (const set of [biology, history]) {
+      const stats = await ctx.repos.metricsRepo.getAggregateStats(set.id);
+      expect(stats.totalSessions).toBe(1);
+      expect(stats.totalRecallAttempts).toBe(2);
+    }
+    expect((await ctx.repos.metricsRepo.getAggregateStats(paused.id)).totalSessions).toBe(0);
+
+    const analytics = await ctx.analyticsCalc.calculateRecallSetAnalytics(biology.id);
+    expect(analytics.pointAnalytics.map((p) => p.recallPointId)).toEqual(['rp_biology']);
+    expect(analytics.pointAnalytics[0].successRate).toBe(1);
+  });
+
+  it('should resume an unfinished daily review', async () => {
+    const recallSets = await ctx.repos.recallSetRepo.findAll();
+    const first = await createEngine().startDailyReview(recallSets);
+
+    const resumed = await createEngine().startDailyReview(recallSets);
+
+    expect(resumed.id).toBe(first.id);
+  });
+
+  it('should refuse to start when nothing is due in any active set', async () => {
+    await ctx.repos.recallSetRepo.update(biology.id, { status: 'archived' });
+    await ctx.repos.recallSetRepo.update(history.id, { status: 'archived' });
+
+    await expect(
+      createEngine().startDailyReview(await ctx.repos.recallSetRepo.findAll())
+    ).rejects.toThrow('No recall points are due for review in any active RecallSet');
+  });
+});
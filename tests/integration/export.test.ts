@@ -8,17 +8,13 @@
  * - Date range filtering
  * - Optional inclusion of messages, rabbitholes, and timings
  * - CSV escaping for special characters
+ * - Recall set content exports (Anki, Markdown, bundle) and bundle re-import
  *
  * Tests use an in-memory SQLite database with comprehensive seeded data
  * to ensure exports are accurate and properly formatted.
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
-import { drizzle } from 'drizzle-orm/bun-sqlite';
-import { migrate } from 'drizzle-orm/bun-sqlite/migrator';
-import { Database } from 'bun:sqlite';
-import { resolve } from 'path';
-import * as schema from '../../src/storage/schema';
 import {
   RecallSetRepository,
   RecallPointRepository,
@@ -31,21 +27,11 @@ import { RabbitholeEventRepository } from '../../src/storage/repositories/rabbit
 import { AnalyticsCalculator } from '../../src/core/analytics/analytics-calculator';
 import { ExportService } from '../../src/core/export/export-service';
 import { FSRSScheduler } from '../../src/core/fsrs';
+import { BundleImportService, ImportError } from '../../src/core/import';
 import type { ExportOptions, SessionExport, RecallSetExport } from '../../src/core/export/types';
 import type { RecallSet, RecallPoint, Session, SessionMessage } from '../../src/core/models';
 import type { AppDatabase } from '../../src/storage/db';
-
-/**
- * Creates an in-memory database with migrations applied.
- */
-function createTestDatabase(): { db: AppDatabase; sqlite: Database } {
-  const sqlite = new Database(':memory:');
-  sqlite.run('PRAGMA foreign_keys = ON');
-  const db = drizzle(sqlite, { schema });
-  const migrationsFolder = resolve(import.meta.dir, '../../drizzle');
-  migrate(db, { migrationsFolder });
-  return { db, sqlite };
-}
+import { createTestDatabase, type TestDatabaseContext } from '../setup';
 
 /**
  * Creates a date by subtracting days from now.
@@ -318,7 +304,7 @@ async function seedExportTestData(
 
 describe('Export Service', () => {
   let db: AppDatabase;
-  let sqlite: Database;
+  let testDb: TestDatabaseContext;
   let recallSetRepo: RecallSetRepository;
   let recallPointRepo: RecallPointRepository;
   let sessionRepo: SessionRepository;
@@ -338,9 +324,8 @@ describe('Export Service', () => {
 
   beforeEach(async () => {
     // Create fresh database
-    const testDb = createTestDatabase();
+    testDb = await createTestDatabase();
     db = testDb.db;
-    sqlite = testDb.sqlite;
 
     // Initialize repositories
     recallSetRepo = new RecallSetRepository(db);
@@ -368,7 +353,8 @@ describe('Export Service', () => {
       metricsRepo,
       outcomeRepo,
       rabbitholeRepo,
-      analyticsCalc
+      analyticsCalc,
+      recallPointRepo
     );
 
     // Seed test data
@@ -389,9 +375,9 @@ describe('Export Service', () => {
     testMessages = seedData.messages;
   });
 
-  afterEach(() => {
-    if (sqlite) {
-      sqlite.close();
+  afterEach(async () => {
+    if (testDb) {
+      await testDb.close();
     }
   });
 
@@ -737,6 +723,149 @@ describe('Export Service', () => {
     });
   });
 
+  describe('exportRecallSetContent', () => {
+    it('should export Anki notes with headers and escaped fields', async () => {
+      // Arrange: A point with HTML-sensitive characters, a tab, and a newline
+      await recallPointRepo.update('rp_export_3', {
+        content: 'Use <b> & <i>\tfor emphasis',
+        context: 'Line one\nLine two',
+      });
+
+      // Act
+      const tsv = await exportService.exportRecallSetContent('rs_export_test', 'anki');
+
+      // Assert: Headers tell Anki how to read the file
+      const lines = tsv.trimEnd().split('\n');
+      expect(lines.slice(0, 5)).toEqual([
+        '#separator:tab',
+        '#html:true',
+        '#notetype:Basic',
+        '#deck:Export Test Set',
+        '#columns:Front\tBack',
+      ]);
+      expect(lines).toHaveLength(8);
+      expect(lines[5]).toBe('Test content 1 with "special, characters"\tContext 1');
+      expect(lines[7]).toBe('Use &lt;b&gt; &amp; &lt;i&gt; for emphasis\tLine one<br>Line two');
+    });
+
+    it('should export Markdown with one heading per point', async () => {
+      // Act
+      const markdown = await exportService.exportRecallSetContent('rs_export_test', 'markdown');
+
+      // Assert
+      expect(markdown.startsWith('# Export Test Set\n\nTest set for "export" functionality')).toBe(true);
+      expect(markdown).toContain('## Test content 1 with "special, characters"\n\nContext 1');
+      expect(markdown.match(/^## /gm)).toHaveLength(3);
+    });
+
+    it('should export a bundle with FSRS state and recall history', async () => {
+      // Arrange: Give one point some history
+      await recallPointRepo.addRecallAttempt('rp_export_1', {
+        timestamp: daysAgo(1),
+        success: true,
+        latencyMs: 4200,
+      });
+
+      // Act
+      const bundle = JSON.parse(
+        await exportService.exportRecallSetContent('rs_export_test', 'bundle')
+      );
+
+      // Assert
+      expect(bundle.format).toBe('contextual-clarity.recall-set');
+      expect(bundle.version).toBe(1);
+      expect(bundle.recallSet).toEqual({
+        name: 'Export Test Set',
+        description: 'Test set for "export" functionality, with commas, and quotes',
+        discussionSystemPrompt: 'Help the user learn about testing.',
+      });
+      expect(bundle.recallPoints).toHaveLength(3);
+      expect(bundle.recallPoints[0].id).toBeUndefined();
+      expect(bundle.recallPoints[0].fsrsState.state).toBe('new');
+      expect(bundle.recallPoints[0].recallHistory).toHaveLength(1);
+      expect(bundle.recallPoints[0].recallHistory[0].latencyMs).toBe(4200);
+    });
+
+    it('should throw error for non-existent recall set', async () => {
+      await expect(
+        exportService.exportRecallSetContent('rs_nonexistent', 'markdown')
+      ).rejects.toThrow("RecallSet with id 'rs_nonexistent' not found");
+    });
+  });
+
+  describe('bundle round trip', () => {
+    let importService: BundleImportService;
+
+    beforeEach(() => {
+      importService = new BundleImportService({ recallSetRepo, recallPointRepo });
+    });
+
+    it('should recreate the set with scheduling state intact', async () => {
+      // Arrange: Move a point along its schedule and record an attempt
+      const reviewed = scheduler.schedule(testRecallPoints[1].fsrsState, 'good', daysAgo(3));
+      await recallPointRepo.updateFSRSState('rp_export_2', reviewed);
+      await recallPointRepo.addRecallAttempt('rp_export_2', {
+        timestamp: daysAgo(3),
+        success: true,
+        latencyMs: 3000,
+      });
+      const bundle = await exportService.exportRecallSetContent('rs_export_test', 'bundle');
+
+      // Act
+      const result = await importService.import(bundle, { name: 'Restored Set' });
+
+      // Assert
+      expect(result.createdRecallSet).toBe(true);
+      expect(result.recallSet.name).toBe('Restored Set');
+      expect(result.recallSet.discussionSystemPrompt).toBe('Help the user learn about testing.');
+
+      const restored = await recallPointRepo.findByRecallSetId(result.recallSet.id);
+      expect(restored).toHaveLength(3);
+      const point = restored.find((p) => p.content.startsWith('Test content 2'))!;
+      expect(point.id).not.toBe('rp_export_2');
+      expect(point.fsrsState.state).toBe(reviewed.state);
+      expect(point.fsrsState.stability).toBeCloseTo(reviewed.stability, 10);
+      expect(point.fsrsState.due.getTime()).toBe(reviewed.due.getTime());
+      expect(point.fsrsState.lastReview?.getTime()).toBe(reviewed.lastReview?.getTime());
+      expect(point.recallHistory).toHaveLength(1);
+      expect(point.recallHistory[0].latencyMs).toBe(3000);
+    });
+
+    it('should skip points the target set already has', async () => {
+      // Arrange
+      const bundle = await exportService.exportRecallSetContent('rs_export_test', 'bundle');
+
+      // Act: Preview importing the set's own bundle back into it
+      const err = await importService
+        .preview(bundle, { recallSetId: 'rs_export_test' })
+        .catch((e: unknown) => e);
+
+      // Assert: Every point is a duplicate, so there is nothing to import
+      expect(err).toBeInstanceOf(ImportError);
+      expect((err as ImportError).type).toBe('no_notes');
+    });
+
+    it('should reject invalid bundles', async () => {
+      const invalid = [
+        'not json',
+        JSON.stringify({ format: 'something-else', version: 1 }),
+        JSON.stringify({
+          format: 'contextual-clarity.recall-set',
+          version: 99,
+          exportedAt: new Date().toISOString(),
+          recallSet: { name: 'Future', description: '', discussionSystemPrompt: 'Prompt' },
+          recallPoints: [],
+        }),
+      ];
+
+      for (const input of invalid) {
+        const err = await importService.preview(input).catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(ImportError);
+        expect((err as ImportError).type).toBe('invalid_file');
+      }
+    });
+  });
+
   describe('CSV escaping', () => {
     it('should escape commas and quotes', async () => {
       // Arrange: Export session 2 which has content with special characters
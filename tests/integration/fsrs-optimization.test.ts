@@ -0,0 +1,206 @@
+/**
+ * FSRS Optimization Integration Tests
+ *
+ * Tests fitting FSRS weights to review history stored in recall_outcomes,
+ * and how the fitted weights are stored and looked up:
+ * - report() fits without storing; optimize() stores
+ * - Recall set weights override user-wide weights, which override defaults
+ * - Weights are kept apart per user
+ * - Too little history is rejected
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import { createTestRecallSet, createTestReviewHistory } from '../helpers';
+import {
+  FSRSOptimizationService,
+  FSRSOptimizationError,
+  DEFAULT_FSRS_WEIGHTS,
+  MIN_REVIEWS_FOR_FIT,
+} from '../../src/core/fsrs';
+import {
+  RecallSetRepository,
+  FSRSParametersRepository,
+  UserRepository,
+} from '../../src/storage/repositories';
+
+describe('FSRS optimization', () => {
+  let ctx: TestContext;
+  let service: FSRSOptimizationService;
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    service = new FSRSOptimizationService({
+      recallSetRepo: ctx.repos.recallSetRepo,
+      recallPointRepo: ctx.repos.recallPointRepo,
+      outcomeRepo: ctx.repos.outcomeRepo,
+      parametersRepo: ctx.repos.fsrsParametersRepo,
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  describe('report', () => {
+    it('should compare the current and fitted weights without storing them', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      const { outcomeCount } = await createTestReviewHistory(ctx.repos, { recallSetId: set.id });
+
+      // Act
+      const report = await service.report(set.id);
+
+      // Assert
+      expect(report.recallSetId).toBe(set.id);
+      expect(report.pointCount).toBe(12);
+      expect(report.outcomeCount).toBe(outcomeCount);
+      expect(report.current.source).toBe('default');
+      expect(report.current.retention.reviews).toBe(60);
+      expect(report.fitted.retention.logLoss).toBeLessThan(report.current.retention.logLoss);
+      expect(await ctx.repos.fsrsParametersRepo.findByScope(set.id)).toBeNull();
+    });
+
+    it('should reject a history with too few predictable reviews', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      await createTestReviewHistory(ctx.repos, { recallSetId: set.id, points: 2 });
+
+      // Act & Assert
+      const err = await service.report(set.id).catch((e) => e);
+      expect(err).toBeInstanceOf(FSRSOptimizationError);
+      expect(err.type).toBe('insufficient_history');
+      expect(err.message).toContain(String(MIN_REVIEWS_FOR_FIT));
+    });
+
+    it('should reject an unknown recall set', async () => {
+      const err = await service.report('rs_missing').catch((e) => e);
+      expect(err).toBeInstanceOf(FSRSOptimizationError);
+      expect(err.type).toBe('recall_set_not_found');
+    });
+  });
+
+  describe('optimize', () => {
+    it('should store the fitted weights for the recall set', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      await createTestReviewHistory(ctx.repos, { recallSetId: set.id });
+
+      // Act
+      const { report, parameters } = await service.optimize(set.id);
+
+      // Assert
+      expect(parameters.recallSetId).toBe(set.id);
+      expect(parameters.weights).toEqual(report.fitted.weights);
+      expect(parameters.reviewCount).toBe(60);
+      expect(parameters.logLossAfter).toBeLessThan(parameters.logLossBefore);
+
+      const effective = await service.getWeights(set.id);
+      expect(effective.source).toBe('recall_set');
+      expect(effective.weights).toEqual(report.fitted.weights);
+    });
+
+    it('should replace previously fitted weights rather than add a row', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      await createTestReviewHistory(ctx.repos, { recallSetId: set.id });
+      const first = await service.optimize(set.id);
+
+      // Act
+      const second = await service.optimize(set.id);
+
+      // Assert
+      expect(second.report.current.source).toBe('recall_set');
+      expect(second.parameters.id).toBe(first.parameters.id);
+    });
+
+    it('should fit user-wide weights across all recall sets', async () => {
+      // Arrange
+      const setA = await createTestRecallSet(ctx.repos, { name: 'Set A' });
+      const setB = await createTestRecallSet(ctx.repos, { name: 'Set B' });
+      await createTestReviewHistory(ctx.repos, { recallSetId: setA.id, points: 6 });
+      await createTestReviewHistory(ctx.repos, { recallSetId: setB.id, points: 6 });
+
+      // Act
+      const { report, parameters } = await service.optimize();
+
+      // Assert
+      expect(report.recallSetId).toBeNull();
+      expect(report.pointCount).toBe(12);
+      expect(parameters.recallSetId).toBeNull();
+      expect((await service.getWeights(setA.id)).source).toBe('user');
+      expect((await service.getWeights(setB.id)).weights).toEqual(parameters.weights);
+    });
+  });
+
+  describe('reset', () => {
+    it('should fall back from set weights to user-wide weights to defaults', async () => {
+      // Arrange
+      const set = await createTestRecallSet(ctx.repos);
+      await createTestReviewHistory(ctx.repos, { recallSetId: set.id });
+      await service.optimize();
+      await service.optimize(set.id);
+
+      // Act & Assert
+      expect(await service.reset(set.id)).toBe(true);
+      expect((await service.getWeights(set.id)).source).toBe('user');
+
+      expect(await service.reset()).toBe(true);
+      const effective = await service.getWeights(set.id);
+      expect(effective.source).toBe('default');
+      expect(effective.weights).toEqual([...DEFAULT_FSRS_WEIGHTS]);
+
+      expect(await service.reset()).toBe(false);
+    });
+  });
+
+  describe('per-user weights', () => {
+    it('should keep user-wide weights apart and apply the owner\'s to their sets', async () => {
+      // Arrange
+      const userRepo = new UserRepository(ctx.db);
+      const createUser = (email: string) =>
+        userRepo.create({ id: `usr_${crypto.randomUUID()}`, email, name: email, passwordHash: 'unused' });
+      const ada = await createUser('ada@example.com');
+      const bob = await createUser('bob@example.com');
+
+      const adaSets = new RecallSetRepository(ctx.db, ada.id);
+      const set = await adaSets.create({
+        id: `rs_${crypto.randomUUID()}`,
+        name: 'Ada Set',
+        description: 'Ada only',
+        discussionSystemPrompt: 'Discuss.',
+      });
+      await createTestReviewHistory(ctx.repos, { recallSetId: set.id });
+
+      const adaService = new FSRSOptimizationService({
+        recallSetRepo: adaSets,
+        recallPointRepo: ctx.repos.recallPointRepo,
+        outcomeRepo: ctx.repos.outcomeRepo,
+        parametersRepo: new FSRSParametersRepository(ctx.db, ada.id),
+      });
+      const bobService = new FSRSOptimizationService({
+        recallSetRepo: new RecallSetRepository(ctx.db, bob.id),
+        recallPointRepo: ctx.repos.recallPointRepo,
+        outcomeRepo: ctx.repos.outcomeRepo,
+        parametersRepo: new FSRSParametersRepository(ctx.db, bob.id),
+      });
+
+      // Act
+      const { parameters } = await adaService.optimize();
+
+      // Assert
+      expect((await bobService.getWeights()).source).toBe('default');
+      expect((await bobService.report().catch((e) => e)).type).toBe('insufficient_history');
+      expect((await bobService.getWeights(set.id).catch((e) => e)).type).toBe('recall_set_not_found');
+
+      // The session engine's unscoped repository finds the owner's weights
+      const forSet = await ctx.repos.fsrsParametersRepo.findForRecallSet(set.id);
+      expect(forSet?.id).toBe(parameters.id);
+      expect(await ctx.repos.fsrsParametersRepo.findByScope(null)).toBeNull();
+    });
+  });
+});
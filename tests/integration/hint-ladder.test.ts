@@ -0,0 +1,178 @@
+/**
+ * Integration Tests: Hint Ladder
+ *
+ * A learner stuck on a recall point can ask for hints, each revealing more
+ * of the point's context, or simply say they don't know. Tests run the real
+ * SessionEngine against an in-memory database, with a mocked tutor and
+ * evaluator:
+ *
+ * - Hints climb the ladder until it is used up
+ * - "I don't know" gets the next hint, and evaluates once none are left
+ * - A hedged answer ("I don't know exactly, but...") is no "I don't know"
+ * - Hints taken cap the rating, including the learner's override
+ * - The hints taken are kept on the recall outcome
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import {
+  createTestRecallSet,
+  createTestRecallPoint,
+  createTestSessionEngine,
+  createTestTutor,
+  daysAgo,
+} from '../helpers';
+import type { RatingProposal } from '../../src/core/session';
+import type { RecallSet, RecallPoint } from '../../src/core/models';
+import type { RecallRating } from '../../src/core/fsrs';
+import type { ScriptedLLMProvider } from '../../src/llm';
+
+describe('Hint ladder', () => {
+  let ctx: TestContext;
+  let recallSet: RecallSet;
+  let point: RecallPoint;
+  let tutor: ScriptedLLMProvider;
+
+  /** Creates an engine that records metrics and outcomes. */
+  const createEngine = () => createTestSessionEngine(ctx, { llmClient: tutor });
+
+  /** The final user turn of the tutor's latest request */
+  const lastInstruction = (): string => {
+    const { messages } = tutor.getCalls().at(-1)!;
+    return messages[messages.length - 1].content;
+  };
+
+  /**
+   * Runs a one-point session taking `hints` hints before evaluating, and
+   * answering the rating prompt with `answer`.
+   */
+  const runSession = async (hints: number, answer: RecallRating | null = null) => {
+    const engine = createEngine();
+    const proposals: RatingProposal[] = [];
+    engine.setRatingOverrideHandler(async (proposal) => {
+      proposals.push(proposal);
+      return answer;
+    });
+
+    const session = await engine.startSession(recallSet);
+    await engine.getOpeningMessage();
+    for (let i = 0; i < hints; i++) {
+      await engine.requestHint();
+    }
+    await engine.triggerEvaluation();
+
+    const [outcome] = await ctx.repos.outcomeRepo.findBySessionId(session.id);
+    return { proposals, outcome };
+  };
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    tutor = createTestTutor();
+    recallSet = await createTestRecallSet(ctx.repos);
+    point = await createTestRecallPoint(ctx.repos, {
+      recallSetId: recallSet.id,
+      context: 'The treaty ended the First World War. Germany accepted responsibility. Reparations followed.',
+      fsrsState: { state: 'review', stability: 10, reps: 3, lastReview: daysAgo(10), due: daysAgo(1) },
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  it('should reveal more of the context with each hint until the ladder is used up', async () => {
+    const engine = createEngine();
+    await engine.startSession(recallSet);
+    await engine.getOpeningMessage();
+
+    const first = await engine.requestHint();
+    expect(first).toMatchObject({ pointId: point.id, level: 1, hintsRemaining: 2 });
+    expect(lastInstruction()).toContain('This is hint 1 of 3');
+    expect(lastInstruction()).not.toContain('<hint_material>');
+
+    const second = await engine.requestHint();
+    expect(second).toMatchObject({ level: 2, hintsRemaining: 1 });
+    expect(lastInstruction()).toContain('The treaty ended the First World War.');
+    expect(lastInstruction()).not.toContain('Reparations followed.');
+
+    const third = await engine.requestHint();
+    expect(third).toMatchObject({ level: 3, hintsRemaining: 0 });
+    expect(lastInstruction()).toContain('Reparations followed.');
+
+    expect(await engine.requestHint()).toBeNull();
+  });
+
+  it("should give a hint when the learner says they don't know", async () => {
+    const engine = createEngine();
+    await engine.startSession(recallSet);
+    await engine.getOpeningMessage();
+
+    const result = await engine.processUserMessage('I don’t know...');
+
+    expect(result.pointAdvanced).toBe(false);
+    expect(result.hint).toMatchObject({ pointId: point.id, level: 1, hintsRemaining: 2 });
+    expect(result.response).toBe(result.hint!.hint);
+  });
+
+  it("should evaluate once the learner still doesn't know after the last hint", async () => {
+    const engine = createEngine();
+    const session = await engine.startSession(recallSet);
+    await engine.getOpeningMessage();
+
+    for (let i = 0; i < 3; i++) {
+      const result = await engine.processUserMessage('No idea');
+      expect(result.hint?.level).toBe(i + 1);
+    }
+    const result = await engine.processUserMessage('No idea!');
+
+    expect(result.hint).toBeUndefined();
+    expect(result.completed).toBe(true);
+    const [outcome] = await ctx.repos.outcomeRepo.findBySessionId(session.id);
+    expect(outcome).toMatchObject({ hintsUsed: 3, aiRating: 'hard' });
+  });
+
+  it.each([
+    "I don't know exactly, but it's 36 ATP",
+    'I had no idea that it also ended the war, but it was signed in 1919',
+  ])('should neither hint nor cap a hedged answer: %s', async (answer) => {
+    const engine = createEngine();
+    const session = await engine.startSession(recallSet);
+    await engine.getOpeningMessage();
+
+    const result = await engine.processUserMessage(answer);
+    await engine.triggerEvaluation();
+
+    expect(result.hint).toBeUndefined();
+    const [outcome] = await ctx.repos.outcomeRepo.findBySessionId(session.id);
+    expect(outcome).toMatchObject({ hintsUsed: 0, rating: 'easy' });
+  });
+
+  it('should keep the rating without hints', async () => {
+    const { outcome } = await runSession(0);
+
+    expect(outcome).toMatchObject({ hintsUsed: 0, rating: 'easy' });
+  });
+
+  it('should rate at best good after one hint', async () => {
+    const { outcome } = await runSession(1);
+
+    expect(outcome).toMatchObject({ hintsUsed: 1, rating: 'good' });
+  });
+
+  it('should rate at best hard after two hints', async () => {
+    const { proposals, outcome } = await runSession(2);
+
+    expect(proposals[0]).toMatchObject({ hintsUsed: 2, rating: 'hard' });
+    expect(outcome).toMatchObject({ hintsUsed: 2, rating: 'hard', aiRating: 'hard' });
+  });
+
+  it("should hold the learner's override to the same cap", async () => {
+    const { outcome } = await runSession(3, 'easy');
+
+    expect(outcome).toMatchObject({ hintsUsed: 3, rating: 'hard', aiRating: 'hard', learnerRating: 'hard' });
+  });
+});
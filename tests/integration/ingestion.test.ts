@@ -0,0 +1,302 @@
+/**
+ * Integration Test: Ingestion Jobs
+ *
+ * Drives the IngestionService end to end against an in-memory database and a
+ * ScriptedLLMProvider:
+ *
+ * - Extraction from pasted text and from markdown files
+ * - Failed extractions are kept and can be retried
+ * - Approve / edit / merge / reject decisions persist on the job
+ * - Finalizing creates a RecallSet with a generated discussion prompt and
+ *   new FSRS recall points for accepted candidates only
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import { createTestRecallSet } from '../helpers';
+import { IngestionService } from '../../src/core/ingestion';
+import { ScriptedLLMProvider, type ScriptedResponse } from '../../src/llm/scripted-provider';
+import {
+  IngestionSourceRepository,
+  IngestionJobRepository,
+} from '../../src/storage/repositories';
+
+const EXTRACTION_RESPONSE = JSON.stringify({
+  suggestedName: 'Mitochondria Basics',
+  suggestedDescription: 'How cells produce ATP.',
+  points: [
+    {
+      content: 'Mitochondria produce most of the cell’s ATP through oxidative phosphorylation.',
+      context: 'Links cellular respiration to energy use.',
+      sourceQuote: 'the powerhouse of the cell',
+    },
+    {
+      content: 'The electron transport chain pumps protons across the inner membrane.',
+      context: 'The proton gradient drives ATP synthase.',
+      sourceQuote: null,
+    },
+    {
+      content: 'Mitochondria have their own DNA.',
+      context: 'Evidence for endosymbiotic origin.',
+      sourceQuote: null,
+    },
+  ],
+});
+
+const DISCUSSION_PROMPT =
+  'You are a cell biologist who guides learners through energy metabolism with everyday analogies.';
+
+const SOURCE_TEXT =
+  'Mitochondria are the powerhouse of the cell. They generate ATP through oxidative phosphorylation.';
+
+/** Standard script: one extraction followed by one prompt generation */
+function extractionResponses(): ScriptedResponse[] {
+  return [
+    { match: { promptIncludes: 'distilling learning material' }, text: EXTRACTION_RESPONSE },
+    { match: { promptIncludes: 'persona and teaching-style' }, text: DISCUSSION_PROMPT },
+  ];
+}
+
+describe('IngestionService', () => {
+  let ctx: TestContext;
+  let provider: ScriptedLLMProvider;
+  let service: IngestionService;
+  let jobRepo: IngestionJobRepository;
+
+  function createService(responses: ScriptedResponse[]): void {
+    provider = new ScriptedLLMProvider({ responses });
+    service = new IngestionService({
+      llmClient: provider,
+      scheduler: ctx.scheduler,
+      sourceRepo: new IngestionSourceRepository(ctx.db),
+      jobRepo,
+      recallSetRepo: ctx.repos.recallSetRepo,
+      recallPointRepo: ctx.repos.recallPointRepo,
+    });
+  }
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    jobRepo = new IngestionJobRepository(ctx.db);
+    createService(extractionResponses());
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  describe('extraction', () => {
+    it('should extract pending candidates and suggestions from pasted text', async () => {
+      const job = await service.ingestText(SOURCE_TEXT, 'Lecture 3');
+
+      expect(job.id).toMatch(/^ing_/);
+      expect(job.status).toBe('reviewing');
+      expect(job.suggestedName).toBe('Mitochondria Basics');
+      expect(job.suggestedDescription).toBe('How cells produce ATP.');
+      expect(job.candidates).toHaveLength(3);
+      expect(job.candidates.every((c) => c.status === 'pending')).toBe(true);
+      expect(job.candidates[0].id).toMatch(/^cand_/);
+      expect(job.candidates[0].sourceQuote).toBe('the powerhouse of the cell');
+
+      const source = await service.getJobSource(job.id);
+      expect(source.type).toBe('text');
+      expect(source.name).toBe('Lecture 3');
+      expect(source.content).toBe(SOURCE_TEXT);
+
+      // The source text reaches the extraction prompt
+      expect(provider.getCalls()[0].messages[0].content).toContain('powerhouse of the cell');
+    });
+
+    it('should ingest a markdown file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'ingest-'));
+      try {
+        const filePath = join(dir, 'mitochondria.md');
+        writeFileSync(filePath, `# Mitochondria\n\n${SOURCE_TEXT}\n`);
+
+        const job = await service.ingestFile(filePath);
+        const source = await service.getJobSource(job.id);
+
+        expect(job.status).toBe('reviewing');
+        expect(source.type).toBe('file');
+        expect(source.name).toBe(filePath);
+        expect(source.content).toContain('# Mitochondria');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject unsupported file types', async () => {
+      await expect(service.ingestFile('slides.pdf')).rejects.toThrow('Unsupported file type');
+      expect(await jobRepo.findAll()).toHaveLength(0);
+    });
+
+    it('should reject empty source material', async () => {
+      await expect(service.ingestText('   ')).rejects.toThrow('Source material is empty');
+    });
+
+    it('should keep a failed job and allow it to be retried', async () => {
+      createService([
+        { text: 'I could not find anything worth remembering.' },
+        { text: EXTRACTION_RESPONSE },
+      ]);
+
+      await expect(service.ingestText(SOURCE_TEXT)).rejects.toThrow('Extraction failed');
+
+      const [failed] = await service.listResumableJobs();
+      expect(failed.status).toBe('failed');
+      expect(failed.error).toContain('did not return any recall point candidates');
+
+      const retried = await service.extractCandidates(failed.id);
+      expect(retried.status).toBe('reviewing');
+      expect(retried.error).toBeNull();
+      expect(retried.candidates).toHaveLength(3);
+    });
+  });
+
+  describe('review', () => {
+    it('should persist approve, edit and reject decisions', async () => {
+      const job = await service.ingestText(SOURCE_TEXT);
+      const [first, second, third] = job.candidates;
+
+      await service.approveCandidate(job.id, first.id);
+      await service.editCandidate(job.id, second.id, {
+        content: '  The ETC builds a proton gradient across the inner membrane.  ',
+      });
+      await service.rejectCandidate(job.id, third.id);
+
+      const reloaded = await service.getJob(job.id);
+      expect(reloaded.candidates.map((c) => c.status)).toEqual([
+        'approved',
+        'edited',
+        'rejected',
+      ]);
+      expect(reloaded.candidates[1].content).toBe(
+        'The ETC builds a proton gradient across the inner membrane.'
+      );
+      // Context is preserved when only content is edited
+      expect(reloaded.candidates[1].context).toBe('The proton gradient drives ATP synthase.');
+    });
+
+    it('should merge candidates into the first one', async () => {
+      const job = await service.ingestText(SOURCE_TEXT);
+      const [first, second, third] = job.candidates;
+
+      const merged = await service.mergeCandidates(job.id, [second.id, third.id]);
+
+      expect(merged.candidates.map((c) => c.id)).toEqual([first.id, second.id]);
+      expect(merged.candidates[1].status).toBe('edited');
+      expect(merged.candidates[1].content).toBe(
+        'The electron transport chain pumps protons across the inner membrane. Mitochondria have their own DNA.'
+      );
+      expect(merged.candidates[1].context).toBe(
+        'The proton gradient drives ATP synthase. Evidence for endosymbiotic origin.'
+      );
+
+      const replaced = await service.mergeCandidates(job.id, [first.id, second.id], {
+        content: 'Mitochondria make ATP using a proton gradient.',
+      });
+      expect(replaced.candidates).toHaveLength(1);
+      expect(replaced.candidates[0].content).toBe('Mitochondria make ATP using a proton gradient.');
+      expect(replaced.candidates[0].sourceQuote).toBe('the powerhouse of the cell');
+    });
+
+    it('should require two distinct candidates to merge', async () => {
+      const job = await service.ingestText(SOURCE_TEXT);
+      const id = job.candidates[0].id;
+
+      await expect(service.mergeCandidates(job.id, [id, id])).rejects.toThrow(
+        'At least two candidates'
+      );
+    });
+
+    it('should not allow an edit that empties the content', async () => {
+      const job = await service.ingestText(SOURCE_TEXT);
+
+      await expect(
+        service.editCandidate(job.id, job.candidates[0].id, { content: ' ' })
+      ).rejects.toThrow('cannot be empty');
+    });
+
+    it('should throw for unknown jobs and candidates', async () => {
+      const job = await service.ingestText(SOURCE_TEXT);
+
+      await expect(service.getJob('ing_missing')).rejects.toThrow('not found');
+      await expect(service.approveCandidate(job.id, 'cand_missing')).rejects.toThrow(
+        "Candidate 'cand_missing' not found"
+      );
+    });
+  });
+
+  describe('finalize', () => {
+    it('should create a recall set from accepted candidates only', async () => {
+      const job = await service.ingestText(SOURCE_TEXT);
+      const [first, second, third] = job.candidates;
+      await service.approveCandidate(job.id, first.id);
+      await service.editCandidate(job.id, second.id, { context: 'Chemiosmosis.' });
+      await service.rejectCandidate(job.id, third.id);
+
+      const result = await service.finalize(job.id);
+
+      expect(result.recallSet.name).toBe('Mitochondria Basics');
+      expect(result.recallSet.description).toBe('How cells produce ATP.');
+      expect(result.recallSet.discussionSystemPrompt).toBe(DISCUSSION_PROMPT);
+      expect(result.recallPoints).toHaveLength(2);
+      expect(result.recallPoints[1].context).toBe('Chemiosmosis.');
+      expect(result.recallPoints.every((p) => p.fsrsState.state === 'new')).toBe(true);
+
+      const stored = await ctx.repos.recallPointRepo.findByRecallSetId(result.recallSet.id);
+      expect(stored).toHaveLength(2);
+
+      expect(result.job.status).toBe('completed');
+      expect(result.job.recallSetId).toBe(result.recallSet.id);
+      expect(result.job.completedAt).toBeInstanceOf(Date);
+      expect(await service.listResumableJobs()).toHaveLength(0);
+    });
+
+    it('should use a supplied name and discussion prompt without calling the LLM', async () => {
+      const job = await service.ingestText(SOURCE_TEXT);
+      await service.approveCandidate(job.id, job.candidates[0].id);
+
+      const result = await service.finalize(job.id, {
+        name: 'Cell Energy',
+        discussionSystemPrompt: 'You are a patient biology tutor.',
+      });
+
+      expect(result.recallSet.name).toBe('Cell Energy');
+      expect(result.recallSet.discussionSystemPrompt).toBe('You are a patient biology tutor.');
+      expect(provider.getCalls()).toHaveLength(1);
+    });
+
+    it('should require at least one accepted candidate', async () => {
+      const job = await service.ingestText(SOURCE_TEXT);
+
+      await expect(service.finalize(job.id)).rejects.toThrow('Approve at least one candidate');
+    });
+
+    it('should refuse a name that is already taken', async () => {
+      await createTestRecallSet(ctx.repos, { name: 'Mitochondria Basics' });
+      const job = await service.ingestText(SOURCE_TEXT);
+      await service.approveCandidate(job.id, job.candidates[0].id);
+
+      await expect(service.finalize(job.id)).rejects.toThrow('already exists');
+      expect((await service.getJob(job.id)).status).toBe('reviewing');
+    });
+
+    it('should not allow changes after a job is cancelled', async () => {
+      const job = await service.ingestText(SOURCE_TEXT);
+      await service.cancel(job.id);
+
+      await expect(service.approveCandidate(job.id, job.candidates[0].id)).rejects.toThrow(
+        "cannot be reviewed in status 'cancelled'"
+      );
+      await expect(service.finalize(job.id)).rejects.toThrow('cannot be finalized');
+    });
+  });
+});
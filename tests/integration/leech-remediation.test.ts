@@ -0,0 +1,398 @@
+/**
+ * Integration Tests: Leech Remediation
+ *
+ * Points the learner keeps forgetting are flagged as leeches and listed in
+ * their recall set's remediation queue, where they can be split, rewritten,
+ * suspended or marked for a deep dive. Tests run the real
+ * LeechRemediationService and SessionEngine against an in-memory database,
+ * with a mocked LLM:
+ *
+ * - The queue flags points at the set's lapse threshold (4 by default)
+ * - Splitting adds the parts as new points and suspends the original
+ * - Rewriting starts the point's schedule over
+ * - Suspended points leave the queue and are no longer scheduled
+ * - A deep-dive session covers the marked points and clears their marks
+ * - Deep-dive reviews count as scheduled history, unlike practice
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import {
+  createTestRecallSet,
+  createTestRecallPoint,
+  createTestSession,
+  createTestSessionMetrics,
+  createTestRecallOutcome,
+  createTestReviewHistory,
+  daysAgo,
+  daysFromNow,
+  createTestSessionEngine,
+  createTestTutor,
+  SuccessfulRecallEvaluator,
+} from '../helpers';
+import { LeechRemediationService, LeechRemediationError } from '../../src/core/leeches';
+import { FSRSOptimizationService } from '../../src/core/fsrs';
+import { RecallEvaluator, ReEvaluationService } from '../../src/core/scoring';
+import { RecallSetRepository } from '../../src/storage/repositories';
+import type { RecallSet } from '../../src/core/models';
+import type { EnhancedRecallEvaluation } from '../../src/core/scoring/types';
+import type { LLMProvider, LLMResponse } from '../../src/llm/types';
+
+/**
+ * Mock LLM that proposes the scripted split and records the prompts it was given.
+ */
+class ScriptedSplitter {
+  response = JSON.stringify({
+    parts: [
+      { content: 'Protons flow back into the matrix through ATP synthase', context: 'Down their gradient.' },
+      { content: 'The proton flow rotates the c-ring of ATP synthase', context: 'The mechanical step.' },
+    ],
+  });
+  prompts: string[] = [];
+
+  async complete(prompt: string): Promise<LLMResponse> {
+    this.prompts.push(prompt);
+    return { text: this.response, usage: { inputTokens: 10, outputTokens: 10 }, stopReason: 'end_turn' };
+  }
+}
+
+describe('Leech remediation', () => {
+  let ctx: TestContext;
+  let splitter: ScriptedSplitter;
+  let service: LeechRemediationService;
+  let recallSet: RecallSet;
+
+  /** A reviewed point, due yesterday, forgotten the given number of times. */
+  const lapsedState = (lapses: number) => ({
+    state: 'review' as const,
+    stability: 10,
+    reps: lapses + 1,
+    lapses,
+    lastReview: daysAgo(3),
+    due: daysAgo(1),
+  });
+
+  /** Creates an engine with a mocked tutor and evaluator. */
+  const createEngine = (llmClient = createTestTutor()) =>
+    createTestSessionEngine(ctx, {
+      evaluator: new SuccessfulRecallEvaluator({ confidence: 0.9, suggestedRating: 'good' }),
+      llmClient,
+    });
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    splitter = new ScriptedSplitter();
+    service = new LeechRemediationService({
+      recallSetRepo: ctx.repos.recallSetRepo,
+      recallPointRepo: ctx.repos.recallPointRepo,
+      scheduler: ctx.scheduler,
+      llmClient: splitter as unknown as LLMProvider,
+    });
+    recallSet = await createTestRecallSet(ctx.repos, { name: 'Cell Biology' });
+
+    await createTestRecallPoint(ctx.repos, {
+      id: 'rp_leech',
+      recallSetId: recallSet.id,
+      content: 'ATP synthase uses the proton gradient to rotate its c-ring, driving ATP synthesis',
+      fsrsState: lapsedState(5),
+    });
+    await createTestRecallPoint(ctx.repos, {
+      id: 'rp_shaky',
+      recallSetId: recallSet.id,
+      fsrsState: lapsedState(2),
+    });
+    await createTestRecallPoint(ctx.repos, {
+      id: 'rp_fine',
+      recallSetId: recallSet.id,
+      fsrsState: { ...lapsedState(0), due: daysFromNow(10) },
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  describe('getQueue', () => {
+    it('should flag points at the default lapse threshold', async () => {
+      const queue = await service.getQueue(recallSet.id);
+
+      expect(queue.recallSetName).toBe('Cell Biology');
+      expect(queue.lapseThreshold).toBe(4);
+      expect(queue.leeches.map((leech) => leech.point.id)).toEqual(['rp_leech']);
+      expect(queue.leeches[0].reasons).toEqual(['lapses']);
+    });
+
+    it("should use the set's own lapse threshold", async () => {
+      await ctx.repos.recallSetRepo.update(recallSet.id, { leechLapseThreshold: 2 });
+
+      const queue = await service.getQueue(recallSet.id);
+
+      expect(queue.lapseThreshold).toBe(2);
+      expect(queue.leeches.map((leech) => leech.point.id)).toEqual(['rp_leech', 'rp_shaky']);
+    });
+
+    it("should report another user's recall set as not found", async () => {
+      const otherUsers = new LeechRemediationService({
+        recallSetRepo: new RecallSetRepository(ctx.db, 'usr_other'),
+        recallPointRepo: ctx.repos.recallPointRepo,
+        scheduler: ctx.scheduler,
+      });
+
+      await expect(otherUsers.getQueue(recallSet.id)).rejects.toThrow(LeechRemediationError);
+      await expect(otherUsers.suspend('rp_leech')).rejects.toMatchObject({ type: 'recall_point_not_found' });
+    });
+  });
+
+  describe('split', () => {
+    it('should propose parts from the LLM without saving anything', async () => {
+      const parts = await service.proposeSplit('rp_leech');
+
+      expect(parts).toHaveLength(2);
+      expect(splitter.prompts[0]).toContain('"Cell Biology"');
+      expect(splitter.prompts[0]).toContain('forgotten 5 times');
+      expect(await ctx.repos.recallPointRepo.findByRecallSetId(recallSet.id)).toHaveLength(3);
+    });
+
+    it('should report an unusable proposal', async () => {
+      splitter.response = 'This point is already as small as it gets.';
+
+      await expect(service.proposeSplit('rp_leech')).rejects.toMatchObject({ type: 'split_failed' });
+    });
+
+    it('should add the parts as new points and suspend the original', async () => {
+      const parts = await service.proposeSplit('rp_leech');
+
+      const { original, created } = await service.split('rp_leech', parts);
+
+      expect(original.suspendedAt).toBeInstanceOf(Date);
+      expect(original.fsrsState.lapses).toBe(5);
+      expect(created.map((point) => point.content)).toEqual(parts.map((part) => part.content));
+      for (const point of created) {
+        expect(point.recallSetId).toBe(recallSet.id);
+        expect(point.fsrsState.state).toBe('new');
+      }
+      expect((await service.getQueue(recallSet.id)).leeches).toHaveLength(0);
+    });
+
+    it('should refuse a split into fewer than two parts', async () => {
+      await expect(
+        service.split('rp_leech', [{ content: 'Only one part', context: '' }])
+      ).rejects.toMatchObject({ type: 'invalid_split' });
+    });
+
+    it('should refuse to split a point again once it has been split', async () => {
+      const parts = await service.proposeSplit('rp_leech');
+      await service.split('rp_leech', parts);
+
+      await expect(service.split('rp_leech', parts)).rejects.toMatchObject({ type: 'point_suspended' });
+      expect(await ctx.repos.recallPointRepo.findByRecallSetId(recallSet.id)).toHaveLength(5);
+    });
+  });
+
+  describe('rewrite', () => {
+    it("should replace the point's wording and start its schedule over", async () => {
+      const rewritten = await service.rewrite('rp_leech', {
+        content: 'The proton gradient turns the rotor of ATP synthase',
+      });
+
+      expect(rewritten.content).toBe('The proton gradient turns the rotor of ATP synthase');
+      expect(rewritten.fsrsState.state).toBe('new');
+      expect(rewritten.fsrsState.lapses).toBe(0);
+      expect((await service.getQueue(recallSet.id)).leeches).toHaveLength(0);
+    });
+
+    it('should refuse a rewrite without changes', async () => {
+      await expect(service.rewrite('rp_leech', {})).rejects.toMatchObject({ type: 'invalid_rewrite' });
+    });
+  });
+
+  describe('suspend', () => {
+    it('should take the point out of the queue and out of reviews', async () => {
+      await service.suspend('rp_leech');
+
+      expect((await service.getQueue(recallSet.id)).leeches).toHaveLength(0);
+      const due = await ctx.repos.recallPointRepo.findDuePoints(recallSet.id);
+      expect(due.map((point) => point.id)).toEqual(['rp_shaky']);
+
+      const session = await createEngine().startSession(recallSet);
+      expect(session.targetRecallPointIds).toEqual(['rp_shaky']);
+    });
+
+    it('should put the point back with the schedule it had', async () => {
+      await service.suspend('rp_leech');
+      const unsuspended = await service.unsuspend('rp_leech');
+
+      expect(unsuspended.suspendedAt).toBeNull();
+      expect(unsuspended.fsrsState.lapses).toBe(5);
+      expect((await service.getQueue(recallSet.id)).leeches).toHaveLength(1);
+    });
+  });
+
+  describe('deep dive', () => {
+    it('should refuse to mark a suspended point', async () => {
+      await service.suspend('rp_leech');
+
+      await expect(service.requestDeepDive('rp_leech')).rejects.toMatchObject({ type: 'point_suspended' });
+    });
+
+    it('should refuse a deep dive without marked points', async () => {
+      await expect(createEngine().startSession(recallSet, { mode: 'deep-dive' })).rejects.toThrow(
+        "No recall points in RecallSet 'Cell Biology' are marked for a deep dive."
+      );
+    });
+
+    it('should cover the marked points with deep-dive guidance and clear their marks', async () => {
+      const marked = await service.requestDeepDive('rp_leech');
+      expect(marked.deepDiveRequestedAt).toBeInstanceOf(Date);
+
+      const tutor = createTestTutor();
+      const engine = createEngine(tutor);
+      const session = await engine.startSession(recallSet, { mode: 'deep-dive' });
+
+      expect(session.mode).toBe('deep-dive');
+      expect(session.targetRecallPointIds).toEqual(['rp_leech']);
+
+      await engine.getOpeningMessage();
+      expect(tutor.getCalls().at(-1)!.systemPrompt).toContain('## Deep Dive');
+      expect((await engine.triggerEvaluation()).completed).toBe(true);
+
+      // The point is rescheduled as in a review, and its mark is cleared
+      const after = await ctx.repos.recallPointRepo.findById('rp_leech');
+      expect(after!.deepDiveRequestedAt).toBeNull();
+      expect(after!.fsrsState.reps).toBe(7);
+    });
+  });
+
+  describe('deep-dive history', () => {
+    it('should fit FSRS weights to deep-dive reviews but not practice', async () => {
+      // Arrange
+      const practiceSet = await createTestRecallSet(ctx.repos, { name: 'Practice Only' });
+      const { outcomeCount } = await createTestReviewHistory(ctx.repos, {
+        recallSetId: recallSet.id,
+        mode: 'deep-dive',
+      });
+      await createTestReviewHistory(ctx.repos, { recallSetId: practiceSet.id, mode: 'practice' });
+      const optimizer = new FSRSOptimizationService({
+        recallSetRepo: ctx.repos.recallSetRepo,
+        recallPointRepo: ctx.repos.recallPointRepo,
+        outcomeRepo: ctx.repos.outcomeRepo,
+        parametersRepo: ctx.repos.fsrsParametersRepo,
+      });
+
+      // Act
+      const report = await optimizer.report(recallSet.id);
+
+      // Assert
+      expect(report.outcomeCount).toBe(outcomeCount);
+      expect(report.current.retention.reviews).toBe(60);
+      expect((await optimizer.report(practiceSet.id).catch((e) => e)).type).toBe('insufficient_history');
+    });
+
+    it('should recompute the schedule of a point reviewed in a deep dive', async () => {
+      // Arrange: a review, then a deep dive, both rated 'good' and re-evaluated as forgotten
+      const reviews = [daysAgo(20), daysAgo(10)];
+      let state = ctx.scheduler.createInitialState(daysAgo(30));
+      for (const reviewedAt of reviews) {
+        state = ctx.scheduler.schedule(state, 'good', reviewedAt);
+      }
+      const point = await createTestRecallPoint(ctx.repos, { recallSetId: recallSet.id, fsrsState: state });
+
+      for (const [index, reviewedAt] of reviews.entries()) {
+        const session = await createTestSession(ctx.repos, {
+          recallSetId: recallSet.id,
+          status: 'completed',
+          mode: index === 0 ? 'review' : 'deep-dive',
+          startedAt: reviewedAt,
+        });
+        for (const [j, role] of (['assistant', 'user'] as const).entries()) {
+          await ctx.repos.messageRepo.create({
+            id: `msg_${session.id}_${j}`,
+            sessionId: session.id,
+            role,
+            content: role === 'assistant' ? 'What drives ATP synthase?' : 'Something about it',
+            timestamp: new Date(reviewedAt.getTime() + j * 1000),
+          });
+        }
+        await createTestRecallOutcome(ctx.repos, {
+          sessionId: session.id,
+          recallPointId: point.id,
+          rating: 'good',
+          aiRating: 'good',
+          messageIndexStart: 0,
+          messageIndexEnd: 1,
+          createdAt: reviewedAt,
+        });
+      }
+
+      const forgetfulEvaluator = {
+        async evaluateEnhanced(): Promise<EnhancedRecallEvaluation> {
+          return {
+            success: false,
+            confidence: 0.9,
+            reasoning: 'Missed the key idea',
+            keyDemonstratedConcepts: [],
+            missedConcepts: ['main concept'],
+            suggestedRating: 'forgot',
+          };
+        },
+      };
+      const reEvaluation = new ReEvaluationService({
+        recallSetRepo: ctx.repos.recallSetRepo,
+        recallPointRepo: ctx.repos.recallPointRepo,
+        messageRepo: ctx.repos.messageRepo,
+        outcomeRepo: ctx.repos.outcomeRepo,
+        evaluationRepo: ctx.repos.outcomeEvaluationRepo,
+        fsrsParametersRepo: ctx.repos.fsrsParametersRepo,
+        evaluator: forgetfulEvaluator as unknown as RecallEvaluator,
+        scheduler: ctx.scheduler,
+        evaluatorVersion: 'test-v2',
+      });
+      await reEvaluation.reEvaluate({ recallSetId: recallSet.id });
+
+      // Act
+      const result = await reEvaluation.recomputeSchedules(recallSet.id);
+
+      // Assert: both reviews are replayed, so the point isn't skipped
+      expect(result.skippedPointCount).toBe(0);
+      expect(result.updated.map((update) => update.recallPointId)).toEqual([point.id]);
+      const stored = await ctx.repos.recallPointRepo.findById(point.id);
+      expect(stored!.fsrsState.reps).toBe(2);
+      expect(stored!.fsrsState.due.getTime()).toBeLessThan(state.due.getTime());
+    });
+
+    it('should estimate forecast minutes from deep-dive sessions but not practice', async () => {
+      // Arrange: a deep dive took 5 minutes a point; practice would bring it down
+      const deepDive = await createTestSession(ctx.repos, {
+        recallSetId: recallSet.id,
+        status: 'completed',
+        mode: 'deep-dive',
+      });
+      await createTestSessionMetrics(ctx.repos, {
+        sessionId: deepDive.id,
+        durationMs: 600000,
+        recallPointsAttempted: 2,
+      });
+      const practice = await createTestSession(ctx.repos, {
+        recallSetId: recallSet.id,
+        status: 'completed',
+        mode: 'practice',
+      });
+      await createTestSessionMetrics(ctx.repos, {
+        sessionId: practice.id,
+        durationMs: 60000,
+        recallPointsAttempted: 3,
+      });
+
+      // Act
+      const forecast = await ctx.dashboardAggregator.getReviewForecast(30);
+
+      // Assert
+      const load = forecast.recallSets.find((rs) => rs.recallSetId === recallSet.id)!;
+      expect(load.minutesPerPoint).toBe(5);
+    });
+  });
+});
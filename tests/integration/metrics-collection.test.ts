@@ -16,11 +16,6 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
-import { drizzle } from 'drizzle-orm/bun-sqlite';
-import { migrate } from 'drizzle-orm/bun-sqlite/migrator';
-import { Database } from 'bun:sqlite';
-import { resolve } from 'path';
-import * as schema from '../../src/storage/schema';
 import {
   RecallSetRepository,
   RecallPointRepository,
@@ -36,6 +31,7 @@ import { FSRSScheduler } from '../../src/core/fsrs';
 import type { RecallSet, RecallPoint, Session, SessionMessage } from '../../src/core/models';
 import type { EnhancedRecallEvaluation } from '../../src/core/scoring/types';
 import type { AppDatabase } from '../../src/storage/db';
+import { createTestDatabase, type TestDatabaseContext } from '../setup';
 import type { LLMMessage, LLMResponse, StreamCallbacks, LLMConfig } from '../../src/llm/types';
 
 /**
@@ -122,20 +118,6 @@ class MockAnthropicClient {
   getSystemPrompt(): string | undefined { return undefined; }
 }
 
-/**
- * Creates an in-memory database with migrations applied.
- *
- * @returns Object containing the database instance and raw SQLite connection
- */
-function createTestDatabase(): { db: AppDatabase; sqlite: Database } {
-  const sqlite = new Database(':memory:');
-  sqlite.run('PRAGMA foreign_keys = ON');
-  const db = drizzle(sqlite, { schema });
-  const migrationsFolder = resolve(import.meta.dir, '../../drizzle');
-  migrate(db, { migrationsFolder });
-  return { db, sqlite };
-}
-
 /**
  * Seeds the database with test recall set and points.
  */
@@ -173,7 +155,7 @@ async function seedTestData(
 describe('Session Metrics Collection', () => {
   // Database and repository instances
   let db: AppDatabase;
-  let sqlite: Database;
+  let testDb: TestDatabaseContext;
   let recallSetRepo: RecallSetRepository;
   let recallPointRepo: RecallPointRepository;
   let sessionRepo: SessionRepository;
@@ -190,9 +172,8 @@ describe('Session Metrics Collection', () => {
 
   beforeEach(async () => {
     // Create fresh in-memory database with migrations
-    const testDb = createTestDatabase();
+    testDb = await createTestDatabase();
     db = testDb.db;
-    sqlite = testDb.sqlite;
 
     // Initialize repositories
     recallSetRepo = new RecallSetRepository(db);
@@ -213,9 +194,9 @@ describe('Session Metrics Collection', () => {
     testRecallPoints = seedData.recallPoints;
   });
 
-  afterEach(() => {
-    if (sqlite) {
-      sqlite.close();
+  afterEach(async () => {
+    if (testDb) {
+      await testDb.close();
     }
   });
 
@@ -360,7 +341,11 @@ describe('Session Metrics Collection', () => {
         id: 'sess_test_006',
         recallSetId: 'rs_test_metrics',
         status: 'completed',
+        mode: 'review',
         targetRecallPointIds: ['rp_test_1'],
+        promptVersions: null,
+        experimentId: null,
+        experimentVariant: null,
         startedAt: new Date(),
         endedAt: new Date(),
       };
@@ -888,7 +873,11 @@ describe('Session Metrics Collection', () => {
         id: 'sess_final_rabbitholes',
         recallSetId: 'rs_test',
         status: 'completed',
+        mode: 'review',
         targetRecallPointIds: ['rp_test_1'],
+        promptVersions: null,
+        experimentId: null,
+        experimentVariant: null,
         startedAt: new Date(),
         endedAt: new Date(),
       };
@@ -0,0 +1,131 @@
+/**
+ * Integration Test: Offline Session with the Scripted LLM Provider
+ *
+ * Runs a complete two-point recall session without network access. Unlike
+ * the other session tests, nothing here is mocked: the real SessionEngine,
+ * RecallEvaluator, RabbitholeDetector and metrics pipeline all talk to a
+ * ScriptedLLMProvider that plays back tests/fixtures/llm/session-basic.json.
+ *
+ * Verifies:
+ * - Tutor, evaluation and rabbithole prompts are answered from the script
+ * - Evaluations parsed from scripted JSON drive FSRS updates
+ * - Rabbithole detection and return are persisted
+ * - The script is fully consumed by the session
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { resolve } from 'path';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import { createTestRecallSet, createTestRecallPoint } from '../helpers';
+import { SessionEngine } from '../../src/core/session';
+import { SessionMetricsCollector } from '../../src/core/session/metrics-collector';
+import { RabbitholeDetector } from '../../src/core/analysis/rabbithole-detector';
+import { RecallEvaluator } from '../../src/core/scoring';
+import { ScriptedLLMProvider } from '../../src/llm/scripted-provider';
+import type { RecallSet, RecallPoint } from '../../src/core/models';
+
+const SCRIPT_PATH = resolve(import.meta.dir, '../fixtures/llm/session-basic.json');
+
+describe('Offline session with ScriptedLLMProvider', () => {
+  let ctx: TestContext;
+  let provider: ScriptedLLMProvider;
+  let engine: SessionEngine;
+  let recallSet: RecallSet;
+  let points: RecallPoint[];
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    provider = ScriptedLLMProvider.fromFile(SCRIPT_PATH);
+
+    recallSet = await createTestRecallSet(ctx.repos, { name: 'Motivation' });
+    points = [
+      await createTestRecallPoint(ctx.repos, {
+        recallSetId: recallSet.id,
+        content: 'Action creates motivation, not the other way around.',
+        context: 'Starting is often harder than continuing.',
+      }),
+      await createTestRecallPoint(ctx.repos, {
+        recallSetId: recallSet.id,
+        content: 'Internal motivation (autonomy, mastery, purpose) outlasts external motivation.',
+        context: 'Self-Determination Theory.',
+      }),
+    ];
+
+    // The same provider backs the tutor, the evaluator and the detector
+    engine = new SessionEngine(
+      {
+        scheduler: ctx.scheduler,
+        evaluator: new RecallEvaluator(provider),
+        llmClient: provider,
+        recallSetRepo: ctx.repos.recallSetRepo,
+        recallPointRepo: ctx.repos.recallPointRepo,
+        sessionRepo: ctx.repos.sessionRepo,
+        messageRepo: ctx.repos.messageRepo,
+        metricsCollector: new SessionMetricsCollector(),
+        rabbitholeDetector: new RabbitholeDetector(provider),
+        metricsRepo: ctx.repos.metricsRepo,
+        recallOutcomeRepo: ctx.repos.outcomeRepo,
+        rabbitholeRepo: ctx.repos.rabbitholeRepo,
+      },
+      {
+        maxMessagesPerPoint: 10,
+        autoEvaluateAfter: 10,
+        tutorTemperature: 0.7,
+        tutorMaxTokens: 512,
+      }
+    );
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  it('should run the full session, evaluation and rabbithole pipelines offline', async () => {
+    const session = await engine.startSession(recallSet);
+
+    const opening = await engine.getOpeningMessage();
+    expect(opening).toContain('which tends to come first');
+
+    // Point 1: an on-topic answer, then a tangent the tutor steers back from
+    await engine.processUserMessage('I suppose you have to start doing something first.');
+    await engine.processUserMessage('Who was the first researcher to study motivation?');
+
+    const transition = await engine.triggerEvaluation();
+    expect(transition.pointAdvanced).toBe(true);
+    expect(transition.completed).toBe(false);
+    expect(transition.response).toContain('what kinds of motivation tend to last longer');
+
+    // Point 2
+    await engine.processUserMessage('Autonomy, mastery and purpose keep you going.');
+    const completion = await engine.triggerEvaluation();
+    expect(completion.completed).toBe(true);
+    expect(completion.response).toContain("you've reviewed both points");
+
+    // Every scripted entry was used, so each pipeline hit its expected prompt
+    expect(provider.getRemainingCount()).toBe(0);
+
+    // Scripted evaluations drove FSRS updates for both points
+    for (const point of points) {
+      const updated = await ctx.repos.recallPointRepo.findById(point.id);
+      expect(updated!.fsrsState.reps).toBe(1);
+      expect(updated!.recallHistory).toHaveLength(1);
+      expect(updated!.recallHistory[0].success).toBe(true);
+    }
+
+    // The rabbithole was detected, returned from, and persisted
+    const rabbitholes = await ctx.repos.rabbitholeRepo.findBySessionId(session.id);
+    expect(rabbitholes).toHaveLength(1);
+    expect(rabbitholes[0].topic).toBe('History of motivation research');
+    expect(rabbitholes[0].status).toBe('returned');
+
+    const outcomes = await ctx.repos.outcomeRepo.findBySessionId(session.id);
+    expect(outcomes).toHaveLength(2);
+
+    const completed = await ctx.repos.sessionRepo.findById(session.id);
+    expect(completed!.status).toBe('completed');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Integration Tests: Practice Sessions
+ *
+ * A practice session studies the points of a recall set whether or not they
+ * are due, and records how each went without rescheduling anything. Tests
+ * run the real SessionEngine against an in-memory database, with a mocked
+ * tutor and evaluator:
+ *
+ * - Points that aren't due are included
+ * - FSRS state and recall history are left as they were
+ * - Outcomes are recorded, and analytics can leave practice out
+ * - Unfinished practice and review sessions are resumed separately
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import {
+  createTestRecallSet,
+  createTestRecallPoint,
+  createTestSessionEngine,
+  daysAgo,
+  daysFromNow,
+} from '../helpers';
+import type { RecallSet } from '../../src/core/models';
+
+describe('Practice sessions', () => {
+  let ctx: TestContext;
+  let recallSet: RecallSet;
+
+  /** Creates an engine that records metrics and outcomes. */
+  const createEngine = () => createTestSessionEngine(ctx);
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    recallSet = await createTestRecallSet(ctx.repos, { name: 'Exam Prep' });
+
+    const reviewed = { state: 'review' as const, stability: 5, reps: 2, lastReview: daysAgo(5) };
+    await createTestRecallPoint(ctx.repos, {
+      id: 'rp_due',
+      recallSetId: recallSet.id,
+      fsrsState: { ...reviewed, due: daysAgo(1) },
+    });
+    await createTestRecallPoint(ctx.repos, {
+      id: 'rp_not_due',
+      recallSetId: recallSet.id,
+      fsrsState: { ...reviewed, due: daysFromNow(10) },
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  it('should include points that are not due', async () => {
+    const session = await createEngine().startSession(recallSet, { mode: 'practice' });
+
+    expect(session.mode).toBe('practice');
+    expect([...session.targetRecallPointIds].sort()).toEqual(['rp_due', 'rp_not_due']);
+  });
+
+  it('should record outcomes without rescheduling', async () => {
+    const before = await ctx.repos.recallPointRepo.findByRecallSetId(recallSet.id);
+    const engine = createEngine();
+    const session = await engine.startSession(recallSet, { mode: 'practice' });
+
+    await engine.getOpeningMessage();
+    expect((await engine.triggerEvaluation()).pointAdvanced).toBe(true);
+    expect((await engine.triggerEvaluation()).completed).toBe(true);
+
+    // Scheduling state is untouched
+    for (const point of before) {
+      const after = await ctx.repos.recallPointRepo.findById(point.id);
+      expect(after!.fsrsState.due.getTime()).toBe(point.fsrsState.due.getTime());
+      expect(after!.fsrsState.stability).toBe(point.fsrsState.stability);
+      expect(after!.recallHistory).toHaveLength(0);
+    }
+
+    // Outcomes and metrics are recorded
+    const outcomes = await ctx.repos.outcomeRepo.findBySessionId(session.id);
+    expect(outcomes.map((o) => o.recallPointId).sort()).toEqual(['rp_due', 'rp_not_due']);
+
+    const stats = await ctx.repos.metricsRepo.getAggregateStats(recallSet.id);
+    expect(stats.totalSessions).toBe(1);
+    expect((await ctx.repos.metricsRepo.getAggregateStats(recallSet.id, 'review')).totalSessions).toBe(0);
+
+    const analytics = await ctx.analyticsCalc.calculateRecallSetAnalytics(recallSet.id, 'review');
+    expect(analytics.sessionMode).toBe('review');
+    expect(analytics.totalSessions).toBe(0);
+  });
+
+  it('should resume unfinished practice and review sessions separately', async () => {
+    const review = await createEngine().startSession(recallSet);
+    const practice = await createEngine().startSession(recallSet, { mode: 'practice' });
+
+    expect(practice.id).not.toBe(review.id);
+    expect((await createEngine().startSession(recallSet, { mode: 'practice' })).id).toBe(practice.id);
+    expect((await createEngine().startSession(recallSet)).id).toBe(review.id);
+  });
+
+  it('should refuse to practice a set without points', async () => {
+    const empty = await createTestRecallSet(ctx.repos, { name: 'Empty' });
+
+    await expect(createEngine().startSession(empty, { mode: 'practice' })).rejects.toThrow(
+      "RecallSet 'Empty' has no recall points to practice."
+    );
+  });
+});
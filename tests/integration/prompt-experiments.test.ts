@@ -0,0 +1,148 @@
+/**
+ * Integration Tests: Prompt Experiments
+ *
+ * Sessions record the prompt versions they ran with, and while a prompt
+ * experiment is configured each new session is assigned one of its
+ * variants. Tests run the real SessionEngine against an in-memory database,
+ * with a mocked tutor and evaluator that capture the prompts they receive:
+ *
+ * - Sessions record the default versions without an experiment
+ * - An experiment's variant decides the tutor and evaluator prompts
+ * - Resumed sessions keep the versions they started with
+ * - Session metrics are compared per variant
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import {
+  createTestRecallSet,
+  createTestRecallPoint,
+  createTestSessionEngine,
+  createTestTutor,
+  SuccessfulRecallEvaluator,
+  daysAgo,
+} from '../helpers';
+import type { SessionEngine } from '../../src/core/session';
+import { buildPromptExperimentReport, type PromptExperiment } from '../../src/core/experiments';
+import { DEFAULT_PROMPT_VERSIONS } from '../../src/llm/prompts';
+import type { RecallSet } from '../../src/core/models';
+import type { ScriptedLLMProvider } from '../../src/llm';
+
+/** An experiment that assigns every new session to the named variant. */
+function experimentFavoring(variant: 'control' | 'concise'): PromptExperiment {
+  return {
+    id: 'tutor-length',
+    description: 'Do shorter tutor turns keep learners engaged?',
+    variants: [
+      { name: 'control', weight: variant === 'control' ? 1 : 0, prompts: {} },
+      { name: 'concise', weight: variant === 'concise' ? 1 : 0, prompts: { tutor: 'socratic-concise-v1' } },
+    ],
+  };
+}
+
+describe('Prompt experiments', () => {
+  let ctx: TestContext;
+  let recallSet: RecallSet;
+  let tutor: ScriptedLLMProvider;
+  let evaluator: SuccessfulRecallEvaluator;
+
+  /** Creates an engine that records metrics, optionally running an experiment. */
+  const createEngine = (promptExperiment?: PromptExperiment) =>
+    createTestSessionEngine(ctx, { evaluator, llmClient: tutor, promptExperiment });
+
+  /** The system prompts the tutor was called with, in order. */
+  const systemPrompts = () => tutor.getCalls().map((call) => call.systemPrompt ?? '');
+
+  /** Runs a practice session through to completion. */
+  const completeSession = async (engine: SessionEngine) => {
+    const session = await engine.startSession(recallSet, { mode: 'practice' });
+    await engine.getOpeningMessage();
+    expect((await engine.triggerEvaluation()).completed).toBe(true);
+    return session;
+  };
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    tutor = createTestTutor();
+    evaluator = new SuccessfulRecallEvaluator({ confidence: 0.9, suggestedRating: 'good' });
+    recallSet = await createTestRecallSet(ctx.repos, { name: 'Cell Biology' });
+    await createTestRecallPoint(ctx.repos, {
+      id: 'rp_due',
+      recallSetId: recallSet.id,
+      fsrsState: { state: 'review', stability: 5, reps: 2, lastReview: daysAgo(5), due: daysAgo(1) },
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  it('should record the default prompt versions without an experiment', async () => {
+    const session = await completeSession(createEngine());
+
+    const stored = await ctx.repos.sessionRepo.findById(session.id);
+    expect(stored!.promptVersions).toEqual(DEFAULT_PROMPT_VERSIONS);
+    expect(stored!.experimentId).toBeNull();
+    expect(stored!.experimentVariant).toBeNull();
+
+    expect(systemPrompts().at(-1)).not.toContain('## Response Length');
+    expect(evaluator.evaluations.map((context) => context?.promptVersion)).toEqual([DEFAULT_PROMPT_VERSIONS.evaluator]);
+  });
+
+  it("should run sessions with their assigned variant's prompts", async () => {
+    const session = await completeSession(createEngine(experimentFavoring('concise')));
+
+    const stored = await ctx.repos.sessionRepo.findById(session.id);
+    expect(stored!.experimentId).toBe('tutor-length');
+    expect(stored!.experimentVariant).toBe('concise');
+    expect(stored!.promptVersions).toEqual({ ...DEFAULT_PROMPT_VERSIONS, tutor: 'socratic-concise-v1' });
+
+    expect(systemPrompts().length).toBeGreaterThan(0);
+    expect(systemPrompts().every((prompt) => prompt.includes('## Response Length'))).toBe(true);
+  });
+
+  it('should resume sessions with the prompt versions they started with', async () => {
+    const started = await createEngine(experimentFavoring('concise')).startSession(recallSet, {
+      mode: 'practice',
+    });
+    tutor.reset();
+
+    // The experiment has since ended; the resumed session keeps its variant
+    const engine = createEngine();
+    const resumed = await engine.startSession(recallSet, { mode: 'practice' });
+    await engine.getOpeningMessage();
+
+    expect(resumed.id).toBe(started.id);
+    expect(resumed.experimentVariant).toBe('concise');
+    expect(systemPrompts().at(-1)).toContain('## Response Length');
+  });
+
+  it('should compare session metrics per variant', async () => {
+    await completeSession(createEngine(experimentFavoring('control')));
+    await completeSession(createEngine(experimentFavoring('concise')));
+    await completeSession(createEngine(experimentFavoring('concise')));
+    await completeSession(createEngine());
+
+    expect(await ctx.repos.sessionRepo.findExperiments()).toEqual([
+      { experimentId: 'tutor-length', sessionCount: 3 },
+    ]);
+
+    const stats = await ctx.repos.sessionRepo.getExperimentVariantStats('tutor-length');
+    const report = buildPromptExperimentReport('tutor-length', stats, experimentFavoring('concise'));
+
+    expect(report.sessionCount).toBe(3);
+    expect(report.baselineVariant).toBe('control');
+    const [control, concise] = report.variants;
+    expect(control.sessionCount).toBe(1);
+    expect(concise.sessionCount).toBe(2);
+    expect(concise.completedCount).toBe(2);
+    expect(concise.measuredCount).toBe(2);
+    expect(concise.avgRecallRate).toBe(1);
+    expect(concise.avgTokens).toBeGreaterThan(0);
+    expect(concise.vsBaseline!.recallRate).toBe(0);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Integration Tests: Rating Overrides
+ *
+ * After each evaluation the learner may replace the rating derived from it
+ * before the point is scheduled. Tests run the real SessionEngine against an
+ * in-memory database, with a mocked tutor and evaluator:
+ *
+ * - The override handler sees the AI's rating and can replace it
+ * - The point is scheduled with the learner's rating
+ * - Both ratings are kept on the recall outcome
+ * - Recall set analytics count overrides and their direction
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import {
+  createTestRecallSet,
+  createTestRecallPoint,
+  createTestSession,
+  createTestRecallOutcome,
+  createTestSessionEngine,
+  daysAgo,
+} from '../helpers';
+import type { RatingProposal } from '../../src/core/session';
+import type { RecallSet, RecallPoint } from '../../src/core/models';
+import type { RecallRating } from '../../src/core/fsrs';
+
+describe('Rating overrides', () => {
+  let ctx: TestContext;
+  let recallSet: RecallSet;
+  let point: RecallPoint;
+
+  /** Creates an engine that records metrics and outcomes. */
+  const createEngine = () => createTestSessionEngine(ctx);
+
+  /** Runs a one-point session, answering the rating prompt with `answer`. */
+  const runSession = async (answer: RecallRating | null) => {
+    const engine = createEngine();
+    const proposals: RatingProposal[] = [];
+    engine.setRatingOverrideHandler(async (proposal) => {
+      proposals.push(proposal);
+      return answer;
+    });
+
+    const session = await engine.startSession(recallSet);
+    await engine.getOpeningMessage();
+    const result = await engine.triggerEvaluation();
+
+    return { session, proposals, result };
+  };
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    recallSet = await createTestRecallSet(ctx.repos);
+    point = await createTestRecallPoint(ctx.repos, {
+      recallSetId: recallSet.id,
+      fsrsState: { state: 'review', stability: 10, reps: 3, lastReview: daysAgo(10), due: daysAgo(1) },
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  it("should schedule with the learner's rating and keep both ratings", async () => {
+    const { session, proposals, result } = await runSession('forgot');
+
+    expect(result.completed).toBe(true);
+    expect(proposals).toHaveLength(1);
+    expect(proposals[0]).toMatchObject({ pointId: point.id, success: true, rating: 'easy' });
+
+    // 'forgot' sends a reviewed point back to relearning
+    const after = await ctx.repos.recallPointRepo.findById(point.id);
+    expect(after!.fsrsState.state).toBe('relearning');
+    expect(after!.fsrsState.lapses).toBe(1);
+
+    const [outcome] = await ctx.repos.outcomeRepo.findBySessionId(session.id);
+    expect(outcome).toMatchObject({ rating: 'forgot', aiRating: 'easy', learnerRating: 'forgot' });
+  });
+
+  it("should schedule with the AI's rating when the learner keeps it", async () => {
+    const { session } = await runSession(null);
+
+    const after = await ctx.repos.recallPointRepo.findById(point.id);
+    expect(after!.fsrsState.state).toBe('review');
+    expect(after!.fsrsState.lapses).toBe(0);
+
+    const [outcome] = await ctx.repos.outcomeRepo.findBySessionId(session.id);
+    expect(outcome).toMatchObject({ rating: 'easy', aiRating: 'easy', learnerRating: null });
+  });
+
+  it('should count overrides and their direction in recall set analytics', async () => {
+    const session = await createTestSession(ctx.repos, { recallSetId: recallSet.id, status: 'completed' });
+    const outcome = (aiRating: RecallRating | null, learnerRating: RecallRating | null) =>
+      createTestRecallOutcome(ctx.repos, {
+        sessionId: session.id,
+        recallPointId: point.id,
+        aiRating,
+        learnerRating,
+      });
+    await outcome('good', null);
+    await outcome('good', 'good');
+    await outcome('good', 'hard');
+    await outcome('hard', 'easy');
+    await outcome('good', 'forgot');
+    await outcome(null, null); // recorded before ratings were kept
+
+    const analytics = await ctx.analyticsCalc.calculateRecallSetAnalytics(recallSet.id);
+
+    expect(analytics.ratingOverrides).toEqual({
+      ratedCount: 5,
+      overriddenCount: 3,
+      overrideRate: 0.6,
+      learnerHigherCount: 1,
+      learnerLowerCount: 2,
+    });
+  });
+});
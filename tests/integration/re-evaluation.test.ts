@@ -0,0 +1,332 @@
+/**
+ * Integration Tests: Re-evaluation of Past Outcomes
+ *
+ * Past recall attempts are judged again by replaying their transcript slices
+ * through the current evaluator. Tests run the real ReEvaluationService
+ * against an in-memory database, with a mocked evaluator:
+ *
+ * - Re-evaluations are stored under the evaluator version, originals untouched
+ * - Agreement with the original judgments is reported
+ * - Already re-evaluated outcomes are skipped; limit caps a run
+ * - Outcomes whose transcript is gone are counted, not evaluated
+ * - Schedules are recomputed from the re-evaluated ratings
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import {
+  createTestRecallSet,
+  createTestRecallPoint,
+  createTestSession,
+  createTestRecallOutcome,
+  daysAgo,
+} from '../helpers';
+import {
+  ReEvaluationService,
+  ReEvaluationError,
+  RecallEvaluator,
+} from '../../src/core/scoring';
+import type { RecallSet, RecallPoint, SessionMessage } from '../../src/core/models';
+import type { EnhancedRecallEvaluation } from '../../src/core/scoring/types';
+
+/**
+ * Mock evaluator that judges each point as scripted (by default a confident
+ * success, rated 'easy') and records the transcript slices it was given.
+ */
+class ScriptedEvaluator {
+  verdicts = new Map<string, { success: boolean; confidence: number }>();
+  calls: { pointId: string; messages: SessionMessage[]; topic?: string }[] = [];
+
+  async evaluateEnhanced(
+    point: RecallPoint,
+    messages: SessionMessage[],
+    context?: { topic?: string }
+  ): Promise<EnhancedRecallEvaluation> {
+    this.calls.push({ pointId: point.id, messages, topic: context?.topic });
+    const verdict = this.verdicts.get(point.id) ?? { success: true, confidence: 0.95 };
+    return {
+      ...verdict,
+      reasoning: verdict.success ? 'Recalled on re-reading' : 'Missed the key idea',
+      keyDemonstratedConcepts: verdict.success ? ['main concept'] : [],
+      missedConcepts: verdict.success ? [] : ['main concept'],
+      suggestedRating: verdict.success ? 'easy' : 'forgot',
+    };
+  }
+}
+
+describe('Re-evaluation of past outcomes', () => {
+  let ctx: TestContext;
+  let evaluator: ScriptedEvaluator;
+  let service: ReEvaluationService;
+  let recallSet: RecallSet;
+
+  /** Creates a review session with a two-message transcript per point. */
+  async function createAttempts(
+    points: RecallPoint[],
+    options: { success?: boolean; rating?: 'forgot' | 'hard' | 'good' | 'easy'; createdAt?: Date } = {}
+  ): Promise<string> {
+    const session = await createTestSession(ctx.repos, {
+      recallSetId: recallSet.id,
+      status: 'completed',
+      ...(options.createdAt && { startedAt: options.createdAt }),
+    });
+    const start = options.createdAt ?? new Date();
+    for (const [i, point] of points.entries()) {
+      for (const [j, role] of (['assistant', 'user'] as const).entries()) {
+        await ctx.repos.messageRepo.create({
+          id: `msg_${session.id}_${i}_${j}`,
+          sessionId: session.id,
+          role,
+          content: role === 'assistant' ? `What do you remember about ${point.id}?` : 'Something about it',
+          timestamp: new Date(start.getTime() + (i * 2 + j) * 1000),
+        });
+      }
+      await createTestRecallOutcome(ctx.repos, {
+        sessionId: session.id,
+        recallPointId: point.id,
+        success: options.success ?? true,
+        confidence: 0.8,
+        rating: options.rating ?? 'good',
+        aiRating: options.rating ?? 'good',
+        messageIndexStart: i * 2,
+        messageIndexEnd: i * 2 + 1,
+        ...(options.createdAt && { createdAt: options.createdAt }),
+      });
+    }
+    return session.id;
+  }
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    evaluator = new ScriptedEvaluator();
+    service = new ReEvaluationService({
+      recallSetRepo: ctx.repos.recallSetRepo,
+      recallPointRepo: ctx.repos.recallPointRepo,
+      messageRepo: ctx.repos.messageRepo,
+      outcomeRepo: ctx.repos.outcomeRepo,
+      evaluationRepo: ctx.repos.outcomeEvaluationRepo,
+      fsrsParametersRepo: ctx.repos.fsrsParametersRepo,
+      evaluator: evaluator as unknown as RecallEvaluator,
+      scheduler: ctx.scheduler,
+      evaluatorVersion: 'test-v2',
+    });
+    recallSet = await createTestRecallSet(ctx.repos, { name: 'Cell Biology' });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  describe('reEvaluate', () => {
+    it('should store versioned evaluations of each outcome from its transcript slice', async () => {
+      // Arrange
+      const first = await createTestRecallPoint(ctx.repos, { recallSetId: recallSet.id });
+      const second = await createTestRecallPoint(ctx.repos, { recallSetId: recallSet.id });
+      const sessionId = await createAttempts([first, second]);
+
+      // Act
+      const report = await service.reEvaluate({ recallSetId: recallSet.id });
+
+      // Assert
+      expect(report.evaluatorVersion).toBe('test-v2');
+      expect(report.outcomeCount).toBe(2);
+      expect(report.evaluatedCount).toBe(2);
+      expect(report.remainingCount).toBe(0);
+
+      const secondCall = evaluator.calls.find((call) => call.pointId === second.id)!;
+      expect(secondCall.topic).toBe('Cell Biology');
+      expect(secondCall.messages.map((m) => m.content)).toEqual([
+        `What do you remember about ${second.id}?`,
+        'Something about it',
+      ]);
+
+      const outcomes = await ctx.repos.outcomeRepo.findBySessionId(sessionId);
+      const stored = await ctx.repos.outcomeEvaluationRepo.findByRecallOutcomeIds(
+        outcomes.map((o) => o.id),
+        'test-v2'
+      );
+      expect(stored).toHaveLength(2);
+      expect(stored[0].rating).toBe('easy');
+      expect(stored[0].keyDemonstratedConcepts).toEqual(['main concept']);
+      expect(outcomes.every((o) => o.rating === 'good')).toBe(true);
+      expect(
+        await ctx.repos.outcomeEvaluationRepo.findByRecallOutcomeIds(outcomes.map((o) => o.id), 'test-v1')
+      ).toHaveLength(0);
+    });
+
+    it('should report agreement with the original judgments', async () => {
+      // Arrange
+      const kept = await createTestRecallPoint(ctx.repos, { recallSetId: recallSet.id });
+      const flipped = await createTestRecallPoint(ctx.repos, { recallSetId: recallSet.id });
+      await createAttempts([kept, flipped]);
+      evaluator.verdicts.set(kept.id, { success: true, confidence: 0.8 });
+      evaluator.verdicts.set(flipped.id, { success: false, confidence: 0.9 });
+
+      // Act
+      const report = await service.reEvaluate();
+
+      // Assert
+      expect(report.recallSetId).toBeNull();
+      expect(report.agreement.comparedCount).toBe(2);
+      expect(report.agreement.successAgreementRate).toBe(0.5);
+      expect(report.agreement.successToFailureCount).toBe(1);
+      expect(report.agreement.failureToSuccessCount).toBe(0);
+      expect(report.agreement.ratingAgreementRate).toBe(0.5);
+      expect(report.agreement.meanConfidenceChange).toBeCloseTo(0.05);
+      expect(report.disagreements).toHaveLength(1);
+      expect(report.disagreements[0].recallPointId).toBe(flipped.id);
+      expect(report.disagreements[0].original).toEqual({ success: true, confidence: 0.8, rating: 'good' });
+      expect(report.disagreements[0].reEvaluated.rating).toBe('forgot');
+    });
+
+    it('should skip outcomes already evaluated by the version and respect the limit', async () => {
+      // Arrange
+      const points = await Promise.all(
+        [1, 2, 3].map(() => createTestRecallPoint(ctx.repos, { recallSetId: recallSet.id }))
+      );
+      await createAttempts(points);
+
+      // Act
+      const firstRun = await service.reEvaluate({ limit: 2 });
+      const secondRun = await service.reEvaluate({ limit: 2 });
+      const thirdRun = await service.reEvaluate();
+      const forced = await service.reEvaluate({ force: true, limit: 1 });
+
+      // Assert
+      expect(firstRun.evaluatedCount).toBe(2);
+      expect(firstRun.remainingCount).toBe(1);
+      expect(secondRun.evaluatedCount).toBe(1);
+      expect(secondRun.remainingCount).toBe(0);
+      expect(thirdRun.evaluatedCount).toBe(0);
+      expect(forced.evaluatedCount).toBe(1);
+      expect(forced.agreement.comparedCount).toBe(3);
+      expect(evaluator.calls).toHaveLength(4);
+    });
+
+    it('should count outcomes whose transcript is missing without evaluating them', async () => {
+      // Arrange
+      const point = await createTestRecallPoint(ctx.repos, { recallSetId: recallSet.id });
+      const session = await createTestSession(ctx.repos, { recallSetId: recallSet.id, status: 'completed' });
+      await createTestRecallOutcome(ctx.repos, { sessionId: session.id, recallPointId: point.id });
+
+      // Act
+      const report = await service.reEvaluate();
+
+      // Assert
+      expect(report.missingTranscriptCount).toBe(1);
+      expect(report.evaluatedCount).toBe(0);
+      expect(report.remainingCount).toBe(1);
+      expect(evaluator.calls).toHaveLength(0);
+    });
+
+    it('should reject an unknown recall set', async () => {
+      const err = await service.reEvaluate({ recallSetId: 'rs_missing' }).catch((e) => e);
+      expect(err).toBeInstanceOf(ReEvaluationError);
+      expect(err.type).toBe('recall_set_not_found');
+    });
+  });
+
+  describe('report', () => {
+    it('should report stored evaluations without calling the evaluator', async () => {
+      // Arrange
+      const point = await createTestRecallPoint(ctx.repos, { recallSetId: recallSet.id });
+      await createAttempts([point]);
+      await service.reEvaluate();
+      evaluator.calls = [];
+
+      // Act
+      const report = await service.report(recallSet.id);
+
+      // Assert
+      expect(report.agreement.comparedCount).toBe(1);
+      expect(report.evaluatedCount).toBe(0);
+      expect(evaluator.calls).toHaveLength(0);
+    });
+  });
+
+  describe('recomputeSchedules', () => {
+    /** Creates a point whose FSRS state comes from the given reviews. */
+    async function createReviewedPoint(reviews: Date[]): Promise<RecallPoint> {
+      const createdAt = daysAgo(30);
+      let state = ctx.scheduler.createInitialState(createdAt);
+      for (const reviewedAt of reviews) {
+        state = ctx.scheduler.schedule(state, 'good', reviewedAt);
+      }
+      const point = await createTestRecallPoint(ctx.repos, { recallSetId: recallSet.id, fsrsState: state });
+      return { ...point, fsrsState: state };
+    }
+
+    it('should replay a point\'s history with the re-evaluated ratings', async () => {
+      // Arrange
+      const reviews = [daysAgo(20), daysAgo(10)];
+      const point = await createReviewedPoint(reviews);
+      for (const reviewedAt of reviews) {
+        await createAttempts([point], { createdAt: reviewedAt });
+      }
+      evaluator.verdicts.set(point.id, { success: false, confidence: 0.9 });
+      await service.reEvaluate();
+
+      // Act
+      const result = await service.recomputeSchedules(recallSet.id);
+
+      // Assert
+      expect(result.updated).toHaveLength(1);
+      expect(result.updated[0].recallPointId).toBe(point.id);
+      expect(result.updated[0].newDue.getTime()).toBeLessThan(point.fsrsState.due.getTime());
+      const stored = await ctx.repos.recallPointRepo.findById(point.id);
+      expect(stored!.fsrsState.due.getTime()).toBe(result.updated[0].newDue.getTime());
+      expect(stored!.fsrsState.reps).toBe(2);
+      expect(stored!.fsrsState.state).toBe(result.updated[0].newState);
+    });
+
+    it('should keep ratings the learner chose', async () => {
+      // Arrange
+      const reviewedAt = daysAgo(10);
+      const point = await createReviewedPoint([reviewedAt]);
+      const session = await createTestSession(ctx.repos, { recallSetId: recallSet.id, status: 'completed' });
+      await ctx.repos.messageRepo.create({ id: 'msg_only', sessionId: session.id, role: 'user', content: 'An answer' });
+      await createTestRecallOutcome(ctx.repos, {
+        sessionId: session.id,
+        recallPointId: point.id,
+        rating: 'good',
+        aiRating: 'hard',
+        learnerRating: 'good',
+        messageIndexStart: 0,
+        messageIndexEnd: 0,
+        createdAt: reviewedAt,
+      });
+      evaluator.verdicts.set(point.id, { success: false, confidence: 0.9 });
+      await service.reEvaluate();
+
+      // Act
+      const result = await service.recomputeSchedules();
+
+      // Assert
+      expect(result.updated).toHaveLength(0);
+      const stored = await ctx.repos.recallPointRepo.findById(point.id);
+      expect(stored!.fsrsState.due.getTime()).toBe(point.fsrsState.due.getTime());
+    });
+
+    it('should skip points whose state predates their recorded outcomes', async () => {
+      // Arrange: three reviews scheduled, but only the last was recorded
+      const reviews = [daysAgo(25), daysAgo(15), daysAgo(5)];
+      const point = await createReviewedPoint(reviews);
+      await createAttempts([point], { createdAt: reviews[2] });
+      evaluator.verdicts.set(point.id, { success: false, confidence: 0.9 });
+      await service.reEvaluate();
+
+      // Act
+      const result = await service.recomputeSchedules();
+
+      // Assert
+      expect(result.updated).toHaveLength(0);
+      expect(result.skippedPointCount).toBe(1);
+      const stored = await ctx.repos.recallPointRepo.findById(point.id);
+      expect(stored!.fsrsState.reps).toBe(3);
+    });
+  });
+});
@@ -27,13 +27,13 @@ describe('E2E: Session API Flow', () => {
   let ctx: TestContext;
   let app: Hono;
 
-  beforeEach(() => {
-    ctx = createTestContext();
+  beforeEach(async () => {
+    ctx = await createTestContext();
     app = createTestApp(ctx);
   });
 
-  afterEach(() => {
-    cleanupTestDatabase(ctx);
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
   });
 
   // ==========================================================================
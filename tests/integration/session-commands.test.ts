@@ -0,0 +1,206 @@
+/**
+ * Integration Tests: Session Commands
+ *
+ * Besides answering, a learner can steer a session with commands (/skip,
+ * /defer, /show, /undo and /note in the CLI; matching WebSocket messages in
+ * the web app). Tests run the real SessionEngine against an in-memory
+ * database, with a mocked tutor and evaluator:
+ *
+ * - Skipping moves on without rating or rescheduling the point
+ * - Deferring only moves the point's due date
+ * - Revealing shows the point and schedules it as 'forgot'
+ * - Undo retracts the learner's last message and the replies to it
+ * - Notes are saved as annotations on the latest message
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import { createTestRecallSet, createTestRecallPoint, createTestSessionEngine, daysAgo } from '../helpers';
+import type { SessionEngine, RatingProposal } from '../../src/core/session';
+import { SessionMetricsCollector } from '../../src/core/session/metrics-collector';
+import type { RecallSet, SessionMode } from '../../src/core/models';
+
+describe('Session commands', () => {
+  let ctx: TestContext;
+  let recallSet: RecallSet;
+
+  /** Creates an engine that records outcomes and notes. */
+  const createEngine = (metricsCollector = new SessionMetricsCollector()) =>
+    createTestSessionEngine(ctx, { metricsCollector, annotationRepo: ctx.repos.annotationRepo });
+
+  /** Starts a session on the two points and returns its engine. */
+  const startSession = async (mode: SessionMode = 'review') => {
+    const engine = createEngine();
+    const session = await engine.startSession(recallSet, { mode });
+    await engine.getOpeningMessage();
+    return { engine, session };
+  };
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    recallSet = await createTestRecallSet(ctx.repos);
+    const fsrsState = { state: 'review' as const, stability: 10, reps: 3, lastReview: daysAgo(10), due: daysAgo(1) };
+    await createTestRecallPoint(ctx.repos, {
+      recallSetId: recallSet.id,
+      content: 'The Treaty of Versailles was signed in 1919',
+      context: 'It ended the First World War.',
+      fsrsState,
+    });
+    await createTestRecallPoint(ctx.repos, { recallSetId: recallSet.id, fsrsState });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  /** The point the session is on */
+  const currentPointId = (engine: SessionEngine) => engine.getSessionState()!.currentPoint.id;
+
+  it('should skip a point without rating or rescheduling it', async () => {
+    const { engine, session } = await startSession();
+    const skipped = currentPointId(engine);
+    const before = await ctx.repos.recallPointRepo.findById(skipped);
+
+    const result = await engine.skipPoint();
+
+    expect(result).toMatchObject({ pointAdvanced: true, completed: false, currentPointIndex: 1 });
+    const after = await ctx.repos.recallPointRepo.findById(skipped);
+    expect(after!.fsrsState).toEqual(before!.fsrsState);
+    expect(after!.recallHistory).toHaveLength(0);
+
+    await engine.triggerEvaluation();
+    const outcomes = await ctx.repos.outcomeRepo.findBySessionId(session.id);
+    expect(outcomes.map((outcome) => outcome.recallPointId)).toEqual([currentPointId(engine)]);
+  });
+
+  it('should defer a point by moving only its due date', async () => {
+    const { engine } = await startSession();
+    const deferred = currentPointId(engine);
+    const before = await ctx.repos.recallPointRepo.findById(deferred);
+
+    await engine.deferPoint(7);
+
+    const after = await ctx.repos.recallPointRepo.findById(deferred);
+    const daysUntilDue = (after!.fsrsState.due.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+    expect(Math.round(daysUntilDue)).toBe(7);
+    expect(after!.fsrsState).toMatchObject({
+      stability: before!.fsrsState.stability,
+      difficulty: before!.fsrsState.difficulty,
+      reps: before!.fsrsState.reps,
+    });
+  });
+
+  it('should refuse to defer by anything but a positive whole number of days', async () => {
+    const { engine } = await startSession();
+
+    await expect(engine.deferPoint(0)).rejects.toThrow('whole number of at least 1');
+    await expect(engine.deferPoint(1.5)).rejects.toThrow('whole number of at least 1');
+    expect(engine.getSessionState()!.currentPointIndex).toBe(0);
+  });
+
+  it('should refuse to defer in a practice session', async () => {
+    const { engine } = await startSession('practice');
+
+    await expect(engine.deferPoint(3)).rejects.toThrow('skip the point instead');
+  });
+
+  it("should reveal a point and schedule it as 'forgot' without offering an override", async () => {
+    const { engine, session } = await startSession();
+    const proposals: RatingProposal[] = [];
+    engine.setRatingOverrideHandler(async (proposal) => {
+      proposals.push(proposal);
+      return 'easy';
+    });
+    const revealed = engine.getSessionState()!.currentPoint;
+
+    const result = await engine.revealPoint();
+
+    expect(result.response).toContain(revealed.content);
+    expect(result.response).toContain(revealed.context);
+    expect(result.pointAdvanced).toBe(true);
+    expect(proposals).toHaveLength(0);
+
+    const after = await ctx.repos.recallPointRepo.findById(revealed.id);
+    expect(after!.fsrsState.state).toBe('relearning');
+
+    await engine.skipPoint();
+    const [outcome] = await ctx.repos.outcomeRepo.findBySessionId(session.id);
+    expect(outcome).toMatchObject({ recallPointId: revealed.id, success: false, rating: 'forgot', aiRating: 'forgot' });
+  });
+
+  it("should undo the learner's last message and the tutor's reply", async () => {
+    const { engine, session } = await startSession();
+    await engine.processUserMessage('It was signed in 1918');
+    const messagesBefore = await ctx.repos.messageRepo.findBySessionId(session.id);
+
+    const undone = await engine.undoLastMessage();
+
+    expect(undone).toEqual({ content: 'It was signed in 1918', messagesRemoved: 2 });
+    const messagesAfter = await ctx.repos.messageRepo.findBySessionId(session.id);
+    expect(messagesAfter).toHaveLength(messagesBefore.length - 2);
+    expect(messagesAfter.some((message) => message.content === 'It was signed in 1918')).toBe(false);
+  });
+
+  it("should drop the undone messages' timings from the session metrics", async () => {
+    const metricsCollector = new SessionMetricsCollector();
+    const engine = createEngine(metricsCollector);
+    await engine.startSession(recallSet, { mode: 'review' });
+    await engine.getOpeningMessage();
+    const recordedBefore = metricsCollector.getCurrentStats().messagesRecorded;
+    await engine.processUserMessage('It was signed in 1918');
+
+    await engine.undoLastMessage();
+
+    expect(metricsCollector.getCurrentStats().messagesRecorded).toBe(recordedBefore);
+  });
+
+  it('should refuse to undo a message with a note on it', async () => {
+    const { engine, session } = await startSession();
+    await engine.processUserMessage('It was signed in 1918');
+    await engine.addNote('Mixed this up with the armistice');
+    const messagesBefore = await ctx.repos.messageRepo.findBySessionId(session.id);
+
+    await expect(engine.undoLastMessage()).rejects.toThrow('has a note on it');
+    expect(await ctx.repos.messageRepo.findBySessionId(session.id)).toHaveLength(messagesBefore.length);
+  });
+
+  it('should have nothing to undo before the learner answers the current point', async () => {
+    const { engine } = await startSession();
+    await engine.processUserMessage('It was signed in 1919');
+    await engine.triggerEvaluation();
+
+    expect(await engine.undoLastMessage()).toBeNull();
+  });
+
+  it('should save a note on the latest message', async () => {
+    const { engine, session } = await startSession();
+    await engine.processUserMessage('It was signed in 1919');
+    const messages = await ctx.repos.messageRepo.findBySessionId(session.id);
+
+    const annotation = await engine.addNote('  Mixed this up with the armistice  ');
+
+    expect(annotation).toMatchObject({
+      sessionId: session.id,
+      messageIndex: messages.length - 1,
+      note: 'Mixed this up with the armistice',
+      tags: [],
+    });
+    expect(await ctx.repos.annotationRepo.findBySessionId(session.id)).toHaveLength(1);
+    await expect(engine.addNote('   ')).rejects.toThrow('A note needs some text');
+  });
+
+  it('should complete the session when the last point is skipped', async () => {
+    const { engine, session } = await startSession();
+    await engine.skipPoint();
+
+    const result = await engine.skipPoint();
+
+    expect(result.completed).toBe(true);
+    const completed = await ctx.repos.sessionRepo.findById(session.id);
+    expect(completed!.status).toBe('completed');
+  });
+});
@@ -21,18 +21,13 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
-import { drizzle } from 'drizzle-orm/bun-sqlite';
-import { migrate } from 'drizzle-orm/bun-sqlite/migrator';
-import { Database } from 'bun:sqlite';
-import { resolve } from 'path';
-import * as schema from '../../src/storage/schema';
 import {
   RecallSetRepository,
   RecallPointRepository,
   SessionRepository,
   SessionMessageRepository,
 } from '../../src/storage/repositories';
-import { SessionEngine } from '../../src/core/session';
+import { SessionEngine, type SessionPlanSummary } from '../../src/core/session';
 import { FSRSScheduler } from '../../src/core/fsrs';
 import { RecallEvaluator } from '../../src/core/scoring';
 import type { RecallSet, RecallPoint, FSRSState } from '../../src/core/models';
@@ -40,8 +35,12 @@ import type { RecallEvaluation, EnhancedRecallEvaluation } from '../../src/core/
 import type { LLMMessage, LLMResponse, StreamCallbacks, LLMConfig } from '../../src/llm/types';
 import { LLMError } from '../../src/llm/types';
 import type { AppDatabase } from '../../src/storage/db';
+import { createTestDatabase, type TestDatabaseContext } from '../setup';
 import type { SessionEvent } from '../../src/core/session/types';
 
+/** These tests end points with trigger phrases, which are off by default */
+const TRIGGER_PHRASES_ON = { evaluateOnTriggerPhrases: true };
+
 // ===========================================================================
 // Mock Classes with Configurable Behavior
 // ===========================================================================
@@ -583,18 +582,6 @@ class FailableRecallPointRepository {
 // Test Helpers
 // ===========================================================================
 
-/**
- * Creates an in-memory test database with migrations applied.
- */
-function createTestDatabase(): { db: AppDatabase; sqlite: Database } {
-  const sqlite = new Database(':memory:');
-  sqlite.run('PRAGMA foreign_keys = ON');
-  const db = drizzle(sqlite, { schema });
-  const migrationsFolder = resolve(import.meta.dir, '../../drizzle');
-  migrate(db, { migrationsFolder });
-  return { db, sqlite };
-}
-
 /**
  * Generates a unique test ID with prefix
  */
@@ -660,25 +647,24 @@ async function seedTestData(
 
 describe('SessionEngine Comprehensive Tests', () => {
   let db: AppDatabase;
-  let sqlite: Database;
+  let testDb: TestDatabaseContext;
   let recallSetRepo: RecallSetRepository;
   let scheduler: FSRSScheduler;
   let mockLlmClient: ConfigurableMockLLMClient;
   let mockEvaluator: ConfigurableMockEvaluator;
 
-  beforeEach(() => {
-    const testDb = createTestDatabase();
+  beforeEach(async () => {
+    testDb = await createTestDatabase();
     db = testDb.db;
-    sqlite = testDb.sqlite;
     recallSetRepo = new RecallSetRepository(db);
     scheduler = new FSRSScheduler();
     mockLlmClient = new ConfigurableMockLLMClient();
     mockEvaluator = new ConfigurableMockEvaluator();
   });
 
-  afterEach(() => {
-    if (sqlite) {
-      sqlite.close();
+  afterEach(async () => {
+    if (testDb) {
+      await testDb.close();
     }
     mockLlmClient.reset();
     mockEvaluator.reset();
@@ -707,7 +693,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo: failableSessionRepo as unknown as SessionRepository,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         // Should throw when trying to start session
         await expect(engine.startSession(recallSet)).rejects.toThrow('Simulated database error');
@@ -731,7 +717,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo: failableMessageRepo as unknown as SessionMessageRepository,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         // Start session successfully
         await engine.startSession(recallSet);
@@ -761,7 +747,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo: failableRecallPointRepo as unknown as RecallPointRepository,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -789,7 +775,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo: failableSessionRepo as unknown as SessionRepository,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         // Start and progress a session
         await engine.startSession(recallSet);
@@ -832,7 +818,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo: failableMessageRepo as unknown as SessionMessageRepository,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -867,7 +853,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
 
@@ -892,7 +878,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
 
@@ -920,7 +906,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -947,7 +933,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -989,7 +975,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1028,7 +1014,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1054,7 +1040,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1088,7 +1074,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1122,7 +1108,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1151,7 +1137,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1192,7 +1178,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         // Should throw a meaningful error
         await expect(engine.startSession(emptySet)).rejects.toThrow('No recall points are due');
@@ -1213,7 +1199,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1246,7 +1232,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         // Should throw because no points are due
         await expect(engine.startSession(recallSet)).rejects.toThrow('No recall points are due');
@@ -1268,7 +1254,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         // Start session for first set
         await engine.startSession(set1);
@@ -1284,7 +1270,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         // Should be able to start a session for a different set
         const session2 = await engine2.startSession(set2);
@@ -1308,7 +1294,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1333,7 +1319,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1357,7 +1343,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1390,7 +1376,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1414,7 +1400,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1446,7 +1432,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1472,7 +1458,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1505,7 +1491,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1536,7 +1522,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await expect(engine.processUserMessage('Test')).rejects.toThrow('No active session');
       });
@@ -1554,7 +1540,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await expect(engine.getOpeningMessage()).rejects.toThrow('No active session');
       });
@@ -1572,7 +1558,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await expect(engine.abandonSession()).rejects.toThrow('No active session');
       });
@@ -1590,7 +1576,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         expect(engine.getSessionState()).toBeNull();
       });
@@ -1608,7 +1594,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await expect(engine.triggerEvaluation()).rejects.toThrow('No active session');
       });
@@ -1633,7 +1619,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         // Session should still start
         await engine.startSession(recallSet);
@@ -1665,7 +1651,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
 
@@ -1702,6 +1688,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           sessionRepo,
           messageRepo,
         }, {
+          ...TRIGGER_PHRASES_ON,
           autoEvaluateAfter: 2,
           maxMessagesPerPoint: 10,
           tutorTemperature: 0.7,
@@ -1741,6 +1728,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           sessionRepo,
           messageRepo,
         }, {
+          ...TRIGGER_PHRASES_ON,
           autoEvaluateAfter: 5,
           maxMessagesPerPoint: 10,
           tutorTemperature: 0.7,
@@ -1773,6 +1761,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           sessionRepo,
           messageRepo,
         }, {
+          ...TRIGGER_PHRASES_ON,
           autoEvaluateAfter: 1,
           maxMessagesPerPoint: 10,
           tutorTemperature: 0.7,
@@ -1805,6 +1794,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           sessionRepo,
           messageRepo,
         }, {
+          ...TRIGGER_PHRASES_ON,
           maxMessagesPerPoint: 3,
           autoEvaluateAfter: 100, // High threshold
           tutorTemperature: 0.7,
@@ -1867,6 +1857,7 @@ describe('SessionEngine Comprehensive Tests', () => {
             sessionRepo,
             messageRepo,
           }, {
+            ...TRIGGER_PHRASES_ON,
             maxMessagesPerPoint: 100,
             autoEvaluateAfter: 100,
             tutorTemperature: 0.7,
@@ -1897,6 +1888,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           sessionRepo,
           messageRepo,
         }, {
+          ...TRIGGER_PHRASES_ON,
           maxMessagesPerPoint: 100,
           autoEvaluateAfter: 100,
           tutorTemperature: 0.7,
@@ -1925,7 +1917,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1949,7 +1941,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1973,7 +1965,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -1981,6 +1973,54 @@ describe('SessionEngine Comprehensive Tests', () => {
         const result = await engine.processUserMessage('Thanks for explaining. I understand');
         expect(result.pointAdvanced).toBe(true);
       });
+
+      it('should only match phrases as whole words', async () => {
+        const sessionRepo = new SessionRepository(db);
+        const recallPointRepo = new RecallPointRepository(db);
+        const messageRepo = new SessionMessageRepository(db);
+
+        const { recallSet } = await seedTestData(recallSetRepo, recallPointRepo, scheduler, { pointCount: 2 });
+
+        const engine = new SessionEngine({
+          scheduler,
+          evaluator: mockEvaluator as unknown as RecallEvaluator,
+          llmClient: mockLlmClient as any,
+          recallSetRepo,
+          recallPointRepo,
+          sessionRepo,
+          messageRepo,
+        }, TRIGGER_PHRASES_ON);
+
+        await engine.startSession(recallSet);
+        await engine.getOpeningMessage();
+
+        const result = await engine.processUserMessage('The nextdoor neighbours kept a forgotit jar');
+        expect(result.pointAdvanced).toBe(false);
+      });
+
+      it('should ignore trigger phrases unless they are turned on', async () => {
+        const sessionRepo = new SessionRepository(db);
+        const recallPointRepo = new RecallPointRepository(db);
+        const messageRepo = new SessionMessageRepository(db);
+
+        const { recallSet } = await seedTestData(recallSetRepo, recallPointRepo, scheduler, { pointCount: 2 });
+
+        const engine = new SessionEngine({
+          scheduler,
+          evaluator: mockEvaluator as unknown as RecallEvaluator,
+          llmClient: mockLlmClient as any,
+          recallSetRepo,
+          recallPointRepo,
+          sessionRepo,
+          messageRepo,
+        });
+
+        await engine.startSession(recallSet);
+        await engine.getOpeningMessage();
+
+        const result = await engine.processUserMessage('Got it, what comes next?');
+        expect(result.pointAdvanced).toBe(false);
+      });
     });
 
     describe('Manual Evaluation', () => {
@@ -2000,6 +2040,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           sessionRepo,
           messageRepo,
         }, {
+          ...TRIGGER_PHRASES_ON,
           maxMessagesPerPoint: 100,
           autoEvaluateAfter: 100,
           tutorTemperature: 0.7,
@@ -2043,7 +2084,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -2073,7 +2114,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -2103,7 +2144,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -2131,7 +2172,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -2164,7 +2205,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         mockEvaluator.setMockResult(true, 0.9, 'First attempt');
 
@@ -2191,7 +2232,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         mockEvaluator.setMockResult(false, 0.3, 'Second attempt - failed');
 
@@ -2222,7 +2263,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -2255,7 +2296,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -2284,7 +2325,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -2313,7 +2354,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -2341,7 +2382,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(set1);
         await engine.getOpeningMessage();
@@ -2363,7 +2404,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(set2);
         await engine.getOpeningMessage();
@@ -2390,7 +2431,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -2418,7 +2459,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           recallPointRepo,
           sessionRepo,
           messageRepo,
-        });
+        }, TRIGGER_PHRASES_ON);
 
         await engine.startSession(recallSet);
         await engine.getOpeningMessage();
@@ -2452,6 +2493,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         sessionRepo,
         messageRepo,
       }, {
+        ...TRIGGER_PHRASES_ON,
         maxMessagesPerPoint: 100,
         autoEvaluateAfter: 100,
         tutorTemperature: 0.7,
@@ -2492,7 +2534,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       // Start first session
       const session1 = await engine.startSession(recallSet);
@@ -2519,6 +2561,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         sessionRepo,
         messageRepo,
       }, {
+        ...TRIGGER_PHRASES_ON,
         maxMessagesPerPoint: 100,
         autoEvaluateAfter: 100,
         tutorTemperature: 0.7,
@@ -2571,6 +2614,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           sessionRepo,
           messageRepo,
         }, {
+          ...TRIGGER_PHRASES_ON,
           maxMessagesPerPoint: 1,
           autoEvaluateAfter: 100,
           tutorTemperature: 0.7,
@@ -2603,6 +2647,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           sessionRepo,
           messageRepo,
         }, {
+          ...TRIGGER_PHRASES_ON,
           tutorTemperature: 0.9,
           tutorMaxTokens: 256,
           maxMessagesPerPoint: 10,
@@ -2635,6 +2680,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           sessionRepo,
           messageRepo,
         }, {
+          ...TRIGGER_PHRASES_ON,
           tutorTemperature: 0,
           tutorMaxTokens: 512,
           maxMessagesPerPoint: 10,
@@ -2657,6 +2703,7 @@ describe('SessionEngine Comprehensive Tests', () => {
           sessionRepo,
           messageRepo,
         }, {
+          ...TRIGGER_PHRASES_ON,
           tutorTemperature: 1.0,
           tutorMaxTokens: 512,
           maxMessagesPerPoint: 10,
@@ -2708,7 +2755,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       await engine.startSession(recallSet);
 
@@ -2750,7 +2797,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       // Should not throw
       await engine.startSession(recallSet);
@@ -2790,7 +2837,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       await engine.startSession(recallSet);
       const opening = await engine.getOpeningMessage();
@@ -2828,7 +2875,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       await engine.startSession(recallSet);
       const opening = await engine.getOpeningMessage();
@@ -2856,7 +2903,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       await engine.startSession(recallSet);
       await engine.getOpeningMessage();
@@ -2883,7 +2930,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       // Should not throw when token info is missing
       await engine.startSession(recallSet);
@@ -2917,7 +2964,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       engine.setEventListener((event) => {
         events.push(event);
@@ -2956,7 +3003,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       engine.setEventListener((event) => {
         events.push(event);
@@ -3007,7 +3054,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       engine.setEventListener(() => {
         throw new Error('Listener error');
@@ -3040,7 +3087,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       // Don't set any event listener - should work fine
       await engine.startSession(recallSet);
@@ -3065,7 +3112,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       engine.setEventListener((event) => {
         events.push(event);
@@ -3107,7 +3154,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       const session = await engine.startSession(recallSet);
       await engine.getOpeningMessage();
@@ -3135,7 +3182,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       const session = await engine.startSession(recallSet);
 
@@ -3159,7 +3206,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       const session = await engine.startSession(recallSet);
       await engine.getOpeningMessage();
@@ -3190,7 +3237,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         recallPointRepo,
         sessionRepo,
         messageRepo,
-      });
+      }, TRIGGER_PHRASES_ON);
 
       const session = await engine.startSession(recallSet);
       await engine.getOpeningMessage();
@@ -3223,6 +3270,7 @@ describe('SessionEngine Comprehensive Tests', () => {
         sessionRepo,
         messageRepo,
       }, {
+        ...TRIGGER_PHRASES_ON,
         maxMessagesPerPoint: 100,
         autoEvaluateAfter: 100,
         tutorTemperature: 0.7,
@@ -3252,4 +3300,93 @@ describe('SessionEngine Comprehensive Tests', () => {
       expect(userMessages.length).toBe(51);
     });
   });
+
+  // =========================================================================
+  // Per-set Scheduling Settings
+  // =========================================================================
+
+  describe('Per-set Scheduling Settings', () => {
+    function createEngine(recallPointRepo: RecallPointRepository, config = {}) {
+      return new SessionEngine(
+        {
+          scheduler,
+          evaluator: mockEvaluator as unknown as RecallEvaluator,
+          llmClient: mockLlmClient as any,
+          recallSetRepo,
+          recallPointRepo,
+          sessionRepo: new SessionRepository(db),
+          messageRepo: new SessionMessageRepository(db),
+        },
+        { ...TRIGGER_PHRASES_ON, ...config }
+      );
+    }
+
+    it('should cap the session at the set\'s max points per session', async () => {
+      const recallPointRepo = new RecallPointRepository(db);
+      const { recallSet } = await seedTestData(recallSetRepo, recallPointRepo, scheduler, { pointCount: 5 });
+      const limitedSet = await recallSetRepo.update(recallSet.id, { maxPointsPerSession: 3 });
+
+      const session = await createEngine(recallPointRepo).startSession(limitedSet);
+
+      expect(session.targetRecallPointIds).toHaveLength(3);
+    });
+
+    it('should fall back to the engine default for new points per day', async () => {
+      const recallPointRepo = new RecallPointRepository(db);
+      const { recallSet } = await seedTestData(recallSetRepo, recallPointRepo, scheduler, { pointCount: 2 });
+
+      const engine = createEngine(recallPointRepo, { newPointsPerDay: 0 });
+
+      await expect(engine.startSession(recallSet)).rejects.toThrow("Today's limit of 0 new recall points");
+    });
+
+    it('should schedule with the set\'s maximum interval', async () => {
+      const recallPointRepo = new RecallPointRepository(db);
+      const { recallSet, recallPoints } = await seedTestData(recallSetRepo, recallPointRepo, scheduler, {
+        pointCount: 1,
+      });
+      const now = new Date();
+      await recallPointRepo.updateFSRSState(recallPoints[0].id, {
+        difficulty: 5,
+        stability: 30,
+        due: now,
+        lastReview: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000),
+        reps: 3,
+        lapses: 0,
+        state: 'review',
+      });
+      const cappedSet = await recallSetRepo.update(recallSet.id, { maximumIntervalDays: 7 });
+
+      const engine = createEngine(recallPointRepo);
+      await engine.startSession(cappedSet);
+      await engine.getOpeningMessage();
+      const result = await engine.processUserMessage('I understand!');
+      expect(result.completed).toBe(true);
+
+      const updated = await recallPointRepo.findById(recallPoints[0].id);
+      const intervalDays = (updated!.fsrsState.due.getTime() - now.getTime()) / (24 * 60 * 60 * 1000);
+      // Uncapped, stability 30 would schedule about a month ahead. ts-fsrs keeps
+      // hard, good, and easy a day apart, so good/easy can pass the cap by 1-2 days.
+      expect(intervalDays).toBeGreaterThan(0.5);
+      expect(intervalDays).toBeLessThan(9.01);
+    });
+
+    it('should cap sessions at the engine default and report the plan', async () => {
+      const recallPointRepo = new RecallPointRepository(db);
+      const { recallSet } = await seedTestData(recallSetRepo, recallPointRepo, scheduler, { pointCount: 25 });
+      const engine = createEngine(recallPointRepo);
+      const events: SessionEvent[] = [];
+      engine.setEventListener((event) => events.push(event));
+
+      const session = await engine.startSession(recallSet);
+
+      expect(session.targetRecallPointIds).toHaveLength(20);
+      const started = events.find((e) => e.type === 'session_started')!;
+      const { plan } = started.data as { plan: SessionPlanSummary };
+      expect(plan.maxPoints).toBe(20);
+      expect(plan.deferredCount).toBe(5);
+      expect(plan.followUpSessions).toBe(1);
+      expect(plan.order.map((p) => p.recallPointId)).toEqual(session.targetRecallPointIds);
+    });
+  });
 });
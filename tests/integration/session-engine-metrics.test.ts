@@ -19,12 +19,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
-import { drizzle } from 'drizzle-orm/bun-sqlite';
-import { migrate } from 'drizzle-orm/bun-sqlite/migrator';
-import { Database } from 'bun:sqlite';
-import { resolve } from 'path';
 import { eq } from 'drizzle-orm';
-import * as schema from '../../src/storage/schema';
 import {
   RecallSetRepository,
   RecallPointRepository,
@@ -43,6 +38,10 @@ import type { RecallSet, RecallPoint, Session } from '../../src/core/models';
 import type { EnhancedRecallEvaluation, RecallEvaluation } from '../../src/core/scoring/types';
 import type { LLMMessage, LLMResponse, StreamCallbacks, LLMConfig } from '../../src/llm/types';
 import type { AppDatabase } from '../../src/storage/db';
+import { createTestDatabase, type TestDatabaseContext } from '../setup';
+
+/** These tests end points with trigger phrases, which are off by default */
+const TRIGGER_PHRASES_ON = { evaluateOnTriggerPhrases: true };
 
 // ============================================================================
 // Mock Implementations for Deterministic Testing
@@ -271,18 +270,6 @@ class MockRecallEvaluator {
 // Test Utilities
 // ============================================================================
 
-/**
- * Creates an in-memory database with all migrations applied.
- */
-function createTestDatabase(): { db: AppDatabase; sqlite: Database } {
-  const sqlite = new Database(':memory:');
-  sqlite.run('PRAGMA foreign_keys = ON');
-  const db = drizzle(sqlite, { schema });
-  const migrationsFolder = resolve(import.meta.dir, '../../drizzle');
-  migrate(db, { migrationsFolder });
-  return { db, sqlite };
-}
-
 /**
  * Seeds the database with test recall set and points that are due for review.
  * Uses unique IDs for each call to avoid conflicts.
@@ -328,7 +315,7 @@ async function seedTestData(
 describe('SessionEngine Metrics Integration', () => {
   // Database and repositories
   let db: AppDatabase;
-  let sqlite: Database;
+  let testDb: TestDatabaseContext;
   let recallSetRepo: RecallSetRepository;
   let recallPointRepo: RecallPointRepository;
   let sessionRepo: SessionRepository;
@@ -350,9 +337,8 @@ describe('SessionEngine Metrics Integration', () => {
 
   beforeEach(async () => {
     // Create fresh in-memory database with migrations
-    const testDb = createTestDatabase();
+    testDb = await createTestDatabase();
     db = testDb.db;
-    sqlite = testDb.sqlite;
 
     // Initialize all repositories
     recallSetRepo = new RecallSetRepository(db);
@@ -382,9 +368,9 @@ describe('SessionEngine Metrics Integration', () => {
     testRecallPoints = seedData.recallPoints;
   });
 
-  afterEach(() => {
-    if (sqlite) {
-      sqlite.close();
+  afterEach(async () => {
+    if (testDb) {
+      await testDb.close();
     }
   });
 
@@ -411,6 +397,7 @@ describe('SessionEngine Metrics Integration', () => {
           rabbitholeRepo,
         },
         {
+          ...TRIGGER_PHRASES_ON,
           maxMessagesPerPoint: 5,
           autoEvaluateAfter: 3,
           tutorTemperature: 0.7,
@@ -444,6 +431,7 @@ describe('SessionEngine Metrics Integration', () => {
           // No metrics dependencies provided
         },
         {
+          ...TRIGGER_PHRASES_ON,
           maxMessagesPerPoint: 5,
           autoEvaluateAfter: 3,
           tutorTemperature: 0.7,
@@ -491,7 +479,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsCollector: spyCollector,
           metricsRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       // Act: Start session
@@ -525,7 +513,7 @@ describe('SessionEngine Metrics Integration', () => {
           rabbitholeDetector: spyDetector,
           rabbitholeRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       // Act: Start session
@@ -572,7 +560,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsCollector: spyCollector,
           metricsRepo,
         },
-        { maxMessagesPerPoint: 10, autoEvaluateAfter: 8, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 10, autoEvaluateAfter: 8, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       // Act: Start session and exchange messages
@@ -611,7 +599,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsCollector,
           metricsRepo,
         },
-        { maxMessagesPerPoint: 10, autoEvaluateAfter: 8, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 10, autoEvaluateAfter: 8, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       // Act: Run conversation
@@ -656,7 +644,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsCollector: failingCollector,
           metricsRepo,
         },
-        { maxMessagesPerPoint: 10, autoEvaluateAfter: 8, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 10, autoEvaluateAfter: 8, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       // Act & Assert: Session should continue despite metrics recording failure
@@ -724,7 +712,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsCollector: spyCollector,
           metricsRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       // Configure mock evaluator - reset first to clear any previous state
@@ -794,7 +782,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsCollector: spyCollector,
           metricsRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       // Configure mock evaluator for two successful evaluations
@@ -863,7 +851,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsCollector: spyCollector,
           metricsRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       // Configure specific evaluation data
@@ -923,7 +911,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsRepo,
           recallOutcomeRepo: outcomeRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       // Configure evaluator for both points
@@ -960,7 +948,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsRepo,
           recallOutcomeRepo: outcomeRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       mockEvaluator.setMockResults([
@@ -1001,7 +989,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsRepo,
           recallOutcomeRepo: outcomeRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       mockEvaluator.setMockResults([
@@ -1068,7 +1056,7 @@ describe('SessionEngine Metrics Integration', () => {
           recallOutcomeRepo: outcomeRepo,
           rabbitholeRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       mockEvaluator.setMockResults([
@@ -1123,7 +1111,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsRepo: failingMetricsRepo as any,
           recallOutcomeRepo: outcomeRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       mockEvaluator.setMockResults([
@@ -1175,7 +1163,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsRepo,
           recallOutcomeRepo: outcomeRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       // Act: Start session and abandon before any evaluation
@@ -1209,7 +1197,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsRepo, // But repo IS provided
           recallOutcomeRepo: outcomeRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       mockEvaluator.setMockResults([
@@ -1247,7 +1235,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsCollector,
           metricsRepo,
         },
-        { maxMessagesPerPoint: 10, autoEvaluateAfter: 8, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 10, autoEvaluateAfter: 8, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       const session = await engine1.startSession(testRecallSet);
@@ -1268,7 +1256,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsCollector: newMetricsCollector,
           metricsRepo,
         },
-        { maxMessagesPerPoint: 10, autoEvaluateAfter: 8, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 10, autoEvaluateAfter: 8, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       // Act: Resume the session
@@ -1304,7 +1292,7 @@ describe('SessionEngine Metrics Integration', () => {
           recallOutcomeRepo: outcomeRepo,
           rabbitholeRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       mockEvaluator.setMockResults([
@@ -1363,7 +1351,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsRepo,
           recallOutcomeRepo: outcomeRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       mockEvaluator.setMockResults([
@@ -1425,7 +1413,7 @@ describe('SessionEngine Metrics Integration', () => {
           metricsRepo,
           recallOutcomeRepo: outcomeRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       mockEvaluator.setMockResults([
@@ -1499,7 +1487,7 @@ describe('SessionEngine Metrics Integration', () => {
           recallOutcomeRepo: outcomeRepo,
           rabbitholeRepo,
         },
-        { maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
+        { ...TRIGGER_PHRASES_ON, maxMessagesPerPoint: 5, autoEvaluateAfter: 3, tutorTemperature: 0.7, tutorMaxTokens: 512 }
       );
 
       mockEvaluator.setMockResults([
@@ -17,11 +17,6 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
-import { drizzle } from 'drizzle-orm/bun-sqlite';
-import { migrate } from 'drizzle-orm/bun-sqlite/migrator';
-import { Database } from 'bun:sqlite';
-import { resolve } from 'path';
-import * as schema from '../../src/storage/schema';
 import {
   RecallSetRepository,
   RecallPointRepository,
@@ -35,6 +30,10 @@ import type { RecallSet, RecallPoint, FSRSState } from '../../src/core/models';
 import type { RecallEvaluation } from '../../src/core/scoring/types';
 import type { LLMMessage, LLMResponse, StreamCallbacks, LLMConfig } from '../../src/llm/types';
 import type { AppDatabase } from '../../src/storage/db';
+import { createTestDatabase, type TestDatabaseContext } from '../setup';
+
+/** These tests end points with trigger phrases, which are off by default */
+const TRIGGER_PHRASES_ON = { evaluateOnTriggerPhrases: true };
 
 /**
  * Mock Anthropic Client for deterministic testing.
@@ -167,32 +166,6 @@ class MockRecallEvaluator {
   }
 }
 
-/**
- * Creates an in-memory database with migrations applied.
- *
- * This function creates a fresh SQLite database in memory, applies all
- * migrations from the drizzle folder, and returns a configured database instance.
- *
- * @returns Object containing the database instance and raw SQLite connection
- */
-function createTestDatabase(): { db: AppDatabase; sqlite: Database } {
-  // Create in-memory SQLite database
-  const sqlite = new Database(':memory:');
-
-  // Enable foreign key constraints (disabled by default in SQLite)
-  sqlite.run('PRAGMA foreign_keys = ON');
-
-  // Create Drizzle ORM wrapper with schema
-  const db = drizzle(sqlite, { schema });
-
-  // Apply migrations from the drizzle folder
-  // Path is relative to the project root
-  const migrationsFolder = resolve(import.meta.dir, '../../drizzle');
-  migrate(db, { migrationsFolder });
-
-  return { db, sqlite };
-}
-
 /**
  * Seeds the database with test data.
  *
@@ -252,7 +225,7 @@ async function seedTestData(
 describe('Session Flow E2E', () => {
   // Database and repository instances
   let db: AppDatabase;
-  let sqlite: Database;
+  let testDb: TestDatabaseContext;
   let recallSetRepo: RecallSetRepository;
   let recallPointRepo: RecallPointRepository;
   let sessionRepo: SessionRepository;
@@ -270,9 +243,8 @@ describe('Session Flow E2E', () => {
 
   beforeEach(async () => {
     // Create fresh in-memory database with migrations
-    const testDb = createTestDatabase();
+    testDb = await createTestDatabase();
     db = testDb.db;
-    sqlite = testDb.sqlite;
 
     // Initialize repositories
     recallSetRepo = new RecallSetRepository(db);
@@ -302,6 +274,7 @@ describe('Session Flow E2E', () => {
         messageRepo,
       },
       {
+        ...TRIGGER_PHRASES_ON,
         // Use smaller message limits for faster tests
         maxMessagesPerPoint: 5,
         autoEvaluateAfter: 3,
@@ -311,10 +284,10 @@ describe('Session Flow E2E', () => {
     );
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     // Close the SQLite database connection
-    if (sqlite) {
-      sqlite.close();
+    if (testDb) {
+      await testDb.close();
     }
   });
 
@@ -472,6 +445,7 @@ describe('Session Flow E2E', () => {
         messageRepo,
       },
       {
+        ...TRIGGER_PHRASES_ON,
         maxMessagesPerPoint: 5,
         autoEvaluateAfter: 3,
         tutorTemperature: 0.7,
@@ -504,7 +478,7 @@ describe('Session Flow E2E', () => {
     const intervalAfterHighConfidence = pointAfterEasy!.fsrsState.due.getTime() - Date.now();
 
     // Reset and test with lower confidence
-    const { db: newDb, sqlite: newSqlite } = createTestDatabase();
+    const { db: newDb, close: closeNewDb } = await createTestDatabase();
     const newRecallSetRepo = new RecallSetRepository(newDb);
     const newRecallPointRepo = new RecallPointRepository(newDb);
     const newSessionRepo = new SessionRepository(newDb);
@@ -524,6 +498,7 @@ describe('Session Flow E2E', () => {
         messageRepo: newMessageRepo,
       },
       {
+        ...TRIGGER_PHRASES_ON,
         maxMessagesPerPoint: 5,
         autoEvaluateAfter: 3,
         tutorTemperature: 0.7,
@@ -547,7 +522,7 @@ describe('Session Flow E2E', () => {
     expect(intervalAfterHighConfidence).toBeGreaterThanOrEqual(intervalAfterLowConfidence);
 
     // Cleanup
-    newSqlite.close();
+    await closeNewDb();
   });
 
   it('should persist all session messages correctly', async () => {
@@ -0,0 +1,216 @@
+/**
+ * Integration Tests: Tangent Exploration
+ *
+ * A learner can step aside from the current recall point to explore a
+ * tangent ("let's explore this", /explore in the CLI, explore_tangent over
+ * WebSocket) and come back to the point with a recap. Tests run the real
+ * SessionEngine and metrics collector against an in-memory database, with
+ * a mocked tutor and evaluator:
+ *
+ * - Exploring switches the tutor to the tangent prompt and records a
+ *   learner-initiated rabbithole
+ * - The topic defaults to the learner's last message on the point
+ * - Messages in the tangent are answered without counting towards the
+ *   point or being evaluated, and point commands are refused
+ * - Returning restores the tutor prompt, asks for a recap and marks the
+ *   rabbithole returned
+ * - The point's timer is paused while the tangent is explored
+ * - Abandoning the session mid-tangent marks the rabbithole abandoned
+ */
+
+import { describe, it, expect, beforeEach, afterEach, setSystemTime } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import {
+  createTestRecallSet,
+  createTestRecallPoint,
+  createTestSessionEngine,
+  createTestTutor,
+  SuccessfulRecallEvaluator,
+  daysAgo,
+} from '../helpers';
+import type { SessionEvent } from '../../src/core/session';
+import type { RecallSet } from '../../src/core/models';
+import type { ScriptedLLMProvider } from '../../src/llm';
+
+describe('Tangent exploration', () => {
+  let ctx: TestContext;
+  let recallSet: RecallSet;
+  let tutor: ScriptedLLMProvider;
+  let evaluator: SuccessfulRecallEvaluator;
+  let events: SessionEvent[];
+
+  /** Starts a session on the set's point and returns its engine. */
+  const startSession = async (config: { maxMessagesPerPoint?: number } = {}) => {
+    const engine = createTestSessionEngine(
+      ctx,
+      { evaluator, llmClient: tutor, rabbitholeRepo: ctx.repos.rabbitholeRepo },
+      config
+    );
+    engine.setEventListener((event) => events.push(event));
+    const session = await engine.startSession(recallSet);
+    await engine.getOpeningMessage();
+    return { engine, session };
+  };
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    // The tutor recaps when asked to, and answers tangent questions under the tangent prompt
+    tutor = createTestTutor([
+      {
+        match: { promptIncludes: 'Recap the tangent' },
+        text: 'So reparations drove the printing. Back to the treaty: what do you remember?',
+        repeat: true,
+      },
+      {
+        match: { systemIncludes: 'explore a tangent' },
+        text: 'Germany printed money partly to pay reparations.',
+        repeat: true,
+      },
+    ]);
+    evaluator = new SuccessfulRecallEvaluator();
+    events = [];
+    recallSet = await createTestRecallSet(ctx.repos);
+    await createTestRecallPoint(ctx.repos, {
+      recallSetId: recallSet.id,
+      content: 'The Treaty of Versailles was signed in 1919',
+      context: 'It ended the First World War.',
+      fsrsState: { state: 'review', stability: 10, reps: 3, lastReview: daysAgo(10), due: daysAgo(1) },
+    });
+  });
+
+  afterEach(async () => {
+    setSystemTime();
+    await cleanupTestDatabase(ctx);
+  });
+
+  it('should follow the tangent under its own prompt and record a learner-initiated rabbithole', async () => {
+    const { engine, session } = await startSession();
+    await engine.processUserMessage('It was signed after the war ended');
+
+    const tangent = await engine.exploreTangent('Why did Germany print so much money?');
+
+    expect(tangent.response).toBe('Germany printed money partly to pay reparations.');
+    expect(tutor.getSystemPrompt()).toContain('Why did Germany print so much money?');
+    expect(tutor.getSystemPrompt()).not.toContain('The Treaty of Versailles was signed in 1919');
+    expect(engine.getSessionState()!.exploringTangent).toEqual({
+      rabbitholeId: tangent.rabbitholeId,
+      topic: 'Why did Germany print so much money?',
+    });
+
+    const [rabbithole] = await ctx.repos.rabbitholeRepo.findBySessionId(session.id);
+    expect(rabbithole).toMatchObject({
+      id: tangent.rabbitholeId,
+      topic: 'Why did Germany print so much money?',
+      triggerMessageIndex: 3,
+      returnMessageIndex: null,
+      userInitiated: true,
+      status: 'active',
+    });
+    expect(events.find((event) => event.type === 'tangent_opened')?.data).toMatchObject({
+      rabbitholeId: tangent.rabbitholeId,
+    });
+  });
+
+  it("should take the topic from the learner's last message on the point", async () => {
+    const { engine, session } = await startSession();
+    await expect(engine.exploreTangent()).rejects.toThrow('Say what to explore');
+
+    await engine.processUserMessage('Wait, why did Germany print so much money afterwards?');
+    const tangent = await engine.exploreTangent();
+
+    expect(tangent.topic).toBe('Wait, why did Germany print so much money afterwards?');
+    const [rabbithole] = await ctx.repos.rabbitholeRepo.findBySessionId(session.id);
+    expect(rabbithole.triggerMessageIndex).toBe(1);
+  });
+
+  it('should answer tangent messages without counting or evaluating them', async () => {
+    const { engine } = await startSession({ maxMessagesPerPoint: 2 });
+    await engine.exploreTangent('Weimar hyperinflation');
+
+    for (const question of ['How bad did it get?', 'I got it, who fixed it?', 'And then?']) {
+      const result = await engine.processUserMessage(question);
+      expect(result).toMatchObject({ pointAdvanced: false, completed: false });
+      expect(result.response).toBe('Germany printed money partly to pay reparations.');
+    }
+
+    expect(evaluator.evaluations).toHaveLength(0);
+  });
+
+  it('should refuse commands about the point until the learner returns', async () => {
+    const { engine } = await startSession();
+    await engine.exploreTangent('Weimar hyperinflation');
+
+    await expect(engine.triggerEvaluation()).rejects.toThrow('Return from the tangent');
+    await expect(engine.requestHint()).rejects.toThrow('Return from the tangent');
+    await expect(engine.skipPoint()).rejects.toThrow('Return from the tangent');
+    await expect(engine.revealPoint()).rejects.toThrow('Return from the tangent');
+    await expect(engine.undoLastMessage()).rejects.toThrow('Return from the tangent');
+    await expect(engine.exploreTangent('Something else')).rejects.toThrow('Already exploring');
+  });
+
+  it('should return to the point with a recap under the tutor prompt', async () => {
+    const { engine, session } = await startSession();
+    const tangent = await engine.exploreTangent('Weimar hyperinflation');
+    await engine.processUserMessage('How bad did it get?');
+
+    const recap = await engine.returnFromTangent();
+
+    expect(recap.response).toContain('Back to the treaty');
+    const recapCall = tutor.getCalls().at(-1)!;
+    expect(recapCall.systemPrompt).not.toContain('explore a tangent');
+    expect(recapCall.messages[recapCall.messages.length - 1].content).toContain('Weimar hyperinflation');
+    expect(engine.getSessionState()!.exploringTangent).toBeNull();
+
+    const messages = await ctx.repos.messageRepo.findBySessionId(session.id);
+    const [rabbithole] = await ctx.repos.rabbitholeRepo.findBySessionId(session.id);
+    expect(rabbithole).toMatchObject({
+      id: tangent.rabbitholeId,
+      returnMessageIndex: messages.length - 1,
+      status: 'returned',
+    });
+    expect(events.map((event) => event.type)).toContain('tangent_closed');
+
+    // Back on the point, answers are evaluated again
+    await engine.triggerEvaluation();
+    expect(evaluator.evaluations).toHaveLength(1);
+    await expect(engine.returnFromTangent()).rejects.toThrow('Not exploring a tangent');
+  });
+
+  it("should pause the point's timer while the tangent is explored", async () => {
+    const start = Date.now();
+    const at = (seconds: number) => setSystemTime(new Date(start + seconds * 1000));
+
+    at(0);
+    const { engine, session } = await startSession();
+    at(10);
+    await engine.processUserMessage('It was signed after the war');
+    at(20);
+    await engine.exploreTangent('Weimar hyperinflation');
+    at(50);
+    await engine.processUserMessage('How bad did it get?');
+    at(80);
+    await engine.returnFromTangent();
+    at(90);
+    await engine.processUserMessage('Signed in 1919, ending the war');
+    at(100);
+    await engine.triggerEvaluation();
+
+    // 90 seconds on the point, 60 of them in the tangent
+    const [outcome] = await ctx.repos.outcomeRepo.findBySessionId(session.id);
+    expect(outcome.timeSpentMs).toBe(30_000);
+  });
+
+  it('should mark the tangent abandoned when the session is abandoned mid-tangent', async () => {
+    const { engine, session } = await startSession();
+    await engine.exploreTangent('Weimar hyperinflation');
+
+    await engine.abandonSession();
+
+    const [rabbithole] = await ctx.repos.rabbitholeRepo.findBySessionId(session.id);
+    expect(rabbithole.status).toBe('abandoned');
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * Integration Tests: Tangent Follow-up
+ *
+ * Once a session is over, its finished rabbitholes are summarized into
+ * candidate recall points that the learner accepts or dismisses. Tests run
+ * the real TangentFollowUpService against an in-memory database, with a
+ * mocked LLM:
+ *
+ * - Returned and abandoned rabbitholes are summarized from their transcript slice
+ * - Rabbitholes with a candidate aren't summarized again
+ * - Tangents the LLM finds nothing in are counted, not proposed
+ * - Accepting adds a new point to the recall set or the "Tangents" inbox
+ * - Reviewed candidates can't be reviewed again
+ * - Completing a session proposes candidates from its rabbitholes
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  createTestContext,
+  cleanupTestDatabase,
+  type TestContext,
+} from '../setup';
+import {
+  createTestRecallSet,
+  createTestRecallPoint,
+  createTestSession,
+  createTestSessionEngine,
+} from '../helpers';
+import {
+  TangentFollowUpService,
+  TangentFollowUpError,
+  TANGENT_INBOX_NAME,
+} from '../../src/core/analysis';
+import type { SessionEvent } from '../../src/core/session';
+import { TangentCandidateRepository } from '../../src/storage/repositories';
+import type { RecallSet } from '../../src/core/models';
+import type { LLMProvider, LLMResponse } from '../../src/llm/types';
+
+/**
+ * Mock LLM that summarizes each tangent as scripted by topic (by default a
+ * point about the topic) and records the prompts it was given.
+ */
+class ScriptedSummarizer {
+  summaries = new Map<string, { content: string | null; context?: string }>();
+  prompts: string[] = [];
+
+  async complete(prompt: string): Promise<LLMResponse> {
+    this.prompts.push(prompt);
+    const topic = prompt.match(/<tangent_topic>\n(.*)\n<\/tangent_topic>/)![1];
+    const summary = this.summaries.get(topic) ?? {
+      content: `An idea about ${topic} worth remembering`,
+      context: `Came up as a tangent about ${topic}.`,
+    };
+    return {
+      text: JSON.stringify(summary),
+      usage: { inputTokens: 10, outputTokens: 10 },
+      stopReason: 'end_turn',
+    };
+  }
+}
+
+describe('Tangent follow-up', () => {
+  let ctx: TestContext;
+  let summarizer: ScriptedSummarizer;
+  let tangentRepo: TangentCandidateRepository;
+  let service: TangentFollowUpService;
+  let recallSet: RecallSet;
+
+  /** Creates a session with a six-message transcript. */
+  async function createSessionWithTranscript(
+    options: { recallSetId?: string | null; status?: 'in_progress' | 'completed' | 'abandoned' } = {}
+  ): Promise<string> {
+    const session = await createTestSession(ctx.repos, {
+      recallSetId: options.recallSetId === undefined ? recallSet.id : options.recallSetId,
+      status: options.status ?? 'completed',
+    });
+    const start = Date.now();
+    for (let i = 0; i < 6; i++) {
+      await ctx.repos.messageRepo.create({
+        id: `msg_${session.id}_${i}`,
+        sessionId: session.id,
+        role: i % 2 === 0 ? 'assistant' : 'user',
+        content: `Message ${i}`,
+        timestamp: new Date(start + i * 1000),
+      });
+    }
+    return session.id;
+  }
+
+  /** Records a rabbithole in a session. */
+  async function createRabbithole(
+    sessionId: string,
+    options: {
+      topic: string;
+      triggerMessageIndex: number;
+      returnMessageIndex?: number | null;
+      status?: 'active' | 'returned' | 'abandoned';
+      relatedRecallPointIds?: string[];
+    }
+  ): Promise<string> {
+    const id = `rh_${crypto.randomUUID()}`;
+    await ctx.repos.rabbitholeRepo.create({
+      id,
+      sessionId,
+      topic: options.topic,
+      triggerMessageIndex: options.triggerMessageIndex,
+      returnMessageIndex: options.returnMessageIndex ?? null,
+      depth: 1,
+      relatedRecallPointIds: options.relatedRecallPointIds ?? [],
+      userInitiated: true,
+      status: options.status ?? 'returned',
+      createdAt: new Date(),
+    });
+    return id;
+  }
+
+  beforeEach(async () => {
+    ctx = await createTestContext();
+    summarizer = new ScriptedSummarizer();
+    tangentRepo = new TangentCandidateRepository(ctx.db);
+    service = new TangentFollowUpService({
+      sessionRepo: ctx.repos.sessionRepo,
+      messageRepo: ctx.repos.messageRepo,
+      rabbitholeRepo: ctx.repos.rabbitholeRepo,
+      tangentRepo,
+      recallSetRepo: ctx.repos.recallSetRepo,
+      recallPointRepo: ctx.repos.recallPointRepo,
+      scheduler: ctx.scheduler,
+      llmClient: summarizer as unknown as LLMProvider,
+    });
+    recallSet = await createTestRecallSet(ctx.repos, { name: 'Interwar Europe' });
+  });
+
+  afterEach(async () => {
+    await cleanupTestDatabase(ctx);
+  });
+
+  describe('proposeForSession', () => {
+    it('should summarize returned and abandoned rabbitholes from their transcript slice', async () => {
+      // Arrange
+      const sessionId = await createSessionWithTranscript();
+      const returnedId = await createRabbithole(sessionId, {
+        topic: 'Weimar hyperinflation',
+        triggerMessageIndex: 1,
+        returnMessageIndex: 2,
+      });
+      const abandonedId = await createRabbithole(sessionId, {
+        topic: 'the Dawes Plan',
+        triggerMessageIndex: 4,
+        status: 'abandoned',
+      });
+
+      // Act
+      const result = await service.proposeForSession(sessionId);
+
+      // Assert
+      expect(result.proposed).toHaveLength(2);
+      expect(result.skippedCount).toBe(0);
+
+      const returned = result.proposed.find((c) => c.rabbitholeEventId === returnedId)!;
+      expect(returned.status).toBe('pending');
+      expect(returned.recallSetId).toBe(recallSet.id);
+      expect(returned.topic).toBe('Weimar hyperinflation');
+      expect(returned.content).toBe('An idea about Weimar hyperinflation worth remembering');
+      expect(returned.context).toBe('Came up as a tangent about Weimar hyperinflation.');
+
+      // The returned tangent ends where the conversation came back; the
+      // abandoned one runs to the end of the session
+      expect(summarizer.prompts[0]).toContain('[Learner]: Message 1');
+      expect(summarizer.prompts[0]).toContain('[Tutor]: Message 2');
+      expect(summarizer.prompts[0]).not.toContain('Message 3');
+      expect(summarizer.prompts[0]).toContain('"Interwar Europe"');
+      expect(summarizer.prompts[1]).toContain('[Tutor]: Message 4');
+      expect(summarizer.prompts[1]).toContain('[Learner]: Message 5');
+      expect(summarizer.prompts[1]).not.toContain('Message 3');
+
+      expect(result.proposed.some((c) => c.rabbitholeEventId === abandonedId)).toBe(true);
+      expect(await tangentRepo.findBySessionId(sessionId)).toHaveLength(2);
+    });
+
+    it('should leave active rabbitholes alone', async () => {
+      const sessionId = await createSessionWithTranscript({ status: 'abandoned' });
+      await createRabbithole(sessionId, {
+        topic: 'Weimar hyperinflation',
+        triggerMessageIndex: 1,
+        status: 'active',
+      });
+
+      const result = await service.proposeForSession(sessionId);
+
+      expect(result.proposed).toHaveLength(0);
+      expect(summarizer.prompts).toHaveLength(0);
+    });
+
+    it('should not summarize a rabbithole that already has a candidate', async () => {
+      const sessionId = await createSessionWithTranscript();
+      await createRabbithole(sessionId, {
+        topic: 'Weimar hyperinflation',
+        triggerMessageIndex: 1,
+        returnMessageIndex: 2,
+      });
+      await service.proposeForSession(sessionId);
+      await createRabbithole(sessionId, {
+        topic: 'the Dawes Plan',
+        triggerMessageIndex: 3,
+        returnMessageIndex: 4,
+      });
+
+      const result = await service.proposeForSession(sessionId);
+
+      expect(result.proposed.map((c) => c.topic)).toEqual(['the Dawes Plan']);
+      expect(summarizer.prompts).toHaveLength(2);
+      expect(await tangentRepo.findBySessionId(sessionId)).toHaveLength(2);
+    });
+
+    it('should count tangents with nothing worth keeping as skipped', async () => {
+      const sessionId = await createSessionWithTranscript();
+      await createRabbithole(sessionId, {
+        topic: 'the weather',
+        triggerMessageIndex: 1,
+        returnMessageIndex: 2,
+      });
+      summarizer.summaries.set('the weather', { content: null });
+
+      const result = await service.proposeForSession(sessionId);
+
+      expect(result.proposed).toHaveLength(0);
+      expect(result.skippedCount).toBe(1);
+      expect(await tangentRepo.findBySessionId(sessionId)).toHaveLength(0);
+    });
+
+    it('should count tangents whose messages are gone as skipped without asking the LLM', async () => {
+      const sessionId = await createSessionWithTranscript();
+      await createRabbithole(sessionId, {
+        topic: 'Weimar hyperinflation',
+        triggerMessageIndex: 10,
+        returnMessageIndex: 12,
+      });
+
+      const result = await service.proposeForSession(sessionId);
+
+      expect(result.skippedCount).toBe(1);
+      expect(summarizer.prompts).toHaveLength(0);
+    });
+
+    it('should take the recall set of a related point for a daily review', async () => {
+      const point = await createTestRecallPoint(ctx.repos, { recallSetId: recallSet.id });
+      const sessionId = await createSessionWithTranscript({ recallSetId: null });
+      await createRabbithole(sessionId, {
+        topic: 'Weimar hyperinflation',
+        triggerMessageIndex: 1,
+        returnMessageIndex: 2,
+        relatedRecallPointIds: [point.id],
+      });
+      await createRabbithole(sessionId, {
+        topic: 'the weather',
+        triggerMessageIndex: 3,
+        returnMessageIndex: 4,
+      });
+
+      const result = await service.proposeForSession(sessionId);
+
+      const byTopic = new Map(result.proposed.map((c) => [c.topic, c]));
+      expect(byTopic.get('Weimar hyperinflation')!.recallSetId).toBe(recallSet.id);
+      expect(byTopic.get('the weather')!.recallSetId).toBeNull();
+    });
+
+    it('should refuse a session that is still in progress', async () => {
+      const sessionId = await createSessionWithTranscript({ status: 'in_progress' });
+
+      const error = await service.proposeForSession(sessionId).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TangentFollowUpError);
+      expect((error as TangentFollowUpError).type).toBe('session_in_progress');
+    });
+
+    it('should report a missing session', async () => {
+      const error = await service.proposeForSession('sess_missing').catch((e) => e);
+
+      expect((error as TangentFollowUpError).type).toBe('session_not_found');
+    });
+  });
+
+  describe('accept', () => {
+    /** Proposes a single candidate and returns its ID. */
+    async function proposeOne(recallSetId: string | null = recallSet.id): Promise<string> {
+      const sessionId = await createSessionWithTranscript({ recallSetId });
+      await createRabbithole(sessionId, {
+        topic: 'Weimar hyperinflation',
+        triggerMessageIndex: 1,
+        returnMessageIndex: 2,
+      });
+      const { proposed } = await service.proposeForSession(sessionId);
+      return proposed[0].id;
+    }
+
+    it('should add the candidate as a new, due recall point to its recall set', async () => {
+      const candidateId = await proposeOne();
+
+      const accepted = await service.accept(candidateId, { destination: 'set' });
+
+      expect(accepted.status).toBe('accepted');
+      expect(accepted.reviewedAt).toBeInstanceOf(Date);
+      const point = await ctx.repos.recallPointRepo.findById(accepted.recallPointId!);
+      expect(point!.recallSetId).toBe(recallSet.id);
+      expect(point!.content).toBe('An idea about Weimar hyperinflation worth remembering');
+      expect(point!.context).toBe('Came up as a tangent about Weimar hyperinflation.');
+      expect(point!.fsrsState.state).toBe('new');
+      expect(point!.fsrsState.due.getTime()).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('should use the edited content and context', async () => {
+      const candidateId = await proposeOne();
+
+      const accepted = await service.accept(candidateId, {
+        destination: 'set',
+        content: '  Reparations fed the 1923 hyperinflation  ',
+        context: 'Follows from the Treaty of Versailles.',
+      });
+
+      const point = await ctx.repos.recallPointRepo.findById(accepted.recallPointId!);
+      expect(point!.content).toBe('Reparations fed the 1923 hyperinflation');
+      expect(point!.context).toBe('Follows from the Treaty of Versailles.');
+      expect(accepted.content).toBe('Reparations fed the 1923 hyperinflation');
+    });
+
+    it('should create the inbox set on first use and reuse it', async () => {
+      const first = await service.accept(await proposeOne(), { destination: 'inbox' });
+      const second = await service.accept(await proposeOne(), { destination: 'inbox' });
+
+      const inbox = await ctx.repos.recallSetRepo.findByName(TANGENT_INBOX_NAME);
+      expect(inbox).not.toBeNull();
+      const points = await ctx.repos.recallPointRepo.findByRecallSetId(inbox!.id);
+      expect(points.map((p) => p.id).sort()).toEqual(
+        [first.recallPointId!, second.recallPointId!].sort()
+      );
+      expect(await ctx.repos.recallPointRepo.findByRecallSetId(recallSet.id)).toHaveLength(0);
+    });
+
+    it('should send a candidate without a recall set to the inbox only', async () => {
+      const candidateId = await proposeOne(null);
+
+      const error = await service.accept(candidateId, { destination: 'set' }).catch((e) => e);
+      expect((error as TangentFollowUpError).type).toBe('recall_set_not_found');
+
+      const accepted = await service.accept(candidateId, { destination: 'inbox' });
+      expect(accepted.status).toBe('accepted');
+    });
+
+    it('should not review a candidate twice', async () => {
+      const candidateId = await proposeOne();
+      await service.accept(candidateId, { destination: 'set' });
+
+      const error = await service.dismiss(candidateId).catch((e) => e);
+
+      expect((error as TangentFollowUpError).type).toBe('already_reviewed');
+      expect(await ctx.repos.recallPointRepo.findByRecallSetId(recallSet.id)).toHaveLength(1);
+    });
+  });
+
+  describe('dismiss', () => {
+    it('should mark the candidate dismissed without adding a point', async () => {
+      const sessionId = await createSessionWithTranscript();
+      await createRabbithole(sessionId, {
+        topic: 'Weimar hyperinflation',
+        triggerMessageIndex: 1,
+        returnMessageIndex: 2,
+      });
+      const { proposed } = await service.proposeForSession(sessionId);
+
+      const dismissed = await service.dismiss(proposed[0].id);
+
+      expect(dismissed.status).toBe('dismissed');
+      expect(dismissed.recallPointId).toBeNull();
+      expect(await ctx.repos.recallPointRepo.findByRecallSetId(recallSet.id)).toHaveLength(0);
+
+      // A dismissed tangent isn't proposed again
+      const rerun = await service.proposeForSession(sessionId);
+      expect(rerun.proposed).toHaveLength(0);
+    });
+
+    it('should report a missing candidate', async () => {
+      const error = await service.dismiss('tan_missing').catch((e) => e);
+
+      expect((error as TangentFollowUpError).type).toBe('candidate_not_found');
+    });
+  });
+
+  describe('on session completion', () => {
+    it('should propose candidates from the session rabbitholes', async () => {
+      const point = await createTestRecallPoint(ctx.repos, { recallSetId: recallSet.id });
+      const engine = createTestSessionEngine(ctx, { tangentFollowUp: service });
+      const events: SessionEvent[] = [];
+      engine.setEventListener((event) => events.push(event));
+
+      const session = await engine.startSession(recallSet);
+      await engine.getOpeningMessage();
+      await createRabbithole(session.id, {
+        topic: 'Weimar hyperinflation',
+        triggerMessageIndex: 0,
+        returnMessageIndex: 0,
+        relatedRecallPointIds: [point.id],
+      });
+      await engine.skipPoint();
+
+      const candidates = await tangentRepo.findBySessionId(session.id);
+      expect(candidates).toHaveLength(1);
+      const proposedEvent = events.find((event) => event.type === 'tangents_proposed');
+      expect(proposedEvent!.data).toEqual({
+        sessionId: session.id,
+        candidateIds: [candidates[0].id],
+      });
+    });
+  });
+});
@@ -1,12 +1,21 @@
 /**
  * Test Setup Module
  *
- * Provides utilities for creating isolated test environments with in-memory
+ * Provides utilities for creating isolated test environments with fresh
  * databases, running migrations, and cleaning up after tests. This module
  * is used across all integration and E2E tests to ensure test isolation.
  *
+ * The suite runs against SQLite by default. To run it against PostgreSQL,
+ * point TEST_DATABASE_URL at a PostgreSQL server as a role that may create
+ * databases:
+ *
+ *   TEST_DATABASE_URL=postgres://localhost:5432/postgres bun run test:postgres
+ *
+ * Each test database is then a fresh database on that server, dropped again
+ * by cleanupTestDatabase().
+ *
  * Features:
- * - In-memory SQLite database creation with migrations
+ * - In-memory SQLite (or throwaway PostgreSQL database) creation with migrations
  * - Test database cleanup utilities
  * - Hono app creation with test database injection
  * - Test isolation helpers
@@ -14,23 +23,54 @@
 
 import { drizzle } from 'drizzle-orm/bun-sqlite';
 import { migrate } from 'drizzle-orm/bun-sqlite/migrator';
+import { drizzle as drizzlePostgres } from 'drizzle-orm/postgres-js';
+import { migrate as migratePostgres } from 'drizzle-orm/postgres-js/migrator';
 import { Database } from 'bun:sqlite';
+import postgres from 'postgres';
 import { resolve } from 'path';
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import * as schema from '../src/storage/schema';
+import * as pgSchema from '../src/storage/pg-schema';
+import { getDatabaseType } from '../src/config';
 import {
   RecallSetRepository,
   RecallPointRepository,
   SessionRepository,
   SessionMessageRepository,
+  FSRSParametersRepository,
+  OutcomeEvaluationRepository,
+  SessionAnnotationRepository,
 } from '../src/storage/repositories';
 import { SessionMetricsRepository } from '../src/storage/repositories/session-metrics.repository';
 import { RecallOutcomeRepository } from '../src/storage/repositories/recall-outcome.repository';
 import { RabbitholeEventRepository } from '../src/storage/repositories/rabbithole-event.repository';
 import { AnalyticsCalculator } from '../src/core/analytics/analytics-calculator';
+import {
+  buildAnnotationTagReport,
+  normalizeAnnotationTags,
+  type AnnotationGrouping,
+} from '../src/core/analytics';
 import { DashboardDataAggregator } from '../src/core/dashboard/dashboard-data';
-import { FSRSScheduler } from '../src/core/fsrs';
-import { success, notFound, badRequest, internalError } from '../src/api/utils/response';
+import { FSRSScheduler, FSRSOptimizationService, FSRSOptimizationError } from '../src/core/fsrs';
+import { AnkiImportService, BundleImportService, ImportError } from '../src/core/import';
+import { ExportService, RECALL_SET_CONTENT_FORMATS, type RecallSetContentFormat } from '../src/core/export';
+import { assignSessionPrompts } from '../src/core/experiments';
+import {
+  resolveSessionLimits,
+  planSession,
+  planPracticeSession,
+  planDailyReview,
+  DAILY_REVIEW_NAME,
+  type DailyReviewSource,
+} from '../src/core/session';
+import { ErrorCodes } from '../src/api/middleware/error-handler';
+import { validate, getValidatedBody } from '../src/api/middleware/validate';
+import {
+  updateRecallSetSchema,
+  createSessionAnnotationSchema,
+  updateSessionAnnotationSchema,
+} from '../src/api/types';
+import { success, notFound, badRequest, internalError, error } from '../src/api/utils/response';
 import type { AppDatabase } from '../src/storage/db';
 
 // ============================================================================
@@ -39,13 +79,15 @@ import type { AppDatabase } from '../src/storage/db';
 
 /**
  * Container for test database resources.
- * Includes the Drizzle ORM instance and raw SQLite connection for cleanup.
+ * Includes the Drizzle ORM instance and a function that releases it.
  */
 export interface TestDatabaseContext {
   /** Drizzle ORM database instance */
   db: AppDatabase;
-  /** Raw SQLite database connection for cleanup */
-  sqlite: Database;
+  /** DATABASE_URL under which another process (e.g. the CLI) can open the same database */
+  url: string;
+  /** Closes the connection (and drops the PostgreSQL test schema) */
+  close: () => Promise<void>;
 }
 
 /**
@@ -60,14 +102,15 @@ export interface TestRepositories {
   metricsRepo: SessionMetricsRepository;
   outcomeRepo: RecallOutcomeRepository;
   rabbitholeRepo: RabbitholeEventRepository;
+  fsrsParametersRepo: FSRSParametersRepository;
+  outcomeEvaluationRepo: OutcomeEvaluationRepository;
+  annotationRepo: SessionAnnotationRepository;
 }
 
 /**
  * Complete test context including database, repositories, and services.
  */
-export interface TestContext {
-  db: AppDatabase;
-  sqlite: Database;
+export interface TestContext extends TestDatabaseContext {
   repos: TestRepositories;
   scheduler: FSRSScheduler;
   analyticsCalc: AnalyticsCalculator;
@@ -79,25 +122,38 @@ export interface TestContext {
 // ============================================================================
 
 /**
- * Creates a fresh in-memory SQLite database with all migrations applied.
+ * Creates a fresh database with all migrations applied, for the dialect
+ * selected by DATABASE_TYPE.
  *
- * This function:
+ * For SQLite this function:
  * 1. Creates a new in-memory SQLite database
  * 2. Enables foreign key constraints
  * 3. Applies all Drizzle migrations
  *
- * @returns TestDatabaseContext with db and sqlite connection
+ * For PostgreSQL it creates a uniquely named database on the
+ * TEST_DATABASE_URL server and applies the PostgreSQL migrations to it.
+ *
+ * @param sqlitePath - SQLite file to create instead of an in-memory database,
+ *                     for tests that share the database with a subprocess.
+ *                     Ignored for PostgreSQL.
+ * @returns TestDatabaseContext with db, url, and a close function
  *
  * @example
  * ```typescript
- * const { db, sqlite } = createTestDatabase();
- * // Use db for test operations
- * sqlite.close(); // Cleanup when done
+ * const testDb = await createTestDatabase();
+ * // Use testDb.db for test operations
+ * await cleanupTestDatabase(testDb); // Cleanup when done
  * ```
  */
-export function createTestDatabase(): TestDatabaseContext {
-  // Create in-memory SQLite database
-  const sqlite = new Database(':memory:');
+export async function createTestDatabase(
+  sqlitePath: string = ':memory:'
+): Promise<TestDatabaseContext> {
+  if (getDatabaseType() === 'postgres') {
+    return createPostgresTestDatabase();
+  }
+
+  // Create the SQLite database (in-memory unless a file path is given)
+  const sqlite = new Database(sqlitePath);
 
   // Enable foreign key constraints (disabled by default in SQLite)
   sqlite.run('PRAGMA foreign_keys = ON');
@@ -109,7 +165,52 @@ export function createTestDatabase(): TestDatabaseContext {
   const migrationsFolder = resolve(import.meta.dir, '../drizzle');
   migrate(db, { migrationsFolder });
 
-  return { db, sqlite };
+  return { db, url: sqlitePath, close: async () => sqlite.close() };
+}
+
+/**
+ * Creates an isolated PostgreSQL test database: a new database on the
+ * TEST_DATABASE_URL server, with the PostgreSQL migrations applied.
+ * Closing it drops the database.
+ *
+ * @returns TestDatabaseContext backed by PostgreSQL
+ */
+async function createPostgresTestDatabase(): Promise<TestDatabaseContext> {
+  const serverUrl = process.env.TEST_DATABASE_URL;
+  if (!serverUrl) {
+    throw new Error(
+      'TEST_DATABASE_URL must point at a PostgreSQL server when DATABASE_TYPE=postgres'
+    );
+  }
+
+  // CREATE/DROP DATABASE run over a short-lived connection to the server URL
+  const databaseName = `test_${crypto.randomUUID().replace(/-/g, '')}`;
+  const runOnServer = async (statement: string) => {
+    const admin = postgres(serverUrl, { max: 1, onnotice: () => {} });
+    try {
+      await admin.unsafe(statement);
+    } finally {
+      await admin.end();
+    }
+  };
+  await runOnServer(`CREATE DATABASE "${databaseName}"`);
+
+  const url = new URL(serverUrl);
+  url.pathname = `/${databaseName}`;
+
+  const client = postgres(url.toString(), { max: 1, onnotice: () => {} });
+  const db = drizzlePostgres(client, { schema: pgSchema });
+  await migratePostgres(db, { migrationsFolder: resolve(import.meta.dir, '../drizzle-pg') });
+
+  return {
+    // Repositories are typed against SQLite; see AppDatabase in src/storage/db.ts
+    db: db as unknown as AppDatabase,
+    url: url.toString(),
+    close: async () => {
+      await client.end();
+      await runOnServer(`DROP DATABASE "${databaseName}" WITH (FORCE)`);
+    },
+  };
 }
 
 /**
@@ -127,6 +228,9 @@ export function createTestRepositories(db: AppDatabase): TestRepositories {
     metricsRepo: new SessionMetricsRepository(db),
     outcomeRepo: new RecallOutcomeRepository(db),
     rabbitholeRepo: new RabbitholeEventRepository(db),
+    fsrsParametersRepo: new FSRSParametersRepository(db),
+    outcomeEvaluationRepo: new OutcomeEvaluationRepository(db),
+    annotationRepo: new SessionAnnotationRepository(db),
   };
 }
 
@@ -135,8 +239,8 @@ export function createTestRepositories(db: AppDatabase): TestRepositories {
  *
  * @returns Complete TestContext ready for testing
  */
-export function createTestContext(): TestContext {
-  const { db, sqlite } = createTestDatabase();
+export async function createTestContext(): Promise<TestContext> {
+  const { db, url, close } = await createTestDatabase();
   const repos = createTestRepositories(db);
   const scheduler = new FSRSScheduler();
 
@@ -158,7 +262,8 @@ export function createTestContext(): TestContext {
 
   return {
     db,
-    sqlite,
+    url,
+    close,
     repos,
     scheduler,
     analyticsCalc,
@@ -171,16 +276,45 @@ export function createTestContext(): TestContext {
  *
  * @param context - The test database context to clean up
  */
-export function cleanupTestDatabase(context: TestDatabaseContext): void {
-  if (context.sqlite) {
-    context.sqlite.close();
-  }
+export async function cleanupTestDatabase(context: TestDatabaseContext): Promise<void> {
+  await context.close();
 }
 
 // ============================================================================
 // Test App Creation
 // ============================================================================
 
+/**
+ * Converts an ImportError into the error response the real recall sets
+ * routes send; rethrows anything else.
+ */
+function importErrorResponse(c: Context, err: unknown): Response {
+  if (!(err instanceof ImportError)) throw err;
+  const responses = {
+    unsupported_format: { status: 400, code: ErrorCodes.BAD_REQUEST },
+    invalid_file: { status: 400, code: ErrorCodes.BAD_REQUEST },
+    no_notes: { status: 400, code: ErrorCodes.BAD_REQUEST },
+    name_taken: { status: 409, code: ErrorCodes.CONFLICT },
+    recall_set_not_found: { status: 404, code: ErrorCodes.NOT_FOUND },
+  } as const;
+  const { status, code } = responses[err.type];
+  return error(c, code, err.message, status);
+}
+
+/**
+ * Converts an FSRSOptimizationError into the error response the real FSRS
+ * parameters routes send; rethrows anything else.
+ */
+function optimizationErrorResponse(c: Context, err: unknown): Response {
+  if (!(err instanceof FSRSOptimizationError)) throw err;
+  const responses = {
+    recall_set_not_found: { status: 404, code: ErrorCodes.NOT_FOUND },
+    insufficient_history: { status: 400, code: ErrorCodes.BAD_REQUEST },
+  } as const;
+  const { status, code } = responses[err.type];
+  return error(c, code, err.message, status);
+}
+
 /**
  * Creates a test Hono app with API routes using the provided test context.
  * This allows testing the API layer with an isolated test database.
@@ -289,10 +423,182 @@ export function createTestApp(context: TestContext): Hono {
     }
   });
 
+  app.get('/api/dashboard/forecast', async (c) => {
+    const daysParam = c.req.query('days');
+    let days = 30;
+
+    if (daysParam) {
+      const parsed = parseInt(daysParam, 10);
+      if (isNaN(parsed)) {
+        return badRequest(c, `Invalid days parameter: '${daysParam}' is not a number`);
+      }
+      if (parsed <= 0) {
+        return badRequest(c, 'Days must be a positive number');
+      }
+      days = Math.min(parsed, 90);
+    }
+
+    try {
+      return success(c, await dashboardAggregator.getReviewForecast(days));
+    } catch (err) {
+      console.error('[Dashboard] Error fetching forecast:', err);
+      return internalError(
+        c,
+        'Failed to fetch review forecast',
+        err instanceof Error ? err.message : undefined
+      );
+    }
+  });
+
+  // =========================================================================
+  // Analytics Routes
+  // =========================================================================
+
+  /** Parses the retention curves' 'days' parameter (default 30, max 365) */
+  const parseCurveDays = (daysParam: string | undefined): { value: number } | { error: string } => {
+    if (!daysParam) {
+      return { value: 30 };
+    }
+    const parsed = parseInt(daysParam, 10);
+    if (isNaN(parsed)) {
+      return { error: `Invalid days parameter: '${daysParam}' is not a number` };
+    }
+    if (parsed <= 0) {
+      return { error: 'Days must be a positive number' };
+    }
+    return { value: Math.min(parsed, 365) };
+  };
+
+  app.get('/api/analytics/recall-sets/:id/memory', async (c) => {
+    const id = c.req.param('id');
+    const daysResult = parseCurveDays(c.req.query('days'));
+    if ('error' in daysResult) {
+      return badRequest(c, daysResult.error, { parameter: 'days' });
+    }
+    if (!(await repos.recallSetRepo.findById(id))) {
+      return notFound(c, 'RecallSet', id);
+    }
+    return success(c, await analyticsCalc.calculateMemoryAnalytics(id, daysResult.value));
+  });
+
+  app.get('/api/analytics/recall-sets/:id/leeches', async (c) => {
+    const id = c.req.param('id');
+    if (!(await repos.recallSetRepo.findById(id))) {
+      return notFound(c, 'RecallSet', id);
+    }
+    return success(c, await analyticsCalc.findLeeches(id));
+  });
+
+  app.get('/api/analytics/recall-points/:id/memory', async (c) => {
+    const id = c.req.param('id');
+    const daysResult = parseCurveDays(c.req.query('days'));
+    if ('error' in daysResult) {
+      return badRequest(c, daysResult.error, { parameter: 'days' });
+    }
+    if (!(await repos.recallPointRepo.findById(id))) {
+      return notFound(c, 'RecallPoint', id);
+    }
+    return success(c, await analyticsCalc.calculatePointMemory(id, daysResult.value));
+  });
+
   // =========================================================================
   // Recall Sets Routes
   // =========================================================================
 
+  app.post('/api/recall-sets/import', async (c) => {
+    const form = await c.req.parseBody();
+    const file = form['file'];
+    if (!(file instanceof File)) {
+      return badRequest(c, 'An Anki export must be uploaded in the "file" field');
+    }
+
+    const text = (value: unknown) =>
+      typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+    const options = {
+      recallSetId: text(form['recallSetId']),
+      name: text(form['name']),
+      description: text(form['description']),
+    };
+
+    const importService = new AnkiImportService({
+      scheduler: new FSRSScheduler(),
+      recallSetRepo: repos.recallSetRepo,
+      recallPointRepo: repos.recallPointRepo,
+      fsrsParametersRepo: repos.fsrsParametersRepo,
+    });
+    const data = new Uint8Array(await file.arrayBuffer());
+
+    try {
+      if (text(form['dryRun']) === 'true') {
+        return success(c, await importService.preview(file.name, data, options));
+      }
+      return success(c, await importService.import(file.name, data, options), 201);
+    } catch (err) {
+      return importErrorResponse(c, err);
+    }
+  });
+
+  app.post('/api/recall-sets/import/bundle', async (c) => {
+    let bundle: unknown;
+    try {
+      bundle = await c.req.json();
+    } catch {
+      return badRequest(c, 'Request body must be a recall set bundle (JSON)');
+    }
+
+    const importService = new BundleImportService({
+      recallSetRepo: repos.recallSetRepo,
+      recallPointRepo: repos.recallPointRepo,
+    });
+    const options = {
+      recallSetId: c.req.query('recallSetId') || undefined,
+      name: c.req.query('name') || undefined,
+    };
+
+    try {
+      if (c.req.query('dryRun') === 'true') {
+        return success(c, await importService.preview(bundle, options));
+      }
+      return success(c, await importService.import(bundle, options), 201);
+    } catch (err) {
+      return importErrorResponse(c, err);
+    }
+  });
+
+  app.get('/api/recall-sets/:id/export', async (c) => {
+    const id = c.req.param('id');
+    const format = (c.req.query('format') ?? 'bundle') as RecallSetContentFormat;
+    if (!RECALL_SET_CONTENT_FORMATS.includes(format)) {
+      return badRequest(c, `Invalid format '${format}'`);
+    }
+
+    const set = await repos.recallSetRepo.findById(id);
+    if (!set) {
+      return notFound(c, 'RecallSet', id);
+    }
+
+    const exportService = new ExportService(
+      repos.sessionRepo,
+      repos.recallSetRepo,
+      repos.messageRepo,
+      repos.metricsRepo,
+      repos.outcomeRepo,
+      repos.rabbitholeRepo,
+      analyticsCalc,
+      repos.recallPointRepo
+    );
+    const contentTypes = {
+      anki: 'text/plain; charset=utf-8',
+      markdown: 'text/markdown; charset=utf-8',
+      bundle: 'application/json; charset=utf-8',
+    };
+
+    return c.body(await exportService.exportRecallSetContent(id, format), 200, {
+      'Content-Type': contentTypes[format],
+      'Content-Disposition': `attachment; filename="${id}"`,
+    });
+  });
+
   app.get('/api/recall-sets', async (c) => {
     const sets = await repos.recallSetRepo.findAll();
 
@@ -363,21 +669,16 @@ export function createTestApp(context: TestContext): Hono {
     });
   });
 
-  app.patch('/api/recall-sets/:id', async (c) => {
+  app.patch('/api/recall-sets/:id', validate(updateRecallSetSchema), async (c) => {
     const id = c.req.param('id');
-    const body = await c.req.json();
+    const body = getValidatedBody(c, updateRecallSetSchema);
 
     const existing = await repos.recallSetRepo.findById(id);
     if (!existing) {
       return notFound(c, 'RecallSet', id);
     }
 
-    if (
-      body.name === undefined &&
-      body.description === undefined &&
-      body.discussionSystemPrompt === undefined &&
-      body.status === undefined
-    ) {
+    if (Object.values(body).every((value) => value === undefined)) {
       return badRequest(c, 'No fields provided for update');
     }
 
@@ -493,9 +794,16 @@ export function createTestApp(context: TestContext): Hono {
 
     let allSessions = await repos.sessionRepo.findAll();
 
-    // Apply filters
+    // Apply filters (a set's sessions include daily reviews covering its points)
     if (query.recallSetId) {
-      allSessions = allSessions.filter((s) => s.recallSetId === query.recallSetId);
+      const setPointIds = new Set(
+        (await repos.recallPointRepo.findByRecallSetId(query.recallSetId)).map((p) => p.id)
+      );
+      allSessions = allSessions.filter((s) =>
+        s.recallSetId === null
+          ? s.targetRecallPointIds.some((id) => setPointIds.has(id))
+          : s.recallSetId === query.recallSetId
+      );
     }
     if (query.status) {
       const validStatuses = ['completed', 'abandoned', 'in_progress'];
@@ -504,6 +812,13 @@ export function createTestApp(context: TestContext): Hono {
       }
       allSessions = allSessions.filter((s) => s.status === query.status);
     }
+    if (query.mode) {
+      const validModes = ['review', 'practice', 'deep-dive'];
+      if (!validModes.includes(query.mode)) {
+        return badRequest(c, `Invalid mode. Must be one of: ${validModes.join(', ')}`);
+      }
+      allSessions = allSessions.filter((s) => s.mode === query.mode);
+    }
 
     // Sort by startedAt descending
     allSessions.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
@@ -519,6 +834,7 @@ export function createTestApp(context: TestContext): Hono {
           id: session.id,
           recallSetId: session.recallSetId,
           status: session.status,
+          mode: session.mode,
           targetRecallPointIds: session.targetRecallPointIds,
           startedAt: session.startedAt,
           endedAt: session.endedAt,
@@ -541,6 +857,43 @@ export function createTestApp(context: TestContext): Hono {
     });
   });
 
+  const planDailyReviewForTest = async () => {
+    const recallSets = (await repos.recallSetRepo.findAll()).filter((set) => set.status === 'active');
+    const sources: DailyReviewSource[] = [];
+    for (const recallSet of recallSets) {
+      const duePoints = await repos.recallPointRepo.findDuePoints(recallSet.id);
+      if (duePoints.length > 0) {
+        const setPoints = await repos.recallPointRepo.findByRecallSetId(recallSet.id);
+        sources.push({ recallSet, duePoints, setPoints });
+      }
+    }
+    return { plan: planDailyReview(sources), recallSets };
+  };
+
+  app.get('/api/sessions/daily-review', async (c) => {
+    const { plan, recallSets } = await planDailyReviewForTest();
+    const inProgress = await repos.sessionRepo.findInProgress(null);
+
+    const pointCounts = new Map<string, number>();
+    for (const point of plan.points) {
+      pointCounts.set(point.recallSetId, (pointCounts.get(point.recallSetId) ?? 0) + 1);
+    }
+
+    return success(c, {
+      sessionsReady: plan.points.length === 0 ? 0 : 1 + plan.summary.followUpSessions,
+      duePointCount: plan.points.length + plan.summary.deferredCount,
+      inProgressSessionId: inProgress?.id ?? null,
+      recallSets: recallSets
+        .filter((set) => pointCounts.has(set.id))
+        .map((set) => ({
+          recallSetId: set.id,
+          recallSetName: set.name,
+          pointCount: pointCounts.get(set.id)!,
+        })),
+      plan: plan.summary,
+    });
+  });
+
   app.get('/api/sessions/:id', async (c) => {
     const id = c.req.param('id');
     const session = await repos.sessionRepo.findById(id);
@@ -549,8 +902,10 @@ export function createTestApp(context: TestContext): Hono {
       return notFound(c, 'Session', id);
     }
 
-    const recallSet = await repos.recallSetRepo.findById(session.recallSetId);
-    const recallSetName = recallSet?.name || 'Unknown Recall Set';
+    const recallSet =
+      session.recallSetId === null ? null : await repos.recallSetRepo.findById(session.recallSetId);
+    const recallSetName =
+      session.recallSetId === null ? DAILY_REVIEW_NAME : recallSet?.name || 'Unknown Recall Set';
     const metrics = await repos.metricsRepo.findBySessionId(id);
 
     return success(c, {
@@ -559,7 +914,11 @@ export function createTestApp(context: TestContext): Hono {
         recallSetId: session.recallSetId,
         recallSetName,
         status: session.status,
+        mode: session.mode,
         targetRecallPointIds: session.targetRecallPointIds,
+        promptVersions: session.promptVersions,
+        experimentId: session.experimentId,
+        experimentVariant: session.experimentVariant,
         startedAt: session.startedAt,
         endedAt: session.endedAt,
       },
@@ -651,6 +1010,11 @@ export function createTestApp(context: TestContext): Hono {
       return badRequest(c, 'recallSetId is required');
     }
 
+    const mode = body.mode ?? 'review';
+    if (mode !== 'review' && mode !== 'practice' && mode !== 'deep-dive') {
+      return badRequest(c, "mode: Invalid enum value. Expected 'review' | 'practice' | 'deep-dive'");
+    }
+
     const recallSet = await repos.recallSetRepo.findById(body.recallSetId);
     if (!recallSet) {
       return notFound(c, 'RecallSet', body.recallSetId);
@@ -660,7 +1024,7 @@ export function createTestApp(context: TestContext): Hono {
       return badRequest(c, `Cannot start session: recall set is ${recallSet.status}`);
     }
 
-    const existingSession = await repos.sessionRepo.findInProgress(body.recallSetId);
+    const existingSession = await repos.sessionRepo.findInProgress(body.recallSetId, mode);
     if (existingSession) {
       return success(
         c,
@@ -668,18 +1032,48 @@ export function createTestApp(context: TestContext): Hono {
           sessionId: existingSession.id,
           message: 'Resuming existing in-progress session',
           isResume: true,
+          mode,
         },
         200
       );
     }
 
-    let duePoints = await repos.recallPointRepo.findDuePoints(body.recallSetId);
-    if (duePoints.length === 0) {
-      duePoints = await repos.recallPointRepo.findByRecallSetId(body.recallSetId);
+    const setPoints = (await repos.recallPointRepo.findByRecallSetId(body.recallSetId)).filter(
+      (point) => !point.suspendedAt
+    );
+    const candidates = await repos.recallPointRepo.findDuePoints(body.recallSetId);
+
+    if (setPoints.length === 0) {
+      return badRequest(c, 'No recall points available in this recall set');
+    }
+
+    if (mode === 'review' && candidates.length === 0) {
+      return error(
+        c,
+        ErrorCodes.CONFLICT,
+        'No recall points are due for review in this recall set; start a practice session to study them anyway',
+        409
+      );
+    }
+
+    const markedPoints = setPoints.filter((point) => point.deepDiveRequestedAt);
+    if (mode === 'deep-dive' && markedPoints.length === 0) {
+      return badRequest(c, 'No recall points in this recall set are marked for a deep dive');
     }
 
+    const limits = resolveSessionLimits(recallSet);
+    const plan =
+      mode === 'practice'
+        ? planPracticeSession(setPoints, recallSet)
+        : mode === 'deep-dive'
+          ? planPracticeSession(markedPoints, recallSet)
+          : planSession(candidates, setPoints, limits);
+    const duePoints = plan.points;
     if (duePoints.length === 0) {
-      return badRequest(c, 'No recall points available in this recall set');
+      return badRequest(
+        c,
+        `Today's limit of ${limits.newPointsPerDay} new recall points for this recall set has been reached`
+      );
     }
 
     const sessionId = `sess_${crypto.randomUUID()}`;
@@ -688,7 +1082,9 @@ export function createTestApp(context: TestContext): Hono {
     await repos.sessionRepo.create({
       id: sessionId,
       recallSetId: body.recallSetId,
+      mode,
       targetRecallPointIds,
+      ...assignSessionPrompts(),
       startedAt: new Date(),
     });
 
@@ -699,6 +1095,56 @@ export function createTestApp(context: TestContext): Hono {
         message: 'Session started successfully',
         targetRecallPointCount: targetRecallPointIds.length,
         isResume: false,
+        mode,
+        plan: plan.summary,
+      },
+      201
+    );
+  });
+
+  app.post('/api/sessions/daily-review/start', async (c) => {
+    const existingSession = await repos.sessionRepo.findInProgress(null);
+    if (existingSession) {
+      return success(
+        c,
+        {
+          sessionId: existingSession.id,
+          message: 'Resuming existing in-progress daily review',
+          isResume: true,
+        },
+        200
+      );
+    }
+
+    const { plan } = await planDailyReviewForTest();
+    if (plan.points.length === 0) {
+      return badRequest(
+        c,
+        plan.summary.newHeldBackCount > 0
+          ? "Today's new recall point limits have been reached, and no reviewed points are due"
+          : 'No recall points are due for review in any active recall set'
+      );
+    }
+
+    const sessionId = `sess_${crypto.randomUUID()}`;
+    const targetRecallPointIds = plan.points.map((p) => p.id);
+
+    await repos.sessionRepo.create({
+      id: sessionId,
+      recallSetId: null,
+      targetRecallPointIds,
+      ...assignSessionPrompts(),
+      startedAt: new Date(),
+    });
+
+    return success(
+      c,
+      {
+        sessionId,
+        message: 'Daily review started successfully',
+        targetRecallPointCount: targetRecallPointIds.length,
+        isResume: false,
+        plan: plan.summary,
       },
       201
     );
@@ -726,5 +1172,163 @@ export function createTestApp(context: TestContext): Hono {
     });
   });
 
+  // =========================================================================
+  // Session Annotation Routes
+  // =========================================================================
+
+  /** Mirrors the sessions routes' check of an annotated message index. */
+  const checkMessageIndex = async (sessionId: string, messageIndex: number | null) => {
+    if (messageIndex === null) return null;
+    const messageCount = (await repos.messageRepo.findBySessionId(sessionId)).length;
+    return messageIndex < messageCount
+      ? null
+      : `Message index ${messageIndex} is outside the transcript (${messageCount} messages)`;
+  };
+
+  app.get('/api/sessions/:id/annotations', async (c) => {
+    const id = c.req.param('id');
+    if (!(await repos.sessionRepo.findById(id))) {
+      return notFound(c, 'Session', id);
+    }
+    return success(c, await repos.annotationRepo.findBySessionId(id));
+  });
+
+  app.post('/api/sessions/:id/annotations', validate(createSessionAnnotationSchema), async (c) => {
+    const id = c.req.param('id');
+    const body = getValidatedBody(c, createSessionAnnotationSchema);
+    if (!(await repos.sessionRepo.findById(id))) {
+      return notFound(c, 'Session', id);
+    }
+
+    const note = body.note.trim();
+    const tags = normalizeAnnotationTags(body.tags);
+    if (!note && tags.length === 0) {
+      return badRequest(c, 'An annotation needs a note or at least one tag');
+    }
+    const indexError = await checkMessageIndex(id, body.messageIndex);
+    if (indexError) {
+      return badRequest(c, indexError);
+    }
+
+    const annotation = await repos.annotationRepo.create({
+      id: `ann_${crypto.randomUUID()}`,
+      sessionId: id,
+      messageIndex: body.messageIndex,
+      note,
+      tags,
+    });
+    return success(c, annotation, 201);
+  });
+
+  app.patch(
+    '/api/sessions/:id/annotations/:annotationId',
+    validate(updateSessionAnnotationSchema),
+    async (c) => {
+      const id = c.req.param('id');
+      const annotationId = c.req.param('annotationId');
+      const body = getValidatedBody(c, updateSessionAnnotationSchema);
+
+      const existing = await repos.annotationRepo.findById(annotationId);
+      if (!existing || existing.sessionId !== id) {
+        return notFound(c, 'Annotation', annotationId);
+      }
+      if (Object.values(body).every((value) => value === undefined)) {
+        return badRequest(c, 'No fields provided for update');
+      }
+
+      const note = body.note?.trim() ?? existing.note;
+      const tags = body.tags ? normalizeAnnotationTags(body.tags) : existing.tags;
+      if (!note && tags.length === 0) {
+        return badRequest(c, 'An annotation needs a note or at least one tag');
+      }
+      if (body.messageIndex !== undefined) {
+        const indexError = await checkMessageIndex(id, body.messageIndex);
+        if (indexError) {
+          return badRequest(c, indexError);
+        }
+      }
+
+      return success(
+        c,
+        await repos.annotationRepo.update(annotationId, { messageIndex: body.messageIndex, note, tags })
+      );
+    }
+  );
+
+  app.delete('/api/sessions/:id/annotations/:annotationId', async (c) => {
+    const id = c.req.param('id');
+    const annotationId = c.req.param('annotationId');
+
+    const existing = await repos.annotationRepo.findById(annotationId);
+    if (!existing || existing.sessionId !== id) {
+      return notFound(c, 'Annotation', annotationId);
+    }
+
+    await repos.annotationRepo.delete(annotationId);
+    return success(c, { message: 'Annotation deleted successfully', id: annotationId });
+  });
+
+  app.get('/api/annotations/report', async (c) => {
+    const groupings: AnnotationGrouping[] = ['prompt-version', 'recall-set'];
+    const promptKinds = ['tutor', 'evaluator', 'rabbithole'] as const;
+
+    const groupBy = (c.req.query('groupBy') ?? 'prompt-version') as AnnotationGrouping;
+    if (!groupings.includes(groupBy)) {
+      return badRequest(c, `Invalid groupBy '${groupBy}'. Expected one of: ${groupings.join(', ')}`);
+    }
+    const promptKind = (c.req.query('promptKind') ?? 'tutor') as (typeof promptKinds)[number];
+    if (!promptKinds.includes(promptKind)) {
+      return badRequest(c, `Invalid promptKind '${promptKind}'. Expected one of: ${promptKinds.join(', ')}`);
+    }
+
+    const annotations = await repos.annotationRepo.findWithSessions(c.req.query('recallSetId') || undefined);
+    return success(c, buildAnnotationTagReport(annotations, groupBy, promptKind));
+  });
+
+  // =========================================================================
+  // FSRS Parameters Routes
+  // =========================================================================
+
+  const optimizationService = new FSRSOptimizationService({
+    recallSetRepo: repos.recallSetRepo,
+    recallPointRepo: repos.recallPointRepo,
+    outcomeRepo: repos.outcomeRepo,
+    parametersRepo: repos.fsrsParametersRepo,
+  });
+  const recallSetIdParam = (c: Context) => c.req.query('recallSetId') || undefined;
+
+  app.get('/api/fsrs-parameters', async (c) => {
+    try {
+      return success(c, await optimizationService.getWeights(recallSetIdParam(c)));
+    } catch (err) {
+      return optimizationErrorResponse(c, err);
+    }
+  });
+
+  app.get('/api/fsrs-parameters/report', async (c) => {
+    try {
+      return success(c, await optimizationService.report(recallSetIdParam(c)));
+    } catch (err) {
+      return optimizationErrorResponse(c, err);
+    }
+  });
+
+  app.post('/api/fsrs-parameters/optimize', async (c) => {
+    try {
+      return success(c, await optimizationService.optimize(recallSetIdParam(c)));
+    } catch (err) {
+      return optimizationErrorResponse(c, err);
+    }
+  });
+
+  app.delete('/api/fsrs-parameters', async (c) => {
+    try {
+      const deleted = await optimizationService.reset(recallSetIdParam(c));
+      return success(c, { deleted });
+    } catch (err) {
+      return optimizationErrorResponse(c, err);
+    }
+  });
+
   return app;
 }
@@ -0,0 +1,154 @@
+/**
+ * Unit Tests: Evaluator Benchmark
+ *
+ * Runs the real RecallEvaluator over the cell biology calibration dataset,
+ * with its LLM responses played back from a script, and checks the report:
+ *
+ * - Verdict accuracy and which way the evaluator errs
+ * - Rating accuracy and the confusion matrix
+ * - Brier score and confidence bins
+ * - Cases the evaluator throws on
+ * - Dataset validation
+ *
+ * These are pure unit tests - no database or network access required.
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { resolve } from 'path';
+import {
+  RecallEvaluator,
+  runEvaluatorBenchmark,
+  loadCalibrationDataset,
+  parseCalibrationDataset,
+  CalibrationDatasetError,
+  type BenchmarkEvaluator,
+  type CalibrationDataset,
+} from '../../src/core/scoring';
+import { ScriptedLLMProvider } from '../../src/llm/scripted-provider';
+
+const DATASET_PATH = resolve(import.meta.dir, '../fixtures/calibration/cell-biology.json');
+const SCRIPT_PATH = resolve(import.meta.dir, '../fixtures/llm/evaluator-calibration.json');
+
+/** Runs the scripted RecallEvaluator over the fixture dataset. */
+async function runFixtureBenchmark() {
+  const evaluator = new RecallEvaluator(ScriptedLLMProvider.fromFile(SCRIPT_PATH));
+  return runEvaluatorBenchmark(evaluator, loadCalibrationDataset(DATASET_PATH));
+}
+
+describe('runEvaluatorBenchmark', () => {
+  it('should report verdict accuracy and which way the evaluator errs', async () => {
+    const report = await runFixtureBenchmark();
+
+    expect(report.caseCount).toBe(6);
+    expect(report.judgedCount).toBe(6);
+    expect(report.verdict.accuracy).toBeCloseTo(4 / 6);
+    expect(report.verdict.falseSuccessCount).toBe(1);
+    expect(report.verdict.falseFailureCount).toBe(1);
+  });
+
+  it('should compare the ratings the engine would schedule with', async () => {
+    const report = await runFixtureBenchmark();
+
+    expect(report.rating.accuracy).toBe(0.5);
+    expect(report.rating.withinOneAccuracy).toBeCloseTo(5 / 6);
+    expect(report.rating.confusion.hard.easy).toBe(1);
+    expect(report.rating.confusion.hard.good).toBe(1);
+    expect(report.rating.confusion.good.hard).toBe(1);
+    expect(report.rating.confusion.good.good).toBe(1);
+    expect(report.rating.confusion.easy.easy).toBe(1);
+    expect(report.rating.confusion.forgot.forgot).toBe(1);
+
+    const atp = report.cases.find((c) => c.caseId === 'atp-synthase-gradient')!;
+    expect(atp.verdictCorrect).toBe(true);
+    expect(atp.ratingCorrect).toBe(false);
+    expect(atp.actual!.rating).toBe('easy');
+  });
+
+  it('should score confidence calibration with the Brier score and bins', async () => {
+    const report = await runFixtureBenchmark();
+
+    // Squared gaps between confidence and correctness, averaged
+    const expected = (0.04 + 0.0025 + 0.01 + 0.5625 + 0.0064 + 0.36) / 6;
+    expect(report.calibration.brierScore).toBeCloseTo(expected);
+    expect(report.calibration.bins.map((bin) => [bin.minConfidence, bin.cases, bin.accuracy])).toEqual([
+      [0.6, 1, 0],
+      [0.7, 1, 0],
+      [0.8, 1, 1],
+      [0.9, 3, 1],
+    ]);
+    expect(report.calibration.rmse).toBeGreaterThan(0);
+  });
+
+  it('should record cases the evaluator throws on and leave them out of the metrics', async () => {
+    const dataset = loadCalibrationDataset(DATASET_PATH);
+    const evaluator: BenchmarkEvaluator = {
+      async evaluateEnhanced(point) {
+        if (point.content.startsWith('Osmosis')) {
+          throw new Error('rate limited');
+        }
+        return {
+          success: true,
+          confidence: 1,
+          reasoning: 'ok',
+          keyDemonstratedConcepts: [],
+          missedConcepts: [],
+          suggestedRating: 'easy',
+        };
+      },
+    };
+    const progress: string[] = [];
+
+    const report = await runEvaluatorBenchmark(evaluator, dataset, {
+      onCaseComplete: (result, index, total) => progress.push(`${index + 1}/${total} ${result.caseId}`),
+    });
+
+    expect(report.judgedCount).toBe(5);
+    expect(report.verdict.accuracy).toBeCloseTo(3 / 5);
+    const osmosis = report.cases.find((c) => c.caseId === 'osmosis-definition')!;
+    expect(osmosis.actual).toBeNull();
+    expect(osmosis.error).toBe('rate limited');
+    expect(progress).toHaveLength(6);
+    expect(progress[5]).toBe('6/6 osmosis-definition');
+  });
+});
+
+describe('parseCalibrationDataset', () => {
+  const validCase = {
+    id: 'case-1',
+    recallPoint: { content: 'Water boils at 100 degrees Celsius at sea level', context: '' },
+    conversation: [{ role: 'user', content: '100 degrees' }],
+    label: { success: true, rating: 'good' },
+  };
+
+  it('should accept a valid dataset', () => {
+    const dataset: CalibrationDataset = parseCalibrationDataset(
+      JSON.stringify({ version: 1, cases: [validCase] })
+    );
+    expect(dataset.cases[0].label.rating).toBe('good');
+  });
+
+  it('should reject malformed datasets with the offending path', () => {
+    const parse = () =>
+      parseCalibrationDataset({ version: 1, cases: [{ ...validCase, label: { success: true, rating: 'great' } }] });
+    expect(parse).toThrow(CalibrationDatasetError);
+    expect(parse).toThrow("at 'cases.0.label.rating'");
+  });
+
+  it('should reject unsupported versions, duplicate ids and invalid JSON', () => {
+    expect(() => parseCalibrationDataset({ version: 2, cases: [validCase] })).toThrow('version 2');
+    expect(() => parseCalibrationDataset({ version: 1, cases: [validCase, validCase] })).toThrow(
+      "Duplicate case id 'case-1'"
+    );
+    expect(() => parseCalibrationDataset('{')).toThrow('not valid JSON');
+  });
+
+  it('should report unreadable files', () => {
+    try {
+      loadCalibrationDataset('/nonexistent/dataset.json');
+      throw new Error('expected an error');
+    } catch (err) {
+      expect(err).toBeInstanceOf(CalibrationDatasetError);
+      expect((err as CalibrationDatasetError).type).toBe('unreadable');
+    }
+  });
+});
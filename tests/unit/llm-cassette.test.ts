@@ -0,0 +1,155 @@
+/**
+ * Unit Tests: LLM Cassette Record and Replay
+ *
+ * Verifies that RecordingLLMProvider writes request/response pairs to a
+ * cassette file and that ReplayLLMProvider serves them back:
+ *
+ * - Recorded entries carry prompt hash, system prompt, messages, output and usage
+ * - Identical requests replay exactly with no mismatches
+ * - Divergent requests are served in recorded order and reported
+ * - Strict mode and exhausted cassettes raise LLMError
+ *
+ * A ScriptedLLMProvider stands in for the live API during recording, and
+ * cassettes are written to a temporary directory.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ScriptedLLMProvider } from '../../src/llm/scripted-provider';
+import { RecordingLLMProvider } from '../../src/llm/recording-provider';
+import { ReplayLLMProvider } from '../../src/llm/replay-provider';
+import { loadCassette, hashPrompt, CASSETTE_VERSION } from '../../src/llm/cassette';
+import { LLMError } from '../../src/llm/types';
+
+describe('LLM cassettes', () => {
+  let tempDir: string;
+  let cassettePath: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'cc-cassette-'));
+    cassettePath = join(tempDir, 'nested', 'session.json');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Records a short two-call exchange and returns the recorder.
+   */
+  async function recordExchange(): Promise<RecordingLLMProvider> {
+    const inner = new ScriptedLLMProvider({
+      responses: [
+        { text: 'What comes first?', usage: { inputTokens: 100, outputTokens: 5 } },
+        { text: 'Right - action first.', usage: { inputTokens: 120, outputTokens: 6 } },
+      ],
+    });
+    const recorder = new RecordingLLMProvider(inner, cassettePath);
+
+    recorder.setSystemPrompt('You are a tutor.');
+    await recorder.complete('Begin the recall discussion.');
+    await recorder.complete([
+      { role: 'user', content: 'Begin the recall discussion.' },
+      { role: 'assistant', content: 'What comes first?' },
+      { role: 'user', content: 'Action.' },
+    ]);
+
+    return recorder;
+  }
+
+  describe('RecordingLLMProvider', () => {
+    it('should write every request/response pair to the cassette file', async () => {
+      await recordExchange();
+
+      expect(existsSync(cassettePath)).toBe(true);
+      const cassette = loadCassette(cassettePath);
+
+      expect(cassette.version).toBe(CASSETTE_VERSION);
+      expect(cassette.entries).toHaveLength(2);
+
+      const [first, second] = cassette.entries;
+      expect(first.systemPrompt).toBe('You are a tutor.');
+      expect(first.messages).toEqual([{ role: 'user', content: 'Begin the recall discussion.' }]);
+      expect(first.output).toBe('What comes first?');
+      expect(first.usage).toEqual({ inputTokens: 100, outputTokens: 5 });
+      expect(first.mode).toBe('complete');
+      expect(first.promptHash).toBe(hashPrompt(first.messages, 'You are a tutor.'));
+      expect(second.messages).toHaveLength(3);
+    });
+
+    it('should record streamed responses once they complete', async () => {
+      const inner = new ScriptedLLMProvider({ responses: [{ text: 'streamed reply' }] });
+      const recorder = new RecordingLLMProvider(inner, cassettePath);
+      let completed = '';
+
+      await recorder.stream('hello', { onComplete: (full) => { completed = full; } });
+
+      expect(completed).toBe('streamed reply');
+      const entry = loadCassette(cassettePath).entries[0];
+      expect(entry.mode).toBe('stream');
+      expect(entry.output).toBe('streamed reply');
+      expect(entry.usage).toBeNull();
+    });
+  });
+
+  describe('ReplayLLMProvider', () => {
+    it('should replay identical requests exactly without mismatches', async () => {
+      await recordExchange();
+      const replay = ReplayLLMProvider.fromFile(cassettePath);
+
+      replay.setSystemPrompt('You are a tutor.');
+      const opening = await replay.complete('Begin the recall discussion.');
+      const followUp = await replay.complete([
+        { role: 'user', content: 'Begin the recall discussion.' },
+        { role: 'assistant', content: 'What comes first?' },
+        { role: 'user', content: 'Action.' },
+      ]);
+
+      expect(opening.text).toBe('What comes first?');
+      expect(opening.usage).toEqual({ inputTokens: 100, outputTokens: 5 });
+      expect(followUp.text).toBe('Right - action first.');
+      expect(replay.getMismatches()).toHaveLength(0);
+      expect(replay.getUnusedEntries()).toHaveLength(0);
+    });
+
+    it('should serve divergent requests in recorded order and report them', async () => {
+      await recordExchange();
+      const replay = ReplayLLMProvider.fromFile(cassettePath);
+
+      // A changed system prompt alters the prompt hash of every call
+      replay.setSystemPrompt('You are a reworded tutor.');
+      const opening = await replay.complete('Begin the recall discussion.');
+
+      expect(opening.text).toBe('What comes first?');
+      const mismatches = replay.getMismatches();
+      expect(mismatches).toHaveLength(1);
+      expect(mismatches[0].callIndex).toBe(0);
+      expect(mismatches[0].systemPrompt).toBe('You are a reworded tutor.');
+      expect(mismatches[0].servedEntry.systemPrompt).toBe('You are a tutor.');
+      expect(replay.getUnusedEntries()).toHaveLength(1);
+    });
+
+    it('should throw on divergent requests in strict mode', async () => {
+      await recordExchange();
+      const replay = ReplayLLMProvider.fromFile(cassettePath, { strict: true });
+
+      await expect(replay.complete('Something new')).rejects.toBeInstanceOf(LLMError);
+    });
+
+    it('should throw once the cassette is exhausted', async () => {
+      await recordExchange();
+      const replay = ReplayLLMProvider.fromFile(cassettePath);
+
+      await replay.complete('one');
+      await replay.complete('two');
+
+      await expect(replay.complete('three')).rejects.toBeInstanceOf(LLMError);
+    });
+
+    it('should reject files that are not cassettes', () => {
+      expect(() => ReplayLLMProvider.fromFile(join(tempDir, 'missing.json'))).toThrow(LLMError);
+    });
+  });
+});
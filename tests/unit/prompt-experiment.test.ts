@@ -0,0 +1,239 @@
+/**
+ * Unit Tests: Prompt Registry and Prompt Experiments
+ *
+ * Tests the versioned prompt registry, and the experiment configs that
+ * assign sessions to prompt version variants:
+ *
+ * - Looking up and resolving registered prompt versions
+ * - Validating experiment configs
+ * - Weighted random variant assignment
+ * - Comparing variants in a report
+ *
+ * These are pure unit tests - no database or network access required.
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  getTutorPrompt,
+  resolvePromptVersions,
+  listPromptVersions,
+  DEFAULT_PROMPT_VERSIONS,
+  PromptRegistryError,
+} from '../../src/llm/prompts';
+import {
+  parsePromptExperiment,
+  loadPromptExperiment,
+  assignSessionPrompts,
+  buildPromptExperimentReport,
+  PromptExperimentError,
+  type PromptExperiment,
+} from '../../src/core/experiments';
+import type { ExperimentVariantStats } from '../../src/storage/repositories';
+import type { RecallSet, RecallPoint } from '../../src/core/models';
+
+const experiment: PromptExperiment = {
+  id: 'tutor-length',
+  description: 'Do shorter tutor turns keep learners engaged?',
+  variants: [
+    { name: 'control', weight: 3, prompts: {} },
+    { name: 'concise', weight: 1, prompts: { tutor: 'socratic-concise-v1' } },
+  ],
+};
+
+/** Builds per-variant stats with the given averages. */
+function variantStats(variant: string, overrides: Partial<ExperimentVariantStats> = {}): ExperimentVariantStats {
+  return {
+    variant,
+    sessionCount: 4,
+    completedCount: 4,
+    measuredCount: 4,
+    avgRecallRate: 0.5,
+    avgEngagement: 60,
+    avgDurationMs: 300000,
+    avgTokens: 2000,
+    avgCostUsd: 0.02,
+    totalCostUsd: 0.08,
+    ...overrides,
+  };
+}
+
+describe('prompt registry', () => {
+  it('should resolve overrides on top of the default versions', () => {
+    expect(resolvePromptVersions()).toEqual(DEFAULT_PROMPT_VERSIONS);
+    expect(resolvePromptVersions({ tutor: 'socratic-concise-v1' })).toEqual({
+      ...DEFAULT_PROMPT_VERSIONS,
+      tutor: 'socratic-concise-v1',
+    });
+    expect(listPromptVersions().tutor.map((entry) => entry.version)).toContain(DEFAULT_PROMPT_VERSIONS.tutor);
+  });
+
+  it('should reject unregistered versions', () => {
+    expect(() => resolvePromptVersions({ evaluator: 'enhanced-v99' })).toThrow(PromptRegistryError);
+    expect(() => getTutorPrompt('socratic-v99')).toThrow("Unknown tutor prompt version 'socratic-v99'");
+  });
+
+  it('should build each tutor version from the same session state', () => {
+    const createdAt = new Date('2026-01-01T00:00:00Z');
+    const recallSet: RecallSet = {
+      id: 'rs_test',
+      name: 'Cell Biology',
+      description: 'How cells produce energy',
+      status: 'active',
+      discussionSystemPrompt: 'Discuss cellular respiration.',
+      desiredRetention: null,
+      maximumIntervalDays: null,
+      maxPointsPerSession: null,
+      newPointsPerDay: null,
+      leechLapseThreshold: null,
+      createdAt,
+      updatedAt: createdAt,
+    };
+    const point: RecallPoint = {
+      id: 'rp_test',
+      recallSetId: recallSet.id,
+      content: 'Mitochondria produce most of the cell\'s ATP',
+      context: 'Through oxidative phosphorylation',
+      fsrsState: {
+        difficulty: 5,
+        stability: 2,
+        due: createdAt,
+        lastReview: null,
+        reps: 0,
+        lapses: 0,
+        state: 'new',
+      },
+      recallHistory: [],
+      suspendedAt: null,
+      deepDiveRequestedAt: null,
+      createdAt,
+      updatedAt: createdAt,
+    };
+    const params = { recallSet, targetPoints: [point], currentPointIndex: 0 };
+
+    const standard = getTutorPrompt('socratic-v1').build(params);
+    const concise = getTutorPrompt('socratic-concise-v1').build(params);
+
+    expect(concise.startsWith(standard)).toBe(true);
+    expect(concise).toContain('## Response Length');
+    expect(standard).not.toContain('## Response Length');
+  });
+});
+
+describe('parsePromptExperiment', () => {
+  it('should accept a valid config and default missing prompt overrides', () => {
+    const parsed = parsePromptExperiment(
+      JSON.stringify({ id: 'exp', variants: [{ name: 'control', weight: 1 }] })
+    );
+    expect(parsed.variants[0].prompts).toEqual({});
+  });
+
+  it('should reject variants naming unregistered prompt versions', () => {
+    const parse = () =>
+      parsePromptExperiment({ id: 'exp', variants: [{ name: 'b', weight: 1, prompts: { tutor: 'nope' } }] });
+    expect(parse).toThrow(PromptExperimentError);
+    expect(parse).toThrow("Variant 'b': Unknown tutor prompt version 'nope'");
+  });
+
+  it('should reject duplicate names, all-zero weights, unknown prompt kinds and invalid JSON', () => {
+    const control = { name: 'control', weight: 1, prompts: {} };
+    expect(() => parsePromptExperiment({ id: 'exp', variants: [control, control] })).toThrow(
+      "Duplicate variant name 'control'"
+    );
+    expect(() => parsePromptExperiment({ id: 'exp', variants: [{ ...control, weight: 0 }] })).toThrow(
+      'no variant with a positive weight'
+    );
+    expect(() =>
+      parsePromptExperiment({ id: 'exp', variants: [{ ...control, prompts: { ingestion: 'v2' } }] })
+    ).toThrow("at 'variants.0.prompts'");
+    expect(() => parsePromptExperiment('{')).toThrow('not valid JSON');
+  });
+
+  it('should report unreadable files', () => {
+    try {
+      loadPromptExperiment('/nonexistent/experiment.json');
+      throw new Error('expected an error');
+    } catch (err) {
+      expect(err).toBeInstanceOf(PromptExperimentError);
+      expect((err as PromptExperimentError).type).toBe('unreadable');
+    }
+  });
+});
+
+describe('assignSessionPrompts', () => {
+  it('should use the default versions without an experiment', () => {
+    expect(assignSessionPrompts()).toEqual({
+      promptVersions: DEFAULT_PROMPT_VERSIONS,
+      experimentId: null,
+      experimentVariant: null,
+    });
+  });
+
+  it('should assign variants in proportion to their weights', () => {
+    // control covers [0, 0.75) of the draw, concise [0.75, 1)
+    expect(assignSessionPrompts(experiment, () => 0).experimentVariant).toBe('control');
+    expect(assignSessionPrompts(experiment, () => 0.74).experimentVariant).toBe('control');
+
+    const concise = assignSessionPrompts(experiment, () => 0.75);
+    expect(concise.experimentId).toBe('tutor-length');
+    expect(concise.experimentVariant).toBe('concise');
+    expect(concise.promptVersions.tutor).toBe('socratic-concise-v1');
+    expect(concise.promptVersions.evaluator).toBe(DEFAULT_PROMPT_VERSIONS.evaluator);
+  });
+
+  it('should never assign a paused variant', () => {
+    const paused: PromptExperiment = {
+      ...experiment,
+      variants: [{ ...experiment.variants[0], weight: 0 }, experiment.variants[1]],
+    };
+    expect(assignSessionPrompts(paused, () => 0).experimentVariant).toBe('concise');
+    expect(assignSessionPrompts(paused, () => 0.9999).experimentVariant).toBe('concise');
+  });
+});
+
+describe('buildPromptExperimentReport', () => {
+  it('should compare each variant with the first configured variant', () => {
+    const report = buildPromptExperimentReport(
+      'tutor-length',
+      [
+        variantStats('concise', { avgRecallRate: 0.6, avgEngagement: 70, avgTokens: 1500, avgCostUsd: 0.015 }),
+        variantStats('control'),
+      ],
+      experiment
+    );
+
+    expect(report.baselineVariant).toBe('control');
+    expect(report.description).toBe(experiment.description!);
+    expect(report.sessionCount).toBe(8);
+    expect(report.variants.map((v) => v.variant)).toEqual(['control', 'concise']);
+    expect(report.variants[0].vsBaseline).toBeNull();
+    expect(report.variants[1].promptVersions!.tutor).toBe('socratic-concise-v1');
+
+    const difference = report.variants[1].vsBaseline!;
+    expect(difference.recallRate).toBeCloseTo(0.1);
+    expect(difference.engagement).toBeCloseTo(10);
+    expect(difference.tokens).toBeCloseTo(-500);
+    expect(difference.costUsd).toBeCloseTo(-0.005);
+    expect(difference.durationMs).toBe(0);
+  });
+
+  it('should list configured variants without sessions, and skip unmeasured comparisons', () => {
+    const report = buildPromptExperimentReport('tutor-length', [variantStats('control')], experiment);
+
+    const concise = report.variants.find((v) => v.variant === 'concise')!;
+    expect(concise.sessionCount).toBe(0);
+    expect(concise.vsBaseline).toBeNull();
+  });
+
+  it('should order variants by name without the matching config', () => {
+    const report = buildPromptExperimentReport(
+      'older-experiment',
+      [variantStats('a'), variantStats('b', { avgRecallRate: 0.4 })],
+      experiment
+    );
+
+    expect(report.description).toBeNull();
+    expect(report.baselineVariant).toBe('a');
+    expect(report.variants[1].promptVersions).toBeNull();
+    expect(report.variants[1].vsBaseline!.recallRate).toBeCloseTo(-0.1);
+  });
+});
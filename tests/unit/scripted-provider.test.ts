@@ -0,0 +1,201 @@
+/**
+ * Unit Tests: Scripted LLM Provider
+ *
+ * Verifies the offline ScriptedLLMProvider plays back canned responses
+ * deterministically:
+ *
+ * - Ordered consumption of entries and match conditions
+ * - Repeating entries and the fallback response
+ * - Errors for exhausted scripts and unreadable fixture files
+ * - Streaming playback and estimated usage
+ * - Provider selection through createLLMProvider
+ *
+ * These are pure unit tests - no database or network access required.
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { resolve } from 'path';
+import { ScriptedLLMProvider, type LLMScript } from '../../src/llm/scripted-provider';
+import { createLLMProvider } from '../../src/llm/provider-factory';
+import { LLMError } from '../../src/llm/types';
+
+const FIXTURE_PATH = resolve(import.meta.dir, '../fixtures/llm/session-basic.json');
+
+describe('ScriptedLLMProvider', () => {
+  describe('response selection', () => {
+    it('should return unmatched entries in script order and consume them', async () => {
+      const provider = new ScriptedLLMProvider({
+        responses: [{ text: 'first' }, { text: 'second' }],
+      });
+
+      expect((await provider.complete('a')).text).toBe('first');
+      expect((await provider.complete('b')).text).toBe('second');
+      expect(provider.getRemainingCount()).toBe(0);
+    });
+
+    it('should match promptIncludes against the last user message', async () => {
+      const provider = new ScriptedLLMProvider({
+        responses: [
+          { match: { promptIncludes: 'evaluate' }, text: 'evaluation' },
+          { match: { promptIncludes: 'hello' }, text: 'greeting' },
+        ],
+      });
+
+      const response = await provider.complete([
+        { role: 'user', content: 'evaluate this' },
+        { role: 'assistant', content: 'ok' },
+        { role: 'user', content: 'hello there' },
+      ]);
+
+      expect(response.text).toBe('greeting');
+    });
+
+    it('should match systemIncludes against the current system prompt', async () => {
+      const provider = new ScriptedLLMProvider({
+        responses: [
+          { match: { systemIncludes: 'Socratic' }, text: 'tutor reply' },
+          { text: 'plain reply' },
+        ],
+      });
+
+      expect((await provider.complete('hi')).text).toBe('plain reply');
+
+      provider.setSystemPrompt('You are a Socratic tutor.');
+      expect((await provider.complete('hi')).text).toBe('tutor reply');
+    });
+
+    it('should reuse repeating entries indefinitely', async () => {
+      const provider = new ScriptedLLMProvider({
+        responses: [{ match: { promptIncludes: 'ping' }, text: 'pong', repeat: true }],
+      });
+
+      for (let i = 0; i < 3; i++) {
+        expect((await provider.complete('ping')).text).toBe('pong');
+      }
+      expect(provider.getRemainingCount()).toBe(0);
+    });
+
+    it('should use the fallback when no entry matches', async () => {
+      const provider = new ScriptedLLMProvider({
+        responses: [{ match: { promptIncludes: 'never' }, text: 'unused' }],
+        fallback: 'fallback reply',
+      });
+
+      expect((await provider.complete('something else')).text).toBe('fallback reply');
+      expect(provider.getRemainingCount()).toBe(1);
+    });
+
+    it('should throw an LLMError when the script is exhausted without a fallback', async () => {
+      const provider = new ScriptedLLMProvider({ responses: [{ text: 'only' }] });
+      await provider.complete('one');
+
+      await expect(provider.complete('two')).rejects.toBeInstanceOf(LLMError);
+    });
+
+    it('should replay from the start after reset', async () => {
+      const provider = new ScriptedLLMProvider({ responses: [{ text: 'only' }] });
+      await provider.complete('one');
+
+      provider.reset();
+
+      expect((await provider.complete('again')).text).toBe('only');
+      expect(provider.getCalls()).toHaveLength(1);
+    });
+  });
+
+  describe('usage and call log', () => {
+    it('should report scripted usage when provided', async () => {
+      const provider = new ScriptedLLMProvider({
+        responses: [{ text: 'x', usage: { inputTokens: 11, outputTokens: 7 } }],
+      });
+
+      const response = await provider.complete('hi');
+
+      expect(response.usage).toEqual({ inputTokens: 11, outputTokens: 7 });
+      expect(response.stopReason).toBe('end_turn');
+    });
+
+    it('should estimate usage when the script omits it', async () => {
+      const provider = new ScriptedLLMProvider({ responses: [{ text: 'abcdefgh' }] });
+
+      const response = await provider.complete('abcd');
+
+      expect(response.usage?.outputTokens).toBe(2);
+      expect(response.usage?.inputTokens).toBe(provider.estimateConversationTokens([
+        { role: 'user', content: 'abcd' },
+      ]));
+    });
+
+    it('should record each call with its system prompt', async () => {
+      const provider = new ScriptedLLMProvider({ responses: [], fallback: 'ok' });
+      provider.setSystemPrompt('system');
+
+      await provider.complete('question');
+
+      const calls = provider.getCalls();
+      expect(calls).toHaveLength(1);
+      expect(calls[0].systemPrompt).toBe('system');
+      expect(calls[0].messages).toEqual([{ role: 'user', content: 'question' }]);
+      expect(calls[0].responseText).toBe('ok');
+    });
+  });
+
+  describe('stream', () => {
+    it('should emit chunks that reassemble into the full response', async () => {
+      const script: LLMScript = { responses: [{ text: 'one two  three' }] };
+      const provider = new ScriptedLLMProvider(script);
+      const chunks: string[] = [];
+      let completed = '';
+
+      await provider.stream('go', {
+        onText: (chunk) => chunks.push(chunk),
+        onComplete: (full) => {
+          completed = full;
+        },
+      });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.join('')).toBe('one two  three');
+      expect(completed).toBe('one two  three');
+    });
+
+    it('should report errors through onError', async () => {
+      const provider = new ScriptedLLMProvider({ responses: [] });
+      let reported: Error | null = null;
+
+      await expect(
+        provider.stream('go', { onError: (error) => { reported = error; } })
+      ).rejects.toBeInstanceOf(LLMError);
+      expect(reported).toBeInstanceOf(LLMError);
+    });
+  });
+
+  describe('loading scripts', () => {
+    it('should load a script fixture from disk', async () => {
+      const provider = ScriptedLLMProvider.fromFile(FIXTURE_PATH);
+
+      const response = await provider.complete('Begin the recall discussion.');
+
+      expect(response.text).toContain('motivation');
+    });
+
+    it('should throw an LLMError for a missing file', () => {
+      expect(() => ScriptedLLMProvider.fromFile('/nonexistent/script.json')).toThrow(LLMError);
+    });
+
+    it('should reject scripts without a responses array', () => {
+      expect(() => new ScriptedLLMProvider({} as LLMScript)).toThrow(LLMError);
+    });
+  });
+});
+
+describe('createLLMProvider', () => {
+  it('should build a scripted provider when requested', () => {
+    const provider = createLLMProvider({ provider: 'scripted', scriptPath: FIXTURE_PATH });
+    expect(provider).toBeInstanceOf(ScriptedLLMProvider);
+  });
+
+  it('should require a script path for the scripted provider', () => {
+    expect(() => createLLMProvider({ provider: 'scripted', scriptPath: '' })).toThrow(LLMError);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Unit Tests: Session Planner
+ *
+ * Tests how due recall points are planned into a new session under a recall
+ * set's limits on points per session and new points per day:
+ *
+ * - Set limits override the engine defaults; null falls back to them
+ * - Reviewed points are ranked by retrievability, then overdueness
+ * - New points are spread between the reviews
+ * - The new point allowance counts points first reviewed today
+ * - Reviews fill the session first; the rest is left for follow-up sessions
+ * - Practice sessions draw on every point, due or not, under the size cap only
+ * - Daily reviews rank points across sets, under each set's new point limit
+ *
+ * These are pure unit tests - no database or external dependencies required.
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  resolveSessionLimits,
+  countPointsIntroducedToday,
+  planSession,
+  planPracticeSession,
+  planDailyReview,
+} from '../../src/core/session/session-planner';
+import type { RecallPoint } from '../../src/core/models';
+
+// =============================================================================
+// Helper Functions for Tests
+// =============================================================================
+
+const NOW = new Date('2026-03-10T15:00:00');
+
+/**
+ * Creates a recall point due at the given time. Points without a first
+ * review are new; others are in review, last reviewed at their first review.
+ */
+function point(id: string, due: Date, firstReviewedAt?: Date, stability = 2): RecallPoint {
+  return {
+    id,
+    recallSetId: 'rs_test',
+    content: `Content ${id}`,
+    context: `Context ${id}`,
+    fsrsState: {
+      difficulty: 5,
+      stability,
+      due,
+      lastReview: firstReviewedAt ?? null,
+      reps: firstReviewedAt ? 1 : 0,
+      lapses: 0,
+      state: firstReviewedAt ? 'review' : 'new',
+    },
+    recallHistory: firstReviewedAt
+      ? [{ timestamp: firstReviewedAt, success: true, latencyMs: 0 }]
+      : [],
+    suspendedAt: null,
+    deepDiveRequestedAt: null,
+    createdAt: new Date(due.getTime() - 1000),
+    updatedAt: due,
+  };
+}
+
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * 60 * 60 * 1000);
+const noLimits = { maxPoints: null, newPointsPerDay: null };
+const ids = (points: RecallPoint[]) => points.map((p) => p.id);
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('resolveSessionLimits', () => {
+  it('uses the set limits over the defaults', () => {
+    const limits = resolveSessionLimits(
+      { maxPointsPerSession: 15, newPointsPerDay: 0 },
+      { maxPointsPerSession: 30, newPointsPerDay: 10 }
+    );
+
+    expect(limits).toEqual({ maxPoints: 15, newPointsPerDay: 0 });
+  });
+
+  it('falls back to the defaults when the set has no limits', () => {
+    const limits = resolveSessionLimits(
+      { maxPointsPerSession: null, newPointsPerDay: null },
+      { maxPointsPerSession: 30, newPointsPerDay: 10 }
+    );
+
+    expect(limits).toEqual({ maxPoints: 30, newPointsPerDay: 10 });
+  });
+});
+
+describe('countPointsIntroducedToday', () => {
+  it('counts only points whose first review was today', () => {
+    const points = [
+      point('rp_today', hoursAgo(1), hoursAgo(2)),
+      point('rp_yesterday', hoursAgo(1), hoursAgo(30)),
+      point('rp_new', hoursAgo(1)),
+    ];
+
+    expect(countPointsIntroducedToday(points, NOW)).toBe(1);
+  });
+});
+
+describe('planSession', () => {
+  it('puts the least retrievable reviews first', () => {
+    const candidates = [
+      point('rp_stable', hoursAgo(1), hoursAgo(100), 30),
+      point('rp_fragile', hoursAgo(1), hoursAgo(100), 1),
+      point('rp_middling', hoursAgo(1), hoursAgo(100), 5),
+    ];
+
+    const { points, summary } = planSession(candidates, candidates, noLimits, NOW);
+
+    expect(ids(points)).toEqual(['rp_fragile', 'rp_middling', 'rp_stable']);
+    const [first, , last] = summary.order;
+    expect(first.retrievability!).toBeLessThan(last.retrievability!);
+  });
+
+  it('breaks retrievability ties by how overdue the point is', () => {
+    const candidates = [
+      point('rp_recent', hoursAgo(1), hoursAgo(100)),
+      point('rp_overdue', hoursAgo(48), hoursAgo(100)),
+    ];
+
+    const { points, summary } = planSession(candidates, candidates, noLimits, NOW);
+
+    expect(ids(points)).toEqual(['rp_overdue', 'rp_recent']);
+    expect(summary.order[0].overdueDays).toBeCloseTo(2);
+  });
+
+  it('spreads new points between the reviews', () => {
+    const candidates = [
+      point('rp_new_1', hoursAgo(10)),
+      point('rp_new_2', hoursAgo(9)),
+      ...[1, 2, 3, 4].map((i) => point(`rp_review_${i}`, hoursAgo(10 - i), hoursAgo(100))),
+    ];
+
+    const { points, summary } = planSession(candidates, candidates, noLimits, NOW);
+
+    expect(ids(points)).toEqual([
+      'rp_review_1',
+      'rp_new_1',
+      'rp_review_2',
+      'rp_review_3',
+      'rp_new_2',
+      'rp_review_4',
+    ]);
+    expect(summary.order.map((p) => p.kind)).toEqual(['review', 'new', 'review', 'review', 'new', 'review']);
+    expect(summary.order[1].retrievability).toBeNull();
+  });
+
+  it('limits new points by what is left of today\'s allowance', () => {
+    const introduced = point('rp_introduced', hoursAgo(-24), hoursAgo(3));
+    const candidates = [point('rp_new_1', hoursAgo(3)), point('rp_new_2', hoursAgo(2))];
+
+    const { points, summary } = planSession(
+      candidates,
+      [introduced, ...candidates],
+      { maxPoints: null, newPointsPerDay: 2 },
+      NOW
+    );
+
+    expect(ids(points)).toEqual(['rp_new_1']);
+    expect(summary.newAllowance).toBe(1);
+    expect(summary.newHeldBackCount).toBe(1);
+    expect(summary.deferredCount).toBe(0);
+  });
+
+  it('plans nothing when only new points are due and the allowance is used up', () => {
+    const candidates = [point('rp_new', hoursAgo(3))];
+
+    const { points } = planSession(candidates, candidates, { maxPoints: 10, newPointsPerDay: 0 }, NOW);
+
+    expect(points).toHaveLength(0);
+  });
+
+  it('fills the session with reviews first and leaves the rest for follow-up sessions', () => {
+    const candidates = [
+      point('rp_new', hoursAgo(6)),
+      ...[1, 2, 3, 4, 5].map((i) => point(`rp_review_${i}`, hoursAgo(10 - i), hoursAgo(100))),
+    ];
+
+    const { points, summary } = planSession(candidates, candidates, { maxPoints: 2, newPointsPerDay: 5 }, NOW);
+
+    expect(ids(points)).toEqual(['rp_review_1', 'rp_review_2']);
+    expect(summary).toMatchObject({
+      maxPoints: 2,
+      reviewCount: 2,
+      newCount: 0,
+      deferredCount: 4,
+      followUpSessions: 2,
+    });
+  });
+});
+
+describe('planPracticeSession', () => {
+  it('includes points that are not due, least retrievable first', () => {
+    const points = [
+      point('rp_stable', hoursAgo(-240), hoursAgo(100), 30),
+      point('rp_fragile', hoursAgo(-24), hoursAgo(100), 1),
+    ];
+
+    const plan = planPracticeSession(points, { maxPointsPerSession: null, newPointsPerDay: null }, undefined, NOW);
+
+    expect(ids(plan.points)).toEqual(['rp_fragile', 'rp_stable']);
+  });
+
+  it("ignores today's new point allowance but keeps the session size cap", () => {
+    const introduced = point('rp_introduced', hoursAgo(-24), hoursAgo(3));
+    const newPoints = [point('rp_new_1', hoursAgo(3)), point('rp_new_2', hoursAgo(2))];
+
+    const { points, summary } = planPracticeSession(
+      [introduced, ...newPoints],
+      { maxPointsPerSession: 2, newPointsPerDay: 0 },
+      undefined,
+      NOW
+    );
+
+    expect(ids(points)).toEqual(['rp_introduced', 'rp_new_1']);
+    expect(summary).toMatchObject({ maxPoints: 2, newPointsPerDay: null, newHeldBackCount: 0, deferredCount: 1 });
+  });
+});
+
+describe('planDailyReview', () => {
+  const inSet = (recallSetId: string, p: RecallPoint): RecallPoint => ({ ...p, recallSetId });
+  const defaults = { maxPointsPerSession: 20, newPointsPerDay: null };
+
+  it('ranks the reviews of all sets together by retrievability', () => {
+    const setA = [
+      inSet('rs_a', point('rp_a_stable', hoursAgo(1), hoursAgo(100), 30)),
+      inSet('rs_a', point('rp_a_fragile', hoursAgo(1), hoursAgo(100), 1)),
+    ];
+    const setB = [inSet('rs_b', point('rp_b_middling', hoursAgo(1), hoursAgo(100), 5))];
+    const source = (id: string, points: RecallPoint[]) => ({
+      recallSet: { id, maxPointsPerSession: null, newPointsPerDay: null },
+      duePoints: points,
+      setPoints: points,
+    });
+
+    const { points, summary } = planDailyReview([source('rs_a', setA), source('rs_b', setB)], defaults, NOW);
+
+    expect(ids(points)).toEqual(['rp_a_fragile', 'rp_b_middling', 'rp_a_stable']);
+    expect(summary.order.map((p) => p.recallSetId)).toEqual(['rs_a', 'rs_b', 'rs_a']);
+  });
+
+  it("applies each set's new point limit to its own points", () => {
+    const introducedA = inSet('rs_a', point('rp_a_introduced', hoursAgo(-24), hoursAgo(3)));
+    const newA = [inSet('rs_a', point('rp_a_new_1', hoursAgo(3))), inSet('rs_a', point('rp_a_new_2', hoursAgo(2)))];
+    const newB = [inSet('rs_b', point('rp_b_new_1', hoursAgo(3))), inSet('rs_b', point('rp_b_new_2', hoursAgo(2)))];
+
+    const { points, summary } = planDailyReview(
+      [
+        {
+          recallSet: { id: 'rs_a', maxPointsPerSession: null, newPointsPerDay: 2 },
+          duePoints: newA,
+          setPoints: [introducedA, ...newA],
+        },
+        {
+          recallSet: { id: 'rs_b', maxPointsPerSession: 1, newPointsPerDay: null },
+          duePoints: newB,
+          setPoints: newB,
+        },
+      ],
+      defaults,
+      NOW
+    );
+
+    // rs_a has one new point left today; rs_b's own session size doesn't apply
+    expect(ids(points).sort()).toEqual(['rp_a_new_1', 'rp_b_new_1', 'rp_b_new_2']);
+    expect(summary.newHeldBackCount).toBe(1);
+  });
+
+  it('caps the session at the default size and leaves the rest for follow-up sessions', () => {
+    const reviews = [1, 2, 3, 4, 5].map((i) =>
+      inSet(i % 2 ? 'rs_a' : 'rs_b', point(`rp_review_${i}`, hoursAgo(10 - i), hoursAgo(100)))
+    );
+    const bySet = (id: string) => reviews.filter((p) => p.recallSetId === id);
+
+    const { points, summary } = planDailyReview(
+      ['rs_a', 'rs_b'].map((id) => ({
+        recallSet: { id, maxPointsPerSession: null, newPointsPerDay: null },
+        duePoints: bySet(id),
+        setPoints: bySet(id),
+      })),
+      { maxPointsPerSession: 2, newPointsPerDay: null },
+      NOW
+    );
+
+    expect(ids(points)).toEqual(['rp_review_1', 'rp_review_2']);
+    expect(summary).toMatchObject({ maxPoints: 2, deferredCount: 3, followUpSessions: 2 });
+  });
+});
@@ -10,7 +10,8 @@
  * 2. ToastProvider - Toast notifications for user feedback
  * 3. AppRouter - React Router for page navigation
  *
- * Note: UserProvider is wrapped at a higher level in main.tsx.
+ * Note: UserProvider is wrapped at a higher level in main.tsx. Until a user
+ * is logged in, the Login page is rendered instead of the router.
  *
  * The router configuration includes:
  * - MainLayout wrapped routes (Dashboard, Recall Sets, Sessions)
@@ -30,6 +31,27 @@ import { QueryClientProvider } from '@tanstack/react-query';
 import { queryClient } from './lib/query-client';
 import { ToastProvider } from './context/ToastContext';
 import { AppRouter } from './router';
+import { useUser } from './hooks/use-user';
+import { LoadingState } from './components/ui';
+import { Login } from './pages/Login';
+
+/**
+ * Renders the router for a logged-in user, the Login page otherwise.
+ * Shows a loading state while the existing session is being checked.
+ */
+function AuthGate() {
+  const { user, isLoading } = useUser();
+
+  if (isLoading) {
+    return <LoadingState fullPage message="Loading..." />;
+  }
+
+  if (!user) {
+    return <Login />;
+  }
+
+  return <AppRouter />;
+}
 
 /**
  * Main application component.
@@ -52,7 +74,7 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ToastProvider position="top-right">
-        <AppRouter />
+        <AuthGate />
       </ToastProvider>
     </QueryClientProvider>
   );
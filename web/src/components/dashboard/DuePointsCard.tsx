@@ -8,7 +8,8 @@
  * Features:
  * - Large, attention-grabbing number display
  * - Visual indicator when points are due (amber highlight)
- * - Call-to-action button to start studying
+ * - Call-to-action button to start studying, or to start the daily review
+ *   across all recall sets when a handler is given
  * - Graceful empty state when nothing is due
  *
  * @example
@@ -35,6 +36,12 @@ export interface DuePointsCardProps {
   todaysSessions: number;
   /** Study time today in milliseconds (for context) */
   todaysStudyTimeMs: number;
+  /** Daily review sessions ready today across all recall sets */
+  sessionsReady?: number;
+  /** Starts (or resumes) the daily review; without it the button links to the recall sets */
+  onStartDailyReview?: () => void;
+  /** Whether the daily review is being started */
+  isStartingDailyReview?: boolean;
 }
 
 // ============================================================================
@@ -77,6 +84,9 @@ export function DuePointsCard({
   duePoints,
   todaysSessions,
   todaysStudyTimeMs,
+  sessionsReady = 0,
+  onStartDailyReview,
+  isStartingDailyReview = false,
 }: DuePointsCardProps) {
   // Determine if user has pending reviews
   const hasDuePoints = duePoints > 0;
@@ -121,9 +131,27 @@ export function DuePointsCard({
           </div>
         </div>
 
-        {/* Call-to-action button - links to recall sets to start a session */}
+        {/* Call-to-action button - starts the daily review across all sets */}
         {/* Full width on mobile for larger touch target */}
-        {hasDuePoints && (
+        {onStartDailyReview && sessionsReady > 0 && (
+          <div className="mt-4 sm:mt-6 text-center">
+            <p className="text-xs sm:text-sm text-gray-500 mb-2">
+              {sessionsReady} session{sessionsReady === 1 ? ' is' : 's are'} ready today
+            </p>
+            <Button
+              variant="primary"
+              className="w-full sm:w-auto min-h-[44px]"
+              onClick={onStartDailyReview}
+              isLoading={isStartingDailyReview}
+              disabled={isStartingDailyReview}
+            >
+              {isStartingDailyReview ? 'Starting...' : 'Start Daily Review'}
+            </Button>
+          </div>
+        )}
+
+        {/* Otherwise link to recall sets to start a session */}
+        {hasDuePoints && !(onStartDailyReview && sessionsReady > 0) && (
           <div className="mt-4 sm:mt-6 text-center">
             <Link to="/recall-sets" className="block sm:inline-block">
               <Button variant="primary" className="w-full sm:w-auto min-h-[44px]">
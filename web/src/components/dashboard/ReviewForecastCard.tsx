@@ -0,0 +1,344 @@
+/**
+ * ReviewForecastCard Component
+ *
+ * Displays the projected review load for the coming 30 or 90 days as a
+ * stacked bar chart, with one bar per day and one stack segment per recall
+ * set. The chart can show either the number of points due or the
+ * estimated study minutes, which come from each set's historical minutes
+ * per point.
+ *
+ * Features:
+ * - 30/90 day range toggle
+ * - Reviews/minutes toggle
+ * - Totals over the range
+ * - Tooltip with each set's reviews and minutes for the day
+ *
+ * @example
+ * ```tsx
+ * const [days, setDays] = useState<ForecastRange>(30);
+ * const { data, isLoading, error, refetch } = useReviewForecast(days);
+ *
+ * <ReviewForecastCard
+ *   forecast={data}
+ *   days={days}
+ *   onDaysChange={setDays}
+ *   isLoading={isLoading}
+ *   error={error}
+ *   onRetry={() => refetch()}
+ * />
+ * ```
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardHeader, CardBody, Spinner, Button } from '@/components/ui';
+import type { ReviewForecast } from '@/types/api';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** The forecast ranges offered, in days */
+export type ForecastRange = 30 | 90;
+
+/** What the bars measure */
+type ForecastMetric = 'reviews' | 'minutes';
+
+export interface ReviewForecastCardProps {
+  /** The forecast to chart (undefined while loading) */
+  forecast?: ReviewForecast;
+  /** The selected range in days */
+  days: ForecastRange;
+  /** Callback when a different range is selected */
+  onDaysChange: (days: ForecastRange) => void;
+  /** Whether the data is currently loading */
+  isLoading?: boolean;
+  /** Error that occurred while fetching (if any) */
+  error?: Error | null;
+  /** Callback to retry fetching on error */
+  onRetry?: () => void;
+}
+
+/** One bar of the chart: a day, with a reviews and minutes key per set */
+type ChartRow = { date: string } & Record<string, number | string>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Colors for the recall sets' stack segments, assigned in order.
+ * Starts with the Clarity purple, then visually distinct hues.
+ */
+const SET_COLORS = [
+  '#7c3aed', // Clarity purple
+  '#3B82F6', // Blue-500
+  '#10B981', // Emerald-500
+  '#F59E0B', // Amber-500
+  '#EF4444', // Red-500
+  '#EC4899', // Pink-500
+  '#14B8A6', // Teal-500
+  '#6B7280', // Gray-500
+];
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Formats a forecast date (YYYY-MM-DD) as a short axis label, e.g. "Jan 21".
+ */
+function formatDay(date: string): string {
+  // Without a time, the date would be parsed as UTC midnight, a day early west of UTC
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/**
+ * Formats an estimate in minutes, switching to hours past an hour.
+ */
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) {
+    return `${Math.round(minutes)} min`;
+  }
+  return `${(minutes / 60).toFixed(1)} h`;
+}
+
+/**
+ * Builds the chart rows: one per day, with each set's reviews and minutes
+ * under keys made from the set ID, so the bars can switch metric.
+ */
+function buildChartRows(forecast: ReviewForecast): ChartRow[] {
+  return forecast.dailyLoad.map((day) => {
+    const row: ChartRow = { date: formatDay(day.date) };
+    for (const load of day.recallSets) {
+      row[`reviews:${load.recallSetId}`] = load.dueCount;
+      row[`minutes:${load.recallSetId}`] = load.estimatedMinutes;
+    }
+    return row;
+  });
+}
+
+// ============================================================================
+// Sub-Components
+// ============================================================================
+
+/**
+ * Custom tooltip showing each set's reviews and minutes for the day.
+ */
+interface ForecastTooltipProps {
+  active?: boolean;
+  label?: string;
+  payload?: Array<{ name: string; color: string; dataKey: string; payload: ChartRow }>;
+}
+
+function ForecastTooltip({ active, label, payload }: ForecastTooltipProps) {
+  if (!active || !payload || !payload.length) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-lg p-3">
+      <p className="text-sm text-gray-600 mb-1">{label}</p>
+      {payload.map((entry) => {
+        const recallSetId = entry.dataKey.slice(entry.dataKey.indexOf(':') + 1);
+        const reviews = Number(entry.payload[`reviews:${recallSetId}`] ?? 0);
+        const minutes = Number(entry.payload[`minutes:${recallSetId}`] ?? 0);
+        return (
+          <p key={recallSetId} className="text-sm" style={{ color: entry.color }}>
+            {entry.name}: {reviews} {reviews === 1 ? 'review' : 'reviews'}, {formatMinutes(minutes)}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * A pair of toggle buttons, highlighting the selected option.
+ */
+function Toggle<T extends string | number>({
+  options,
+  value,
+  onChange,
+  label,
+}: {
+  options: Array<{ value: T; label: string }>;
+  value: T;
+  onChange: (value: T) => void;
+  label: string;
+}) {
+  return (
+    <div className="flex gap-1" role="group" aria-label={label}>
+      {options.map((option) => (
+        <Button
+          key={option.value}
+          size="sm"
+          variant={option.value === value ? 'primary' : 'ghost'}
+          onClick={() => onChange(option.value)}
+          aria-pressed={option.value === value}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+/**
+ * ReviewForecastCard charts the projected review load per recall set.
+ * Handles loading, error, and empty states.
+ */
+export function ReviewForecastCard({
+  forecast,
+  days,
+  onDaysChange,
+  isLoading = false,
+  error,
+  onRetry,
+}: ReviewForecastCardProps) {
+  const [metric, setMetric] = useState<ForecastMetric>('reviews');
+
+  const chartRows = useMemo(() => (forecast ? buildChartRows(forecast) : []), [forecast]);
+
+  // Only sets with reviews in the range get a stack segment
+  const recallSets = forecast?.recallSets.filter((rs) => rs.dueCount > 0) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span>Review Forecast</span>
+          <div className="flex flex-wrap gap-3">
+            <Toggle
+              label="Measure"
+              options={[
+                { value: 'reviews', label: 'Reviews' },
+                { value: 'minutes', label: 'Minutes' },
+              ]}
+              value={metric}
+              onChange={setMetric}
+            />
+            <Toggle
+              label="Range"
+              options={[
+                { value: 30, label: '30 days' },
+                { value: 90, label: '90 days' },
+              ]}
+              value={days}
+              onChange={onDaysChange}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardBody>
+        {/* Loading state */}
+        {isLoading && (
+          <div className="flex items-center justify-center h-64">
+            <Spinner size="lg" label="Loading forecast..." />
+          </div>
+        )}
+
+        {/* Error state */}
+        {!isLoading && error && (
+          <div className="p-6 text-center">
+            <p className="text-red-600 mb-4">Failed to load forecast</p>
+            {onRetry && (
+              <Button variant="secondary" onClick={onRetry}>
+                Try Again
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Empty state */}
+        {!isLoading && !error && forecast && forecast.totalDueCount === 0 && (
+          <p className="text-sm text-gray-500 text-center py-12">
+            Nothing is due in the next {forecast.days} days.
+          </p>
+        )}
+
+        {/* Chart display */}
+        {!isLoading && !error && forecast && forecast.totalDueCount > 0 && (
+          <>
+            {/* Totals over the range */}
+            <div className="flex justify-around pb-4 mb-4 border-b border-gray-200">
+              <div className="text-center">
+                <p className="text-2xl font-bold text-clarity-600">{forecast.totalDueCount}</p>
+                <p className="text-xs text-gray-500">Reviews</p>
+              </div>
+              <div className="text-center">
+                <p className="text-2xl font-bold text-clarity-600">
+                  {formatMinutes(forecast.totalEstimatedMinutes)}
+                </p>
+                <p className="text-xs text-gray-500">Estimated study time</p>
+              </div>
+            </div>
+
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartRows} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  {/* Grid lines for readability */}
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+
+                  {/* X-axis with day labels */}
+                  <XAxis
+                    dataKey="date"
+                    tick={{ fontSize: 12, fill: '#6b7280' }}
+                    tickLine={{ stroke: '#e5e7eb' }}
+                    axisLine={{ stroke: '#e5e7eb' }}
+                    minTickGap={16}
+                  />
+
+                  {/* Y-axis with reviews or minutes */}
+                  <YAxis
+                    allowDecimals={metric === 'minutes'}
+                    tick={{ fontSize: 12, fill: '#6b7280' }}
+                    tickLine={{ stroke: '#e5e7eb' }}
+                    axisLine={{ stroke: '#e5e7eb' }}
+                    width={40}
+                  />
+
+                  <Tooltip content={<ForecastTooltip />} cursor={{ fill: '#f3f4f6' }} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+
+                  {/* One stack segment per recall set */}
+                  {recallSets.map((recallSet, index) => (
+                    <Bar
+                      key={recallSet.recallSetId}
+                      dataKey={`${metric}:${recallSet.recallSetId}`}
+                      name={recallSet.recallSetName}
+                      stackId="load"
+                      fill={SET_COLORS[index % SET_COLORS.length]}
+                    />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <p className="text-xs text-gray-500 mt-4 text-center">
+              Assumes every review succeeds. Minutes use each set's past time per point.
+            </p>
+          </>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+export default ReviewForecastCard;
@@ -10,7 +10,8 @@
  *   DuePointsCard,
  *   RecentSessionsList,
  *   UpcomingReviewsCard,
- *   StreakDisplay
+ *   StreakDisplay,
+ *   ReviewForecastCard
  * } from '@/components/dashboard';
  * ```
  *
@@ -20,6 +21,7 @@
  * - RecentSessionsList: List of recent study sessions with navigation
  * - UpcomingReviewsCard: Summary and list of upcoming reviews
  * - StreakDisplay: Current and longest streak visualization
+ * - ReviewForecastCard: Stacked chart of the projected review load per recall set
  */
 
 // Overview statistics grid component
@@ -36,3 +38,10 @@ export { UpcomingReviewsCard, type UpcomingReviewsCardProps } from './UpcomingRe
 
 // Streak visualization component
 export { StreakDisplay, type StreakDisplayProps } from './StreakDisplay';
+
+// Review load forecast chart component
+export {
+  ReviewForecastCard,
+  type ReviewForecastCardProps,
+  type ForecastRange,
+} from './ReviewForecastCard';
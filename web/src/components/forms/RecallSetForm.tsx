@@ -15,13 +15,20 @@
  * - Name: Required, 1-100 characters
  * - Description: Required, max 1000 characters
  * - Discussion System Prompt: Required, min 10 characters
+ * - Scheduling settings: Optional; blank uses the default
+ *   - Desired Retention: 0.7-0.99
+ *   - Maximum Interval: Whole number of days, 1-36500
+ *   - Max Points per Session: Whole number, 1-500
+ *   - New Points per Day: Whole number, 0-1000
+ *   - Leech Threshold: Whole number of lapses, 1-100
  */
 
 import { useState, useCallback, type FormEvent } from 'react';
 import { Button, Input, Textarea } from '@/components/ui';
+import type { RecallSetSchedulingSettings } from '@/types/api';
 
-/** Data structure for recall set form fields */
-export interface RecallSetFormData {
+/** Data structure for recall set form fields (null scheduling settings use the default) */
+export interface RecallSetFormData extends RecallSetSchedulingSettings {
   /** Name of the recall set (1-100 chars) */
   name: string;
   /** Description of the recall set (max 1000 chars) */
@@ -35,6 +42,56 @@ interface FormErrors {
   name?: string;
   description?: string;
   discussionSystemPrompt?: string;
+  desiredRetention?: string;
+  maximumIntervalDays?: string;
+  maxPointsPerSession?: string;
+  newPointsPerDay?: string;
+  leechLapseThreshold?: string;
+}
+
+/** Allowed range for each scheduling setting, and whether it must be whole */
+const SCHEDULING_LIMITS: Record<
+  keyof RecallSetSchedulingSettings,
+  { label: string; min: number; max: number; integer: boolean }
+> = {
+  desiredRetention: { label: 'Desired retention', min: 0.7, max: 0.99, integer: false },
+  maximumIntervalDays: { label: 'Maximum interval', min: 1, max: 36500, integer: true },
+  maxPointsPerSession: { label: 'Max points per session', min: 1, max: 500, integer: true },
+  newPointsPerDay: { label: 'New points per day', min: 0, max: 1000, integer: true },
+  leechLapseThreshold: { label: 'Leech threshold', min: 1, max: 100, integer: true },
+};
+
+/**
+ * Parses an optional number field. Blank means "use the default" (null).
+ */
+function parseSetting(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+/**
+ * Validates an optional scheduling setting, returning an error message if invalid.
+ */
+function validateSetting(
+  field: keyof RecallSetSchedulingSettings,
+  value: string
+): string | undefined {
+  const parsed = parseSetting(value);
+  if (parsed === null) {
+    return undefined;
+  }
+  const { label, min, max, integer } = SCHEDULING_LIMITS[field];
+  if (Number.isNaN(parsed) || parsed < min || parsed > max) {
+    return `${label} must be between ${min} and ${max}`;
+  }
+  if (integer && !Number.isInteger(parsed)) {
+    return `${label} must be a whole number`;
+  }
+  return undefined;
+}
+
+/** Converts a stored setting to its input value (blank for the default) */
+function settingToInput(value: number | null | undefined): string {
+  return value === null || value === undefined ? '' : String(value);
 }
 
 export interface RecallSetFormProps {
@@ -68,6 +125,23 @@ export function RecallSetForm({
     initialData?.discussionSystemPrompt ?? ''
   );
 
+  // Scheduling settings are kept as input strings; blank uses the default
+  const [desiredRetention, setDesiredRetention] = useState(
+    settingToInput(initialData?.desiredRetention)
+  );
+  const [maximumIntervalDays, setMaximumIntervalDays] = useState(
+    settingToInput(initialData?.maximumIntervalDays)
+  );
+  const [maxPointsPerSession, setMaxPointsPerSession] = useState(
+    settingToInput(initialData?.maxPointsPerSession)
+  );
+  const [newPointsPerDay, setNewPointsPerDay] = useState(
+    settingToInput(initialData?.newPointsPerDay)
+  );
+  const [leechLapseThreshold, setLeechLapseThreshold] = useState(
+    settingToInput(initialData?.leechLapseThreshold)
+  );
+
   // Validation error state for each field
   const [errors, setErrors] = useState<FormErrors>({});
 
@@ -106,9 +180,33 @@ export function RecallSetForm({
         'Discussion system prompt must be at least 10 characters';
     }
 
+    // Scheduling settings: optional, within their allowed ranges
+    const settings = {
+      desiredRetention,
+      maximumIntervalDays,
+      maxPointsPerSession,
+      newPointsPerDay,
+      leechLapseThreshold,
+    };
+    for (const field of Object.keys(settings) as (keyof RecallSetSchedulingSettings)[]) {
+      const settingError = validateSetting(field, settings[field]);
+      if (settingError) {
+        newErrors[field] = settingError;
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, [name, description, discussionSystemPrompt]);
+  }, [
+    name,
+    description,
+    discussionSystemPrompt,
+    desiredRetention,
+    maximumIntervalDays,
+    maxPointsPerSession,
+    newPointsPerDay,
+    leechLapseThreshold,
+  ]);
 
   /**
    * Handle form submission. Validates data before calling onSubmit callback.
@@ -136,6 +234,11 @@ export function RecallSetForm({
           name: name.trim(),
           description: description.trim(),
           discussionSystemPrompt: discussionSystemPrompt.trim(),
+          desiredRetention: parseSetting(desiredRetention),
+          maximumIntervalDays: parseSetting(maximumIntervalDays),
+          maxPointsPerSession: parseSetting(maxPointsPerSession),
+          newPointsPerDay: parseSetting(newPointsPerDay),
+          leechLapseThreshold: parseSetting(leechLapseThreshold),
         };
 
         // Call the parent's submit handler (may be async)
@@ -148,6 +251,11 @@ export function RecallSetForm({
       name,
       description,
       discussionSystemPrompt,
+      desiredRetention,
+      maximumIntervalDays,
+      maxPointsPerSession,
+      newPointsPerDay,
+      leechLapseThreshold,
       isSubmitting,
       isLoading,
       validateForm,
@@ -199,6 +307,86 @@ export function RecallSetForm({
         required
       />
 
+      {/* Scheduling settings - optional numbers, blank uses the default */}
+      <fieldset className="space-y-4">
+        <legend className="text-sm font-medium text-gray-700">Scheduling</legend>
+        <p className="text-sm text-gray-500">
+          Leave a field blank to use the default. Exam preparation might call for
+          0.95 retention; casual sets are fine at 0.8.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Input
+            label="Desired Retention"
+            type="number"
+            inputMode="decimal"
+            step={0.01}
+            min={0.7}
+            max={0.99}
+            value={desiredRetention}
+            onChange={(e) => setDesiredRetention(e.target.value)}
+            error={errors.desiredRetention}
+            placeholder="0.9"
+            helperText="Chance of recall when a review is due (0.70-0.99)"
+            disabled={showLoading}
+          />
+          <Input
+            label="Maximum Interval (days)"
+            type="number"
+            inputMode="numeric"
+            step={1}
+            min={1}
+            max={36500}
+            value={maximumIntervalDays}
+            onChange={(e) => setMaximumIntervalDays(e.target.value)}
+            error={errors.maximumIntervalDays}
+            placeholder="365"
+            helperText="Longest gap between reviews"
+            disabled={showLoading}
+          />
+          <Input
+            label="Max Points per Session"
+            type="number"
+            inputMode="numeric"
+            step={1}
+            min={1}
+            max={500}
+            value={maxPointsPerSession}
+            onChange={(e) => setMaxPointsPerSession(e.target.value)}
+            error={errors.maxPointsPerSession}
+            placeholder="20"
+            disabled={showLoading}
+          />
+          <Input
+            label="New Points per Day"
+            type="number"
+            inputMode="numeric"
+            step={1}
+            min={0}
+            max={1000}
+            value={newPointsPerDay}
+            onChange={(e) => setNewPointsPerDay(e.target.value)}
+            error={errors.newPointsPerDay}
+            placeholder="No limit"
+            helperText="Never-reviewed points introduced per day"
+            disabled={showLoading}
+          />
+          <Input
+            label="Leech Threshold (lapses)"
+            type="number"
+            inputMode="numeric"
+            step={1}
+            min={1}
+            max={100}
+            value={leechLapseThreshold}
+            onChange={(e) => setLeechLapseThreshold(e.target.value)}
+            error={errors.leechLapseThreshold}
+            placeholder="4"
+            helperText="Times a point can be forgotten before it's flagged as a leech"
+            disabled={showLoading}
+          />
+        </div>
+      </fieldset>
+
       {/* Form action buttons */}
       <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
         {/* Cancel button - secondary variant */}
@@ -0,0 +1,115 @@
+/**
+ * Rating Override Component for Live Sessions
+ *
+ * Shows the rating the AI derived from its evaluation and lets the learner
+ * keep it or replace it while the server waits, before the point is
+ * scheduled. Either choice schedules the point right away; the buttons count
+ * down the server's override window, after which the AI's rating is used,
+ * and are disabled once it has passed or a rating has been chosen.
+ *
+ * @example
+ * ```tsx
+ * <RatingOverride
+ *   evaluation={lastEvaluation}
+ *   onAccept={() => acceptRating(lastEvaluation.recallPointId)}
+ *   onOverride={(rating) => overrideRating(lastEvaluation.recallPointId, rating)}
+ * />
+ * ```
+ */
+
+import { useEffect, useState, type HTMLAttributes } from 'react';
+import { Button } from '@/components/ui/Button';
+import type { EvaluationResult } from '@/hooks/use-session-websocket';
+import type { RecallRating } from '@/types/api';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RatingOverrideProps extends HTMLAttributes<HTMLDivElement> {
+  /** The evaluation whose rating can be overridden */
+  evaluation: EvaluationResult;
+  /** Callback when the learner keeps the AI's rating */
+  onAccept: () => void;
+  /** Callback when the learner picks a different rating */
+  onOverride: (rating: RecallRating) => void;
+}
+
+/** Ratings in the order they are offered, with their labels */
+const RATING_OPTIONS: { rating: RecallRating; label: string }[] = [
+  { rating: 'forgot', label: 'Forgot' },
+  { rating: 'hard', label: 'Hard' },
+  { rating: 'good', label: 'Good' },
+  { rating: 'easy', label: 'Easy' },
+];
+
+// ============================================================================
+// Component Implementation
+// ============================================================================
+
+/**
+ * Rating buttons with a countdown of the override window.
+ */
+export function RatingOverride({
+  evaluation,
+  onAccept,
+  onOverride,
+  className = '',
+  ...props
+}: RatingOverrideProps) {
+  const deadline = evaluation.receivedAt + evaluation.overrideWindowMs;
+  const [now, setNow] = useState(() => Date.now());
+  const [chosen, setChosen] = useState<RecallRating | null>(null);
+
+  // Reset for each new evaluation
+  useEffect(() => {
+    setChosen(null);
+    setNow(Date.now());
+  }, [evaluation]);
+
+  // Tick until the window closes
+  useEffect(() => {
+    if (now >= deadline) return;
+    const timeout = setTimeout(() => setNow(Date.now()), 250);
+    return () => clearTimeout(timeout);
+  }, [now, deadline]);
+
+  const secondsLeft = Math.max(Math.ceil((deadline - now) / 1000), 0);
+  const isOpen = secondsLeft > 0 && chosen === null;
+
+  const handleChoose = (rating: RecallRating) => {
+    if (!isOpen) return;
+    setChosen(rating);
+    if (rating === evaluation.rating) {
+      onAccept();
+    } else {
+      onOverride(rating);
+    }
+  };
+
+  return (
+    <div data-testid="rating-override" className={`flex flex-wrap items-center gap-2 ${className}`} {...props}>
+      <span className="text-sm text-clarity-300">
+        {chosen
+          ? `Scheduled as ${chosen}`
+          : isOpen
+            ? `Rated ${evaluation.rating} - keep or change it? (${secondsLeft}s)`
+            : `Scheduled as ${evaluation.rating}`}
+      </span>
+      {RATING_OPTIONS.map(({ rating, label }) => (
+        <Button
+          key={rating}
+          data-testid={`rating-${rating}-btn`}
+          variant={rating === (chosen ?? evaluation.rating) ? 'primary' : 'ghost'}
+          size="sm"
+          onClick={() => handleChoose(rating)}
+          disabled={!isOpen}
+        >
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+export default RatingOverride;
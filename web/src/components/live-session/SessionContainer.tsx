@@ -7,6 +7,8 @@
  * - Manages session state (active, evaluating, completed)
  * - Coordinates child components
  * - Handles session lifecycle events
+ * - Offers the rating override after each evaluation
+ * - Shows when the learner is exploring a tangent
  *
  * @example
  * ```tsx
@@ -21,6 +23,8 @@ import { MessageList } from './MessageList';
 import { MessageInput } from './MessageInput';
 import { SessionProgress } from './SessionProgress';
 import { SessionControls } from './SessionControls';
+import { RatingOverride } from './RatingOverride';
+import { TangentBanner } from './TangentBanner';
 
 // ============================================================================
 // Types
@@ -268,9 +272,22 @@ export function SessionContainer({
     streamingContent,
     currentPointIndex,
     totalPoints,
+    sessionMode,
     isWaitingForResponse,
+    hintsRemaining,
+    exploringTangent,
     sendUserMessage,
     triggerEvaluation,
+    requestHint,
+    skipPoint,
+    deferPoint,
+    revealPoint,
+    undoLastMessage,
+    addNote,
+    exploreTangent,
+    returnFromTangent,
+    acceptRating,
+    overrideRating,
     endSession,
     connect,
   } = useSessionWebSocket(sessionId, {
@@ -324,11 +341,16 @@ export function SessionContainer({
             CC
           </div>
           <div>
-            <p className="text-white font-medium">Live Session</p>
+            <p className="text-white font-medium">
+              {sessionMode === 'practice' ? 'Practice Session' :
+               sessionMode === 'deep-dive' ? 'Deep Dive' : 'Live Session'}
+            </p>
             <p className="text-clarity-400 text-sm">
               {connectionState === 'connected' ? 'Connected' :
                connectionState === 'connecting' ? 'Connecting...' :
                connectionState === 'reconnecting' ? 'Reconnecting...' : 'Disconnected'}
+              {sessionMode === 'practice' && ' · review schedule unchanged'}
+              {sessionMode === 'deep-dive' && ' · points you keep forgetting'}
             </p>
           </div>
         </div>
@@ -376,19 +398,43 @@ export function SessionContainer({
           <div
             className={`
               mb-4 p-4 rounded-xl
-              ${lastEvaluation.outcome === 'success'
+              ${lastEvaluation.success
                 ? 'bg-green-500/20 border border-green-500/30'
                 : 'bg-amber-500/20 border border-amber-500/30'
               }
             `}
           >
-            <p className={`font-medium ${lastEvaluation.outcome === 'success' ? 'text-green-400' : 'text-amber-400'}`}>
-              {lastEvaluation.outcome === 'success' ? 'Great recall!' : 'Keep practicing'}
+            <p className={`font-medium ${lastEvaluation.success ? 'text-green-400' : 'text-amber-400'}`}>
+              {lastEvaluation.success ? 'Great recall!' : 'Keep practicing'}
             </p>
             <p className="text-clarity-200 text-sm mt-1">{lastEvaluation.feedback}</p>
+            {lastEvaluation.hintsUsed > 0 && (
+              <p className="text-clarity-400 text-xs mt-1">
+                {lastEvaluation.hintsUsed === 1 ? '1 hint' : `${lastEvaluation.hintsUsed} hints`} taken -
+                rated at most {lastEvaluation.hintsUsed === 1 ? 'good' : 'hard'}
+              </p>
+            )}
+            {lastEvaluation.overrideWindowMs > 0 && (
+              <RatingOverride
+                evaluation={lastEvaluation}
+                onAccept={() => acceptRating(lastEvaluation.recallPointId)}
+                onOverride={(rating) => overrideRating(lastEvaluation.recallPointId, rating)}
+                className="mt-3"
+              />
+            )}
           </div>
         )}
 
+        {/* Exploring a tangent: the point waits until the learner returns */}
+        {exploringTangent && (
+          <TangentBanner
+            topic={exploringTangent.topic}
+            onReturn={returnFromTangent}
+            disabled={controlsDisabled}
+            className="mb-4"
+          />
+        )}
+
         {/* Message list */}
         <MessageList
           messages={messages}
@@ -402,6 +448,15 @@ export function SessionContainer({
           {/* Session controls */}
           <SessionControls
             onTriggerEvaluation={handleTriggerEvaluation}
+            onRequestHint={requestHint}
+            hintsRemaining={hintsRemaining}
+            onSkipPoint={skipPoint}
+            onRevealPoint={revealPoint}
+            onDeferPoint={sessionMode === 'practice' ? undefined : deferPoint}
+            onUndoMessage={undoLastMessage}
+            onAddNote={addNote}
+            onExploreTangent={() => exploreTangent()}
+            isExploringTangent={exploringTangent !== null}
             onEndSession={endSession}
             disabled={controlsDisabled}
             isEvaluating={sessionState === 'evaluating'}
@@ -413,11 +468,13 @@ export function SessionContainer({
           <MessageInput
             onSend={sendUserMessage}
             disabled={controlsDisabled}
-            placeholder="Type your response..."
+            placeholder={exploringTangent ? 'Ask about the tangent...' : 'Type your response...'}
           />
 
           <p className="text-clarity-500 text-sm text-center mt-3">
-            Press Enter to send | Click "I've got it!" when you're ready to be evaluated
+            {exploringTangent
+              ? 'Press Enter to send | Click "Back to the point" when you\'re done exploring'
+              : 'Press Enter to send | Stuck? Ask for a hint, say "I don\'t know" or show the answer | Click "I\'ve got it!" when you\'re ready to be evaluated'}
           </p>
         </div>
       </main>
@@ -3,6 +3,11 @@
  *
  * Provides control buttons for managing the live session:
  * - "I've got it" button to trigger recall evaluation
+ * - "Hint" button to climb the hint ladder of the current point
+ * - "Skip", "Show answer" and "Later" buttons to move on without answering
+ * - "Undo" button to retract the last message, and a note field
+ * - "Explore this" button to step aside into a tangent; while one is being
+ *   explored, the commands about the point are hidden
  * - "End Session" button to end the session early
  *
  * Features:
@@ -14,13 +19,15 @@
  * ```tsx
  * <SessionControls
  *   onTriggerEvaluation={triggerEvaluation}
+ *   onRequestHint={requestHint}
+ *   onSkipPoint={skipPoint}
  *   onEndSession={endSession}
  *   disabled={isWaitingForResponse}
  * />
  * ```
  */
 
-import { useState, type HTMLAttributes } from 'react';
+import { useState, type FormEvent, type HTMLAttributes } from 'react';
 import { Button } from '@/components/ui/Button';
 
 // ============================================================================
@@ -30,6 +37,27 @@ import { Button } from '@/components/ui/Button';
 export interface SessionControlsProps extends HTMLAttributes<HTMLDivElement> {
   /** Callback when "I've got it" is clicked */
   onTriggerEvaluation: () => void;
+  /** Callback when "Hint" is clicked; the button is hidden without it */
+  onRequestHint?: () => void;
+  /** Hints left on the current point (null until one is taken) */
+  hintsRemaining?: number | null;
+  /** Callback when "Skip" is clicked; the button is hidden without it */
+  onSkipPoint?: () => void;
+  /** Callback when "Show answer" is clicked; the button is hidden without it */
+  onRevealPoint?: () => void;
+  /**
+   * Callback with the days chosen under "Later"; the button is hidden
+   * without it (practice sessions leave the schedule alone)
+   */
+  onDeferPoint?: (days: number) => void;
+  /** Callback when "Undo" is clicked; the button is hidden without it */
+  onUndoMessage?: () => void;
+  /** Callback with a note to save; the note field is hidden without it */
+  onAddNote?: (note: string) => void;
+  /** Callback when "Explore this" is clicked; the button is hidden without it */
+  onExploreTangent?: () => void;
+  /** Whether a tangent is being explored; hides the commands about the point */
+  isExploringTangent?: boolean;
   /** Callback when "End Session" is clicked (after confirmation) */
   onEndSession: () => void;
   /** Whether controls are disabled (e.g., waiting for response) */
@@ -50,6 +78,15 @@ export interface SessionControlsProps extends HTMLAttributes<HTMLDivElement> {
  */
 export function SessionControls({
   onTriggerEvaluation,
+  onRequestHint,
+  hintsRemaining = null,
+  onSkipPoint,
+  onRevealPoint,
+  onDeferPoint,
+  onUndoMessage,
+  onAddNote,
+  onExploreTangent,
+  isExploringTangent = false,
   onEndSession,
   disabled = false,
   isEvaluating = false,
@@ -59,6 +96,9 @@ export function SessionControls({
 }: SessionControlsProps) {
   // State for showing end session confirmation
   const [showEndConfirm, setShowEndConfirm] = useState(false);
+  // State for the "Later" day choices and the note field
+  const [showDeferOptions, setShowDeferOptions] = useState(false);
+  const [note, setNote] = useState('');
 
   /**
    * Handle "I've got it" click.
@@ -69,6 +109,25 @@ export function SessionControls({
     }
   };
 
+  /**
+   * Defer the current point by the chosen number of days.
+   */
+  const handleDefer = (days: number) => {
+    setShowDeferOptions(false);
+    onDeferPoint?.(days);
+  };
+
+  /**
+   * Save the note and clear the field.
+   */
+  const handleNoteSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (note.trim()) {
+      onAddNote?.(note);
+      setNote('');
+    }
+  };
+
   /**
    * Handle end session request.
    * Shows confirmation first if not already shown.
@@ -96,18 +155,138 @@ export function SessionControls({
 
   return (
     <div className={`flex flex-wrap items-center gap-3 ${className}`} {...props}>
-      {/* "I've got it" button - main action */}
-      <Button
-        data-testid="trigger-evaluation-btn"
-        variant="primary"
-        size="md"
-        onClick={handleTriggerEvaluation}
-        disabled={disabled || isEvaluating}
-        isLoading={isEvaluating}
-        className="bg-green-600 hover:bg-green-700 focus:ring-green-500"
-      >
-        {isEvaluating ? 'Evaluating...' : "I've got it!"}
-      </Button>
+      {/* Commands about the point - back with the point after a tangent */}
+      {!isExploringTangent && (
+        <>
+          {/* "I've got it" button - main action */}
+          <Button
+            data-testid="trigger-evaluation-btn"
+            variant="primary"
+            size="md"
+            onClick={handleTriggerEvaluation}
+            disabled={disabled || isEvaluating}
+            isLoading={isEvaluating}
+            className="bg-green-600 hover:bg-green-700 focus:ring-green-500"
+          >
+            {isEvaluating ? 'Evaluating...' : "I've got it!"}
+          </Button>
+
+          {/* Hint button - each hint caps the point's rating */}
+          {onRequestHint && (
+            <Button
+              data-testid="request-hint-btn"
+              variant="secondary"
+              size="md"
+              onClick={onRequestHint}
+              disabled={disabled || isEvaluating || hintsRemaining === 0}
+              title="Each hint lowers the best rating this point can get"
+              className="bg-clarity-700 border-clarity-600 text-clarity-200 hover:bg-clarity-600 hover:text-white"
+            >
+              {hintsRemaining === null
+                ? 'Hint'
+                : hintsRemaining === 0
+                  ? 'No hints left'
+                  : `Hint (${hintsRemaining} left)`}
+            </Button>
+          )}
+
+          {/* Commands that move on without answering the point */}
+          {onSkipPoint && (
+            <Button
+              data-testid="skip-point-btn"
+              variant="ghost"
+              size="md"
+              onClick={onSkipPoint}
+              disabled={disabled || isEvaluating}
+              title="Move on without rating this point"
+              className="text-clarity-300 hover:text-white hover:bg-clarity-700"
+            >
+              Skip
+            </Button>
+          )}
+
+          {onRevealPoint && (
+            <Button
+              data-testid="reveal-point-btn"
+              variant="ghost"
+              size="md"
+              onClick={onRevealPoint}
+              disabled={disabled || isEvaluating}
+              title="Show the point; it will be rated forgot"
+              className="text-clarity-300 hover:text-white hover:bg-clarity-700"
+            >
+              Show answer
+            </Button>
+          )}
+
+          {onDeferPoint &&
+            (showDeferOptions ? (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-clarity-300">Ask again in</span>
+                {[1, 3, 7].map((days) => (
+                  <Button
+                    key={days}
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDefer(days)}
+                    className="text-clarity-300 hover:text-white hover:bg-clarity-700"
+                  >
+                    {days === 1 ? '1 day' : `${days} days`}
+                  </Button>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowDeferOptions(false)}
+                  className="text-clarity-400 hover:text-white hover:bg-clarity-700"
+                >
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <Button
+                data-testid="defer-point-btn"
+                variant="ghost"
+                size="md"
+                onClick={() => setShowDeferOptions(true)}
+                disabled={disabled || isEvaluating}
+                title="Put this point off for a few days"
+                className="text-clarity-300 hover:text-white hover:bg-clarity-700"
+              >
+                Later
+              </Button>
+            ))}
+
+          {onUndoMessage && (
+            <Button
+              data-testid="undo-message-btn"
+              variant="ghost"
+              size="md"
+              onClick={onUndoMessage}
+              disabled={disabled || isEvaluating}
+              title="Retract your last message and the reply to it"
+              className="text-clarity-300 hover:text-white hover:bg-clarity-700"
+            >
+              Undo
+            </Button>
+          )}
+
+          {/* Step aside into a tangent, starting from the last message */}
+          {onExploreTangent && (
+            <Button
+              data-testid="explore-tangent-btn"
+              variant="ghost"
+              size="md"
+              onClick={onExploreTangent}
+              disabled={disabled || isEvaluating}
+              title="Explore what you just asked about; this point's timer is paused meanwhile"
+              className="text-clarity-300 hover:text-white hover:bg-clarity-700"
+            >
+              Explore this
+            </Button>
+          )}
+        </>
+      )}
 
       {/* End session button/confirmation */}
       {showEndConfirm ? (
@@ -140,6 +319,29 @@ export function SessionControls({
           End Session
         </Button>
       )}
+
+      {/* Note field - saved on the session, next to the latest message */}
+      {onAddNote && (
+        <form onSubmit={handleNoteSubmit} className="flex items-center gap-2 basis-full">
+          <input
+            data-testid="session-note-input"
+            type="text"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Add a note for later..."
+            className="flex-1 px-3 py-2 bg-clarity-800 border border-clarity-600 rounded-lg text-sm text-white placeholder-clarity-500 focus:outline-none focus:ring-2 focus:ring-clarity-500"
+          />
+          <Button
+            type="submit"
+            variant="secondary"
+            size="sm"
+            disabled={!note.trim()}
+            className="bg-clarity-700 border-clarity-600 text-clarity-200 hover:bg-clarity-600 hover:text-white"
+          >
+            Save note
+          </Button>
+        </form>
+      )}
     </div>
   );
 }
@@ -0,0 +1,80 @@
+/**
+ * Tangent Banner Component for Live Sessions
+ *
+ * Shows that the learner is exploring a tangent rather than recalling the
+ * current point: what they're exploring, that the point's timer is paused,
+ * and a button to return to the point, which the tutor answers with a
+ * recap of the tangent.
+ *
+ * @example
+ * ```tsx
+ * {exploringTangent && (
+ *   <TangentBanner
+ *     topic={exploringTangent.topic}
+ *     onReturn={returnFromTangent}
+ *     disabled={isWaitingForResponse}
+ *   />
+ * )}
+ * ```
+ */
+
+import type { HTMLAttributes } from 'react';
+import { Button } from '@/components/ui/Button';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TangentBannerProps extends HTMLAttributes<HTMLDivElement> {
+  /** What the learner is exploring */
+  topic: string;
+  /** Callback when "Back to the point" is clicked */
+  onReturn: () => void;
+  /** Whether the button is disabled (e.g., waiting for response) */
+  disabled?: boolean;
+}
+
+// ============================================================================
+// Component Implementation
+// ============================================================================
+
+/**
+ * Banner for the "exploring tangent" state of a live session.
+ */
+export function TangentBanner({
+  topic,
+  onReturn,
+  disabled = false,
+  className = '',
+  ...props
+}: TangentBannerProps) {
+  return (
+    <div
+      data-testid="tangent-banner"
+      className={`flex items-center justify-between gap-4 p-4 rounded-xl bg-orange-500/20 border border-orange-500/30 ${className}`}
+      {...props}
+    >
+      <div className="min-w-0">
+        <p className="font-medium text-orange-300">Exploring a tangent</p>
+        <p className="text-clarity-200 text-sm mt-1 truncate" title={topic}>
+          {topic}
+        </p>
+        <p className="text-clarity-400 text-xs mt-1">
+          The timer for this point is paused and nothing you say here is evaluated.
+        </p>
+      </div>
+      <Button
+        data-testid="return-from-tangent-btn"
+        variant="secondary"
+        size="md"
+        onClick={onReturn}
+        disabled={disabled}
+        className="shrink-0 bg-clarity-700 border-clarity-600 text-clarity-200 hover:bg-clarity-600 hover:text-white"
+      >
+        Back to the point
+      </Button>
+    </div>
+  );
+}
+
+export default TangentBanner;
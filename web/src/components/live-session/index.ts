@@ -10,6 +10,8 @@
  * - MessageInput: Text input with send button
  * - SessionProgress: Progress bar through recall points
  * - SessionControls: "I've got it" and "End Session" buttons
+ * - RatingOverride: Buttons to replace the AI's rating before scheduling
+ * - TangentBanner: Shows the tangent being explored, with a way back
  * - StreamingMessage: Message that streams in chunks
  *
  * @example
@@ -49,6 +51,12 @@ export type { MessageInputProps } from './MessageInput';
 export { SessionControls } from './SessionControls';
 export type { SessionControlsProps } from './SessionControls';
 
+export { RatingOverride } from './RatingOverride';
+export type { RatingOverrideProps } from './RatingOverride';
+
+export { TangentBanner } from './TangentBanner';
+export type { TangentBannerProps } from './TangentBanner';
+
 // Progress display
 export { SessionProgress } from './SessionProgress';
 export type { SessionProgressProps } from './SessionProgress';
@@ -0,0 +1,158 @@
+/**
+ * LeechSplitModal Component
+ *
+ * Splits a leech into smaller recall points. When opened, the LLM proposes
+ * the parts; the learner can edit or remove them (keeping at least two)
+ * before confirming. Confirming adds the parts to the set as new points
+ * and suspends the original, which keeps its history.
+ *
+ * @example
+ * ```tsx
+ * <LeechSplitModal
+ *   setId={setId}
+ *   point={modalState.type === 'splitLeech' ? modalState.point : null}
+ *   onClose={closeModal}
+ * />
+ * ```
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Modal, Button, Textarea, Spinner } from '@/components/ui';
+import { useProposeLeechSplit, useSplitLeech } from '@/hooks/api/use-leeches';
+import type { LeechSplitPart, RecallPoint } from '@/types/api';
+
+export interface LeechSplitModalProps {
+  /** ID of the recall set the point belongs to */
+  setId: string;
+  /** The leech to split; the modal is open while this is set */
+  point: RecallPoint | null;
+  /** Callback fired when the modal should close (also after splitting) */
+  onClose: () => void;
+}
+
+/** Fewest parts a split can have */
+const MIN_PARTS = 2;
+
+/**
+ * Modal proposing, editing and confirming the split of a leech.
+ */
+export function LeechSplitModal({ setId, point, onClose }: LeechSplitModalProps) {
+  const proposeMutation = useProposeLeechSplit(setId);
+  const splitMutation = useSplitLeech(setId);
+
+  // The proposed parts, as edited by the learner
+  const [parts, setParts] = useState<LeechSplitPart[]>([]);
+
+  // mutate and reset are stable, unlike the mutation objects themselves
+  const { mutate: propose } = proposeMutation;
+  const { reset: resetSplit } = splitMutation;
+
+  // Ask for a proposal whenever the modal opens for a point
+  const pointId = point?.id;
+  const requestProposal = useCallback(() => {
+    if (!pointId) return;
+    setParts([]);
+    resetSplit();
+    propose(pointId, { onSuccess: (proposal) => setParts(proposal.parts) });
+  }, [pointId, propose, resetSplit]);
+
+  useEffect(() => {
+    requestProposal();
+  }, [requestProposal]);
+
+  const updatePart = (index: number, changes: Partial<LeechSplitPart>) => {
+    setParts((current) => current.map((part, i) => (i === index ? { ...part, ...changes } : part)));
+  };
+
+  const removePart = (index: number) => {
+    setParts((current) => current.filter((_, i) => i !== index));
+  };
+
+  const handleConfirm = async () => {
+    if (!point) return;
+    await splitMutation.mutateAsync({
+      pointId: point.id,
+      parts: parts.map((part) => ({ content: part.content.trim(), context: part.context.trim() })),
+    });
+    onClose();
+  };
+
+  const canConfirm =
+    parts.length >= MIN_PARTS && parts.every((part) => part.content.trim().length >= 10);
+  const error = proposeMutation.error ?? splitMutation.error;
+
+  return (
+    <Modal isOpen={point !== null} onClose={onClose} title="Split Leech" className="max-w-2xl">
+      {point && (
+        <div className="space-y-4">
+          <div className="rounded-lg bg-gray-50 p-3">
+            <p className="text-xs font-medium text-gray-500 uppercase">Original point</p>
+            <p className="text-sm text-gray-900 mt-1">{point.content}</p>
+          </div>
+
+          {/* Waiting for the LLM's proposal */}
+          {proposeMutation.isPending && (
+            <div className="flex items-center justify-center py-8">
+              <Spinner size="lg" label="Proposing a split..." />
+            </div>
+          )}
+
+          {/* Editable parts */}
+          {parts.map((part, index) => (
+            <div key={index} className="space-y-2 border-l-2 border-clarity-200 pl-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-700">Part {index + 1}</span>
+                {parts.length > MIN_PARTS && (
+                  <Button variant="ghost" size="sm" onClick={() => removePart(index)}>
+                    Remove
+                  </Button>
+                )}
+              </div>
+              <Textarea
+                label="Content"
+                value={part.content}
+                onChange={(e) => updatePart(index, { content: e.target.value })}
+                rows={2}
+                disabled={splitMutation.isPending}
+              />
+              <Textarea
+                label="Context"
+                value={part.context}
+                onChange={(e) => updatePart(index, { context: e.target.value })}
+                rows={2}
+                disabled={splitMutation.isPending}
+              />
+            </div>
+          ))}
+
+          {error && <p className="text-sm text-red-600">{error.message}</p>}
+
+          <p className="text-sm text-gray-500">
+            The parts are added as new points and the original is suspended, keeping its history.
+          </p>
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+            <Button variant="secondary" onClick={onClose} disabled={splitMutation.isPending}>
+              Cancel
+            </Button>
+            {proposeMutation.isError && (
+              <Button variant="secondary" onClick={requestProposal}>
+                Try Again
+              </Button>
+            )}
+            <Button
+              variant="primary"
+              onClick={handleConfirm}
+              disabled={!canConfirm}
+              isLoading={splitMutation.isPending}
+            >
+              Split into {parts.length} Points
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+export default LeechSplitModal;
@@ -0,0 +1,172 @@
+/**
+ * LeechesCard Component
+ *
+ * The remediation queue of a recall set: its leeches, points that keep
+ * being reviewed without sticking, either because they have been forgotten
+ * again and again (repeated lapses) or because reviewing them hasn't built
+ * up their stability (flat stability). Each leech can be:
+ *
+ * - Split into smaller points (the LLM proposes the parts)
+ * - Rewritten, which starts its schedule over
+ * - Suspended, taking it out of reviews
+ * - Marked for a deep-dive session, started from the card once any are marked
+ *
+ * @example
+ * ```tsx
+ * const { data: queue, isLoading } = useLeechQueue(setId);
+ *
+ * <LeechesCard
+ *   leeches={queue?.leeches}
+ *   lapseThreshold={queue?.lapseThreshold}
+ *   isLoading={isLoading}
+ *   onSplit={openSplitModal}
+ *   onRewrite={openRewriteModal}
+ *   onSuspend={(point) => suspendMutation.mutate({ pointId: point.id, suspended: true })}
+ *   onToggleDeepDive={toggleDeepDive}
+ *   onStartDeepDive={startDeepDive}
+ * />
+ * ```
+ */
+
+import { Card, CardHeader, CardBody, Spinner, Badge, Button } from '@/components/ui';
+import type { LeechQueueItem, LeechReason, RecallPoint } from '@/types/api';
+
+export interface LeechesCardProps {
+  /** The set's leeches, most lapses first (undefined while loading) */
+  leeches?: LeechQueueItem[];
+  /** Lapses at which the set's points are flagged */
+  lapseThreshold?: number;
+  /** Whether the data is currently loading */
+  isLoading?: boolean;
+  /** ID of the point a remedy is being applied to, whose actions are disabled */
+  busyPointId?: string | null;
+  /** Whether a deep-dive session is being started */
+  isStartingDeepDive?: boolean;
+  /** Callback to split a leech into smaller points */
+  onSplit: (point: RecallPoint) => void;
+  /** Callback to rewrite a leech */
+  onRewrite: (point: RecallPoint) => void;
+  /** Callback to suspend a leech */
+  onSuspend: (point: RecallPoint) => void;
+  /** Callback to mark a leech for a deep dive, or clear its mark */
+  onToggleDeepDive: (point: RecallPoint) => void;
+  /** Callback to start a deep-dive session over the marked points */
+  onStartDeepDive: () => void;
+}
+
+/** Short label for each leech reason */
+const REASON_LABELS: Record<LeechReason, string> = {
+  lapses: 'Repeated lapses',
+  'flat-stability': 'Flat stability',
+};
+
+/**
+ * Card listing the leeches of a recall set with their remedies.
+ * Handles loading and empty states.
+ */
+export function LeechesCard({
+  leeches,
+  lapseThreshold,
+  isLoading = false,
+  busyPointId = null,
+  isStartingDeepDive = false,
+  onSplit,
+  onRewrite,
+  onSuspend,
+  onToggleDeepDive,
+  onStartDeepDive,
+}: LeechesCardProps) {
+  const markedCount = leeches?.filter((leech) => leech.point.deepDiveRequestedAt).length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <span>Leeches</span>
+          <div className="flex items-center gap-3">
+            {leeches && leeches.length > 0 && (
+              <span className="text-xs text-gray-500 font-normal">
+                {leeches.length} {leeches.length === 1 ? 'point' : 'points'}
+                {lapseThreshold !== undefined && `, flagged at ${lapseThreshold} lapses`}
+              </span>
+            )}
+            {markedCount > 0 && (
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={onStartDeepDive}
+                isLoading={isStartingDeepDive}
+              >
+                Start Deep Dive ({markedCount})
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardBody>
+        {/* Loading state */}
+        {isLoading && (
+          <div className="flex items-center justify-center h-32">
+            <Spinner size="lg" label="Loading leeches..." />
+          </div>
+        )}
+
+        {/* Empty state */}
+        {!isLoading && (!leeches || leeches.length === 0) && (
+          <p className="text-sm text-gray-500 text-center py-8">
+            No leeches. Every reviewed point is building memory.
+          </p>
+        )}
+
+        {/* Leech list with remedies */}
+        {!isLoading && leeches && leeches.length > 0 && (
+          <ul className="divide-y divide-gray-100">
+            {leeches.map(({ point, reasons }) => {
+              const isBusy = busyPointId === point.id;
+              const { lapses, reps, stability } = point.fsrsState;
+
+              return (
+                <li key={point.id} className="py-3">
+                  <p className="text-sm text-gray-900">{point.content}</p>
+                  <div className="flex flex-wrap items-center gap-2 mt-1">
+                    {reasons.map((reason) => (
+                      <Badge key={reason} status={reason === 'lapses' ? 'error' : 'warning'}>
+                        {REASON_LABELS[reason]}
+                      </Badge>
+                    ))}
+                    {point.deepDiveRequestedAt && <Badge status="info">Deep dive</Badge>}
+                    <span className="text-xs text-gray-500">
+                      {lapses} {lapses === 1 ? 'lapse' : 'lapses'} in {reps} reviews,
+                      stability {stability.toFixed(1)}d
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    <Button variant="secondary" size="sm" onClick={() => onSplit(point)} disabled={isBusy}>
+                      Split
+                    </Button>
+                    <Button variant="secondary" size="sm" onClick={() => onRewrite(point)} disabled={isBusy}>
+                      Rewrite
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => onToggleDeepDive(point)}
+                      disabled={isBusy}
+                    >
+                      {point.deepDiveRequestedAt ? 'Unmark Deep Dive' : 'Deep Dive'}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => onSuspend(point)} disabled={isBusy}>
+                      Suspend
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+export default LeechesCard;
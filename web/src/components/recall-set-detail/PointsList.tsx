@@ -11,7 +11,8 @@
  * Features:
  * - Sortable/filterable table view
  * - FSRS state badges (new, learning, review, relearning)
- * - Due date display
+ * - Leech, suspended and deep-dive badges
+ * - Due date display (suspended points aren't due)
  * - Action buttons for edit and delete
  * - Loading and empty states
  *
@@ -19,6 +20,7 @@
  * ```tsx
  * <PointsList
  *   points={recallPoints}
+ *   leechPointIds={new Set(queue.leeches.map((leech) => leech.point.id))}
  *   isLoading={isLoading}
  *   onAddPoint={() => setAddModalOpen(true)}
  *   onEditPoint={(point) => { setSelectedPoint(point); setEditModalOpen(true); }}
@@ -48,6 +50,8 @@ import type { RecallPoint, FSRSLearningState } from '@/types/api';
 export interface PointsListProps {
   /** Array of recall points to display */
   points: RecallPoint[];
+  /** IDs of the points flagged as leeches (from the remediation queue) */
+  leechPointIds?: ReadonlySet<string>;
   /** Whether the data is currently loading */
   isLoading?: boolean;
   /** Callback when add point button is clicked */
@@ -122,6 +126,7 @@ function truncateText(text: string, maxLength: number): string {
  */
 export function PointsList({
   points,
+  leechPointIds,
   isLoading = false,
   onAddPoint,
   onEditPoint,
@@ -225,24 +230,45 @@ export function PointsList({
                     </div>
                   </TableCell>
 
-                  {/* Status badge cell */}
+                  {/* Status badge cell, plus leech remediation badges */}
                   <TableCell>
-                    <Badge status={stateToBadge[point.fsrsState.state]}>
-                      {stateLabels[point.fsrsState.state]}
-                    </Badge>
+                    <div className="flex flex-wrap items-center gap-1">
+                      <Badge status={stateToBadge[point.fsrsState.state]}>
+                        {stateLabels[point.fsrsState.state]}
+                      </Badge>
+                      {leechPointIds?.has(point.id) && (
+                        <Badge status="error" title="Keeps being forgotten; see the leech queue">
+                          Leech
+                        </Badge>
+                      )}
+                      {point.suspendedAt && (
+                        <Badge status="warning" title="No longer scheduled for review">
+                          Suspended
+                        </Badge>
+                      )}
+                      {point.deepDiveRequestedAt && (
+                        <Badge status="info" title="Marked for a deep-dive session">
+                          Deep dive
+                        </Badge>
+                      )}
+                    </div>
                   </TableCell>
 
                   {/* Due date cell */}
                   <TableCell>
-                    <span
-                      className={`text-sm ${
-                        new Date(point.fsrsState.due) < new Date()
-                          ? 'text-red-600 font-medium'
-                          : 'text-gray-600'
-                      }`}
-                    >
-                      {formatDueDate(point.fsrsState.due)}
-                    </span>
+                    {point.suspendedAt ? (
+                      <span className="text-sm text-gray-400">Not scheduled</span>
+                    ) : (
+                      <span
+                        className={`text-sm ${
+                          new Date(point.fsrsState.due) < new Date()
+                            ? 'text-red-600 font-medium'
+                            : 'text-gray-600'
+                        }`}
+                      >
+                        {formatDueDate(point.fsrsState.due)}
+                      </span>
+                    )}
                   </TableCell>
 
                   {/* Repetitions count cell */}
@@ -0,0 +1,241 @@
+/**
+ * RetentionCurveChart Component
+ *
+ * Displays how likely the learner is to recall a set's points over the
+ * coming days if they aren't reviewed again, following the FSRS forgetting
+ * curve each point's stability gives. The chart shows the average across
+ * the set's reviewed points, and a point can be selected to overlay its
+ * own curve.
+ *
+ * Features:
+ * - Average retention curve for the set
+ * - Point selector overlaying a single point's curve
+ * - Reference line at 90% recall, where FSRS schedules reviews by default
+ *
+ * @example
+ * ```tsx
+ * const { data, isLoading } = useRecallSetMemory(setId);
+ *
+ * <RetentionCurveChart memory={data} isLoading={isLoading} />
+ * ```
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardHeader, CardBody, Spinner, Select } from '@/components/ui';
+import type { RecallSetMemoryAnalytics } from '@/types/api';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface RetentionCurveChartProps {
+  /** The set's memory analytics (undefined while loading) */
+  memory?: RecallSetMemoryAnalytics;
+  /** Whether the data is currently loading */
+  isLoading?: boolean;
+}
+
+/** One point on the chart: a day, with the set's and the selected point's retention */
+interface ChartRow {
+  date: string;
+  average: number;
+  point?: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Formats a curve date as a short axis label, e.g. "Jan 21".
+ */
+function formatDay(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Shortens a point's content for the selector.
+ */
+function truncate(text: string, length = 60): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+}
+
+// ============================================================================
+// Sub-Components
+// ============================================================================
+
+/**
+ * Custom tooltip showing the retention on the hovered day.
+ */
+interface CurveTooltipProps {
+  active?: boolean;
+  label?: string;
+  payload?: Array<{ name: string; value: number; color: string }>;
+}
+
+function CurveTooltip({ active, label, payload }: CurveTooltipProps) {
+  if (!active || !payload || !payload.length) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-lg p-3">
+      <p className="text-sm text-gray-600 mb-1">{label}</p>
+      {payload.map((entry) => (
+        <p key={entry.name} className="text-sm font-semibold" style={{ color: entry.color }}>
+          {entry.name}: {(entry.value * 100).toFixed(1)}%
+        </p>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+/**
+ * RetentionCurveChart charts projected recall for a recall set.
+ * Handles loading and empty states.
+ */
+export function RetentionCurveChart({ memory, isLoading = false }: RetentionCurveChartProps) {
+  const [selectedPointId, setSelectedPointId] = useState('');
+
+  // Only reviewed points have a curve to show
+  const reviewedPoints = useMemo(
+    () => memory?.points.filter((point) => point.retentionCurve.length > 0) ?? [],
+    [memory]
+  );
+
+  const chartRows = useMemo<ChartRow[]>(() => {
+    if (!memory) {
+      return [];
+    }
+    const selected = reviewedPoints.find((point) => point.recallPointId === selectedPointId);
+    return memory.retentionCurve.map((sample, day) => ({
+      date: formatDay(sample.date),
+      average: sample.value,
+      point: selected?.retentionCurve[day]?.value,
+    }));
+  }, [memory, reviewedPoints, selectedPointId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <span>Retention Curve</span>
+          {memory && memory.reviewedPointCount > 0 && (
+            <span className="text-xs text-gray-500 font-normal">
+              Recall now: {(memory.avgRetrievability * 100).toFixed(0)}%
+            </span>
+          )}
+        </div>
+      </CardHeader>
+      <CardBody>
+        {/* Loading state */}
+        {isLoading && (
+          <div className="flex items-center justify-center h-64">
+            <Spinner size="lg" label="Loading retention..." />
+          </div>
+        )}
+
+        {/* Empty state */}
+        {!isLoading && memory && memory.reviewedPointCount === 0 && (
+          <p className="text-sm text-gray-500 text-center py-12">
+            Review some points to see how well you'll remember them.
+          </p>
+        )}
+
+        {/* Chart display */}
+        {!isLoading && memory && memory.reviewedPointCount > 0 && (
+          <>
+            <Select
+              label="Compare a point"
+              value={selectedPointId}
+              onChange={(event) => setSelectedPointId(event.target.value)}
+              className="mb-4"
+            >
+              <option value="">Set average only</option>
+              {reviewedPoints.map((point) => (
+                <option key={point.recallPointId} value={point.recallPointId}>
+                  {truncate(point.content)}
+                </option>
+              ))}
+            </Select>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartRows} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  {/* Grid lines for readability */}
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+
+                  {/* X-axis with day labels */}
+                  <XAxis
+                    dataKey="date"
+                    tick={{ fontSize: 12, fill: '#6b7280' }}
+                    tickLine={{ stroke: '#e5e7eb' }}
+                    axisLine={{ stroke: '#e5e7eb' }}
+                    minTickGap={16}
+                  />
+
+                  {/* Y-axis with percentage scale (0-100%) */}
+                  <YAxis
+                    domain={[0, 1]}
+                    tickFormatter={(value) => `${(value * 100).toFixed(0)}%`}
+                    tick={{ fontSize: 12, fill: '#6b7280' }}
+                    tickLine={{ stroke: '#e5e7eb' }}
+                    axisLine={{ stroke: '#e5e7eb' }}
+                    width={50}
+                  />
+
+                  {/* Default FSRS target retention */}
+                  <ReferenceLine y={0.9} stroke="#9ca3af" strokeDasharray="4 4" />
+
+                  <Tooltip content={<CurveTooltip />} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+
+                  <Line
+                    type="monotone"
+                    dataKey="average"
+                    name="Set average"
+                    stroke="#7c3aed" // Clarity purple
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                  {selectedPointId && (
+                    <Line
+                      type="monotone"
+                      dataKey="point"
+                      name="Selected point"
+                      stroke="#F59E0B" // Amber-500
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  )}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <p className="text-xs text-gray-500 mt-4 text-center">
+              Expected recall if nothing is reviewed again. {memory.newPointCount} new{' '}
+              {memory.newPointCount === 1 ? 'point is' : 'points are'} not included.
+            </p>
+          </>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+export default RetentionCurveChart;
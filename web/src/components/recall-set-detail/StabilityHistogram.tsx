@@ -0,0 +1,130 @@
+/**
+ * StabilityHistogram Component
+ *
+ * Displays how a recall set's reviewed points are spread across FSRS
+ * stability ranges. Stability is roughly how many days a memory lasts
+ * before recall drops to 90%, so the further right the bars, the more
+ * durable the set's memory.
+ *
+ * @example
+ * ```tsx
+ * const { data, isLoading } = useRecallSetMemory(setId);
+ *
+ * <StabilityHistogram buckets={data?.stabilityDistribution} isLoading={isLoading} />
+ * ```
+ */
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardHeader, CardBody, Spinner } from '@/components/ui';
+import type { StabilityBucket } from '@/types/api';
+
+export interface StabilityHistogramProps {
+  /** Reviewed points by stability range (undefined while loading) */
+  buckets?: StabilityBucket[];
+  /** Whether the data is currently loading */
+  isLoading?: boolean;
+}
+
+/**
+ * Custom tooltip showing the number of points in the hovered range.
+ */
+interface HistogramTooltipProps {
+  active?: boolean;
+  payload?: Array<{ value: number }>;
+  label?: string;
+}
+
+function HistogramTooltip({ active, payload, label }: HistogramTooltipProps) {
+  if (!active || !payload || !payload.length) {
+    return null;
+  }
+
+  const count = payload[0]?.value ?? 0;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-lg p-3">
+      <p className="text-sm text-gray-600 mb-1">Stability {label}</p>
+      <p className="text-lg font-semibold text-clarity-600">
+        {count} {count === 1 ? 'point' : 'points'}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Stability distribution bar chart.
+ * Handles loading and empty states.
+ */
+export function StabilityHistogram({ buckets, isLoading = false }: StabilityHistogramProps) {
+  const total = buckets?.reduce((sum, bucket) => sum + bucket.count, 0) ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>Stability Distribution</CardHeader>
+      <CardBody>
+        {/* Loading state */}
+        {isLoading && (
+          <div className="flex items-center justify-center h-64">
+            <Spinner size="lg" label="Loading distribution..." />
+          </div>
+        )}
+
+        {/* Empty state */}
+        {!isLoading && total === 0 && (
+          <p className="text-sm text-gray-500 text-center py-12">
+            No reviewed points yet.
+          </p>
+        )}
+
+        {/* Chart display */}
+        {!isLoading && buckets && total > 0 && (
+          <>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={buckets} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  {/* Grid lines for readability */}
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+
+                  {/* X-axis with stability ranges */}
+                  <XAxis
+                    dataKey="label"
+                    tick={{ fontSize: 12, fill: '#6b7280' }}
+                    tickLine={{ stroke: '#e5e7eb' }}
+                    axisLine={{ stroke: '#e5e7eb' }}
+                  />
+
+                  {/* Y-axis with point counts */}
+                  <YAxis
+                    allowDecimals={false}
+                    tick={{ fontSize: 12, fill: '#6b7280' }}
+                    tickLine={{ stroke: '#e5e7eb' }}
+                    axisLine={{ stroke: '#e5e7eb' }}
+                    width={40}
+                  />
+
+                  <Tooltip content={<HistogramTooltip />} cursor={{ fill: '#f3f4f6' }} />
+
+                  <Bar dataKey="count" fill="#7c3aed" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <p className="text-xs text-gray-500 mt-4 text-center">
+              Stability is about how many days a memory lasts before recall drops to 90%.
+            </p>
+          </>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+export default StabilityHistogram;
@@ -10,6 +10,10 @@
  *   StatsOverview,
  *   PointStatusBreakdown,
  *   RecallRateChart,
+ *   RetentionCurveChart,
+ *   StabilityHistogram,
+ *   LeechesCard,
+ *   LeechSplitModal,
  *   PointsList,
  *   SessionHistoryTable,
  * } from '@/components/recall-set-detail';
@@ -20,6 +24,10 @@
  * - StatsOverview: Summary statistics row with stat cards
  * - PointStatusBreakdown: Pie chart showing point status distribution
  * - RecallRateChart: Line chart of recall success over time
+ * - RetentionCurveChart: Projected recall over the coming days, per set or point
+ * - StabilityHistogram: Bar chart of reviewed points by FSRS stability
+ * - LeechesCard: Remediation queue of points that keep being reviewed without sticking
+ * - LeechSplitModal: Splits a leech into smaller points proposed by the LLM
  * - PointsList: Table of all recall points with CRUD actions
  * - SessionHistoryTable: Recent sessions for this recall set
  */
@@ -40,6 +48,18 @@ export {
   type RecallRateDataPoint,
 } from './RecallRateChart';
 
+// RetentionCurveChart - projected recall from FSRS stability
+export { RetentionCurveChart, type RetentionCurveChartProps } from './RetentionCurveChart';
+
+// StabilityHistogram - bar chart of points by stability range
+export { StabilityHistogram, type StabilityHistogramProps } from './StabilityHistogram';
+
+// LeechesCard - remediation queue of leeches with their reasons and remedies
+export { LeechesCard, type LeechesCardProps } from './LeechesCard';
+
+// LeechSplitModal - propose, edit and confirm the split of a leech
+export { LeechSplitModal, type LeechSplitModalProps } from './LeechSplitModal';
+
 // PointsList - table of recall points with actions
 export { PointsList, type PointsListProps } from './PointsList';
 
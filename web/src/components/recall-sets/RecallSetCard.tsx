@@ -8,7 +8,8 @@
  * - Clickable card that navigates to the recall set detail page
  * - Status badge with color coding (active=green, paused=yellow, archived=gray)
  * - Stats display: total points, due points, new points
- * - "Start Session" button that initiates a study session
+ * - "Start Session" button that initiates a study session, or a practice
+ *   session when no points are due
  *
  * The card uses the existing Card UI component for consistent styling
  * and provides visual feedback on hover for better UX.
@@ -88,6 +89,9 @@ export function RecallSetCard({ recallSet }: RecallSetCardProps) {
   const { id, name, description, status, summary } = recallSet;
   const { totalPoints, duePoints, newPoints } = summary;
 
+  // With nothing due a review would be refused, so the set is practiced
+  const mode = duePoints > 0 ? 'review' : 'practice';
+
   /**
    * Handles starting a new study session for this recall set.
    * Navigates to the live session page on success.
@@ -98,7 +102,7 @@ export function RecallSetCard({ recallSet }: RecallSetCardProps) {
     event.preventDefault();
     event.stopPropagation();
 
-    startSessionMutation.mutate(id, {
+    startSessionMutation.mutate({ recallSetId: id, mode }, {
       onSuccess: (data) => {
         // Navigate to the live session page with the new session ID
         navigate(`/session/${data.sessionId}`);
@@ -177,7 +181,11 @@ export function RecallSetCard({ recallSet }: RecallSetCardProps) {
               disabled={totalPoints === 0}
               className="w-full min-h-[44px]"
             >
-              {startSessionMutation.isPending ? 'Starting...' : 'Start Session'}
+              {startSessionMutation.isPending
+                ? 'Starting...'
+                : mode === 'practice'
+                  ? 'Practice'
+                  : 'Start Session'}
             </Button>
           )}
 
@@ -0,0 +1,347 @@
+/**
+ * AnnotationPanel Component
+ *
+ * Lets the reader of a session replay keep notes on what went wrong, or
+ * right, while refining the prompts. Each annotation is a free-text note
+ * with tags, on the whole session or on one message of the transcript.
+ * Tags are counted per prompt version and recall set by the annotation
+ * report (GET /api/annotations/report), so a handful of suggested tags is
+ * offered to keep the spelling consistent across sessions.
+ *
+ * Features:
+ * - Lists the session's annotations with their message and tags
+ * - Adds annotations on the session or on a chosen message
+ * - Edits and deletes annotations in place
+ *
+ * @example
+ * ```tsx
+ * <AnnotationPanel sessionId={session.id} messages={transcript.messages} />
+ * ```
+ */
+
+import { useState, type FormEvent } from 'react';
+import { Card, CardHeader, CardBody } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import { Spinner } from '@/components/ui/Spinner';
+import {
+  useSessionAnnotations,
+  useCreateSessionAnnotation,
+  useUpdateSessionAnnotation,
+  useDeleteSessionAnnotation,
+} from '@/hooks/api/use-sessions';
+import type { SessionAnnotation, TranscriptMessage } from '@/types/api';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AnnotationPanelProps {
+  /** The session being replayed */
+  sessionId: string;
+  /** The session's transcript, for choosing the annotated message */
+  messages: TranscriptMessage[];
+}
+
+/** Values of the add/edit form */
+interface AnnotationDraft {
+  /** Selected message index, or '' for the whole session */
+  messageIndex: string;
+  note: string;
+  /** Comma-separated tags */
+  tags: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Tags offered as one-click suggestions */
+const SUGGESTED_TAGS = ['too long', 'robotic', 'repetitive', 'gave away answer', 'off topic'];
+
+/** Length of the message previews in the message selector */
+const PREVIEW_LENGTH = 60;
+
+/** An empty form */
+const EMPTY_DRAFT: AnnotationDraft = { messageIndex: '', note: '', tags: '' };
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Splits the comma-separated tag field into tags.
+ * The server lowercases and de-duplicates them.
+ */
+function parseTags(tags: string): string[] {
+  return tags
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+}
+
+/**
+ * Describes which message an annotation is about.
+ */
+function describeTarget(messageIndex: number | null, messages: TranscriptMessage[]): string {
+  if (messageIndex === null) {
+    return 'Whole session';
+  }
+  const role = messages[messageIndex]?.role === 'user' ? 'You' : 'Tutor';
+  return `Message ${messageIndex + 1} (${role})`;
+}
+
+/**
+ * Turns an annotation back into form values for editing.
+ */
+function toDraft(annotation: SessionAnnotation): AnnotationDraft {
+  return {
+    messageIndex: annotation.messageIndex === null ? '' : String(annotation.messageIndex),
+    note: annotation.note,
+    tags: annotation.tags.join(', '),
+  };
+}
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+interface AnnotationFormProps {
+  messages: TranscriptMessage[];
+  initial: AnnotationDraft;
+  submitLabel: string;
+  isSaving: boolean;
+  error: string | null;
+  onSubmit: (draft: AnnotationDraft) => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Form for adding or editing an annotation.
+ */
+function AnnotationForm({
+  messages,
+  initial,
+  submitLabel,
+  isSaving,
+  error,
+  onSubmit,
+  onCancel,
+}: AnnotationFormProps) {
+  const [draft, setDraft] = useState<AnnotationDraft>(initial);
+  const currentTags = parseTags(draft.tags).map((tag) => tag.toLowerCase());
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSubmit(draft);
+  };
+
+  // Appends a suggested tag unless it is already in the field
+  const addTag = (tag: string) => {
+    if (currentTags.includes(tag)) return;
+    setDraft((d) => ({ ...d, tags: [...parseTags(d.tags), tag].join(', ') }));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Select
+        label="About"
+        value={draft.messageIndex}
+        onChange={(e) => setDraft((d) => ({ ...d, messageIndex: e.target.value }))}
+      >
+        <option value="">Whole session</option>
+        {messages.map((message) => (
+          <option key={message.id} value={message.messageIndex}>
+            {describeTarget(message.messageIndex, messages)}:{' '}
+            {message.content.slice(0, PREVIEW_LENGTH)}
+            {message.content.length > PREVIEW_LENGTH ? '…' : ''}
+          </option>
+        ))}
+      </Select>
+
+      <Textarea
+        label="Note"
+        rows={3}
+        value={draft.note}
+        placeholder="What worked, or what should the prompt do differently?"
+        onChange={(e) => setDraft((d) => ({ ...d, note: e.target.value }))}
+      />
+
+      <div>
+        <Input
+          label="Tags"
+          value={draft.tags}
+          placeholder="too long, robotic"
+          helperText="Separate tags with commas"
+          onChange={(e) => setDraft((d) => ({ ...d, tags: e.target.value }))}
+        />
+        <div className="flex flex-wrap gap-2 mt-2">
+          {SUGGESTED_TAGS.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => addTag(tag)}
+              disabled={currentTags.includes(tag)}
+              className="px-2 py-1 text-xs rounded-full border border-clarity-200 text-clarity-700 hover:bg-clarity-50 disabled:opacity-40 disabled:cursor-default"
+            >
+              + {tag}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" isLoading={isSaving}>
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+/**
+ * Notes and tags on a replayed session.
+ */
+export function AnnotationPanel({ sessionId, messages }: AnnotationPanelProps) {
+  const { data: annotations, isLoading } = useSessionAnnotations(sessionId);
+  const createMutation = useCreateSessionAnnotation();
+  const updateMutation = useUpdateSessionAnnotation();
+  const deleteMutation = useDeleteSessionAnnotation();
+
+  // ID of the annotation being edited, if any
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Remounts the add form after a successful save to clear it
+  const [formKey, setFormKey] = useState(0);
+
+  const toInput = (draft: AnnotationDraft) => ({
+    messageIndex: draft.messageIndex === '' ? null : Number(draft.messageIndex),
+    note: draft.note,
+    tags: parseTags(draft.tags),
+  });
+
+  const handleCreate = (draft: AnnotationDraft) => {
+    createMutation.mutate(
+      { sessionId, data: toInput(draft) },
+      { onSuccess: () => setFormKey((k) => k + 1) }
+    );
+  };
+
+  const handleUpdate = (annotationId: string, draft: AnnotationDraft) => {
+    updateMutation.mutate(
+      { sessionId, annotationId, data: toInput(draft) },
+      { onSuccess: () => setEditingId(null) }
+    );
+  };
+
+  const handleDelete = (annotationId: string) => {
+    if (confirm('Delete this note?')) {
+      deleteMutation.mutate({ sessionId, annotationId });
+    }
+  };
+
+  return (
+    <Card className="mb-4 sm:mb-6">
+      <CardHeader>
+        <h2 className="text-lg font-semibold text-clarity-700">Notes</h2>
+        <p className="text-sm font-normal text-gray-500">
+          Tag what the tutor did well or badly. Tags are counted per prompt version in the
+          annotation report.
+        </p>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        {isLoading ? (
+          <Spinner size="sm" label="Loading notes..." />
+        ) : (
+          annotations &&
+          annotations.length > 0 && (
+            <ul className="divide-y divide-gray-100">
+              {annotations.map((annotation) => (
+                <li key={annotation.id} className="py-3">
+                  {editingId === annotation.id ? (
+                    <AnnotationForm
+                      messages={messages}
+                      initial={toDraft(annotation)}
+                      submitLabel="Save"
+                      isSaving={updateMutation.isPending}
+                      error={updateMutation.error?.message ?? null}
+                      onSubmit={(draft) => handleUpdate(annotation.id, draft)}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  ) : (
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="text-xs font-medium text-gray-500">
+                          {describeTarget(annotation.messageIndex, messages)}
+                        </p>
+                        {annotation.note && (
+                          <p className="text-sm text-gray-800 whitespace-pre-wrap mt-1">
+                            {annotation.note}
+                          </p>
+                        )}
+                        {annotation.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {annotation.tags.map((tag) => (
+                              <Badge key={tag} status="info">
+                                {tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => {
+                            updateMutation.reset();
+                            setEditingId(annotation.id);
+                          }}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDelete(annotation.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+
+        <AnnotationForm
+          key={formKey}
+          messages={messages}
+          initial={EMPTY_DRAFT}
+          submitLabel="Add Note"
+          isSaving={createMutation.isPending}
+          error={createMutation.error?.message ?? null}
+          onSubmit={handleCreate}
+        />
+      </CardBody>
+    </Card>
+  );
+}
+
+export default AnnotationPanel;
@@ -59,8 +59,8 @@ export interface SessionMetrics {
 export interface SessionSummaryProps {
   /** Unique session identifier */
   sessionId: string;
-  /** ID of the recall set studied */
-  recallSetId: string;
+  /** ID of the recall set studied (null for a daily review) */
+  recallSetId: string | null;
   /** Human-readable name of the recall set */
   recallSetName: string;
   /** When the session started (ISO 8601 string) */
@@ -198,12 +198,16 @@ export function SessionSummary({
           {/* Recall Set (with link) */}
           <div>
             <p className="text-sm text-gray-500 mb-1">Recall Set</p>
-            <Link
-              to={`/recall-sets/${recallSetId}`}
-              className="text-lg font-medium text-clarity-600 hover:text-clarity-800 hover:underline transition-colors"
-            >
-              {recallSetName}
-            </Link>
+            {recallSetId === null ? (
+              <p className="text-lg font-medium text-gray-800">{recallSetName}</p>
+            ) : (
+              <Link
+                to={`/recall-sets/${recallSetId}`}
+                className="text-lg font-medium text-clarity-600 hover:text-clarity-800 hover:underline transition-colors"
+              >
+                {recallSetName}
+              </Link>
+            )}
           </div>
 
           {/* Success Rate */}
@@ -0,0 +1,140 @@
+/**
+ * TangentCandidateCard Component
+ *
+ * Shows the recall point proposed from one of the session's tangents,
+ * under the marker where the tangent started, and lets the learner review
+ * it. A pending candidate can be added to its recall set or to the
+ * "Tangents" inbox set, optionally after editing, or dismissed. Reviewed
+ * candidates show what became of them.
+ *
+ * @example
+ * ```tsx
+ * <TangentCandidateCard candidate={candidate} />
+ * ```
+ */
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Textarea';
+import { useAcceptTangent, useDismissTangent } from '@/hooks/api/use-sessions';
+import type { TangentCandidate, TangentDestination } from '@/types/api';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TangentCandidateCardProps {
+  /** The proposed recall point */
+  candidate: TangentCandidate;
+}
+
+// ============================================================================
+// TangentCandidateCard Component
+// ============================================================================
+
+/**
+ * Renders a tangent candidate with its review actions.
+ */
+export function TangentCandidateCard({ candidate }: TangentCandidateCardProps) {
+  const acceptMutation = useAcceptTangent();
+  const dismissMutation = useDismissTangent();
+
+  // Edits to the proposed point, shown once the learner clicks Edit
+  const [isEditing, setIsEditing] = useState(false);
+  const [content, setContent] = useState(candidate.content);
+  const [context, setContext] = useState(candidate.context);
+
+  const isBusy = acceptMutation.isPending || dismissMutation.isPending;
+  const error = acceptMutation.error ?? dismissMutation.error;
+
+  const handleAccept = (destination: TangentDestination) => {
+    acceptMutation.mutate({
+      sessionId: candidate.sessionId,
+      candidateId: candidate.id,
+      data: isEditing ? { destination, content, context } : { destination },
+    });
+  };
+
+  const handleDismiss = () => {
+    dismissMutation.mutate({ sessionId: candidate.sessionId, candidateId: candidate.id });
+  };
+
+  if (candidate.status !== 'pending') {
+    return (
+      <div className="w-full max-w-xl px-4 py-3 rounded-lg border border-gray-200 bg-gray-50 text-sm">
+        <div className="flex items-center gap-2 mb-1">
+          <Badge status={candidate.status === 'accepted' ? 'success' : 'info'}>
+            {candidate.status === 'accepted' ? 'Added as recall point' : 'Dismissed'}
+          </Badge>
+        </div>
+        <p className={candidate.status === 'accepted' ? 'text-gray-800' : 'text-gray-500 line-through'}>
+          {candidate.content}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-xl px-4 py-3 rounded-lg border border-orange-200 bg-orange-50 text-sm space-y-3">
+      <p className="text-xs font-medium text-orange-700">Worth remembering from this tangent?</p>
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <Textarea
+            label="Recall point"
+            rows={3}
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+          />
+          <Textarea
+            label="Context"
+            rows={2}
+            value={context}
+            onChange={(e) => setContext(e.target.value)}
+          />
+        </div>
+      ) : (
+        <div>
+          <p className="text-gray-900">{candidate.content}</p>
+          {candidate.context && <p className="text-gray-600 mt-1">{candidate.context}</p>}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error.message}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        {/* Without a recall set, the candidate can only go to the inbox */}
+        {candidate.recallSetId && (
+          <Button
+            size="sm"
+            onClick={() => handleAccept('set')}
+            disabled={isBusy}
+            isLoading={acceptMutation.isPending && acceptMutation.variables?.data.destination === 'set'}
+          >
+            Add to recall set
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => handleAccept('inbox')}
+          disabled={isBusy}
+          isLoading={acceptMutation.isPending && acceptMutation.variables?.data.destination === 'inbox'}
+        >
+          Add to Tangents inbox
+        </Button>
+        {!isEditing && (
+          <Button size="sm" variant="ghost" onClick={() => setIsEditing(true)} disabled={isBusy}>
+            Edit
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" onClick={handleDismiss} disabled={isBusy}>
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default TangentCandidateCard;
@@ -9,6 +9,7 @@
  * - Role-based styling (user/assistant/system)
  * - Timestamp display for each message
  * - Support for evaluation and rabbithole markers
+ * - The recall point proposed from a tangent, under its marker
  * - Responsive layout that adapts to message content
  *
  * @example
@@ -20,9 +21,10 @@
  * ```
  */
 
-import type { TranscriptMessage as TranscriptMessageType } from '@/types/api';
+import type { TranscriptMessage as TranscriptMessageType, TangentCandidate } from '@/types/api';
 import { EvaluationMarker } from './EvaluationMarker';
 import { RabbitholeMarker } from './RabbitholeMarker';
+import { TangentCandidateCard } from './TangentCandidateCard';
 
 // ============================================================================
 // Types
@@ -33,6 +35,8 @@ export interface TranscriptMessageProps {
   message: TranscriptMessageType;
   /** Optional content of the recall point being evaluated (for display in marker) */
   recallPointContent?: string;
+  /** Recall point proposed from the tangent this message starts, if any */
+  tangentCandidate?: TangentCandidate;
 }
 
 // ============================================================================
@@ -107,6 +111,7 @@ function getMessageStyles(role: 'user' | 'assistant' | 'system'): {
 export function TranscriptMessage({
   message,
   recallPointContent,
+  tangentCandidate,
 }: TranscriptMessageProps) {
   const styles = getMessageStyles(message.role);
 
@@ -169,6 +174,13 @@ export function TranscriptMessage({
           />
         </div>
       )}
+
+      {/* Proposed recall point - shown under the marker of the tangent it came from */}
+      {showRabbitholeMarker && tangentCandidate && (
+        <div className="mt-2 flex justify-center">
+          <TangentCandidateCard candidate={tangentCandidate} />
+        </div>
+      )}
     </div>
   );
 }
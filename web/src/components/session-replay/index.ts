@@ -6,7 +6,9 @@
  * - Full conversation transcripts
  * - Evaluation markers showing recall results
  * - Rabbithole markers indicating tangent conversations
+ * - Recall points proposed from those tangents, for review
  * - Session summary statistics
+ * - Notes and tags for prompt refinement
  *
  * @example
  * ```tsx
@@ -15,6 +17,8 @@
  *   TranscriptMessage,
  *   EvaluationMarker,
  *   RabbitholeMarker,
+ *   TangentCandidateCard,
+ *   AnnotationPanel,
  * } from '@/components/session-replay';
  * ```
  */
@@ -31,6 +35,14 @@ export type { EvaluationMarkerProps, EvaluationOutcome } from './EvaluationMarke
 export { RabbitholeMarker } from './RabbitholeMarker';
 export type { RabbitholeMarkerProps } from './RabbitholeMarker';
 
+// Recall point proposed from a tangent, with accept and dismiss actions
+export { TangentCandidateCard } from './TangentCandidateCard';
+export type { TangentCandidateCardProps } from './TangentCandidateCard';
+
 // Session summary card for displaying key statistics
 export { SessionSummary } from './SessionSummary';
 export type { SessionSummaryProps, SessionMetrics } from './SessionSummary';
+
+// Notes and tags on the session or its messages
+export { AnnotationPanel } from './AnnotationPanel';
+export type { AnnotationPanelProps } from './AnnotationPanel';
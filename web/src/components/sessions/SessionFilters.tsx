@@ -5,6 +5,7 @@
  * Allows users to filter sessions by:
  * - Recall set (dropdown with "All" option)
  * - Date range (start and end date inputs)
+ * - Session mode (reviews, practice or deep dives)
  *
  * Features:
  * - Integrates with useRecallSets hook for dynamic recall set options
@@ -29,6 +30,7 @@
 import { useState } from 'react';
 import { Select, Input, Button } from '@/components/ui';
 import { useRecallSets } from '@/hooks/api/use-recall-sets';
+import type { SessionMode } from '@/types/api';
 
 // ============================================================================
 // Types
@@ -45,6 +47,8 @@ export interface SessionFilterValues {
   startDate?: string;
   /** Filter sessions started on or before this date (YYYY-MM-DD format) */
   endDate?: string;
+  /** Filter by session mode (undefined means "all") */
+  mode?: SessionMode;
 }
 
 export interface SessionFiltersProps {
@@ -54,6 +58,8 @@ export interface SessionFiltersProps {
   startDate?: string;
   /** Current end date filter value (YYYY-MM-DD format) */
   endDate?: string;
+  /** Current session mode filter value */
+  mode?: SessionMode;
   /** Callback when user clicks Apply to submit filters */
   onApply: (filters: SessionFilterValues) => void;
   /** Callback when user clicks Clear to reset all filters */
@@ -77,6 +83,7 @@ export function SessionFilters({
   recallSetId,
   startDate,
   endDate,
+  mode,
   onApply,
   onClear,
   isLoading = false,
@@ -89,6 +96,7 @@ export function SessionFilters({
   const [internalRecallSetId, setInternalRecallSetId] = useState(recallSetId ?? '');
   const [internalStartDate, setInternalStartDate] = useState(startDate ?? '');
   const [internalEndDate, setInternalEndDate] = useState(endDate ?? '');
+  const [internalMode, setInternalMode] = useState<SessionMode | ''>(mode ?? '');
 
   /**
    * Handle Apply button click.
@@ -100,6 +108,7 @@ export function SessionFilters({
       recallSetId: internalRecallSetId || undefined,
       startDate: internalStartDate || undefined,
       endDate: internalEndDate || undefined,
+      mode: internalMode || undefined,
     });
   };
 
@@ -111,6 +120,7 @@ export function SessionFilters({
     setInternalRecallSetId('');
     setInternalStartDate('');
     setInternalEndDate('');
+    setInternalMode('');
     onClear();
   };
 
@@ -120,13 +130,14 @@ export function SessionFilters({
   const hasFilters =
     internalRecallSetId !== '' ||
     internalStartDate !== '' ||
-    internalEndDate !== '';
+    internalEndDate !== '' ||
+    internalMode !== '';
 
   return (
     <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 mb-4 sm:mb-6">
       {/* Filter controls grid - responsive layout */}
-      {/* Stacks fully on mobile, 2 cols on tablet, 4 cols on desktop */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+      {/* Stacks fully on mobile, 2 cols on tablet, 5 cols on desktop */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4">
         {/* Recall Set Filter Dropdown */}
         <Select
           label="Recall Set"
@@ -164,6 +175,18 @@ export function SessionFilters({
           min={internalStartDate || undefined}
         />
 
+        {/* Session Mode Filter Dropdown */}
+        <Select
+          label="Mode"
+          value={internalMode}
+          onChange={(e) => setInternalMode(e.target.value as SessionMode | '')}
+        >
+          <option value="">All Sessions</option>
+          <option value="review">Reviews Only</option>
+          <option value="practice">Practice Only</option>
+          <option value="deep-dive">Deep Dives Only</option>
+        </Select>
+
         {/* Action Buttons - Apply and Clear */}
         {/* Full width on mobile, aligns to bottom on larger screens */}
         <div className="flex items-end gap-2 mt-2 sm:mt-0">
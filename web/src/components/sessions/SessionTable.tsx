@@ -10,7 +10,7 @@
  * - Duration: How long the session lasted (e.g., "5m 32s")
  * - Points Covered: Number of recall points attempted
  * - Success Rate: Percentage with color coding
- * - Status: Badge showing completed/abandoned/in-progress
+ * - Status: Badge showing completed/abandoned/in-progress, plus a practice or deep-dive badge
  * - Actions: Link to view session replay
  *
  * Features:
@@ -223,7 +223,9 @@ export function SessionTable({ sessions, recallSets = [] }: SessionTableProps) {
         <TableBody>
           {sessions.map((session) => {
             // Look up the recall set for this session to get its name
-            const recallSet = recallSetMap.get(session.recallSetId);
+            // (daily reviews span all sets and have none)
+            const recallSet =
+              session.recallSetId === null ? undefined : recallSetMap.get(session.recallSetId);
             const statusBadge = getStatusBadge(session.status);
 
             return (
@@ -244,6 +246,8 @@ export function SessionTable({ sessions, recallSets = [] }: SessionTableProps) {
                     >
                       {recallSet.name}
                     </Link>
+                  ) : session.recallSetId === null ? (
+                    <span className="text-gray-700">Daily review</span>
                   ) : (
                     <span className="text-gray-500">Unknown Set</span>
                   )}
@@ -273,6 +277,16 @@ export function SessionTable({ sessions, recallSets = [] }: SessionTableProps) {
                 {/* Status Column - badge showing session status */}
                 <TableCell>
                   <Badge status={statusBadge.status}>{statusBadge.label}</Badge>
+                  {session.mode === 'practice' && (
+                    <Badge status="info" className="ml-1" title="Didn't change the review schedule">
+                      Practice
+                    </Badge>
+                  )}
+                  {session.mode === 'deep-dive' && (
+                    <Badge status="info" className="ml-1" title="Studied the points marked for a deep dive">
+                      Deep dive
+                    </Badge>
+                  )}
                 </TableCell>
 
                 {/* Actions Column - link to session replay */}
@@ -1,19 +1,19 @@
 /**
  * User Context Provider
  *
- * React context that provides user state throughout the application.
+ * React context that provides the logged-in user throughout the application.
  * Components can access the current user via the useUserContext hook.
  *
- * Current Implementation:
- * - Returns hardcoded default user (single-user mode)
- * - Always shows isLoading: false (no auth fetch required)
- *
- * Future Auth Implementation:
- * When adding authentication, this provider will:
- * 1. Check for existing auth token/session on mount
- * 2. Fetch user data from /api/auth/me if token exists
- * 3. Handle login/logout state transitions
- * 4. Persist auth state (localStorage/cookies)
+ * Authentication flow:
+ * 1. On mount, fetch /api/auth/me. The browser sends the httpOnly session
+ *    cookie, so no token is stored in JavaScript.
+ * 2. login/register call the auth API; the server sets the cookie and the
+ *    returned user is stored here.
+ * 3. logout clears the cookie and the TanStack Query cache, so the next
+ *    user never sees cached data from the previous one.
+ * 4. Any API request that returns 401 (e.g., an expired session) dispatches
+ *    UNAUTHORIZED_EVENT, which resets the user to null and shows the login
+ *    screen again.
  *
  * @example
  * ```tsx
@@ -24,63 +24,60 @@
  *
  * // Access user in components
  * function ProfileButton() {
- *   const { user, isLoading } = useUserContext();
+ *   const { user, isLoading, logout } = useUserContext();
  *
  *   if (isLoading) return <Spinner />;
- *   if (!user) return <LoginButton />;
- *   return <span>Welcome, {user.name}</span>;
+ *   if (!user) return null;
+ *   return <button onClick={logout}>Log out {user.name}</button>;
  * }
  * ```
  */
 
 import {
   createContext,
+  useCallback,
   useContext,
+  useEffect,
+  useState,
   type ReactNode,
-  // Future imports for auth implementation:
-  // useState,
-  // useEffect,
 } from 'react';
+import {
+  getCurrentUser,
+  login as loginRequest,
+  register as registerRequest,
+  logout as logoutRequest,
+  UNAUTHORIZED_EVENT,
+} from '@/lib/api-client';
+import { queryClient } from '@/lib/query-client';
+import type { AuthUser, LoginInput, RegisterInput } from '@/types/api';
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
 /**
- * User type for the frontend.
- *
- * Note: This mirrors the backend User type but only includes
- * fields needed on the frontend. Sensitive fields (if any)
- * should not be exposed to the client.
- *
- * Future fields to consider:
- * - avatarUrl?: string
- * - email?: string (for display, not auth)
- * - preferences?: UserPreferences
+ * User type for the frontend - the account returned by the auth API.
  */
-interface User {
-  /** Unique identifier for the user */
-  id: string;
-
-  /** Display name for the user */
-  name: string;
-}
+type User = AuthUser;
 
 /**
  * Context value provided to consuming components.
- *
- * Future additions for auth:
- * - login: (credentials) => Promise<void>
- * - logout: () => Promise<void>
- * - refreshUser: () => Promise<void>
- * - error: Error | null
  */
 interface UserContextType {
   /** Current authenticated user, or null if not logged in */
   user: User | null;
 
-  /** True while fetching user data (e.g., on initial load) */
+  /** True while checking for an existing session on initial load */
   isLoading: boolean;
+
+  /** Logs in with email and password (throws ApiError on failure) */
+  login: (credentials: LoginInput) => Promise<void>;
+
+  /** Creates an account and logs it in (throws ApiError on failure) */
+  register: (input: RegisterInput) => Promise<void>;
+
+  /** Logs out and clears cached data */
+  logout: () => Promise<void>;
 }
 
 // ============================================================================
@@ -111,115 +108,78 @@ interface UserProviderProps {
  * throughout the component tree.
  *
  * @param props - Provider props containing children
- *
- * @example
- * ```tsx
- * // In main.tsx or App.tsx
- * function App() {
- *   return (
- *     <UserProvider>
- *       <Router>
- *         <Layout />
- *       </Router>
- *     </UserProvider>
- *   );
- * }
- * ```
- *
- * Future Auth Implementation:
- * ```tsx
- * export function UserProvider({ children }: UserProviderProps) {
- *   const [user, setUser] = useState<User | null>(null);
- *   const [isLoading, setIsLoading] = useState(true);
- *
- *   useEffect(() => {
- *     async function checkAuth() {
- *       try {
- *         const token = localStorage.getItem('auth_token');
- *         if (!token) {
- *           setIsLoading(false);
- *           return;
- *         }
- *
- *         const response = await fetch('/api/auth/me', {
- *           headers: { Authorization: `Bearer ${token}` }
- *         });
- *
- *         if (response.ok) {
- *           const userData = await response.json();
- *           setUser(userData);
- *         } else {
- *           // Token invalid, clear it
- *           localStorage.removeItem('auth_token');
- *         }
- *       } catch (error) {
- *         console.error('Auth check failed:', error);
- *       } finally {
- *         setIsLoading(false);
- *       }
- *     }
- *
- *     checkAuth();
- *   }, []);
- *
- *   return (
- *     <UserContext.Provider value={{ user, isLoading }}>
- *       {children}
- *     </UserContext.Provider>
- *   );
- * }
- * ```
  */
 export function UserProvider({ children }: UserProviderProps) {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
   // ---------------------------------------------------------------------------
-  // Future: State management for auth
+  // Restore an existing session on mount
   // ---------------------------------------------------------------------------
-  // const [user, setUser] = useState<User | null>(null);
-  // const [isLoading, setIsLoading] = useState(true);
-  // const [error, setError] = useState<Error | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+
+    getCurrentUser()
+      .then((currentUser) => {
+        if (!cancelled) setUser(currentUser);
+      })
+      .catch(() => {
+        // 401 (not logged in) or server unreachable - show the login screen
+        if (!cancelled) setUser(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   // ---------------------------------------------------------------------------
-  // Future: Fetch user on mount if auth token exists
+  // Return to the login screen when any request comes back 401
   // ---------------------------------------------------------------------------
-  // useEffect(() => {
-  //   async function fetchCurrentUser() {
-  //     const token = localStorage.getItem('auth_token');
-  //     if (!token) {
-  //       setIsLoading(false);
-  //       return;
-  //     }
-  //
-  //     try {
-  //       const response = await fetch('/api/auth/me', {
-  //         headers: { Authorization: `Bearer ${token}` }
-  //       });
-  //
-  //       if (response.ok) {
-  //         const userData = await response.json();
-  //         setUser(userData);
-  //       }
-  //     } catch (err) {
-  //       setError(err instanceof Error ? err : new Error('Auth failed'));
-  //     } finally {
-  //       setIsLoading(false);
-  //     }
-  //   }
-  //
-  //   fetchCurrentUser();
-  // }, []);
+  useEffect(() => {
+    const handleUnauthorized = () => {
+      setUser(null);
+      queryClient.clear();
+    };
+
+    window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+  }, []);
 
   // ---------------------------------------------------------------------------
-  // Current: Hardcoded default user (single-user mode)
+  // Auth actions
   // ---------------------------------------------------------------------------
-  const user: User = {
-    id: 'default-user',
-    name: 'Default User',
-  };
+  const login = useCallback(async (credentials: LoginInput) => {
+    const session = await loginRequest(credentials);
+    queryClient.clear();
+    setUser(session.user);
+  }, []);
+
+  const register = useCallback(async (input: RegisterInput) => {
+    const session = await registerRequest(input);
+    queryClient.clear();
+    setUser(session.user);
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await logoutRequest();
+    } finally {
+      queryClient.clear();
+      setUser(null);
+    }
+  }, []);
 
   // Context value provided to consuming components
   const value: UserContextType = {
     user,
-    isLoading: false,
+    isLoading,
+    login,
+    register,
+    logout,
   };
 
   return (
@@ -239,7 +199,7 @@ export function UserProvider({ children }: UserProviderProps) {
  * This hook provides access to the current user state and must be
  * used within a component wrapped by UserProvider.
  *
- * @returns User context containing user data and loading state
+ * @returns User context containing user data, loading state, and auth actions
  * @throws Error if used outside of UserProvider
  *
  * @example
@@ -258,7 +218,7 @@ export function UserProvider({ children }: UserProviderProps) {
  *   return (
  *     <div>
  *       <h1>Welcome, {user.name}!</h1>
- *       <p>User ID: {user.id}</p>
+ *       <p>{user.email}</p>
  *     </div>
  *   );
  * }
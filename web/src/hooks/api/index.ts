@@ -30,6 +30,7 @@ export {
   useDashboardOverview,
   useRecentSessions,
   useUpcomingReviews,
+  useReviewForecast,
 } from './use-dashboard';
 
 // ============================================================================
@@ -54,6 +55,34 @@ export {
   useDeleteRecallPoint,
 } from './use-recall-sets';
 
+// ============================================================================
+// Memory Analytics Hooks
+// ============================================================================
+
+export {
+  // Query keys
+  analyticsKeys,
+  // Hooks
+  useRecallSetMemory,
+} from './use-analytics';
+
+// ============================================================================
+// Leech Remediation Hooks
+// ============================================================================
+
+export {
+  // Query keys
+  leechKeys,
+  // Query hooks
+  useLeechQueue,
+  // Mutation hooks
+  useProposeLeechSplit,
+  useSplitLeech,
+  useRewriteLeech,
+  useSetPointSuspended,
+  useSetDeepDiveRequested,
+} from './use-leeches';
+
 // ============================================================================
 // Sessions Hooks
 // ============================================================================
@@ -65,7 +94,24 @@ export {
   useSessions,
   useSession,
   useSessionTranscript,
+  useDailyReview,
+  useSessionAnnotations,
+  useAnnotationReport,
+  useSessionTangents,
   // Mutation hooks
   useStartSession,
+  useStartDailyReview,
   useAbandonSession,
+  useCreateSessionAnnotation,
+  useUpdateSessionAnnotation,
+  useDeleteSessionAnnotation,
+  useProposeTangents,
+  useAcceptTangent,
+  useDismissTangent,
+  type StartSessionVariables,
+  type CreateSessionAnnotationVariables,
+  type UpdateSessionAnnotationVariables,
+  type DeleteSessionAnnotationVariables,
+  type AcceptTangentVariables,
+  type DismissTangentVariables,
 } from './use-sessions';
@@ -0,0 +1,60 @@
+/**
+ * Memory Analytics Query Hooks
+ *
+ * This module provides React Query hooks for the FSRS model's view of a
+ * recall set's memory: retention curves, the stability distribution, and
+ * leeches.
+ *
+ * Available Hooks:
+ * - useRecallSetMemory(setId, days?) - Memory analytics for a recall set
+ *
+ * @example
+ * ```tsx
+ * function LeechCount({ setId }: { setId: string }) {
+ *   const { data } = useRecallSetMemory(setId);
+ *
+ *   return <p>{data?.leeches.length ?? 0} leeches</p>;
+ * }
+ * ```
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { getRecallSetMemory } from '@/lib/api-client';
+import type { RecallSetMemoryAnalytics } from '@/types/api';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+/**
+ * Query key factory for analytics queries.
+ */
+export const analyticsKeys = {
+  /** Base key for all analytics queries */
+  all: ['analytics'] as const,
+
+  /** Key for a recall set's memory analytics, optionally for a curve length */
+  memory: (setId: string, days?: number) =>
+    [...analyticsKeys.all, 'memory', setId, days] as const,
+};
+
+// ============================================================================
+// Memory Analytics Hooks
+// ============================================================================
+
+/**
+ * Hook to fetch a recall set's retention curves, stability distribution
+ * and leeches.
+ *
+ * @param setId - ID of the recall set
+ * @param days - Days after today the curves cover (default: 30, max: 365)
+ * @returns Query result with the set's memory analytics
+ */
+export function useRecallSetMemory(setId: string, days?: number) {
+  return useQuery<RecallSetMemoryAnalytics, Error>({
+    queryKey: analyticsKeys.memory(setId, days),
+    queryFn: () => getRecallSetMemory(setId, days),
+    // Only fetch if we have a valid set ID
+    enabled: Boolean(setId),
+  });
+}
@@ -8,6 +8,7 @@
  * - useDashboardOverview() - Complete dashboard data
  * - useRecentSessions(limit?) - Recent session list
  * - useUpcomingReviews(days?) - Upcoming reviews list
+ * - useReviewForecast(days?) - Projected daily review load
  *
  * @example
  * ```tsx
@@ -33,11 +34,13 @@ import {
   getDashboardOverview,
   getRecentSessions,
   getUpcomingReviews,
+  getReviewForecast,
 } from '@/lib/api-client';
 import type {
   DashboardOverview,
   RecentSessionsResponse,
   UpcomingReviewsResponse,
+  ReviewForecast,
 } from '@/types/api';
 
 // ============================================================================
@@ -62,6 +65,10 @@ export const dashboardKeys = {
   /** Key for upcoming reviews query with optional days parameter */
   upcomingReviews: (days?: number) =>
     [...dashboardKeys.all, 'upcoming-reviews', { days }] as const,
+
+  /** Key for the review forecast query with optional days parameter */
+  forecast: (days?: number) =>
+    [...dashboardKeys.all, 'forecast', { days }] as const,
 };
 
 // ============================================================================
@@ -180,3 +187,30 @@ export function useUpcomingReviews(days?: number) {
     queryFn: () => getUpcomingReviews(days),
   });
 }
+
+// ============================================================================
+// Review Forecast Hook
+// ============================================================================
+
+/**
+ * Hook to fetch the projected review load for the coming days.
+ *
+ * @param days - Number of days to forecast (default: 30, max: 90)
+ * @returns Query result with the daily load per recall set
+ *
+ * @example
+ * ```tsx
+ * function BusiestDay() {
+ *   const { data } = useReviewForecast(30);
+ *   const busiest = Math.max(0, ...(data?.dailyLoad.map((day) => day.estimatedMinutes) ?? []));
+ *
+ *   return <p>Busiest day: {busiest} minutes</p>;
+ * }
+ * ```
+ */
+export function useReviewForecast(days?: number) {
+  return useQuery<ReviewForecast, Error>({
+    queryKey: dashboardKeys.forecast(days),
+    queryFn: () => getReviewForecast(days),
+  });
+}
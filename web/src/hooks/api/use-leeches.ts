@@ -0,0 +1,189 @@
+/**
+ * Leech Remediation Query and Mutation Hooks
+ *
+ * This module provides React Query hooks for a recall set's remediation
+ * queue: the points the learner keeps forgetting, and the remedies for
+ * them. Includes hooks for:
+ *
+ * Queries:
+ * - useLeechQueue(setId) - The set's leeches and lapse threshold
+ *
+ * Mutations (all scoped to the set the points belong to):
+ * - useProposeLeechSplit(setId) - Ask the LLM how to split a leech (saves nothing)
+ * - useSplitLeech(setId) - Split a leech into new points, suspending it
+ * - useRewriteLeech(setId) - Rewrite a leech and start its schedule over
+ * - useSetPointSuspended(setId) - Suspend or unsuspend a point
+ * - useSetDeepDiveRequested(setId) - Mark a point for a deep dive, or clear the mark
+ *
+ * Remedies change the set's points, so they invalidate the queue along with
+ * the points list, set summaries, dashboard and memory analytics.
+ *
+ * @example
+ * ```tsx
+ * function LeechCount({ setId }: { setId: string }) {
+ *   const { data } = useLeechQueue(setId);
+ *
+ *   return <p>{data?.leeches.length ?? 0} leeches</p>;
+ * }
+ * ```
+ */
+
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  getLeechQueue,
+  proposeLeechSplit,
+  splitLeech,
+  rewriteLeech,
+  setPointSuspended,
+  setDeepDiveRequested,
+} from '@/lib/api-client';
+import type {
+  LeechQueue,
+  LeechSplitPart,
+  LeechSplitProposal,
+  LeechSplitResult,
+  RecallPoint,
+  UpdateRecallPointInput,
+} from '@/types/api';
+import { dashboardKeys } from './use-dashboard';
+import { analyticsKeys } from './use-analytics';
+import { recallSetKeys } from './use-recall-sets';
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+/**
+ * Query key factory for leech queries.
+ */
+export const leechKeys = {
+  /** Base key for all leech queries */
+  all: ['leeches'] as const,
+
+  /** Key for a recall set's remediation queue */
+  queue: (setId: string) => [...leechKeys.all, 'queue', setId] as const,
+};
+
+/**
+ * Invalidates everything a remedy to one of the set's points can change.
+ */
+function invalidateAfterRemedy(queryClient: QueryClient, setId: string): void {
+  queryClient.invalidateQueries({ queryKey: leechKeys.queue(setId) });
+  queryClient.invalidateQueries({ queryKey: recallSetKeys.points(setId) });
+  // Summary and due counts change when points are added or suspended
+  queryClient.invalidateQueries({ queryKey: recallSetKeys.detail(setId) });
+  queryClient.invalidateQueries({ queryKey: recallSetKeys.lists() });
+  queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+  queryClient.invalidateQueries({ queryKey: analyticsKeys.all });
+}
+
+// ============================================================================
+// Query Hooks
+// ============================================================================
+
+/**
+ * Hook to fetch a recall set's remediation queue.
+ *
+ * @param setId - ID of the recall set
+ * @returns Query result with the set's leeches
+ */
+export function useLeechQueue(setId: string) {
+  return useQuery<LeechQueue, Error>({
+    queryKey: leechKeys.queue(setId),
+    queryFn: () => getLeechQueue(setId),
+    // Only fetch if we have a valid set ID
+    enabled: Boolean(setId),
+  });
+}
+
+// ============================================================================
+// Mutation Hooks
+// ============================================================================
+
+/**
+ * Hook to ask the LLM how to split a leech. Nothing is saved, so nothing
+ * is invalidated; send the (edited) parts with useSplitLeech.
+ *
+ * @param setId - ID of the recall set the point belongs to
+ * @returns Mutation object taking the point's ID
+ */
+export function useProposeLeechSplit(setId: string) {
+  return useMutation<LeechSplitProposal, Error, string>({
+    mutationKey: ['leeches', 'split-proposal', setId],
+    mutationFn: proposeLeechSplit,
+  });
+}
+
+/**
+ * Hook to split a leech into new points, suspending the original.
+ *
+ * @param setId - ID of the recall set the point belongs to
+ * @returns Mutation object with mutate/mutateAsync functions
+ *
+ * @example
+ * ```tsx
+ * const splitMutation = useSplitLeech(setId);
+ * splitMutation.mutate({ pointId: point.id, parts });
+ * ```
+ */
+export function useSplitLeech(setId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation<LeechSplitResult, Error, { pointId: string; parts: LeechSplitPart[] }>({
+    mutationKey: ['leeches', 'split', setId],
+    mutationFn: ({ pointId, parts }) => splitLeech(pointId, parts),
+    onSuccess: () => invalidateAfterRemedy(queryClient, setId),
+  });
+}
+
+/**
+ * Hook to rewrite a leech, starting its schedule over as a new point.
+ *
+ * @param setId - ID of the recall set the point belongs to
+ * @returns Mutation object with mutate/mutateAsync functions
+ */
+export function useRewriteLeech(setId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation<RecallPoint, Error, { pointId: string; data: UpdateRecallPointInput }>({
+    mutationKey: ['leeches', 'rewrite', setId],
+    mutationFn: ({ pointId, data }) => rewriteLeech(pointId, data),
+    onSuccess: () => invalidateAfterRemedy(queryClient, setId),
+  });
+}
+
+/**
+ * Hook to suspend a point, or put it back into scheduling.
+ *
+ * @param setId - ID of the recall set the point belongs to
+ * @returns Mutation object with mutate/mutateAsync functions
+ */
+export function useSetPointSuspended(setId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation<RecallPoint, Error, { pointId: string; suspended: boolean }>({
+    mutationKey: ['leeches', 'suspend', setId],
+    mutationFn: ({ pointId, suspended }) => setPointSuspended(pointId, suspended),
+    onSuccess: () => invalidateAfterRemedy(queryClient, setId),
+  });
+}
+
+/**
+ * Hook to mark a point for a deep-dive session, or clear the mark.
+ *
+ * @param setId - ID of the recall set the point belongs to
+ * @returns Mutation object with mutate/mutateAsync functions
+ */
+export function useSetDeepDiveRequested(setId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation<RecallPoint, Error, { pointId: string; requested: boolean }>({
+    mutationKey: ['leeches', 'deep-dive', setId],
+    mutationFn: ({ pointId, requested }) => setDeepDiveRequested(pointId, requested),
+    onSuccess: () => {
+      // Only the mark changes; scheduling and analytics are unaffected
+      queryClient.invalidateQueries({ queryKey: leechKeys.queue(setId) });
+      queryClient.invalidateQueries({ queryKey: recallSetKeys.points(setId) });
+    },
+  });
+}
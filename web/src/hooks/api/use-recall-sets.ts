@@ -69,6 +69,7 @@ import type {
   DeleteRecallPointResponse,
 } from '@/types/api';
 import { dashboardKeys } from './use-dashboard';
+import { analyticsKeys } from './use-analytics';
 
 // ============================================================================
 // Query Keys
@@ -361,6 +362,8 @@ export function useCreateRecallPoint(setId: string) {
       queryClient.invalidateQueries({ queryKey: recallSetKeys.lists() });
       // Invalidate dashboard (due today counts may have changed)
       queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+      // Invalidate memory analytics (the set's points changed)
+      queryClient.invalidateQueries({ queryKey: analyticsKeys.all });
     },
   });
 }
@@ -446,6 +449,8 @@ export function useDeleteRecallPoint(setId: string) {
       queryClient.invalidateQueries({ queryKey: recallSetKeys.lists() });
       // Invalidate dashboard (due today counts may have changed)
       queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+      // Invalidate memory analytics (the set's points changed)
+      queryClient.invalidateQueries({ queryKey: analyticsKeys.all });
     },
   });
 }
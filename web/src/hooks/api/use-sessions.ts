@@ -8,10 +8,21 @@
  * - useSessions(filters?) - List sessions with filtering and pagination
  * - useSession(id) - Get detailed session information
  * - useSessionTranscript(id) - Get full session transcript
+ * - useDailyReview() - Preview today's daily review across recall sets
+ * - useSessionAnnotations(id) - Get the notes and tags on a session
+ * - useAnnotationReport(filters?) - Tag frequencies per prompt version or recall set
+ * - useSessionTangents(id) - Get the recall points proposed from a session's tangents
  *
  * Mutations:
  * - useStartSession() - Start a new study session
+ * - useStartDailyReview() - Start a daily review across recall sets
  * - useAbandonSession() - Abandon an in-progress session
+ * - useCreateSessionAnnotation() - Annotate a session or one of its messages
+ * - useUpdateSessionAnnotation() - Edit an annotation
+ * - useDeleteSessionAnnotation() - Delete an annotation
+ * - useProposeTangents() - Propose recall points from a session's tangents
+ * - useAcceptTangent() - Add a proposed point to its recall set or the inbox
+ * - useDismissTangent() - Dismiss a proposed point
  *
  * Mutations automatically invalidate relevant queries to keep data fresh.
  *
@@ -41,7 +52,18 @@ import {
   getSession,
   getSessionTranscript,
   startSession,
+  getDailyReview,
+  startDailyReview,
   abandonSession,
+  getSessionAnnotations,
+  createSessionAnnotation,
+  updateSessionAnnotation,
+  deleteSessionAnnotation,
+  getAnnotationReport,
+  getSessionTangents,
+  proposeSessionTangents,
+  acceptTangentCandidate,
+  dismissTangentCandidate,
 } from '@/lib/api-client';
 import type {
   SessionListResponse,
@@ -49,7 +71,18 @@ import type {
   SessionDetail,
   TranscriptResponse,
   StartSessionResponse,
+  SessionMode,
+  DailyReviewPreview,
   AbandonSessionResponse,
+  SessionAnnotation,
+  CreateSessionAnnotationInput,
+  UpdateSessionAnnotationInput,
+  DeleteSessionAnnotationResponse,
+  AnnotationReportFilters,
+  AnnotationTagReport,
+  TangentCandidate,
+  TangentProposalResponse,
+  AcceptTangentCandidateInput,
 } from '@/types/api';
 import { dashboardKeys } from './use-dashboard';
 import { recallSetKeys } from './use-recall-sets';
@@ -74,6 +107,19 @@ export const sessionKeys = {
 
   /** Key for a session transcript query */
   transcript: (id: string) => [...sessionKeys.all, 'transcript', id] as const,
+
+  /** Key for the daily review preview query */
+  dailyReview: () => [...sessionKeys.all, 'daily-review'] as const,
+
+  /** Key for a session's annotations query */
+  annotations: (id: string) => [...sessionKeys.all, 'annotations', id] as const,
+
+  /** Key for annotation tag report queries */
+  annotationReport: (filters?: AnnotationReportFilters) =>
+    [...sessionKeys.all, 'annotation-report', filters ?? {}] as const,
+
+  /** Key for a session's tangent candidates query */
+  tangents: (id: string) => [...sessionKeys.all, 'tangents', id] as const,
 };
 
 // ============================================================================
@@ -189,16 +235,120 @@ export function useSessionTranscript(id: string) {
   });
 }
 
+/**
+ * Hook to preview today's daily review: how many sessions' worth of points
+ * are due across all active recall sets, and what the next session holds.
+ *
+ * @returns Query result with the daily review preview
+ *
+ * @example
+ * ```tsx
+ * const { data } = useDailyReview();
+ * return <p>{data?.sessionsReady ?? 0} sessions are ready today</p>;
+ * ```
+ */
+export function useDailyReview() {
+  return useQuery<DailyReviewPreview, Error>({
+    queryKey: sessionKeys.dailyReview(),
+    queryFn: getDailyReview,
+  });
+}
+
+/**
+ * Hook to fetch the notes and tags made on a session, oldest first.
+ *
+ * @param id - Session identifier
+ * @returns Query result with the session's annotations
+ *
+ * @example
+ * ```tsx
+ * const { data: annotations } = useSessionAnnotations(sessionId);
+ * return <p>{annotations?.length ?? 0} notes</p>;
+ * ```
+ */
+export function useSessionAnnotations(id: string) {
+  return useQuery<SessionAnnotation[], Error>({
+    queryKey: sessionKeys.annotations(id),
+    queryFn: () => getSessionAnnotations(id),
+    // Only fetch if we have a valid ID
+    enabled: Boolean(id),
+  });
+}
+
+/**
+ * Hook to fetch how often each annotation tag came up, per prompt version
+ * or recall set.
+ *
+ * @param filters - Optional grouping, prompt kind and recall set
+ * @returns Query result with the tag report
+ *
+ * @example
+ * ```tsx
+ * const { data } = useAnnotationReport({ groupBy: 'prompt-version' });
+ * return (
+ *   <ul>
+ *     {data?.groups.map(group => (
+ *       <li key={group.label}>{group.label}: {group.tags[0]?.tag}</li>
+ *     ))}
+ *   </ul>
+ * );
+ * ```
+ */
+export function useAnnotationReport(filters?: AnnotationReportFilters) {
+  return useQuery<AnnotationTagReport, Error>({
+    queryKey: sessionKeys.annotationReport(filters),
+    queryFn: () => getAnnotationReport(filters),
+  });
+}
+
+/**
+ * Hook to fetch the recall points proposed from a session's tangents,
+ * oldest first, whatever their review status.
+ *
+ * @param id - Session identifier
+ * @returns Query result with the session's tangent candidates
+ *
+ * @example
+ * ```tsx
+ * const { data: tangents } = useSessionTangents(sessionId);
+ * const pending = tangents?.filter(t => t.status === 'pending') ?? [];
+ * return <p>{pending.length} tangents to review</p>;
+ * ```
+ */
+export function useSessionTangents(id: string) {
+  return useQuery<TangentCandidate[], Error>({
+    queryKey: sessionKeys.tangents(id),
+    queryFn: () => getSessionTangents(id),
+    // Only fetch if we have a valid ID
+    enabled: Boolean(id),
+  });
+}
+
 // ============================================================================
 // Sessions Mutation Hooks
 // ============================================================================
 
+/**
+ * What to start with useStartSession.
+ */
+export interface StartSessionVariables {
+  /** Recall set to study */
+  recallSetId: string;
+  /**
+   * 'practice' to study without changing the review schedule, or 'deep-dive'
+   * for the points marked for one (default 'review')
+   */
+  mode?: SessionMode;
+}
+
 /**
  * Hook to start a new study session for a recall set.
  * Returns the session ID for WebSocket connection.
  *
- * If an in-progress session exists for the recall set, the existing
- * session is returned instead of creating a new one.
+ * If an in-progress session of the same mode exists for the recall set,
+ * the existing session is returned instead of creating a new one. Pass
+ * `mode: 'practice'` to study without changing the review schedule, or
+ * `mode: 'deep-dive'` to study the points marked for a deep dive.
  *
  * Automatically invalidates sessions list and dashboard on success.
  *
@@ -211,7 +361,7 @@ export function useSessionTranscript(id: string) {
  *   const navigate = useNavigate();
  *
  *   const handleStart = () => {
- *     startMutation.mutate(recallSetId, {
+ *     startMutation.mutate({ recallSetId }, {
  *       onSuccess: (data) => {
  *         // Navigate to live session with the session ID
  *         navigate(`/session/${data.sessionId}`);
@@ -230,9 +380,9 @@ export function useSessionTranscript(id: string) {
 export function useStartSession() {
   const queryClient = useQueryClient();
 
-  return useMutation<StartSessionResponse, Error, string>({
+  return useMutation<StartSessionResponse, Error, StartSessionVariables>({
     mutationKey: ['sessions', 'start'],
-    mutationFn: startSession,
+    mutationFn: ({ recallSetId, mode }) => startSession(recallSetId, mode),
     onSuccess: (data) => {
       // Invalidate sessions list to show the new/resumed session
       queryClient.invalidateQueries({ queryKey: sessionKeys.all });
@@ -247,6 +397,40 @@ export function useStartSession() {
   });
 }
 
+/**
+ * Hook to start a daily review across all active recall sets.
+ * If an in-progress daily review exists, it is returned instead.
+ *
+ * Automatically invalidates sessions, dashboard and recall set queries on
+ * success, since the review draws on every set's due points.
+ *
+ * @returns Mutation object with mutate/mutateAsync functions
+ *
+ * @example
+ * ```tsx
+ * const startMutation = useStartDailyReview();
+ * startMutation.mutate(undefined, {
+ *   onSuccess: (data) => navigate(`/session/${data.sessionId}`),
+ * });
+ * ```
+ */
+export function useStartDailyReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation<StartSessionResponse, Error, void>({
+    mutationKey: ['sessions', 'daily-review', 'start'],
+    mutationFn: startDailyReview,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: sessionKeys.all });
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+
+      if (!data.isResume) {
+        queryClient.invalidateQueries({ queryKey: recallSetKeys.all });
+      }
+    },
+  });
+}
+
 /**
  * Hook to abandon an in-progress session.
  * Marks the session as abandoned and ends it.
@@ -297,3 +481,222 @@ export function useAbandonSession() {
     },
   });
 }
+
+/**
+ * What to create with useCreateSessionAnnotation.
+ */
+export interface CreateSessionAnnotationVariables {
+  /** The annotated session */
+  sessionId: string;
+  /** Message index, note and tags */
+  data: CreateSessionAnnotationInput;
+}
+
+/**
+ * What to change with useUpdateSessionAnnotation.
+ */
+export interface UpdateSessionAnnotationVariables {
+  /** The annotated session */
+  sessionId: string;
+  /** The annotation to edit */
+  annotationId: string;
+  /** Fields to update */
+  data: UpdateSessionAnnotationInput;
+}
+
+/**
+ * What to delete with useDeleteSessionAnnotation.
+ */
+export interface DeleteSessionAnnotationVariables {
+  /** The annotated session */
+  sessionId: string;
+  /** The annotation to delete */
+  annotationId: string;
+}
+
+/**
+ * Invalidates a session's annotations and every tag report, which counts them.
+ */
+function invalidateAnnotations(queryClient: ReturnType<typeof useQueryClient>, sessionId: string) {
+  queryClient.invalidateQueries({ queryKey: sessionKeys.annotations(sessionId) });
+  queryClient.invalidateQueries({ queryKey: [...sessionKeys.all, 'annotation-report'] });
+}
+
+/**
+ * Hook to annotate a session, or one message of its transcript.
+ *
+ * Automatically invalidates the session's annotations and the tag reports
+ * on success.
+ *
+ * @returns Mutation object with mutate/mutateAsync functions
+ *
+ * @example
+ * ```tsx
+ * const createMutation = useCreateSessionAnnotation();
+ * createMutation.mutate({
+ *   sessionId,
+ *   data: { messageIndex: 4, note: 'Rambles before asking', tags: ['too long'] },
+ * });
+ * ```
+ */
+export function useCreateSessionAnnotation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<SessionAnnotation, Error, CreateSessionAnnotationVariables>({
+    mutationKey: ['sessions', 'annotations', 'create'],
+    mutationFn: ({ sessionId, data }) => createSessionAnnotation(sessionId, data),
+    onSuccess: (_, { sessionId }) => invalidateAnnotations(queryClient, sessionId),
+  });
+}
+
+/**
+ * Hook to edit an annotation's note, tags or message.
+ *
+ * Automatically invalidates the session's annotations and the tag reports
+ * on success.
+ *
+ * @returns Mutation object with mutate/mutateAsync functions
+ *
+ * @example
+ * ```tsx
+ * const updateMutation = useUpdateSessionAnnotation();
+ * updateMutation.mutate({ sessionId, annotationId, data: { tags: ['robotic'] } });
+ * ```
+ */
+export function useUpdateSessionAnnotation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<SessionAnnotation, Error, UpdateSessionAnnotationVariables>({
+    mutationKey: ['sessions', 'annotations', 'update'],
+    mutationFn: ({ sessionId, annotationId, data }) =>
+      updateSessionAnnotation(sessionId, annotationId, data),
+    onSuccess: (_, { sessionId }) => invalidateAnnotations(queryClient, sessionId),
+  });
+}
+
+/**
+ * Hook to delete an annotation.
+ *
+ * Automatically invalidates the session's annotations and the tag reports
+ * on success.
+ *
+ * @returns Mutation object with mutate/mutateAsync functions
+ *
+ * @example
+ * ```tsx
+ * const deleteMutation = useDeleteSessionAnnotation();
+ * deleteMutation.mutate({ sessionId, annotationId });
+ * ```
+ */
+export function useDeleteSessionAnnotation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<DeleteSessionAnnotationResponse, Error, DeleteSessionAnnotationVariables>({
+    mutationKey: ['sessions', 'annotations', 'delete'],
+    mutationFn: ({ sessionId, annotationId }) => deleteSessionAnnotation(sessionId, annotationId),
+    onSuccess: (_, { sessionId }) => invalidateAnnotations(queryClient, sessionId),
+  });
+}
+
+/**
+ * Hook to propose recall points from a session's tangents that haven't
+ * been followed up yet. Safe to repeat.
+ *
+ * Automatically invalidates the session's tangent candidates on success.
+ *
+ * @returns Mutation object with mutate/mutateAsync functions
+ *
+ * @example
+ * ```tsx
+ * const proposeMutation = useProposeTangents();
+ * proposeMutation.mutate(sessionId);
+ * ```
+ */
+export function useProposeTangents() {
+  const queryClient = useQueryClient();
+
+  return useMutation<TangentProposalResponse, Error, string>({
+    mutationKey: ['sessions', 'tangents', 'propose'],
+    mutationFn: proposeSessionTangents,
+    onSuccess: (_, sessionId) => {
+      queryClient.invalidateQueries({ queryKey: sessionKeys.tangents(sessionId) });
+    },
+  });
+}
+
+/**
+ * What to accept with useAcceptTangent.
+ */
+export interface AcceptTangentVariables {
+  /** The session the tangent happened in */
+  sessionId: string;
+  /** The candidate to accept */
+  candidateId: string;
+  /** Destination and optional edits */
+  data: AcceptTangentCandidateInput;
+}
+
+/**
+ * What to dismiss with useDismissTangent.
+ */
+export interface DismissTangentVariables {
+  /** The session the tangent happened in */
+  sessionId: string;
+  /** The candidate to dismiss */
+  candidateId: string;
+}
+
+/**
+ * Hook to accept a tangent candidate as a new recall point, in its recall
+ * set or the "Tangents" inbox set.
+ *
+ * Automatically invalidates the session's tangent candidates, recall sets
+ * (a point was added, maybe to a new inbox set) and dashboard on success.
+ *
+ * @returns Mutation object with mutate/mutateAsync functions
+ *
+ * @example
+ * ```tsx
+ * const acceptMutation = useAcceptTangent();
+ * acceptMutation.mutate({ sessionId, candidateId, data: { destination: 'inbox' } });
+ * ```
+ */
+export function useAcceptTangent() {
+  const queryClient = useQueryClient();
+
+  return useMutation<TangentCandidate, Error, AcceptTangentVariables>({
+    mutationKey: ['sessions', 'tangents', 'accept'],
+    mutationFn: ({ sessionId, candidateId, data }) =>
+      acceptTangentCandidate(sessionId, candidateId, data),
+    onSuccess: (_, { sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: sessionKeys.tangents(sessionId) });
+      queryClient.invalidateQueries({ queryKey: recallSetKeys.all });
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to dismiss a tangent candidate.
+ *
+ * Automatically invalidates the session's tangent candidates on success.
+ *
+ * @returns Mutation object with mutate/mutateAsync functions
+ *
+ * @example
+ * ```tsx
+ * const dismissMutation = useDismissTangent();
+ * dismissMutation.mutate({ sessionId, candidateId });
+ * ```
+ */
+export function useDismissTangent() {
+  const queryClient = useQueryClient();
+
+  return useMutation<TangentCandidate, Error, DismissTangentVariables>({
+    mutationKey: ['sessions', 'tangents', 'dismiss'],
+    mutationFn: ({ sessionId, candidateId }) => dismissTangentCandidate(sessionId, candidateId),
+    onSuccess: (_, { sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: sessionKeys.tangents(sessionId) });
+    },
+  });
+}
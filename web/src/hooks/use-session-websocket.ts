@@ -8,6 +8,10 @@
  * - Message parsing and event dispatching
  * - Connection state management
  * - Ping/pong heartbeat for connection health
+ * - Overriding the AI's rating while the server waits for it
+ * - Session commands: skipping, deferring or showing a point, undoing the
+ *   last message and saving notes
+ * - Exploring a tangent and returning from it to the point
  *
  * @example
  * ```tsx
@@ -35,6 +39,7 @@
  */
 
 import { useRef, useEffect, useCallback, useState } from 'react';
+import type { SessionMode, RecallRating } from '@/types/api';
 
 // ============================================================================
 // Types
@@ -55,6 +60,16 @@ export type ConnectionState = 'connecting' | 'connected' | 'disconnected' | 'rec
 export type ClientMessage =
   | { type: 'user_message'; content: string }
   | { type: 'trigger_eval' }
+  | { type: 'request_hint' }
+  | { type: 'skip_point' }
+  | { type: 'defer_point'; days: number }
+  | { type: 'reveal_point' }
+  | { type: 'undo_message' }
+  | { type: 'add_note'; note: string }
+  | { type: 'explore_tangent'; topic?: string }
+  | { type: 'return_from_tangent' }
+  | { type: 'accept_rating'; pointId: string }
+  | { type: 'override_rating'; pointId: string; rating: RecallRating }
   | { type: 'end_session' }
   | { type: 'ping' };
 
@@ -62,10 +77,24 @@ export type ClientMessage =
  * Messages received from server via WebSocket.
  */
 export type ServerMessage =
-  | { type: 'session_started'; sessionId: string; openingMessage: string }
+  | { type: 'session_started'; sessionId: string; openingMessage: string; mode: SessionMode }
   | { type: 'assistant_chunk'; content: string }
   | { type: 'assistant_complete'; fullContent: string }
-  | { type: 'evaluation_result'; recallPointId: string; outcome: string; feedback: string }
+  | { type: 'hint_given'; pointId: string; level: number; hintsRemaining: number }
+  | { type: 'message_retracted'; content: string; messagesRemoved: number }
+  | { type: 'note_saved'; annotationId: string; messageIndex: number | null }
+  | { type: 'tangent_opened'; rabbitholeId: string; topic: string }
+  | { type: 'tangent_closed'; rabbitholeId: string; topic: string }
+  | {
+      type: 'evaluation_result';
+      pointId: string;
+      success: boolean;
+      feedback: string;
+      confidence: number;
+      hintsUsed: number;
+      rating: RecallRating;
+      overrideWindowMs: number;
+    }
   | { type: 'point_transition'; nextPointIndex: number; totalPoints: number }
   | { type: 'session_complete'; summary: SessionCompleteSummary }
   | { type: 'error'; code: string; message: string }
@@ -103,16 +132,36 @@ export interface ChatMessage {
   isStreaming?: boolean;
 }
 
+/**
+ * A tangent the learner is exploring.
+ */
+export interface ExploredTangent {
+  /** ID of the rabbithole recorded for the tangent */
+  rabbitholeId: string;
+  /** What the learner is exploring */
+  topic: string;
+}
+
 /**
  * Evaluation result for a recall point.
  */
 export interface EvaluationResult {
   /** ID of the recall point evaluated */
   recallPointId: string;
-  /** Outcome of the evaluation */
-  outcome: string;
+  /** Whether the recall was successful */
+  success: boolean;
   /** Feedback message from the AI */
   feedback: string;
+  /** Confidence of the evaluation (0.0 to 1.0) */
+  confidence: number;
+  /** Hints taken on the point; they cap the rating */
+  hintsUsed: number;
+  /** Rating the AI proposes to schedule the point with */
+  rating: RecallRating;
+  /** How long the server waits for an override, in milliseconds */
+  overrideWindowMs: number;
+  /** When the result arrived, to count down the override window */
+  receivedAt: number;
 }
 
 /**
@@ -149,12 +198,38 @@ export interface UseSessionWebSocketReturn {
   currentPointIndex: number;
   /** Total number of points in the session */
   totalPoints: number;
+  /** Whether the session schedules reviews or is practice (null until started) */
+  sessionMode: SessionMode | null;
   /** Whether waiting for assistant response */
   isWaitingForResponse: boolean;
+  /** Hints left on the current point (null until one is taken) */
+  hintsRemaining: number | null;
+  /** The tangent being explored, or null while on the point */
+  exploringTangent: ExploredTangent | null;
   /** Send a user message */
   sendUserMessage: (content: string) => void;
   /** Trigger evaluation ("I've got it" button) */
   triggerEvaluation: () => void;
+  /** Ask for the next hint on the current point */
+  requestHint: () => void;
+  /** Move on without rating or rescheduling the current point */
+  skipPoint: () => void;
+  /** Put the current point off for some days and move on */
+  deferPoint: (days: number) => void;
+  /** Show the current point; it is scheduled as forgotten */
+  revealPoint: () => void;
+  /** Retract the learner's last message and the replies to it */
+  undoLastMessage: () => void;
+  /** Save a note on the session */
+  addNote: (note: string) => void;
+  /** Explore a tangent; without a topic, the learner's last message */
+  exploreTangent: (topic?: string) => void;
+  /** Return from the tangent to the point, with a recap */
+  returnFromTangent: () => void;
+  /** Keep the AI's rating of a point, scheduling it right away */
+  acceptRating: (pointId: string) => void;
+  /** Replace the AI's rating of a point before it is scheduled */
+  overrideRating: (pointId: string, rating: RecallRating) => void;
   /** End the session early */
   endSession: () => void;
   /** Manually connect to WebSocket */
@@ -215,6 +290,9 @@ export function useSessionWebSocket(
   // Session progress state
   const [currentPointIndex, setCurrentPointIndex] = useState(0);
   const [totalPoints, setTotalPoints] = useState(0);
+  const [sessionMode, setSessionMode] = useState<SessionMode | null>(null);
+  const [hintsRemaining, setHintsRemaining] = useState<number | null>(null);
+  const [exploringTangent, setExploringTangent] = useState<ExploredTangent | null>(null);
 
   // Refs for WebSocket instance and reconnection tracking
   const wsRef = useRef<WebSocket | null>(null);
@@ -303,6 +381,7 @@ export function useSessionWebSocket(
             },
           ]);
           setIsWaitingForResponse(false);
+          setSessionMode(message.mode);
           callbacksRef.current.onSessionStarted?.(message.sessionId, message.openingMessage);
           break;
 
@@ -328,13 +407,40 @@ export function useSessionWebSocket(
 
         case 'evaluation_result':
           callbacksRef.current.onEvaluationResult?.({
-            recallPointId: message.recallPointId,
-            outcome: message.outcome,
+            recallPointId: message.pointId,
+            success: message.success,
             feedback: message.feedback,
+            confidence: message.confidence,
+            hintsUsed: message.hintsUsed,
+            rating: message.rating,
+            overrideWindowMs: message.overrideWindowMs,
+            receivedAt: Date.now(),
           });
           break;
 
+        case 'hint_given':
+          setHintsRemaining(message.hintsRemaining);
+          break;
+
+        case 'message_retracted':
+          // Drop the learner's message and the replies to it
+          setMessages((prev) => prev.slice(0, Math.max(0, prev.length - message.messagesRemoved)));
+          break;
+
+        case 'note_saved':
+          // Nothing to show in the conversation
+          break;
+
+        case 'tangent_opened':
+          setExploringTangent({ rabbitholeId: message.rabbitholeId, topic: message.topic });
+          break;
+
+        case 'tangent_closed':
+          setExploringTangent(null);
+          break;
+
         case 'point_transition':
+          setHintsRemaining(null);
           setCurrentPointIndex(message.nextPointIndex);
           setTotalPoints(message.totalPoints);
           callbacksRef.current.onPointTransition?.(message.nextPointIndex, message.totalPoints);
@@ -345,6 +451,11 @@ export function useSessionWebSocket(
           break;
 
         case 'error':
+          if (message.code === 'NO_HINTS_LEFT') {
+            setHintsRemaining(0);
+          }
+          // No response follows an error
+          setIsWaitingForResponse(false);
           setLastError({ code: message.code, message: message.message });
           callbacksRef.current.onError?.(message.code, message.message);
           break;
@@ -528,6 +639,105 @@ export function useSessionWebSocket(
     setIsWaitingForResponse(true);
   }, [sendMessage]);
 
+  /**
+   * Ask for the next hint on the current point. The hint arrives like any
+   * assistant response.
+   */
+  const requestHint = useCallback(() => {
+    sendMessage({ type: 'request_hint' });
+    setIsWaitingForResponse(true);
+  }, [sendMessage]);
+
+  /**
+   * Move on without rating or rescheduling the current point.
+   */
+  const skipPoint = useCallback(() => {
+    sendMessage({ type: 'skip_point' });
+    setIsWaitingForResponse(true);
+  }, [sendMessage]);
+
+  /**
+   * Put the current point off for some days and move on.
+   */
+  const deferPoint = useCallback(
+    (days: number) => {
+      sendMessage({ type: 'defer_point', days });
+      setIsWaitingForResponse(true);
+    },
+    [sendMessage]
+  );
+
+  /**
+   * Show the current point. It arrives like any assistant response, and the
+   * point is scheduled as forgotten.
+   */
+  const revealPoint = useCallback(() => {
+    sendMessage({ type: 'reveal_point' });
+    setIsWaitingForResponse(true);
+  }, [sendMessage]);
+
+  /**
+   * Retract the learner's last message; the server confirms with
+   * message_retracted before it is dropped from the list.
+   */
+  const undoLastMessage = useCallback(() => {
+    sendMessage({ type: 'undo_message' });
+  }, [sendMessage]);
+
+  /**
+   * Save a note on the session.
+   */
+  const addNote = useCallback(
+    (note: string) => {
+      if (!note.trim()) return;
+      sendMessage({ type: 'add_note', note: note.trim() });
+    },
+    [sendMessage]
+  );
+
+  /**
+   * Explore a tangent. The tutor's start of the exploration arrives like any
+   * assistant response, followed by tangent_opened.
+   */
+  const exploreTangent = useCallback(
+    (topic?: string) => {
+      sendMessage(topic?.trim() ? { type: 'explore_tangent', topic: topic.trim() } : { type: 'explore_tangent' });
+      setIsWaitingForResponse(true);
+    },
+    [sendMessage]
+  );
+
+  /**
+   * Return from the tangent. The recap arrives like any assistant response,
+   * followed by tangent_closed.
+   */
+  const returnFromTangent = useCallback(() => {
+    sendMessage({ type: 'return_from_tangent' });
+    setIsWaitingForResponse(true);
+  }, [sendMessage]);
+
+  /**
+   * Keep the AI's rating of a point, so the server schedules it without
+   * waiting for the override window to close.
+   */
+  const acceptRating = useCallback(
+    (pointId: string) => {
+      sendMessage({ type: 'accept_rating', pointId });
+    },
+    [sendMessage]
+  );
+
+  /**
+   * Replace the AI's rating of a point. Only takes effect while the server
+   * is still waiting for an override.
+   */
+  const overrideRating = useCallback(
+    (pointId: string, rating: RecallRating) => {
+      sendMessage({ type: 'override_rating', pointId, rating });
+    },
+    [sendMessage]
+  );
+
   /**
    * End the session early.
    */
@@ -554,9 +764,22 @@ export function useSessionWebSocket(
     streamingContent,
     currentPointIndex,
     totalPoints,
+    sessionMode,
     isWaitingForResponse,
+    hintsRemaining,
+    exploringTangent,
     sendUserMessage,
     triggerEvaluation,
+    requestHint,
+    skipPoint,
+    deferPoint,
+    revealPoint,
+    undoLastMessage,
+    addNote,
+    exploreTangent,
+    returnFromTangent,
+    acceptRating,
+    overrideRating,
     endSession,
     connect,
     disconnect,
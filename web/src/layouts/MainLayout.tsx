@@ -6,6 +6,7 @@
  * - Active route highlighting for current page indication
  * - Main content area using React Router's Outlet for nested routes
  * - App branding with logo/name in the sidebar header
+ * - The logged-in user's name and a logout button in the sidebar footer
  * - Mobile-responsive hamburger menu for smaller screens
  *
  * This layout is used by most pages except for full-screen experiences
@@ -28,6 +29,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { NavLink, Outlet, useLocation } from 'react-router-dom';
+import { useUser } from '@/hooks/use-user';
 
 // ============================================================================
 // Navigation Configuration
@@ -201,6 +203,36 @@ function NavItemLink({ item, onClick }: { item: NavItem; onClick?: () => void })
   );
 }
 
+/**
+ * Sidebar footer showing who is logged in, with a logout button.
+ */
+function UserFooter() {
+  const { user, logout } = useUser();
+
+  return (
+    <div className="px-4 py-4 border-t border-clarity-200">
+      {user && (
+        <div className="flex items-center justify-between gap-2 mb-3">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-clarity-800 truncate">{user.name}</p>
+            <p className="text-xs text-clarity-500 truncate">{user.email}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => void logout()}
+            className="text-sm text-clarity-600 hover:text-clarity-800 px-2 py-1 rounded-lg hover:bg-clarity-50 transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-clarity-500 shrink-0"
+          >
+            Log out
+          </button>
+        </div>
+      )}
+      <p className="text-xs text-clarity-400 text-center">
+        Contextual Clarity v0.1.0
+      </p>
+    </div>
+  );
+}
+
 // ============================================================================
 // Main Layout Component
 // ============================================================================
@@ -334,11 +366,7 @@ export function MainLayout() {
         </nav>
 
         {/* Footer area at the bottom of sidebar */}
-        <div className="px-4 py-4 border-t border-clarity-200">
-          <p className="text-xs text-clarity-400 text-center">
-            Contextual Clarity v0.1.0
-          </p>
-        </div>
+        <UserFooter />
       </aside>
 
       {/* Main content area - flexible width, scrollable */}
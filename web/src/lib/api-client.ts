@@ -5,7 +5,9 @@
  * It handles:
  * - Base URL configuration (from environment or localhost default)
  * - JSON request/response serialization
+ * - Session cookie credentials on every request
  * - Error handling (throws on non-2xx responses)
+ * - Broadcasting an 'auth:unauthorized' event when the session has expired
  * - Type-safe function signatures for each endpoint
  *
  * All functions return the unwrapped data from successful responses.
@@ -32,19 +34,40 @@ import type {
   DashboardOverview,
   RecentSessionsResponse,
   UpcomingReviewsResponse,
+  ReviewForecast,
   RecallSetWithSummary,
   CreateRecallSetInput,
   UpdateRecallSetInput,
   RecallPoint,
   CreateRecallPointInput,
   UpdateRecallPointInput,
+  RecallSetMemoryAnalytics,
+  LeechQueue,
+  LeechSplitPart,
+  LeechSplitProposal,
+  LeechSplitResult,
   SessionListResponse,
   SessionFilters,
   SessionDetail,
   TranscriptResponse,
   StartSessionResponse,
+  SessionMode,
+  DailyReviewPreview,
   AbandonSessionResponse,
   DeleteRecallPointResponse,
+  SessionAnnotation,
+  CreateSessionAnnotationInput,
+  UpdateSessionAnnotationInput,
+  DeleteSessionAnnotationResponse,
+  AnnotationReportFilters,
+  AnnotationTagReport,
+  TangentCandidate,
+  TangentProposalResponse,
+  AcceptTangentCandidateInput,
+  AuthUser,
+  AuthSession,
+  LoginInput,
+  RegisterInput,
 } from '@/types/api';
 
 // ============================================================================
@@ -59,6 +82,13 @@ import type {
  */
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
 
+/**
+ * Window event dispatched when the API rejects a request as unauthenticated
+ * (e.g., the session cookie expired). UserContext listens for it and returns
+ * the app to the login screen.
+ */
+export const UNAUTHORIZED_EVENT = 'auth:unauthorized';
+
 // ============================================================================
 // Custom Error Class
 // ============================================================================
@@ -114,6 +144,8 @@ async function apiFetch<T>(endpoint: string, options: FetchOptions = {}): Promis
 
   // Prepare request configuration
   const config: RequestInit = {
+    // Send the httpOnly session cookie, including when the API is on another origin
+    credentials: 'include',
     ...restOptions,
     headers: {
       'Content-Type': 'application/json',
@@ -134,6 +166,10 @@ async function apiFetch<T>(endpoint: string, options: FetchOptions = {}): Promis
 
   // Check for API-level errors (success: false)
   if (!result.success) {
+    if (response.status === 401) {
+      window.dispatchEvent(new CustomEvent(UNAUTHORIZED_EVENT));
+    }
+
     throw new ApiError(
       result.error.message,
       result.error.code,
@@ -185,6 +221,18 @@ export async function getUpcomingReviews(days?: number): Promise<UpcomingReviews
   return apiFetch<UpcomingReviewsResponse>(`/api/dashboard/upcoming-reviews${params}`);
 }
 
+/**
+ * Fetches the projected daily review load per recall set.
+ *
+ * @param days - Number of days to forecast, starting today (default: 30, max: 90)
+ * @returns The forecast's daily load and per-set totals
+ * @throws ApiError on failure
+ */
+export async function getReviewForecast(days?: number): Promise<ReviewForecast> {
+  const params = days !== undefined ? `?days=${days}` : '';
+  return apiFetch<ReviewForecast>(`/api/dashboard/forecast${params}`);
+}
+
 // ============================================================================
 // Recall Sets API Functions
 // ============================================================================
@@ -325,6 +373,113 @@ export async function deleteRecallPoint(
   });
 }
 
+// ============================================================================
+// Memory Analytics API Functions
+// ============================================================================
+
+/**
+ * Fetches the retention curves, stability distribution and leeches of a
+ * recall set.
+ *
+ * @param recallSetId - ID of the recall set
+ * @param days - Days after today the curves cover (default: 30, max: 365)
+ * @returns The set's memory analytics
+ * @throws ApiError if the set is not found or on failure
+ */
+export async function getRecallSetMemory(
+  recallSetId: string,
+  days?: number
+): Promise<RecallSetMemoryAnalytics> {
+  const params = days !== undefined ? `?days=${days}` : '';
+  return apiFetch<RecallSetMemoryAnalytics>(`/api/analytics/recall-sets/${recallSetId}/memory${params}`);
+}
+
+// ============================================================================
+// Leech Remediation API Functions
+// ============================================================================
+
+/**
+ * Fetches a recall set's remediation queue.
+ *
+ * @param recallSetId - ID of the recall set
+ * @returns The set's leeches and the lapse threshold they were flagged at
+ * @throws ApiError if the set is not found or on failure
+ */
+export async function getLeechQueue(recallSetId: string): Promise<LeechQueue> {
+  return apiFetch<LeechQueue>(`/api/leeches/recall-sets/${recallSetId}`);
+}
+
+/**
+ * Asks the LLM how to split a leech into smaller points. Nothing is saved.
+ *
+ * @param pointId - ID of the recall point
+ * @returns The proposed parts
+ * @throws ApiError if the point is not found or the LLM proposes no usable split
+ */
+export async function proposeLeechSplit(pointId: string): Promise<LeechSplitProposal> {
+  return apiFetch<LeechSplitProposal>(`/api/leeches/recall-points/${pointId}/split-proposal`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Splits a leech into new points and suspends the original.
+ *
+ * @param pointId - ID of the recall point
+ * @param parts - The new points, 2-5 of them
+ * @returns The suspended original and the new points
+ * @throws ApiError if the point is not found, the parts are invalid, or other errors
+ */
+export async function splitLeech(pointId: string, parts: LeechSplitPart[]): Promise<LeechSplitResult> {
+  return apiFetch<LeechSplitResult>(`/api/leeches/recall-points/${pointId}/split`, {
+    method: 'POST',
+    body: { parts },
+  });
+}
+
+/**
+ * Rewrites a leech and starts its schedule over as a new point.
+ *
+ * @param pointId - ID of the recall point
+ * @param data - New content and/or context
+ * @returns The rewritten point
+ * @throws ApiError if the point is not found, neither field is given, or other errors
+ */
+export async function rewriteLeech(pointId: string, data: UpdateRecallPointInput): Promise<RecallPoint> {
+  return apiFetch<RecallPoint>(`/api/leeches/recall-points/${pointId}/rewrite`, {
+    method: 'POST',
+    body: data,
+  });
+}
+
+/**
+ * Suspends a recall point, or puts it back into scheduling.
+ *
+ * @param pointId - ID of the recall point
+ * @param suspended - Whether the point should be suspended
+ * @returns The updated point
+ * @throws ApiError if the point is not found or on failure
+ */
+export async function setPointSuspended(pointId: string, suspended: boolean): Promise<RecallPoint> {
+  return apiFetch<RecallPoint>(`/api/leeches/recall-points/${pointId}/suspend`, {
+    method: suspended ? 'POST' : 'DELETE',
+  });
+}
+
+/**
+ * Marks a recall point for a deep-dive session, or clears the mark.
+ *
+ * @param pointId - ID of the recall point
+ * @param requested - Whether the point should be marked
+ * @returns The updated point
+ * @throws ApiError if the point is not found, is suspended (when marking), or other errors
+ */
+export async function setDeepDiveRequested(pointId: string, requested: boolean): Promise<RecallPoint> {
+  return apiFetch<RecallPoint>(`/api/leeches/recall-points/${pointId}/deep-dive`, {
+    method: requested ? 'POST' : 'DELETE',
+  });
+}
+
 // ============================================================================
 // Sessions API Functions
 // ============================================================================
@@ -346,6 +501,7 @@ export async function getSessions(filters?: SessionFilters): Promise<SessionList
     if (filters.limit !== undefined) params.set('limit', String(filters.limit));
     if (filters.offset !== undefined) params.set('offset', String(filters.offset));
     if (filters.status) params.set('status', filters.status);
+    if (filters.mode) params.set('mode', filters.mode);
   }
 
   const queryString = params.toString();
@@ -379,16 +535,46 @@ export async function getSessionTranscript(id: string): Promise<TranscriptRespon
 
 /**
  * Starts a new study session for a recall set.
- * If an in-progress session exists, returns that session instead.
+ * If an in-progress session of the same mode exists, returns that session instead.
  *
  * @param recallSetId - Recall set to study
+ * @param mode - 'practice' to study without changing the review schedule, or
+ *               'deep-dive' for the points marked for one
  * @returns Session ID and status (new or resumed)
- * @throws ApiError if set not found, inactive, has no points, or other errors
+ * @throws ApiError if set not found, inactive, has no points (or none marked
+ *         for a deep dive), or other errors
  */
-export async function startSession(recallSetId: string): Promise<StartSessionResponse> {
+export async function startSession(
+  recallSetId: string,
+  mode: SessionMode = 'review'
+): Promise<StartSessionResponse> {
   return apiFetch<StartSessionResponse>('/api/sessions/start', {
     method: 'POST',
-    body: { recallSetId },
+    body: { recallSetId, mode },
+  });
+}
+
+/**
+ * Previews today's daily review: the most urgent due points across all
+ * active recall sets, and how many sessions they make up.
+ *
+ * @returns Sessions ready, due point count, and the next session's plan
+ * @throws ApiError on failure
+ */
+export async function getDailyReview(): Promise<DailyReviewPreview> {
+  return apiFetch<DailyReviewPreview>('/api/sessions/daily-review');
+}
+
+/**
+ * Starts a daily review session across all active recall sets.
+ * If an in-progress daily review exists, returns that session instead.
+ *
+ * @returns Session ID and status (new or resumed)
+ * @throws ApiError if nothing is due or on failure
+ */
+export async function startDailyReview(): Promise<StartSessionResponse> {
+  return apiFetch<StartSessionResponse>('/api/sessions/daily-review/start', {
+    method: 'POST',
   });
 }
 
@@ -404,3 +590,216 @@ export async function abandonSession(id: string): Promise<AbandonSessionResponse
     method: 'POST',
   });
 }
+
+// ============================================================================
+// Session Annotations API Functions
+// ============================================================================
+
+/**
+ * Fetches the annotations on a session, oldest first.
+ *
+ * @param sessionId - Session identifier
+ * @returns The session's annotations
+ * @throws ApiError if the session is not found or on failure
+ */
+export async function getSessionAnnotations(sessionId: string): Promise<SessionAnnotation[]> {
+  return apiFetch<SessionAnnotation[]>(`/api/sessions/${sessionId}/annotations`);
+}
+
+/**
+ * Annotates a session, or one message of its transcript.
+ *
+ * @param sessionId - Session identifier
+ * @param data - Message index, note and tags
+ * @returns The created annotation
+ * @throws ApiError if the session is not found, validation fails, or other errors
+ */
+export async function createSessionAnnotation(
+  sessionId: string,
+  data: CreateSessionAnnotationInput
+): Promise<SessionAnnotation> {
+  return apiFetch<SessionAnnotation>(`/api/sessions/${sessionId}/annotations`, {
+    method: 'POST',
+    body: data,
+  });
+}
+
+/**
+ * Edits an annotation's note, tags or message.
+ *
+ * @param sessionId - Session identifier
+ * @param annotationId - Annotation identifier
+ * @param data - Fields to update
+ * @returns The updated annotation
+ * @throws ApiError if not found, validation fails, or other errors
+ */
+export async function updateSessionAnnotation(
+  sessionId: string,
+  annotationId: string,
+  data: UpdateSessionAnnotationInput
+): Promise<SessionAnnotation> {
+  return apiFetch<SessionAnnotation>(`/api/sessions/${sessionId}/annotations/${annotationId}`, {
+    method: 'PATCH',
+    body: data,
+  });
+}
+
+/**
+ * Deletes an annotation.
+ *
+ * @param sessionId - Session identifier
+ * @param annotationId - Annotation identifier
+ * @returns Deletion confirmation
+ * @throws ApiError if not found or on failure
+ */
+export async function deleteSessionAnnotation(
+  sessionId: string,
+  annotationId: string
+): Promise<DeleteSessionAnnotationResponse> {
+  return apiFetch<DeleteSessionAnnotationResponse>(
+    `/api/sessions/${sessionId}/annotations/${annotationId}`,
+    { method: 'DELETE' }
+  );
+}
+
+/**
+ * Fetches how often each annotation tag was used, per prompt version or
+ * recall set.
+ *
+ * @param filters - Optional grouping, prompt kind and recall set
+ * @returns The tag report
+ * @throws ApiError on invalid filters or failure
+ */
+export async function getAnnotationReport(
+  filters?: AnnotationReportFilters
+): Promise<AnnotationTagReport> {
+  const params = new URLSearchParams();
+
+  if (filters) {
+    if (filters.groupBy) params.set('groupBy', filters.groupBy);
+    if (filters.promptKind) params.set('promptKind', filters.promptKind);
+    if (filters.recallSetId) params.set('recallSetId', filters.recallSetId);
+  }
+
+  const queryString = params.toString();
+  const endpoint = queryString ? `/api/annotations/report?${queryString}` : '/api/annotations/report';
+
+  return apiFetch<AnnotationTagReport>(endpoint);
+}
+
+// ============================================================================
+// Tangent Candidates API Functions
+// ============================================================================
+
+/**
+ * Fetches the recall points proposed from a session's tangents, oldest first.
+ *
+ * @param sessionId - Session identifier
+ * @returns The session's tangent candidates, whatever their review status
+ * @throws ApiError if the session is not found or on failure
+ */
+export async function getSessionTangents(sessionId: string): Promise<TangentCandidate[]> {
+  return apiFetch<TangentCandidate[]>(`/api/sessions/${sessionId}/tangents`);
+}
+
+/**
+ * Proposes recall points from the session's tangents that haven't been
+ * followed up yet.
+ *
+ * @param sessionId - Session identifier
+ * @returns The candidates proposed in this run
+ * @throws ApiError if the session is not found, still in progress, or other errors
+ */
+export async function proposeSessionTangents(sessionId: string): Promise<TangentProposalResponse> {
+  return apiFetch<TangentProposalResponse>(`/api/sessions/${sessionId}/tangents`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Accepts a tangent candidate, adding it as a new recall point.
+ *
+ * @param sessionId - Session identifier
+ * @param candidateId - Candidate identifier
+ * @param data - Destination and optional edits
+ * @returns The accepted candidate
+ * @throws ApiError if not found, already reviewed, without a recall set, or other errors
+ */
+export async function acceptTangentCandidate(
+  sessionId: string,
+  candidateId: string,
+  data: AcceptTangentCandidateInput
+): Promise<TangentCandidate> {
+  return apiFetch<TangentCandidate>(`/api/sessions/${sessionId}/tangents/${candidateId}/accept`, {
+    method: 'POST',
+    body: data,
+  });
+}
+
+/**
+ * Dismisses a tangent candidate.
+ *
+ * @param sessionId - Session identifier
+ * @param candidateId - Candidate identifier
+ * @returns The dismissed candidate
+ * @throws ApiError if not found, already reviewed, or other errors
+ */
+export async function dismissTangentCandidate(
+  sessionId: string,
+  candidateId: string
+): Promise<TangentCandidate> {
+  return apiFetch<TangentCandidate>(`/api/sessions/${sessionId}/tangents/${candidateId}/dismiss`, {
+    method: 'POST',
+  });
+}
+
+// ============================================================================
+// Auth API Functions
+// ============================================================================
+
+/**
+ * Fetches the logged-in user.
+ *
+ * @returns The current user
+ * @throws ApiError with status 401 if not logged in
+ */
+export async function getCurrentUser(): Promise<AuthUser> {
+  return apiFetch<AuthUser>('/api/auth/me');
+}
+
+/**
+ * Logs in with email and password. The server sets the session cookie.
+ *
+ * @param data - Email and password
+ * @returns The logged-in user and token
+ * @throws ApiError with status 401 for wrong credentials
+ */
+export async function login(data: LoginInput): Promise<AuthSession> {
+  return apiFetch<AuthSession>('/api/auth/login', {
+    method: 'POST',
+    body: data,
+  });
+}
+
+/**
+ * Creates an account and logs it in.
+ *
+ * @param data - Email, display name, and password
+ * @returns The new user and token
+ * @throws ApiError if the email is taken (409) or registration is closed (403)
+ */
+export async function register(data: RegisterInput): Promise<AuthSession> {
+  return apiFetch<AuthSession>('/api/auth/register', {
+    method: 'POST',
+    body: data,
+  });
+}
+
+/**
+ * Logs out by clearing the session cookie.
+ */
+export async function logout(): Promise<void> {
+  await apiFetch<{ message: string }>('/api/auth/logout', {
+    method: 'POST',
+  });
+}
@@ -28,6 +28,11 @@ export function CreateRecallSet() {
       name: data.name,
       description: data.description || undefined,
       discussionSystemPrompt: data.discussionSystemPrompt || undefined,
+      desiredRetention: data.desiredRetention,
+      maximumIntervalDays: data.maximumIntervalDays,
+      maxPointsPerSession: data.maxPointsPerSession,
+      newPointsPerDay: data.newPointsPerDay,
+      leechLapseThreshold: data.leechLapseThreshold,
     });
     navigate(`/recall-sets/${newSet.id}`);
   };
@@ -4,17 +4,25 @@
  * The main landing page of the application that displays an overview of:
  * - User's learning progress and statistics (OverviewStats)
  * - Current and longest study streaks (StreakDisplay)
- * - Points due for review today (DuePointsCard)
+ * - Points due for review today, with the daily review across all recall
+ *   sets (DuePointsCard)
  * - Recent activity and session history (RecentSessionsList)
  * - Upcoming reviews in the next few days (UpcomingReviewsCard)
+ * - The projected review load for the next 30 or 90 days, per recall set
+ *   (ReviewForecastCard)
  *
- * This page uses the useDashboardOverview hook to fetch all dashboard data
- * in a single API call. It handles loading, error, and empty states gracefully.
+ * This page uses the useDashboardOverview hook to fetch the overview data
+ * in a single API call, and useReviewForecast for the forecast, which loads
+ * separately as its range changes. It handles loading, error, and empty
+ * states gracefully.
  *
  * @route /
  */
 
-import { useDashboardOverview } from '@/hooks/api/use-dashboard';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDashboardOverview, useReviewForecast } from '@/hooks/api/use-dashboard';
+import { useDailyReview, useStartDailyReview } from '@/hooks/api/use-sessions';
 import { Spinner, Button } from '@/components/ui';
 import {
   OverviewStats,
@@ -22,6 +30,8 @@ import {
   RecentSessionsList,
   UpcomingReviewsCard,
   StreakDisplay,
+  ReviewForecastCard,
+  type ForecastRange,
 } from '@/components/dashboard';
 
 // ============================================================================
@@ -101,6 +111,7 @@ function DashboardError({
  * - Two-column layout:
  *   - Left column: Due points card + Recent sessions
  *   - Right column: Streak display + Upcoming reviews
+ * - Full-width review forecast chart
  *
  * The layout is responsive:
  * - Mobile: single column, stacked sections
@@ -115,6 +126,18 @@ export function Dashboard() {
     error,
     refetch,
   } = useDashboardOverview();
+  const navigate = useNavigate();
+  const { data: dailyReview } = useDailyReview();
+  const startDailyReviewMutation = useStartDailyReview();
+  const [forecastDays, setForecastDays] = useState<ForecastRange>(30);
+  const forecast = useReviewForecast(forecastDays);
+
+  /** Starts (or resumes) the daily review and opens the live session. */
+  const handleStartDailyReview = () => {
+    startDailyReviewMutation.mutate(undefined, {
+      onSuccess: (result) => navigate(`/session/${result.sessionId}`),
+    });
+  };
 
   // Show loading state while data is being fetched
   if (isLoading) {
@@ -206,6 +229,11 @@ export function Dashboard() {
             duePoints={pointsDueToday}
             todaysSessions={todaysSessions}
             todaysStudyTimeMs={todaysStudyTimeMs}
+            sessionsReady={
+              dailyReview?.inProgressSessionId ? Math.max(dailyReview.sessionsReady, 1) : dailyReview?.sessionsReady
+            }
+            onStartDailyReview={handleStartDailyReview}
+            isStartingDailyReview={startDailyReviewMutation.isPending}
           />
 
           {/* Recent sessions list - shows recent study activity */}
@@ -237,6 +265,18 @@ export function Dashboard() {
           />
         </div>
       </section>
+
+      {/* Review forecast - projected load per recall set */}
+      <section className="mt-4 sm:mt-6">
+        <ReviewForecastCard
+          forecast={forecast.data}
+          days={forecastDays}
+          onDaysChange={setForecastDays}
+          isLoading={forecast.isLoading}
+          error={forecast.error}
+          onRetry={() => forecast.refetch()}
+        />
+      </section>
     </div>
   );
 }
@@ -11,10 +11,11 @@
  * - Progress tracking through recall points
  * - "I've got it" button to trigger evaluation
  * - Session completion summary
+ * - Practice mode, which studies any points without changing their review schedule
  *
  * Flow:
  * 1. If sessionId is in URL, connect to existing session
- * 2. If no sessionId, show start screen to select recall set
+ * 2. If no sessionId, show start screen to select recall set (and mode)
  * 3. On selection, call startSession API and navigate to session
  *
  * The singular route (/session/:id vs /sessions/:id) distinguishes
@@ -51,6 +52,9 @@ function StartSessionScreen() {
   // Selected recall set ID
   const [selectedSetId, setSelectedSetId] = useState<string | null>(null);
 
+  // Practice sessions leave the set's review schedule untouched
+  const [practice, setPractice] = useState(false);
+
   /**
    * Handle starting a new session.
    */
@@ -58,7 +62,10 @@ function StartSessionScreen() {
     if (!selectedSetId) return;
 
     try {
-      const response = await startMutation.mutateAsync(selectedSetId);
+      const response = await startMutation.mutateAsync({
+        recallSetId: selectedSetId,
+        mode: practice ? 'practice' : 'review',
+      });
       // Navigate to the live session with the new session ID
       navigate(`/session/${response.sessionId}`);
     } catch (error) {
@@ -228,6 +235,25 @@ function StartSessionScreen() {
                 </div>
               )}
 
+              {/* Practice toggle */}
+              {(availableSets.length > 0 || otherSets.length > 0) && (
+                <label className="flex items-start gap-3 p-4 rounded-xl bg-clarity-700/30 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={practice}
+                    onChange={(event) => setPractice(event.target.checked)}
+                    className="mt-1 h-4 w-4 accent-clarity-400"
+                  />
+                  <span>
+                    <span className="block text-white font-medium">Practice mode</span>
+                    <span className="block text-clarity-400 text-sm">
+                      Cram any points of the set, due or not. Your answers are still evaluated
+                      and recorded, but when points are next due doesn't change.
+                    </span>
+                  </span>
+                </label>
+              )}
+
               {/* Start button */}
               {(availableSets.length > 0 || otherSets.length > 0) && (
                 <div className="flex justify-center mt-8">
@@ -239,7 +265,11 @@ function StartSessionScreen() {
                     isLoading={startMutation.isPending}
                     className="min-w-[200px]"
                   >
-                    {startMutation.isPending ? 'Starting...' : 'Start Session'}
+                    {startMutation.isPending
+                      ? 'Starting...'
+                      : practice
+                        ? 'Start Practice'
+                        : 'Start Session'}
                   </Button>
                 </div>
               )}
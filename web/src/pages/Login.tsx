@@ -0,0 +1,134 @@
+/**
+ * Login Page Component
+ *
+ * Shown instead of the router whenever nobody is logged in. Offers both
+ * login and account creation; the mode toggles in place.
+ *
+ * The first account created on a server takes ownership of any recall sets
+ * and sessions that existed before accounts were enabled. After that, the
+ * server may close registration (AUTH_ALLOW_REGISTRATION=false), in which
+ * case creating an account returns a 403 that is shown as a form error.
+ */
+
+import { useState, type FormEvent } from 'react';
+import { Button, Card, Input } from '@/components/ui';
+import { useUser } from '@/hooks/use-user';
+
+/**
+ * Which form is shown.
+ */
+type Mode = 'login' | 'register';
+
+/**
+ * Login / create account page.
+ */
+export function Login() {
+  const { login, register } = useUser();
+
+  const [mode, setMode] = useState<Mode>('login');
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Submit the current form. On success UserContext stores the user and the
+   * app renders the router instead of this page.
+   */
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      if (mode === 'login') {
+        await login({ email, password });
+      } else {
+        await register({ email, name, password });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Switch between login and registration, clearing any error.
+   */
+  const toggleMode = () => {
+    setMode((prev) => (prev === 'login' ? 'register' : 'login'));
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-clarity-50 px-4">
+      <Card className="w-full max-w-sm p-6">
+        {/* Branding */}
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 rounded-lg bg-clarity-600 flex items-center justify-center text-white text-xl font-bold shrink-0">
+            CC
+          </div>
+          <h1 className="text-xl font-semibold text-clarity-800">
+            {mode === 'login' ? 'Log in' : 'Create an account'}
+          </h1>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            label="Email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+
+          {mode === 'register' && (
+            <Input
+              label="Name"
+              autoComplete="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          )}
+
+          <Input
+            label="Password"
+            type="password"
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            helperText={mode === 'register' ? 'At least 8 characters' : undefined}
+            minLength={mode === 'register' ? 8 : undefined}
+            required
+          />
+
+          {error && (
+            <p className="text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+
+          <Button type="submit" className="w-full" isLoading={isSubmitting}>
+            {mode === 'login' ? 'Log in' : 'Create account'}
+          </Button>
+        </form>
+
+        <p className="mt-4 text-sm text-center text-clarity-600">
+          {mode === 'login' ? 'No account yet?' : 'Already have an account?'}{' '}
+          <button
+            type="button"
+            onClick={toggleMode}
+            className="text-clarity-700 font-medium hover:text-clarity-900 underline"
+          >
+            {mode === 'login' ? 'Create one' : 'Log in'}
+          </button>
+        </p>
+      </Card>
+    </div>
+  );
+}
+
+export default Login;
@@ -6,6 +6,8 @@
  * - Summary statistics (total points, due points, new points, sessions)
  * - Point status breakdown chart (pie chart by FSRS state)
  * - Recall rate over time chart (line chart)
+ * - Memory section: retention curves and stability distribution
+ * - Leech remediation queue: split, rewrite, suspend, or mark for a deep dive
  * - List of all recall points with add/edit/delete functionality
  * - Session history for this set
  *
@@ -31,6 +33,10 @@ import {
   StatsOverview,
   PointStatusBreakdown,
   RecallRateChart,
+  RetentionCurveChart,
+  StabilityHistogram,
+  LeechesCard,
+  LeechSplitModal,
   PointsList,
   SessionHistoryTable,
 } from '@/components/recall-set-detail';
@@ -43,7 +49,14 @@ import {
   useUpdateRecallPoint,
   useDeleteRecallPoint,
 } from '@/hooks/api/use-recall-sets';
-import { useSessions } from '@/hooks/api/use-sessions';
+import { useSessions, useStartSession } from '@/hooks/api/use-sessions';
+import { useRecallSetMemory } from '@/hooks/api/use-analytics';
+import {
+  useLeechQueue,
+  useRewriteLeech,
+  useSetPointSuspended,
+  useSetDeepDiveRequested,
+} from '@/hooks/api/use-leeches';
 import type { RecallPoint } from '@/types/api';
 
 // ============================================================================
@@ -57,7 +70,9 @@ type ModalState =
   | { type: 'deleteSet' }
   | { type: 'addPoint' }
   | { type: 'editPoint'; point: RecallPoint }
-  | { type: 'deletePoint'; point: RecallPoint };
+  | { type: 'deletePoint'; point: RecallPoint }
+  | { type: 'splitLeech'; point: RecallPoint }
+  | { type: 'rewriteLeech'; point: RecallPoint };
 
 // ============================================================================
 // Recall Set Detail Page Component
@@ -96,6 +111,18 @@ export function RecallSetDetail() {
     isLoading: isLoadingSessions,
   } = useSessions({ recallSetId: id, limit: 10 });
 
+  // Fetch retention curves and stability distribution
+  const {
+    data: memory,
+    isLoading: isLoadingMemory,
+  } = useRecallSetMemory(id ?? '');
+
+  // Fetch the leech remediation queue
+  const {
+    data: leechQueue,
+    isLoading: isLoadingLeeches,
+  } = useLeechQueue(id ?? '');
+
   // ============================================================================
   // Mutation Hooks
   // ============================================================================
@@ -109,6 +136,12 @@ export function RecallSetDetail() {
   const updatePointMutation = useUpdateRecallPoint(id ?? '');
   const deletePointMutation = useDeleteRecallPoint(id ?? '');
 
+  // Leech remedies (splitting is handled by LeechSplitModal)
+  const rewriteLeechMutation = useRewriteLeech(id ?? '');
+  const suspendMutation = useSetPointSuspended(id ?? '');
+  const deepDiveMutation = useSetDeepDiveRequested(id ?? '');
+  const startSessionMutation = useStartSession();
+
   // ============================================================================
   // Modal State Management
   // ============================================================================
@@ -154,6 +187,11 @@ export function RecallSetDetail() {
           name: data.name,
           description: data.description,
           discussionSystemPrompt: data.discussionSystemPrompt,
+          desiredRetention: data.desiredRetention,
+          maximumIntervalDays: data.maximumIntervalDays,
+          maxPointsPerSession: data.maxPointsPerSession,
+          newPointsPerDay: data.newPointsPerDay,
+          leechLapseThreshold: data.leechLapseThreshold,
         },
       });
 
@@ -249,10 +287,99 @@ export function RecallSetDetail() {
     closeModal();
   }, [modalState, deletePointMutation, closeModal]);
 
+  // ============================================================================
+  // Leech Remedy Handlers
+  // ============================================================================
+
+  /**
+   * Handle splitting a leech.
+   * Opens the split modal, which asks the LLM for a proposal.
+   */
+  const handleSplitLeech = useCallback((point: RecallPoint) => {
+    setModalState({ type: 'splitLeech', point });
+  }, []);
+
+  /**
+   * Handle rewriting a leech.
+   * Opens the rewrite modal with the point's current wording.
+   */
+  const handleRewriteLeech = useCallback((point: RecallPoint) => {
+    setModalState({ type: 'rewriteLeech', point });
+  }, []);
+
+  /**
+   * Submit handler for rewriting a leech.
+   * Saves the new wording (restarting the point's schedule) and closes the modal.
+   */
+  const handleRewriteLeechSubmit = useCallback(
+    async (data: RecallPointFormData) => {
+      if (modalState.type !== 'rewriteLeech') return;
+
+      await rewriteLeechMutation.mutateAsync({
+        pointId: modalState.point.id,
+        data: {
+          content: data.content,
+          context: data.context,
+        },
+      });
+
+      closeModal();
+    },
+    [modalState, rewriteLeechMutation, closeModal]
+  );
+
+  /**
+   * Handle suspending a leech, taking it out of reviews.
+   */
+  const handleSuspendLeech = useCallback(
+    (point: RecallPoint) => {
+      suspendMutation.mutate({ pointId: point.id, suspended: true });
+    },
+    [suspendMutation]
+  );
+
+  /**
+   * Handle marking a leech for a deep dive, or clearing its mark.
+   */
+  const handleToggleDeepDive = useCallback(
+    (point: RecallPoint) => {
+      deepDiveMutation.mutate({ pointId: point.id, requested: !point.deepDiveRequestedAt });
+    },
+    [deepDiveMutation]
+  );
+
+  /**
+   * Handle starting a deep-dive session over the marked points.
+   * Navigates to the live session once it has started.
+   */
+  const handleStartDeepDive = useCallback(async () => {
+    if (!id) return;
+
+    const response = await startSessionMutation.mutateAsync({ recallSetId: id, mode: 'deep-dive' });
+    navigate(`/session/${response.sessionId}`);
+  }, [id, startSessionMutation, navigate]);
+
   // ============================================================================
   // Computed Values
   // ============================================================================
 
+  /**
+   * IDs of the points flagged as leeches, for the badges in the points list.
+   */
+  const leechPointIds = useMemo(
+    () => new Set(leechQueue?.leeches.map((leech) => leech.point.id) ?? []),
+    [leechQueue]
+  );
+
+  /**
+   * The point a leech remedy is being applied to, if any.
+   */
+  const busyLeechId = suspendMutation.isPending
+    ? suspendMutation.variables?.pointId
+    : deepDiveMutation.isPending
+      ? deepDiveMutation.variables?.pointId
+      : null;
+
   /**
    * Calculate point status counts from the points array.
    * Groups points by their FSRS learning state.
@@ -376,10 +503,39 @@ export function RecallSetDetail() {
         <RecallRateChart isLoading={isLoadingPoints} />
       </section>
 
+      {/* Memory section - FSRS retention curves and stability */}
+      <section className="mb-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Memory</h2>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <RetentionCurveChart memory={memory} isLoading={isLoadingMemory} />
+          <StabilityHistogram
+            buckets={memory?.stabilityDistribution}
+            isLoading={isLoadingMemory}
+          />
+        </div>
+      </section>
+
+      {/* Leech remediation queue */}
+      <section className="mb-8">
+        <LeechesCard
+          leeches={leechQueue?.leeches}
+          lapseThreshold={leechQueue?.lapseThreshold}
+          isLoading={isLoadingLeeches}
+          busyPointId={busyLeechId}
+          isStartingDeepDive={startSessionMutation.isPending}
+          onSplit={handleSplitLeech}
+          onRewrite={handleRewriteLeech}
+          onSuspend={handleSuspendLeech}
+          onToggleDeepDive={handleToggleDeepDive}
+          onStartDeepDive={handleStartDeepDive}
+        />
+      </section>
+
       {/* Recall points list with CRUD actions */}
       <section className="mb-8">
         <PointsList
           points={recallPoints ?? []}
+          leechPointIds={leechPointIds}
           isLoading={isLoadingPoints}
           onAddPoint={handleAddPoint}
           onEditPoint={handleEditPoint}
@@ -412,6 +568,11 @@ export function RecallSetDetail() {
             name: recallSet.name,
             description: recallSet.description,
             discussionSystemPrompt: recallSet.discussionSystemPrompt,
+            desiredRetention: recallSet.desiredRetention,
+            maximumIntervalDays: recallSet.maximumIntervalDays,
+            maxPointsPerSession: recallSet.maxPointsPerSession,
+            newPointsPerDay: recallSet.newPointsPerDay,
+            leechLapseThreshold: recallSet.leechLapseThreshold,
           }}
           onSubmit={handleEditSetSubmit}
           onCancel={closeModal}
@@ -466,6 +627,40 @@ export function RecallSetDetail() {
         )}
       </Modal>
 
+      {/* Split Leech Modal */}
+      <LeechSplitModal
+        setId={id ?? ''}
+        point={modalState.type === 'splitLeech' ? modalState.point : null}
+        onClose={closeModal}
+      />
+
+      {/* Rewrite Leech Modal */}
+      <Modal
+        isOpen={modalState.type === 'rewriteLeech'}
+        onClose={closeModal}
+        title="Rewrite Leech"
+        className="max-w-2xl"
+      >
+        {modalState.type === 'rewriteLeech' && (
+          <>
+            <p className="text-sm text-gray-500 mb-4">
+              Saving starts the point's schedule over, as if it were new. Its review
+              history is kept.
+            </p>
+            <RecallPointForm
+              mode="edit"
+              initialData={{
+                content: modalState.point.content,
+                context: modalState.point.context,
+              }}
+              onSubmit={handleRewriteLeechSubmit}
+              onCancel={closeModal}
+              isLoading={rewriteLeechMutation.isPending}
+            />
+          </>
+        )}
+      </Modal>
+
       {/* Delete Recall Point Confirmation Modal */}
       {modalState.type === 'deletePoint' && (
         <DeleteConfirmModal
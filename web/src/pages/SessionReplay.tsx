@@ -6,7 +6,9 @@
  * - Complete conversation transcript with AI
  * - Evaluation markers showing recall results
  * - Rabbithole markers for tangent conversations
+ * - Recall points proposed from those tangents, to accept or dismiss
  * - Auto-scroll option for navigating the transcript
+ * - Notes and tags on the session or its messages, for prompt refinement
  *
  * Uses React Query hooks to fetch session data and transcript.
  *
@@ -15,15 +17,22 @@
 
 import { useState, useEffect, useRef, useMemo } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { useSession, useSessionTranscript } from '@/hooks/api/use-sessions';
+import {
+  useSession,
+  useSessionTranscript,
+  useSessionTangents,
+  useProposeTangents,
+} from '@/hooks/api/use-sessions';
 import { Spinner } from '@/components/ui/Spinner';
+import { Button } from '@/components/ui/Button';
 import { Card, CardBody } from '@/components/ui/Card';
 import {
   SessionSummary,
   TranscriptMessage,
   RabbitholeMarker,
+  AnnotationPanel,
 } from '@/components/session-replay';
-import type { TranscriptMessage as TranscriptMessageType } from '@/types/api';
+import type { TranscriptMessage as TranscriptMessageType, TangentCandidate } from '@/types/api';
 
 // ============================================================================
 // Types
@@ -79,7 +88,10 @@ function buildRecallPointContentMap(messages: TranscriptMessageType[]): RecallPo
  * - Displays session summary with key statistics
  * - Renders full conversation transcript with role-based styling
  * - Shows evaluation and rabbithole markers at correct positions
+ * - Shows each tangent's proposed recall point under its marker, and offers
+ *   to propose points for tangents that have none
  * - Supports auto-scroll to bottom of transcript
+ * - Shows the annotation panel below the transcript
  * - Handles loading and error states gracefully
  */
 export function SessionReplay() {
@@ -103,12 +115,24 @@ export function SessionReplay() {
     error: transcriptError,
   } = useSessionTranscript(id ?? '');
 
+  const { data: tangents } = useSessionTangents(id ?? '');
+  const proposeMutation = useProposeTangents();
+
   // Build recall point content map for evaluation markers
   const recallPointContentMap = useMemo(() => {
     if (!transcriptData?.messages) return {};
     return buildRecallPointContentMap(transcriptData.messages);
   }, [transcriptData?.messages]);
 
+  // Proposed recall points by the rabbithole they were summarized from
+  const tangentsByEventId = useMemo(() => {
+    const map: Record<string, TangentCandidate> = {};
+    for (const candidate of tangents ?? []) {
+      map[candidate.rabbitholeEventId] = candidate;
+    }
+    return map;
+  }, [tangents]);
+
   // Auto-scroll effect - scrolls to bottom when enabled and transcript changes
   useEffect(() => {
     if (autoScroll && transcriptEndRef.current) {
@@ -233,6 +257,14 @@ export function SessionReplay() {
     .filter((m) => m.rabbitholeMarker?.isTrigger && !m.rabbitholeMarker?.isReturn)
     .pop()?.rabbitholeMarker;
 
+  // Tangents of a finished session that have no proposed recall point yet,
+  // e.g. because the summary failed when the session ended
+  const hasUnproposedTangents =
+    session.status !== 'in_progress' &&
+    messages.some(
+      (m) => m.rabbitholeMarker?.isTrigger && !tangentsByEventId[m.rabbitholeMarker.eventId]
+    );
+
   // ============================================================================
   // Render Main Content
   // ============================================================================
@@ -316,6 +348,26 @@ export function SessionReplay() {
           </label>
         </div>
 
+        {/* Follow up tangents that have no proposed recall point yet */}
+        {hasUnproposedTangents && (
+          <div className="mb-4 flex flex-wrap items-center gap-3">
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => proposeMutation.mutate(session.id)}
+              isLoading={proposeMutation.isPending}
+            >
+              Suggest recall points from tangents
+            </Button>
+            {proposeMutation.data && proposeMutation.data.proposed.length === 0 && (
+              <p className="text-sm text-gray-500">Nothing in these tangents seemed worth keeping.</p>
+            )}
+            {proposeMutation.error && (
+              <p className="text-sm text-red-600">{proposeMutation.error.message}</p>
+            )}
+          </div>
+        )}
+
         {/* Active rabbithole indicator (if currently in a tangent) */}
         {activeRabbithole && (
           <div className="mb-4 flex justify-center">
@@ -347,6 +399,11 @@ export function SessionReplay() {
                         ? recallPointContentMap[message.evaluationMarker.recallPointId]
                         : undefined
                     }
+                    tangentCandidate={
+                      message.rabbitholeMarker?.isTrigger
+                        ? tangentsByEventId[message.rabbitholeMarker.eventId]
+                        : undefined
+                    }
                   />
                 ))}
 
@@ -365,6 +422,9 @@ export function SessionReplay() {
         )}
       </section>
 
+      {/* Notes and tags for prompt refinement */}
+      <AnnotationPanel sessionId={session.id} messages={messages} />
+
       {/* Action buttons - stack on mobile */}
       <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
         {/* Scroll to top button - 44px min height for touch */}
@@ -377,12 +437,14 @@ export function SessionReplay() {
         </button>
 
         {/* Link to start a new session with the same recall set */}
-        <Link
-          to={`/recall-sets/${session.recallSetId}`}
-          className="px-4 py-2 bg-clarity-600 text-white rounded-lg hover:bg-clarity-700 transition-all duration-150 font-medium min-h-[44px] text-center flex items-center justify-center active:scale-[0.98]"
-        >
-          View Recall Set
-        </Link>
+        {session.recallSetId !== null && (
+          <Link
+            to={`/recall-sets/${session.recallSetId}`}
+            className="px-4 py-2 bg-clarity-600 text-white rounded-lg hover:bg-clarity-700 transition-all duration-150 font-medium min-h-[44px] text-center flex items-center justify-center active:scale-[0.98]"
+          >
+            View Recall Set
+          </Link>
+        )}
       </div>
     </div>
   );
@@ -126,6 +126,7 @@ export function Sessions() {
       recallSetId: newFilters.recallSetId,
       startDate: newFilters.startDate,
       endDate: newFilters.endDate,
+      mode: newFilters.mode,
       // Reset to first page when filters change
       offset: 0,
     }));
@@ -143,6 +144,7 @@ export function Sessions() {
       recallSetId: undefined,
       startDate: undefined,
       endDate: undefined,
+      mode: undefined,
     });
   }, []);
 
@@ -187,6 +189,7 @@ export function Sessions() {
         recallSetId={filters.recallSetId}
         startDate={filters.startDate}
         endDate={filters.endDate}
+        mode={filters.mode}
         onApply={handleApplyFilters}
         onClear={handleClearFilters}
         isLoading={isFetchingSessions}
@@ -263,7 +266,7 @@ export function Sessions() {
           {/* No Results Message - Only show when filters are applied but no results */}
           {sessionsData &&
             sessionsData.pagination.total === 0 &&
-            (filters.recallSetId || filters.startDate || filters.endDate) && (
+            (filters.recallSetId || filters.startDate || filters.endDate || filters.mode) && (
               <p className="mt-4 text-center text-sm text-gray-500">
                 No sessions match your current filters. Try adjusting your
                 search criteria.
@@ -69,9 +69,9 @@ export type ApiResult<T> = ApiResponse<T> | ApiErrorResponse;
 export interface SessionSummary {
   /** Unique session identifier */
   id: string;
-  /** ID of the recall set studied */
-  recallSetId: string;
-  /** Human-readable name of the recall set */
+  /** ID of the recall set studied (null for a daily review) */
+  recallSetId: string | null;
+  /** Human-readable name of the recall set, or 'Daily review' */
   recallSetName: string;
   /** When the session started (ISO 8601 string) */
   startedAt: string;
@@ -83,6 +83,8 @@ export interface SessionSummary {
   engagementScore: number;
   /** Session lifecycle status */
   status: 'completed' | 'abandoned' | 'in_progress';
+  /** Whether the session scheduled reviews or was practice */
+  mode: SessionMode;
 }
 
 /**
@@ -170,6 +172,64 @@ export interface UpcomingReviewsResponse {
   days: number;
 }
 
+/**
+ * Projected review load of one recall set on one day of the forecast.
+ */
+export interface ForecastSetLoad {
+  /** ID of the recall set */
+  recallSetId: string;
+  /** Number of the set's points projected to be due that day */
+  dueCount: number;
+  /** Estimated minutes to review them */
+  estimatedMinutes: number;
+}
+
+/**
+ * Projected review load for one day of the forecast.
+ */
+export interface ForecastDay {
+  /** ISO date string (YYYY-MM-DD); the first day is today */
+  date: string;
+  /** Number of points projected to be due that day, across all sets */
+  dueCount: number;
+  /** Estimated minutes to review them, across all sets */
+  estimatedMinutes: number;
+  /** The load per recall set, for sets with points due that day */
+  recallSets: ForecastSetLoad[];
+}
+
+/**
+ * A recall set's part in the forecast.
+ */
+export interface ForecastRecallSet {
+  /** ID of the recall set */
+  recallSetId: string;
+  /** Human-readable name of the recall set */
+  recallSetName: string;
+  /** Historical minutes per reviewed point used for the estimate */
+  minutesPerPoint: number;
+  /** Reviews of the set's points projected over the forecast */
+  dueCount: number;
+  /** Estimated minutes for those reviews */
+  estimatedMinutes: number;
+}
+
+/**
+ * Response structure for the review forecast endpoint.
+ */
+export interface ReviewForecast {
+  /** Number of days forecast, starting today */
+  days: number;
+  /** The projected load for each day, in date order */
+  dailyLoad: ForecastDay[];
+  /** The active recall sets in the forecast */
+  recallSets: ForecastRecallSet[];
+  /** Reviews projected over the forecast, across all sets */
+  totalDueCount: number;
+  /** Estimated minutes for those reviews, across all sets */
+  totalEstimatedMinutes: number;
+}
+
 // ============================================================================
 // Recall Set Types
 // ============================================================================
@@ -191,10 +251,26 @@ export interface RecallSetSummary {
   newPoints: number;
 }
 
+/**
+ * Per-set scheduling settings. Null means the application default applies.
+ */
+export interface RecallSetSchedulingSettings {
+  /** Target probability of recall at review time (0.7-0.99) */
+  desiredRetention: number | null;
+  /** Longest interval a point can be scheduled ahead, in days */
+  maximumIntervalDays: number | null;
+  /** Most recall points per session */
+  maxPointsPerSession: number | null;
+  /** Most never-reviewed points introduced per day */
+  newPointsPerDay: number | null;
+  /** Lapses at which a point is flagged as a leech (null uses the default of 4) */
+  leechLapseThreshold: number | null;
+}
+
 /**
  * Recall set with summary statistics for list views.
  */
-export interface RecallSetWithSummary {
+export interface RecallSetWithSummary extends RecallSetSchedulingSettings {
   /** Unique identifier */
   id: string;
   /** Human-readable name */
@@ -216,7 +292,7 @@ export interface RecallSetWithSummary {
 /**
  * Input data for creating a new recall set.
  */
-export interface CreateRecallSetInput {
+export interface CreateRecallSetInput extends Partial<RecallSetSchedulingSettings> {
   /** Name of the recall set (1-100 characters) */
   name: string;
   /** Description of what this set covers */
@@ -227,9 +303,10 @@ export interface CreateRecallSetInput {
 
 /**
  * Input data for updating an existing recall set.
- * All fields are optional for partial updates.
+ * All fields are optional for partial updates; a null scheduling setting
+ * resets it to the default.
  */
-export interface UpdateRecallSetInput {
+export interface UpdateRecallSetInput extends Partial<RecallSetSchedulingSettings> {
   /** Updated name */
   name?: string;
   /** Updated description */
@@ -297,6 +374,10 @@ export interface RecallPoint {
   fsrsState: FSRSState;
   /** History of recall attempts */
   recallHistory: RecallAttempt[];
+  /** When the point was suspended from scheduling (ISO 8601 string or null) */
+  suspendedAt: string | null;
+  /** When the point was marked for a deep-dive session (ISO 8601 string or null) */
+  deepDiveRequestedAt: string | null;
   /** When the point was created (ISO 8601 string) */
   createdAt: string;
   /** When the point was last updated (ISO 8601 string) */
@@ -324,20 +405,194 @@ export interface UpdateRecallPointInput {
   context?: string;
 }
 
+// ============================================================================
+// Memory Analytics Types
+// ============================================================================
+
+/**
+ * A dated value on a retention curve.
+ */
+export interface RetentionSample {
+  /** The day the value is for (ISO 8601 string) */
+  date: string;
+  /** Probability of recall on that day (0.0 to 1.0) */
+  value: number;
+}
+
+/**
+ * Why a recall point is considered a leech.
+ */
+export type LeechReason = 'lapses' | 'flat-stability';
+
+/**
+ * A recall point that keeps being reviewed without sticking.
+ */
+export interface LeechPoint {
+  /** ID of the recall point */
+  recallPointId: string;
+  /** The content being tested */
+  content: string;
+  /** Times the point was forgotten after being learned */
+  lapses: number;
+  /** Times the point has been reviewed */
+  reps: number;
+  /** Current stability in days */
+  stability: number;
+  /** Why the point is a leech */
+  reasons: LeechReason[];
+}
+
+/**
+ * Number of reviewed points whose stability falls in a range.
+ */
+export interface StabilityBucket {
+  /** Display label of the range, e.g. '7-30d' */
+  label: string;
+  /** Lower bound in days (inclusive) */
+  minDays: number;
+  /** Upper bound in days (exclusive), or null for no bound */
+  maxDays: number | null;
+  /** Reviewed points in the range */
+  count: number;
+}
+
+/**
+ * The FSRS model's view of one recall point's memory.
+ */
+export interface PointMemoryState {
+  /** ID of the recall point */
+  recallPointId: string;
+  /** The content being tested */
+  content: string;
+  /** Current stability in days (0 if never reviewed) */
+  stability: number;
+  /** Current difficulty (1-10) */
+  difficulty: number;
+  /** Probability of recalling the point now (0 if never reviewed) */
+  retrievability: number;
+  /** Times the point has been reviewed */
+  reps: number;
+  /** Times the point was forgotten after being learned */
+  lapses: number;
+  /** When the point was last reviewed (ISO 8601 string or null) */
+  lastReview: string | null;
+  /** When the point is next due (ISO 8601 string) */
+  due: string;
+  /** Retrievability for each day from today without review (empty if never reviewed) */
+  retentionCurve: RetentionSample[];
+}
+
+/**
+ * Response structure for the recall set memory analytics endpoint.
+ */
+export interface RecallSetMemoryAnalytics {
+  /** ID of the recall set */
+  recallSetId: string;
+  /** Name of the recall set */
+  recallSetName: string;
+  /** Days after today the retention curves cover */
+  days: number;
+  /** Points reviewed at least once */
+  reviewedPointCount: number;
+  /** Points never reviewed */
+  newPointCount: number;
+  /** Average retrievability of the reviewed points now */
+  avgRetrievability: number;
+  /** Average retrievability of the reviewed points for each day from today */
+  retentionCurve: RetentionSample[];
+  /** Reviewed points by stability range, shortest first */
+  stabilityDistribution: StabilityBucket[];
+  /** The set's leeches, most lapses first */
+  leeches: LeechPoint[];
+  /** Memory state of every point in the set */
+  points: PointMemoryState[];
+}
+
+// ============================================================================
+// Leech Remediation Types
+// ============================================================================
+
+/**
+ * A leech in a recall set's remediation queue.
+ */
+export interface LeechQueueItem {
+  /** The recall point */
+  point: RecallPoint;
+  /** Why the point is a leech */
+  reasons: LeechReason[];
+}
+
+/**
+ * Response structure for a recall set's remediation queue.
+ */
+export interface LeechQueue {
+  /** ID of the recall set */
+  recallSetId: string;
+  /** Name of the recall set */
+  recallSetName: string;
+  /** Lapses at which the set's points are flagged */
+  lapseThreshold: number;
+  /** The set's leeches, most lapses first (suspended points are left out) */
+  leeches: LeechQueueItem[];
+}
+
+/**
+ * One of the smaller recall points a leech is split into.
+ */
+export interface LeechSplitPart {
+  /** The fact or idea to be recalled */
+  content: string;
+  /** Background for the tutor (may be empty) */
+  context: string;
+}
+
+/**
+ * Response structure for the split proposal endpoint.
+ */
+export interface LeechSplitProposal {
+  /** The proposed parts, 2-5 of them */
+  parts: LeechSplitPart[];
+}
+
+/**
+ * Response structure for splitting a leech.
+ */
+export interface LeechSplitResult {
+  /** The original point, now suspended */
+  original: RecallPoint;
+  /** The new points, in order */
+  created: RecallPoint[];
+}
+
 // ============================================================================
 // Session Types
 // ============================================================================
 
+/**
+ * Whether a session schedules reviews ('review'), is practice that leaves
+ * the points' review schedules unchanged ('practice'), or is a slower
+ * deep dive into the points marked for one ('deep-dive').
+ */
+export type SessionMode = 'review' | 'practice' | 'deep-dive';
+
+/**
+ * Rating a point is scheduled with, from the AI's evaluation or the
+ * learner's override.
+ */
+export type RecallRating = 'forgot' | 'hard' | 'good' | 'easy';
+
 /**
  * Session with optional metrics for list views.
  */
 export interface SessionWithMetrics {
   /** Session identifier */
   id: string;
-  /** Associated recall set ID */
-  recallSetId: string;
+  /** Associated recall set ID (null for a daily review) */
+  recallSetId: string | null;
   /** Session lifecycle status */
   status: 'completed' | 'abandoned' | 'in_progress';
+  /** Whether the session scheduled reviews or was practice */
+  mode: SessionMode;
   /** IDs of recall points targeted in this session */
   targetRecallPointIds: string[];
   /** When the session started (ISO 8601 string) */
@@ -394,6 +649,8 @@ export interface SessionFilters {
   offset?: number;
   /** Filter by status */
   status?: 'completed' | 'abandoned' | 'in_progress';
+  /** Filter by mode, e.g. 'review' to leave out practice sessions */
+  mode?: SessionMode;
 }
 
 /**
@@ -403,9 +660,10 @@ export interface SessionDetail {
   /** Session data */
   session: {
     id: string;
-    recallSetId: string;
+    recallSetId: string | null;
     recallSetName: string;
     status: string;
+    mode: SessionMode;
     targetRecallPointIds: string[];
     startedAt: string;
     endedAt: string | null;
@@ -492,6 +750,44 @@ export interface TranscriptResponse {
   totalMessages: number;
 }
 
+/**
+ * One point of a planned session, with what placed it there.
+ */
+export interface PlannedPoint {
+  /** Recall point identifier */
+  recallPointId: string;
+  /** Whether the point has been reviewed before or is being introduced */
+  kind: 'review' | 'new';
+  /** Predicted recall probability when planned (null for new points) */
+  retrievability: number | null;
+  /** Days past the point's due date when planned */
+  overdueDays: number;
+}
+
+/**
+ * The choices the session planner made for a new session.
+ */
+export interface SessionPlanSummary {
+  /** Session size cap applied, or null for no limit */
+  maxPoints: number | null;
+  /** Daily new point limit applied, or null for no limit */
+  newPointsPerDay: number | null;
+  /** New points still allowed today before planning, or null for no limit */
+  newAllowance: number | null;
+  /** Reviewed points in the session */
+  reviewCount: number;
+  /** New points in the session */
+  newCount: number;
+  /** Eligible points left for follow-up sessions by the session size cap */
+  deferredCount: number;
+  /** New points held back because today's allowance is used up */
+  newHeldBackCount: number;
+  /** Further sessions of the same size needed for the deferred points */
+  followUpSessions: number;
+  /** The session's points in study order */
+  order: PlannedPoint[];
+}
+
 /**
  * Response from starting a new session.
  */
@@ -504,6 +800,26 @@ export interface StartSessionResponse {
   targetRecallPointCount?: number;
   /** Whether this is resuming an existing session */
   isResume: boolean;
+  /** Whether the session schedules reviews or is practice (not for daily reviews) */
+  mode?: SessionMode;
+  /** How the session was planned (only for new sessions) */
+  plan?: SessionPlanSummary;
+}
+
+/**
+ * Preview of today's daily review across all active recall sets.
+ */
+export interface DailyReviewPreview {
+  /** Sessions needed to review every due point, at the session size cap */
+  sessionsReady: number;
+  /** Due points across all active recall sets (after new point limits) */
+  duePointCount: number;
+  /** The in-progress daily review, if one was started and not finished */
+  inProgressSessionId: string | null;
+  /** Recall sets drawn on by the next session, with their point counts */
+  recallSets: Array<{ recallSetId: string; recallSetName: string; pointCount: number }>;
+  /** How the next session would be planned */
+  plan: SessionPlanSummary;
 }
 
 /**
@@ -527,3 +843,230 @@ export interface DeleteRecallPointResponse {
   /** Deleted point ID */
   id: string;
 }
+
+// ============================================================================
+// Session Annotation Types
+// ============================================================================
+
+/**
+ * A note with tags on a session, or on one message of its transcript.
+ */
+export interface SessionAnnotation {
+  /** Annotation identifier */
+  id: string;
+  /** The annotated session */
+  sessionId: string;
+  /** Index of the annotated message, or null for the whole session */
+  messageIndex: number | null;
+  /** Free-text note (may be empty) */
+  note: string;
+  /** Lowercase tags (e.g., 'too long') */
+  tags: string[];
+  /** When the annotation was made (ISO 8601 string) */
+  createdAt: string;
+  /** When the annotation was last edited (ISO 8601 string) */
+  updatedAt: string;
+}
+
+/**
+ * Input for annotating a session. Needs a note or at least one tag.
+ */
+export interface CreateSessionAnnotationInput {
+  /** Index of the annotated message (omit or null for the whole session) */
+  messageIndex?: number | null;
+  /** Free-text note */
+  note?: string;
+  /** Tags, normalized to lowercase by the server */
+  tags?: string[];
+}
+
+/**
+ * Input for editing an annotation. All fields are optional.
+ */
+export type UpdateSessionAnnotationInput = CreateSessionAnnotationInput;
+
+/**
+ * Response from deleting an annotation.
+ */
+export interface DeleteSessionAnnotationResponse {
+  /** Success message */
+  message: string;
+  /** Deleted annotation ID */
+  id: string;
+}
+
+/**
+ * What annotation tag reports are grouped by.
+ */
+export type AnnotationGrouping = 'prompt-version' | 'recall-set';
+
+/**
+ * Filters for the annotation tag report.
+ */
+export interface AnnotationReportFilters {
+  /** Group by prompt version (default) or recall set */
+  groupBy?: AnnotationGrouping;
+  /** Whose prompt versions to group by (default 'tutor') */
+  promptKind?: 'tutor' | 'evaluator' | 'rabbithole';
+  /** Restrict the report to one recall set */
+  recallSetId?: string;
+}
+
+/**
+ * How often one tag was used within a report group.
+ */
+export interface AnnotationTagCount {
+  /** The tag */
+  tag: string;
+  /** Annotations in the group with this tag */
+  count: number;
+  /** Annotated sessions in the group with this tag */
+  sessionCount: number;
+}
+
+/**
+ * Tag counts for one prompt version or recall set.
+ */
+export interface AnnotationTagGroup {
+  /** Prompt version or recall set ID (null for unrecorded versions or daily reviews) */
+  key: string | null;
+  /** Display name of the group */
+  label: string;
+  /** Annotations in the group */
+  annotationCount: number;
+  /** Annotated sessions in the group */
+  sessionCount: number;
+  /** Tags used in the group, most frequent first */
+  tags: AnnotationTagCount[];
+}
+
+/**
+ * Tag frequencies of annotations by prompt version or recall set.
+ */
+export interface AnnotationTagReport {
+  /** What the annotations are grouped by */
+  groupBy: AnnotationGrouping;
+  /** Prompt kind whose versions define the groups (null for recall sets) */
+  promptKind: 'tutor' | 'evaluator' | 'rabbithole' | null;
+  /** Annotations in the report */
+  annotationCount: number;
+  /** The groups, most annotated first */
+  groups: AnnotationTagGroup[];
+}
+
+// ============================================================================
+// Tangent Candidate Types
+// ============================================================================
+
+/**
+ * Review status of a tangent candidate.
+ */
+export type TangentCandidateStatus = 'pending' | 'accepted' | 'dismissed';
+
+/**
+ * Where an accepted tangent candidate is added: its recall set, or the
+ * "Tangents" inbox set.
+ */
+export type TangentDestination = 'set' | 'inbox';
+
+/**
+ * A recall point proposed from one of a session's rabbitholes.
+ */
+export interface TangentCandidate {
+  /** Candidate identifier */
+  id: string;
+  /** The session the tangent happened in */
+  sessionId: string;
+  /** The rabbithole it was summarized from (matches RabbitholeMarker.eventId) */
+  rabbitholeEventId: string;
+  /** Recall set it belongs with (null if unknown; then only the inbox is offered) */
+  recallSetId: string | null;
+  /** The tangent's topic */
+  topic: string;
+  /** The proposed recall point */
+  content: string;
+  /** Supporting context for the proposed point */
+  context: string;
+  /** Review status */
+  status: TangentCandidateStatus;
+  /** The recall point created on acceptance */
+  recallPointId: string | null;
+  /** When it was proposed (ISO 8601 string) */
+  createdAt: string;
+  /** When it was accepted or dismissed (ISO 8601 string) */
+  reviewedAt: string | null;
+}
+
+/**
+ * Response from proposing candidates for a session's tangents.
+ */
+export interface TangentProposalResponse {
+  /** The session */
+  sessionId: string;
+  /** Candidates proposed in this run */
+  proposed: TangentCandidate[];
+  /** Finished tangents the summary found nothing worth keeping in */
+  skippedCount: number;
+}
+
+/**
+ * Input for accepting a tangent candidate.
+ */
+export interface AcceptTangentCandidateInput {
+  /** The candidate's recall set (default) or the inbox set */
+  destination?: TangentDestination;
+  /** Edited content */
+  content?: string;
+  /** Edited context */
+  context?: string;
+}
+
+// ============================================================================
+// Auth Types
+// ============================================================================
+
+/**
+ * An account on the server. Recall sets and sessions belong to one user.
+ */
+export interface AuthUser {
+  /** Unique identifier (usr_...) */
+  id: string;
+  /** Login email address */
+  email: string;
+  /** Display name */
+  name: string;
+  /** When the account was created */
+  createdAt: string;
+  /** Most recent successful login, or null */
+  lastLoginAt: string | null;
+}
+
+/**
+ * Response from registering or logging in.
+ * The server also sets an httpOnly session cookie.
+ */
+export interface AuthSession {
+  /** The logged-in user */
+  user: AuthUser;
+  /** Login token (for API clients that cannot use cookies) */
+  token: string;
+  /** When the token expires */
+  expiresAt: string;
+}
+
+/**
+ * Input for logging in.
+ */
+export interface LoginInput {
+  email: string;
+  password: string;
+}
+
+/**
+ * Input for creating an account.
+ */
+export interface RegisterInput {
+  email: string;
+  name: string;
+  password: string;
+}